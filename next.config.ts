@@ -345,7 +345,7 @@ const nextConfig: NextConfig = {
 		],
 	},
 	outputFileTracingIncludes: {
-		"*": ["./docs/**/*", "./src/content/**/*"],
+		"*": ["./docs/**/*", "./src/content/**/*", "./.cache/docs-index.json"],
 	},
 
 	/*
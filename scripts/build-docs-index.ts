@@ -0,0 +1,32 @@
+import OpenAI from "openai";
+import { buildDocsIndex, writeDocsIndex } from "@/server/docs-search";
+
+/**
+ * Builds the docs search index before `next build`
+ * Embeddings are added when OPENAI_API_KEY is set, unless DISABLE_OPENAI or
+ * DISABLE_DOCS_EMBEDDINGS is true. Failing to embed never fails the build.
+ */
+async function main() {
+	console.log("🔎 Building docs search index...");
+
+	const useEmbeddings =
+		!!process.env.OPENAI_API_KEY &&
+		process.env.DISABLE_OPENAI !== "true" &&
+		process.env.DISABLE_DOCS_EMBEDDINGS !== "true";
+
+	const index = await buildDocsIndex({
+		embeddingClient: useEmbeddings ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY }) : null,
+	});
+	const path = await writeDocsIndex(index);
+
+	console.log(
+		`✅ Indexed ${index.chunks.length} chunks${
+			index.embeddingModel ? ` with ${index.embeddingModel} embeddings` : " (keyword search only)"
+		} to ${path}`
+	);
+}
+
+main().catch((error) => {
+	console.error("❌ Error building docs search index:", error);
+	process.exit(1);
+});
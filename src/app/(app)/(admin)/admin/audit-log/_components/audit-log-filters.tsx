@@ -0,0 +1,109 @@
+"use client";
+
+import { FilterIcon } from "lucide-react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuGroup,
+	DropdownMenuItem,
+	DropdownMenuLabel,
+	DropdownMenuSeparator,
+	DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { cn } from "@/lib/utils";
+
+// Actions are filtered by prefix, so each group matches every action under it
+const ACTION_GROUPS = [
+	{ value: "team.", label: "Teams" },
+	{ value: "api_key.", label: "API keys" },
+	{ value: "credits.", label: "Credits" },
+	{ value: "payments.", label: "Payments" },
+	{ value: "rbac.", label: "Roles" },
+	{ value: "user.", label: "Users" },
+];
+
+type FilterKey = "action" | "actorId" | "teamId";
+
+export function AuditLogFilters() {
+	const router = useRouter();
+	const pathname = usePathname();
+	const searchParams = useSearchParams();
+
+	const currentAction = searchParams?.get("action") ?? null;
+	const currentActor = searchParams?.get("actorId") ?? null;
+	const currentTeam = searchParams?.get("teamId") ?? null;
+
+	// Update a single filter parameter, keeping the others
+	const setFilter = (key: FilterKey, value: string | null) => {
+		const params = new URLSearchParams(searchParams?.toString());
+
+		if (value) {
+			params.set(key, value);
+		} else {
+			params.delete(key);
+		}
+
+		router.push(`${pathname}?${params.toString()}`);
+	};
+
+	const activeFilters = [currentAction, currentActor && "actor", currentTeam && "team"].filter(
+		Boolean
+	);
+
+	return (
+		<DropdownMenu>
+			<DropdownMenuTrigger asChild>
+				<Button variant="outline" className="relative">
+					<FilterIcon className="h-4 w-4 mr-2" />
+					Filter
+					{activeFilters.length > 0 && (
+						<Badge variant="secondary" className="ml-2 px-1 py-0 h-5">
+							{activeFilters.join(", ")}
+						</Badge>
+					)}
+				</Button>
+			</DropdownMenuTrigger>
+			<DropdownMenuContent align="end" className="w-[240px]">
+				<DropdownMenuLabel>Action</DropdownMenuLabel>
+				<DropdownMenuGroup>
+					<DropdownMenuItem
+						className={cn(!currentAction && "bg-accent")}
+						onClick={() => setFilter("action", null)}
+					>
+						All Actions
+					</DropdownMenuItem>
+					{ACTION_GROUPS.map((group) => (
+						<DropdownMenuItem
+							key={group.value}
+							className={cn(currentAction === group.value && "bg-accent")}
+							onClick={() => setFilter("action", group.value)}
+						>
+							{group.label}
+						</DropdownMenuItem>
+					))}
+				</DropdownMenuGroup>
+				{(currentActor || currentTeam) && (
+					<>
+						<DropdownMenuSeparator />
+						<DropdownMenuLabel>Scope</DropdownMenuLabel>
+						<DropdownMenuGroup>
+							{currentActor && (
+								<DropdownMenuItem onClick={() => setFilter("actorId", null)}>
+									Clear actor filter
+								</DropdownMenuItem>
+							)}
+							{currentTeam && (
+								<DropdownMenuItem onClick={() => setFilter("teamId", null)}>
+									Clear team filter
+								</DropdownMenuItem>
+							)}
+						</DropdownMenuGroup>
+					</>
+				)}
+			</DropdownMenuContent>
+		</DropdownMenu>
+	);
+}
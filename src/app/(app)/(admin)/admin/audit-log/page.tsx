@@ -0,0 +1,58 @@
+import type { Metadata } from "next";
+import {
+	PageHeader,
+	PageHeaderDescription,
+	PageHeaderHeading,
+} from "@/components/primitives/page-header";
+import { AuditLogTable } from "@/components/modules/audit/audit-log-table";
+import { constructMetadata } from "@/config/metadata";
+import { auditService } from "@/server/services/audit-service";
+import { AuditLogFilters } from "./_components/audit-log-filters";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = constructMetadata({
+	title: "Audit Log",
+	description: "Review who changed what across teams, API keys, credits and payments.",
+	noIndex: true,
+});
+
+export interface AuditLogPageProps {
+	searchParams: Promise<{
+		action?: string;
+		actorId?: string;
+		teamId?: string;
+	}>;
+}
+
+/**
+ * Admin audit log page that lists security-relevant actions,
+ * filterable by action, actor and team
+ */
+export default async function AuditLogPage({
+	searchParams: searchParamsPromise,
+}: AuditLogPageProps) {
+	const searchParams = await searchParamsPromise;
+	const entries = await auditService.list({
+		action: searchParams.action,
+		actorId: searchParams.actorId,
+		teamId: searchParams.teamId,
+		limit: 500,
+	});
+
+	return (
+		<>
+			<div className="flex justify-between items-center mb-6">
+				<PageHeader>
+					<PageHeaderHeading>Audit Log</PageHeaderHeading>
+					<PageHeaderDescription>
+						Member and role changes, API keys, credit adjustments, payment imports and account
+						deletions, with the actor, IP address and before/after values.
+					</PageHeaderDescription>
+				</PageHeader>
+				<AuditLogFilters />
+			</div>
+			<AuditLogTable entries={entries} />
+		</>
+	);
+}
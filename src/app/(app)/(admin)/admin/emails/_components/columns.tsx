@@ -0,0 +1,65 @@
+"use client";
+
+import type { ColumnDef } from "@tanstack/react-table";
+import { format } from "date-fns";
+import { ArrowUpDown } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { EmailLog } from "@/server/db/schema";
+
+export const columns: ColumnDef<EmailLog>[] = [
+	{
+		accessorKey: "createdAt",
+		header: ({ column }) => (
+			<Button variant="ghost" onClick={() => column.toggleSorting(column.getIsSorted() === "asc")}>
+				Sent
+				<ArrowUpDown className="ml-2 h-4 w-4" />
+			</Button>
+		),
+		cell: ({ row }) => format(new Date(row.original.createdAt), "MMM d, yyyy HH:mm:ss"),
+	},
+	{
+		accessorKey: "to",
+		header: "Recipient",
+		cell: ({ row }) => <div className="font-medium">{row.original.to}</div>,
+	},
+	{
+		accessorKey: "template",
+		header: "Template",
+		cell: ({ row }) => <Badge variant="outline">{row.original.template}</Badge>,
+	},
+	{
+		accessorKey: "subject",
+		header: "Subject",
+		cell: ({ row }) => (
+			<div className="max-w-[280px] truncate" title={row.original.subject}>
+				{row.original.subject}
+			</div>
+		),
+	},
+	{
+		accessorKey: "status",
+		header: "Status",
+		cell: ({ row }) => (
+			<Badge variant={row.original.status === "sent" ? "default" : "destructive"}>
+				{row.original.status.charAt(0).toUpperCase() + row.original.status.slice(1)}
+			</Badge>
+		),
+	},
+	{
+		accessorKey: "transport",
+		header: "Via",
+	},
+	{
+		accessorKey: "error",
+		header: "Error",
+		cell: ({ row }) => (
+			<div
+				className="max-w-[280px] truncate text-sm text-muted-foreground"
+				title={row.original.error ?? row.original.messageId ?? ""}
+			>
+				{row.original.error ?? "—"}
+			</div>
+		),
+	},
+];
@@ -0,0 +1,122 @@
+"use client";
+
+import { FilterIcon } from "lucide-react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuGroup,
+	DropdownMenuItem,
+	DropdownMenuLabel,
+	DropdownMenuSeparator,
+	DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { cn } from "@/lib/utils";
+
+const STATUSES = ["sent", "failed"];
+const TEMPLATES = [
+	"welcome",
+	"verify-email",
+	"reset-password",
+	"team-invite",
+	"receipt",
+	"payment-refunded",
+	"subscription-ending",
+	"waitlist-welcome",
+	"waitlist-launch",
+	"feedback-reply",
+];
+
+type FilterKey = "status" | "template" | "to";
+
+export function EmailLogFilters() {
+	const router = useRouter();
+	const pathname = usePathname();
+	const searchParams = useSearchParams();
+
+	const currentStatus = searchParams?.get("status") ?? null;
+	const currentTemplate = searchParams?.get("template") ?? null;
+	const currentRecipient = searchParams?.get("to") ?? null;
+
+	// Update a single filter parameter, keeping the others
+	const setFilter = (key: FilterKey, value: string | null) => {
+		const params = new URLSearchParams(searchParams?.toString());
+
+		if (value) {
+			params.set(key, value);
+		} else {
+			params.delete(key);
+		}
+
+		router.push(`${pathname}?${params.toString()}`);
+	};
+
+	const activeFilters = [currentStatus, currentTemplate, currentRecipient].filter(Boolean);
+
+	return (
+		<DropdownMenu>
+			<DropdownMenuTrigger asChild>
+				<Button variant="outline" className="relative">
+					<FilterIcon className="h-4 w-4 mr-2" />
+					Filter
+					{activeFilters.length > 0 && (
+						<Badge variant="secondary" className="ml-2 px-1 py-0 h-5">
+							{activeFilters.join(", ")}
+						</Badge>
+					)}
+				</Button>
+			</DropdownMenuTrigger>
+			<DropdownMenuContent align="end" className="w-[240px]">
+				<DropdownMenuLabel>Status</DropdownMenuLabel>
+				<DropdownMenuGroup>
+					<DropdownMenuItem
+						className={cn(!currentStatus && "bg-accent")}
+						onClick={() => setFilter("status", null)}
+					>
+						All Statuses
+					</DropdownMenuItem>
+					{STATUSES.map((status) => (
+						<DropdownMenuItem
+							key={status}
+							className={cn(currentStatus === status && "bg-accent")}
+							onClick={() => setFilter("status", status)}
+						>
+							{status.charAt(0).toUpperCase() + status.slice(1)}
+						</DropdownMenuItem>
+					))}
+				</DropdownMenuGroup>
+				<DropdownMenuSeparator />
+				<DropdownMenuLabel>Template</DropdownMenuLabel>
+				<DropdownMenuGroup>
+					<DropdownMenuItem
+						className={cn(!currentTemplate && "bg-accent")}
+						onClick={() => setFilter("template", null)}
+					>
+						All Templates
+					</DropdownMenuItem>
+					{TEMPLATES.map((template) => (
+						<DropdownMenuItem
+							key={template}
+							className={cn(currentTemplate === template && "bg-accent")}
+							onClick={() => setFilter("template", template)}
+						>
+							{template}
+						</DropdownMenuItem>
+					))}
+				</DropdownMenuGroup>
+				{currentRecipient && (
+					<>
+						<DropdownMenuSeparator />
+						<DropdownMenuGroup>
+							<DropdownMenuItem onClick={() => setFilter("to", null)}>
+								Clear recipient filter
+							</DropdownMenuItem>
+						</DropdownMenuGroup>
+					</>
+				)}
+			</DropdownMenuContent>
+		</DropdownMenu>
+	);
+}
@@ -0,0 +1,59 @@
+import type { Metadata } from "next";
+import {
+	PageHeader,
+	PageHeaderDescription,
+	PageHeaderHeading,
+} from "@/components/primitives/page-header";
+import { DataTable } from "@/components/ui/data-table/data-table";
+import { constructMetadata } from "@/config/metadata";
+import { emailService } from "@/server/services/email-service";
+import { columns } from "./_components/columns";
+import { EmailLogFilters } from "./_components/email-log-filters";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = constructMetadata({
+	title: "Email Log",
+	description: "Check whether transactional emails were sent or failed.",
+	noIndex: true,
+});
+
+export interface EmailLogPageProps {
+	searchParams: Promise<{
+		to?: string;
+		template?: string;
+		status?: string;
+	}>;
+}
+
+/**
+ * Admin email log page that lists every transactional email sent or attempted,
+ * filterable by recipient, template and status
+ */
+export default async function EmailLogPage({
+	searchParams: searchParamsPromise,
+}: EmailLogPageProps) {
+	const searchParams = await searchParamsPromise;
+	const logs = await emailService.listLogs({
+		to: searchParams.to,
+		template: searchParams.template,
+		status: searchParams.status,
+		limit: 500,
+	});
+
+	return (
+		<>
+			<div className="flex justify-between items-center mb-6">
+				<PageHeader>
+					<PageHeaderHeading>Email Log</PageHeaderHeading>
+					<PageHeaderDescription>
+						Welcome, sign-in, password reset, invitation, receipt and waitlist emails, with the
+						delivery status and the error of failed sends.
+					</PageHeaderDescription>
+				</PageHeader>
+				<EmailLogFilters />
+			</div>
+			<DataTable columns={columns} data={logs} searchPlaceholder="Search emails..." />
+		</>
+	);
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import type { ColumnDef } from "@tanstack/react-table";
+import { format } from "date-fns";
+import { ArrowUpDown, Eye, MessageSquare, ThumbsUp } from "lucide-react";
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { FeedbackListItem } from "@/server/services/feedback-service";
+import { FeedbackDrawer } from "./feedback-drawer";
+
+export const feedbackStatusVariant = (status: string) =>
+	status === "new" ? "default" : status === "reviewed" ? "secondary" : "outline";
+
+export const columns: ColumnDef<FeedbackListItem>[] = [
+	{
+		accessorKey: "createdAt",
+		header: ({ column }) => (
+			<Button variant="ghost" onClick={() => column.toggleSorting(column.getIsSorted() === "asc")}>
+				Received
+				<ArrowUpDown className="ml-2 h-4 w-4" />
+			</Button>
+		),
+		cell: ({ row }) => format(new Date(row.original.createdAt), "MMM d, yyyy HH:mm"),
+	},
+	{
+		accessorKey: "content",
+		header: "Feedback",
+		cell: ({ row }) => (
+			<div className="max-w-[360px] truncate" title={row.original.content}>
+				{row.original.content}
+			</div>
+		),
+	},
+	{
+		id: "from",
+		accessorFn: (item) => item.submitter?.email ?? item.email ?? "",
+		header: "From",
+		cell: ({ row }) => {
+			const { submitter, email } = row.original;
+			return (
+				<div className="max-w-[200px] truncate text-sm">
+					{submitter?.name ?? submitter?.email ?? email ?? (
+						<span className="text-muted-foreground">Anonymous</span>
+					)}
+				</div>
+			);
+		},
+	},
+	{
+		id: "tags",
+		accessorFn: (item) => item.tags.join(" "),
+		header: "Tags",
+		cell: ({ row }) => (
+			<div className="flex max-w-[200px] flex-wrap gap-1">
+				{row.original.tags.map((tag) => (
+					<Badge key={tag} variant="outline">
+						{tag}
+					</Badge>
+				))}
+			</div>
+		),
+	},
+	{
+		accessorKey: "voteCount",
+		header: ({ column }) => (
+			<Button variant="ghost" onClick={() => column.toggleSorting(column.getIsSorted() === "asc")}>
+				<ThumbsUp className="h-4 w-4" />
+				<ArrowUpDown className="ml-2 h-4 w-4" />
+			</Button>
+		),
+		cell: ({ row }) => <div className="text-center tabular-nums">{row.original.voteCount}</div>,
+	},
+	{
+		accessorKey: "status",
+		header: "Status",
+		cell: ({ row }) => (
+			<Badge variant={feedbackStatusVariant(row.original.status)}>{row.original.status}</Badge>
+		),
+	},
+	{
+		id: "assignee",
+		accessorFn: (item) => item.assignee?.email ?? "",
+		header: "Assignee",
+		cell: ({ row }) =>
+			row.original.assignee?.name ??
+			row.original.assignee?.email ?? <span className="text-muted-foreground">—</span>,
+	},
+	{
+		id: "actions",
+		header: "Details",
+		cell: ({ row }) => {
+			const [isDrawerOpen, setIsDrawerOpen] = useState(false);
+
+			return (
+				<>
+					<Button
+						variant="ghost"
+						size="sm"
+						onClick={(e) => {
+							e.stopPropagation();
+							setIsDrawerOpen(true);
+						}}
+						className="flex items-center"
+					>
+						{row.original.messageCount > 0 ? (
+							<MessageSquare className="h-4 w-4 mr-1" />
+						) : (
+							<Eye className="h-4 w-4 mr-1" />
+						)}
+						{row.original.messageCount > 0 ? row.original.messageCount : "Open"}
+					</Button>
+					<FeedbackDrawer
+						item={row.original}
+						open={isDrawerOpen}
+						onClose={() => setIsDrawerOpen(false)}
+					/>
+				</>
+			);
+		},
+	},
+];
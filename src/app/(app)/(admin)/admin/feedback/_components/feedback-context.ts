@@ -0,0 +1,13 @@
+"use client";
+
+import { createContext } from "react";
+import type { FeedbackListItem, FeedbackPerson } from "@/server/services/feedback-service";
+
+/**
+ * Data the feedback drawer needs beyond its own row: who feedback can be assigned to, and
+ * the other items it can be merged into
+ */
+export const FeedbackAdminContext = createContext<{
+	assignees: FeedbackPerson[];
+	items: FeedbackListItem[];
+}>({ assignees: [], items: [] });
@@ -0,0 +1,382 @@
+"use client";
+
+import { format } from "date-fns";
+import { GitMerge, Loader2, Mail, Send, ThumbsUp } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useCallback, useContext, useEffect, useState, useTransition } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+	Drawer,
+	DrawerClose,
+	DrawerContent,
+	DrawerDescription,
+	DrawerFooter,
+	DrawerHeader,
+	DrawerTitle,
+} from "@/components/ui/drawer";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { Textarea } from "@/components/ui/textarea";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useToast } from "@/hooks/use-toast";
+import {
+	addFeedbackReply,
+	getFeedbackThread,
+	mergeFeedback,
+	toggleFeedbackVote,
+	updateFeedback,
+} from "@/server/actions/feedback-actions";
+import type {
+	FeedbackListItem,
+	FeedbackMessageType,
+	FeedbackStatus,
+	FeedbackThread,
+} from "@/server/services/feedback-service";
+import { feedbackStatusVariant } from "./columns";
+import { FeedbackAdminContext } from "./feedback-context";
+
+const TRIAGE_STATUSES: FeedbackStatus[] = ["new", "reviewed", "archived"];
+const UNASSIGNED = "unassigned";
+
+interface FeedbackDrawerProps {
+	item: FeedbackListItem;
+	open: boolean;
+	onClose: () => void;
+}
+
+export const FeedbackDrawer = ({ item, open, onClose }: FeedbackDrawerProps) => {
+	const router = useRouter();
+	const { toast } = useToast();
+	const { assignees, items } = useContext(FeedbackAdminContext);
+	const [isPending, startTransition] = useTransition();
+	const [thread, setThread] = useState<FeedbackThread | null>(null);
+	const [status, setStatus] = useState<FeedbackStatus>(item.status as FeedbackStatus);
+	const [assigneeId, setAssigneeId] = useState(item.assigneeId ?? UNASSIGNED);
+	const [tags, setTags] = useState(item.tags.join(", "));
+	const [mergeTargetId, setMergeTargetId] = useState("");
+	const [messageType, setMessageType] = useState<FeedbackMessageType>("reply");
+	const [message, setMessage] = useState("");
+
+	const feedback = thread?.feedback ?? item;
+	const replyEmail = feedback.submitter?.email ?? feedback.email;
+	const mergeTargets = items.filter(
+		(candidate) => candidate.id !== item.id && candidate.status !== "merged"
+	);
+
+	const loadThread = useCallback(async () => {
+		const loaded = await getFeedbackThread(item.id);
+		setThread(loaded);
+		setStatus(loaded.feedback.status as FeedbackStatus);
+		setAssigneeId(loaded.feedback.assigneeId ?? UNASSIGNED);
+		setTags(loaded.feedback.tags.join(", "));
+	}, [item.id]);
+
+	useEffect(() => {
+		if (!open) return;
+		loadThread().catch((error) => {
+			toast({
+				title: "Failed to load feedback",
+				description: error instanceof Error ? error.message : "Unknown error",
+				variant: "destructive",
+			});
+		});
+	}, [open, loadThread, toast]);
+
+	const run = (action: () => Promise<void>, failure: string) => {
+		startTransition(async () => {
+			try {
+				await action();
+				router.refresh();
+			} catch (error) {
+				toast({
+					title: failure,
+					description: error instanceof Error ? error.message : "Unknown error",
+					variant: "destructive",
+				});
+			}
+		});
+	};
+
+	const handleSave = () => {
+		run(async () => {
+			await updateFeedback(item.id, {
+				status,
+				assigneeId: assigneeId === UNASSIGNED ? null : assigneeId,
+				tags: tags.split(","),
+			});
+			await loadThread();
+			toast({ title: "Feedback updated" });
+		}, "Update failed");
+	};
+
+	const handleVote = () => {
+		run(async () => {
+			await toggleFeedbackVote(item.id);
+			await loadThread();
+		}, "Vote failed");
+	};
+
+	const handleMerge = () => {
+		if (!mergeTargetId) return;
+		run(async () => {
+			await mergeFeedback(item.id, mergeTargetId);
+			toast({
+				title: "Feedback merged",
+				description: "Votes and tags were moved to the selected item.",
+			});
+			onClose();
+		}, "Merge failed");
+	};
+
+	const handleSend = () => {
+		run(
+			async () => {
+				const { emailed } = await addFeedbackReply(item.id, { type: messageType, body: message });
+				setMessage("");
+				await loadThread();
+				toast({
+					title: messageType === "note" ? "Note added" : emailed ? "Reply sent" : "Reply saved",
+					description:
+						messageType === "reply" && !emailed
+							? "The reply was saved but not emailed. See the email log for details."
+							: undefined,
+				});
+			},
+			messageType === "note" ? "Failed to add note" : "Failed to send reply"
+		);
+	};
+
+	return (
+		<Drawer open={open} onOpenChange={onClose}>
+			<DrawerContent className="max-h-[90vh] flex flex-col">
+				<DrawerHeader>
+					<DrawerTitle>Feedback</DrawerTitle>
+					<DrawerDescription>
+						Received {format(new Date(feedback.createdAt), "PPP p")} via {feedback.source}
+					</DrawerDescription>
+				</DrawerHeader>
+
+				<ScrollArea className="flex-grow overflow-y-auto">
+					<div className="mx-auto w-full max-w-2xl p-6">
+						<div className="space-y-6">
+							<section>
+								<Card>
+									<CardContent className="space-y-3 p-4">
+										<div className="flex flex-wrap items-center gap-2">
+											<Badge variant={feedbackStatusVariant(feedback.status)}>
+												{feedback.status}
+											</Badge>
+											{feedback.tags.map((tag) => (
+												<Badge key={tag} variant="outline">
+													{tag}
+												</Badge>
+											))}
+											<Button
+												variant="outline"
+												size="sm"
+												className="ml-auto"
+												onClick={handleVote}
+												disabled={isPending}
+											>
+												<ThumbsUp className="mr-1 h-4 w-4" />
+												{feedback.voteCount}
+											</Button>
+										</div>
+										<p className="whitespace-pre-wrap">{feedback.content}</p>
+										<div className="space-y-1 text-sm text-muted-foreground">
+											<p>
+												From:{" "}
+												{feedback.submitter
+													? `${feedback.submitter.name ?? feedback.submitter.email} (${feedback.submitter.email})`
+													: (feedback.email ?? "Anonymous")}
+											</p>
+											{feedback.pageUrl && (
+												<p className="truncate" title={feedback.pageUrl}>
+													Page: {feedback.pageUrl}
+												</p>
+											)}
+										</div>
+									</CardContent>
+								</Card>
+							</section>
+
+							<section className="space-y-4">
+								<h3 className="text-lg font-semibold">Triage</h3>
+								<div className="grid gap-4 sm:grid-cols-2">
+									<div className="space-y-2">
+										<Label>Status</Label>
+										<Select
+											value={status}
+											onValueChange={(value) => setStatus(value as FeedbackStatus)}
+											disabled={feedback.status === "merged"}
+										>
+											<SelectTrigger>
+												<SelectValue />
+											</SelectTrigger>
+											<SelectContent>
+												{TRIAGE_STATUSES.map((option) => (
+													<SelectItem key={option} value={option}>
+														{option.charAt(0).toUpperCase() + option.slice(1)}
+													</SelectItem>
+												))}
+											</SelectContent>
+										</Select>
+									</div>
+									<div className="space-y-2">
+										<Label>Assignee</Label>
+										<Select value={assigneeId} onValueChange={setAssigneeId}>
+											<SelectTrigger>
+												<SelectValue />
+											</SelectTrigger>
+											<SelectContent>
+												<SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+												{assignees.map((assignee) => (
+													<SelectItem key={assignee.id} value={assignee.id}>
+														{assignee.name ?? assignee.email}
+													</SelectItem>
+												))}
+											</SelectContent>
+										</Select>
+									</div>
+								</div>
+								<div className="space-y-2">
+									<Label htmlFor={`feedback-tags-${item.id}`}>Tags</Label>
+									<Input
+										id={`feedback-tags-${item.id}`}
+										value={tags}
+										onChange={(event) => setTags(event.target.value)}
+										placeholder="bug, billing, onboarding"
+									/>
+								</div>
+								<Button onClick={handleSave} disabled={isPending}>
+									{isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+									Save
+								</Button>
+							</section>
+
+							{feedback.status !== "merged" && mergeTargets.length > 0 && (
+								<section className="space-y-2">
+									<Label>Merge as duplicate of</Label>
+									<div className="flex gap-2">
+										<Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+											<SelectTrigger>
+												<SelectValue placeholder="Choose feedback" />
+											</SelectTrigger>
+											<SelectContent>
+												{mergeTargets.map((target) => (
+													<SelectItem key={target.id} value={target.id}>
+														<span className="block max-w-[420px] truncate">{target.content}</span>
+													</SelectItem>
+												))}
+											</SelectContent>
+										</Select>
+										<Button
+											variant="outline"
+											onClick={handleMerge}
+											disabled={isPending || !mergeTargetId}
+										>
+											<GitMerge className="mr-2 h-4 w-4" />
+											Merge
+										</Button>
+									</div>
+								</section>
+							)}
+
+							{thread && thread.duplicates.length > 0 && (
+								<section className="space-y-2">
+									<h3 className="text-lg font-semibold">Merged duplicates</h3>
+									{thread.duplicates.map((duplicate) => (
+										<div key={duplicate.id} className="rounded-md border p-3 text-sm">
+											<p className="whitespace-pre-wrap">{duplicate.content}</p>
+											<p className="mt-1 text-muted-foreground">
+												{duplicate.email ?? "Anonymous"} ·{" "}
+												{format(new Date(duplicate.createdAt), "PPP")}
+											</p>
+										</div>
+									))}
+								</section>
+							)}
+
+							<Separator />
+
+							<section className="space-y-4">
+								<h3 className="text-lg font-semibold">Conversation</h3>
+								{!thread ? (
+									<Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+								) : thread.messages.length === 0 ? (
+									<p className="text-sm text-muted-foreground">No replies or notes yet.</p>
+								) : (
+									thread.messages.map((entry) => (
+										<div
+											key={entry.id}
+											className={
+												entry.type === "note"
+													? "rounded-md border border-dashed bg-muted/40 p-3"
+													: "rounded-md border p-3"
+											}
+										>
+											<div className="mb-1 flex items-center gap-2 text-xs text-muted-foreground">
+												<Badge variant={entry.type === "note" ? "outline" : "secondary"}>
+													{entry.type}
+												</Badge>
+												<span>{entry.author?.name ?? entry.author?.email ?? "Deleted user"}</span>
+												<span>{format(new Date(entry.createdAt), "PPP p")}</span>
+												{entry.emailLogId && <Mail className="ml-auto h-3 w-3" />}
+											</div>
+											<p className="whitespace-pre-wrap text-sm">{entry.body}</p>
+										</div>
+									))
+								)}
+
+								<div className="space-y-2">
+									<ToggleGroup
+										type="single"
+										value={messageType}
+										onValueChange={(value) => value && setMessageType(value as FeedbackMessageType)}
+										className="justify-start"
+									>
+										<ToggleGroupItem value="reply">Reply</ToggleGroupItem>
+										<ToggleGroupItem value="note">Internal note</ToggleGroupItem>
+									</ToggleGroup>
+									<Textarea
+										value={message}
+										onChange={(event) => setMessage(event.target.value)}
+										placeholder={
+											messageType === "note"
+												? "Only admins can see notes"
+												: replyEmail
+													? `Reply to ${replyEmail}`
+													: "There is no email address, so the reply is only saved"
+										}
+										rows={4}
+									/>
+									<Button onClick={handleSend} disabled={isPending || !message.trim()}>
+										<Send className="mr-2 h-4 w-4" />
+										{messageType === "note" ? "Add note" : "Send reply"}
+									</Button>
+								</div>
+							</section>
+						</div>
+					</div>
+				</ScrollArea>
+
+				<DrawerFooter>
+					<DrawerClose asChild>
+						<Button variant="outline">Close</Button>
+					</DrawerClose>
+				</DrawerFooter>
+			</DrawerContent>
+		</Drawer>
+	);
+};
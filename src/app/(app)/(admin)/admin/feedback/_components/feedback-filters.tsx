@@ -0,0 +1,131 @@
+"use client";
+
+import { FilterIcon } from "lucide-react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuGroup,
+	DropdownMenuItem,
+	DropdownMenuLabel,
+	DropdownMenuSeparator,
+	DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { cn } from "@/lib/utils";
+
+const STATUSES = ["new", "reviewed", "archived", "merged"];
+const ASSIGNEES = [
+	{ value: "me", label: "Assigned to me" },
+	{ value: "none", label: "Unassigned" },
+];
+
+type FilterKey = "status" | "tag" | "assignee";
+
+interface FeedbackFiltersProps {
+	tags: string[];
+}
+
+export function FeedbackFilters({ tags }: FeedbackFiltersProps) {
+	const router = useRouter();
+	const pathname = usePathname();
+	const searchParams = useSearchParams();
+
+	const currentStatus = searchParams?.get("status") ?? null;
+	const currentTag = searchParams?.get("tag") ?? null;
+	const currentAssignee = searchParams?.get("assignee") ?? null;
+
+	// Update a single filter parameter, keeping the others
+	const setFilter = (key: FilterKey, value: string | null) => {
+		const params = new URLSearchParams(searchParams?.toString());
+
+		if (value) {
+			params.set(key, value);
+		} else {
+			params.delete(key);
+		}
+
+		router.push(`${pathname}?${params.toString()}`);
+	};
+
+	const activeFilters = [currentStatus, currentTag, currentAssignee].filter(Boolean);
+
+	return (
+		<DropdownMenu>
+			<DropdownMenuTrigger asChild>
+				<Button variant="outline" className="relative">
+					<FilterIcon className="h-4 w-4 mr-2" />
+					Filter
+					{activeFilters.length > 0 && (
+						<Badge variant="secondary" className="ml-2 px-1 py-0 h-5">
+							{activeFilters.join(", ")}
+						</Badge>
+					)}
+				</Button>
+			</DropdownMenuTrigger>
+			<DropdownMenuContent align="end" className="w-[240px]">
+				<DropdownMenuLabel>Status</DropdownMenuLabel>
+				<DropdownMenuGroup>
+					<DropdownMenuItem
+						className={cn(!currentStatus && "bg-accent")}
+						onClick={() => setFilter("status", null)}
+					>
+						Open (not merged)
+					</DropdownMenuItem>
+					{STATUSES.map((status) => (
+						<DropdownMenuItem
+							key={status}
+							className={cn(currentStatus === status && "bg-accent")}
+							onClick={() => setFilter("status", status)}
+						>
+							{status.charAt(0).toUpperCase() + status.slice(1)}
+						</DropdownMenuItem>
+					))}
+				</DropdownMenuGroup>
+				<DropdownMenuSeparator />
+				<DropdownMenuLabel>Assignee</DropdownMenuLabel>
+				<DropdownMenuGroup>
+					<DropdownMenuItem
+						className={cn(!currentAssignee && "bg-accent")}
+						onClick={() => setFilter("assignee", null)}
+					>
+						Anyone
+					</DropdownMenuItem>
+					{ASSIGNEES.map((assignee) => (
+						<DropdownMenuItem
+							key={assignee.value}
+							className={cn(currentAssignee === assignee.value && "bg-accent")}
+							onClick={() => setFilter("assignee", assignee.value)}
+						>
+							{assignee.label}
+						</DropdownMenuItem>
+					))}
+				</DropdownMenuGroup>
+				{(tags.length > 0 || currentTag) && (
+					<>
+						<DropdownMenuSeparator />
+						<DropdownMenuLabel>Tag</DropdownMenuLabel>
+						<DropdownMenuGroup>
+							<DropdownMenuItem
+								className={cn(!currentTag && "bg-accent")}
+								onClick={() => setFilter("tag", null)}
+							>
+								All Tags
+							</DropdownMenuItem>
+							{tags.map((tag) => (
+								<DropdownMenuItem
+									key={tag}
+									className={cn(currentTag === tag && "bg-accent")}
+									onClick={() => setFilter("tag", tag)}
+								>
+									{tag}
+								</DropdownMenuItem>
+							))}
+						</DropdownMenuGroup>
+					</>
+				)}
+			</DropdownMenuContent>
+		</DropdownMenu>
+	);
+}
@@ -0,0 +1,19 @@
+"use client";
+
+import { DataTable } from "@/components/ui/data-table/data-table";
+import type { FeedbackListItem, FeedbackPerson } from "@/server/services/feedback-service";
+import { columns } from "./columns";
+import { FeedbackAdminContext } from "./feedback-context";
+
+interface FeedbackTableProps {
+	items: FeedbackListItem[];
+	assignees: FeedbackPerson[];
+}
+
+export function FeedbackTable({ items, assignees }: FeedbackTableProps) {
+	return (
+		<FeedbackAdminContext.Provider value={{ assignees, items }}>
+			<DataTable columns={columns} data={items} searchPlaceholder="Search feedback..." />
+		</FeedbackAdminContext.Provider>
+	);
+}
@@ -1,6 +1,14 @@
 import type { Metadata } from "next";
+import {
+	PageHeader,
+	PageHeaderDescription,
+	PageHeaderHeading,
+} from "@/components/primitives/page-header";
 import { constructMetadata } from "@/config/metadata";
-import { getFeedback } from "@/server/services/feedback-service";
+import { requireAdmin } from "@/server/lib/auth";
+import { getFeedbackAssignees, listFeedback } from "@/server/services/feedback-service";
+import { FeedbackFilters } from "./_components/feedback-filters";
+import { FeedbackTable } from "./_components/feedback-table";
 
 export const dynamic = "force-dynamic";
 
@@ -10,47 +18,46 @@ export const metadata: Metadata = constructMetadata({
 	noIndex: true,
 });
 
-export default async function FeedbackPage() {
-	const feedbackItems = await getFeedback();
+export interface FeedbackPageProps {
+	searchParams: Promise<{
+		status?: string;
+		tag?: string;
+		assignee?: string;
+	}>;
+}
+
+/**
+ * Admin feedback inbox: filter by status, tag and assignee, then triage, reply to,
+ * vote on or merge each item from its drawer
+ */
+export default async function FeedbackPage({
+	searchParams: searchParamsPromise,
+}: FeedbackPageProps) {
+	const [searchParams, session] = await Promise.all([searchParamsPromise, requireAdmin()]);
+	const [items, assignees] = await Promise.all([
+		listFeedback({
+			status: searchParams.status,
+			tag: searchParams.tag,
+			assigneeId: searchParams.assignee === "me" ? session.user.id : searchParams.assignee,
+			limit: 500,
+		}),
+		getFeedbackAssignees(),
+	]);
+	const tags = [...new Set(items.flatMap((item) => item.tags))].sort();
 
 	return (
-		<div className="container mx-auto py-8">
-			<h1 className="mb-8 text-3xl font-bold">Feedback</h1>
-			<div className="grid gap-4">
-				{feedbackItems?.map((item) => (
-					<div
-						key={item.id}
-						className="rounded-lg border bg-card p-4 text-card-foreground shadow-sm"
-					>
-						<div className="mb-2 flex items-center justify-between">
-							<span className="text-sm text-muted-foreground">
-								{new Date(item.createdAt).toLocaleString()}
-							</span>
-							<span
-								className={`rounded-full px-2 py-1 text-xs ${
-									item.status === "new"
-										? "bg-blue-100 text-blue-800"
-										: item.status === "reviewed"
-											? "bg-green-100 text-green-800"
-											: "bg-gray-100 text-gray-800"
-								}`}
-							>
-								{item.status}
-							</span>
-						</div>
-						<p className="mb-2 whitespace-pre-wrap">{item.content}</p>
-						<div className="flex items-center gap-2 text-sm text-muted-foreground">
-							<span>Source: {item.source}</span>
-							{item?.metadata && Object.keys(item.metadata).length > 0 && (
-								<span>Metadata: {JSON.stringify(item.metadata, null, 2)}</span>
-							)}
-						</div>
-					</div>
-				)) || []}
-				{(!feedbackItems || feedbackItems.length === 0) && (
-					<p className="text-center text-muted-foreground">No feedback received yet.</p>
-				)}
+		<>
+			<div className="flex justify-between items-center mb-6">
+				<PageHeader>
+					<PageHeaderHeading>Feedback</PageHeaderHeading>
+					<PageHeaderDescription>
+						Tag, assign and reply to feedback. Replies are emailed to the submitter, notes stay
+						internal.
+					</PageHeaderDescription>
+				</PageHeader>
+				<FeedbackFilters tags={tags} />
 			</div>
-		</div>
+			<FeedbackTable items={items} assignees={assignees} />
+		</>
 	);
 }
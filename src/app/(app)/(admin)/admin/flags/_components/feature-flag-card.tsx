@@ -0,0 +1,362 @@
+"use client";
+
+import { Plus, Trash2 } from "lucide-react";
+import { useState, useTransition } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import {
+	deleteFeatureFlag,
+	saveFeatureFlag,
+	setFeatureFlagEnabled,
+} from "@/server/actions/feature-flags";
+import type {
+	FeatureFlagDefinition,
+	FeatureFlagRule,
+	FeatureFlagType,
+} from "@/server/services/feature-flag-service";
+
+type Flag = Omit<FeatureFlagDefinition, "updatedAt">;
+
+interface FeatureFlagCardProps {
+	flag: Flag;
+	/** Shows a key field for creating a flag */
+	isNew?: boolean;
+}
+
+const TARGETS = [
+	{ field: "userIds", label: "Users", placeholder: "User IDs" },
+	{ field: "teamIds", label: "Teams", placeholder: "Team IDs" },
+	{ field: "roles", label: "Roles", placeholder: "admin, owner" },
+	{ field: "plans", label: "Plans", placeholder: "free, Pro" },
+] as const;
+
+type TargetField = (typeof TARGETS)[number]["field"];
+
+/** Rules are edited as comma-separated lists */
+type EditableRule = Record<TargetField, string> & { rollout: number; value: string };
+
+const splitList = (value: string) =>
+	value
+		.split(",")
+		.map((item) => item.trim())
+		.filter(Boolean);
+
+const toEditableRule = (rule: FeatureFlagRule): EditableRule => ({
+	userIds: rule.userIds?.join(", ") ?? "",
+	teamIds: rule.teamIds?.join(", ") ?? "",
+	roles: rule.roles?.join(", ") ?? "",
+	plans: rule.plans?.join(", ") ?? "",
+	rollout: rule.rollout,
+	value: rule.value,
+});
+
+const toRule = (rule: EditableRule): FeatureFlagRule => {
+	const result: FeatureFlagRule = { rollout: rule.rollout, value: rule.value };
+	for (const { field } of TARGETS) {
+		const values = splitList(rule[field]);
+		if (values.length > 0) {
+			result[field] = values;
+		}
+	}
+	return result;
+};
+
+/**
+ * Editable feature flag: type, values, targeting rules and rollout percentages
+ */
+export function FeatureFlagCard({ flag, isNew = false }: FeatureFlagCardProps) {
+	const { toast } = useToast();
+	const [isPending, startTransition] = useTransition();
+	const [key, setKey] = useState(flag.key);
+	const [description, setDescription] = useState(flag.description ?? "");
+	const [type, setType] = useState<FeatureFlagType>(flag.type);
+	const [variants, setVariants] = useState(flag.variants.join(", "));
+	const [defaultValue, setDefaultValue] = useState(flag.defaultValue);
+	const [rules, setRules] = useState(() => flag.rules.map(toEditableRule));
+	const [clientVisible, setClientVisible] = useState(flag.clientVisible);
+	const [enabled, setEnabled] = useState(flag.enabled);
+
+	const values = type === "boolean" ? ["true", "false"] : splitList(variants);
+
+	const updateRule = (index: number, update: Partial<EditableRule>) => {
+		setRules((current) =>
+			current.map((rule, ruleIndex) => (ruleIndex === index ? { ...rule, ...update } : rule))
+		);
+	};
+
+	const run = (action: () => Promise<unknown>, success: string, onSuccess?: () => void) => {
+		startTransition(async () => {
+			try {
+				await action();
+				toast({ title: success, description: `Flag ${key} was updated.` });
+				onSuccess?.();
+			} catch (error) {
+				toast({
+					title: "Update failed",
+					description: error instanceof Error ? error.message : "Unknown error",
+					variant: "destructive",
+				});
+			}
+		});
+	};
+
+	const handleSave = () => {
+		run(
+			() =>
+				saveFeatureFlag({
+					key: key.trim(),
+					description: description.trim() || null,
+					type,
+					enabled,
+					variants: type === "multivariate" ? values : [],
+					defaultValue,
+					rules: rules.map(toRule),
+					clientVisible,
+				}),
+			isNew ? "Flag created" : "Flag saved",
+			() => {
+				if (isNew) {
+					setKey("");
+					setDescription("");
+					setRules([]);
+				}
+			}
+		);
+	};
+
+	const handleToggle = (checked: boolean) => {
+		setEnabled(checked);
+		if (!isNew) {
+			run(
+				() => setFeatureFlagEnabled(flag.key, checked),
+				checked ? "Flag enabled" : "Flag disabled"
+			);
+		}
+	};
+
+	return (
+		<Card>
+			<CardHeader className="flex flex-row items-start justify-between space-y-0">
+				<div className="space-y-1.5">
+					{isNew ? (
+						<>
+							<CardTitle>New flag</CardTitle>
+							<Input
+								placeholder="Flag key, e.g. new-checkout"
+								value={key}
+								onChange={(event) => setKey(event.target.value)}
+								className="max-w-xs"
+							/>
+						</>
+					) : (
+						<CardTitle className="flex items-center gap-2 font-mono">
+							{flag.key}
+							<Badge variant="outline" className="font-sans">
+								{flag.type}
+							</Badge>
+						</CardTitle>
+					)}
+					<CardDescription>
+						<Input
+							placeholder="Description"
+							value={description}
+							onChange={(event) => setDescription(event.target.value)}
+							className="max-w-md"
+						/>
+					</CardDescription>
+				</div>
+				<div className="flex items-center gap-2">
+					<Switch
+						aria-label={`Enable ${key || "new flag"}`}
+						checked={enabled}
+						onCheckedChange={handleToggle}
+						disabled={isPending}
+					/>
+					{!isNew && (
+						<Button
+							variant="ghost"
+							size="sm"
+							onClick={() => run(() => deleteFeatureFlag(flag.key), "Flag deleted")}
+							disabled={isPending}
+						>
+							Delete
+						</Button>
+					)}
+					<Button size="sm" onClick={handleSave} disabled={isPending || !key.trim()}>
+						{isNew ? "Create" : "Save"}
+					</Button>
+				</div>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				<div className="flex flex-wrap items-end gap-4">
+					<div className="space-y-1.5">
+						<Label>Type</Label>
+						<Select
+							value={type}
+							onValueChange={(value) => {
+								setType(value as FeatureFlagType);
+								setDefaultValue(value === "boolean" ? "false" : "");
+								setRules((current) => current.map((rule) => ({ ...rule, value: "" })));
+							}}
+							disabled={!isNew}
+						>
+							<SelectTrigger className="w-40">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value="boolean">Boolean</SelectItem>
+								<SelectItem value="multivariate">Multivariate</SelectItem>
+							</SelectContent>
+						</Select>
+					</div>
+					{type === "multivariate" && (
+						<div className="space-y-1.5">
+							<Label>Variants</Label>
+							<Input
+								placeholder="control, a, b"
+								value={variants}
+								onChange={(event) => setVariants(event.target.value)}
+								className="w-64"
+							/>
+						</div>
+					)}
+					<div className="space-y-1.5">
+						<Label>Default value</Label>
+						<ValueSelect values={values} value={defaultValue} onChange={setDefaultValue} />
+					</div>
+					<Label className="flex items-center gap-2 pb-2.5">
+						<Checkbox
+							checked={clientVisible}
+							onCheckedChange={(checked) => setClientVisible(checked === true)}
+						/>
+						Readable in the browser
+					</Label>
+				</div>
+
+				<Table>
+					<TableHeader>
+						<TableRow>
+							{TARGETS.map(({ field, label }) => (
+								<TableHead key={field}>{label}</TableHead>
+							))}
+							<TableHead>Rollout %</TableHead>
+							<TableHead>Value</TableHead>
+							<TableHead />
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{rules.map((rule, index) => (
+							// biome-ignore lint/suspicious/noArrayIndexKey: rules are edited in place
+							<TableRow key={index}>
+								{TARGETS.map(({ field, placeholder }) => (
+									<TableCell key={field}>
+										<Input
+											placeholder={placeholder}
+											value={rule[field]}
+											onChange={(event) => updateRule(index, { [field]: event.target.value })}
+										/>
+									</TableCell>
+								))}
+								<TableCell>
+									<Input
+										type="number"
+										min={0}
+										max={100}
+										value={rule.rollout}
+										onChange={(event) => updateRule(index, { rollout: Number(event.target.value) })}
+										className="w-20"
+									/>
+								</TableCell>
+								<TableCell>
+									<ValueSelect
+										values={values}
+										value={rule.value}
+										onChange={(value) => updateRule(index, { value })}
+									/>
+								</TableCell>
+								<TableCell>
+									<Button
+										variant="ghost"
+										size="icon"
+										aria-label="Remove rule"
+										onClick={() =>
+											setRules((current) => current.filter((_, ruleIndex) => ruleIndex !== index))
+										}
+									>
+										<Trash2 className="h-4 w-4" />
+									</Button>
+								</TableCell>
+							</TableRow>
+						))}
+					</TableBody>
+				</Table>
+				<Button
+					variant="outline"
+					size="sm"
+					onClick={() =>
+						setRules((current) => [
+							...current,
+							{
+								userIds: "",
+								teamIds: "",
+								roles: "",
+								plans: "",
+								rollout: 100,
+								value: type === "boolean" ? "true" : (values[0] ?? ""),
+							},
+						])
+					}
+				>
+					<Plus className="mr-2 h-4 w-4" />
+					Add rule
+				</Button>
+			</CardContent>
+		</Card>
+	);
+}
+
+function ValueSelect({
+	values,
+	value,
+	onChange,
+}: {
+	values: string[];
+	value: string;
+	onChange: (value: string) => void;
+}) {
+	return (
+		<Select value={value} onValueChange={onChange}>
+			<SelectTrigger className="w-32">
+				<SelectValue placeholder="Value" />
+			</SelectTrigger>
+			<SelectContent>
+				{values.map((option) => (
+					<SelectItem key={option} value={option}>
+						{option}
+					</SelectItem>
+				))}
+			</SelectContent>
+		</Select>
+	);
+}
@@ -0,0 +1,57 @@
+import type { Metadata } from "next";
+import {
+	PageHeader,
+	PageHeaderDescription,
+	PageHeaderHeading,
+} from "@/components/primitives/page-header";
+import { constructMetadata } from "@/config/metadata";
+import { featureFlagService } from "@/server/services/feature-flag-service";
+import { FeatureFlagCard } from "./_components/feature-flag-card";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = constructMetadata({
+	title: "Feature Flags",
+	description: "Turn features on and off at runtime and target them to users, teams and plans.",
+	noIndex: true,
+});
+
+/**
+ * Admin page that manages the runtime feature flags read with getFlag and useFlag
+ */
+export default async function FeatureFlagsPage() {
+	const flags = [...(await featureFlagService.getFlags()).values()];
+
+	return (
+		<>
+			<PageHeader className="mb-6">
+				<PageHeaderHeading>Feature Flags</PageHeaderHeading>
+				<PageHeaderDescription>
+					Changes apply without a redeploy, within a minute. Rules are checked top to bottom and the
+					first match wins; everyone else gets the default value. Disabled flags are off for
+					everyone.
+				</PageHeaderDescription>
+			</PageHeader>
+
+			<div className="space-y-4">
+				{flags.map(({ updatedAt, ...flag }) => (
+					// Remount when the flag changes so the form resets
+					<FeatureFlagCard key={`${flag.key}:${updatedAt.getTime()}`} flag={flag} />
+				))}
+				<FeatureFlagCard
+					flag={{
+						key: "",
+						description: null,
+						type: "boolean",
+						enabled: false,
+						variants: [],
+						defaultValue: "false",
+						rules: [],
+						clientVisible: false,
+					}}
+					isNew
+				/>
+			</div>
+		</>
+	);
+}
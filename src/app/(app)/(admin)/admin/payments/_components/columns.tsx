@@ -8,7 +8,7 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import type { PaymentData } from "@/server/services/payment-service";
-import { PaymentDrawer } from "./payment-drawer";
+import { formatPaymentStatus, PaymentDrawer } from "./payment-drawer";
 
 export const columns: ColumnDef<PaymentData>[] = [
 	{
@@ -129,10 +129,14 @@ export const columns: ColumnDef<PaymentData>[] = [
 			return (
 				<Badge
 					variant={
-						status === "paid" ? "default" : status === "refunded" ? "destructive" : "secondary"
+						status === "paid"
+							? "default"
+							: status === "refunded" || status === "disputed"
+								? "destructive"
+								: "secondary"
 					}
 				>
-					{status.charAt(0).toUpperCase() + status.slice(1)}
+					{formatPaymentStatus(status)}
 				</Badge>
 			);
 		},
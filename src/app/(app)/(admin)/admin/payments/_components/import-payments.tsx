@@ -1,6 +1,6 @@
 "use client";
 
-import { FolderSyncIcon, Loader2, RotateCcw, Trash2 } from "lucide-react";
+import { FolderSyncIcon, Loader2, RefreshCcwDot, RotateCcw, Trash2 } from "lucide-react";
 import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import {
@@ -13,10 +13,15 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { useAsyncAction } from "@/hooks/use-async-state";
 import { useToast } from "@/hooks/use-toast";
-import { deleteAllPayments, importPayments, refreshAllPayments } from "@/server/actions/payments";
+import {
+	deleteAllPayments,
+	importPayments,
+	refreshAllPayments,
+	syncPricingPlans,
+} from "@/server/actions/payments";
 
 type PaymentProvider = "lemonsqueezy" | "polar" | "stripe" | "all";
-type ActionType = "import" | "delete" | "refresh";
+type ActionType = "import" | "delete" | "refresh" | "syncPlans";
 
 interface SingleProviderResult {
 	total: number;
@@ -156,6 +161,32 @@ export function ImportPayments() {
 					setProgress("Refresh failed");
 					throw refreshError;
 				}
+			} else if (action === "syncPlans") {
+				setProgress("Syncing pricing plans...");
+
+				try {
+					const results = await syncPricingPlans();
+
+					toast({
+						title: "Pricing plans synced",
+						description:
+							results.length > 0
+								? results
+										.map((result) =>
+											result.error
+												? `${result.provider}: Error - ${result.error}`
+												: `${result.provider}: ${result.synced} synced, ${result.archived} archived`
+										)
+										.join("\n")
+								: "No payment providers are enabled",
+						variant: "default",
+					});
+
+					setProgress("Sync completed");
+				} catch (syncError) {
+					setProgress("Sync failed");
+					throw syncError;
+				}
 			}
 
 			setCurrentProvider(null);
@@ -187,7 +218,7 @@ export function ImportPayments() {
 			}
 
 			toast({
-				title: `${currentAction === "import" ? "Import" : currentAction === "delete" ? "Delete" : "Refresh"} failed`,
+				title: `${currentAction === "import" ? "Import" : currentAction === "delete" ? "Delete" : currentAction === "syncPlans" ? "Plan sync" : "Refresh"} failed`,
 				description: errorMessage,
 				variant: "destructive",
 			});
@@ -234,6 +265,19 @@ export function ImportPayments() {
 		});
 	};
 
+	/**
+	 * Handles syncing the pricing plans from the providers
+	 */
+	const handleSyncPlans = () => {
+		if (loading) return;
+
+		execute("syncPlans").catch((err: Error) => {
+			console.error("Error syncing pricing plans", err);
+			setCurrentAction(null);
+			setProgress("");
+		});
+	};
+
 	/**
 	 * Gets the loading text based on current action
 	 */
@@ -309,6 +353,10 @@ export function ImportPayments() {
 				<DropdownMenuSeparator />
 				<DropdownMenuLabel>Manage Payments</DropdownMenuLabel>
 				<DropdownMenuSeparator />
+				<DropdownMenuItem onClick={handleSyncPlans} disabled={loading}>
+					<RefreshCcwDot className="mr-2 h-4 w-4" />
+					Sync Pricing Plans
+				</DropdownMenuItem>
 				<DropdownMenuItem onClick={handleRefreshAll} disabled={loading}>
 					<RotateCcw className="mr-2 h-4 w-4" />
 					Refresh All Payments
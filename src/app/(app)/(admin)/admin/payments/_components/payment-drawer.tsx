@@ -29,6 +29,21 @@ import { JsonViewer } from "@/components/ui/json-viewer";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import type { PaymentData } from "@/server/services/payment-service";
+import { isRefundable, RefundPaymentForm } from "./refund-payment-form";
+
+const STATUS_VARIANTS: Record<
+	PaymentData["status"],
+	"default" | "secondary" | "destructive" | "outline"
+> = {
+	paid: "default",
+	pending: "secondary",
+	partially_refunded: "outline",
+	refunded: "destructive",
+	disputed: "destructive",
+};
+
+export const formatPaymentStatus = (status: string) =>
+	(status.charAt(0).toUpperCase() + status.slice(1)).replaceAll("_", " ");
 
 interface PaymentDrawerProps {
 	payment: PaymentData | null;
@@ -91,16 +106,8 @@ export const PaymentDrawer = ({ payment, open, onClose }: PaymentDrawerProps) =>
 												</div>
 												<div className="ml-auto flex gap-2">
 													<Badge variant={productType.variant}>{productType.label}</Badge>
-													<Badge
-														variant={
-															payment.status === "paid"
-																? "default"
-																: payment.status === "refunded"
-																	? "destructive"
-																	: "secondary"
-														}
-													>
-														{payment.status.charAt(0).toUpperCase() + payment.status.slice(1)}
+													<Badge variant={STATUS_VARIANTS[payment.status] ?? "secondary"}>
+														{formatPaymentStatus(payment.status)}
 													</Badge>
 												</div>
 											</div>
@@ -182,6 +189,23 @@ export const PaymentDrawer = ({ payment, open, onClose }: PaymentDrawerProps) =>
 								</section>
 							) : null}
 
+							{isRefundable(payment) && (
+								<>
+									<Separator />
+
+									<section>
+										<h3 className="text-lg font-semibold">Refund</h3>
+										<div className="mt-4">
+											<Card>
+												<CardContent className="p-4">
+													<RefundPaymentForm payment={payment} onRefunded={onClose} />
+												</CardContent>
+											</Card>
+										</div>
+									</section>
+								</>
+							)}
+
 							<Separator />
 
 							<section>
@@ -0,0 +1,151 @@
+"use client";
+
+import { Loader2, Undo2 } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useState, useTransition } from "react";
+import {
+	AlertDialog,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { refundPayment } from "@/server/actions/payments";
+import type { PaymentData } from "@/server/services/payment-service";
+
+/** Payments that can still be refunded, in full or for the rest of a partial refund */
+const REFUNDABLE_STATUSES = new Set(["paid", "completed", "partially_refunded"]);
+
+const formatUsd = (amount: number) =>
+	new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(amount);
+
+export const isRefundable = (payment: PaymentData) =>
+	payment.isInDatabase &&
+	!payment.isFreeProduct &&
+	REFUNDABLE_STATUSES.has(payment.status) &&
+	payment.amount - payment.refundedAmount > 0;
+
+interface RefundPaymentFormProps {
+	payment: PaymentData;
+	onRefunded?: () => void;
+}
+
+/**
+ * Refunds a payment through its provider, in full or in part
+ * Amounts are entered in dollars, like the rest of the payments table.
+ */
+export const RefundPaymentForm = ({ payment, onRefunded }: RefundPaymentFormProps) => {
+	const router = useRouter();
+	const { toast } = useToast();
+	const [isPending, startTransition] = useTransition();
+	const remaining = Math.round((payment.amount - payment.refundedAmount) * 100) / 100;
+	const [amount, setAmount] = useState(remaining.toFixed(2));
+	const [reason, setReason] = useState("");
+	const [confirmOpen, setConfirmOpen] = useState(false);
+
+	const parsedAmount = Number.parseFloat(amount);
+	const isValidAmount =
+		Number.isFinite(parsedAmount) && parsedAmount > 0 && parsedAmount <= remaining;
+	const isFullRefund = isValidAmount && parsedAmount === remaining;
+
+	const handleRefund = () => {
+		startTransition(async () => {
+			const result = await refundPayment({
+				paymentId: Number(payment.id),
+				amount: Math.round(parsedAmount * 100),
+				reason: reason || undefined,
+			});
+
+			if (!result.success) {
+				toast({
+					title: "Refund failed",
+					description: result.error ?? "Unknown error",
+					variant: "destructive",
+				});
+				return;
+			}
+
+			toast({
+				title: "Payment refunded",
+				description: `Refunded ${formatUsd(parsedAmount)} for order ${payment.orderId}.`,
+			});
+			setConfirmOpen(false);
+			onRefunded?.();
+			router.refresh();
+		});
+	};
+
+	return (
+		<div className="space-y-4">
+			{payment.refundedAmount > 0 && (
+				<p className="text-sm text-muted-foreground">
+					{formatUsd(payment.refundedAmount)} of {formatUsd(payment.amount)} has been refunded.
+				</p>
+			)}
+			<div className="grid gap-4 sm:grid-cols-[12rem_1fr]">
+				<div className="space-y-2">
+					<Label htmlFor={`refund-amount-${payment.id}`}>Amount (USD)</Label>
+					<Input
+						id={`refund-amount-${payment.id}`}
+						type="number"
+						inputMode="decimal"
+						min={0.01}
+						max={remaining}
+						step={0.01}
+						value={amount}
+						onChange={(event) => setAmount(event.target.value)}
+					/>
+					<p className="text-xs text-muted-foreground">Up to {formatUsd(remaining)}</p>
+				</div>
+				<div className="space-y-2">
+					<Label htmlFor={`refund-reason-${payment.id}`}>Reason</Label>
+					<Textarea
+						id={`refund-reason-${payment.id}`}
+						placeholder="e.g. Requested by the customer"
+						value={reason}
+						maxLength={500}
+						onChange={(event) => setReason(event.target.value)}
+					/>
+				</div>
+			</div>
+			<Button
+				variant="destructive"
+				disabled={!isValidAmount || isPending}
+				onClick={() => setConfirmOpen(true)}
+			>
+				<Undo2 className="mr-2 h-4 w-4" />
+				{isFullRefund ? "Refund in full" : "Refund partially"}
+			</Button>
+
+			<AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+				<AlertDialogContent>
+					<AlertDialogHeader>
+						<AlertDialogTitle>
+							Refund {isValidAmount ? formatUsd(parsedAmount) : ""} to {payment.userEmail}?
+						</AlertDialogTitle>
+						<AlertDialogDescription>
+							The refund is issued through {payment.processor} and cannot be undone. Credits from
+							this purchase are taken back in proportion and the customer is emailed.
+							{isFullRefund &&
+								" A full refund also removes their GitHub repository access unless another purchase grants it."}
+						</AlertDialogDescription>
+					</AlertDialogHeader>
+					<AlertDialogFooter>
+						<AlertDialogCancel disabled={isPending}>Cancel</AlertDialogCancel>
+						<Button variant="destructive" onClick={handleRefund} disabled={isPending}>
+							{isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+							Refund
+						</Button>
+					</AlertDialogFooter>
+				</AlertDialogContent>
+			</AlertDialog>
+		</div>
+	);
+};
@@ -0,0 +1,44 @@
+"use client";
+
+import { Download, Loader2 } from "lucide-react";
+import { useTransition } from "react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { importRolesFromCms } from "@/server/actions/rbac";
+
+/**
+ * Button that imports the roles seeded in the CMS `rbac` collection
+ */
+export function ImportRolesButton() {
+	const { toast } = useToast();
+	const [isPending, startTransition] = useTransition();
+
+	const handleImport = () => {
+		startTransition(async () => {
+			try {
+				const { imported } = await importRolesFromCms();
+				toast({
+					title: "Roles imported",
+					description: `Imported ${imported} team and project roles from the CMS.`,
+				});
+			} catch (error) {
+				toast({
+					title: "Import failed",
+					description: error instanceof Error ? error.message : "Unknown error",
+					variant: "destructive",
+				});
+			}
+		});
+	};
+
+	return (
+		<Button variant="outline" onClick={handleImport} disabled={isPending}>
+			{isPending ? (
+				<Loader2 className="mr-2 h-4 w-4 animate-spin" />
+			) : (
+				<Download className="mr-2 h-4 w-4" />
+			)}
+			Import from CMS
+		</Button>
+	);
+}
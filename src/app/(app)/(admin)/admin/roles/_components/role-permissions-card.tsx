@@ -0,0 +1,169 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { RBAC_ACTIONS, RBAC_RESOURCES, type RbacPermissionKey } from "@/config/rbac";
+import { useToast } from "@/hooks/use-toast";
+import { resetRolePermissions, saveRolePermissions } from "@/server/actions/rbac";
+import type { RoleMapping } from "@/server/services/rbac";
+
+interface RolePermissionsCardProps {
+	role: RoleMapping;
+	/** Shows a name field for creating a custom role */
+	isNew?: boolean;
+}
+
+/**
+ * Editable resource × action matrix for one role
+ */
+export function RolePermissionsCard({ role, isNew = false }: RolePermissionsCardProps) {
+	const { toast } = useToast();
+	const [isPending, startTransition] = useTransition();
+	const [name, setName] = useState(role.name);
+	const [selected, setSelected] = useState(() => new Set(role.permissions));
+
+	const isDirty =
+		isNew ||
+		selected.size !== role.permissions.length ||
+		role.permissions.some((key) => !selected.has(key));
+
+	const toggle = (key: RbacPermissionKey, checked: boolean) => {
+		setSelected((current) => {
+			const next = new Set(current);
+			if (checked) {
+				next.add(key);
+			} else {
+				next.delete(key);
+			}
+			return next;
+		});
+	};
+
+	const handleSave = () => {
+		startTransition(async () => {
+			try {
+				await saveRolePermissions({
+					scope: role.scope,
+					name,
+					description: role.description,
+					permissions: [...selected] as RbacPermissionKey[],
+				});
+				toast({ title: "Role saved", description: `${role.scope} role ${name} was updated.` });
+				if (isNew) {
+					setName("");
+					setSelected(new Set());
+				}
+			} catch (error) {
+				toast({
+					title: "Save failed",
+					description: error instanceof Error ? error.message : "Unknown error",
+					variant: "destructive",
+				});
+			}
+		});
+	};
+
+	const handleReset = () => {
+		startTransition(async () => {
+			try {
+				await resetRolePermissions({ scope: role.scope, name: role.name });
+				toast({ title: "Role reset", description: `${role.scope} role ${role.name} was reset.` });
+			} catch (error) {
+				toast({
+					title: "Reset failed",
+					description: error instanceof Error ? error.message : "Unknown error",
+					variant: "destructive",
+				});
+			}
+		});
+	};
+
+	return (
+		<Card>
+			<CardHeader className="flex flex-row items-start justify-between space-y-0">
+				<div className="space-y-1.5">
+					{isNew ? (
+						<>
+							<CardTitle>New {role.scope} role</CardTitle>
+							<Input
+								placeholder="Role name, e.g. billing-manager"
+								value={name}
+								onChange={(event) => setName(event.target.value)}
+								className="max-w-xs"
+							/>
+						</>
+					) : (
+						<>
+							<CardTitle className="flex items-center gap-2 capitalize">
+								{role.name}
+								<Badge variant="outline" className="normal-case">
+									{role.isCustomized ? "Customized" : "Default"}
+								</Badge>
+							</CardTitle>
+							{role.description && <CardDescription>{role.description}</CardDescription>}
+						</>
+					)}
+				</div>
+				<div className="flex gap-2">
+					{role.isCustomized && (
+						<Button variant="ghost" size="sm" onClick={handleReset} disabled={isPending}>
+							Reset
+						</Button>
+					)}
+					<Button
+						size="sm"
+						onClick={handleSave}
+						disabled={isPending || !isDirty || (isNew && !name.trim())}
+					>
+						{isNew ? "Create" : "Save"}
+					</Button>
+				</div>
+			</CardHeader>
+			<CardContent>
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead>Resource</TableHead>
+							{RBAC_ACTIONS.map((action) => (
+								<TableHead key={action} className="text-center capitalize">
+									{action}
+								</TableHead>
+							))}
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{RBAC_RESOURCES.map((resource) => (
+							<TableRow key={resource}>
+								<TableCell className="font-medium">{resource.replace("_", " ")}</TableCell>
+								{RBAC_ACTIONS.map((action) => {
+									const key: RbacPermissionKey = `${resource}:${action}`;
+									return (
+										<TableCell key={action} className="text-center">
+											<Checkbox
+												aria-label={`${role.name || "new role"} ${key}`}
+												checked={selected.has(key)}
+												onCheckedChange={(checked) => toggle(key, checked === true)}
+											/>
+										</TableCell>
+									);
+								})}
+							</TableRow>
+						))}
+					</TableBody>
+				</Table>
+			</CardContent>
+		</Card>
+	);
+}
@@ -0,0 +1,75 @@
+import type { Metadata } from "next";
+import {
+	PageHeader,
+	PageHeaderDescription,
+	PageHeaderHeading,
+} from "@/components/primitives/page-header";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { constructMetadata } from "@/config/metadata";
+import { RBAC_SCOPES } from "@/config/rbac";
+import { rbacService } from "@/server/services/rbac";
+import { ImportRolesButton } from "./_components/import-roles-button";
+import { RolePermissionsCard } from "./_components/role-permissions-card";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = constructMetadata({
+	title: "Roles",
+	description: "Edit which permissions each role grants.",
+	noIndex: true,
+});
+
+const SCOPE_DESCRIPTIONS = {
+	global: "Apply everywhere. Every user holds the user role, plus the role set on their account.",
+	team: "Apply within a team, based on the member's role in that team. They also apply to the team's projects.",
+	project: "Apply within a project, based on the member's role in that project.",
+} as const;
+
+/**
+ * Admin page that edits the role to permission mappings used by RBAC checks
+ */
+export default async function RolesPage() {
+	const roles = await rbacService.getRoleMappings();
+
+	return (
+		<>
+			<div className="flex justify-between items-center mb-6">
+				<PageHeader>
+					<PageHeaderHeading>Roles</PageHeaderHeading>
+					<PageHeaderDescription>
+						Roles are bound to a scope. Manage grants every action on its resource.
+					</PageHeaderDescription>
+				</PageHeader>
+				<ImportRolesButton />
+			</div>
+
+			<Tabs defaultValue="team">
+				<TabsList>
+					{RBAC_SCOPES.map((scope) => (
+						<TabsTrigger key={scope} value={scope} className="capitalize">
+							{scope}
+						</TabsTrigger>
+					))}
+				</TabsList>
+				{RBAC_SCOPES.map((scope) => (
+					<TabsContent key={scope} value={scope} className="space-y-4">
+						<p className="text-sm text-muted-foreground">{SCOPE_DESCRIPTIONS[scope]}</p>
+						{roles
+							.filter((role) => role.scope === scope)
+							.map((role) => (
+								// Remount when the stored permissions change so the form resets
+								<RolePermissionsCard
+									key={`${role.name}:${role.isCustomized}:${role.permissions.join(",")}`}
+									role={role}
+								/>
+							))}
+						<RolePermissionsCard
+							role={{ scope, name: "", description: null, permissions: [], isCustomized: false }}
+							isNew
+						/>
+					</TabsContent>
+				))}
+			</Tabs>
+		</>
+	);
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import { Loader2, UserRoundSearch } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useState, useTransition } from "react";
+import {
+	AlertDialog,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { routes } from "@/config/routes";
+import { useToast } from "@/hooks/use-toast";
+import { startImpersonation } from "@/server/actions/impersonation-actions";
+
+interface ImpersonateUserButtonProps {
+	user: { id: string; name: string | null; email: string };
+}
+
+/**
+ * Starts an impersonation session for a user, asking the admin why first
+ */
+export function ImpersonateUserButton({ user }: ImpersonateUserButtonProps) {
+	const router = useRouter();
+	const { toast } = useToast();
+	const [isPending, startTransition] = useTransition();
+	const [open, setOpen] = useState(false);
+	const [reason, setReason] = useState("");
+
+	const handleStart = () => {
+		startTransition(async () => {
+			try {
+				await startImpersonation({ userId: user.id, reason: reason || undefined });
+				router.push(routes.app.dashboard);
+				router.refresh();
+			} catch (error) {
+				toast({
+					title: "Failed to impersonate user",
+					description: error instanceof Error ? error.message : "Unknown error",
+					variant: "destructive",
+				});
+			}
+		});
+	};
+
+	return (
+		<>
+			<Button variant="secondary" onClick={() => setOpen(true)}>
+				<UserRoundSearch className="mr-2 h-4 w-4" />
+				Impersonate
+			</Button>
+
+			<AlertDialog open={open} onOpenChange={setOpen}>
+				<AlertDialogContent>
+					<AlertDialogHeader>
+						<AlertDialogTitle>Impersonate {user.name ?? user.email}</AlertDialogTitle>
+						<AlertDialogDescription>
+							You will see the app as this user for 30 minutes. Deleting the account, managing API
+							keys and payment changes are disabled, and the session is recorded in the audit log.
+						</AlertDialogDescription>
+					</AlertDialogHeader>
+					<div className="space-y-2">
+						<Label htmlFor="impersonation-reason">Reason</Label>
+						<Textarea
+							id="impersonation-reason"
+							placeholder="e.g. Support ticket #1234"
+							value={reason}
+							maxLength={500}
+							onChange={(event) => setReason(event.target.value)}
+						/>
+					</div>
+					<AlertDialogFooter>
+						<AlertDialogCancel disabled={isPending}>Cancel</AlertDialogCancel>
+						<Button onClick={handleStart} disabled={isPending}>
+							{isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+							Start impersonating
+						</Button>
+					</AlertDialogFooter>
+				</AlertDialogContent>
+			</AlertDialog>
+		</>
+	);
+}
@@ -28,6 +28,7 @@ import {
 	TableRow,
 } from "@/components/ui/table";
 import type { Purchase, UserData } from "@/server/services/payment-service";
+import { ImpersonateUserButton } from "./impersonate-user-button";
 
 interface UserDrawerProps {
 	user: UserData | null;
@@ -380,6 +381,7 @@ export const UserDrawer = ({ user, open, onClose }: UserDrawerProps) => {
 				</ScrollArea>
 
 				<DrawerFooter className="mt-auto pt-4 border-t">
+					{user.role !== "admin" && <ImpersonateUserButton user={user} />}
 					<DrawerClose asChild>
 						<Button variant="outline">Close</Button>
 					</DrawerClose>
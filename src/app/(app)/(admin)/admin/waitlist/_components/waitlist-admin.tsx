@@ -1,20 +1,22 @@
 import { formatDistanceToNow } from "date-fns";
-import { Clock, Mail, TrendingUp, Users } from "lucide-react";
+import { Clock, Mail, Share2, TrendingUp, UserCheck, Users } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { getWaitlistStats } from "@/server/actions/waitlist-actions";
-import { getWaitlistEntries } from "@/server/services/waitlist-service";
+import { getTopWaitlistReferrers, getWaitlistEntries } from "@/server/services/waitlist-service";
+import { WaitlistCampaign } from "./waitlist-campaign";
 
 export async function WaitlistAdmin() {
-	const [stats, entries] = await Promise.all([
+	const [stats, entries, topReferrers] = await Promise.all([
 		getWaitlistStats(),
 		getWaitlistEntries({ limit: 100 }),
+		getTopWaitlistReferrers(),
 	]);
 
 	return (
 		<div className="space-y-8">
 			{/* Statistics Cards */}
-			<div className="grid gap-4 md:grid-cols-3">
+			<div className="grid gap-4 md:grid-cols-3 lg:grid-cols-5">
 				<Card>
 					<CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
 						<CardTitle className="text-sm font-medium">Total Signups</CardTitle>
@@ -47,8 +49,57 @@ export async function WaitlistAdmin() {
 						<p className="text-xs text-muted-foreground">Awaiting notification</p>
 					</CardContent>
 				</Card>
+
+				<Card>
+					<CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+						<CardTitle className="text-sm font-medium">Signed Up</CardTitle>
+						<UserCheck className="h-4 w-4 text-muted-foreground" />
+					</CardHeader>
+					<CardContent>
+						<div className="text-2xl font-bold">{stats.signedUp.toLocaleString()}</div>
+						<p className="text-xs text-muted-foreground">Created an account</p>
+					</CardContent>
+				</Card>
+
+				<Card>
+					<CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+						<CardTitle className="text-sm font-medium">Referred</CardTitle>
+						<Share2 className="h-4 w-4 text-muted-foreground" />
+					</CardHeader>
+					<CardContent>
+						<div className="text-2xl font-bold">{stats.referred.toLocaleString()}</div>
+						<p className="text-xs text-muted-foreground">Joined through a referral link</p>
+					</CardContent>
+				</Card>
 			</div>
 
+			<WaitlistCampaign pending={stats.pending} />
+
+			{topReferrers.length > 0 && (
+				<Card>
+					<CardHeader>
+						<CardTitle className="flex items-center gap-2">
+							<Share2 className="h-5 w-5" />
+							Top Referrers
+						</CardTitle>
+						<CardDescription>Entries whose links brought in the most signups</CardDescription>
+					</CardHeader>
+					<CardContent>
+						<ul className="divide-y">
+							{topReferrers.map((referrer) => (
+								<li key={referrer.email} className="flex items-center justify-between py-2 text-sm">
+									<span>
+										<span className="font-medium">{referrer.name}</span>{" "}
+										<span className="text-muted-foreground">{referrer.email}</span>
+									</span>
+									<span className="tabular-nums">{referrer.referralCount}</span>
+								</li>
+							))}
+						</ul>
+					</CardContent>
+				</Card>
+			)}
+
 			{/* Waitlist Entries */}
 			<Card>
 				<CardHeader>
@@ -72,9 +123,18 @@ export async function WaitlistAdmin() {
 										<div className="flex items-center gap-2">
 											<span className="font-medium">{entry.name}</span>
 											<span className="text-sm text-muted-foreground">{entry.email}</span>
-											{entry.isNotified && (
-												<Badge variant="secondary" className="text-xs">
-													Notified
+											{entry.signedUpAt ? (
+												<Badge className="text-xs">Signed up</Badge>
+											) : (
+												entry.isNotified && (
+													<Badge variant="secondary" className="text-xs">
+														Notified
+													</Badge>
+												)
+											)}
+											{entry.referralCount > 0 && (
+												<Badge variant="outline" className="text-xs">
+													{entry.referralCount} referred
 												</Badge>
 											)}
 										</div>
@@ -93,6 +153,9 @@ export async function WaitlistAdmin() {
 									<div className="text-right text-sm text-muted-foreground">
 										<div>{formatDistanceToNow(entry.createdAt)} ago</div>
 										<div className="text-xs">via {entry.source}</div>
+										{entry.referralCode && (
+											<div className="font-mono text-xs">{entry.referralCode}</div>
+										)}
 									</div>
 								</div>
 							))
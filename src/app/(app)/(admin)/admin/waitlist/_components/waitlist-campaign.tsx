@@ -0,0 +1,151 @@
+"use client";
+
+import { Download, Loader2, Send, Upload } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useRef, useState, useTransition } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import {
+	exportWaitlistCsv,
+	importWaitlistCsv,
+	inviteWaitlistBatch,
+} from "@/server/actions/waitlist-actions";
+
+interface WaitlistCampaignProps {
+	pending: number;
+}
+
+/**
+ * Batch invites and CSV import/export for the admin waitlist page
+ */
+export function WaitlistCampaign({ pending }: WaitlistCampaignProps) {
+	const router = useRouter();
+	const { toast } = useToast();
+	const [isPending, startTransition] = useTransition();
+	const [batchSize, setBatchSize] = useState(Math.min(50, Math.max(pending, 1)));
+	const fileInputRef = useRef<HTMLInputElement>(null);
+
+	const run = (action: () => Promise<void>, failure: string) => {
+		startTransition(async () => {
+			try {
+				await action();
+				router.refresh();
+			} catch (error) {
+				toast({
+					title: failure,
+					description: error instanceof Error ? error.message : "Unknown error",
+					variant: "destructive",
+				});
+			}
+		});
+	};
+
+	const handleInvite = () => {
+		run(async () => {
+			const { invited, failed } = await inviteWaitlistBatch(batchSize);
+			toast({
+				title: `Invited ${invited.length} ${invited.length === 1 ? "person" : "people"}`,
+				description:
+					failed.length > 0
+						? `${failed.length} emails failed and stay in the queue. See the email log for details.`
+						: "Each invite has an invite-only sign-up link.",
+				variant: failed.length > 0 && invited.length === 0 ? "destructive" : "default",
+			});
+		}, "Invite failed");
+	};
+
+	const handleExport = () => {
+		run(async () => {
+			const csv = await exportWaitlistCsv();
+			const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }));
+			const link = document.createElement("a");
+			link.href = url;
+			link.download = `waitlist-${new Date().toISOString().slice(0, 10)}.csv`;
+			link.click();
+			URL.revokeObjectURL(url);
+		}, "Export failed");
+	};
+
+	const handleImport = (file: File) => {
+		const formData = new FormData();
+		formData.append("file", file);
+		run(async () => {
+			const { imported, skipped, errors } = await importWaitlistCsv(formData);
+			toast({
+				title: `Imported ${imported} ${imported === 1 ? "entry" : "entries"}`,
+				description: [
+					skipped > 0 && `${skipped} already on the waitlist.`,
+					errors.length > 0 &&
+						`Skipped invalid rows: ${errors.map((error) => `line ${error.line} (${error.message})`).join(", ")}.`,
+				]
+					.filter(Boolean)
+					.join(" "),
+			});
+		}, "Import failed");
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Campaign</CardTitle>
+				<CardDescription>
+					Invite the next people in line. Referrals move entries up the queue, and each invite email
+					has a sign-up link that only works for that address.
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="flex flex-wrap items-end gap-4">
+				<div className="space-y-2">
+					<Label htmlFor="batch-size">Batch size</Label>
+					<Input
+						id="batch-size"
+						type="number"
+						min={1}
+						max={500}
+						value={batchSize}
+						onChange={(event) => setBatchSize(Number.parseInt(event.target.value, 10) || 1)}
+						className="w-28"
+					/>
+				</div>
+				<Button onClick={handleInvite} disabled={isPending || pending === 0}>
+					{isPending ? (
+						<Loader2 className="mr-2 h-4 w-4 animate-spin" />
+					) : (
+						<Send className="mr-2 h-4 w-4" />
+					)}
+					Send invites
+				</Button>
+
+				<div className="ml-auto flex gap-2">
+					<Button variant="outline" onClick={handleExport} disabled={isPending}>
+						<Download className="mr-2 h-4 w-4" />
+						Export CSV
+					</Button>
+					<Button
+						variant="outline"
+						onClick={() => fileInputRef.current?.click()}
+						disabled={isPending}
+					>
+						<Upload className="mr-2 h-4 w-4" />
+						Import CSV
+					</Button>
+					<input
+						ref={fileInputRef}
+						type="file"
+						accept=".csv,text/csv"
+						className="hidden"
+						onChange={(event) => {
+							const file = event.target.files?.[0];
+							event.target.value = "";
+							if (file) {
+								handleImport(file);
+							}
+						}}
+					/>
+				</div>
+			</CardContent>
+		</Card>
+	);
+}
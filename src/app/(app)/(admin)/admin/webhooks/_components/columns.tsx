@@ -0,0 +1,85 @@
+"use client";
+
+import type { ColumnDef } from "@tanstack/react-table";
+import { format } from "date-fns";
+import { ArrowUpDown } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { WebhookEvent } from "@/server/db/schema";
+import { ReplayWebhookButton } from "./replay-webhook-button";
+
+export type WebhookEventRow = Omit<WebhookEvent, "body">;
+
+const formatDate = (value: Date | string | null) =>
+	value ? format(new Date(value), "MMM d, yyyy HH:mm:ss") : "—";
+
+export const columns: ColumnDef<WebhookEventRow>[] = [
+	{
+		accessorKey: "receivedAt",
+		header: ({ column }) => (
+			<Button variant="ghost" onClick={() => column.toggleSorting(column.getIsSorted() === "asc")}>
+				Received
+				<ArrowUpDown className="ml-2 h-4 w-4" />
+			</Button>
+		),
+		cell: ({ row }) => formatDate(row.original.receivedAt),
+	},
+	{
+		accessorKey: "provider",
+		header: "Provider",
+		cell: ({ row }) => <Badge variant="outline">{row.original.provider}</Badge>,
+	},
+	{
+		accessorKey: "eventName",
+		header: "Event",
+		cell: ({ row }) => (
+			<div>
+				<div className="font-medium">{row.original.eventName}</div>
+				<div className="max-w-[220px] truncate font-mono text-xs text-muted-foreground">
+					{row.original.eventId}
+				</div>
+			</div>
+		),
+	},
+	{
+		accessorKey: "status",
+		header: "Status",
+		cell: ({ row }) => {
+			const status = row.original.status;
+			return (
+				<Badge
+					variant={
+						status === "processed" ? "default" : status === "failed" ? "destructive" : "secondary"
+					}
+				>
+					{status.charAt(0).toUpperCase() + status.slice(1)}
+				</Badge>
+			);
+		},
+	},
+	{
+		accessorKey: "attempts",
+		header: "Attempts",
+	},
+	{
+		accessorKey: "error",
+		header: "Last Error",
+		cell: ({ row }) => (
+			<div
+				className="max-w-[280px] truncate text-sm text-muted-foreground"
+				title={row.original.error ?? ""}
+			>
+				{row.original.error ?? "—"}
+			</div>
+		),
+	},
+	{
+		accessorKey: "nextAttemptAt",
+		header: "Next Retry",
+		cell: ({ row }) => formatDate(row.original.nextAttemptAt),
+	},
+	{
+		id: "actions",
+		cell: ({ row }) => <ReplayWebhookButton id={row.original.id} />,
+	},
+];
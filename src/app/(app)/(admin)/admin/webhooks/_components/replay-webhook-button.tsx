@@ -0,0 +1,50 @@
+"use client";
+
+import { Loader2, RotateCcw } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useTransition } from "react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { replayWebhookEvent } from "@/server/actions/webhooks";
+
+/**
+ * Button that replays a stored webhook event
+ */
+export function ReplayWebhookButton({ id }: { id: number }) {
+	const { toast } = useToast();
+	const router = useRouter();
+	const [isPending, startTransition] = useTransition();
+
+	const handleReplay = () => {
+		startTransition(async () => {
+			try {
+				const result = await replayWebhookEvent(id);
+
+				toast({
+					title: result.success ? "Webhook replayed" : "Replay failed",
+					description: result.success ? `Event ${id} was ${result.status}.` : result.error,
+					variant: result.success ? "default" : "destructive",
+				});
+			} catch (error) {
+				toast({
+					title: "Replay failed",
+					description: error instanceof Error ? error.message : "Unknown error",
+					variant: "destructive",
+				});
+			} finally {
+				router.refresh();
+			}
+		});
+	};
+
+	return (
+		<Button variant="outline" size="sm" onClick={handleReplay} disabled={isPending}>
+			{isPending ? (
+				<Loader2 className="mr-2 h-4 w-4 animate-spin" />
+			) : (
+				<RotateCcw className="mr-2 h-4 w-4" />
+			)}
+			Replay
+		</Button>
+	);
+}
@@ -0,0 +1,60 @@
+import type { Metadata } from "next";
+import {
+	PageHeader,
+	PageHeaderDescription,
+	PageHeaderHeading,
+} from "@/components/primitives/page-header";
+import { DataTable } from "@/components/ui/data-table/data-table";
+import { constructMetadata } from "@/config/metadata";
+import { WebhookInboxService } from "@/server/services/webhook-inbox-service";
+import { columns, type WebhookEventRow } from "./_components/columns";
+import { WebhookFilters } from "./_components/webhook-filters";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = constructMetadata({
+	title: "Webhook Inbox",
+	description: "Inspect, retry and replay incoming provider webhooks.",
+	noIndex: true,
+});
+
+export interface WebhooksPageProps {
+	searchParams: Promise<{
+		provider?: string;
+		status?: string;
+	}>;
+}
+
+/**
+ * Admin webhook inbox page that lists stored webhook events
+ * with their processing status and lets admins replay them
+ */
+export default async function WebhooksPage({
+	searchParams: searchParamsPromise,
+}: WebhooksPageProps) {
+	const searchParams = await searchParamsPromise;
+	const events = await WebhookInboxService.listEvents({
+		provider: searchParams.provider,
+		status: searchParams.status,
+		limit: 250,
+	});
+
+	// Bodies can be large and are not shown in the table
+	const rows: WebhookEventRow[] = events.map(({ body: _body, ...event }) => event);
+
+	return (
+		<>
+			<div className="flex justify-between items-center mb-6">
+				<PageHeader>
+					<PageHeaderHeading>Webhook Inbox</PageHeaderHeading>
+					<PageHeaderDescription>
+						Webhooks from Stripe, Lemon Squeezy, Polar and Vercel. Failed events are retried
+						automatically with backoff.
+					</PageHeaderDescription>
+				</PageHeader>
+				<WebhookFilters />
+			</div>
+			<DataTable columns={columns} data={rows} searchPlaceholder="Search webhooks..." />
+		</>
+	);
+}
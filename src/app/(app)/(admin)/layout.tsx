@@ -13,6 +13,12 @@ const navLinks = [
 	{ href: routes.admin.integrations, label: "Integrations" },
 	{ href: routes.admin.feedback, label: "Feedback" },
 	{ href: routes.admin.payments, label: "Payments" },
+	{ href: routes.admin.webhooks, label: "Webhooks" },
+	{ href: routes.admin.emails, label: "Emails" },
+	{ href: routes.admin.waitlist, label: "Waitlist" },
+	{ href: routes.admin.roles, label: "Roles" },
+	{ href: routes.admin.flags, label: "Flags" },
+	{ href: routes.admin.auditLog, label: "Audit Log" },
 ];
 
 export default async function AdminLayout({ children }: { children: React.ReactNode }) {
@@ -1,2 +1,28 @@
+import type { NextRequest } from "next/server";
+import type { Session } from "next-auth";
 import { handlers } from "@/server/auth";
-export const { GET, POST } = handlers;
+import { impersonationService } from "@/server/services/impersonation-service";
+
+export const { POST } = handlers;
+
+/**
+ * Serves Auth.js, swapping in the impersonated user on the session endpoint so
+ * `useSession` on the client sees the same user as `auth()` on the server
+ */
+export async function GET(request: NextRequest) {
+	const response = await handlers.GET(request);
+	if (!request.nextUrl.pathname.endsWith("/session") || !response.ok) {
+		return response;
+	}
+
+	const session = (await response.clone().json()) as Session | null;
+	const impersonated = await impersonationService.applyToSession(session);
+	if (impersonated === session) {
+		return response;
+	}
+
+	// Keeps the cookies Auth.js sets when it extends the session
+	const headers = new Headers(response.headers);
+	headers.delete("content-length");
+	return Response.json(impersonated, { status: response.status, headers });
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { routes } from "@/config/routes";
+import { acceptTeamInvitation, declineTeamInvitation } from "@/server/actions/team-invitations";
+
+interface InvitationResponseProps {
+	token: string;
+	invitedEmail: string;
+	sessionEmail: string | null;
+}
+
+export function InvitationResponse({ token, invitedEmail, sessionEmail }: InvitationResponseProps) {
+	const router = useRouter();
+	const [name, setName] = useState("");
+	const [isSubmitting, setIsSubmitting] = useState(false);
+	const [joinedTeam, setJoinedTeam] = useState<string | null>(null);
+	const [declined, setDeclined] = useState(false);
+
+	const emailMismatch = !!sessionEmail && sessionEmail.toLowerCase() !== invitedEmail;
+
+	async function handleAccept() {
+		setIsSubmitting(true);
+		try {
+			const result = await acceptTeamInvitation({ token, name: name || undefined });
+			toast.success(`You joined ${result.teamName}`);
+			if (result.requiresSignIn) {
+				setJoinedTeam(result.teamName);
+			} else {
+				router.push(routes.app.teams);
+			}
+		} catch (error) {
+			toast.error("Could not accept the invitation", {
+				description: error instanceof Error ? error.message : "Please try again.",
+			});
+		} finally {
+			setIsSubmitting(false);
+		}
+	}
+
+	async function handleDecline() {
+		setIsSubmitting(true);
+		try {
+			await declineTeamInvitation({ token });
+			setDeclined(true);
+		} catch (error) {
+			toast.error("Could not decline the invitation", {
+				description: error instanceof Error ? error.message : "Please try again.",
+			});
+		} finally {
+			setIsSubmitting(false);
+		}
+	}
+
+	if (declined) {
+		return <p className="text-sm text-muted-foreground">You declined the invitation.</p>;
+	}
+
+	if (joinedTeam) {
+		return (
+			<div className="grid gap-4">
+				<p className="text-sm text-muted-foreground">
+					You are now a member of {joinedTeam}. Sign in as {invitedEmail} to get started.
+				</p>
+				<Button asChild>
+					<Link href={routes.auth.signIn}>Sign in</Link>
+				</Button>
+			</div>
+		);
+	}
+
+	if (emailMismatch) {
+		return (
+			<div className="grid gap-4">
+				<p className="text-sm text-muted-foreground">
+					You are signed in as {sessionEmail}. Sign out and sign in as {invitedEmail} to accept this
+					invitation.
+				</p>
+				<Button asChild variant="outline">
+					<Link href={routes.auth.signOut}>Sign out</Link>
+				</Button>
+			</div>
+		);
+	}
+
+	return (
+		<div className="grid gap-4">
+			{!sessionEmail && (
+				<div className="grid gap-2">
+					<Label htmlFor="name">Your name</Label>
+					<Input
+						id="name"
+						placeholder="Only needed if you are new here"
+						value={name}
+						onChange={(event) => setName(event.target.value)}
+					/>
+				</div>
+			)}
+			<Button onClick={() => void handleAccept()} disabled={isSubmitting}>
+				{isSubmitting ? "Joining..." : "Accept invitation"}
+			</Button>
+			<Button variant="ghost" onClick={() => void handleDecline()} disabled={isSubmitting}>
+				Decline
+			</Button>
+		</div>
+	);
+}
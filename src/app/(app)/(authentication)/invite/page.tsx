@@ -0,0 +1,60 @@
+import type { Metadata } from "next";
+import { AuthBranding } from "@/app/(app)/(authentication)/_components/auth-branding";
+import { AuthenticationCard } from "@/app/(app)/(authentication)/_components/authentication-card";
+import { InvitationResponse } from "@/app/(app)/(authentication)/invite/_components/invitation-response";
+import { CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { constructMetadata } from "@/config/metadata";
+import { siteConfig } from "@/config/site-config";
+import { auth } from "@/server/auth";
+import { teamInvitationService } from "@/server/services/team-invitation-service";
+
+export const metadata: Metadata = constructMetadata({
+	title: "Team Invitation",
+	description: `Join a team on ${siteConfig.name}.`,
+});
+
+export default async function InvitePage({
+	searchParams,
+}: {
+	searchParams: Promise<{ token?: string }>;
+}) {
+	const { token } = await searchParams;
+	const [invitation, session] = await Promise.all([
+		token ? teamInvitationService.getInvitationByToken(token) : null,
+		auth(),
+	]);
+
+	return (
+		<div className="flex w-full max-w-sm flex-col gap-6">
+			<AuthBranding />
+			<AuthenticationCard>
+				{token && invitation ? (
+					<>
+						<CardHeader>
+							<CardTitle className="text-2xl">Join {invitation.teamName}</CardTitle>
+							<CardDescription>
+								{invitation.inviterName ?? "A teammate"} invited {invitation.email} to join as{" "}
+								{invitation.role === "admin" ? "an admin" : "a member"}.
+							</CardDescription>
+						</CardHeader>
+						<CardContent>
+							<InvitationResponse
+								token={token}
+								invitedEmail={invitation.email}
+								sessionEmail={session?.user?.email ?? null}
+							/>
+						</CardContent>
+					</>
+				) : (
+					<CardHeader>
+						<CardTitle className="text-2xl">Invitation unavailable</CardTitle>
+						<CardDescription>
+							This invitation link is invalid, has expired, or has already been used. Ask a team
+							admin to send a new one.
+						</CardDescription>
+					</CardHeader>
+				)}
+			</AuthenticationCard>
+		</div>
+	);
+}
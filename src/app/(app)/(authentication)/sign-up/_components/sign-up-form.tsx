@@ -24,13 +24,19 @@ import { signUpWithCredentialsAction } from "@/server/actions/auth";
 
 type SignUpFormValues = z.infer<typeof signUpSchema>;
 
-export const SignUpForm = () => {
+interface SignUpFormProps {
+	/** A waitlist invite; the account must use the invited address */
+	invite?: { token: string; email: string } | null;
+}
+
+export const SignUpForm = ({ invite }: SignUpFormProps) => {
 	const router = useRouter();
 	const { update: updateSession } = useSession();
 	const form = useForm<SignUpFormValues>({
 		resolver: zodResolver(signUpSchema),
 		defaultValues: {
 			...getSchemaDefaults<typeof signUpSchema>(signUpSchema),
+			...(invite && { email: invite.email }),
 			redirectTo: routes.home,
 			redirect: true,
 		},
@@ -44,6 +50,9 @@ export const SignUpForm = () => {
 			formData.append("password", values.password);
 			formData.append("redirect", "false");
 			formData.append("redirectTo", routes.home);
+			if (invite) {
+				formData.append("invite", invite.token);
+			}
 
 			const result = await signUpWithCredentialsAction({}, formData);
 
@@ -94,7 +103,13 @@ export const SignUpForm = () => {
 						<FormItem>
 							<FormLabel>Email</FormLabel>
 							<FormControl>
-								<Input placeholder="me@example.com" type="email" autoComplete="email" {...field} />
+								<Input
+									placeholder="me@example.com"
+									type="email"
+									autoComplete="email"
+									readOnly={!!invite}
+									{...field}
+								/>
 							</FormControl>
 							<FormMessage />
 						</FormItem>
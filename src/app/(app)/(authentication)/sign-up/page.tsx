@@ -2,13 +2,14 @@ import type { Metadata } from "next";
 import { redirect } from "next/navigation";
 import { AuthBranding } from "@/app/(app)/(authentication)/_components/auth-branding";
 import { AuthForm } from "@/app/(app)/(authentication)/_components/auth-form";
+import { AuthenticationCard } from "@/app/(app)/(authentication)/_components/authentication-card";
 import { Icon } from "@/components/assets/icon";
 import { Divider } from "@/components/primitives/divider";
 import { constructMetadata } from "@/config/metadata";
 import { routes } from "@/config/routes";
 import { siteConfig } from "@/config/site-config";
 import { env } from "@/env";
-import { AuthenticationCard } from "@/app/(app)/(authentication)/_components/authentication-card";
+import { getWaitlistInvite } from "@/server/services/waitlist-service";
 import { SignUpForm } from "./_components/sign-up-form";
 
 export const metadata: Metadata = constructMetadata({
@@ -16,7 +17,11 @@ export const metadata: Metadata = constructMetadata({
 	description: `Create your ${siteConfig.name} account to start building and deploying your applications.`,
 });
 
-export default async function SignUpPage() {
+interface SignUpPageProps {
+	searchParams: Promise<{ invite?: string }>;
+}
+
+export default async function SignUpPage({ searchParams }: SignUpPageProps) {
 	const hasAuth = env.NEXT_PUBLIC_FEATURE_AUTH_ENABLED;
 	const isGuestOnlyMode =
 		!!env.NEXT_PUBLIC_FEATURE_AUTH_GUEST_ENABLED && !env.NEXT_PUBLIC_FEATURE_AUTH_METHODS_ENABLED;
@@ -46,15 +51,26 @@ export default async function SignUpPage() {
 		);
 	}
 
+	// Waitlist invite links pre-fill the address the invite was sent to
+	const { invite: inviteToken } = await searchParams;
+	const inviteEntry = inviteToken ? await getWaitlistInvite(inviteToken) : null;
+	const invite =
+		inviteToken && inviteEntry ? { token: inviteToken, email: inviteEntry.email } : null;
+
 	return (
 		<div className="flex w-full max-w-sm flex-col gap-6">
 			<AuthBranding />
 			<AuthenticationCard>
 				<AuthForm mode="sign-up">
+					{inviteToken && !invite && (
+						<p className="text-center text-sm text-destructive">
+							This invite link is invalid or has expired.
+						</p>
+					)}
 					{env.NEXT_PUBLIC_FEATURE_AUTH_CREDENTIALS_ENABLED && (
 						<>
 							<Divider text="Or continue with email" />
-							<SignUpForm />
+							<SignUpForm invite={invite} />
 						</>
 					)}
 				</AuthForm>
@@ -7,11 +7,15 @@ import { DataTable } from "@/components/ui/data-table/data-table";
 import { createApiKey } from "@/server/actions/api-key-actions";
 import { CreateApiKeyDialog } from "./create-api-key-dialog";
 import { DeleteApiKeyDialog } from "./delete-api-key-dialog";
+import { RotateApiKeyDialog } from "./rotate-api-key-dialog";
 
 // Define the type for our API key data
 interface ApiKey {
 	id: string;
-	key: string;
+	keyPrefix: string;
+	scopes: string[];
+	allowedIps: string[];
+	rotated: boolean;
 	name: string;
 	description?: string | null;
 	createdAt: Date;
@@ -28,15 +32,12 @@ interface ApiKeysTableProps {
 // Define the columns for the DataTable
 const columns: ColumnDef<ApiKey>[] = [
 	{
-		accessorKey: "key",
+		accessorKey: "keyPrefix",
 		header: "Key",
 		cell: ({ row }) => {
-			const key = row.getValue("key") as string;
 			return (
 				<div className="flex items-center space-x-2">
-					<code className="rounded bg-muted px-2 py-1">
-						{key.slice(0, 12)}...{key.slice(-4)}
-					</code>
+					<code className="rounded bg-muted px-2 py-1">{row.original.keyPrefix}…</code>
 				</div>
 			);
 		},
@@ -54,6 +55,27 @@ const columns: ColumnDef<ApiKey>[] = [
 			);
 		},
 	},
+	{
+		accessorKey: "scopes",
+		header: "Scopes",
+		cell: ({ row }) => {
+			const { scopes, allowedIps } = row.original;
+			return (
+				<div className="space-y-1">
+					<div className="flex max-w-[260px] flex-wrap gap-1">
+						{scopes.map((scope) => (
+							<Badge key={scope} variant="outline" className="font-mono text-xs">
+								{scope}
+							</Badge>
+						))}
+					</div>
+					{allowedIps.length > 0 && (
+						<div className="text-xs text-muted-foreground">IPs: {allowedIps.join(", ")}</div>
+					)}
+				</div>
+			);
+		},
+	},
 	{
 		accessorKey: "createdAt",
 		header: "Created",
@@ -91,6 +113,9 @@ const columns: ColumnDef<ApiKey>[] = [
 		cell: ({ row }) => {
 			const expiresAt = row.original.expiresAt;
 			const isExpired = expiresAt ? new Date(expiresAt) < new Date() : false;
+			if (!isExpired && row.original.rotated) {
+				return <Badge variant="secondary">Rotating</Badge>;
+			}
 			return (
 				<Badge variant={isExpired ? "destructive" : "default"} className="capitalize">
 					{isExpired ? "Expired" : "Active"}
@@ -99,10 +124,15 @@ const columns: ColumnDef<ApiKey>[] = [
 		},
 	},
 	{
-		accessorKey: "delete",
-		header: "Delete",
+		accessorKey: "actions",
+		header: "Actions",
 		cell: ({ row }) => {
-			return <DeleteApiKeyDialog apiKeyId={row.original.id} />;
+			return (
+				<div className="flex items-center">
+					<RotateApiKeyDialog apiKeyId={row.original.id} keyPrefix={row.original.keyPrefix} />
+					<DeleteApiKeyDialog apiKeyId={row.original.id} />
+				</div>
+			);
 		},
 	},
 ];
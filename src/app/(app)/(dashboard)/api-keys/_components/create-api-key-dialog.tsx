@@ -4,6 +4,7 @@ import { PlusIcon } from "@radix-ui/react-icons";
 import * as React from "react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { CopyButton } from "@/components/ui/copy-button";
 import {
 	Dialog,
@@ -25,6 +26,14 @@ import {
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
+import type { ApiKeyScope } from "@/server/services/api-key-service";
+
+/** Scopes offered in the dialog, grouped by resource */
+const SCOPE_GROUPS: { resource: string; label: string }[] = [
+	{ resource: "projects", label: "Projects" },
+	{ resource: "deployments", label: "Deployments" },
+	{ resource: "credits", label: "Credits" },
+];
 
 interface CreateApiKeyDialogProps {
 	onSubmit: (data: {
@@ -32,6 +41,8 @@ interface CreateApiKeyDialogProps {
 		name: string;
 		description?: string;
 		expiresIn?: string;
+		scopes: ApiKeyScope[];
+		allowedIps?: string[];
 	}) => Promise<{ key?: string }>;
 	userId: string;
 }
@@ -41,6 +52,8 @@ export function CreateApiKeyDialog({ onSubmit, userId }: CreateApiKeyDialogProps
 	const [name, setName] = React.useState("");
 	const [description, setDescription] = React.useState("");
 	const [expiresIn, setExpiresIn] = React.useState<string>();
+	const [scopes, setScopes] = React.useState<ApiKeyScope[]>(["projects:read", "deployments:read"]);
+	const [allowedIps, setAllowedIps] = React.useState("");
 	const [isLoading, setIsLoading] = React.useState(false);
 	const [createdKey, setCreatedKey] = React.useState<string | null>(null);
 	const [showKeyDialog, setShowKeyDialog] = React.useState(false);
@@ -50,9 +63,17 @@ export function CreateApiKeyDialog({ onSubmit, userId }: CreateApiKeyDialogProps
 		setName("");
 		setDescription("");
 		setExpiresIn(undefined);
+		setScopes(["projects:read", "deployments:read"]);
+		setAllowedIps("");
 		setCreatedKey(null);
 	};
 
+	const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+		setScopes((current) =>
+			checked ? [...current, scope] : current.filter((value) => value !== scope)
+		);
+	};
+
 	const handleSubmit = async (e: React.FormEvent) => {
 		e.preventDefault();
 		setIsLoading(true);
@@ -63,6 +84,11 @@ export function CreateApiKeyDialog({ onSubmit, userId }: CreateApiKeyDialogProps
 				name,
 				description,
 				expiresIn,
+				scopes,
+				allowedIps: allowedIps
+					.split(/[\s,]+/)
+					.map((ip) => ip.trim())
+					.filter(Boolean),
 			});
 
 			if (result.key) {
@@ -80,7 +106,8 @@ export function CreateApiKeyDialog({ onSubmit, userId }: CreateApiKeyDialogProps
 		} catch (error) {
 			toast({
 				title: "Error",
-				description: "Failed to create API key. Please try again.",
+				description:
+					error instanceof Error ? error.message : "Failed to create API key. Please try again.",
 				variant: "destructive",
 			});
 		} finally {
@@ -154,13 +181,51 @@ export function CreateApiKeyDialog({ onSubmit, userId }: CreateApiKeyDialogProps
 									</SelectContent>
 								</Select>
 							</div>
+
+							<div className="grid gap-2">
+								<Label>Scopes</Label>
+								<div className="grid gap-2 rounded-md border p-3">
+									{SCOPE_GROUPS.map(({ resource, label }) => (
+										<div key={resource} className="flex items-center justify-between">
+											<span className="text-sm font-medium">{label}</span>
+											<div className="flex items-center gap-4">
+												{(["read", "write"] as const).map((access) => {
+													const scope = `${resource}:${access}` as ApiKeyScope;
+													return (
+														<div key={scope} className="flex items-center gap-2">
+															<Checkbox
+																id={scope}
+																checked={scopes.includes(scope)}
+																onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+															/>
+															<Label htmlFor={scope} className="text-sm font-normal capitalize">
+																{access}
+															</Label>
+														</div>
+													);
+												})}
+											</div>
+										</div>
+									))}
+								</div>
+							</div>
+
+							<div className="grid gap-2">
+								<Label htmlFor="allowed-ips">Allowed IPs</Label>
+								<Textarea
+									id="allowed-ips"
+									value={allowedIps}
+									onChange={(e) => setAllowedIps(e.target.value)}
+									placeholder="Optional, e.g. 203.0.113.7 or 10.0.0.0/24 (one per line)"
+								/>
+							</div>
 						</div>
 
 						<DialogFooter>
 							<Button variant="outline" onClick={() => setOpen(false)} type="button">
 								Cancel
 							</Button>
-							<Button type="submit" disabled={isLoading}>
+							<Button type="submit" disabled={isLoading || scopes.length === 0}>
 								{isLoading ? "Creating..." : "Create"}
 							</Button>
 						</DialogFooter>
@@ -0,0 +1,150 @@
+"use client";
+
+import { RefreshCw } from "lucide-react";
+import * as React from "react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { CopyButton } from "@/components/ui/copy-button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+	DialogTrigger,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { rotateApiKey } from "@/server/actions/api-key-actions";
+
+interface RotateApiKeyDialogProps {
+	apiKeyId: string;
+	keyPrefix: string;
+}
+
+export function RotateApiKeyDialog({ apiKeyId, keyPrefix }: RotateApiKeyDialogProps) {
+	const [open, setOpen] = React.useState(false);
+	const [overlapHours, setOverlapHours] = React.useState("24");
+	const [isLoading, setIsLoading] = React.useState(false);
+	const [rotatedKey, setRotatedKey] = React.useState<string | null>(null);
+	const { toast } = useToast();
+
+	const handleOpenChange = (isOpen: boolean) => {
+		setOpen(isOpen);
+		if (!isOpen) {
+			setOverlapHours("24");
+			setRotatedKey(null);
+		}
+	};
+
+	const handleRotate = async () => {
+		setIsLoading(true);
+
+		try {
+			const result = await rotateApiKey({
+				apiKeyId,
+				overlapHours: Number.parseInt(overlapHours, 10),
+			});
+
+			if (result.key) {
+				setRotatedKey(result.key);
+				toast({
+					title: "API key rotated",
+					description: "Update your applications with the new key.",
+				});
+			}
+		} catch (error) {
+			toast({
+				title: "Error",
+				description:
+					error instanceof Error ? error.message : "Failed to rotate API key. Please try again.",
+				variant: "destructive",
+			});
+		} finally {
+			setIsLoading(false);
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={handleOpenChange}>
+			<DialogTrigger asChild>
+				<Button variant="ghost" size="icon" title="Rotate key">
+					<RefreshCw className="h-4 w-4" />
+				</Button>
+			</DialogTrigger>
+			<DialogContent>
+				{rotatedKey ? (
+					<>
+						<DialogHeader>
+							<DialogTitle>New API Key</DialogTitle>
+							<DialogDescription>
+								This is the only time you will see the full key. Please copy it now.
+							</DialogDescription>
+						</DialogHeader>
+
+						<div className="py-4">
+							<Alert className="mb-4">
+								<AlertDescription>
+									{overlapHours === "0"
+										? `${keyPrefix}… has stopped working.`
+										: `${keyPrefix}… keeps working for ${overlapHours} more hours.`}
+								</AlertDescription>
+							</Alert>
+
+							<div className="flex items-center space-x-2 bg-muted p-3 rounded-md">
+								<code className="flex-1 font-mono text-sm break-all">{rotatedKey}</code>
+								<CopyButton value={rotatedKey} />
+							</div>
+						</div>
+
+						<DialogFooter>
+							<Button onClick={() => handleOpenChange(false)}>Done</Button>
+						</DialogFooter>
+					</>
+				) : (
+					<>
+						<DialogHeader>
+							<DialogTitle>Rotate API Key</DialogTitle>
+							<DialogDescription>
+								Issue a replacement for <code>{keyPrefix}…</code> with the same scopes and allowed
+								IPs. The old key keeps working until the overlap window ends.
+							</DialogDescription>
+						</DialogHeader>
+
+						<div className="grid gap-2 py-4">
+							<Label htmlFor="overlap">Keep the old key working for</Label>
+							<Select value={overlapHours} onValueChange={setOverlapHours}>
+								<SelectTrigger id="overlap">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value="0">Revoke immediately</SelectItem>
+									<SelectItem value="1">1 hour</SelectItem>
+									<SelectItem value="24">24 hours</SelectItem>
+									<SelectItem value="168">7 days</SelectItem>
+								</SelectContent>
+							</Select>
+						</div>
+
+						<DialogFooter>
+							<Button variant="outline" onClick={() => handleOpenChange(false)} type="button">
+								Cancel
+							</Button>
+							<Button onClick={handleRotate} disabled={isLoading}>
+								{isLoading ? "Rotating..." : "Rotate"}
+							</Button>
+						</DialogFooter>
+					</>
+				)}
+			</DialogContent>
+		</Dialog>
+	);
+}
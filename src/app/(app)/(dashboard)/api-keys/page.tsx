@@ -6,14 +6,19 @@ import { constructMetadata } from "@/config/metadata";
 import { routes } from "@/config/routes";
 import { createRedirectUrl } from "@/lib/utils/redirect";
 import { auth } from "@/server/auth";
-import { apiKeyService } from "@/server/services/api-key-service";
+import {
+	apiKeyService,
+	getApiKeyAllowedIps,
+	getApiKeyScopes,
+} from "@/server/services/api-key-service";
 import { cacheConfigs, cacheService } from "@/server/services/cache-service";
 import { ErrorService } from "@/server/services/error-service";
 import { ApiKeysTable } from "./_components/api-keys-table";
 
 export const metadata: Metadata = constructMetadata({
 	title: "API Keys",
-	description: "Manage your API keys for programmatic access. Create, view, and revoke API keys securely.",
+	description:
+		"Manage your API keys for programmatic access. Create, view, and revoke API keys securely.",
 });
 
 export default async function ApiKeysPage() {
@@ -32,10 +37,17 @@ export default async function ApiKeysPage() {
 		);
 
 		// Filter out deleted API keys and map to the format expected by DataTable
+		// Keys that have been replaced stay valid until their overlap window ends
+		const rotatedKeyIds = new Set(userApiKeys?.map(({ apiKey }) => apiKey.rotatedFromId));
+
+		// Only the display prefix is sent to the client, never the key hash
 		const activeApiKeys = userApiKeys
 			?.filter(({ apiKey }) => !apiKey.deletedAt)
-			.map(({ apiKey }) => ({
+			.map(({ apiKey: { keyHash: _keyHash, ...apiKey } }) => ({
 				...apiKey,
+				scopes: getApiKeyScopes(apiKey),
+				allowedIps: getApiKeyAllowedIps(apiKey),
+				rotated: rotatedKeyIds.has(apiKey.id),
 				createdAt: new Date(apiKey.createdAt),
 				lastUsedAt: apiKey.lastUsedAt ? new Date(apiKey.lastUsedAt) : null,
 				expiresAt: apiKey.expiresAt ? new Date(apiKey.expiresAt) : null,
@@ -50,7 +62,12 @@ export default async function ApiKeysPage() {
 				<div className="mb-8">
 					<h1 className="text-2xl font-bold tracking-tight">API Keys</h1>
 					<p className="text-muted-foreground">
-						Manage your API keys. Keep these secure and never share them publicly.
+						Manage your API keys. Keep these secure and never share them publicly. Send a key as{" "}
+						<code>Authorization: Bearer &lt;key&gt;</code> to the REST API described in the{" "}
+						<a href={routes.api.openApi} className="underline underline-offset-4">
+							OpenAPI document
+						</a>
+						.
 					</p>
 				</div>
 
@@ -0,0 +1,34 @@
+"use client";
+
+import { useTransition } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import type { CreditPackProvider } from "@/config/credit-packs";
+import { purchaseCreditPack } from "@/server/actions/credits";
+
+interface BuyCreditPackButtonProps {
+	packId: string;
+	provider: CreditPackProvider;
+	label: string;
+}
+
+export function BuyCreditPackButton({ packId, provider, label }: BuyCreditPackButtonProps) {
+	const [isPending, startTransition] = useTransition();
+
+	const handleClick = () => {
+		startTransition(async () => {
+			try {
+				const url = await purchaseCreditPack({ packId, provider });
+				window.location.href = url;
+			} catch (error) {
+				toast.error(error instanceof Error ? error.message : "Could not start checkout");
+			}
+		});
+	};
+
+	return (
+		<Button onClick={handleClick} disabled={isPending} className="w-full">
+			{isPending ? "Redirecting..." : label}
+		</Button>
+	);
+}
@@ -0,0 +1,161 @@
+import type { Metadata } from "next";
+import { format } from "date-fns";
+import { redirect } from "next/navigation";
+import {
+	PageHeader,
+	PageHeaderDescription,
+	PageHeaderHeading,
+} from "@/components/primitives/page-header";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CREDIT_PACK_PROVIDERS, creditPacks } from "@/config/credit-packs";
+import { constructMetadata } from "@/config/metadata";
+import { routes } from "@/config/routes";
+import { createRedirectUrl } from "@/lib/utils/redirect";
+import { auth } from "@/server/auth";
+import { getEnabledProviders } from "@/server/providers";
+import { getCreditBalance, getUserCreditTransactions } from "@/server/services/credits";
+import { BuyCreditPackButton } from "./_components/buy-credit-pack-button";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = constructMetadata({
+	title: "Credits",
+	description: "Your credit balance, recent transactions and credit packs.",
+	noIndex: true,
+});
+
+const providerNames: Record<string, string> = {
+	stripe: "Stripe",
+	lemonsqueezy: "Lemon Squeezy",
+	polar: "Polar",
+};
+
+export default async function CreditsPage() {
+	const session = await auth({ protect: true });
+	if (!session?.user?.id) {
+		redirect(createRedirectUrl(routes.auth.signIn, { nextUrl: routes.app.credits }));
+	}
+
+	const [balance, transactions] = await Promise.all([
+		getCreditBalance(session.user.id),
+		getUserCreditTransactions(session.user.id, 20),
+	]);
+
+	// Only offer packs that are sold through an enabled provider
+	const enabledProviders = new Set(getEnabledProviders().map((provider) => provider.id));
+	const packs = creditPacks
+		.map((pack) => ({
+			...pack,
+			providers: CREDIT_PACK_PROVIDERS.filter(
+				(provider) => pack.products[provider] && enabledProviders.has(provider)
+			),
+		}))
+		.filter((pack) => pack.providers.length > 0);
+
+	return (
+		<>
+			<PageHeader className="mb-6">
+				<PageHeaderHeading>Credits</PageHeaderHeading>
+				<PageHeaderDescription>
+					Credits on hold are reserved for operations that are still running.
+				</PageHeaderDescription>
+			</PageHeader>
+
+			<div className="mb-8 grid gap-4 md:grid-cols-3">
+				<Card>
+					<CardHeader>
+						<CardDescription>Available</CardDescription>
+						<CardTitle className="text-3xl">{balance.available}</CardTitle>
+					</CardHeader>
+				</Card>
+				<Card>
+					<CardHeader>
+						<CardDescription>On hold</CardDescription>
+						<CardTitle className="text-3xl">{balance.held}</CardTitle>
+					</CardHeader>
+				</Card>
+				<Card>
+					<CardHeader>
+						<CardDescription>Expiring next</CardDescription>
+						<CardTitle className="text-3xl">{balance.expiring[0]?.amount ?? 0}</CardTitle>
+					</CardHeader>
+					{balance.expiring[0] && (
+						<CardContent className="text-sm text-muted-foreground">
+							on {format(balance.expiring[0].expiresAt, "PP")}
+						</CardContent>
+					)}
+				</Card>
+			</div>
+
+			{packs.length > 0 && (
+				<section className="mb-8">
+					<h2 className="mb-4 text-lg font-semibold">Buy credits</h2>
+					<div className="grid gap-4 md:grid-cols-3">
+						{packs.map((pack) => (
+							<Card key={pack.id}>
+								<CardHeader>
+									<CardTitle>{pack.name}</CardTitle>
+									<CardDescription>{pack.description}</CardDescription>
+								</CardHeader>
+								<CardContent className="space-y-3">
+									<p className="text-2xl font-bold">
+										{pack.credits} credits{" "}
+										<span className="text-base font-normal text-muted-foreground">
+											${(pack.price / 100).toFixed(2)}
+										</span>
+									</p>
+									{pack.expiresInDays && (
+										<p className="text-sm text-muted-foreground">
+											Expires {pack.expiresInDays} days after purchase
+										</p>
+									)}
+									{pack.providers.map((provider) => (
+										<BuyCreditPackButton
+											key={provider}
+											packId={pack.id}
+											provider={provider}
+											label={
+												pack.providers.length > 1 ? `Buy with ${providerNames[provider]}` : "Buy"
+											}
+										/>
+									))}
+								</CardContent>
+							</Card>
+						))}
+					</div>
+				</section>
+			)}
+
+			<section>
+				<h2 className="mb-4 text-lg font-semibold">Recent transactions</h2>
+				{transactions.length === 0 ? (
+					<p className="text-sm text-muted-foreground">No transactions yet.</p>
+				) : (
+					<ul className="divide-y rounded-md border">
+						{transactions.map((transaction) => (
+							<li key={transaction.id} className="flex items-center justify-between p-3 text-sm">
+								<div>
+									<p className="font-medium">{transaction.description ?? transaction.type}</p>
+									<p className="text-muted-foreground">
+										{format(transaction.createdAt, "PPp")}
+										{transaction.expiresAt && ` · expires ${format(transaction.expiresAt, "PP")}`}
+									</p>
+								</div>
+								<span
+									className={
+										transaction.amount < 0
+											? "text-destructive"
+											: "text-green-600 dark:text-green-400"
+									}
+								>
+									{transaction.amount > 0 ? "+" : ""}
+									{transaction.amount}
+								</span>
+							</li>
+						))}
+					</ul>
+				)}
+			</section>
+		</>
+	);
+}
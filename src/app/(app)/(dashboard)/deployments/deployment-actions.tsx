@@ -1,6 +1,6 @@
 "use client";
 
-import { ExternalLink, MoreHorizontal, Square, Trash2 } from "lucide-react";
+import { ExternalLink, MoreHorizontal, RotateCcw, Square, Trash2 } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { useState } from "react";
 import { toast } from "sonner";
@@ -23,7 +23,13 @@ import {
 	DropdownMenuSeparator,
 	DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { cancelDeployment, deleteDeployment } from "@/server/actions/deployment-actions";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	cancelDeployment,
+	deleteDeployment,
+	retryDeployment,
+} from "@/server/actions/deployment-actions";
 import type { Deployment } from "@/server/db/schema";
 
 interface DeploymentActionsProps {
@@ -36,6 +42,10 @@ export function DeploymentActions({ deployment }: DeploymentActionsProps) {
 	const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
 	const [isDeleting, setIsDeleting] = useState(false);
 	const [isCanceling, setIsCanceling] = useState(false);
+	const [isRetrying, setIsRetrying] = useState(false);
+	// Environment variable values have to be entered again before a retry can upload them
+	const [missingVariables, setMissingVariables] = useState<string[]>([]);
+	const [variableValues, setVariableValues] = useState<Record<string, string>>({});
 
 	const handleDeleteDeployment = async () => {
 		setIsDeleting(true);
@@ -69,6 +79,30 @@ export function DeploymentActions({ deployment }: DeploymentActionsProps) {
 		}
 	};
 
+	const handleRetryDeployment = async (environmentVariables?: Record<string, string>) => {
+		setIsRetrying(true);
+		try {
+			const result = await retryDeployment(deployment.id, environmentVariables);
+			if (result.missingEnvironmentVariables?.length) {
+				setMissingVariables(result.missingEnvironmentVariables);
+				return;
+			}
+			if (!result.success) {
+				toast.error(result.error ?? "Failed to retry deployment. Please try again.");
+				return;
+			}
+			setMissingVariables([]);
+			setVariableValues({});
+			toast.success("Deployment resumed from the step where it stopped.");
+			router.refresh();
+		} catch (error) {
+			console.error("Failed to retry deployment:", error);
+			toast.error("Failed to retry deployment. Please try again.");
+		} finally {
+			setIsRetrying(false);
+		}
+	};
+
 	return (
 		<div className="flex items-center gap-2">
 			{deployment.vercelProjectUrl && (
@@ -123,7 +157,13 @@ export function DeploymentActions({ deployment }: DeploymentActionsProps) {
 								rel="noopener noreferrer"
 								className="flex items-center gap-2"
 							>
-								<svg className="h-3 w-3" viewBox="0 0 24 24" fill="currentColor" aria-label="GitHub" role="img">
+								<svg
+									className="h-3 w-3"
+									viewBox="0 0 24 24"
+									fill="currentColor"
+									aria-label="GitHub"
+									role="img"
+								>
 									<path d="M12 0c-6.626 0-12 5.373-12 12 0 5.302 3.438 9.8 8.207 11.387.599.111.793-.261.793-.577v-2.234c-3.338.726-4.033-1.416-4.033-1.416-.546-1.387-1.333-1.756-1.333-1.756-1.089-.745.083-.729.083-.729 1.205.084 1.839 1.237 1.839 1.237 1.07 1.834 2.807 1.304 3.492.997.107-.775.418-1.305.762-1.604-2.665-.305-5.467-1.334-5.467-5.931 0-1.311.469-2.381 1.236-3.221-.124-.303-.535-1.524.117-3.176 0 0 1.008-.322 3.301 1.23.957-.266 1.983-.399 3.003-.404 1.02.005 2.047.138 3.006.404 2.291-1.552 3.297-1.23 3.297-1.23.653 1.653.242 2.874.118 3.176.77.84 1.235 1.911 1.235 3.221 0 4.609-2.807 5.624-5.479 5.921.43.372.823 1.102.823 2.222v3.293c0 .319.192.694.801.576 4.765-1.589 8.199-6.086 8.199-11.386 0-6.627-5.373-12-12-12z" />
 								</svg>
 								View on GitHub
@@ -144,6 +184,17 @@ export function DeploymentActions({ deployment }: DeploymentActionsProps) {
 						</DropdownMenuItem>
 					)}
 
+					{(deployment.status === "failed" || deployment.status === "timeout") && (
+						<DropdownMenuItem
+							onClick={() => handleRetryDeployment()}
+							disabled={isRetrying}
+							data-testid="deployment-actions-retry"
+						>
+							<RotateCcw className="h-3 w-3 mr-2" />
+							{isRetrying ? "Retrying..." : "Retry"}
+						</DropdownMenuItem>
+					)}
+
 					<DropdownMenuItem
 						onClick={() => setDeleteDialogOpen(true)}
 						className="text-red-600 focus:text-red-600"
@@ -178,13 +229,62 @@ export function DeploymentActions({ deployment }: DeploymentActionsProps) {
 				</AlertDialogContent>
 			</AlertDialog>
 
+			<AlertDialog
+				open={missingVariables.length > 0}
+				onOpenChange={(open) => {
+					if (!open) {
+						setMissingVariables([]);
+						setVariableValues({});
+					}
+				}}
+			>
+				<AlertDialogContent>
+					<AlertDialogHeader>
+						<AlertDialogTitle>Enter Environment Variables</AlertDialogTitle>
+						<AlertDialogDescription>
+							Environment variable values are not stored. Enter them again to upload them to the
+							Vercel project and retry the deployment.
+						</AlertDialogDescription>
+					</AlertDialogHeader>
+					<div className="space-y-3">
+						{missingVariables.map((key) => (
+							<div key={key} className="space-y-1">
+								<Label htmlFor={`retry-env-${key}`}>{key}</Label>
+								<Input
+									id={`retry-env-${key}`}
+									type="password"
+									autoComplete="off"
+									value={variableValues[key] ?? ""}
+									onChange={(event) =>
+										setVariableValues((values) => ({ ...values, [key]: event.target.value }))
+									}
+								/>
+							</div>
+						))}
+					</div>
+					<AlertDialogFooter>
+						<AlertDialogCancel disabled={isRetrying}>Cancel</AlertDialogCancel>
+						<AlertDialogAction
+							onClick={(event) => {
+								event.preventDefault();
+								void handleRetryDeployment(variableValues);
+							}}
+							disabled={isRetrying}
+							data-testid="deployment-actions-confirm-retry"
+						>
+							{isRetrying ? "Retrying..." : "Retry Deployment"}
+						</AlertDialogAction>
+					</AlertDialogFooter>
+				</AlertDialogContent>
+			</AlertDialog>
+
 			<AlertDialog open={cancelDialogOpen} onOpenChange={setCancelDialogOpen}>
 				<AlertDialogContent>
 					<AlertDialogHeader>
 						<AlertDialogTitle>Cancel Deployment</AlertDialogTitle>
 						<AlertDialogDescription>
 							Are you sure you want to cancel this deployment? This will mark the deployment as
-							failed. Note: This does not stop any ongoing processes on GitHub or Vercel.
+							failed and delete the GitHub repository and Vercel project it created.
 						</AlertDialogDescription>
 					</AlertDialogHeader>
 					<AlertDialogFooter>
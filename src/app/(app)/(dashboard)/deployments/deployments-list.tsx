@@ -1,6 +1,6 @@
 "use client";
 
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import type { ColumnDef } from "@tanstack/react-table";
 import { formatDistanceToNow } from "date-fns";
 import { AlertCircle, CheckCircle2, Clock, Rocket } from "lucide-react";
@@ -9,26 +9,12 @@ import { useEffect, useState } from "react";
 import { DashboardVercelDeploy } from "@/components/modules/deploy/dashboard-vercel-deploy";
 import { Badge } from "@/components/ui/badge";
 import { DataTable } from "@/components/ui/data-table/data-table";
+import { routes } from "@/config/routes";
 import { siteConfig } from "@/config/site-config";
 import { cn } from "@/lib/utils";
 import type { Deployment } from "@/server/db/schema";
 import { DeploymentActions } from "./deployment-actions";
 
-// Constants for polling configuration
-const POLLING_INTERVAL_MS = 3000; // 3 seconds
-const STALE_DEPLOYMENT_THRESHOLD_MS = 10 * 60 * 1000; // 10 minutes - same as server
-
-/**
- * Check if a deployment is actively deploying (not stale)
- * We only poll for deployments that started within the last 10 minutes
- */
-function isActivelyDeploying(deployment: Deployment): boolean {
-	if (deployment.status !== "deploying") return false;
-	const createdAt = new Date(deployment.createdAt).getTime();
-	const now = Date.now();
-	return now - createdAt < STALE_DEPLOYMENT_THRESHOLD_MS;
-}
-
 interface DeploymentsListProps {
 	deployments: Deployment[];
 }
@@ -42,30 +28,49 @@ async function fetchDeployments(): Promise<Deployment[]> {
 	return data.deployments;
 }
 
+/**
+ * Replaces a deployment in the list, or adds it to the top if it is new
+ */
+function upsertDeployment(deployments: Deployment[], deployment: Deployment): Deployment[] {
+	const exists = deployments.some((item) => item.id === deployment.id);
+	return exists
+		? deployments.map((item) => (item.id === deployment.id ? deployment : item))
+		: [deployment, ...deployments];
+}
+
 export function DeploymentsList({ deployments: initialDeployments }: DeploymentsListProps) {
-	const [hasActiveDeployments, setHasActiveDeployments] = useState(
-		initialDeployments.some(isActivelyDeploying)
-	);
+	const queryClient = useQueryClient();
 	// Counter to force re-renders for timestamp updates
 	const [, setTick] = useState(0);
 
-	// Use React Query for efficient polling
-	// Only poll if there are actively deploying items (not stale ones)
 	const { data: deployments = initialDeployments } = useQuery({
 		queryKey: ["deployments"],
 		queryFn: fetchDeployments,
 		initialData: initialDeployments,
-		refetchInterval: hasActiveDeployments ? POLLING_INTERVAL_MS : false,
-		refetchIntervalInBackground: true,
 		staleTime: 1000, // Consider data stale after 1 second
 	});
+	const hasActiveDeployments = deployments.some((deployment) => deployment.status === "deploying");
 
-	// Update polling state when deployments change
-	// Only poll for fresh deployments, not stale ones stuck for hours/days
+	// Status changes, including those reported by Vercel webhooks, are pushed by the server
 	useEffect(() => {
-		const shouldPoll = deployments.some(isActivelyDeploying);
-		setHasActiveDeployments(shouldPoll);
-	}, [deployments]);
+		const latestUpdate = initialDeployments.reduce(
+			(latest, deployment) => Math.max(latest, new Date(deployment.updatedAt).getTime()),
+			0
+		);
+		const since = new Date(latestUpdate || Date.now()).toISOString();
+		const eventSource = new EventSource(
+			`${routes.api.deploymentsStream}?since=${encodeURIComponent(since)}`
+		);
+
+		eventSource.addEventListener("deployment", (event) => {
+			const deployment = JSON.parse((event as MessageEvent<string>).data) as Deployment;
+			queryClient.setQueryData<Deployment[]>(["deployments"], (current = []) =>
+				upsertDeployment(current, deployment)
+			);
+		});
+
+		return () => eventSource.close();
+	}, [initialDeployments, queryClient]);
 
 	// Live-update timestamps every second while there are active deployments
 	useEffect(() => {
@@ -0,0 +1,186 @@
+"use client";
+
+import { formatDistanceToNow } from "date-fns";
+import * as React from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import {
+	getTeamInvitations,
+	inviteTeamMember,
+	revokeTeamInvitation,
+} from "@/server/actions/team-invitations";
+import type { InvitableRole, TeamInvitation } from "@/server/services/team-invitation-service";
+
+interface TeamInvitationsDialogProps {
+	teamId: string;
+	teamName: string;
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+}
+
+export function TeamInvitationsDialog({
+	teamId,
+	teamName,
+	open,
+	onOpenChange,
+}: TeamInvitationsDialogProps) {
+	const [email, setEmail] = React.useState("");
+	const [role, setRole] = React.useState<InvitableRole>("member");
+	const [invitations, setInvitations] = React.useState<TeamInvitation[]>([]);
+	const [isLoading, setIsLoading] = React.useState(false);
+	const [isSubmitting, setIsSubmitting] = React.useState(false);
+	const { toast } = useToast();
+
+	const loadInvitations = React.useCallback(async () => {
+		setIsLoading(true);
+		try {
+			setInvitations(await getTeamInvitations(teamId));
+		} catch (error) {
+			toast({
+				title: "Error",
+				description: error instanceof Error ? error.message : "Failed to load invitations",
+				variant: "destructive",
+			});
+		} finally {
+			setIsLoading(false);
+		}
+	}, [teamId, toast]);
+
+	React.useEffect(() => {
+		if (open) {
+			void loadInvitations();
+		} else {
+			setEmail("");
+			setRole("member");
+		}
+	}, [open, loadInvitations]);
+
+	const handleInvite = async (event: React.FormEvent) => {
+		event.preventDefault();
+		if (!email.trim()) return;
+
+		setIsSubmitting(true);
+		try {
+			const { emailSent } = await inviteTeamMember({ teamId, email, role });
+			toast({
+				title: "Invitation sent",
+				description: emailSent
+					? `We emailed an invitation to ${email}.`
+					: "The invitation was created, but email delivery is not configured.",
+			});
+			setEmail("");
+			await loadInvitations();
+		} catch (error) {
+			toast({
+				title: "Error",
+				description: error instanceof Error ? error.message : "Failed to send invitation",
+				variant: "destructive",
+			});
+		} finally {
+			setIsSubmitting(false);
+		}
+	};
+
+	const handleRevoke = async (invitationId: string) => {
+		try {
+			await revokeTeamInvitation({ teamId, invitationId });
+			setInvitations((current) => current.filter((invitation) => invitation.id !== invitationId));
+			toast({ title: "Invitation revoked" });
+		} catch (error) {
+			toast({
+				title: "Error",
+				description: error instanceof Error ? error.message : "Failed to revoke invitation",
+				variant: "destructive",
+			});
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-lg">
+				<DialogHeader>
+					<DialogTitle>Invite to {teamName}</DialogTitle>
+					<DialogDescription>
+						Invitations are sent by email and expire after 7 days.
+					</DialogDescription>
+				</DialogHeader>
+
+				<form onSubmit={handleInvite} className="flex items-end gap-2">
+					<div className="grid flex-1 gap-2">
+						<Label htmlFor="invite-email">Email</Label>
+						<Input
+							id="invite-email"
+							type="email"
+							placeholder="teammate@example.com"
+							value={email}
+							onChange={(event) => setEmail(event.target.value)}
+							required
+						/>
+					</div>
+					<div className="grid gap-2">
+						<Label htmlFor="invite-role">Role</Label>
+						<Select value={role} onValueChange={(value) => setRole(value as InvitableRole)}>
+							<SelectTrigger id="invite-role" className="w-28">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value="member">Member</SelectItem>
+								<SelectItem value="admin">Admin</SelectItem>
+							</SelectContent>
+						</Select>
+					</div>
+					<Button type="submit" disabled={isSubmitting}>
+						{isSubmitting ? "Sending..." : "Invite"}
+					</Button>
+				</form>
+
+				<div className="space-y-2">
+					<h4 className="text-sm font-medium">Pending invitations</h4>
+					{isLoading ? (
+						<p className="text-sm text-muted-foreground">Loading...</p>
+					) : invitations.length === 0 ? (
+						<p className="text-sm text-muted-foreground">No pending invitations.</p>
+					) : (
+						<ul className="divide-y rounded-md border">
+							{invitations.map((invitation) => (
+								<li key={invitation.id} className="flex items-center gap-2 p-2 text-sm">
+									<span className="flex-1 truncate">{invitation.email}</span>
+									<Badge variant="outline">{invitation.role}</Badge>
+									<span className="text-xs text-muted-foreground">
+										expires{" "}
+										{formatDistanceToNow(new Date(invitation.expiresAt), { addSuffix: true })}
+									</span>
+									<Button
+										variant="ghost"
+										size="sm"
+										className="text-red-600 hover:text-red-900"
+										onClick={() => void handleRevoke(invitation.id)}
+									>
+										Revoke
+									</Button>
+								</li>
+							))}
+						</ul>
+					)}
+				</div>
+			</DialogContent>
+		</Dialog>
+	);
+}
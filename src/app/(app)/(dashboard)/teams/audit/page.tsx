@@ -0,0 +1,93 @@
+import { AlertCircleIcon } from "lucide-react";
+import type { Metadata } from "next";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { AuditLogTable } from "@/components/modules/audit/audit-log-table";
+import {
+	PageHeader,
+	PageHeaderDescription,
+	PageHeaderHeading,
+} from "@/components/primitives/page-header";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { constructMetadata } from "@/config/metadata";
+import { routes } from "@/config/routes";
+import { createRedirectUrl } from "@/lib/utils/redirect";
+import { auth } from "@/server/auth";
+import { auditService } from "@/server/services/audit-service";
+import { entitlementService } from "@/server/services/entitlement-service";
+import { rbacService } from "@/server/services/rbac";
+import { teamService } from "@/server/services/team-service";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = constructMetadata({
+	title: "Team Audit Log",
+	description: "Review member, role and invitation changes in your team.",
+	noIndex: true,
+});
+
+interface TeamAuditPageProps {
+	searchParams: Promise<{ teamId?: string }>;
+}
+
+/**
+ * Audit log of a single team, visible to members who can manage the team on a plan with `audit_log`
+ */
+export default async function TeamAuditPage({
+	searchParams: searchParamsPromise,
+}: TeamAuditPageProps) {
+	const { teamId } = await searchParamsPromise;
+	const session = await auth({ protect: true });
+	if (!session?.user?.id) {
+		redirect(createRedirectUrl(routes.auth.signIn, { nextUrl: routes.app.teams }));
+	}
+
+	const team = teamId ? await teamService.findById(teamId) : null;
+	const canView =
+		!!team && (await rbacService.hasPermission(session.user.id, "team", "update", { teamId }));
+
+	if (!team || !canView) {
+		return (
+			<Alert variant="destructive">
+				<AlertCircleIcon className="h-4 w-4" />
+				<AlertTitle>Team not found</AlertTitle>
+				<AlertDescription>
+					Only team owners and admins can view a team's audit log.{" "}
+					<Link href={routes.app.teams} className="underline">
+						Back to teams
+					</Link>
+				</AlertDescription>
+			</Alert>
+		);
+	}
+
+	if (!(await entitlementService.can({ teamId: team.id }, "audit_log"))) {
+		return (
+			<Alert>
+				<AlertCircleIcon className="h-4 w-4" />
+				<AlertTitle>Audit log not included</AlertTitle>
+				<AlertDescription>
+					The audit log is not part of this team's plan.{" "}
+					<Link href={routes.pricing} className="underline">
+						Upgrade your plan
+					</Link>{" "}
+					to review member, role and invitation changes.
+				</AlertDescription>
+			</Alert>
+		);
+	}
+
+	const entries = await auditService.list({ teamId: team.id, limit: 500 });
+
+	return (
+		<>
+			<PageHeader className="mb-6">
+				<PageHeaderHeading>{team.name} audit log</PageHeaderHeading>
+				<PageHeaderDescription>
+					Member, role and invitation changes in this team.
+				</PageHeaderDescription>
+			</PageHeader>
+			<AuditLogTable entries={entries} />
+		</>
+	);
+}
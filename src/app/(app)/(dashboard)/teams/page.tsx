@@ -1,6 +1,7 @@
 "use client";
 
 import type { ColumnDef } from "@tanstack/react-table";
+import Link from "next/link";
 import { useSession } from "next-auth/react";
 import { useEffect, useState } from "react";
 import {
@@ -17,9 +18,11 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { DataTable } from "@/components/ui/data-table/data-table";
 import { DataTableDialog } from "@/components/ui/data-table/data-table-dialog";
+import { routes } from "@/config/routes";
 import { useToast } from "@/hooks/use-toast";
 import { createTeam, deleteTeam, getUserTeams, updateTeam } from "@/server/actions/teams";
 import type { Team } from "@/types/team";
+import { TeamInvitationsDialog } from "./_components/team-invitations-dialog";
 
 export default function TeamsPage() {
 	const { data: session } = useSession();
@@ -29,6 +32,7 @@ export default function TeamsPage() {
 	const [showAddDialog, setShowAddDialog] = useState(false);
 	const [showEditDialog, setShowEditDialog] = useState(false);
 	const [selectedTeam, setSelectedTeam] = useState<Team | null>(null);
+	const [invitingTeam, setInvitingTeam] = useState<Team | null>(null);
 	const [newTeamName, setNewTeamName] = useState("");
 	const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -158,8 +162,26 @@ export default function TeamsPage() {
 			id: "actions",
 			cell: ({ row }) => {
 				const isPersonal = row.original.team.type === "personal";
+				const canManage = !isPersonal && ["owner", "admin"].includes(row.original.role);
 				return (
 					<div className="flex items-center gap-4">
+						{canManage && (
+							<button
+								type="button"
+								onClick={() => setInvitingTeam(row.original)}
+								className="text-sm text-gray-600 hover:text-gray-900"
+							>
+								Invite
+							</button>
+						)}
+						{canManage && (
+							<Link
+								href={`${routes.app.teamAudit}?teamId=${encodeURIComponent(row.original.team.id)}`}
+								className="text-sm text-gray-600 hover:text-gray-900"
+							>
+								Audit log
+							</Link>
+						)}
 						<button
 							type="button"
 							onClick={() => handleEdit(row.original)}
@@ -266,6 +288,17 @@ export default function TeamsPage() {
 					},
 				]}
 			/>
+
+			{invitingTeam && (
+				<TeamInvitationsDialog
+					teamId={invitingTeam.team.id}
+					teamName={invitingTeam.team.name}
+					open={!!invitingTeam}
+					onOpenChange={(open) => {
+						if (!open) setInvitingTeam(null);
+					}}
+				/>
+			)}
 		</div>
 	);
 }
@@ -1,5 +1,6 @@
 import FileInput from "@/components/inputs/file-input";
 import FileDropzone from "@/components/inputs/file-upload";
+import { ResumableFileUpload } from "@/components/inputs/resumable-file-upload";
 
 export default function UploadPage() {
 	return (
@@ -7,6 +8,7 @@ export default function UploadPage() {
 			<h1 className="text-2xl font-bold">Upload a File</h1>
 			<FileDropzone />
 			<FileInput />
+			<ResumableFileUpload />
 		</div>
 	);
 }
@@ -3,6 +3,8 @@ import { env } from "@/env";
 import { logger } from "@/lib/logger";
 import { createStripeCheckoutSession } from "@/lib/stripe";
 import { auth } from "@/server/auth";
+import { assertNotImpersonating } from "@/server/lib/auth";
+import { ErrorService } from "@/server/services/error-service";
 
 /**
  * Stripe checkout route
@@ -25,6 +27,7 @@ export async function GET(request: NextRequest) {
 			logger.warn("User not authenticated");
 			return new NextResponse("User not authenticated", { status: 401 });
 		}
+		await assertNotImpersonating("check out");
 
 		// Get checkout parameters from URL
 		const { searchParams } = new URL(request.url);
@@ -73,6 +76,9 @@ export async function GET(request: NextRequest) {
 		// Redirect to Stripe checkout
 		return NextResponse.redirect(checkoutUrl);
 	} catch (error) {
+		if (ErrorService.isAppError(error) && error.code === "FORBIDDEN") {
+			return new NextResponse(error.message, { status: 403 });
+		}
 		logger.error("Error creating Stripe checkout session", {
 			error,
 			...(error instanceof Error && {
@@ -100,6 +106,7 @@ export async function POST(request: NextRequest) {
 			logger.warn("User not authenticated");
 			return new NextResponse("User not authenticated", { status: 401 });
 		}
+		await assertNotImpersonating("check out");
 
 		// Parse request body
 		const body = await request.json();
@@ -149,6 +156,9 @@ export async function POST(request: NextRequest) {
 			mode,
 		});
 	} catch (error) {
+		if (ErrorService.isAppError(error) && error.code === "FORBIDDEN") {
+			return NextResponse.json({ error: error.message }, { status: 403 });
+		}
 		logger.error("Error creating Stripe checkout session via POST", {
 			error,
 			...(error instanceof Error && {
@@ -0,0 +1,76 @@
+import { rateLimits } from "@/config/rate-limits";
+import { chatSchema } from "@/server/actions/schemas";
+import { resolveAIModel } from "@/server/ai";
+import { auth } from "@/server/auth";
+import { apiError } from "@/server/lib/api-handler";
+import { assertNotImpersonating } from "@/server/lib/auth";
+import { chatService } from "@/server/services/chat-service";
+import { ErrorService } from "@/server/services/error-service";
+import { getRateLimitHeaders, rateLimitService } from "@/server/services/rate-limit-service";
+
+/**
+ * Sends a chat message and streams the reply as plain text
+ * The conversation ID and model are returned in the `X-Conversation-Id` and `X-Model` headers.
+ *
+ * POST /api/ai/chat { message, conversationId?, model? }
+ */
+export async function POST(request: Request) {
+	try {
+		const session = await auth();
+		if (!session?.user?.id) {
+			return apiError("UNAUTHORIZED", "You must be signed in to chat");
+		}
+		const userId = session.user.id;
+
+		// Every message runs a model completion, so the limit is per user rather than per IP address
+		const rateLimitStatus = await rateLimitService.checkLimit(
+			userId,
+			"ai-chat",
+			rateLimits.ai.chat
+		);
+
+		let body: unknown;
+		try {
+			body = await request.json();
+		} catch {
+			return apiError("BAD_REQUEST", "Request body must be valid JSON");
+		}
+		const parsed = chatSchema.safeParse(body);
+		if (!parsed.success) {
+			return apiError(
+				"VALIDATION_ERROR",
+				parsed.error.issues.map((issue) => issue.message).join("; ")
+			);
+		}
+		const input = parsed.data;
+
+		const model = resolveAIModel(input.model);
+		if (!model) {
+			ErrorService.throwBadRequest(
+				input.model ? `Model ${input.model} is not available` : "No AI provider is configured"
+			);
+		}
+		if (model.credits.input > 0 || model.credits.output > 0) {
+			await assertNotImpersonating("spend credits");
+		}
+
+		const { conversation, stream } = await chatService.streamReply({
+			userId,
+			conversationId: input.conversationId,
+			content: input.message,
+			model,
+		});
+
+		return new Response(stream, {
+			headers: {
+				...getRateLimitHeaders(rateLimitStatus, rateLimits.ai.chat),
+				"Content-Type": "text/plain; charset=utf-8",
+				"X-Conversation-Id": conversation.id,
+				"X-Model": model.id,
+			},
+		});
+	} catch (error) {
+		const appError = ErrorService.handleError(error);
+		return apiError(appError.code, appError.message);
+	}
+}
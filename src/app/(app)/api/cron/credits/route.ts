@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { verifyCronRequest } from "@/server/lib/cron";
+import { expireCredits, reconcileCreditBalances } from "@/server/services/credits";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Expires lapsed credit grants and holds, then reconciles cached balances with the ledger
+ *
+ * GET /api/cron/credits
+ */
+export async function GET(request: Request) {
+	const unauthorized = verifyCronRequest(request);
+	if (unauthorized) {
+		return unauthorized;
+	}
+
+	try {
+		const expired = await expireCredits();
+		const reconciled = await reconcileCreditBalances();
+		return NextResponse.json({ expired, reconciled });
+	} catch (error) {
+		logger.error("Credit ledger job failed", { error });
+		return new NextResponse("Credit ledger job failed", { status: 500 });
+	}
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { verifyCronRequest } from "@/server/lib/cron";
+import { deploymentService } from "@/server/services/deployment-service";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Marks deployments stuck in "deploying" as timed out, e.g. when a Vercel webhook never came
+ *
+ * GET /api/cron/deployments
+ */
+export async function GET(request: Request) {
+	const unauthorized = verifyCronRequest(request);
+	if (unauthorized) {
+		return unauthorized;
+	}
+
+	try {
+		const timedOut = await deploymentService.markStaleDeployments();
+		if (timedOut.length > 0) {
+			logger.info("Stale deployments marked as timed out", { count: timedOut.length });
+		}
+		return NextResponse.json({ timedOut: timedOut.length });
+	} catch (error) {
+		logger.error("Stale deployment job failed", { error });
+		return new NextResponse("Stale deployment job failed", { status: 500 });
+	}
+}
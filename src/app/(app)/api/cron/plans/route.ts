@@ -0,0 +1,29 @@
+import { revalidatePath } from "next/cache";
+import { NextResponse } from "next/server";
+import { routes } from "@/config/routes";
+import { logger } from "@/lib/logger";
+import { verifyCronRequest } from "@/server/lib/cron";
+import { planService } from "@/server/services/plan-service";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Syncs the pricing plans from the enabled payment providers into the plans table
+ *
+ * GET /api/cron/plans
+ */
+export async function GET(request: Request) {
+	const unauthorized = verifyCronRequest(request);
+	if (unauthorized) {
+		return unauthorized;
+	}
+
+	try {
+		const results = await planService.syncPlans();
+		revalidatePath(routes.pricing);
+		return NextResponse.json({ results });
+	} catch (error) {
+		logger.error("Plan sync job failed", { error });
+		return new NextResponse("Plan sync job failed", { status: 500 });
+	}
+}
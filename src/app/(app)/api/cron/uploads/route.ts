@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { verifyCronRequest } from "@/server/lib/cron";
+import { uploadService } from "@/server/services/upload-service";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Aborts multipart uploads that were not completed in time, freeing their reserved quota
+ *
+ * GET /api/cron/uploads
+ */
+export async function GET(request: Request) {
+	const unauthorized = verifyCronRequest(request);
+	if (unauthorized) {
+		return unauthorized;
+	}
+
+	try {
+		const aborted = await uploadService.abortExpiredUploads();
+		return NextResponse.json({ aborted });
+	} catch (error) {
+		logger.error("Upload cleanup job failed", { error });
+		return new NextResponse("Upload cleanup job failed", { status: 500 });
+	}
+}
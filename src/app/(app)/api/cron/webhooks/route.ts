@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { verifyCronRequest } from "@/server/lib/cron";
+import { WebhookInboxService } from "@/server/services/webhook-inbox-service";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Retries failed webhook events whose backoff has elapsed
+ *
+ * GET /api/cron/webhooks
+ */
+export async function GET(request: Request) {
+	const unauthorized = verifyCronRequest(request);
+	if (unauthorized) {
+		return unauthorized;
+	}
+
+	try {
+		const stats = await WebhookInboxService.retryDueEvents();
+		return NextResponse.json(stats);
+	} catch (error) {
+		logger.error("Webhook retry job failed", { error });
+		return new NextResponse("Webhook retry failed", { status: 500 });
+	}
+}
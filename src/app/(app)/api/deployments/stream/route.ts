@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { auth } from "@/server/auth";
+import { deploymentService } from "@/server/services/deployment-service";
+import { rbacService } from "@/server/services/rbac";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+/** How often the database is checked for changed deployments */
+const POLL_INTERVAL_MS = 2000;
+
+/** Comment lines keep proxies from closing an idle connection */
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/** Streams end before the function time limit; EventSource reconnects on its own */
+const STREAM_DURATION_MS = 55000;
+
+/**
+ * Streams deployment status changes for the signed-in user as server-sent events
+ * Each changed deployment is sent as a `deployment` event. Webhooks may be handled by a
+ * different instance than the one holding the stream, so changes are read from the
+ * database rather than passed in memory. The event ID is the last change time, which the
+ * browser sends back as `Last-Event-ID` when it reconnects.
+ *
+ * GET /api/deployments/stream?since=<ISO timestamp>
+ */
+export async function GET(request: Request) {
+	const session = await auth();
+	if (!session?.user?.id) {
+		return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+	}
+	const userId = session.user.id;
+
+	if (!(await rbacService.hasPermission(userId, "deployment", "read"))) {
+		return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+	}
+
+	// Resume after the last event, or after the newest change the page was rendered with
+	const resumeFrom = Date.parse(
+		request.headers.get("last-event-id") ?? new URL(request.url).searchParams.get("since") ?? ""
+	);
+	let since = new Date(Number.isNaN(resumeFrom) ? Date.now() : resumeFrom);
+
+	const encoder = new TextEncoder();
+	const stream = new ReadableStream({
+		async start(controller) {
+			const startedAt = Date.now();
+			let lastHeartbeat = startedAt;
+
+			const send = (chunk: string) => controller.enqueue(encoder.encode(chunk));
+			send(`retry: ${POLL_INTERVAL_MS}\n\n`);
+
+			try {
+				await deploymentService.markStaleDeployments(userId);
+
+				while (!request.signal.aborted && Date.now() - startedAt < STREAM_DURATION_MS) {
+					const changed = await deploymentService.getUserDeploymentsUpdatedSince(userId, since);
+					for (const deployment of changed) {
+						since = deployment.updatedAt;
+						send(
+							`id: ${since.toISOString()}\nevent: deployment\ndata: ${JSON.stringify(deployment)}\n\n`
+						);
+					}
+
+					if (Date.now() - lastHeartbeat >= HEARTBEAT_INTERVAL_MS) {
+						send(": heartbeat\n\n");
+						lastHeartbeat = Date.now();
+					}
+
+					await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+				}
+			} catch (error) {
+				logger.error("Deployment status stream failed", { error, userId });
+			} finally {
+				try {
+					controller.close();
+				} catch {
+					// The client already disconnected
+				}
+			}
+		},
+	});
+
+	return new Response(stream, {
+		headers: {
+			"Content-Type": "text/event-stream",
+			"Cache-Control": "no-cache, no-transform",
+			Connection: "keep-alive",
+		},
+	});
+}
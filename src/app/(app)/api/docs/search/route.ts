@@ -1,9 +1,9 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
-import { openai } from "@/lib/open-ai";
-import { DocsSearchService } from "@/server/services/docs-search";
+import { getChatProvider, resolveAIModel } from "@/server/ai";
+import { type DocCitation, DocsSearchService } from "@/server/services/docs-search";
 import { ErrorService } from "@/server/services/error-service";
-import { rateLimitService, rateLimits } from "@/server/services/rate-limit-service";
+import { getRateLimitHeaders, rateLimitService } from "@/server/services/rate-limit-service";
 
 // Sanitize input to prevent prompt injection
 function sanitizeForPrompt(text: string): string {
@@ -37,13 +37,28 @@ const searchRequestSchema = z.object({
 		.refine((val) => val > 0 && val <= 20, {
 			message: "Limit must be between 1 and 20",
 		}),
+	/**
+	 * - `results`: matching docs sections (the default for `Accept: application/json`)
+	 * - `citations`: numbered excerpts, the sources the answer cites by number
+	 * - `answer`: a streamed markdown answer grounded in the citations (the default otherwise)
+	 */
+	mode: z.enum(["results", "citations", "answer"]).optional(),
+	/** What kind of answer the user wants, e.g. "Code Examples" */
+	focus: z.string().max(50).optional(),
 });
 
-export async function POST(req: Request) {
-	if (!openai) {
-		return NextResponse.json({ error: "OpenAI API key is not set." }, { status: 500 });
-	}
+function formatCitations(citations: DocCitation[]): string {
+	return citations
+		.map(
+			(citation) =>
+				`[${citation.id}] ${sanitizeForPrompt(
+					[citation.title, citation.section].filter(Boolean).join(" > ")
+				)}\n${sanitizeForPrompt(citation.snippet)}`
+		)
+		.join("\n\n");
+}
 
+export async function POST(req: Request) {
 	try {
 		// Extract client IP for rate limiting
 		// Try to get IP from various headers in order of reliability
@@ -55,33 +70,40 @@ export async function POST(req: Request) {
 		const clientIp = forwardedFor?.split(",")[0]?.trim() || realIp || cfConnectingIp || "anonymous";
 
 		// Apply rate limiting with custom limits for AI search
-		// More restrictive than regular search due to OpenAI API costs
+		// More restrictive than regular search due to AI provider costs
 		const aiSearchRateLimit = {
 			requests: 10, // 10 requests
 			duration: 60, // per minute
 		};
 
+		let rateLimitHeaders: Record<string, string>;
 		try {
-			await rateLimitService.checkLimit(clientIp, "ai-docs-search", aiSearchRateLimit);
+			const rateLimitStatus = await rateLimitService.checkLimit(
+				clientIp,
+				"ai-docs-search",
+				aiSearchRateLimit
+			);
+			rateLimitHeaders = getRateLimitHeaders(rateLimitStatus, aiSearchRateLimit);
 		} catch (error) {
 			// If it's a rate limit error, return appropriate response
 			if (ErrorService.isAppError(error) && error.code === "RATE_LIMITED") {
+				const headers = getRateLimitHeaders(
+					{
+						limit: aiSearchRateLimit.requests,
+						remaining: 0,
+						reset: Number(error.metadata?.reset ?? Date.now()),
+					},
+					aiSearchRateLimit
+				);
 				return NextResponse.json(
 					{
 						error: "Too many requests",
 						message: "You have exceeded the rate limit for AI search. Please try again later.",
-						retryAfter: error.metadata?.reset,
+						retryAfter: Number(headers["RateLimit-Reset"]),
 					},
 					{
 						status: 429,
-						headers: {
-							"X-RateLimit-Limit": String(error.metadata?.limit || aiSearchRateLimit.requests),
-							"X-RateLimit-Remaining": String(error.metadata?.remaining || 0),
-							"X-RateLimit-Reset": String(error.metadata?.reset || 0),
-							"Retry-After": String(
-								Math.ceil(((error.metadata?.reset as number) || 0) - Date.now() / 1000)
-							),
-						},
+						headers: { ...headers, "Retry-After": headers["RateLimit-Reset"] ?? "0" },
 					}
 				);
 			}
@@ -103,64 +125,68 @@ export async function POST(req: Request) {
 			);
 		}
 
-		const { query, limit } = validationResult.data;
-
-		// Get current rate limit status for response headers
-		const rateLimitStatus = await rateLimitService.getStatus(clientIp, "ai-docs-search");
-		const rateLimitHeaders = {
-			"X-RateLimit-Limit": String(rateLimitStatus.limit),
-			"X-RateLimit-Remaining": String(rateLimitStatus.remaining),
-			"X-RateLimit-Reset": String(rateLimitStatus.reset),
-		};
+		const { query, limit, focus } = validationResult.data;
+		const mode =
+			validationResult.data.mode ??
+			(req.headers.get("accept")?.includes("application/json") ? "results" : "answer");
+		const searchService = DocsSearchService.getInstance();
 
-		// Check if client wants JSON response
-		const acceptHeader = req.headers.get("accept");
-		if (acceptHeader?.includes("application/json")) {
-			// Search documentation
-			const searchService = DocsSearchService.getInstance();
+		if (mode === "results") {
 			const searchResults = await searchService.search(query, limit);
 			return NextResponse.json({ results: searchResults }, { headers: rateLimitHeaders });
 		}
 
-		// Search documentation for streaming response
-		const searchService = DocsSearchService.getInstance();
-		const searchResults = await searchService.search(query, limit);
+		// The same query and limit always give the same citations, so the numbers in a
+		// streamed answer match those returned by the `citations` mode
+		const citations = await searchService.getCitations(query, limit);
+		if (mode === "citations") {
+			return NextResponse.json({ citations }, { headers: rateLimitHeaders });
+		}
+
+		const model = resolveAIModel();
+		const provider = model ? getChatProvider(model.provider) : null;
+		if (!model || !provider) {
+			return NextResponse.json(
+				{ error: "AI answers are not configured." },
+				{ status: 503, headers: rateLimitHeaders }
+			);
+		}
 
 		// Generate streaming AI response
-		const response = await openai.chat.completions.create({
-			model: "gpt-4-turbo-preview",
+		const events = provider.streamChat({
+			model: model.id,
 			messages: [
 				{
 					role: "system",
 					content: `You are a helpful documentation assistant for Shipkit.
-          Your responses should be clear, concise, and focused on answering the user's question.
+          Answer the user's question using only the numbered documentation excerpts below.
+          Cite the excerpts you use by their number in square brackets, e.g. [1] or [2][3].
+          If the excerpts do not answer the question, say so instead of guessing.
           Include relevant code examples when appropriate.
-          Format your responses in markdown.
+          Format your responses in markdown.${focus ? `\n          The user is looking for: ${sanitizeForPrompt(focus)}.` : ""}
 
-          Here are some relevant documentation snippets to help you answer:
-          ${searchResults.map((result) => `### ${sanitizeForPrompt(result.title)}\n${sanitizeForPrompt(result.content)}`).join("\n\n")}`,
+          Documentation excerpts:
+          ${formatCitations(citations)}`,
 				},
 				{
 					role: "user",
 					content: sanitizeForPrompt(query),
 				},
 			],
-			temperature: 0.7,
-			max_tokens: 500,
-			stream: true,
+			temperature: 0.3,
+			maxOutputTokens: 500,
 		});
 
 		// Create a text encoder
 		const encoder = new TextEncoder();
 
-		// Create a readable stream from the OpenAI response
+		// Create a readable stream from the provider events
 		const stream = new ReadableStream({
 			async start(controller) {
 				try {
-					for await (const chunk of response) {
-						const text = chunk.choices[0]?.delta?.content ?? "";
-						if (text) {
-							controller.enqueue(encoder.encode(text));
+					for await (const event of events) {
+						if (event.type === "text" && event.text) {
+							controller.enqueue(encoder.encode(event.text));
 						}
 					}
 					controller.close();
@@ -9,6 +9,7 @@ import { auth } from "@/server/auth";
 import { isAdmin } from "@/server/services/admin-service";
 import { getLatestReleaseFile } from "@/server/services/github/github-download-service";
 import { PaymentService } from "@/server/services/payment-service";
+import { SubscriptionService } from "@/server/services/subscription-service";
 
 /**
  * Route handler for file downloads.
@@ -50,16 +51,19 @@ export async function GET(request: NextRequest) {
 		const userId = session.user.id;
 		const userEmail = session.user.email || "";
 
-		const [isUserAdmin, hasPurchased] = await Promise.all([
+		const [isUserAdmin, hasPurchased, hasSubscription] = await Promise.all([
 			isAdmin({ email: userEmail }),
 			PaymentService.hasUserPurchasedVariant({
 				userId,
 				variantId: siteConfig.store.products.shipkit || "",
 				provider: "lemonsqueezy",
 			}),
+			SubscriptionService.hasActiveSubscription(userId, {
+				variantId: siteConfig.store.products.shipkit || undefined,
+			}),
 		]);
 
-		if (!isUserAdmin && !hasPurchased) {
+		if (!isUserAdmin && !hasPurchased && !hasSubscription) {
 			logger.warn("User has not purchased product", { userId, email: userEmail });
 			return NextResponse.redirect(new URL(routes.app.dashboard, siteConfig.url));
 		}
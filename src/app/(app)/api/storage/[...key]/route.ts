@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { getStorageDriver, LocalStorageDriver, StorageDriverError } from "@/server/storage";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Serves objects stored by the local storage driver
+ * Objects are public, like S3 and Vercel Blob uploads. They are sandboxed so that uploaded
+ * HTML or SVG cannot run scripts on this origin.
+ *
+ * GET /api/storage/:key
+ */
+export async function GET(_request: Request, { params }: { params: Promise<{ key: string[] }> }) {
+	const { key } = await params;
+
+	let driver: ReturnType<typeof getStorageDriver>;
+	try {
+		driver = getStorageDriver();
+	} catch {
+		return new NextResponse("Not found", { status: 404 });
+	}
+	if (!(driver instanceof LocalStorageDriver)) {
+		return new NextResponse("Not found", { status: 404 });
+	}
+
+	try {
+		const object = await driver.get(key.join("/"));
+		if (!object) {
+			return new NextResponse("Not found", { status: 404 });
+		}
+
+		return new NextResponse(new Uint8Array(object.data), {
+			headers: {
+				"Content-Type": object.contentType,
+				"Content-Length": String(object.data.byteLength),
+				"Cache-Control": "public, max-age=3600",
+				"Content-Security-Policy": "sandbox",
+				"X-Content-Type-Options": "nosniff",
+			},
+		});
+	} catch (error) {
+		if (error instanceof StorageDriverError) {
+			return new NextResponse("Not found", { status: 404 });
+		}
+		logger.error("Failed to serve stored file", { key, error });
+		return new NextResponse("Failed to read file", { status: 500 });
+	}
+}
@@ -0,0 +1,16 @@
+import { revalidateTag } from "next/cache";
+import { NextResponse } from "next/server";
+import { withSession } from "@/server/lib/api-handler";
+import { uploadService } from "@/server/services/upload-service";
+
+/**
+ * Completes an upload once every part is stored
+ * The file content is checked against its declared type before it is added to the user's files.
+ *
+ * POST /api/uploads/:uploadId/complete
+ */
+export const POST = withSession<{ uploadId: string }>(async ({ params, userId }) => {
+	const { upload, file } = await uploadService.completeUpload(params.uploadId, userId);
+	revalidateTag("files", "max");
+	return NextResponse.json({ upload, file });
+});
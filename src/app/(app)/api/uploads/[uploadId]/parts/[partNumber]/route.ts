@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { withSession } from "@/server/lib/api-handler";
+import { uploadService } from "@/server/services/upload-service";
+
+/**
+ * Uploads a part of a file; the request body is the raw bytes of the part
+ * Parts can be sent in any order and retried.
+ *
+ * PUT /api/uploads/:uploadId/parts/:partNumber
+ */
+export const PUT = withSession<{ uploadId: string; partNumber: string }>(
+	async ({ request, params, userId }) => {
+		const body = new Uint8Array(await request.arrayBuffer());
+		const progress = await uploadService.uploadPart(
+			params.uploadId,
+			userId,
+			Number(params.partNumber),
+			body
+		);
+		return NextResponse.json(progress);
+	}
+);
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { withSession } from "@/server/lib/api-handler";
+import { uploadService } from "@/server/services/upload-service";
+
+/**
+ * Gets the progress of an upload
+ *
+ * GET /api/uploads/:uploadId
+ */
+export const GET = withSession<{ uploadId: string }>(async ({ params, userId }) => {
+	return NextResponse.json(await uploadService.getProgress(params.uploadId, userId));
+});
+
+/**
+ * Aborts an upload and discards its parts
+ *
+ * DELETE /api/uploads/:uploadId
+ */
+export const DELETE = withSession<{ uploadId: string }>(async ({ params, userId }) => {
+	const aborted = await uploadService.abortUpload(params.uploadId, userId);
+	return NextResponse.json({ aborted });
+});
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { z } from "zod/v4";
+import { parseJsonBody, withSession } from "@/server/lib/api-handler";
+import { uploadService } from "@/server/services/upload-service";
+
+const createUploadSchema = z.object({
+	fileName: z.string().trim().min(1).max(200),
+	contentType: z.string().min(1).max(255),
+	size: z.number().int().positive(),
+	teamId: z.string().min(1).optional(),
+});
+
+/**
+ * Lists the current user's resumable uploads and their storage usage
+ *
+ * GET /api/uploads
+ */
+export const GET = withSession(async ({ userId }) => {
+	const [uploads, usage] = await Promise.all([
+		uploadService.getActiveUploads(userId),
+		uploadService.getStorageUsage({ userId }),
+	]);
+	return NextResponse.json({ uploads, usage });
+});
+
+/**
+ * Starts a multipart upload
+ * Send the parts with PUT /api/uploads/:uploadId/parts/:partNumber, then complete it.
+ *
+ * POST /api/uploads { fileName, contentType, size, teamId? }
+ */
+export const POST = withSession(async ({ request, userId }) => {
+	const input = await parseJsonBody(request, createUploadSchema);
+	const upload = await uploadService.createUpload({ ...input, userId });
+	return NextResponse.json(upload, { status: 201 });
+});
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { withApiKey } from "@/server/lib/api-handler";
+import { apiCreditsSchema } from "@/server/lib/openapi";
+import { getCreditBalance, getUserCreditTransactions } from "@/server/services/credits";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Returns the user's credit balance and recent transactions
+ *
+ * GET /api/v1/credits
+ */
+export const GET = withApiKey(
+	async ({ user }) => {
+		const [{ balance, held, available }, transactions] = await Promise.all([
+			getCreditBalance(user.id),
+			getUserCreditTransactions(user.id),
+		]);
+
+		return NextResponse.json({
+			data: apiCreditsSchema.parse({ balance, held, available, transactions }),
+		});
+	},
+	{ scope: "credits:read" }
+);
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { parseJsonBody, withApiKey } from "@/server/lib/api-handler";
+import { spendCreditsBodySchema } from "@/server/lib/openapi";
+import {
+	getUserCredits,
+	toClientIdempotencyKey,
+	updateUserCredits,
+} from "@/server/services/credits";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Spends credits from the user's balance
+ *
+ * POST /api/v1/credits/spend
+ * Send an `Idempotency-Key` header to make retries safe; reusing a key for a different amount
+ * fails with a conflict.
+ */
+export const POST = withApiKey(
+	async ({ request, user, apiKey }) => {
+		const body = await parseJsonBody(request, spendCreditsBodySchema);
+
+		const clientKey = request.headers.get("idempotency-key")?.trim();
+		const idempotencyKey = clientKey ? toClientIdempotencyKey(clientKey) : undefined;
+
+		// Fails with a conflict when the available balance is too low
+		await updateUserCredits({
+			userId: user.id,
+			amount: -body.amount,
+			type: "usage",
+			description: body.description,
+			metadata: { ...body.metadata, apiKeyId: apiKey.id },
+			idempotencyKey,
+		});
+
+		return NextResponse.json({ data: { balance: await getUserCredits(user.id) } });
+	},
+	{ scope: "credits:write" }
+);
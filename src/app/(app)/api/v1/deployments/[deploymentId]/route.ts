@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { withApiKey } from "@/server/lib/api-handler";
+import { apiDeploymentSchema } from "@/server/lib/openapi";
+import { deploymentService } from "@/server/services/deployment-service";
+import { ErrorService } from "@/server/services/error-service";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Gets one of the user's deployments
+ *
+ * GET /api/v1/deployments/:deploymentId
+ */
+export const GET = withApiKey<{ deploymentId: string }>(
+	async ({ params, user }) => {
+		const deployment = await deploymentService.getUserDeployment(user.id, params.deploymentId);
+
+		if (!deployment) {
+			ErrorService.throwNotFound("Deployment not found");
+		}
+
+		return NextResponse.json({ data: apiDeploymentSchema.parse(deployment) });
+	},
+	{ scope: "deployments:read", permission: { resource: "deployment", action: "read" } }
+);
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { withApiKey } from "@/server/lib/api-handler";
+import { apiDeploymentSchema } from "@/server/lib/openapi";
+import { deploymentService } from "@/server/services/deployment-service";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Lists the user's deployments, newest first
+ *
+ * GET /api/v1/deployments
+ */
+export const GET = withApiKey(
+	async ({ user }) => {
+		const deployments = await deploymentService.getUserDeployments(user.id);
+
+		return NextResponse.json({
+			data: deployments.map((deployment) => apiDeploymentSchema.parse(deployment)),
+		});
+	},
+	{ scope: "deployments:read", permission: { resource: "deployment", action: "read" } }
+);
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { withApiKey } from "@/server/lib/api-handler";
+import { apiMeSchema } from "@/server/lib/openapi";
+import { getApiKeyScopes } from "@/server/services/api-key-service";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Returns the user and API key making the request
+ *
+ * GET /api/v1/me
+ */
+export const GET = withApiKey(async ({ user, apiKey }) => {
+	return NextResponse.json(
+		apiMeSchema.parse({
+			user,
+			apiKey: { ...apiKey, scopes: getApiKeyScopes(apiKey) },
+		})
+	);
+});
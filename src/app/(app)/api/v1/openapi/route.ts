@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { generateOpenApiDocument } from "@/server/lib/openapi";
+
+/**
+ * Serves the OpenAPI document for /api/v1
+ *
+ * GET /api/v1/openapi
+ */
+export function GET(request: Request) {
+	return NextResponse.json(generateOpenApiDocument(new URL(request.url).origin));
+}
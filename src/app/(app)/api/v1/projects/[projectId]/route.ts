@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { withApiKey } from "@/server/lib/api-handler";
+import { apiProjectSchema } from "@/server/lib/openapi";
+import { ErrorService } from "@/server/services/error-service";
+import { projectService } from "@/server/services/project-service";
+import { rbacService } from "@/server/services/rbac";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Gets a project the user is a member of
+ *
+ * GET /api/v1/projects/:projectId
+ */
+export const GET = withApiKey<{ projectId: string }>(
+	async ({ params, user }) => {
+		const hasAccess =
+			(await projectService.userHasAccessToProject(user.id, params.projectId)) &&
+			(await rbacService.hasPermission(user.id, "project", "read", {
+				projectId: params.projectId,
+			}));
+		const project = hasAccess ? await projectService.findById(params.projectId) : null;
+
+		if (!project) {
+			ErrorService.throwNotFound("Project not found");
+		}
+
+		return NextResponse.json({ data: apiProjectSchema.parse(project) });
+	},
+	{ scope: "projects:read" }
+);
@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { parseJsonBody, withApiKey } from "@/server/lib/api-handler";
+import { apiProjectSchema, createProjectBodySchema } from "@/server/lib/openapi";
+import { ErrorService } from "@/server/services/error-service";
+import { projectService } from "@/server/services/project-service";
+import { rbacService } from "@/server/services/rbac";
+import { teamService } from "@/server/services/team-service";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Lists projects across the user's teams
+ *
+ * GET /api/v1/projects?teamId=123
+ */
+export const GET = withApiKey(
+	async ({ request, user }) => {
+		const teamId = new URL(request.url).searchParams.get("teamId");
+		const teams = await teamService.getUserTeams(user.id);
+
+		if (teamId && !teams.some(({ team }) => team.id === teamId)) {
+			ErrorService.throwNotFound("Team not found");
+		}
+
+		const teamIds = teamId ? [teamId] : teams.map(({ team }) => team.id);
+		const projects: unknown[] = [];
+		for (const id of teamIds) {
+			projects.push(...((await projectService.getTeamProjects(id)) ?? []));
+		}
+
+		return NextResponse.json({
+			data: projects.map((project) => apiProjectSchema.parse(project)),
+		});
+	},
+	{ scope: "projects:read" }
+);
+
+/**
+ * Creates a project in one of the user's teams
+ *
+ * POST /api/v1/projects
+ */
+export const POST = withApiKey(
+	async ({ request, user }) => {
+		const body = await parseJsonBody(request, createProjectBodySchema);
+
+		const teams = await teamService.getUserTeams(user.id);
+		if (!teams.some(({ team }) => team.id === body.teamId)) {
+			ErrorService.throwNotFound("Team not found");
+		}
+		if (!(await rbacService.hasPermission(user.id, "project", "create", { teamId: body.teamId }))) {
+			ErrorService.throwForbidden("You do not have permission to create projects in this team");
+		}
+
+		const project = await projectService.createProject(body.teamId, body.name, user.id);
+		if (!project) {
+			ErrorService.throwConflict("Project could not be created");
+		}
+
+		return NextResponse.json({ data: apiProjectSchema.parse(project) }, { status: 201 });
+	},
+	{ scope: "projects:write" }
+);
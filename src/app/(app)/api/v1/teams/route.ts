@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { withApiKey } from "@/server/lib/api-handler";
+import { apiTeamSchema } from "@/server/lib/openapi";
+import { teamService } from "@/server/services/team-service";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Lists the teams the user belongs to
+ *
+ * GET /api/v1/teams
+ */
+export const GET = withApiKey(
+	async ({ user }) => {
+		const teams = await teamService.getUserTeams(user.id);
+
+		return NextResponse.json({
+			data: teams.map(({ team, role }) => apiTeamSchema.parse({ ...team, role })),
+		});
+	},
+	{ scope: "projects:read" }
+);
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { apiError, getClientIp } from "@/server/lib/api-handler";
+import { ErrorService } from "@/server/services/error-service";
+import { getRateLimitHeaders, rateLimitService } from "@/server/services/rate-limit-service";
+import { getWaitlistPosition, normalizeReferralCode } from "@/server/services/waitlist-service";
+
+const positionRateLimit = { requests: 30, duration: 60 };
+
+/**
+ * Returns a waitlist entry's place in the queue
+ * The referral code doubles as the lookup key, so entrants can check their position from the
+ * link they share.
+ *
+ * GET /api/waitlist/position?code=K7QX2MPA
+ */
+export async function GET(request: Request) {
+	let rateLimitHeaders: Record<string, string>;
+	try {
+		const status = await rateLimitService.checkLimit(
+			getClientIp(request) ?? "anonymous",
+			"waitlist-position",
+			positionRateLimit
+		);
+		rateLimitHeaders = getRateLimitHeaders(status, positionRateLimit);
+	} catch (error) {
+		if (ErrorService.isAppError(error) && error.code === "RATE_LIMITED") {
+			return apiError("RATE_LIMITED", "Too many requests, try again in a minute");
+		}
+		throw error;
+	}
+
+	const code = normalizeReferralCode(new URL(request.url).searchParams.get("code"));
+	if (!code) {
+		return apiError("BAD_REQUEST", "A valid code query parameter is required", {
+			headers: rateLimitHeaders,
+		});
+	}
+
+	const position = await getWaitlistPosition(code);
+	if (!position) {
+		return apiError("NOT_FOUND", "No waitlist entry has this code", { headers: rateLimitHeaders });
+	}
+
+	return NextResponse.json(position, {
+		headers: { ...rateLimitHeaders, "Cache-Control": "no-store" },
+	});
+}
@@ -0,0 +1,68 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { routes } from "@/config/routes";
+import { SEARCH_PARAM_KEYS } from "@/config/search-param-keys";
+import { logger } from "@/lib/logger";
+import { auth } from "@/server/auth";
+import { assertNotImpersonating } from "@/server/lib/auth";
+import { initializePaymentProviders } from "@/server/providers";
+import { ErrorService } from "@/server/services/error-service";
+import { PaymentService } from "@/server/services/payment-service";
+import { planService } from "@/server/services/plan-service";
+
+/**
+ * Checkout route for the plans on the pricing page
+ * Creates a checkout with the plan's provider and redirects to it. Signed-out visitors are sent
+ * to sign in first and come back here afterwards.
+ *
+ * GET /checkout?plan=<plan id>
+ */
+export async function GET(request: NextRequest) {
+	const planId = Number(request.nextUrl.searchParams.get("plan"));
+	const plan = Number.isInteger(planId) ? await planService.getActivePlan(planId) : null;
+	if (!plan) {
+		return new NextResponse("Plan not found", { status: 404 });
+	}
+
+	const session = await auth();
+	if (!session?.user?.id) {
+		const signInUrl = new URL(routes.auth.signIn, request.url);
+		signInUrl.searchParams.set(
+			SEARCH_PARAM_KEYS.nextUrl,
+			`${routes.checkout}?plan=${encodeURIComponent(String(plan.id))}`
+		);
+		return NextResponse.redirect(signInUrl);
+	}
+	try {
+		await assertNotImpersonating("check out");
+	} catch (error) {
+		if (ErrorService.isAppError(error) && error.code === "FORBIDDEN") {
+			return new NextResponse(error.message, { status: 403 });
+		}
+		throw error;
+	}
+
+	await initializePaymentProviders();
+
+	// Polar checks out products; Stripe and Lemon Squeezy check out a price or variant
+	const checkoutUrl = await PaymentService.createCheckoutUrl(
+		{
+			productId: plan.provider === "polar" ? plan.productId : plan.variantId,
+			mode: plan.interval ? "subscription" : "payment",
+			email: session.user.email ?? undefined,
+			userId: session.user.id,
+			metadata: { userId: session.user.id, planId: String(plan.id) },
+		},
+		plan.provider
+	);
+
+	if (!checkoutUrl) {
+		logger.error("Failed to create checkout for plan", {
+			planId: plan.id,
+			provider: plan.provider,
+			userId: session.user.id,
+		});
+		return new NextResponse("Failed to create checkout", { status: 500 });
+	}
+
+	return NextResponse.redirect(checkoutUrl);
+}
@@ -1,64 +1,75 @@
 import { headers } from "next/headers";
 import type { NextRequest } from "next/server";
+import { env } from "@/env";
+import { logger } from "@/lib/logger";
+import { verifyVercelWebhookSignature } from "@/server/services/vercel/vercel-webhook-service";
+import { WebhookInboxService } from "@/server/services/webhook-inbox-service";
 
 /*
  * Vercel Webhook Handler
  * @see https://vercel.com/docs/observability/webhooks-overview
  *
- * This endpoint receives and logs all webhook events from Vercel.
- * It's useful for debugging and understanding the webhook payload structure.
+ * This endpoint verifies the signature of webhook events from Vercel, stores them in the
+ * webhook inbox and processes them. Deployment events update the `deployments` table.
  */
 
 export const dynamic = "force-dynamic"; // Disable caching for webhook endpoint
 
-export async function POST(request: NextRequest) {
-	// console.log({
-	// 	message: "Vercel webhook received",
-	// 	url: request.url,
-	// 	method: request.method,
-	// 	headers: Object.fromEntries(request.headers.entries()),
-	// });
+function jsonResponse(body: Record<string, unknown>, status: number) {
+	return new Response(JSON.stringify(body), {
+		status,
+		headers: {
+			"Content-Type": "application/json",
+		},
+	});
+}
 
+export async function POST(request: NextRequest) {
 	try {
 		// Get headers including Vercel's signature
 		const headersList = await headers();
 		const signature = headersList.get("x-vercel-signature");
-		const timestamp = headersList.get("x-vercel-timestamp");
 
-		// Parse the request body
-		const body = await request.json();
+		// Account webhooks have their own secret; integration webhooks use the client secret
+		const secret = env.VERCEL_WEBHOOK_SECRET ?? env.VERCEL_CLIENT_SECRET;
+		if (!secret) {
+			logger.error("VERCEL_WEBHOOK_SECRET environment variable is not set");
+			return jsonResponse({ error: "Webhook secret not configured" }, 500);
+		}
+
+		// Verify against the raw body, before parsing it
+		const rawBody = await request.text();
+		if (!verifyVercelWebhookSignature(rawBody, signature, secret)) {
+			logger.warn("Invalid Vercel webhook signature", { signature: !!signature });
+			return jsonResponse({ error: "Invalid signature" }, 401);
+		}
+
+		const body = JSON.parse(rawBody);
 
-		// Log all the information we received
-		console.log({
-			event: "Vercel Webhook Received",
-			timestamp: new Date().toISOString(),
-			headers: {
-				signature,
-				timestamp,
-				// Log other relevant headers
-				type: headersList.get("x-vercel-event"),
-				id: headersList.get("x-vercel-id"),
-			},
-			body, // Log the entire webhook payload
+		logger.info("Vercel webhook received", {
+			type: body?.type ?? headersList.get("x-vercel-event"),
+			id: body?.id ?? headersList.get("x-vercel-id"),
 		});
 
-		// Return a success response
-		return new Response(JSON.stringify({ received: true }), {
-			status: 200,
-			headers: {
-				"Content-Type": "application/json",
-			},
+		// Persist the event, then process it; duplicate deliveries are skipped
+		const result = await WebhookInboxService.ingest({
+			provider: "vercel",
+			eventId: body?.id,
+			eventName: body?.type ?? "unknown",
+			body: rawBody,
 		});
+
+		if (result.status === "failed") {
+			throw new Error(result.error);
+		}
+
+		// Return a success response
+		return jsonResponse({ received: true }, 200);
 	} catch (error) {
 		// Log any errors that occur
-		console.error("Error processing Vercel webhook:", error);
+		logger.error("Error processing Vercel webhook", { error });
 
 		// Return an error response
-		return new Response(JSON.stringify({ error: "Failed to process webhook" }), {
-			status: 500,
-			headers: {
-				"Content-Type": "application/json",
-			},
-		});
+		return jsonResponse({ error: "Failed to process webhook" }, 500);
 	}
 }
@@ -0,0 +1,139 @@
+/**
+ * Preview of every email template, and of the messages in the local outbox
+ * Only available in development mode
+ */
+
+import { format } from "date-fns";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { cn } from "@/lib/utils";
+import {
+	EMAIL_TEMPLATES,
+	getEmailTransport,
+	isEmailTemplateName,
+	OutboxTransport,
+	renderEmail,
+} from "@/server/email";
+
+export const dynamic = "force-dynamic";
+
+interface EmailPreviewPageProps {
+	searchParams: Promise<{ template?: string; outbox?: string }>;
+}
+
+export default async function EmailPreviewPage({
+	searchParams: searchParamsPromise,
+}: EmailPreviewPageProps) {
+	if (process.env.NODE_ENV === "production") {
+		notFound();
+	}
+
+	const searchParams = await searchParamsPromise;
+	const outbox = new OutboxTransport();
+	const outboxMessages = await outbox.list(20);
+
+	const selectedOutboxId = searchParams.outbox ?? null;
+	const selectedTemplate = selectedOutboxId
+		? null
+		: searchParams.template && isEmailTemplateName(searchParams.template)
+			? searchParams.template
+			: "welcome";
+
+	let preview: { subject: string; html: string; text?: string } | null = null;
+	if (selectedTemplate) {
+		preview = await renderEmail(selectedTemplate, EMAIL_TEMPLATES[selectedTemplate].previewProps);
+	} else if (selectedOutboxId) {
+		const html = await outbox.readHtml(selectedOutboxId);
+		const message = outboxMessages.find((candidate) => candidate.id === selectedOutboxId);
+		preview = html
+			? { subject: message?.subject ?? selectedOutboxId, html, text: message?.text }
+			: null;
+	}
+
+	return (
+		<div className="container py-8">
+			<h1 className="text-2xl font-bold mb-2">Email Preview</h1>
+			<p className="text-muted-foreground mb-6">
+				Templates are rendered with sample data from src/server/email/registry.ts. Email is sent
+				with <strong>{getEmailTransport().id}</strong>
+				{getEmailTransport().id === "outbox" && ", set RESEND_API_KEY to send real email"}.
+			</p>
+
+			<div className="grid gap-6 lg:grid-cols-[260px_1fr]">
+				<nav className="space-y-6 text-sm">
+					<section>
+						<h2 className="font-semibold mb-2">Templates</h2>
+						<ul className="space-y-1">
+							{Object.entries(EMAIL_TEMPLATES).map(([name, template]) => (
+								<li key={name}>
+									<Link
+										href={`?template=${name}`}
+										className={cn(
+											"block rounded-md px-2 py-1 hover:bg-accent",
+											selectedTemplate === name && "bg-accent"
+										)}
+									>
+										<div className="font-mono">{name}</div>
+										<div className="text-xs text-muted-foreground">{template.description}</div>
+									</Link>
+								</li>
+							))}
+						</ul>
+					</section>
+
+					<section>
+						<h2 className="font-semibold mb-2">Outbox</h2>
+						{outboxMessages.length === 0 ? (
+							<p className="text-muted-foreground">
+								No messages yet. Email sent without RESEND_API_KEY shows up here.
+							</p>
+						) : (
+							<ul className="space-y-1">
+								{outboxMessages.map((message) => (
+									<li key={message.id}>
+										<Link
+											href={`?outbox=${message.id}`}
+											className={cn(
+												"block rounded-md px-2 py-1 hover:bg-accent",
+												selectedOutboxId === message.id && "bg-accent"
+											)}
+										>
+											<div className="truncate">{message.subject}</div>
+											<div className="text-xs text-muted-foreground">
+												{message.to} · {format(new Date(message.sentAt), "MMM d, HH:mm")}
+											</div>
+										</Link>
+									</li>
+								))}
+							</ul>
+						)}
+					</section>
+				</nav>
+
+				<section className="space-y-4">
+					{preview ? (
+						<>
+							<div className="rounded-md border p-3 text-sm">
+								<span className="text-muted-foreground">Subject:</span> {preview.subject}
+							</div>
+							<iframe
+								title="Email preview"
+								srcDoc={preview.html}
+								sandbox=""
+								className="h-[720px] w-full rounded-md border bg-white"
+							/>
+							{preview.text && (
+								<details className="rounded-md border p-3 text-sm">
+									<summary className="cursor-pointer">Plain text</summary>
+									<pre className="mt-3 whitespace-pre-wrap">{preview.text}</pre>
+								</details>
+							)}
+						</>
+					) : (
+						<p className="text-muted-foreground">This message is no longer in the outbox.</p>
+					)}
+				</section>
+			</div>
+		</div>
+	);
+}
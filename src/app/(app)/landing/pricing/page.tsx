@@ -1,3 +1,4 @@
+import { PricingSection } from "@/components/blocks/pricing-section";
 import { PricingSectionSingle } from "@/components/blocks/pricing-section-single";
 import { Link } from "@/components/primitives/link";
 import { constructMetadata } from "@/config/metadata";
@@ -17,6 +18,9 @@ export const metadata: Metadata = constructMetadata({
 	},
 });
 
+// Picks up plan changes even if the sync could not revalidate the page
+export const revalidate = 3600;
+
 export default function PricingPage() {
 	return (
 		<div className="container mx-auto mt-header py-16">
@@ -43,7 +47,7 @@ export default function PricingPage() {
 						<PricingSectionBold plans={oneTimePlans} />
 					</div> */}
 					<div className="py-24 lg:pb-32">
-						<PricingSectionSingle plan={singlePlan} />
+						<PricingSection fallback={<PricingSectionSingle plan={singlePlan} />} />
 					</div>
 				</div>
 			</main>
@@ -0,0 +1,51 @@
+"use client";
+
+import { ExternalLink } from "lucide-react";
+import { useTransition } from "react";
+import { toast } from "sonner";
+import { Button, type ButtonProps } from "@/components/ui/button";
+import { createBillingPortalUrl } from "@/server/actions/billing";
+import type { CustomerPortalIntent } from "@/server/providers/types";
+
+interface BillingPortalButtonProps extends Omit<ButtonProps, "onClick"> {
+	processor: string;
+	intent?: CustomerPortalIntent;
+}
+
+/**
+ * Opens the provider's customer portal, or one of its flows, in the current tab
+ */
+export const BillingPortalButton = ({
+	processor,
+	intent = "manage",
+	children,
+	disabled,
+	...props
+}: BillingPortalButtonProps) => {
+	const [isPending, startTransition] = useTransition();
+
+	const handleClick = () => {
+		startTransition(async () => {
+			try {
+				const result = await createBillingPortalUrl({ processor, intent });
+
+				if (!result.success || !result.url) {
+					toast.error(result.error ?? "Could not open the billing portal");
+					return;
+				}
+
+				window.location.href = result.url;
+			} catch (error) {
+				console.error("Billing portal error:", error);
+				toast.error("An unexpected error occurred");
+			}
+		});
+	};
+
+	return (
+		<Button onClick={handleClick} disabled={disabled || isPending} {...props}>
+			{children}
+			<ExternalLink className="ml-2 h-4 w-4" />
+		</Button>
+	);
+};
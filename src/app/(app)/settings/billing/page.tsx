@@ -0,0 +1,254 @@
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+import { BillingPortalButton } from "@/app/(app)/settings/_components/billing-portal-button";
+import { Link } from "@/components/primitives/link";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { buttonVariants } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardFooter,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { constructMetadata } from "@/config/metadata";
+import { routes } from "@/config/routes";
+import { formatDate } from "@/lib/utils/format-date";
+import { formatPrice } from "@/lib/utils/format-price";
+import { auth } from "@/server/auth";
+import type { Payment, Subscription } from "@/server/db/schema";
+import { getEnabledProviders, initializePaymentProviders } from "@/server/providers";
+import { entitlementService } from "@/server/services/entitlement-service";
+import { PaymentService } from "@/server/services/payment-service";
+import {
+	isSubscriptionEntitled,
+	SubscriptionService,
+} from "@/server/services/subscription-service";
+
+export const metadata: Metadata = constructMetadata({
+	title: "Billing Settings",
+	description: "View your plan and invoices, and manage your subscription and payment method.",
+});
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+	completed: "default",
+	paid: "default",
+	active: "default",
+	trialing: "secondary",
+	pending: "secondary",
+	refunded: "outline",
+	partially_refunded: "outline",
+	disputed: "destructive",
+	cancelled: "outline",
+	canceled: "outline",
+	failed: "destructive",
+	past_due: "destructive",
+};
+
+/**
+ * Payments store their currency in the provider metadata, when the provider reports one
+ */
+const getPaymentCurrency = (payment: Payment): string => {
+	try {
+		const metadata = JSON.parse(payment.metadata ?? "{}");
+		return typeof metadata.currency === "string" ? metadata.currency.toUpperCase() : "USD";
+	} catch {
+		return "USD";
+	}
+};
+
+const describeRenewal = (subscription: Subscription): string | null => {
+	if (subscription.status === "trialing" && subscription.trialEndsAt) {
+		return `Trial ends on ${formatDate(subscription.trialEndsAt)}`;
+	}
+	if (!subscription.currentPeriodEnd) {
+		return null;
+	}
+	return subscription.cancelAtPeriodEnd
+		? `Cancelled; access ends on ${formatDate(subscription.currentPeriodEnd)}`
+		: `Renews on ${formatDate(subscription.currentPeriodEnd)}`;
+};
+
+export default async function BillingPage() {
+	const session = await auth();
+	if (!session?.user) redirect(routes.auth.signIn);
+
+	const userId = session.user.id;
+	const isImpersonating = !!session.impersonation;
+
+	await initializePaymentProviders();
+	const providers = new Map(getEnabledProviders().map((provider) => [provider.id, provider.name]));
+
+	const [subscriptions, userPayments, plan] = await Promise.all([
+		SubscriptionService.getUserSubscriptions(userId),
+		PaymentService.getUserPayments(userId),
+		entitlementService.getPlan({ userId }),
+	]);
+
+	const subscription = subscriptions.find((candidate) => isSubscriptionEntitled(candidate)) ?? null;
+	const payments = [...userPayments].sort(
+		(a, b) => (b.purchasedAt ?? b.createdAt).getTime() - (a.purchasedAt ?? a.createdAt).getTime()
+	);
+	// Invoices live in the portal of each provider the user has paid through
+	const portalProcessors = [
+		...new Set(
+			[...subscriptions, ...payments]
+				.map((record) => record.processor)
+				.filter((processor): processor is string => !!processor && providers.has(processor))
+		),
+	];
+	const canManageSubscription = !!subscription && providers.has(subscription.processor);
+
+	return (
+		<div className="space-y-6">
+			<div>
+				<h3 className="text-lg font-medium">Billing</h3>
+				<p className="text-sm text-muted-foreground">
+					Manage your plan, payment method and invoices.
+				</p>
+			</div>
+			<Separator />
+
+			{isImpersonating && (
+				<Alert>
+					<AlertDescription>
+						Billing is read-only while impersonating a user. The customer portal is not available.
+					</AlertDescription>
+				</Alert>
+			)}
+
+			<Card>
+				<CardHeader>
+					<CardTitle>Current plan</CardTitle>
+					<CardDescription>
+						You are on the <span className="font-medium text-foreground">{plan.name}</span> plan.
+					</CardDescription>
+				</CardHeader>
+				<CardContent>
+					{subscription ? (
+						<div className="space-y-1">
+							<div className="flex items-center gap-2">
+								<span className="font-medium">{subscription.productName ?? "Subscription"}</span>
+								<Badge variant={STATUS_VARIANTS[subscription.status] ?? "secondary"}>
+									{subscription.cancelAtPeriodEnd ? "cancelling" : subscription.status}
+								</Badge>
+							</div>
+							<p className="text-sm text-muted-foreground">
+								{[providers.get(subscription.processor), describeRenewal(subscription)]
+									.filter(Boolean)
+									.join(" · ")}
+							</p>
+						</div>
+					) : (
+						<p className="text-sm text-muted-foreground">You have no active subscription.</p>
+					)}
+				</CardContent>
+				<CardFooter className="flex flex-wrap gap-2">
+					{subscription && canManageSubscription ? (
+						<>
+							<BillingPortalButton
+								processor={subscription.processor}
+								intent="change_plan"
+								disabled={isImpersonating}
+							>
+								Change plan
+							</BillingPortalButton>
+							<BillingPortalButton
+								processor={subscription.processor}
+								intent="update_payment_method"
+								variant="outline"
+								disabled={isImpersonating}
+							>
+								Update payment method
+							</BillingPortalButton>
+							{!subscription.cancelAtPeriodEnd && (
+								<BillingPortalButton
+									processor={subscription.processor}
+									intent="cancel"
+									variant="ghost"
+									disabled={isImpersonating}
+								>
+									Cancel subscription
+								</BillingPortalButton>
+							)}
+						</>
+					) : (
+						<Link href={routes.pricing} className={buttonVariants()}>
+							View plans
+						</Link>
+					)}
+				</CardFooter>
+			</Card>
+
+			<Card>
+				<CardHeader>
+					<CardTitle>Payment history</CardTitle>
+					<CardDescription>
+						Your payments. Invoices and receipts can be downloaded from the billing portal.
+					</CardDescription>
+				</CardHeader>
+				<CardContent>
+					{payments.length === 0 ? (
+						<p className="text-sm text-muted-foreground">You have not made any payments yet.</p>
+					) : (
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>Date</TableHead>
+									<TableHead>Description</TableHead>
+									<TableHead>Amount</TableHead>
+									<TableHead>Status</TableHead>
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{payments.map((payment) => (
+									<TableRow key={payment.id}>
+										<TableCell>{formatDate(payment.purchasedAt ?? payment.createdAt)}</TableCell>
+										<TableCell>{payment.productName ?? "Payment"}</TableCell>
+										<TableCell>
+											{payment.isFreeProduct
+												? "Free"
+												: formatPrice(payment.amount ?? 0, getPaymentCurrency(payment))}
+										</TableCell>
+										<TableCell>
+											<Badge variant={STATUS_VARIANTS[payment.status] ?? "secondary"}>
+												{payment.status.replaceAll("_", " ")}
+											</Badge>
+										</TableCell>
+									</TableRow>
+								))}
+							</TableBody>
+						</Table>
+					)}
+				</CardContent>
+				{portalProcessors.length > 0 && (
+					<CardFooter className="flex flex-wrap gap-2">
+						{portalProcessors.map((processor) => (
+							<BillingPortalButton
+								key={processor}
+								processor={processor}
+								variant="outline"
+								disabled={isImpersonating}
+							>
+								{portalProcessors.length > 1
+									? `${providers.get(processor)} billing portal`
+									: "Open billing portal"}
+							</BillingPortalButton>
+						))}
+					</CardFooter>
+				)}
+			</Card>
+		</div>
+	);
+}
@@ -20,6 +20,10 @@ const sidebarNavItems = [
 		title: "Account",
 		href: routes.settings.account,
 	},
+	{
+		title: "Billing",
+		href: routes.settings.billing,
+	},
 ] as const;
 
 interface SettingsLayoutProps {
@@ -17,8 +17,14 @@ import {
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { addToWaitlist, type WaitlistFormData } from "@/server/actions/waitlist-actions";
+import { WaitlistReferral } from "./waitlist-referral";
 
-export function WaitlistForm() {
+interface WaitlistFormProps {
+	/** From the `?ref=` link the visitor arrived through */
+	referralCode?: string;
+}
+
+export function WaitlistForm({ referralCode }: WaitlistFormProps) {
 	const [formData, setFormData] = useState<WaitlistFormData>({
 		email: "",
 		name: "",
@@ -29,6 +35,7 @@ export function WaitlistForm() {
 		interests: "",
 	});
 	const [status, setStatus] = useState<"idle" | "loading" | "success" | "error">("idle");
+	const [referral, setReferral] = useState<{ url: string; position: number | null } | null>(null);
 	const { toast } = useToast();
 
 	const handleSubmit = async (event: React.FormEvent) => {
@@ -36,10 +43,13 @@ export function WaitlistForm() {
 		setStatus("loading");
 
 		try {
-			const result = await addToWaitlist(formData);
+			const result = await addToWaitlist({ ...formData, referralCode });
 
 			if (result.success) {
 				setStatus("success");
+				if ("referralUrl" in result && result.referralUrl) {
+					setReferral({ url: result.referralUrl, position: result.position });
+				}
 				setFormData({
 					email: "",
 					name: "",
@@ -123,6 +133,11 @@ export function WaitlistForm() {
 											</div>
 										</div>
 									</div>
+									{referral && (
+										<div className="mt-6">
+											<WaitlistReferral referralUrl={referral.url} position={referral.position} />
+										</div>
+									)}
 									<div className="mt-8 pt-6 border-t border-green-200 dark:border-green-800">
 										<p className="text-sm text-green-600 dark:text-green-400 flex items-center justify-center gap-2">
 											<Heart className="h-4 w-4" />
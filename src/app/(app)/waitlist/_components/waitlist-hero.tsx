@@ -7,10 +7,17 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
 import { addToWaitlistSimple } from "@/server/actions/waitlist-actions";
+import { WaitlistReferral } from "./waitlist-referral";
 
-export function WaitlistHero() {
+interface WaitlistHeroProps {
+	/** From the `?ref=` link the visitor arrived through */
+	referralCode?: string;
+}
+
+export function WaitlistHero({ referralCode }: WaitlistHeroProps) {
 	const [email, setEmail] = useState("");
 	const [status, setStatus] = useState<"idle" | "loading" | "success" | "error">("idle");
+	const [referral, setReferral] = useState<{ url: string; position: number | null } | null>(null);
 	const { toast } = useToast();
 
 	const handleSubmit = async (event: React.FormEvent) => {
@@ -18,11 +25,14 @@ export function WaitlistHero() {
 		setStatus("loading");
 
 		try {
-			const result = await addToWaitlistSimple(email);
+			const result = await addToWaitlistSimple(email, referralCode);
 
 			if (result.success) {
 				setStatus("success");
 				setEmail("");
+				if ("referralUrl" in result && result.referralUrl) {
+					setReferral({ url: result.referralUrl, position: result.position });
+				}
 				toast({
 					title: "Welcome aboard! 🚀",
 					description: "You're now on the exclusive early access list. We'll be in touch soon!",
@@ -146,9 +156,15 @@ export function WaitlistHero() {
 								</Button>
 							</div>
 						</form>
-						<p className="mt-3 text-sm text-slate-500 dark:text-slate-400">
-							Join 1,200+ developers. No spam, ever. Unsubscribe anytime.
-						</p>
+						{referral ? (
+							<div className="mt-4">
+								<WaitlistReferral referralUrl={referral.url} position={referral.position} />
+							</div>
+						) : (
+							<p className="mt-3 text-sm text-slate-500 dark:text-slate-400">
+								Join 1,200+ developers. No spam, ever. Unsubscribe anytime.
+							</p>
+						)}
 					</div>
 
 					{/* Trust Signal */}
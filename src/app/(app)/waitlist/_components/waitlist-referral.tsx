@@ -0,0 +1,36 @@
+"use client";
+
+import { Users } from "lucide-react";
+import { CopyButton } from "@/components/ui/copy-button";
+
+interface WaitlistReferralProps {
+	referralUrl: string;
+	position: number | null;
+}
+
+/**
+ * Shows a new entrant their place in the queue and the link that moves them up
+ */
+export function WaitlistReferral({ referralUrl, position }: WaitlistReferralProps) {
+	return (
+		<div className="rounded-xl border border-violet-200 dark:border-violet-800 bg-white/90 dark:bg-slate-900/90 p-4 text-left backdrop-blur-sm">
+			{position !== null && (
+				<p className="mb-2 text-sm font-semibold text-slate-900 dark:text-white">
+					You're #{position.toLocaleString()} in line
+				</p>
+			)}
+			<p className="mb-3 flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+				<Users className="h-4 w-4 shrink-0 text-violet-600 dark:text-violet-400" />
+				Share your link. Every friend who joins moves you up the list.
+			</p>
+			<div className="flex items-center gap-2 rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 px-3 py-1">
+				<code className="flex-1 truncate text-sm">{referralUrl}</code>
+				<CopyButton
+					value={referralUrl}
+					successTitle="Link copied"
+					successDescription="Share it to move up the waitlist"
+				/>
+			</div>
+		</div>
+	);
+}
@@ -12,10 +12,16 @@ export const metadata: Metadata = constructMetadata({
 	description: `Get early access to ${siteConfig.name}, the Next.js starter that saves weeks of setup time. Join developers who are tired of rebuilding auth, payments, and databases from scratch.`,
 });
 
-export default function WaitlistPage() {
+interface WaitlistPageProps {
+	searchParams: Promise<{ ref?: string }>;
+}
+
+export default async function WaitlistPage({ searchParams }: WaitlistPageProps) {
+	const { ref } = await searchParams;
+
 	return (
 		<div className="min-h-screen">
-			<WaitlistHero />
+			<WaitlistHero referralCode={ref} />
 			<Suspense fallback={<SuspenseFallback />}>
 				<WaitlistSocialProof />
 				<WaitlistFAQ />
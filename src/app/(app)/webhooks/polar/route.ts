@@ -1,11 +1,13 @@
 import type { NextRequest } from "next/server";
 import { env } from "@/env";
 import { logger } from "@/lib/logger";
-import { processPolarWebhook } from "@/lib/polar";
+import { verifyStandardWebhook } from "@/server/lib/standard-webhooks";
+import { polarWebhookEventSchema } from "@/server/providers/polar-provider";
+import { WebhookInboxService } from "@/server/services/webhook-inbox-service";
 
 /**
  * Polar webhook handler
- * Processes webhooks from Polar and updates payments with proper product names
+ * Verifies webhooks from Polar and hands them to the webhook inbox
  */
 export async function POST(request: NextRequest) {
 	// Check if Polar is enabled
@@ -16,101 +18,71 @@ export async function POST(request: NextRequest) {
 
 	logger.debug("Polar webhook received");
 
+	if (!env.POLAR_WEBHOOK_SECRET) {
+		logger.error("POLAR_WEBHOOK_SECRET environment variable is not set");
+		return new Response("Webhook secret not configured", { status: 500 });
+	}
+
 	try {
-		// Get the raw body for webhook verification
+		// Verify the signature against the raw body before anything is parsed or stored
 		const body = await request.text();
-		let event;
-
+		const verification = verifyStandardWebhook({
+			body,
+			headers: request.headers,
+			key: Buffer.from(env.POLAR_WEBHOOK_SECRET, "utf8"),
+		});
+		if (!verification.valid) {
+			logger.warn("Rejected Polar webhook", { reason: verification.reason });
+			return new Response("Invalid signature", { status: 401 });
+		}
+		let payload: unknown;
 		try {
-			event = JSON.parse(body);
+			payload = JSON.parse(body);
 		} catch (error) {
 			logger.error("Failed to parse Polar webhook body", { error });
 			return new Response("Invalid JSON", { status: 400 });
 		}
 
+		const parsed = polarWebhookEventSchema.safeParse(payload);
+		if (!parsed.success) {
+			// Events the app does not subscribe to fail on the event type; acknowledge them unstored
+			if (parsed.error.issues.some((issue) => issue.code === "invalid_union_discriminator")) {
+				logger.debug("Ignoring unhandled Polar webhook event");
+				return new Response("Webhook ignored", { status: 200 });
+			}
+
+			logger.warn("Invalid Polar webhook payload", { issues: parsed.error.issues });
+			return new Response("Invalid payload", { status: 400 });
+		}
+
+		const event = parsed.data;
 		logger.debug("Parsed Polar webhook event", {
-			eventType: event?.type,
-			eventId: event?.id,
-			orderId: event?.data?.id,
+			eventType: event.type,
+			eventId: verification.id,
+			dataId: event.data.id,
 		});
 
-		// Verify webhook signature if configured
-		// Note: Polar webhook verification implementation would go here
-		// For now, we'll process the webhook directly
-
-		// Extract enhanced product information for webhook processing
-		if (event?.data) {
-			// Apply the same product name extraction logic
-			const webhookData = event.data;
-			let productName = "Unknown Product";
-			let extractionSource = "fallback";
-
-			// Enhanced product name extraction for webhook events
-			if (webhookData.product?.name) {
-				productName = webhookData.product.name;
-				extractionSource = "webhookData.product.name";
-			} else if (webhookData.variant?.name) {
-				productName = webhookData.variant.name;
-				extractionSource = "webhookData.variant.name";
-			} else if (webhookData.productName) {
-				productName = webhookData.productName;
-				extractionSource = "webhookData.productName";
-			} else if (webhookData.description) {
-				productName = webhookData.description;
-				extractionSource = "webhookData.description";
-			} else if (
-				webhookData.items &&
-				Array.isArray(webhookData.items) &&
-				webhookData.items.length > 0
-			) {
-				const firstItem = webhookData.items[0];
-				if (firstItem.product?.name) {
-					productName = firstItem.product.name;
-					extractionSource = "webhookData.items[0].product.name";
-				} else if (firstItem.variant?.name) {
-					productName = firstItem.variant.name;
-					extractionSource = "webhookData.items[0].variant.name";
-				} else if (firstItem.name) {
-					productName = firstItem.name;
-					extractionSource = "webhookData.items[0].name";
-				}
-			}
+		// Persist the verified raw body, then process it; duplicate deliveries are skipped.
+		// Polar follows Standard Webhooks, which sends a stable webhook-id header per event.
+		const result = await WebhookInboxService.ingest({
+			provider: "polar",
+			eventId: verification.id,
+			eventName: event.type,
+			body,
+		});
 
-			// Log product name extraction for debugging
-			logger.debug("Webhook product name extraction", {
+		if (result.status === "failed") {
+			// The inbox retries failed events with backoff
+			logger.error("Polar webhook processing failed", {
 				eventType: event.type,
-				orderId: webhookData.id,
-				productName,
-				extractionSource,
-				availableFields: {
-					hasProduct: !!webhookData.product,
-					productName: webhookData.product?.name,
-					hasVariant: !!webhookData.variant,
-					variantName: webhookData.variant?.name,
-					webhookProductName: webhookData.productName,
-					description: webhookData.description,
-					hasItems: !!(
-						webhookData.items &&
-						Array.isArray(webhookData.items) &&
-						webhookData.items.length > 0
-					),
-				},
+				error: result.error,
 			});
-
-			// Enhance the webhook data with extracted product name
-			event.data = {
-				...webhookData,
-				productName: productName,
-				_productNameExtractionSource: extractionSource,
-			};
+			return new Response("Webhook processing failed", { status: 200 });
 		}
 
-		// Process the webhook using the lib function
-		await processPolarWebhook(event);
-
 		logger.debug("Polar webhook processed successfully", {
-			eventType: event?.type,
-			eventId: event?.id,
+			eventType: event.type,
+			eventId: verification.id,
 		});
 
 		return new Response("Webhook processed", { status: 200 });
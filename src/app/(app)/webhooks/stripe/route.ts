@@ -1,11 +1,10 @@
 import { headers } from "next/headers";
 import { NextResponse } from "next/server";
-import Stripe from "stripe";
+import type Stripe from "stripe";
 import { env } from "@/env";
 import { logger } from "@/lib/logger";
-import { processStripeWebhook, verifyStripeWebhookSignature } from "@/lib/stripe";
-import { PaymentService } from "@/server/services/payment-service";
-import { userService } from "@/server/services/user-service";
+import { verifyStripeWebhookSignature } from "@/lib/stripe";
+import { WebhookInboxService } from "@/server/services/webhook-inbox-service";
 
 /**
  * Stripe webhook handler
@@ -54,267 +53,23 @@ export async function POST(request: Request) {
 			livemode: event.livemode,
 		});
 
-		// Handle different webhook events
-		switch (event.type) {
-			case "checkout.session.completed": {
-				const session = event.data.object;
-				logger.debug("Processing checkout session completed", { sessionId: session.id });
-
-				if (session.payment_status === "paid" && session.customer) {
-					try {
-						const stripe = new Stripe(env.STRIPE_SECRET_KEY!, {
-							apiVersion: (env.STRIPE_API_VERSION as Stripe.LatestApiVersion) ?? "2023-10-16",
-						});
-
-						// Get customer ID - handle both string and object cases
-						const customerId =
-							typeof session.customer === "string" ? session.customer : session.customer.id;
-						const customer = await stripe.customers.retrieve(customerId);
-
-						if (customer && !customer.deleted) {
-							// Find or create user by email
-							const { user } = await userService.findOrCreateUserByEmail(customer.email!, {
-								name: customer.name ?? undefined,
-							});
-
-							// Create payment record
-							await PaymentService.createPayment({
-								userId: user.id,
-								orderId: session.id,
-								status: "completed",
-								amount: (session.amount_total ?? 0) / 100, // Convert from cents
-								processor: "stripe",
-								metadata: {
-									sessionId: session.id,
-									customerId: customer.id,
-									customerEmail: customer.email,
-									paymentStatus: session.payment_status,
-									mode: session.mode,
-								},
-							});
-
-							logger.info("Checkout session payment recorded", {
-								sessionId: session.id,
-								userId: user.id,
-								customerEmail: customer.email,
-								amount: session.amount_total,
-							});
-						}
-					} catch (error) {
-						logger.error("Error processing checkout session completed", {
-							sessionId: session.id,
-							error,
-						});
-					}
-				}
-				break;
-			}
-
-			case "payment_intent.succeeded": {
-				const paymentIntent = event.data.object;
-				logger.debug("Processing payment intent succeeded", {
-					paymentIntentId: paymentIntent.id,
-				});
-
-				if (paymentIntent.customer) {
-					try {
-						const stripe = new Stripe(env.STRIPE_SECRET_KEY!, {
-							apiVersion: (env.STRIPE_API_VERSION as Stripe.LatestApiVersion) ?? "2023-10-16",
-						});
-
-						// Get customer ID - handle both string and object cases
-						const customerId =
-							typeof paymentIntent.customer === "string"
-								? paymentIntent.customer
-								: paymentIntent.customer.id;
-						const customer = await stripe.customers.retrieve(customerId);
-
-						if (customer && !customer.deleted) {
-							// Find or create user by email
-							const { user } = await userService.findOrCreateUserByEmail(customer.email!, {
-								name: customer.name ?? undefined,
-							});
-
-							// Check if we already have a payment record for this payment intent
-							const existingPayment = await PaymentService.getPaymentByOrderId(paymentIntent.id);
-
-							if (!existingPayment) {
-								// Create payment record
-								await PaymentService.createPayment({
-									userId: user.id,
-									orderId: paymentIntent.id,
-									status: "completed",
-									amount: paymentIntent.amount / 100, // Convert from cents
-									processor: "stripe",
-									metadata: {
-										paymentIntentId: paymentIntent.id,
-										customerId: customer.id,
-										customerEmail: customer.email,
-										paymentMethod: paymentIntent.payment_method,
-									},
-								});
-
-								logger.info("Payment intent payment recorded", {
-									paymentIntentId: paymentIntent.id,
-									userId: user.id,
-									customerEmail: customer.email,
-									amount: paymentIntent.amount,
-								});
-							} else {
-								logger.debug("Payment intent already recorded", {
-									paymentIntentId: paymentIntent.id,
-									existingPaymentId: existingPayment.id,
-								});
-							}
-						}
-					} catch (error) {
-						logger.error("Error processing payment intent succeeded", {
-							paymentIntentId: paymentIntent.id,
-							error,
-						});
-					}
-				}
-				break;
-			}
-
-			case "customer.subscription.created":
-			case "customer.subscription.updated": {
-				const subscription = event.data.object;
-				logger.debug("Processing subscription event", {
-					subscriptionId: subscription.id,
-					status: subscription.status,
-					eventType: event.type,
-				});
-
-				try {
-					const stripe = new Stripe(env.STRIPE_SECRET_KEY!, {
-						apiVersion: (env.STRIPE_API_VERSION as Stripe.LatestApiVersion) ?? "2023-10-16",
-					});
-
-					// Get customer ID - handle both string and object cases
-					const customerId =
-						typeof subscription.customer === "string"
-							? subscription.customer
-							: subscription.customer.id;
-					const customer = await stripe.customers.retrieve(customerId);
-
-					if (customer && !customer.deleted) {
-						// Find or create user by email
-						const { user } = await userService.findOrCreateUserByEmail(customer.email!, {
-							name: customer.name ?? undefined,
-						});
-
-						// For active subscriptions, ensure we have a payment record
-						if (subscription.status === "active") {
-							const existingPayment = await PaymentService.getPaymentByOrderId(subscription.id);
-
-							if (!existingPayment) {
-								// Get the subscription amount from the first item
-								const amount = subscription.items.data[0]?.price.unit_amount ?? 0;
-
-								const metadata: Record<string, any> = {
-									subscriptionId: subscription.id,
-									customerId: customer.id,
-									customerEmail: customer.email,
-									subscriptionStatus: subscription.status,
-								};
-
-								if (
-									Object.hasOwn(subscription, "current_period_start") &&
-									typeof (subscription as any).current_period_start === "number"
-								) {
-									metadata.currentPeriodStart = new Date(
-										(subscription as any).current_period_start * 1000
-									).toISOString();
-								}
-
-								if (
-									Object.hasOwn(subscription, "current_period_end") &&
-									typeof (subscription as any).current_period_end === "number"
-								) {
-									metadata.currentPeriodEnd = new Date(
-										(subscription as any).current_period_end * 1000
-									).toISOString();
-								}
-
-								await PaymentService.createPayment({
-									userId: user.id,
-									orderId: subscription.id,
-									status: "completed",
-									amount: amount / 100, // Convert from cents
-									processor: "stripe",
-									metadata,
-								});
-
-								logger.info("Subscription payment recorded", {
-									subscriptionId: subscription.id,
-									userId: user.id,
-									customerEmail: customer.email,
-									status: subscription.status,
-									eventType: event.type,
-								});
-							}
-						}
-					}
-				} catch (error) {
-					logger.error("Error processing subscription event", {
-						subscriptionId: subscription.id,
-						eventType: event.type,
-						error,
-					});
-				}
-				break;
-			}
-
-			case "invoice.payment_succeeded": {
-				const invoice = event.data.object;
-				logger.debug("Processing invoice payment succeeded", { invoiceId: invoice.id });
-
-				if (invoice.customer) {
-					try {
-						const stripe = new Stripe(env.STRIPE_SECRET_KEY!, {
-							apiVersion: (env.STRIPE_API_VERSION as Stripe.LatestApiVersion) ?? "2023-10-16",
-						});
-
-						// Get customer ID - handle both string and object cases
-						const customerId =
-							typeof invoice.customer === "string" ? invoice.customer : invoice.customer.id;
-						const customer = await stripe.customers.retrieve(customerId);
-
-						if (customer && !customer.deleted) {
-							// Find or create user by email
-							const { user } = await userService.findOrCreateUserByEmail(customer.email!, {
-								name: customer.name ?? undefined,
-							});
-
-							logger.info("Invoice payment succeeded", {
-								invoiceId: invoice.id,
-								userId: user.id,
-								customerEmail: customer.email,
-								amount: invoice.amount_paid,
-							});
-						}
-					} catch (error) {
-						logger.error("Error processing invoice payment succeeded", {
-							invoiceId: invoice.id,
-							error,
-						});
-					}
-				}
-				break;
-			}
+		// Persist the event, then process it; duplicate deliveries are skipped
+		const result = await WebhookInboxService.ingest({
+			provider: "stripe",
+			eventId: event.id,
+			eventName: event.type,
+			body,
+		});
 
-			default: {
-				logger.info("Unhandled Stripe webhook event", {
-					eventType: event.type,
-					eventId: event.id,
-				});
-			}
+		if (result.status === "failed") {
+			// Non-2xx makes Stripe redeliver; the inbox also retries with backoff
+			return new NextResponse("Webhook processing failed", { status: 500 });
 		}
 
 		logger.info("Stripe webhook processed successfully", {
 			eventType: event.type,
 			eventId: event.id,
+			result: result.status,
 			processingTime: Date.now() - startTime,
 		});
 
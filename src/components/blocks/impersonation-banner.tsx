@@ -0,0 +1,73 @@
+"use client";
+
+import { format } from "date-fns";
+import { Loader2, UserRoundX } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useEffect, useTransition } from "react";
+import { Button } from "@/components/ui/button";
+import { routes } from "@/config/routes";
+import { useToast } from "@/hooks/use-toast";
+import { stopImpersonation } from "@/server/actions/impersonation-actions";
+
+interface ImpersonationBannerProps {
+	user: { name: string | null; email: string };
+	expiresAt: string;
+}
+
+/**
+ * Shown on every page while an admin is impersonating a user
+ */
+export function ImpersonationBanner({ user, expiresAt }: ImpersonationBannerProps) {
+	const router = useRouter();
+	const { toast } = useToast();
+	const [isPending, startTransition] = useTransition();
+
+	// The server stops honoring the session once it expires; refresh to show the admin's own
+	useEffect(() => {
+		const timeout = setTimeout(
+			() => router.refresh(),
+			Math.max(new Date(expiresAt).getTime() - Date.now(), 0) + 1000
+		);
+		return () => clearTimeout(timeout);
+	}, [expiresAt, router]);
+
+	const handleStop = () => {
+		startTransition(async () => {
+			try {
+				await stopImpersonation();
+				router.push(routes.admin.users);
+				router.refresh();
+			} catch (error) {
+				toast({
+					title: "Failed to stop impersonating",
+					description: error instanceof Error ? error.message : "Unknown error",
+					variant: "destructive",
+				});
+			}
+		});
+	};
+
+	return (
+		<div className="sticky top-0 z-50 flex flex-wrap items-center justify-center gap-x-4 gap-y-2 bg-amber-500 px-4 py-2 text-sm text-amber-950">
+			<p>
+				You are viewing the app as <strong>{user.name ?? user.email}</strong>
+				{user.name && ` (${user.email})`}. Account and payment changes are disabled. Ends at{" "}
+				{format(new Date(expiresAt), "p")}.
+			</p>
+			<Button
+				size="sm"
+				variant="outline"
+				className="h-7 border-amber-950/30 bg-transparent hover:bg-amber-400"
+				onClick={handleStop}
+				disabled={isPending}
+			>
+				{isPending ? (
+					<Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" />
+				) : (
+					<UserRoundX className="mr-2 h-3.5 w-3.5" />
+				)}
+				Stop impersonating
+			</Button>
+		</div>
+	);
+}
@@ -46,6 +46,7 @@ const data = [
 			{ title: "Teams", url: routes.app.teams },
 			{ title: "Deployments", url: routes.app.deployments },
 			{ title: "API Keys", url: routes.app.apiKeys },
+			{ title: "Credits", url: routes.app.credits },
 		],
 	},
 	{
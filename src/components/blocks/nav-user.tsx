@@ -11,8 +11,8 @@ import {
 	SidebarMenuItem,
 	useSidebar,
 } from "@/components/ui/sidebar";
+import { useEntitlements } from "@/hooks/use-entitlements";
 import { useIsAdmin } from "@/hooks/use-is-admin";
-import { useSubscription } from "@/hooks/use-subscription";
 import { cn } from "@/lib/utils";
 
 interface NavUserProps {
@@ -25,7 +25,7 @@ export function NavUser({ className, showUpgrade = true }: NavUserProps) {
 	const { data: session, status } = useSession();
 	const [isOpen, setIsOpen] = useState(false);
 	const isAdmin = useIsAdmin();
-	const { hasActiveSubscription } = useSubscription();
+	const { hasPaidPlan } = useEntitlements();
 	const isLoading = status === "loading";
 	console.log("session", session?.user);
 
@@ -44,7 +44,7 @@ export function NavUser({ className, showUpgrade = true }: NavUserProps) {
 					setIsOpen={setIsOpen}
 					user={session?.user}
 					showUpgrade={showUpgrade}
-					hasActiveSubscription={hasActiveSubscription}
+					hasActiveSubscription={hasPaidPlan}
 					showOnboarding={true}
 					side={isMobile ? "bottom" : "right"}
 					align="end"
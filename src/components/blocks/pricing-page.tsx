@@ -1,126 +1,147 @@
 "use client";
 
-import { Check, X } from "lucide-react";
+import { Check, Sparkles } from "lucide-react";
 import { useState } from "react";
-import { Button } from "@/components/ui/button";
-import { Slider } from "@/components/ui/slider";
+import { Link } from "@/components/primitives/link";
+import { Badge } from "@/components/ui/badge";
+import { buttonVariants } from "@/components/ui/button";
+import { Card, CardContent, CardFooter, CardHeader } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
+import { routes } from "@/config/routes";
+import { cn } from "@/lib/utils";
+import { formatPrice } from "@/lib/utils/format-price";
+import type { PricingTier, PricingTierPrice } from "@/server/services/plan-service";
 
-const fadingBorderStyle = `
-  relative before:absolute before:inset-0 before:border before:border-gray-700 before:rounded-lg
-  before:bg-gradient-to-b before:from-gray-700 before:to-transparent before:opacity-50
-  before:pointer-events-none
-`;
+type BillingPeriod = "monthly" | "annual";
 
-export function PricingPageComponent() {
-	const [logEntries, setLogEntries] = useState(1000000);
-	const [isApplicationLogs, setIsApplicationLogs] = useState(true);
+interface PricingPageComponentProps {
+	tiers: PricingTier[];
+}
+
+const PERIOD_LABELS: Record<string, string> = {
+	day: "day",
+	week: "week",
+	month: "mo",
+	year: "yr",
+};
+
+/**
+ * Picks the price to show for the selected billing period
+ * Tiers without a price for the period fall back to their other prices, so one-time
+ * and monthly-only products stay visible when annual billing is selected.
+ */
+const selectPrice = (tier: PricingTier, period: BillingPeriod): PricingTierPrice | undefined =>
+	period === "annual"
+		? (tier.prices.annual ?? tier.prices.monthly ?? tier.prices.oneTime)
+		: (tier.prices.monthly ?? tier.prices.annual ?? tier.prices.oneTime);
+
+/**
+ * How much an annual price saves over twelve monthly payments, in whole percent
+ */
+const annualSavings = (tier: PricingTier): number => {
+	const { monthly, annual } = tier.prices;
+	if (!monthly || !annual || monthly.currency !== annual.currency || monthly.amount === 0) {
+		return 0;
+	}
+	return Math.max(0, Math.round((1 - annual.amount / (monthly.amount * 12)) * 100));
+};
 
-	const calculatePrice = (entries: number) => {
-		return Math.round(entries / 10000);
-	};
+/**
+ * Pricing page rendered from the plans synced from the payment providers
+ * Shows a monthly/annual toggle when any tier is sold at both.
+ */
+export function PricingPageComponent({ tiers }: PricingPageComponentProps) {
+	const [period, setPeriod] = useState<BillingPeriod>("monthly");
+	const hasAnnualToggle = tiers.some((tier) => tier.prices.monthly && tier.prices.annual);
+	const maxSavings = Math.max(0, ...tiers.map(annualSavings));
 
 	return (
-		<div className="min-h-screen bg-black p-8 text-white">
-			<div className="mx-auto max-w-6xl">
-				<div className="mb-8 flex justify-center space-x-4">
-					<Switch checked={isApplicationLogs} onCheckedChange={() => setIsApplicationLogs(true)} />
-					<span className={isApplicationLogs ? "font-bold" : ""}>Application Logs</span>
+		<div className="space-y-10">
+			{hasAnnualToggle && (
+				<div className="flex items-center justify-center gap-3">
+					<Label htmlFor="billing-period" className={cn(period === "monthly" && "font-semibold")}>
+						Monthly
+					</Label>
 					<Switch
-						checked={!isApplicationLogs}
-						onCheckedChange={() => setIsApplicationLogs(false)}
+						id="billing-period"
+						checked={period === "annual"}
+						onCheckedChange={(checked) => setPeriod(checked ? "annual" : "monthly")}
 					/>
-					<span className={!isApplicationLogs ? "font-bold" : ""}>Infrastructure Logs</span>
+					<Label htmlFor="billing-period" className={cn(period === "annual" && "font-semibold")}>
+						Annual
+					</Label>
+					{maxSavings > 0 && <Badge variant="secondary">Save up to {maxSavings}%</Badge>}
 				</div>
+			)}
 
-				<div className="grid grid-cols-1 gap-8 md:grid-cols-3">
-					{/* Free Tier */}
-					<div className={`flex flex-col p-6 ${fadingBorderStyle}`}>
-						<h2 className="mb-4 text-2xl font-bold">Free</h2>
-						<div className="mb-6 text-4xl font-bold">$0 / mo</div>
-						<div className="mb-6">
-							<div>Up to 50,000 log entries / mo</div>
-							<div className="text-sm text-gray-400">1,000 log entries / day</div>
-						</div>
-						<div className="flex-grow space-y-2">
-							<Feature included>Basic Log Search</Feature>
-							<Feature included>1 Team Member</Feature>
-							<Feature included>1-day Log Retention</Feature>
-							<Feature included>Email Alerts</Feature>
-							<Feature>Advanced Analytics</Feature>
-							<Feature>Custom Dashboards</Feature>
-							<Feature>24/7 Support</Feature>
-						</div>
-						<Button className="mt-6 w-full">Get started</Button>
-					</div>
+			<div
+				className={cn(
+					"mx-auto grid max-w-6xl grid-cols-1 gap-6",
+					tiers.length > 1 && "md:grid-cols-2",
+					tiers.length > 2 && "lg:grid-cols-3"
+				)}
+			>
+				{tiers.map((tier) => {
+					const price = selectPrice(tier, period);
+					if (!price) {
+						return null;
+					}
 
-					{/* Pro Tier */}
-					<div className={`flex flex-col p-6 ${fadingBorderStyle}`}>
-						<h2 className="mb-4 text-2xl font-bold">Pro</h2>
-						<div className="mb-6 text-4xl font-bold">${calculatePrice(logEntries)} / mo</div>
-						<div className="mb-6">
-							<Slider
-								min={100000}
-								max={5000000}
-								step={100000}
-								value={[logEntries]}
-								onValueChange={(value) => value[0] && setLogEntries(value[0])}
-							/>
-							<div>{logEntries.toLocaleString()} log entries / mo</div>
-							<div className="text-sm text-gray-400">No daily sending limit</div>
-						</div>
-						<div className="flex-grow space-y-2">
-							<Feature included>Advanced Log Search</Feature>
-							<Feature included>Unlimited Team Members</Feature>
-							<Feature included>30-day Log Retention</Feature>
-							<Feature included>Email & Slack Alerts</Feature>
-							<Feature included>Advanced Analytics</Feature>
-							<Feature included>Custom Dashboards</Feature>
-							<Feature>24/7 Support</Feature>
-						</div>
-						<Button className="mt-6 w-full">Get started</Button>
-					</div>
+					return (
+						<Card
+							key={`${tier.provider}:${tier.productId}`}
+							className={cn("flex flex-col", tier.highlighted && "border-primary shadow-lg")}
+						>
+							<CardHeader className="space-y-3">
+								<div className="flex items-center gap-2">
+									<h3 className="text-xl font-bold">{tier.name}</h3>
+									{tier.highlighted && <Sparkles className="h-5 w-5 text-primary" />}
+								</div>
+								{tier.description && (
+									<p className="text-sm text-muted-foreground">{tier.description}</p>
+								)}
+								<div className="flex items-baseline gap-1">
+									<span className="text-4xl font-bold">
+										{formatPrice(price.amount, price.currency)}
+									</span>
+									<span className="text-sm text-muted-foreground">
+										{price.interval
+											? `/ ${price.intervalCount && price.intervalCount > 1 ? `${price.intervalCount} ` : ""}${PERIOD_LABELS[price.interval]}`
+											: "one-time"}
+									</span>
+								</div>
+								{price.trialInterval && price.trialIntervalCount ? (
+									<p className="text-sm text-muted-foreground">
+										{price.trialIntervalCount}-{price.trialInterval} free trial
+									</p>
+								) : null}
+							</CardHeader>
 
-					{/* Enterprise Tier */}
-					<div className={`flex flex-col p-6 ${fadingBorderStyle}`}>
-						<h2 className="mb-4 text-2xl font-bold">Enterprise</h2>
-						<div className="mb-6 text-4xl font-bold">Custom</div>
-						<div className="mb-6">
-							<div>A plan based on your specific needs</div>
-							<div className="text-sm text-gray-400">No log entry limits</div>
-						</div>
-						<div className="flex-grow space-y-2">
-							<Feature included>Advanced Log Search</Feature>
-							<Feature included>Unlimited Team Members</Feature>
-							<Feature included>Customizable Log Retention</Feature>
-							<Feature included>Custom Alert Integrations</Feature>
-							<Feature included>Advanced Analytics</Feature>
-							<Feature included>Custom Dashboards</Feature>
-							<Feature included>24/7 Priority Support</Feature>
-						</div>
-						<Button className="mt-6 w-full">Contact us</Button>
-					</div>
-				</div>
-			</div>
-		</div>
-	);
-}
+							<CardContent className="flex-1 space-y-3">
+								{tier.features.map((feature) => (
+									<div key={feature} className="flex items-start gap-2">
+										<Check className="mt-0.5 h-4 w-4 shrink-0 text-primary" />
+										<span className="text-sm">{feature}</span>
+									</div>
+								))}
+							</CardContent>
 
-function Feature({
-	children,
-	included = false,
-}: {
-	children: React.ReactNode;
-	included?: boolean;
-}) {
-	return (
-		<div className="flex items-center space-x-2">
-			{included ? (
-				<Check className="h-5 w-5 text-green-500" />
-			) : (
-				<X className="h-5 w-5 text-gray-500" />
-			)}
-			<span className={included ? "" : "text-gray-500"}>{children}</span>
+							<CardFooter>
+								<Link
+									href={`${routes.checkout}?plan=${price.planId}`}
+									className={cn(
+										buttonVariants({ variant: tier.highlighted ? "default" : "outline" }),
+										"w-full"
+									)}
+								>
+									{price.amount === 0 ? "Get started" : "Buy now"}
+								</Link>
+							</CardFooter>
+						</Card>
+					);
+				})}
+			</div>
 		</div>
 	);
 }
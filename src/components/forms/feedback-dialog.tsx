@@ -1,6 +1,7 @@
 "use client";
 
 import { ExternalLink, Loader2, Mail } from "lucide-react";
+import { useSession } from "next-auth/react";
 import type React from "react";
 import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
@@ -13,6 +14,7 @@ import {
 	DialogTitle,
 	DialogTrigger,
 } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { generateFeedbackMailto } from "@/lib/utils/email-utils";
 import { submitFeedback } from "@/server/actions/feedback-actions";
@@ -27,7 +29,10 @@ export const FeedbackDialog = ({ trigger, className }: FeedbackDialogProps) => {
 	const [success, setSuccess] = useState(false);
 	const [error, setError] = useState<string | null>(null);
 	const [feedback, setFeedback] = useState("");
+	const [email, setEmail] = useState("");
 	const [open, setOpen] = useState(false);
+	// Signed-in users get replies at their account address
+	const { status: sessionStatus } = useSession();
 	const [showEmailFallback, setShowEmailFallback] = useState(false);
 
 	// Reset form when dialog closes
@@ -36,6 +41,7 @@ export const FeedbackDialog = ({ trigger, className }: FeedbackDialogProps) => {
 			// Small delay to allow animation to complete
 			const timeout = setTimeout(() => {
 				setFeedback("");
+				setEmail("");
 				setError(null);
 				setSuccess(false);
 				setShowEmailFallback(false);
@@ -57,6 +63,8 @@ export const FeedbackDialog = ({ trigger, className }: FeedbackDialogProps) => {
 			const result = await submitFeedback({
 				content: feedback.trim(),
 				source: "dialog",
+				email: email.trim() || undefined,
+				pageUrl: window.location.href,
 			});
 
 			if (result.success) {
@@ -119,6 +127,16 @@ export const FeedbackDialog = ({ trigger, className }: FeedbackDialogProps) => {
 							className="min-h-[100px]"
 							disabled={loading}
 						/>
+						{sessionStatus === "unauthenticated" && (
+							<Input
+								type="email"
+								value={email}
+								onChange={(e) => setEmail(e.target.value)}
+								placeholder="Your email, if you'd like a reply (optional)"
+								autoComplete="email"
+								disabled={loading}
+							/>
+						)}
 						{error && <p className="text-sm text-red-500">{error}</p>}
 						{success && <p className="text-sm text-green-500">Thank you for your feedback! 🚀</p>}
 						{showEmailFallback && (
@@ -35,6 +35,7 @@ export const FeedbackPopover = () => {
 			const result = await submitFeedback({
 				content,
 				source: "popover",
+				pageUrl: window.location.href,
 			});
 
 			if (result.success) {
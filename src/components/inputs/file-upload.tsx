@@ -244,7 +244,7 @@ export function FileDropzone() {
 		}
 
 		try {
-			await deleteFileAction({ fileId: file.fileId, fileName: file.uploadedName });
+			await deleteFileAction({ fileId: file.fileId });
 			toast.success(`Successfully deleted ${file.file.name}`);
 			handleDeleteFile(file);
 		} catch (error) {
@@ -0,0 +1,132 @@
+"use client";
+
+import { Pause, Play, Upload, X } from "lucide-react";
+import { useRef, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { ALLOWED_FILE_TYPES, BYTES_IN_A_MEGABYTE, MULTIPART_UPLOAD_MAX_SIZE } from "@/config/file";
+import { env } from "@/env";
+import { useResumableUpload } from "@/hooks/use-resumable-upload";
+
+function formatMegabytes(bytes: number): string {
+	return `${(bytes / BYTES_IN_A_MEGABYTE).toFixed(1)} MB`;
+}
+
+/**
+ * Uploads a large file in parts, with progress, pause and resume
+ */
+export function ResumableFileUpload({ teamId }: { teamId?: string }) {
+	const [file, setFile] = useState<File | null>(null);
+	const fileInputRef = useRef<HTMLInputElement>(null);
+	const { upload, pause, cancel, progress, status, error } = useResumableUpload({ teamId });
+
+	if (!env.NEXT_PUBLIC_FEATURE_FILE_UPLOAD_ENABLED) {
+		return (
+			<div className="h-auto w-full p-8 text-center text-neutral-500">
+				File uploads are currently disabled.
+			</div>
+		);
+	}
+
+	const start = async (selected: File) => {
+		if (!ALLOWED_FILE_TYPES.includes(selected.type)) {
+			toast.error(`${selected.name} is not an allowed file type.`);
+			return;
+		}
+		if (selected.size > MULTIPART_UPLOAD_MAX_SIZE) {
+			toast.error(`${selected.name} exceeds the size limit.`);
+			return;
+		}
+
+		setFile(selected);
+		const result = await upload(selected);
+		if (result) {
+			toast.success(`${selected.name} uploaded`);
+		}
+	};
+
+	const isUploading = status === "uploading";
+
+	return (
+		<div className="h-auto w-full max-w-xl space-y-4 p-8">
+			<input
+				ref={fileInputRef}
+				type="file"
+				accept={ALLOWED_FILE_TYPES.join(",")}
+				className="hidden"
+				onChange={(event) => {
+					const selected = event.target.files?.[0];
+					event.target.value = "";
+					if (selected) {
+						void start(selected);
+					}
+				}}
+			/>
+			<Button
+				variant="outline"
+				className="w-full"
+				disabled={isUploading}
+				onClick={() => fileInputRef.current?.click()}
+			>
+				<Upload className="mr-2 size-4" />
+				Upload a large file (up to {formatMegabytes(MULTIPART_UPLOAD_MAX_SIZE)})
+			</Button>
+
+			{file && progress && (
+				<div className="space-y-2 rounded-lg bg-neutral-400/10 p-3">
+					<div className="flex items-center justify-between gap-2 text-xs">
+						<span className="truncate text-neutral-600 dark:text-neutral-400">{file.name}</span>
+						<span className="shrink-0 text-neutral-500">
+							{formatMegabytes(progress.uploadedBytes)} / {formatMegabytes(progress.size)}
+						</span>
+					</div>
+					<Progress value={progress.percent} />
+					<div className="flex items-center justify-between gap-2">
+						<span className="text-xs text-neutral-500">
+							{status === "completed"
+								? "Completed"
+								: status === "error"
+									? error
+									: isUploading
+										? `Uploading part ${progress.uploadedParts.length + 1} of ${progress.partCount}`
+										: `Paused at ${progress.percent}%`}
+						</span>
+						{status !== "completed" && (
+							<div className="flex items-center gap-1">
+								{isUploading ? (
+									<Button size="sm" variant="ghost" className="h-7 px-2" onClick={pause}>
+										<Pause className="size-4" />
+										<span className="sr-only">Pause</span>
+									</Button>
+								) : (
+									<Button
+										size="sm"
+										variant="ghost"
+										className="h-7 px-2"
+										onClick={() => void start(file)}
+									>
+										<Play className="size-4" />
+										<span className="sr-only">Resume</span>
+									</Button>
+								)}
+								<Button
+									size="sm"
+									variant="ghost"
+									className="h-7 px-2"
+									onClick={async () => {
+										await cancel();
+										setFile(null);
+									}}
+								>
+									<X className="size-4" />
+									<span className="sr-only">Cancel</span>
+								</Button>
+							</div>
+						)}
+					</div>
+				</div>
+			)}
+		</div>
+	);
+}
@@ -2,6 +2,7 @@ import { ViewTransitions } from "next-view-transitions";
 import { NuqsAdapter } from "nuqs/adapters/next/app";
 import type { ReactNode } from "react";
 import { PageTracker } from "react-page-tracker";
+import { ImpersonationBanner } from "@/components/blocks/impersonation-banner";
 import { KitProvider } from "@/components/providers/kit-provider";
 import { TeamProvider } from "@/components/providers/team-provider";
 import { ThemeProvider } from "@/components/ui/shipkit/theme";
@@ -57,6 +58,12 @@ export async function AppRouterLayout({
 			<ThemeProviderWrapper>
 				{/* KitProvider - Manage all core providers */}
 				<KitProvider>
+					{session?.impersonation && (
+						<ImpersonationBanner
+							user={{ name: session.user.name, email: session.user.email }}
+							expiresAt={session.impersonation.expiresAt}
+						/>
+					)}
 					<NuqsAdapter>
 						<TeamProvider initialTeams={userTeams}>{children}</TeamProvider>
 					</NuqsAdapter>
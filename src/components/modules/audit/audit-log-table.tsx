@@ -0,0 +1,118 @@
+"use client";
+
+import type { ColumnDef } from "@tanstack/react-table";
+import { format } from "date-fns";
+import { ArrowUpDown } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { DataTable } from "@/components/ui/data-table/data-table";
+import type { AuditLog } from "@/server/db/schema";
+import type { AuditChanges } from "@/server/services/audit-service";
+
+const formatValue = (value: unknown) =>
+	value === null || value === undefined
+		? "—"
+		: typeof value === "string"
+			? value
+			: JSON.stringify(value);
+
+function parseChanges(value: string | null): AuditChanges {
+	try {
+		return value ? (JSON.parse(value) as AuditChanges) : {};
+	} catch {
+		return {};
+	}
+}
+
+export const auditLogColumns: ColumnDef<AuditLog>[] = [
+	{
+		accessorKey: "createdAt",
+		header: ({ column }) => (
+			<Button variant="ghost" onClick={() => column.toggleSorting(column.getIsSorted() === "asc")}>
+				Time
+				<ArrowUpDown className="ml-2 h-4 w-4" />
+			</Button>
+		),
+		cell: ({ row }) => format(new Date(row.original.createdAt), "MMM d, yyyy HH:mm:ss"),
+	},
+	{
+		accessorKey: "actorEmail",
+		header: "Actor",
+		cell: ({ row }) => (
+			<div>
+				<div className="font-medium">
+					{row.original.actorEmail ?? (row.original.actorId ? "Unknown user" : "System")}
+				</div>
+				{row.original.actorId && (
+					<div className="max-w-[200px] truncate font-mono text-xs text-muted-foreground">
+						{row.original.actorId}
+					</div>
+				)}
+			</div>
+		),
+	},
+	{
+		accessorKey: "action",
+		header: "Action",
+		cell: ({ row }) => <Badge variant="outline">{row.original.action}</Badge>,
+	},
+	{
+		accessorKey: "targetType",
+		header: "Target",
+		cell: ({ row }) => (
+			<div>
+				<div>{row.original.targetType}</div>
+				{row.original.targetId && (
+					<div className="max-w-[200px] truncate font-mono text-xs text-muted-foreground">
+						{row.original.targetId}
+					</div>
+				)}
+			</div>
+		),
+	},
+	{
+		accessorKey: "changes",
+		header: "Changes",
+		cell: ({ row }) => {
+			const changes = Object.entries(parseChanges(row.original.changes));
+			if (changes.length === 0) {
+				return <span className="text-muted-foreground">—</span>;
+			}
+			return (
+				<ul className="max-w-[320px] space-y-1 text-xs">
+					{changes.map(([field, change]) => (
+						<li key={field} className="truncate" title={JSON.stringify(change)}>
+							<span className="font-medium">{field}:</span> {formatValue(change.before)} →{" "}
+							{formatValue(change.after)}
+						</li>
+					))}
+				</ul>
+			);
+		},
+	},
+	{
+		accessorKey: "ipAddress",
+		header: "IP Address",
+		cell: ({ row }) => (
+			<div
+				className="max-w-[160px] truncate text-xs text-muted-foreground"
+				title={row.original.userAgent ?? ""}
+			>
+				{row.original.ipAddress ?? "—"}
+			</div>
+		),
+	},
+];
+
+interface AuditLogTableProps {
+	entries: AuditLog[];
+}
+
+/**
+ * Table of audit log entries, shared by the admin and team audit views
+ */
+export function AuditLogTable({ entries }: AuditLogTableProps) {
+	return (
+		<DataTable columns={auditLogColumns} data={entries} searchPlaceholder="Search audit log..." />
+	);
+}
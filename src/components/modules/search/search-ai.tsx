@@ -66,12 +66,24 @@ const SEARCH_SUGGESTIONS = [
 	},
 ];
 
+/** A numbered docs excerpt the AI answer cites, e.g. [1] */
 interface SearchResult {
+	id: number;
 	title: string;
-	content: string;
+	section?: string;
 	url: string;
+	snippet: string;
 }
 
+/**
+ * Turns the answer's [n] citations into links to the cited docs
+ */
+const linkCitations = (text: string, citations: SearchResult[]) =>
+	text.replace(/\[(\d+)\](?!\()/g, (match, id: string) => {
+		const citation = citations.find((item) => item.id === Number(id));
+		return citation ? `[[${id}]](${citation.url})` : match;
+	});
+
 export const SearchAi = ({ ...props }: ButtonProps) => {
 	const [open, setOpen] = React.useState(false);
 	const [query, setQuery] = React.useState<string>("");
@@ -99,7 +111,8 @@ export const SearchAi = ({ ...props }: ButtonProps) => {
 		setAnswer("");
 		setSearchResults([]);
 
-		// Start both requests in parallel for better performance
+		// Start both requests in parallel for better performance. The same query and limit
+		// give the same citations, so the answer's [n] references match the listed docs.
 		const searchResultsPromise = fetch(routes.api.docsSearch, {
 			method: "POST",
 			headers: {
@@ -109,6 +122,7 @@ export const SearchAi = ({ ...props }: ButtonProps) => {
 			body: JSON.stringify({
 				query: query.trim(),
 				limit: 5,
+				mode: "citations",
 			}),
 		});
 
@@ -118,8 +132,10 @@ export const SearchAi = ({ ...props }: ButtonProps) => {
 				"Content-Type": "application/json",
 			},
 			body: JSON.stringify({
-				query: `${selectedSuggestion ? `[${selectedSuggestion}] ` : ""}${query.trim()}`,
+				query: query.trim(),
 				limit: 5,
+				mode: "answer",
+				focus: selectedSuggestion ?? undefined,
 			}),
 		});
 
@@ -127,8 +143,8 @@ export const SearchAi = ({ ...props }: ButtonProps) => {
 		try {
 			const searchResponse = await searchResultsPromise;
 			if (searchResponse.ok) {
-				const { results } = await searchResponse.json();
-				setSearchResults(results);
+				const { citations } = await searchResponse.json();
+				setSearchResults(citations);
 			} else {
 				console.warn("Failed to fetch search results, but continuing with AI response");
 			}
@@ -236,7 +252,7 @@ export const SearchAi = ({ ...props }: ButtonProps) => {
 		if (results.length === 0) return "";
 		const firstResult = results[0];
 		if (!firstResult) return "";
-		return `${firstResult.title} - ${firstResult.content.slice(0, 100)}${firstResult.content.length > 100 ? "..." : ""}`;
+		return `${firstResult.title} - ${firstResult.snippet.slice(0, 100)}${firstResult.snippet.length > 100 ? "..." : ""}`;
 	};
 
 	return (
@@ -431,10 +447,13 @@ export const SearchAi = ({ ...props }: ButtonProps) => {
 																	onClick={handleModalToggle}
 																>
 																	<h5 className="font-medium text-slate-900 dark:text-slate-100">
-																		{result.title}
+																		<span className="mr-1.5 text-blue-600">[{result.id}]</span>
+																		{result.section
+																			? `${result.title} › ${result.section}`
+																			: result.title}
 																	</h5>
 																	<p className="line-clamp-2 text-sm text-slate-500 dark:text-slate-400">
-																		{result.content}
+																		{result.snippet}
 																	</p>
 																</a>
 															</li>
@@ -493,7 +512,7 @@ export const SearchAi = ({ ...props }: ButtonProps) => {
 											) : answer ? (
 												<ScrollArea className={"max-h-[300px]"}>
 													<div className="prose max-w-none text-sm dark:prose-invert">
-														<ReactMarkdown>{answer}</ReactMarkdown>
+														<ReactMarkdown>{linkCitations(answer, searchResults)}</ReactMarkdown>
 													</div>
 												</ScrollArea>
 											) : hasSearched ? (
@@ -554,10 +573,13 @@ export const SearchAi = ({ ...props }: ButtonProps) => {
 																		onClick={handleModalToggle}
 																	>
 																		<h5 className="font-medium text-slate-900 dark:text-slate-100">
-																			{result.title}
+																			<span className="mr-1.5 text-blue-600">[{result.id}]</span>
+																			{result.section
+																				? `${result.title} › ${result.section}`
+																				: result.title}
 																		</h5>
 																		<p className="line-clamp-2 text-sm text-slate-500 dark:text-slate-400">
-																			{result.content}
+																			{result.snippet}
 																		</p>
 																	</a>
 																</li>
@@ -612,7 +634,7 @@ export const SearchAi = ({ ...props }: ButtonProps) => {
 												) : answer ? (
 													<ScrollArea className={`max-h-[${MAX_SECTION_HEIGHT}px]`}>
 														<div className="prose max-w-none text-sm dark:prose-invert">
-															<ReactMarkdown>{answer}</ReactMarkdown>
+															<ReactMarkdown>{linkCitations(answer, searchResults)}</ReactMarkdown>
 														</div>
 													</ScrollArea>
 												) : hasSearched ? (
@@ -15,8 +15,8 @@ import { ToastAction } from "@/components/ui/toast";
 import { ShortcutAction, type ShortcutActionType } from "@/config/keyboard-shortcuts";
 import { routes } from "@/config/routes";
 import { useSignInRedirectUrl } from "@/hooks/use-auth-redirect";
+import { useEntitlements } from "@/hooks/use-entitlements";
 import { useIsAdmin } from "@/hooks/use-is-admin";
-import { useSubscription } from "@/hooks/use-subscription";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
 import { updateTheme } from "@/server/actions/settings";
@@ -40,7 +40,7 @@ export const UserMenu = ({
 	const signInRedirectUrl = useSignInRedirectUrl();
 	const { toast } = useToast();
 	const [isOpen, setIsOpen] = React.useState(false);
-	const { hasActiveSubscription } = useSubscription();
+	const { hasPaidPlan } = useEntitlements();
 	const router = useRouter();
 	const isAdmin = useIsAdmin();
 
@@ -222,7 +222,7 @@ export const UserMenu = ({
 					user={currentUser}
 					isAdmin={isAdmin}
 					showUpgrade={showUpgrade}
-					hasActiveSubscription={hasActiveSubscription}
+					hasActiveSubscription={hasPaidPlan}
 					theme={theme}
 					handleThemeChange={handleThemeChange}
 				>
@@ -0,0 +1,98 @@
+/**
+ * AI chat models
+ *
+ * Chat completions are served by one of three providers:
+ * - `openai`: OpenAI (OPENAI_API_KEY)
+ * - `anthropic`: Anthropic (ANTHROPIC_API_KEY)
+ * - `local`: any OpenAI-compatible server, e.g. Ollama or LM Studio (AI_LOCAL_BASE_URL)
+ *
+ * Models whose provider is not configured are hidden. Each completion is charged in credits
+ * from its token usage; set both rates to 0 to make a model free.
+ *
+ * @note Uses raw process.env so the model list can be imported on the client
+ */
+
+export const AI_PROVIDERS = ["openai", "anthropic", "local"] as const;
+export type AIProviderId = (typeof AI_PROVIDERS)[number];
+
+export interface AIModel {
+	id: string;
+	provider: AIProviderId;
+	name: string;
+	/** Upper bound on the tokens generated per reply */
+	maxOutputTokens: number;
+	/** Credits charged per 1,000 tokens; the total is rounded up */
+	credits: { input: number; output: number };
+}
+
+export const aiModels: AIModel[] = [
+	{
+		id: "gpt-4o-mini",
+		provider: "openai",
+		name: "GPT-4o mini",
+		maxOutputTokens: 4096,
+		credits: { input: 0.1, output: 0.4 },
+	},
+	{
+		id: "gpt-4o",
+		provider: "openai",
+		name: "GPT-4o",
+		maxOutputTokens: 4096,
+		credits: { input: 1, output: 4 },
+	},
+	{
+		id: "claude-haiku-4-5",
+		provider: "anthropic",
+		name: "Claude Haiku 4.5",
+		maxOutputTokens: 4096,
+		credits: { input: 0.3, output: 1.5 },
+	},
+	{
+		id: "claude-sonnet-4-5",
+		provider: "anthropic",
+		name: "Claude Sonnet 4.5",
+		maxOutputTokens: 4096,
+		credits: { input: 1, output: 5 },
+	},
+	{
+		id: process.env.AI_LOCAL_MODEL?.trim() || "llama3.2",
+		provider: "local",
+		name: "Local model",
+		maxOutputTokens: 2048,
+		credits: { input: 0, output: 0 },
+	},
+];
+
+/** Used when a request does not pick a model, if its provider is configured */
+export const DEFAULT_AI_MODEL = "gpt-4o-mini";
+
+/** Sent before the conversation with every request */
+export const AI_SYSTEM_PROMPT = "You are a helpful assistant.";
+
+/** Only the latest messages of long conversations are sent to the model */
+export const AI_HISTORY_MESSAGE_LIMIT = 50;
+
+/** Conversation titles are the start of the first message */
+export const AI_CONVERSATION_TITLE_LENGTH = 80;
+
+/**
+ * Finds a model by ID
+ */
+export function findAIModel(id: string): AIModel | undefined {
+	return aiModels.find((model) => model.id === id);
+}
+
+/**
+ * Credits charged for a completion
+ * @param model - The model that generated the completion
+ * @param usage - The prompt and completion token counts
+ */
+export function calculateAICredits(
+	model: Pick<AIModel, "credits">,
+	usage: { inputTokens: number; outputTokens: number }
+): number {
+	const cost =
+		(usage.inputTokens * model.credits.input + usage.outputTokens * model.credits.output) / 1000;
+	// Round away floating point noise, so 10,000 tokens at 0.1 cost exactly 1 credit
+	return Math.ceil(Number(cost.toFixed(6)));
+}
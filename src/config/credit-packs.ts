@@ -0,0 +1,69 @@
+/**
+ * Credit packs
+ *
+ * One-time purchases that grant credits. Create a one-time product for each pack in your
+ * payment provider and add its ID below: the Stripe price ID, the Lemon Squeezy variant ID or
+ * the Polar product ID. Packs without a product ID for any enabled provider are hidden.
+ *
+ * When the order is paid, the webhook grants `credits` to the buyer. Credits from a pack with
+ * `expiresInDays` expire that many days after purchase.
+ */
+
+export const CREDIT_PACK_PROVIDERS = ["stripe", "lemonsqueezy", "polar"] as const;
+export type CreditPackProvider = (typeof CREDIT_PACK_PROVIDERS)[number];
+
+export interface CreditPack {
+	id: string;
+	name: string;
+	description: string;
+	credits: number;
+	/** Display price in cents; the provider's product price is what gets charged */
+	price: number;
+	expiresInDays?: number;
+	products: Partial<Record<CreditPackProvider, string>>;
+}
+
+export const creditPacks: CreditPack[] = [
+	{
+		id: "starter",
+		name: "Starter",
+		description: "For trying things out",
+		credits: 100,
+		price: 500,
+		expiresInDays: 365,
+		products: {},
+	},
+	{
+		id: "pro",
+		name: "Pro",
+		description: "For regular use",
+		credits: 500,
+		price: 2000,
+		expiresInDays: 365,
+		products: {},
+	},
+	{
+		id: "scale",
+		name: "Scale",
+		description: "For teams and heavy workloads",
+		credits: 2500,
+		price: 8000,
+		products: {},
+	},
+];
+
+/**
+ * Finds the credit pack sold as a provider product
+ * @param provider - The payment provider ID
+ * @param productIds - The product, price or variant IDs of the order
+ */
+export function findCreditPackByProduct(
+	provider: string,
+	productIds: (string | number | null | undefined)[]
+): CreditPack | undefined {
+	const ids = new Set(productIds.filter((id) => id != null).map(String));
+	return creditPacks.find((pack) => {
+		const productId = pack.products[provider as CreditPackProvider];
+		return !!productId && ids.has(productId);
+	});
+}
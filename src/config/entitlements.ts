@@ -0,0 +1,127 @@
+/**
+ * Plan entitlements
+ *
+ * Maps each plan to the features it unlocks and its numeric limits. A user's plan comes from
+ * their active subscription, matched on the provider product or price/variant ID listed in
+ * `products` (the Stripe product or price ID, the Lemon Squeezy product or variant ID, or the
+ * Polar product ID). A team has the best plan among its owners.
+ *
+ * Products no plan lists are matched on the name of the plan they were synced as (see
+ * `PlanService.syncPlans`): a product named "Shipkit Team" gets the Team plan. Paid one-time
+ * orders are matched on their product name the same way.
+ *
+ * Users with a paid one-time order, or a subscription that matches no plan, get
+ * `DEFAULT_PAID_PLAN_ID`. Everyone else gets `FREE_PLAN_ID`.
+ *
+ * Plans are listed from lowest to highest; a team with several owners gets the highest one.
+ */
+
+import { BYTES_IN_A_MEGABYTE } from "./file";
+
+export const ENTITLEMENT_FEATURES = ["deployments", "audit_log"] as const;
+export type EntitlementFeature = (typeof ENTITLEMENT_FEATURES)[number];
+
+export const ENTITLEMENT_LIMITS = [
+	"projectsPerTeam",
+	"seats",
+	"deploymentsPerMonth",
+	"storageBytes",
+] as const;
+export type EntitlementLimit = (typeof ENTITLEMENT_LIMITS)[number];
+
+export const ENTITLEMENT_PROVIDERS = ["stripe", "lemonsqueezy", "polar"] as const;
+export type EntitlementProvider = (typeof ENTITLEMENT_PROVIDERS)[number];
+
+export interface EntitlementPlan {
+	id: string;
+	name: string;
+	features: EntitlementFeature[];
+	/** null means unlimited */
+	limits: Record<EntitlementLimit, number | null>;
+	products: Partial<Record<EntitlementProvider, string[]>>;
+}
+
+export const FREE_PLAN_ID = "free";
+export const DEFAULT_PAID_PLAN_ID = "pro";
+
+export const entitlementPlans: EntitlementPlan[] = [
+	{
+		id: FREE_PLAN_ID,
+		name: "Free",
+		features: ["deployments"],
+		limits: {
+			projectsPerTeam: 3,
+			seats: 3,
+			deploymentsPerMonth: 3,
+			storageBytes: 1024 * BYTES_IN_A_MEGABYTE, // 1 GB
+		},
+		products: {},
+	},
+	{
+		id: "pro",
+		name: "Pro",
+		features: ["deployments"],
+		limits: {
+			projectsPerTeam: 20,
+			seats: 5,
+			deploymentsPerMonth: 50,
+			storageBytes: 10 * 1024 * BYTES_IN_A_MEGABYTE, // 10 GB
+		},
+		products: {},
+	},
+	{
+		id: "team",
+		name: "Team",
+		features: ["deployments", "audit_log"],
+		limits: {
+			projectsPerTeam: null,
+			seats: 25,
+			deploymentsPerMonth: 500,
+			storageBytes: 100 * 1024 * BYTES_IN_A_MEGABYTE, // 100 GB
+		},
+		products: {},
+	},
+];
+
+export function getEntitlementPlan(planId: string): EntitlementPlan {
+	return (
+		entitlementPlans.find((plan) => plan.id === planId) ??
+		(entitlementPlans.find((plan) => plan.id === FREE_PLAN_ID) as EntitlementPlan)
+	);
+}
+
+/**
+ * Finds the plan a provider product is sold as
+ * @param provider - The payment provider ID
+ * @param productIds - The product and price/variant IDs of the subscription
+ */
+export function findEntitlementPlanByProduct(
+	provider: string,
+	productIds: (string | number | null | undefined)[]
+): EntitlementPlan | undefined {
+	const ids = new Set(productIds.filter((id) => id != null).map(String));
+	return entitlementPlans.find((plan) =>
+		(plan.products[provider as EntitlementProvider] ?? []).some((id) => ids.has(id))
+	);
+}
+
+/**
+ * Finds the plan a product is sold as from its name, for products no plan lists
+ * A plan matches when its name appears as a word in one of the names; the highest plan wins.
+ * @param names - The synced product and plan names, or the product name of an order
+ */
+export function findEntitlementPlanByName(
+	names: (string | null | undefined)[]
+): EntitlementPlan | undefined {
+	const words = new Set(
+		names.flatMap((name) => (name ?? "").toLowerCase().split(/[^a-z0-9]+/)).filter(Boolean)
+	);
+	return [...entitlementPlans].reverse().find((plan) => words.has(plan.name.toLowerCase()));
+}
+
+/**
+ * Ranks plans by their position in `entitlementPlans`, lowest first
+ */
+export function getEntitlementPlanRank(planId: string): number {
+	return entitlementPlans.findIndex((plan) => plan.id === planId);
+}
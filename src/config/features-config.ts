@@ -7,6 +7,8 @@
  * @note This runs BEFORE T3 Env validation, so we use raw process.env
  */
 
+import { resolveStorageDriverId } from "./storage";
+
 // ======== Utility Functions =========
 
 /**
@@ -203,6 +205,7 @@ buildTimeFeatures.GOOGLE_SERVICE_ACCOUNT_ENABLED =
 buildTimeFeatures.OPENAI_ENABLED = hasEnv("OPENAI_API_KEY") && !envIsTrue("DISABLE_OPENAI");
 buildTimeFeatures.ANTHROPIC_ENABLED =
 	hasEnv("ANTHROPIC_API_KEY") && !envIsTrue("DISABLE_ANTHROPIC");
+buildTimeFeatures.LOCAL_AI_ENABLED = hasEnv("AI_LOCAL_BASE_URL") && !envIsTrue("DISABLE_LOCAL_AI");
 
 // Payment Providers
 buildTimeFeatures.LEMONSQUEEZY_ENABLED =
@@ -217,6 +220,11 @@ buildTimeFeatures.S3_ENABLED =
 	!envIsTrue("DISABLE_S3");
 buildTimeFeatures.VERCEL_BLOB_ENABLED =
 	hasEnv("VERCEL_BLOB_READ_WRITE_TOKEN") && !envIsTrue("DISABLE_VERCEL_BLOB");
+buildTimeFeatures.LOCAL_STORAGE_ENABLED =
+	resolveStorageDriverId({
+		s3Enabled: buildTimeFeatures.S3_ENABLED,
+		vercelBlobEnabled: buildTimeFeatures.VERCEL_BLOB_ENABLED,
+	}) === "local";
 
 // Infrastructure
 buildTimeFeatures.REDIS_ENABLED =
@@ -255,7 +263,9 @@ buildTimeFeatures.TURNSTILE_ENABLED =
 
 // Composite Features
 buildTimeFeatures.FILE_UPLOAD_ENABLED =
-	buildTimeFeatures.S3_ENABLED || buildTimeFeatures.VERCEL_BLOB_ENABLED;
+	buildTimeFeatures.S3_ENABLED ||
+	buildTimeFeatures.VERCEL_BLOB_ENABLED ||
+	buildTimeFeatures.LOCAL_STORAGE_ENABLED;
 
 // ======== Generate Feature Flags =========
 
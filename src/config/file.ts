@@ -38,3 +38,14 @@ const FILE_TYPES_DOCUMENTS = [
 ];
 
 export const ALLOWED_FILE_TYPES = [...FILE_TYPES_IMAGES, ...FILE_TYPES_DOCUMENTS];
+
+/**
+ * Resumable uploads
+ * Large files are sent in parts through /api/uploads. Parts pass through the app server, so
+ * keep the part size under your host's request body limit; S3 and Vercel Blob require parts
+ * of at least 5 MB, except the last one.
+ */
+export const UPLOAD_CHUNK_SIZE = 5 * BYTES_IN_A_MEGABYTE;
+export const MULTIPART_UPLOAD_MAX_SIZE = 500 * BYTES_IN_A_MEGABYTE;
+/** Unfinished multipart uploads are aborted after this long */
+export const MULTIPART_UPLOAD_EXPIRES_IN_HOURS = 24;
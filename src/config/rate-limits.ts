@@ -31,6 +31,13 @@ export const rateLimits = {
 			duration: 60, // 1 minute
 		},
 	},
+	ai: {
+		// Allow 20 chat messages per minute per user
+		chat: {
+			requests: 20,
+			duration: 60,
+		},
+	},
 	importPayments: {
 		requests: 5,
 		duration: 60 * 30,
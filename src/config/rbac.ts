@@ -0,0 +1,116 @@
+/**
+ * Role-based access control defaults
+ *
+ * Roles are bound to a scope:
+ * - `global`: the user's `role` column (every user is a "user" unless promoted). The base "user"
+ *   role only applies outside teams and projects; promoted roles apply everywhere
+ * - `team`: the `role` of the user's `team_member` row
+ * - `project`: the `role` of the user's `project_member` row; project checks also include the
+ *   user's role in the project's team
+ *
+ * These mappings apply until a role is saved on the admin Roles page, after which the
+ * database copy wins. The `manage` action grants every action on its resource.
+ */
+
+export const RBAC_SCOPES = ["global", "team", "project"] as const;
+export type RbacScope = (typeof RBAC_SCOPES)[number];
+
+export const RBAC_RESOURCES = [
+	"team",
+	"project",
+	"user",
+	"api_key",
+	"deployment",
+	"billing",
+	"settings",
+] as const;
+export type RbacResource = (typeof RBAC_RESOURCES)[number];
+
+export const RBAC_ACTIONS = ["create", "read", "update", "delete", "manage"] as const;
+export type RbacAction = (typeof RBAC_ACTIONS)[number];
+
+/** A permission key in `resource:action` form */
+export type RbacPermissionKey = `${RbacResource}:${RbacAction}`;
+
+export interface RbacRoleDefinition {
+	name: string;
+	scope: RbacScope;
+	description: string;
+	permissions: RbacPermissionKey[];
+}
+
+const crud = (resource: RbacResource): RbacPermissionKey[] => [
+	`${resource}:create`,
+	`${resource}:read`,
+	`${resource}:update`,
+	`${resource}:delete`,
+];
+
+const read = (resource: RbacResource): RbacPermissionKey => `${resource}:read`;
+
+/** Roles a team or project member can hold, from most to least privileged */
+export const MEMBER_ROLES = ["owner", "admin", "member", "viewer"] as const;
+export type MemberRole = (typeof MEMBER_ROLES)[number];
+
+export function isMemberRole(value: string): value is MemberRole {
+	return (MEMBER_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Checks whether a member role is more privileged than another
+ */
+export function isMemberRoleAbove(role: MemberRole, other: MemberRole): boolean {
+	return MEMBER_ROLES.indexOf(role) < MEMBER_ROLES.indexOf(other);
+}
+
+/** Roles a team or project member can hold, shared by both scopes */
+const memberRoles = (scope: "team" | "project"): (RbacRoleDefinition & { name: MemberRole })[] => [
+	{
+		name: "owner",
+		scope,
+		description: "Full access to all resources",
+		permissions: RBAC_RESOURCES.map((resource) => `${resource}:manage` as const),
+	},
+	{
+		name: "admin",
+		scope,
+		description: "Administrative access with some restrictions",
+		permissions: RBAC_RESOURCES.flatMap(crud).filter((key) => key !== `${scope}:delete`),
+	},
+	{
+		name: "member",
+		scope,
+		description: "Standard member access",
+		permissions: [
+			read("team"),
+			read("project"),
+			"project:update",
+			read("user"),
+			read("deployment"),
+			read("settings"),
+		],
+	},
+	{
+		name: "viewer",
+		scope,
+		description: "Read-only access",
+		permissions: RBAC_RESOURCES.map(read),
+	},
+];
+
+export const DEFAULT_RBAC_ROLES: RbacRoleDefinition[] = [
+	{
+		name: "user",
+		scope: "global",
+		description: "Every signed-in user",
+		permissions: ["team:create", "api_key:manage", "deployment:manage", "settings:manage"],
+	},
+	{
+		name: "admin",
+		scope: "global",
+		description: "Site administrators",
+		permissions: RBAC_RESOURCES.map((resource) => `${resource}:manage` as const),
+	},
+	...memberRoles("team"),
+	...memberRoles("project"),
+];
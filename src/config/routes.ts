@@ -37,11 +37,13 @@ export const routes = {
 	features: "/features",
 	pricing: "/pricing",
 	launch: "/launch",
+	waitlist: "/waitlist",
 
 	// App routes
 	download: "/download",
 	tasks: "/tasks",
 
+	checkout: "/checkout",
 	checkoutSuccess: "/checkout/success",
 
 	// CMS routes
@@ -58,6 +60,7 @@ export const routes = {
 		signOut: "/sign-out",
 		forgotPassword: "/forgot-password",
 		resetPassword: "/reset-password",
+		invite: "/invite",
 		signInPage: "/api/auth/signin",
 		signOutPage: "/api/auth/signout",
 		error: "/error",
@@ -76,6 +79,8 @@ export const routes = {
 		activity: "/activity",
 		projects: "/projects",
 		teams: "/teams",
+		teamAudit: "/teams/audit",
+		credits: "/credits",
 	},
 
 	// Admin routes
@@ -86,6 +91,12 @@ export const routes = {
 		integrations: "/admin/integrations",
 		feedback: "/admin/feedback",
 		payments: "/admin/payments",
+		webhooks: "/admin/webhooks",
+		roles: "/admin/roles",
+		auditLog: "/admin/audit-log",
+		flags: "/admin/flags",
+		emails: "/admin/emails",
+		waitlist: "/admin/waitlist",
 	},
 
 	settings: {
@@ -93,6 +104,7 @@ export const routes = {
 		account: "/settings/account",
 		profile: "/settings/profile",
 		appearance: "/settings/appearance",
+		billing: "/settings/billing",
 		security: "/settings/security",
 	},
 
@@ -106,7 +118,13 @@ export const routes = {
 		sendTestLog: "/api/send-test-log",
 		activityStream: "/api/activity/stream",
 		logger: "/v1",
+		aiChat: "/api/ai/chat",
 		docsSearch: "/api/docs/search",
+		storage: "/api/storage",
+		uploads: "/api/uploads",
+		openApi: "/api/v1/openapi",
+		waitlistPosition: "/api/waitlist/position",
+		deploymentsStream: "/api/deployments/stream",
 	},
 
 	// Integration routes
@@ -263,4 +281,3 @@ export const routes = {
 			"https://vercel.com/new/clone?repository-url=https://github.com/shipkit-io/bones&env=ADMIN_EMAIL&envDescription=Set%20administrator%20access%20for%20your%20deployment&envLink=https%3A%2F%2Fshipkit.io%2Fdocs%2Fenv&project-name=bones-app&repository-name=bones-app&redirect-url=https://shipkit.io/connect/vercel/deploy&developer-id=oac_KkY2TcPxIWTDtL46WGqwZ4BF&production-deploy-hook=Shipkit%20Deploy&demo-title=Shipkit%20Preview&demo-description=The%20official%20Shipkit%20Preview.%20A%20full%20featured%20demo%20with%20dashboards,%20AI%20tools,%20and%20integrations%20with%20Docs,%20Payload,%20and%20Builder.io&demo-url=https://shipkit.io/demo&demo-image=//assets.vercel.com/image/upload/contentful/image/e5382hct74si/4JmubmYDJnFtstwHbaZPev/0c3576832aae5b1a4d98c8c9f98863c3/Vercel_Home_OG.png",
 	},
 };
-
@@ -0,0 +1,44 @@
+/**
+ * File storage
+ *
+ * Uploads and Payload media are stored by a single driver, chosen by `STORAGE_DRIVER`:
+ * - `s3`: an S3 bucket (AWS_* variables)
+ * - `vercel-blob`: Vercel Blob (VERCEL_BLOB_READ_WRITE_TOKEN)
+ * - `local`: a directory on disk, for development and self-hosting
+ *
+ * Without `STORAGE_DRIVER`, S3 is used when configured, then Vercel Blob, and outside
+ * production the local disk, so uploads work offline with no credentials.
+ *
+ * @note Uses raw process.env so it can be read from payload.config.ts and features-config.ts
+ */
+
+export const STORAGE_DRIVERS = ["s3", "vercel-blob", "local"] as const;
+export type StorageDriverId = (typeof STORAGE_DRIVERS)[number];
+
+/** Directory the local driver writes to, relative to the working directory */
+export const LOCAL_STORAGE_DIR = process.env.STORAGE_LOCAL_DIR?.trim() || ".storage";
+
+/**
+ * Picks the storage driver for the current environment
+ * @returns The driver ID, or null if no storage is available
+ */
+export function resolveStorageDriverId({
+	driver = process.env.STORAGE_DRIVER,
+	s3Enabled,
+	vercelBlobEnabled,
+	production = process.env.NODE_ENV === "production",
+}: {
+	driver?: string;
+	s3Enabled: boolean;
+	vercelBlobEnabled: boolean;
+	production?: boolean;
+}): StorageDriverId | null {
+	const requested = driver?.trim().toLowerCase();
+	if (requested && (STORAGE_DRIVERS as readonly string[]).includes(requested)) {
+		return requested as StorageDriverId;
+	}
+
+	if (s3Enabled) return "s3";
+	if (vercelBlobEnabled) return "vercel-blob";
+	return production ? null : "local";
+}
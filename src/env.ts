@@ -38,6 +38,10 @@ export const env = createEnv({
 		// ======== App Secret (Master) ========
 		APP_SECRET: z.string().optional(),
 
+		// ======== Cron ========
+		// Sent by Vercel Cron as a bearer token to /api/cron/* routes
+		CRON_SECRET: z.string().optional(),
+
 		// ======== Database ========
 		DATABASE_URL: z.string().url().optional(),
 		DB_PREFIX: z.string().default("db"),
@@ -61,6 +65,7 @@ export const env = createEnv({
 		RESEND_API_KEY: z.string().optional(), // Added for waitlist welcome email
 		RESEND_AUDIENCE_ID: z.string().optional(),
 		RESEND_FROM_EMAIL: z.string().optional(),
+		EMAIL_OUTBOX_DIR: z.string().optional(),
 
 		// OAuth Providers
 		AUTH_DISCORD_ID: z.string().optional(),
@@ -95,6 +100,9 @@ export const env = createEnv({
 		// AI Services
 		OPENAI_API_KEY: z.string().optional(),
 		ANTHROPIC_API_KEY: z.string().optional(),
+		AI_LOCAL_BASE_URL: z.string().url().optional(), // OpenAI-compatible endpoint, e.g. Ollama
+		AI_LOCAL_API_KEY: z.string().optional(),
+		AI_LOCAL_MODEL: z.string().optional(),
 		DEEPSEEK_API_KEY: z.string().optional(),
 		ELEVENLABS_API_KEY: z.string().optional(),
 		FAL_API_KEY: z.string().optional(),
@@ -125,6 +133,7 @@ export const env = createEnv({
 		// Polar
 		POLAR_ACCESS_TOKEN: z.string().optional(),
 		POLAR_PLATFORM_URL: z.string().optional(),
+		POLAR_WEBHOOK_SECRET: z.string().optional(),
 
 		// Stripe
 		STRIPE_SECRET_KEY: z.string().optional(),
@@ -142,6 +151,11 @@ export const env = createEnv({
 		UPSTASH_REDIS_REST_URL: z.string().optional(),
 		UPSTASH_REDIS_REST_TOKEN: z.string().optional(),
 
+		// Rate limiting: defaults to Redis when Upstash is configured, otherwise in-memory
+		RATE_LIMIT_STORE: z.enum(["redis", "postgres", "memory"]).optional(),
+		// Comma-separated IPs of the proxies in front of a self-hosted app, skipped when reading x-forwarded-for
+		TRUSTED_PROXIES: z.string().optional(),
+
 		// Cloudflare Turnstile (CAPTCHA)
 		TURNSTILE_SECRET_KEY: z.string().optional(),
 
@@ -150,7 +164,12 @@ export const env = createEnv({
 		VERCEL_INTEGRATION_SLUG: z.string().optional(),
 		VERCEL_CLIENT_ID: z.string().optional(),
 		VERCEL_CLIENT_SECRET: z.string().optional(),
+		VERCEL_WEBHOOK_SECRET: z.string().optional(),
 		VERCEL_BLOB_READ_WRITE_TOKEN: z.string().optional(),
+
+		// File storage (see src/config/storage.ts)
+		STORAGE_DRIVER: z.enum(["s3", "vercel-blob", "local"]).optional(),
+		STORAGE_LOCAL_DIR: z.string().optional(),
 	},
 
 	/**
@@ -229,12 +248,14 @@ export const env = createEnv({
 		NEXT_PUBLIC_FEATURE_GOOGLE_SERVICE_ACCOUNT_ENABLED: zBooleanFeatureFlag,
 		NEXT_PUBLIC_FEATURE_OPENAI_ENABLED: zBooleanFeatureFlag,
 		NEXT_PUBLIC_FEATURE_ANTHROPIC_ENABLED: zBooleanFeatureFlag,
+		NEXT_PUBLIC_FEATURE_LOCAL_AI_ENABLED: zBooleanFeatureFlag,
 		NEXT_PUBLIC_FEATURE_LEMONSQUEEZY_ENABLED: zBooleanFeatureFlag,
 		NEXT_PUBLIC_FEATURE_POLAR_ENABLED: zBooleanFeatureFlag,
 		NEXT_PUBLIC_FEATURE_S3_ENABLED: zBooleanFeatureFlag,
 		NEXT_PUBLIC_FEATURE_REDIS_ENABLED: zBooleanFeatureFlag,
 		NEXT_PUBLIC_FEATURE_VERCEL_API_ENABLED: zBooleanFeatureFlag,
 		NEXT_PUBLIC_FEATURE_VERCEL_BLOB_ENABLED: zBooleanFeatureFlag,
+		NEXT_PUBLIC_FEATURE_LOCAL_STORAGE_ENABLED: zBooleanFeatureFlag,
 		NEXT_PUBLIC_FEATURE_VERCEL_INTEGRATION_ENABLED: zBooleanFeatureFlag,
 		NEXT_PUBLIC_FEATURE_STRIPE_ENABLED: zBooleanFeatureFlag,
 
@@ -271,6 +292,7 @@ export const env = createEnv({
 
 	runtimeEnv: {
 		APP_SECRET: process.env.APP_SECRET,
+		CRON_SECRET: process.env.CRON_SECRET,
 		// Database
 		DATABASE_URL: process.env.DATABASE_URL,
 		DB_PREFIX: process.env.DB_PREFIX,
@@ -287,6 +309,7 @@ export const env = createEnv({
 		RESEND_API_KEY: process.env.RESEND_API_KEY, // Added for waitlist welcome email
 		RESEND_AUDIENCE_ID: process.env.RESEND_AUDIENCE_ID,
 		RESEND_FROM_EMAIL: process.env.RESEND_FROM_EMAIL,
+		EMAIL_OUTBOX_DIR: process.env.EMAIL_OUTBOX_DIR,
 
 		// OAuth Providers
 		AUTH_DISCORD_ID: process.env.AUTH_DISCORD_ID,
@@ -319,6 +342,9 @@ export const env = createEnv({
 		GOOGLE_PRIVATE_KEY: process.env.GOOGLE_PRIVATE_KEY,
 		OPENAI_API_KEY: process.env.OPENAI_API_KEY,
 		ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
+		AI_LOCAL_BASE_URL: process.env.AI_LOCAL_BASE_URL,
+		AI_LOCAL_API_KEY: process.env.AI_LOCAL_API_KEY,
+		AI_LOCAL_MODEL: process.env.AI_LOCAL_MODEL,
 		DEEPSEEK_API_KEY: process.env.DEEPSEEK_API_KEY,
 		ELEVENLABS_API_KEY: process.env.ELEVENLABS_API_KEY,
 		FAL_API_KEY: process.env.FAL_API_KEY,
@@ -346,6 +372,7 @@ export const env = createEnv({
 		LEMONSQUEEZY_WEBHOOK_SECRET: process.env.LEMONSQUEEZY_WEBHOOK_SECRET,
 		POLAR_ACCESS_TOKEN: process.env.POLAR_ACCESS_TOKEN,
 		POLAR_PLATFORM_URL: process.env.POLAR_PLATFORM_URL,
+		POLAR_WEBHOOK_SECRET: process.env.POLAR_WEBHOOK_SECRET,
 		STRIPE_SECRET_KEY: process.env.STRIPE_SECRET_KEY,
 		STRIPE_PUBLISHABLE_KEY: process.env.STRIPE_PUBLISHABLE_KEY,
 		STRIPE_WEBHOOK_SECRET: process.env.STRIPE_WEBHOOK_SECRET,
@@ -356,11 +383,16 @@ export const env = createEnv({
 		AWS_BUCKET_NAME: process.env.AWS_BUCKET_NAME,
 		UPSTASH_REDIS_REST_URL: process.env.UPSTASH_REDIS_REST_URL,
 		UPSTASH_REDIS_REST_TOKEN: process.env.UPSTASH_REDIS_REST_TOKEN,
+		RATE_LIMIT_STORE: process.env.RATE_LIMIT_STORE,
+		TRUSTED_PROXIES: process.env.TRUSTED_PROXIES,
 		TURNSTILE_SECRET_KEY: process.env.TURNSTILE_SECRET_KEY,
 		VERCEL_ACCESS_TOKEN: process.env.VERCEL_ACCESS_TOKEN,
 		VERCEL_CLIENT_ID: process.env.VERCEL_CLIENT_ID,
 		VERCEL_CLIENT_SECRET: process.env.VERCEL_CLIENT_SECRET,
+		VERCEL_WEBHOOK_SECRET: process.env.VERCEL_WEBHOOK_SECRET,
 		VERCEL_BLOB_READ_WRITE_TOKEN: process.env.VERCEL_BLOB_READ_WRITE_TOKEN,
+		STORAGE_DRIVER: process.env.STORAGE_DRIVER,
+		STORAGE_LOCAL_DIR: process.env.STORAGE_LOCAL_DIR,
 		VERCEL_INTEGRATION_SLUG: process.env.VERCEL_INTEGRATION_SLUG,
 
 		// Consent Manager
@@ -426,15 +458,18 @@ export const env = createEnv({
 			process.env.NEXT_PUBLIC_FEATURE_GOOGLE_SERVICE_ACCOUNT_ENABLED,
 		NEXT_PUBLIC_FEATURE_OPENAI_ENABLED: process.env.NEXT_PUBLIC_FEATURE_OPENAI_ENABLED,
 		NEXT_PUBLIC_FEATURE_ANTHROPIC_ENABLED: process.env.NEXT_PUBLIC_FEATURE_ANTHROPIC_ENABLED,
+		NEXT_PUBLIC_FEATURE_LOCAL_AI_ENABLED: process.env.NEXT_PUBLIC_FEATURE_LOCAL_AI_ENABLED,
 		NEXT_PUBLIC_FEATURE_LEMONSQUEEZY_ENABLED: process.env.NEXT_PUBLIC_FEATURE_LEMONSQUEEZY_ENABLED,
 		NEXT_PUBLIC_FEATURE_POLAR_ENABLED: process.env.NEXT_PUBLIC_FEATURE_POLAR_ENABLED,
 		NEXT_PUBLIC_FEATURE_S3_ENABLED: process.env.NEXT_PUBLIC_FEATURE_S3_ENABLED,
 		NEXT_PUBLIC_FEATURE_REDIS_ENABLED: process.env.NEXT_PUBLIC_FEATURE_REDIS_ENABLED,
 		NEXT_PUBLIC_FEATURE_VERCEL_API_ENABLED: process.env.NEXT_PUBLIC_FEATURE_VERCEL_API_ENABLED,
 		NEXT_PUBLIC_FEATURE_VERCEL_BLOB_ENABLED: process.env.NEXT_PUBLIC_FEATURE_VERCEL_BLOB_ENABLED,
-		NEXT_PUBLIC_FEATURE_VERCEL_INTEGRATION_ENABLED: process.env.NEXT_PUBLIC_FEATURE_VERCEL_INTEGRATION_ENABLED,
-		NEXT_PUBLIC_VERCEL_INTEGRATION_SLUG:
-			process.env.NEXT_PUBLIC_VERCEL_INTEGRATION_SLUG,
+		NEXT_PUBLIC_FEATURE_LOCAL_STORAGE_ENABLED:
+			process.env.NEXT_PUBLIC_FEATURE_LOCAL_STORAGE_ENABLED,
+		NEXT_PUBLIC_FEATURE_VERCEL_INTEGRATION_ENABLED:
+			process.env.NEXT_PUBLIC_FEATURE_VERCEL_INTEGRATION_ENABLED,
+		NEXT_PUBLIC_VERCEL_INTEGRATION_SLUG: process.env.NEXT_PUBLIC_VERCEL_INTEGRATION_SLUG,
 		NEXT_PUBLIC_FEATURE_STRIPE_ENABLED: process.env.NEXT_PUBLIC_FEATURE_STRIPE_ENABLED,
 
 		// Analytics
@@ -0,0 +1,108 @@
+"use client";
+
+import { useSession } from "next-auth/react";
+import { useCallback, useEffect, useState } from "react";
+import {
+	type EntitlementFeature,
+	type EntitlementLimit,
+	FREE_PLAN_ID,
+} from "@/config/entitlements";
+import { getEntitlements } from "@/server/actions/entitlements";
+import type { EntitlementSummary } from "@/server/services/entitlement-service";
+
+// Every useEntitlements call on a page shares one request per user and team
+const entitlementsCache = new Map<
+	string,
+	{ promise: Promise<EntitlementSummary | null>; timestamp: number }
+>();
+const CACHE_DURATION = 60 * 1000; // 1 minute
+
+function loadEntitlements(
+	cacheKey: string,
+	teamId: string | null
+): Promise<EntitlementSummary | null> {
+	const cached = entitlementsCache.get(cacheKey);
+	if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
+		return cached.promise;
+	}
+
+	const promise = getEntitlements(teamId);
+	entitlementsCache.set(cacheKey, { promise, timestamp: Date.now() });
+	// Failed requests are retried on the next render instead of being cached
+	promise.catch(() => entitlementsCache.delete(cacheKey));
+	return promise;
+}
+
+/**
+ * Hook to read the current user's plan, features and limits
+ * Pass the active team to get the team's plan instead of the user's. While loading, and when
+ * signed out, `can` returns false and `remaining` returns 0. Enforcement happens on the server;
+ * use this to hide or explain what the plan does not allow.
+ *
+ * @example
+ * const { can, remaining } = useEntitlements({ teamId });
+ * const canAddProject = remaining("projectsPerTeam") !== 0;
+ */
+export function useEntitlements(options: { teamId?: string | null } = {}) {
+	const { data: session, status } = useSession();
+	const teamId = options.teamId ?? null;
+	const [entitlements, setEntitlements] = useState<EntitlementSummary | null>(null);
+	const [isLoading, setIsLoading] = useState(true);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		if (status === "loading") return;
+
+		if (!session?.user?.id) {
+			setEntitlements(null);
+			setIsLoading(false);
+			setError(null);
+			return;
+		}
+
+		let cancelled = false;
+		setIsLoading(true);
+		loadEntitlements(`${session.user.id}:${teamId ?? ""}`, teamId)
+			.then((summary) => {
+				if (!cancelled) {
+					setEntitlements(summary);
+					setError(null);
+				}
+			})
+			.catch((loadError: unknown) => {
+				if (!cancelled) {
+					setEntitlements(null);
+					setError(loadError instanceof Error ? loadError.message : String(loadError));
+				}
+			})
+			.finally(() => {
+				if (!cancelled) {
+					setIsLoading(false);
+				}
+			});
+		return () => {
+			cancelled = true;
+		};
+	}, [session?.user?.id, status, teamId]);
+
+	const can = useCallback(
+		(feature: EntitlementFeature) => entitlements?.features[feature] ?? false,
+		[entitlements]
+	);
+
+	/** How much of a limit is left; null means unlimited */
+	const remaining = useCallback(
+		(limit: EntitlementLimit) => (entitlements ? entitlements.limits[limit].remaining : 0),
+		[entitlements]
+	);
+
+	return {
+		entitlements,
+		plan: entitlements?.plan ?? null,
+		hasPaidPlan: !!entitlements && entitlements.plan.id !== FREE_PLAN_ID,
+		can,
+		remaining,
+		isLoading,
+		error,
+	};
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import { useSession } from "next-auth/react";
+import { useEffect, useState } from "react";
+import { getClientFeatureFlags } from "@/server/actions/feature-flags";
+import type { FeatureFlagValue } from "@/server/services/feature-flag-service";
+
+type FlagValues = Record<string, FeatureFlagValue>;
+
+// Every useFlag call on a page shares one request per user and team
+const flagsCache = new Map<string, { promise: Promise<FlagValues>; timestamp: number }>();
+const CACHE_DURATION = 60 * 1000; // 1 minute
+
+function loadFlags(cacheKey: string, teamId: string | null): Promise<FlagValues> {
+	const cached = flagsCache.get(cacheKey);
+	if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
+		return cached.promise;
+	}
+
+	const promise = getClientFeatureFlags(teamId).catch(() => ({}));
+	flagsCache.set(cacheKey, { promise, timestamp: Date.now() });
+	return promise;
+}
+
+/**
+ * Hook to read a runtime feature flag for the current user
+ * Only flags marked as client visible on the admin Flags page are available; others, and
+ * every flag while loading, return `defaultValue`. Use `getFlag` in server code instead.
+ *
+ * @example
+ * const showNewEditor = useFlag("new-editor", false);
+ * const layout = useFlag("checkout-layout", "control", { teamId });
+ */
+export function useFlag<T extends FeatureFlagValue>(
+	key: string,
+	defaultValue: T,
+	options: { teamId?: string | null } = {}
+): T {
+	const { data: session, status } = useSession();
+	const teamId = options.teamId ?? null;
+	const [flags, setFlags] = useState<FlagValues | null>(null);
+
+	useEffect(() => {
+		if (status === "loading") return;
+
+		let cancelled = false;
+		const cacheKey = `${session?.user?.id ?? "anonymous"}:${teamId ?? ""}`;
+		void loadFlags(cacheKey, teamId).then((values) => {
+			if (!cancelled) {
+				setFlags(values);
+			}
+		});
+		return () => {
+			cancelled = true;
+		};
+	}, [session?.user?.id, status, teamId]);
+
+	const value = flags?.[key];
+	return typeof value === typeof defaultValue ? (value as T) : defaultValue;
+}
@@ -0,0 +1,193 @@
+"use client";
+
+import { useCallback, useRef, useState } from "react";
+import { routes } from "@/config/routes";
+import type { UploadProgress } from "@/server/services/upload-service";
+
+/** Dates arrive as strings over JSON */
+export type ResumableUploadProgress = Omit<UploadProgress, "expiresAt"> & { expiresAt: string };
+
+export type ResumableUploadStatus = "idle" | "uploading" | "completed" | "error";
+
+interface UseResumableUploadOptions {
+	/**
+	 * Team the uploaded files belong to; they count against its quota
+	 */
+	teamId?: string;
+	/**
+	 * Number of parts sent at the same time
+	 * @default 3
+	 */
+	concurrency?: number;
+}
+
+interface UseResumableUploadReturn {
+	upload: (file: File) => Promise<{ fileId: number } | null>;
+	/** Stops sending parts; the upload can be resumed by uploading the same file again */
+	pause: () => void;
+	/** Stops sending parts and discards the upload */
+	cancel: () => Promise<void>;
+	progress: ResumableUploadProgress | null;
+	status: ResumableUploadStatus;
+	error: string | null;
+}
+
+const STORAGE_KEY_PREFIX = "resumable-upload";
+
+/**
+ * Identifies a file across page reloads, to find the upload to resume
+ */
+function getStorageKey(file: File): string {
+	return `${STORAGE_KEY_PREFIX}:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+	const response = await fetch(url, init);
+	const body = (await response.json().catch(() => null)) as
+		| (T & { error?: { message?: string } })
+		| null;
+	if (!response.ok) {
+		throw new Error(body?.error?.message ?? `Request failed with status ${response.status}`);
+	}
+	return body as T;
+}
+
+/**
+ * Hook for uploading large files in parts through /api/uploads
+ * The upload ID is kept in localStorage, so uploading the same file again after a failure,
+ * a pause or a page reload only sends the parts that are missing.
+ */
+export function useResumableUpload(
+	options: UseResumableUploadOptions = {}
+): UseResumableUploadReturn {
+	const { teamId, concurrency = 3 } = options;
+
+	const [progress, setProgress] = useState<ResumableUploadProgress | null>(null);
+	const [status, setStatus] = useState<ResumableUploadStatus>("idle");
+	const [error, setError] = useState<string | null>(null);
+
+	const abortControllerRef = useRef<AbortController | null>(null);
+	const currentRef = useRef<{ uploadId: string; storageKey: string } | null>(null);
+
+	/**
+	 * Finds the upload started earlier for this file, or starts a new one
+	 */
+	const startOrResume = useCallback(
+		async (file: File, signal: AbortSignal): Promise<ResumableUploadProgress> => {
+			const storageKey = getStorageKey(file);
+			const previousId = localStorage.getItem(storageKey);
+
+			if (previousId) {
+				const previous = await request<ResumableUploadProgress>(
+					`${routes.api.uploads}/${previousId}`,
+					{ signal }
+				).catch(() => null);
+				if (previous?.status === "uploading") {
+					return previous;
+				}
+				localStorage.removeItem(storageKey);
+			}
+
+			const created = await request<ResumableUploadProgress>(routes.api.uploads, {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({
+					fileName: file.name,
+					contentType: file.type,
+					size: file.size,
+					teamId,
+				}),
+				signal,
+			});
+			localStorage.setItem(storageKey, created.id);
+			return created;
+		},
+		[teamId]
+	);
+
+	const upload = useCallback(
+		async (file: File): Promise<{ fileId: number } | null> => {
+			abortControllerRef.current?.abort();
+			const controller = new AbortController();
+			abortControllerRef.current = controller;
+
+			setStatus("uploading");
+			setError(null);
+
+			try {
+				const started = await startOrResume(file, controller.signal);
+				currentRef.current = { uploadId: started.id, storageKey: getStorageKey(file) };
+				setProgress(started);
+
+				const pending = Array.from({ length: started.partCount }, (_, index) => index + 1).filter(
+					(partNumber) => !started.uploadedParts.includes(partNumber)
+				);
+
+				const sendParts = async () => {
+					for (let partNumber = pending.shift(); partNumber; partNumber = pending.shift()) {
+						const start = (partNumber - 1) * started.chunkSize;
+						const updated = await request<ResumableUploadProgress>(
+							`${routes.api.uploads}/${started.id}/parts/${partNumber}`,
+							{
+								method: "PUT",
+								headers: { "Content-Type": "application/octet-stream" },
+								body: file.slice(start, start + started.chunkSize),
+								signal: controller.signal,
+							}
+						);
+						// Responses can arrive out of order; keep the most advanced one
+						setProgress((current) =>
+							current && current.uploadedBytes > updated.uploadedBytes ? current : updated
+						);
+					}
+				};
+				await Promise.all(Array.from({ length: concurrency }, sendParts));
+
+				const { upload: completed, file: userFile } = await request<{
+					upload: ResumableUploadProgress;
+					file: { id: number };
+				}>(`${routes.api.uploads}/${started.id}/complete`, {
+					method: "POST",
+					signal: controller.signal,
+				});
+
+				localStorage.removeItem(getStorageKey(file));
+				currentRef.current = null;
+				setProgress(completed);
+				setStatus("completed");
+				return { fileId: userFile.id };
+			} catch (err) {
+				if (controller.signal.aborted) {
+					setStatus("idle");
+					return null;
+				}
+				setError(err instanceof Error ? err.message : "Upload failed");
+				setStatus("error");
+				return null;
+			}
+		},
+		[concurrency, startOrResume]
+	);
+
+	const pause = useCallback(() => {
+		abortControllerRef.current?.abort();
+	}, []);
+
+	const cancel = useCallback(async () => {
+		abortControllerRef.current?.abort();
+		const current = currentRef.current;
+		if (!current) {
+			return;
+		}
+
+		currentRef.current = null;
+		localStorage.removeItem(current.storageKey);
+		await fetch(`${routes.api.uploads}/${current.uploadId}`, { method: "DELETE" }).catch(
+			() => undefined
+		);
+		setProgress(null);
+		setStatus("idle");
+	}, []);
+
+	return { upload, pause, cancel, progress, status, error };
+}
@@ -262,6 +262,7 @@ For more information, see the [GitHub documentation on syncing a fork](https://d
 					isTemplate: response.data.is_template,
 					isPrivate: response.data.private,
 					topics: response.data.topics,
+					createdAt: response.data.created_at,
 				},
 			};
 		} catch (error: any) {
@@ -354,6 +355,30 @@ For more information, see the [GitHub documentation on syncing a fork](https://d
 		}
 	}
 
+	/**
+	 * Delete a repository by its ID, so a repository renamed or recreated under the same name is
+	 * never deleted by mistake
+	 * Requires the `delete_repo` scope. A repository that no longer exists counts as deleted.
+	 */
+	async deleteRepository(repoId: number) {
+		try {
+			const { data } = await this.octokit.request("GET /repositories/{repository_id}", {
+				repository_id: repoId,
+			});
+			await this.octokit.repos.delete({ owner: data.owner.login, repo: data.name });
+
+			return { success: true };
+		} catch (error: any) {
+			if (error.status === 404) {
+				return { success: true };
+			}
+			return {
+				success: false,
+				error: this.formatErrorMessage(error),
+			};
+		}
+	}
+
 	/**
 	 * Set up repository with initial configuration
 	 */
@@ -1,5 +1,12 @@
+import path from "node:path";
 import type { CollectionConfig } from "payload";
+import { LOCAL_STORAGE_DIR } from "../../../config/storage";
 
+/*
+ * Media Collection
+ * Files are stored by the configured storage driver: the S3 and Vercel Blob adapters are
+ * added in payload.config.ts, and with the local driver Payload writes to the storage directory.
+ */
 export const Media: CollectionConfig = {
 	slug: "media",
 	access: {
@@ -12,5 +19,7 @@ export const Media: CollectionConfig = {
 			required: true,
 		},
 	],
-	upload: true,
+	upload: {
+		staticDir: path.resolve(LOCAL_STORAGE_DIR, "media"),
+	},
 };
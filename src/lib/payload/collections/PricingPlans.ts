@@ -0,0 +1,62 @@
+import type { CollectionConfig } from "payload";
+
+/**
+ * Marketing copy for plans synced from the payment providers
+ * Prices, intervals and trials come from the provider; entries here add the feature bullets
+ * and can rename, highlight or hide a product on the pricing page.
+ */
+export const PricingPlans: CollectionConfig = {
+	slug: "pricing-plans",
+	admin: {
+		useAsTitle: "productId",
+		defaultColumns: ["productId", "name", "highlighted", "hidden"],
+		description: "Feature bullets for the pricing page. Run the plan sync to pick up new products.",
+	},
+	access: {
+		read: () => true,
+	},
+	timestamps: true,
+	fields: [
+		{
+			name: "productId",
+			type: "text",
+			required: true,
+			unique: true,
+			index: true,
+			admin: {
+				description:
+					"Provider product ID, e.g. prod_123 for Stripe, 12345 for Lemon Squeezy or the Polar product ID. Applies to all its prices.",
+			},
+		},
+		{
+			name: "name",
+			type: "text",
+			admin: {
+				description: "Shown instead of the product name from the provider",
+			},
+		},
+		{
+			name: "features",
+			type: "textarea",
+			admin: {
+				description: "One feature per line",
+			},
+		},
+		{
+			name: "highlighted",
+			type: "checkbox",
+			defaultValue: false,
+			admin: {
+				description: "Marks the plan as the best value",
+			},
+		},
+		{
+			name: "hidden",
+			type: "checkbox",
+			defaultValue: false,
+			admin: {
+				description: "Keeps the plan off the pricing page",
+			},
+		},
+	],
+};
@@ -526,67 +526,6 @@ export const getOrderById = async (orderId: string): Promise<PolarOrder | null>
 	}
 };
 
-/**
- * Process a webhook event from Polar
- */
-export const processPolarWebhook = async (event: any) => {
-	if (!env.NEXT_PUBLIC_FEATURE_POLAR_ENABLED) {
-		logger.warn("Received Polar webhook, but Polar feature is disabled. Skipping processing.", {
-			eventType: event?.type,
-		});
-		return; // Or return a specific response indicating disabled feature
-	}
-
-	logger.info("Processing Polar webhook event", { type: event?.type });
-
-	try {
-		const polarClient = initializePolarClient();
-		if (!polarClient) {
-			return;
-		}
-
-		logger.debug("Processing Polar webhook", { eventType: event?.type });
-
-		// TODO: Implement webhook handling based on the Polar documentation
-		// Handle different event types (checkout.updated, subscription.created, etc.)
-		// Update database records as needed
-
-		switch (event?.type) {
-			case "checkout.created":
-				// Handle checkout created
-				break;
-			case "checkout.updated":
-				if (event.data.status === "succeeded") {
-					// Convert amount to integer cents
-					const amountInCents = convertPriceToIntegerCents(event.data.amount);
-
-					// Create payment record
-					// Similar to:
-					// await PaymentService.createPayment({
-					//   userId: event.data.custom_data?.user_id,
-					//   orderId: event.data.id,
-					//   amount: amountInCents,
-					//   status: "completed",
-					//   processor: "polar",
-					//   metadata: event.data,
-					// });
-				}
-				break;
-			case "subscription.created":
-			case "subscription.updated":
-			case "subscription.active":
-			case "subscription.revoked":
-			case "subscription.canceled":
-				// Handle subscription events
-				break;
-			default:
-				logger.debug("Unknown Polar webhook event type", { type: event?.type });
-		}
-	} catch (error) {
-		logger.error("Error processing Polar webhook:", error);
-	}
-};
-
 /**
  * Create a checkout URL for a product
  */
@@ -654,6 +593,65 @@ const extractCheckoutUrl = (response: any, productId: string): string | null =>
 	return `https://checkout.polar.sh/checkout?product=${productId}`;
 };
 
+/**
+ * Creates a customer session and returns its customer portal URL
+ * @see https://docs.polar.sh/features/customer-portal
+ */
+export const createCustomerPortalUrl = async (options: {
+	customerId: string;
+	returnUrl?: string;
+}): Promise<string | null> => {
+	if (!env.NEXT_PUBLIC_FEATURE_POLAR_ENABLED) {
+		logger.debug("Polar feature is disabled. Skipping createCustomerPortalUrl.");
+		return null;
+	}
+	try {
+		const polarClient = initializePolarClient();
+		if (!polarClient) {
+			return null;
+		}
+
+		const session = await polarClient.customerSessions.create({
+			customerId: options.customerId,
+			returnUrl: options.returnUrl,
+		});
+
+		return session.customerPortalUrl;
+	} catch (error) {
+		logger.error("Error creating Polar customer portal URL:", error);
+		return null;
+	}
+};
+
+/**
+ * Refunds a Polar order
+ * Unlike the lookups in this module, errors are thrown, so the caller can report them.
+ * @param options.amount Amount to refund in cents
+ * @returns The refund ID and amount
+ */
+export const refundOrder = async (options: {
+	orderId: string;
+	amount: number;
+	comment?: string;
+}): Promise<{ id: string; amount: number }> => {
+	const polarClient = initializePolarClient();
+	if (!env.NEXT_PUBLIC_FEATURE_POLAR_ENABLED || !polarClient) {
+		throw new Error("Polar is not configured");
+	}
+
+	const refund = await polarClient.refunds.create({
+		orderId: options.orderId,
+		reason: "customer_request",
+		amount: options.amount,
+		comment: options.comment,
+	});
+	if (!refund) {
+		throw new Error(`Polar did not create a refund for order ${options.orderId}`);
+	}
+
+	return { id: refund.id, amount: refund.amount };
+};
+
 /**
  * Checks if a user has purchased a specific Polar product
  * @param userId User ID to check
@@ -10,7 +10,6 @@ import type {
 	StripeOrder,
 	StripePaymentData,
 	StripeSubscription,
-	StripeWebhookEvent,
 } from "@/types/stripe";
 
 /*
@@ -479,143 +478,6 @@ export const getAllStripeOrders = async (): Promise<StripeOrder[]> => {
 	}
 };
 
-/**
- * Process Stripe webhook events
- *
- * @param event Stripe webhook event
- * @returns Promise resolving when processing is complete
- */
-export const processStripeWebhook = async (event: StripeWebhookEvent): Promise<void> => {
-	if (!env.NEXT_PUBLIC_FEATURE_STRIPE_ENABLED) {
-		logger.warn("Received Stripe webhook, but Stripe feature is disabled. Skipping processing.", {
-			eventType: event.type,
-		});
-		return;
-	}
-
-	logger.info("Processing Stripe webhook event", { type: event.type, id: event.id });
-
-	try {
-		const stripe = getStripeClient();
-		if (!stripe) {
-			logger.error("Stripe client not available for webhook processing");
-			return;
-		}
-
-		switch (event.type) {
-			case "checkout.session.completed": {
-				const session = event.data.object as Stripe.Checkout.Session;
-				logger.debug("Processing checkout session completed", { sessionId: session.id });
-
-				if (session.payment_status === "paid" && session.customer) {
-					const customer = await stripe.customers.retrieve(session.customer as string);
-
-					if (customer && !customer.deleted) {
-						// Create payment record
-						// This would typically call PaymentService.createPayment
-						logger.info("Checkout session completed successfully", {
-							sessionId: session.id,
-							customerId: customer.id,
-							customerEmail: customer.email,
-							amount: session.amount_total,
-						});
-					}
-				}
-				break;
-			}
-
-			case "payment_intent.succeeded": {
-				const paymentIntent = event.data.object as Stripe.PaymentIntent;
-				logger.debug("Processing payment intent succeeded", { paymentIntentId: paymentIntent.id });
-
-				if (paymentIntent.customer) {
-					const customer = await stripe.customers.retrieve(paymentIntent.customer as string);
-
-					if (customer && !customer.deleted) {
-						logger.info("Payment intent succeeded", {
-							paymentIntentId: paymentIntent.id,
-							customerId: customer.id,
-							customerEmail: customer.email,
-							amount: paymentIntent.amount,
-						});
-					}
-				}
-				break;
-			}
-
-			case "customer.subscription.created":
-			case "customer.subscription.updated": {
-				const subscription = event.data.object as Stripe.Subscription;
-				logger.debug("Processing subscription event", {
-					subscriptionId: subscription.id,
-					status: subscription.status,
-					eventType: event.type,
-				});
-
-				const customer = await stripe.customers.retrieve(subscription.customer as string);
-
-				if (customer && !customer.deleted) {
-					logger.info("Subscription event processed", {
-						subscriptionId: subscription.id,
-						customerId: customer.id,
-						customerEmail: customer.email,
-						status: subscription.status,
-						eventType: event.type,
-					});
-				}
-				break;
-			}
-
-			case "customer.subscription.deleted": {
-				const subscription = event.data.object as Stripe.Subscription;
-				logger.debug("Processing subscription deletion", { subscriptionId: subscription.id });
-
-				const customer = await stripe.customers.retrieve(subscription.customer as string);
-
-				if (customer && !customer.deleted) {
-					logger.info("Subscription deleted", {
-						subscriptionId: subscription.id,
-						customerId: customer.id,
-						customerEmail: customer.email,
-					});
-				}
-				break;
-			}
-
-			case "invoice.payment_succeeded":
-			case "invoice.payment_failed": {
-				const invoice = event.data.object as Stripe.Invoice;
-				logger.debug("Processing invoice event", {
-					invoiceId: invoice.id,
-					status: invoice.status,
-					eventType: event.type,
-				});
-
-				if (invoice.customer) {
-					const customer = await stripe.customers.retrieve(invoice.customer as string);
-
-					if (customer && !customer.deleted) {
-						logger.info("Invoice event processed", {
-							invoiceId: invoice.id,
-							customerId: customer.id,
-							customerEmail: customer.email,
-							status: invoice.status,
-							eventType: event.type,
-						});
-					}
-				}
-				break;
-			}
-
-			default:
-				logger.debug("Unhandled Stripe webhook event type", { type: event.type });
-		}
-	} catch (error) {
-		logger.error("Error processing Stripe webhook:", error);
-		throw error;
-	}
-};
-
 /**
  * Verify Stripe webhook signature
  *
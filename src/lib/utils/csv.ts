@@ -0,0 +1,99 @@
+/**
+ * Minimal RFC 4180 CSV helpers, for admin imports and exports
+ */
+
+export type CsvValue = string | number | boolean | Date | null | undefined;
+
+/**
+ * Parses CSV text into rows of cells
+ * Handles quoted cells with commas, escaped quotes and line breaks, CRLF line endings and a
+ * leading byte order mark. Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let cell = "";
+	let inQuotes = false;
+	const input = text.replace(/^\uFEFF/, "");
+
+	const endRow = () => {
+		row.push(cell);
+		if (row.length > 1 || row[0] !== "") {
+			rows.push(row);
+		}
+		row = [];
+		cell = "";
+	};
+
+	for (let i = 0; i < input.length; i++) {
+		const char = input[i];
+
+		if (inQuotes) {
+			if (char === '"' && input[i + 1] === '"') {
+				cell += '"';
+				i++;
+			} else if (char === '"') {
+				inQuotes = false;
+			} else {
+				cell += char;
+			}
+			continue;
+		}
+
+		if (char === '"') {
+			inQuotes = true;
+		} else if (char === ",") {
+			row.push(cell);
+			cell = "";
+		} else if (char === "\n") {
+			endRow();
+		} else if (char !== "\r") {
+			cell += char;
+		}
+	}
+	endRow();
+
+	return rows;
+}
+
+/**
+ * Parses CSV text whose first row is a header into one record per row
+ * Header names are trimmed, lowercased and use underscores for spaces, so "Project Type"
+ * becomes `project_type`. Missing cells are empty strings.
+ */
+export function parseCsvRecords(text: string): {
+	headers: string[];
+	records: Record<string, string>[];
+} {
+	const [headerRow, ...rows] = parseCsv(text);
+	if (!headerRow) {
+		return { headers: [], records: [] };
+	}
+
+	const headers = headerRow.map((header) => header.trim().toLowerCase().replace(/\s+/g, "_"));
+	const records = rows.map((row) =>
+		Object.fromEntries(headers.map((header, index) => [header, row[index]?.trim() ?? ""]))
+	);
+	return { headers, records };
+}
+
+function formatCsvValue(value: CsvValue): string {
+	if (value === null || value === undefined) {
+		return "";
+	}
+	let text = value instanceof Date ? value.toISOString() : String(value);
+
+	// Spreadsheets run cells that start with these as formulas
+	if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+		text = `'${text}`;
+	}
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serializes rows to CSV, quoting cells where needed
+ * Dates become ISO strings and empty values empty cells.
+ */
+export function toCsv(rows: CsvValue[][]): string {
+	return `${rows.map((row) => row.map(formatCsvValue).join(",")).join("\r\n")}\r\n`;
+}
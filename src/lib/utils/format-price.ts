@@ -0,0 +1,25 @@
+/**
+ * Formats a price stored in the smallest currency unit for display
+ * Zero-decimal currencies such as JPY are not divided, and whole amounts drop their decimals.
+ * @param amount - Price in the smallest currency unit, e.g. cents
+ * @param currency - ISO 4217 currency code
+ * @returns Formatted price, e.g. "$19" or "€9.50"
+ */
+export function formatPrice(amount: number, currency: string, locale = "en-US"): string {
+	try {
+		const fractionDigits =
+			new Intl.NumberFormat(locale, { style: "currency", currency }).resolvedOptions()
+				.maximumFractionDigits ?? 2;
+		const value = amount / 10 ** fractionDigits;
+
+		return new Intl.NumberFormat(locale, {
+			style: "currency",
+			currency,
+			minimumFractionDigits: Number.isInteger(value) ? 0 : fractionDigits,
+			maximumFractionDigits: fractionDigits,
+		}).format(value);
+	} catch {
+		// Unknown currency codes make Intl throw
+		return `${(amount / 100).toFixed(2)} ${currency}`;
+	}
+}
@@ -0,0 +1,133 @@
+/**
+ * Content type detection from a file's first bytes ("magic bytes")
+ *
+ * Uploads declare their content type, but the declaration comes from the client. These
+ * helpers check it against the bytes that were actually uploaded.
+ */
+
+/** How many leading bytes `sniffContentType` needs */
+export const SNIFF_BYTE_LENGTH = 512;
+
+interface Signature {
+	type: string;
+	offset?: number;
+	bytes: (number | null)[]; // null matches any byte
+}
+
+const SIGNATURES: Signature[] = [
+	{ type: "image/png", bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+	{ type: "image/jpeg", bytes: [0xff, 0xd8, 0xff] },
+	{ type: "image/gif", bytes: [0x47, 0x49, 0x46, 0x38] },
+	{
+		type: "image/webp",
+		bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50],
+	},
+	{ type: "image/bmp", bytes: [0x42, 0x4d] },
+	{ type: "image/tiff", bytes: [0x49, 0x49, 0x2a, 0x00] },
+	{ type: "image/tiff", bytes: [0x4d, 0x4d, 0x00, 0x2a] },
+	{ type: "image/x-icon", bytes: [0x00, 0x00, 0x01, 0x00] },
+	{ type: "application/pdf", bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+	// Legacy Office documents (OLE compound file)
+	{ type: "application/msword", bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1] },
+];
+
+/** ISO base media brands, found after "ftyp" at offset 4 */
+const FTYP_BRANDS: Record<string, string> = {
+	avif: "image/avif",
+	avis: "image/avif-sequence",
+	heic: "image/heic",
+	heix: "image/heic",
+	hevc: "image/heic-sequence",
+	mif1: "image/heif",
+	msf1: "image/heif-sequence",
+};
+
+/** Declared types that are the same format as a sniffed type */
+const EQUIVALENT_TYPES: Record<string, string[]> = {
+	"image/jpeg": ["image/jpg"],
+	"image/x-icon": ["image/ico", "image/vnd.microsoft.icon"],
+	"image/bmp": ["image/dib"],
+	"image/png": ["image/apng"],
+	"image/heic": ["image/heif"],
+	"image/heif": ["image/heic"],
+	"image/heic-sequence": ["image/heif-sequence"],
+	"image/heif-sequence": ["image/heic-sequence"],
+};
+
+function matches(bytes: Uint8Array, { bytes: signature, offset = 0 }: Signature): boolean {
+	return signature.every((byte, index) => byte === null || bytes[offset + index] === byte);
+}
+
+function isText(bytes: Uint8Array): boolean {
+	if (bytes.includes(0)) {
+		return false;
+	}
+	try {
+		// A multi-byte character may be cut off at the end of the sample
+		new TextDecoder("utf-8", { fatal: true }).decode(bytes.subarray(0, bytes.length - 3));
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Detects the content type of a file from its first bytes
+ * Text files are reported as "text/plain", or "image/svg+xml" / "text/html" / "text/xml"
+ * when their markup says so.
+ * @param bytes - At least the first `SNIFF_BYTE_LENGTH` bytes of the file, or the whole file
+ * @returns The detected type, or null if the format is unknown
+ */
+export function sniffContentType(bytes: Uint8Array): string | null {
+	for (const signature of SIGNATURES) {
+		if (matches(bytes, signature)) {
+			return signature.type;
+		}
+	}
+
+	if (matches(bytes, { type: "", offset: 4, bytes: [0x66, 0x74, 0x79, 0x70] })) {
+		const brand = new TextDecoder().decode(bytes.subarray(8, 12));
+		return FTYP_BRANDS[brand] ?? null;
+	}
+
+	if (!isText(bytes)) {
+		return null;
+	}
+
+	const head = new TextDecoder()
+		.decode(bytes)
+		.replace(/^\uFEFF/, "")
+		.trimStart()
+		.toLowerCase();
+	if (/^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!doctype svg[^>]*>\s*)?<svg[\s>]/.test(head)) {
+		return "image/svg+xml";
+	}
+	if (head.startsWith("<!doctype html") || head.startsWith("<html")) {
+		return "text/html";
+	}
+	if (head.startsWith("<?xml")) {
+		return "text/xml";
+	}
+	return "text/plain";
+}
+
+/**
+ * Checks that a declared content type is consistent with the sniffed one
+ * Any text format may be declared for a text file, except that markup which can run
+ * scripts (SVG, HTML) must be declared as what it is.
+ */
+export function isDeclaredContentTypeValid(declared: string, sniffed: string | null): boolean {
+	if (!sniffed) {
+		return false;
+	}
+
+	const type = declared.toLowerCase().split(";")[0]?.trim() ?? "";
+	if (type === sniffed || EQUIVALENT_TYPES[sniffed]?.includes(type)) {
+		return true;
+	}
+
+	if (sniffed === "text/plain" || sniffed === "text/xml") {
+		return type.startsWith("text/") && type !== "text/html";
+	}
+	return false;
+}
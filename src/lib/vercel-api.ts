@@ -375,6 +375,26 @@ export class VercelAPIService {
 		}
 	}
 
+	/**
+	 * Delete a project, including its deployments and domains
+	 * A project that no longer exists counts as deleted.
+	 */
+	async deleteProject(projectId: string) {
+		try {
+			await this.makeRequest(`/v9/projects/${projectId}`, { method: "DELETE" });
+
+			return { success: true };
+		} catch (error: any) {
+			if (error.status === 404) {
+				return { success: true };
+			}
+			return {
+				success: false,
+				error: this.formatErrorMessage(error),
+			};
+		}
+	}
+
 	/**
 	 * List user's projects
 	 */
@@ -460,6 +480,11 @@ export class VercelAPIService {
 			throw error;
 		}
 
+		// DELETE endpoints respond without a body
+		if (response.status === 204) {
+			return null;
+		}
+
 		return response.json();
 	}
 
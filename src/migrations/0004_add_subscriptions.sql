@@ -0,0 +1,27 @@
+CREATE TABLE "shipkit_subscription" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"user_id" varchar(255) NOT NULL,
+	"plan_id" integer,
+	"processor" varchar(50) NOT NULL,
+	"processor_subscription_id" varchar(255) NOT NULL,
+	"processor_customer_id" varchar(255),
+	"product_id" varchar(255),
+	"variant_id" varchar(255),
+	"product_name" text,
+	"status" varchar(50) NOT NULL,
+	"current_period_start" timestamp with time zone,
+	"current_period_end" timestamp with time zone,
+	"cancel_at_period_end" boolean DEFAULT false NOT NULL,
+	"canceled_at" timestamp with time zone,
+	"trial_ends_at" timestamp with time zone,
+	"ended_at" timestamp with time zone,
+	"metadata" text DEFAULT '{}',
+	"created_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"updated_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "shipkit_subscription" ADD CONSTRAINT "shipkit_subscription_user_id_shipkit_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."shipkit_user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shipkit_subscription" ADD CONSTRAINT "shipkit_subscription_plan_id_shipkit_plan_id_fk" FOREIGN KEY ("plan_id") REFERENCES "public"."shipkit_plan"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "subscription_user_id_idx" ON "shipkit_subscription" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "subscription_status_idx" ON "shipkit_subscription" USING btree ("status");--> statement-breakpoint
+CREATE UNIQUE INDEX "subscription_processor_subscription_idx" ON "shipkit_subscription" USING btree ("processor","processor_subscription_id");
@@ -0,0 +1,13 @@
+ALTER TABLE "shipkit_webhook_event" ADD COLUMN "provider" varchar(50) DEFAULT 'unknown' NOT NULL;--> statement-breakpoint
+ALTER TABLE "shipkit_webhook_event" ADD COLUMN "event_id" varchar(255);--> statement-breakpoint
+ALTER TABLE "shipkit_webhook_event" ADD COLUMN "status" varchar(20) DEFAULT 'pending' NOT NULL;--> statement-breakpoint
+ALTER TABLE "shipkit_webhook_event" ADD COLUMN "attempts" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "shipkit_webhook_event" ADD COLUMN "error" text;--> statement-breakpoint
+ALTER TABLE "shipkit_webhook_event" ADD COLUMN "received_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL;--> statement-breakpoint
+ALTER TABLE "shipkit_webhook_event" ADD COLUMN "processed_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "shipkit_webhook_event" ADD COLUMN "last_attempt_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "shipkit_webhook_event" ADD COLUMN "next_attempt_at" timestamp with time zone;--> statement-breakpoint
+UPDATE "shipkit_webhook_event" SET "status" = 'processed' WHERE "processed" = true;--> statement-breakpoint
+CREATE UNIQUE INDEX "webhook_event_provider_event_idx" ON "shipkit_webhook_event" USING btree ("provider","event_id");--> statement-breakpoint
+CREATE INDEX "webhook_event_status_idx" ON "shipkit_webhook_event" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "webhook_event_next_attempt_idx" ON "shipkit_webhook_event" USING btree ("next_attempt_at");
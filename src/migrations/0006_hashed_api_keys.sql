@@ -0,0 +1,19 @@
+-- Store API keys as SHA-256 hashes with a display prefix, scopes and IP allow-lists
+ALTER TABLE "shipkit_api_key" ADD COLUMN "public_id" varchar(32);--> statement-breakpoint
+ALTER TABLE "shipkit_api_key" ADD COLUMN "key_hash" varchar(64);--> statement-breakpoint
+ALTER TABLE "shipkit_api_key" ADD COLUMN "key_prefix" varchar(64);--> statement-breakpoint
+ALTER TABLE "shipkit_api_key" ADD COLUMN "scopes" text DEFAULT '[]' NOT NULL;--> statement-breakpoint
+ALTER TABLE "shipkit_api_key" ADD COLUMN "allowed_ips" text;--> statement-breakpoint
+ALTER TABLE "shipkit_api_key" ADD COLUMN "rotated_from_id" varchar(255);--> statement-breakpoint
+-- Hash existing plaintext keys; they keep working as legacy keys with every scope.
+-- The display prefix is only the public prefix, e.g. "sk_…": no character of the secret is kept.
+UPDATE "shipkit_api_key"
+SET "key_hash" = encode(sha256(convert_to("key", 'UTF8')), 'hex'),
+	"key_prefix" = split_part("key", '_', 1) || '_…',
+	"scopes" = '["projects:read","projects:write","deployments:read","deployments:write","credits:read","credits:write"]';--> statement-breakpoint
+ALTER TABLE "shipkit_api_key" ALTER COLUMN "key_hash" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "shipkit_api_key" ALTER COLUMN "key_prefix" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "shipkit_api_key" DROP COLUMN "key";--> statement-breakpoint
+CREATE UNIQUE INDEX "api_key_public_id_idx" ON "shipkit_api_key" USING btree ("public_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "api_key_key_hash_idx" ON "shipkit_api_key" USING btree ("key_hash");--> statement-breakpoint
+CREATE INDEX "api_key_user_idx" ON "shipkit_api_key" USING btree ("user_id");
@@ -0,0 +1,3 @@
+-- Bind roles to a scope (global, team or project) so the same role name can differ per scope
+ALTER TABLE "shipkit_role" ADD COLUMN "scope" varchar(20) DEFAULT 'team' NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "role_name_scope_idx" ON "shipkit_role" USING btree ("name","scope");
@@ -0,0 +1,19 @@
+CREATE TABLE "shipkit_audit_log" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"actor_id" varchar(255),
+	"actor_email" varchar(255),
+	"action" varchar(100) NOT NULL,
+	"target_type" varchar(50) NOT NULL,
+	"target_id" varchar(255),
+	"team_id" varchar(255),
+	"changes" text,
+	"metadata" text,
+	"ip_address" varchar(64),
+	"user_agent" text,
+	"created_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "audit_log_created_at_idx" ON "shipkit_audit_log" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "audit_log_actor_idx" ON "shipkit_audit_log" USING btree ("actor_id");--> statement-breakpoint
+CREATE INDEX "audit_log_team_idx" ON "shipkit_audit_log" USING btree ("team_id","created_at");--> statement-breakpoint
+CREATE INDEX "audit_log_action_idx" ON "shipkit_audit_log" USING btree ("action");
@@ -0,0 +1,9 @@
+CREATE TABLE "shipkit_rate_limit" (
+	"key" varchar(255) PRIMARY KEY NOT NULL,
+	"window_start" bigint NOT NULL,
+	"count" integer DEFAULT 0 NOT NULL,
+	"previous_count" integer DEFAULT 0 NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "rate_limit_expires_at_idx" ON "shipkit_rate_limit" USING btree ("expires_at");
@@ -0,0 +1,23 @@
+ALTER TABLE "shipkit_credit_transaction" ADD COLUMN "idempotency_key" varchar(255);--> statement-breakpoint
+ALTER TABLE "shipkit_credit_transaction" ADD COLUMN "expires_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "shipkit_credit_transaction" ADD COLUMN "remaining" integer;--> statement-breakpoint
+ALTER TABLE "shipkit_credit_transaction" ADD COLUMN "hold_id" varchar(255);--> statement-breakpoint
+CREATE UNIQUE INDEX "credit_transaction_idempotency_key_idx" ON "shipkit_credit_transaction" USING btree ("user_id","idempotency_key");--> statement-breakpoint
+CREATE INDEX "credit_transaction_expires_at_idx" ON "shipkit_credit_transaction" USING btree ("expires_at");--> statement-breakpoint
+CREATE TABLE "shipkit_credit_hold" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"user_id" varchar(255) NOT NULL,
+	"amount" integer NOT NULL,
+	"status" varchar(20) DEFAULT 'held' NOT NULL,
+	"description" text,
+	"metadata" text,
+	"idempotency_key" varchar(255),
+	"expires_at" timestamp with time zone NOT NULL,
+	"resolved_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "shipkit_credit_hold" ADD CONSTRAINT "shipkit_credit_hold_user_id_shipkit_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."shipkit_user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "credit_hold_user_status_idx" ON "shipkit_credit_hold" USING btree ("user_id","status");--> statement-breakpoint
+CREATE UNIQUE INDEX "credit_hold_idempotency_key_idx" ON "shipkit_credit_hold" USING btree ("user_id","idempotency_key");--> statement-breakpoint
+CREATE INDEX "credit_hold_expires_at_idx" ON "shipkit_credit_hold" USING btree ("expires_at");
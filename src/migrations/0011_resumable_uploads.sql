@@ -0,0 +1,34 @@
+ALTER TABLE "shipkit_user_file" ADD COLUMN "storage_key" text;--> statement-breakpoint
+ALTER TABLE "shipkit_user_file" ADD COLUMN "size" bigint DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "shipkit_user_file" ADD COLUMN "content_type" varchar(255);--> statement-breakpoint
+ALTER TABLE "shipkit_user_file" ADD COLUMN "team_id" varchar(255);--> statement-breakpoint
+ALTER TABLE "shipkit_user_file" ADD CONSTRAINT "shipkit_user_file_team_id_shipkit_team_id_fk" FOREIGN KEY ("team_id") REFERENCES "public"."shipkit_team"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "user_file_team_id_idx" ON "shipkit_user_file" USING btree ("team_id");--> statement-breakpoint
+CREATE TABLE "shipkit_file_upload" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"user_id" varchar(255) NOT NULL,
+	"team_id" varchar(255),
+	"file_name" varchar(255) NOT NULL,
+	"storage_key" text NOT NULL,
+	"declared_content_type" varchar(255) NOT NULL,
+	"size" bigint NOT NULL,
+	"chunk_size" integer NOT NULL,
+	"part_count" integer NOT NULL,
+	"driver" varchar(50) NOT NULL,
+	"driver_upload_id" text NOT NULL,
+	"parts" text DEFAULT '[]' NOT NULL,
+	"status" varchar(20) DEFAULT 'uploading' NOT NULL,
+	"error" text,
+	"file_id" integer,
+	"expires_at" timestamp with time zone NOT NULL,
+	"completed_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"updated_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "shipkit_file_upload" ADD CONSTRAINT "shipkit_file_upload_user_id_shipkit_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."shipkit_user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shipkit_file_upload" ADD CONSTRAINT "shipkit_file_upload_team_id_shipkit_team_id_fk" FOREIGN KEY ("team_id") REFERENCES "public"."shipkit_team"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shipkit_file_upload" ADD CONSTRAINT "shipkit_file_upload_file_id_shipkit_user_file_id_fk" FOREIGN KEY ("file_id") REFERENCES "public"."shipkit_user_file"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "file_upload_user_status_idx" ON "shipkit_file_upload" USING btree ("user_id","status");--> statement-breakpoint
+CREATE INDEX "file_upload_team_status_idx" ON "shipkit_file_upload" USING btree ("team_id","status");--> statement-breakpoint
+CREATE INDEX "file_upload_expires_at_idx" ON "shipkit_file_upload" USING btree ("expires_at");
@@ -0,0 +1,26 @@
+CREATE TABLE "shipkit_ai_conversation" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"user_id" varchar(255) NOT NULL,
+	"title" varchar(255) NOT NULL,
+	"model" varchar(100) NOT NULL,
+	"created_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "shipkit_ai_message" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"conversation_id" varchar(255) NOT NULL,
+	"role" varchar(20) NOT NULL,
+	"content" text NOT NULL,
+	"model" varchar(100),
+	"provider" varchar(50),
+	"input_tokens" integer,
+	"output_tokens" integer,
+	"credits" integer,
+	"created_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "shipkit_ai_conversation" ADD CONSTRAINT "shipkit_ai_conversation_user_id_shipkit_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."shipkit_user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shipkit_ai_message" ADD CONSTRAINT "shipkit_ai_message_conversation_id_shipkit_ai_conversation_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "public"."shipkit_ai_conversation"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "ai_conversation_user_updated_at_idx" ON "shipkit_ai_conversation" USING btree ("user_id","updated_at");--> statement-breakpoint
+CREATE INDEX "ai_message_conversation_created_at_idx" ON "shipkit_ai_message" USING btree ("conversation_id","created_at");
@@ -0,0 +1,15 @@
+CREATE TABLE "shipkit_feature_flag" (
+	"key" varchar(100) PRIMARY KEY NOT NULL,
+	"description" text,
+	"type" varchar(20) DEFAULT 'boolean' NOT NULL,
+	"enabled" boolean DEFAULT false NOT NULL,
+	"variants" text DEFAULT '[]' NOT NULL,
+	"default_value" text NOT NULL,
+	"rules" text DEFAULT '[]' NOT NULL,
+	"client_visible" boolean DEFAULT false NOT NULL,
+	"updated_by" varchar(255),
+	"created_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "shipkit_feature_flag" ADD CONSTRAINT "shipkit_feature_flag_updated_by_shipkit_user_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."shipkit_user"("id") ON DELETE set null ON UPDATE no action;
@@ -0,0 +1,18 @@
+CREATE TABLE "shipkit_email_log" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"template" varchar(50) NOT NULL,
+	"to" varchar(255) NOT NULL,
+	"subject" text NOT NULL,
+	"user_id" varchar(255),
+	"status" varchar(20) NOT NULL,
+	"transport" varchar(20) NOT NULL,
+	"message_id" varchar(255),
+	"error" text,
+	"metadata" text,
+	"created_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "shipkit_email_log" ADD CONSTRAINT "shipkit_email_log_user_id_shipkit_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."shipkit_user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "email_log_to_idx" ON "shipkit_email_log" USING btree ("to","created_at");--> statement-breakpoint
+CREATE INDEX "email_log_user_idx" ON "shipkit_email_log" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "email_log_created_at_idx" ON "shipkit_email_log" USING btree ("created_at");
@@ -0,0 +1,11 @@
+ALTER TABLE "shipkit_waitlist_entry" ADD COLUMN "referral_code" varchar(16);--> statement-breakpoint
+ALTER TABLE "shipkit_waitlist_entry" ADD COLUMN "referred_by_id" integer;--> statement-breakpoint
+ALTER TABLE "shipkit_waitlist_entry" ADD COLUMN "referral_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "shipkit_waitlist_entry" ADD COLUMN "invite_token_hash" varchar(64);--> statement-breakpoint
+ALTER TABLE "shipkit_waitlist_entry" ADD COLUMN "invite_expires_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "shipkit_waitlist_entry" ADD COLUMN "signed_up_at" timestamp with time zone;--> statement-breakpoint
+UPDATE "shipkit_waitlist_entry" SET "referral_code" = upper(substr(md5(random()::text || "id"::text), 1, 8)) WHERE "referral_code" IS NULL;--> statement-breakpoint
+ALTER TABLE "shipkit_waitlist_entry" ADD CONSTRAINT "shipkit_waitlist_entry_referred_by_id_shipkit_waitlist_entry_id_fk" FOREIGN KEY ("referred_by_id") REFERENCES "public"."shipkit_waitlist_entry"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shipkit_waitlist_entry" ADD CONSTRAINT "shipkit_waitlist_entry_referral_code_unique" UNIQUE("referral_code");--> statement-breakpoint
+ALTER TABLE "shipkit_waitlist_entry" ADD CONSTRAINT "shipkit_waitlist_entry_invite_token_hash_unique" UNIQUE("invite_token_hash");--> statement-breakpoint
+CREATE INDEX "waitlist_referred_by_idx" ON "shipkit_waitlist_entry" USING btree ("referred_by_id");
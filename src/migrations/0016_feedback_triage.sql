@@ -0,0 +1,35 @@
+CREATE TABLE "shipkit_feedback_message" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"feedback_id" varchar(255) NOT NULL,
+	"author_id" varchar(255),
+	"type" varchar(20) NOT NULL,
+	"body" text NOT NULL,
+	"email_log_id" varchar(255),
+	"created_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "shipkit_feedback_vote" (
+	"feedback_id" varchar(255) NOT NULL,
+	"user_id" varchar(255) NOT NULL,
+	"created_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	CONSTRAINT "shipkit_feedback_vote_feedback_id_user_id_pk" PRIMARY KEY("feedback_id","user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "shipkit_feedback" ADD COLUMN "user_id" varchar(255);--> statement-breakpoint
+ALTER TABLE "shipkit_feedback" ADD COLUMN "email" varchar(255);--> statement-breakpoint
+ALTER TABLE "shipkit_feedback" ADD COLUMN "page_url" varchar(2048);--> statement-breakpoint
+ALTER TABLE "shipkit_feedback" ADD COLUMN "tags" text DEFAULT '[]' NOT NULL;--> statement-breakpoint
+ALTER TABLE "shipkit_feedback" ADD COLUMN "assignee_id" varchar(255);--> statement-breakpoint
+ALTER TABLE "shipkit_feedback" ADD COLUMN "duplicate_of_id" varchar(255);--> statement-breakpoint
+ALTER TABLE "shipkit_feedback" ADD CONSTRAINT "shipkit_feedback_user_id_shipkit_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."shipkit_user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shipkit_feedback" ADD CONSTRAINT "shipkit_feedback_assignee_id_shipkit_user_id_fk" FOREIGN KEY ("assignee_id") REFERENCES "public"."shipkit_user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shipkit_feedback" ADD CONSTRAINT "shipkit_feedback_duplicate_of_id_shipkit_feedback_id_fk" FOREIGN KEY ("duplicate_of_id") REFERENCES "public"."shipkit_feedback"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shipkit_feedback_message" ADD CONSTRAINT "shipkit_feedback_message_feedback_id_shipkit_feedback_id_fk" FOREIGN KEY ("feedback_id") REFERENCES "public"."shipkit_feedback"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shipkit_feedback_message" ADD CONSTRAINT "shipkit_feedback_message_author_id_shipkit_user_id_fk" FOREIGN KEY ("author_id") REFERENCES "public"."shipkit_user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shipkit_feedback_vote" ADD CONSTRAINT "shipkit_feedback_vote_feedback_id_shipkit_feedback_id_fk" FOREIGN KEY ("feedback_id") REFERENCES "public"."shipkit_feedback"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shipkit_feedback_vote" ADD CONSTRAINT "shipkit_feedback_vote_user_id_shipkit_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."shipkit_user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "feedback_status_idx" ON "shipkit_feedback" USING btree ("status","created_at");--> statement-breakpoint
+CREATE INDEX "feedback_user_idx" ON "shipkit_feedback" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "feedback_assignee_idx" ON "shipkit_feedback" USING btree ("assignee_id");--> statement-breakpoint
+CREATE INDEX "feedback_duplicate_of_idx" ON "shipkit_feedback" USING btree ("duplicate_of_id");--> statement-breakpoint
+CREATE INDEX "feedback_message_feedback_idx" ON "shipkit_feedback_message" USING btree ("feedback_id","created_at");
@@ -0,0 +1,2 @@
+ALTER TABLE "shipkit_deployments" ADD COLUMN "vercel_deployment_id" text;--> statement-breakpoint
+CREATE INDEX "deployment_vercel_project_idx" ON "shipkit_deployments" USING btree ("vercel_project_id");
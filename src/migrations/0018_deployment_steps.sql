@@ -0,0 +1,18 @@
+CREATE TABLE "shipkit_deployment_step" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"deployment_id" text NOT NULL,
+	"name" varchar(50) NOT NULL,
+	"position" integer NOT NULL,
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"input" text DEFAULT '{}' NOT NULL,
+	"output" text,
+	"error" text,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"started_at" timestamp with time zone,
+	"completed_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "shipkit_deployment_step" ADD CONSTRAINT "shipkit_deployment_step_deployment_id_shipkit_deployments_id_fk" FOREIGN KEY ("deployment_id") REFERENCES "public"."shipkit_deployments"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "deployment_step_deployment_name_idx" ON "shipkit_deployment_step" USING btree ("deployment_id","name");
@@ -0,0 +1,14 @@
+CREATE TABLE "shipkit_impersonation_session" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"admin_id" varchar(255) NOT NULL,
+	"user_id" varchar(255) NOT NULL,
+	"reason" text,
+	"expires_at" timestamp with time zone NOT NULL,
+	"ended_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "shipkit_impersonation_session" ADD CONSTRAINT "shipkit_impersonation_session_admin_id_shipkit_user_id_fk" FOREIGN KEY ("admin_id") REFERENCES "public"."shipkit_user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shipkit_impersonation_session" ADD CONSTRAINT "shipkit_impersonation_session_user_id_shipkit_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."shipkit_user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "impersonation_session_admin_idx" ON "shipkit_impersonation_session" USING btree ("admin_id","created_at");--> statement-breakpoint
+CREATE INDEX "impersonation_session_user_idx" ON "shipkit_impersonation_session" USING btree ("user_id");
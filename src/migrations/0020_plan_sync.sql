@@ -0,0 +1,9 @@
+ALTER TABLE "shipkit_plan" DROP CONSTRAINT "shipkit_plan_variantId_unique";--> statement-breakpoint
+ALTER TABLE "shipkit_plan" ALTER COLUMN "productId" SET DATA TYPE varchar(255) USING "productId"::varchar;--> statement-breakpoint
+ALTER TABLE "shipkit_plan" ALTER COLUMN "variantId" SET DATA TYPE varchar(255) USING "variantId"::varchar;--> statement-breakpoint
+ALTER TABLE "shipkit_plan" ADD COLUMN "provider" varchar(50) DEFAULT 'lemonsqueezy' NOT NULL;--> statement-breakpoint
+ALTER TABLE "shipkit_plan" ADD COLUMN "features" text DEFAULT '[]' NOT NULL;--> statement-breakpoint
+ALTER TABLE "shipkit_plan" ADD COLUMN "currency" varchar(3) DEFAULT 'USD' NOT NULL;--> statement-breakpoint
+ALTER TABLE "shipkit_plan" ADD COLUMN "isArchived" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "shipkit_plan" ADD COLUMN "syncedAt" timestamp with time zone;--> statement-breakpoint
+CREATE UNIQUE INDEX "plan_provider_variant_idx" ON "shipkit_plan" USING btree ("provider","variantId");
@@ -0,0 +1,2 @@
+ALTER TABLE "shipkit_payment" ADD COLUMN "refunded_amount" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "shipkit_payment" ADD COLUMN "refunded_at" timestamp with time zone;
@@ -0,0 +1,41 @@
+import { type MigrateDownArgs, type MigrateUpArgs, sql } from "@payloadcms/db-postgres";
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+	await db.execute(sql`
+   CREATE TABLE "payload"."pricing_plans" (
+  	"id" serial PRIMARY KEY NOT NULL,
+  	"product_id" varchar NOT NULL,
+  	"name" varchar,
+  	"features" varchar,
+  	"highlighted" boolean DEFAULT false,
+  	"hidden" boolean DEFAULT false,
+  	"updated_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+  	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL
+  );
+  
+  CREATE TABLE "payload"."payload_kv" (
+  	"id" serial PRIMARY KEY NOT NULL,
+  	"key" varchar NOT NULL,
+  	"data" jsonb NOT NULL
+  );
+  
+  ALTER TABLE "payload"."payload_locked_documents_rels" ADD COLUMN "pricing_plans_id" integer;
+  CREATE UNIQUE INDEX "pricing_plans_product_id_idx" ON "payload"."pricing_plans" USING btree ("product_id");
+  CREATE INDEX "pricing_plans_updated_at_idx" ON "payload"."pricing_plans" USING btree ("updated_at");
+  CREATE INDEX "pricing_plans_created_at_idx" ON "payload"."pricing_plans" USING btree ("created_at");
+  CREATE UNIQUE INDEX "payload_kv_key_idx" ON "payload"."payload_kv" USING btree ("key");
+  ALTER TABLE "payload"."payload_locked_documents_rels" ADD CONSTRAINT "payload_locked_documents_rels_pricing_plans_fk" FOREIGN KEY ("pricing_plans_id") REFERENCES "payload"."pricing_plans"("id") ON DELETE cascade ON UPDATE no action;
+  CREATE INDEX "payload_locked_documents_rels_pricing_plans_id_idx" ON "payload"."payload_locked_documents_rels" USING btree ("pricing_plans_id");`);
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+	await db.execute(sql`
+   ALTER TABLE "payload"."pricing_plans" DISABLE ROW LEVEL SECURITY;
+  ALTER TABLE "payload"."payload_kv" DISABLE ROW LEVEL SECURITY;
+  DROP TABLE "payload"."pricing_plans" CASCADE;
+  DROP TABLE "payload"."payload_kv" CASCADE;
+  ALTER TABLE "payload"."payload_locked_documents_rels" DROP CONSTRAINT "payload_locked_documents_rels_pricing_plans_fk";
+  
+  DROP INDEX "payload"."payload_locked_documents_rels_pricing_plans_id_idx";
+  ALTER TABLE "payload"."payload_locked_documents_rels" DROP COLUMN "pricing_plans_id";`);
+}
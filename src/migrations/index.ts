@@ -1,4 +1,5 @@
 import * as migration_20250821_162815 from "./20250821_162815";
+import * as migration_20261019_170652_pricing_plans from "./20261019_170652_pricing_plans";
 
 export const migrations = [
 	{
@@ -6,4 +7,9 @@ export const migrations = [
 		down: migration_20250821_162815.down,
 		name: "20250821_162815",
 	},
+	{
+		up: migration_20261019_170652_pricing_plans.up,
+		down: migration_20261019_170652_pricing_plans.down,
+		name: "20261019_170652_pricing_plans",
+	},
 ];
@@ -588,6 +588,37 @@ export const vercel_deployments = db_schema.table(
 	})
 );
 
+export const pricing_plans = db_schema.table(
+	"pricing_plans",
+	{
+		id: serial("id").primaryKey(),
+		productId: varchar("product_id").notNull(),
+		name: varchar("name"),
+		features: varchar("features"),
+		highlighted: boolean("highlighted").default(false),
+		hidden: boolean("hidden").default(false),
+		updatedAt: timestamp("updated_at", {
+			mode: "string",
+			withTimezone: true,
+			precision: 3,
+		})
+			.defaultNow()
+			.notNull(),
+		createdAt: timestamp("created_at", {
+			mode: "string",
+			withTimezone: true,
+			precision: 3,
+		})
+			.defaultNow()
+			.notNull(),
+	},
+	(columns) => ({
+		pricing_plans_product_id_idx: uniqueIndex("pricing_plans_product_id_idx").on(columns.productId),
+		pricing_plans_updated_at_idx: index("pricing_plans_updated_at_idx").on(columns.updatedAt),
+		pricing_plans_created_at_idx: index("pricing_plans_created_at_idx").on(columns.createdAt),
+	})
+);
+
 export const payload_locked_documents = db_schema.table(
 	"payload_locked_documents",
 	{
@@ -636,6 +667,7 @@ export const payload_locked_documents_rels = db_schema.table(
 		testimonialsID: integer("testimonials_id"),
 		rbacID: integer("rbac_id"),
 		"vercel-deploymentsID": integer("vercel_deployments_id"),
+		"pricing-plansID": integer("pricing_plans_id"),
 	},
 	(columns) => ({
 		order: index("payload_locked_documents_rels_order_idx").on(columns.order),
@@ -665,6 +697,9 @@ export const payload_locked_documents_rels = db_schema.table(
 		payload_locked_documents_rels_vercel_deployments_id_idx: index(
 			"payload_locked_documents_rels_vercel_deployments_id_idx"
 		).on(columns["vercel-deploymentsID"]),
+		payload_locked_documents_rels_pricing_plans_id_idx: index(
+			"payload_locked_documents_rels_pricing_plans_id_idx"
+		).on(columns["pricing-plansID"]),
 		parentFk: foreignKey({
 			columns: [columns["parent"]],
 			foreignColumns: [payload_locked_documents.id],
@@ -710,6 +745,11 @@ export const payload_locked_documents_rels = db_schema.table(
 			foreignColumns: [vercel_deployments.id],
 			name: "payload_locked_documents_rels_vercel_deployments_fk",
 		}).onDelete("cascade"),
+		"pricing-plansIdFk": foreignKey({
+			columns: [columns["pricing-plansID"]],
+			foreignColumns: [pricing_plans.id],
+			name: "payload_locked_documents_rels_pricing_plans_fk",
+		}).onDelete("cascade"),
 	})
 );
 
@@ -953,6 +993,7 @@ export const relations_rbac = relations(rbac, ({ many }) => ({
 	}),
 }));
 export const relations_vercel_deployments = relations(vercel_deployments, () => ({}));
+export const relations_pricing_plans = relations(pricing_plans, () => ({}));
 export const relations_payload_locked_documents_rels = relations(
 	payload_locked_documents_rels,
 	({ one }) => ({
@@ -1001,6 +1042,11 @@ export const relations_payload_locked_documents_rels = relations(
 			references: [vercel_deployments.id],
 			relationName: "vercel-deployments",
 		}),
+		"pricing-plansID": one(pricing_plans, {
+			fields: [payload_locked_documents_rels["pricing-plansID"]],
+			references: [pricing_plans.id],
+			relationName: "pricing-plans",
+		}),
 	})
 );
 export const relations_payload_locked_documents = relations(
@@ -1066,6 +1112,7 @@ type DatabaseSchema = {
 	rbac: typeof rbac;
 	rbac_rels: typeof rbac_rels;
 	vercel_deployments: typeof vercel_deployments;
+	pricing_plans: typeof pricing_plans;
 	payload_locked_documents: typeof payload_locked_documents;
 	payload_locked_documents_rels: typeof payload_locked_documents_rels;
 	payload_preferences: typeof payload_preferences;
@@ -1088,6 +1135,7 @@ type DatabaseSchema = {
 	relations_rbac_rels: typeof relations_rbac_rels;
 	relations_rbac: typeof relations_rbac;
 	relations_vercel_deployments: typeof relations_vercel_deployments;
+	relations_pricing_plans: typeof relations_pricing_plans;
 	relations_payload_locked_documents_rels: typeof relations_payload_locked_documents_rels;
 	relations_payload_locked_documents: typeof relations_payload_locked_documents;
 	relations_payload_preferences_rels: typeof relations_payload_preferences_rels;
@@ -75,6 +75,7 @@ export interface Config {
     testimonials: Testimonial;
     rbac: Rbac;
     'vercel-deployments': VercelDeployment;
+    'pricing-plans': PricingPlan;
     'payload-kv': PayloadKv;
     'payload-locked-documents': PayloadLockedDocument;
     'payload-preferences': PayloadPreference;
@@ -90,6 +91,7 @@ export interface Config {
     testimonials: TestimonialsSelect<false> | TestimonialsSelect<true>;
     rbac: RbacSelect<false> | RbacSelect<true>;
     'vercel-deployments': VercelDeploymentsSelect<false> | VercelDeploymentsSelect<true>;
+    'pricing-plans': PricingPlansSelect<false> | PricingPlansSelect<true>;
     'payload-kv': PayloadKvSelect<false> | PayloadKvSelect<true>;
     'payload-locked-documents': PayloadLockedDocumentsSelect<false> | PayloadLockedDocumentsSelect<true>;
     'payload-preferences': PayloadPreferencesSelect<false> | PayloadPreferencesSelect<true>;
@@ -415,6 +417,37 @@ export interface VercelDeployment {
   updatedAt: string;
   createdAt: string;
 }
+/**
+ * Feature bullets for the pricing page. Run the plan sync to pick up new products.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "pricing-plans".
+ */
+export interface PricingPlan {
+  id: number;
+  /**
+   * Provider product ID, e.g. prod_123 for Stripe, 12345 for Lemon Squeezy or the Polar product ID. Applies to all its prices.
+   */
+  productId: string;
+  /**
+   * Shown instead of the product name from the provider
+   */
+  name?: string | null;
+  /**
+   * One feature per line
+   */
+  features?: string | null;
+  /**
+   * Marks the plan as the best value
+   */
+  highlighted?: boolean | null;
+  /**
+   * Keeps the plan off the pricing page
+   */
+  hidden?: boolean | null;
+  updatedAt: string;
+  createdAt: string;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "payload-kv".
@@ -470,6 +503,10 @@ export interface PayloadLockedDocument {
     | ({
         relationTo: 'vercel-deployments';
         value: number | VercelDeployment;
+      } | null)
+    | ({
+        relationTo: 'pricing-plans';
+        value: number | PricingPlan;
       } | null);
   globalSlug?: string | null;
   user: {
@@ -690,6 +727,19 @@ export interface VercelDeploymentsSelect<T extends boolean = true> {
   updatedAt?: T;
   createdAt?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "pricing-plans_select".
+ */
+export interface PricingPlansSelect<T extends boolean = true> {
+  productId?: T;
+  name?: T;
+  features?: T;
+  highlighted?: T;
+  hidden?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "payload-kv_select".
@@ -14,6 +14,7 @@ import sharp from "sharp";
 
 import { RESEND_FROM_EMAIL } from "@/config/constants";
 import { buildTimeFeatures } from "@/config/features-config";
+import { resolveStorageDriverId } from "@/config/storage";
 import { siteConfig } from "./config/site-config";
 // Import components using path strings for Payload 3.0
 // We'll use component paths instead of direct imports
@@ -21,6 +22,7 @@ import { FAQs } from "./lib/payload/collections/FAQs";
 import { Features } from "./lib/payload/collections/Features";
 import { Media } from "./lib/payload/collections/Media";
 import { Pages } from "./lib/payload/collections/Pages";
+import { PricingPlans } from "./lib/payload/collections/PricingPlans";
 import { RBAC } from "./lib/payload/collections/RBAC";
 import { Testimonials } from "./lib/payload/collections/Testimonials";
 import { Users } from "./lib/payload/collections/Users";
@@ -37,6 +39,12 @@ const { adminTitleSuffix, adminIconPath, adminLogoPath, dbSchemaName, emailFromN
 
 const isPayloadEnabled = buildTimeFeatures.PAYLOAD_ENABLED;
 
+// Media uses the same storage driver as uploads; the local driver needs no adapter
+const storageDriver = resolveStorageDriverId({
+	s3Enabled: !!buildTimeFeatures.S3_ENABLED,
+	vercelBlobEnabled: !!buildTimeFeatures.VERCEL_BLOB_ENABLED,
+});
+
 const config = {
 	secret: process.env.PAYLOAD_SECRET ?? "supersecret",
 	routes: {
@@ -77,7 +85,17 @@ const config = {
 			},
 		},
 	},
-	collections: [Users, Pages, Media, FAQs, Features, Testimonials, RBAC, VercelDeployments],
+	collections: [
+		Users,
+		Pages,
+		Media,
+		FAQs,
+		Features,
+		Testimonials,
+		RBAC,
+		VercelDeployments,
+		PricingPlans,
+	],
 	globals: [Settings],
 	editor: lexicalEditor({}),
 	typescript: {
@@ -205,8 +223,8 @@ const config = {
 	plugins: [
 		payloadCloudPlugin(),
 
-		// Conditionally add storage adapters if enabled
-		...(buildTimeFeatures.S3_ENABLED && isPayloadEnabled
+		// Add the storage adapter of the selected driver
+		...(storageDriver === "s3" && isPayloadEnabled
 			? [
 				s3Storage({
 					collections: {
@@ -224,7 +242,7 @@ const config = {
 			]
 			: []),
 
-		...(buildTimeFeatures.VERCEL_BLOB_ENABLED && isPayloadEnabled
+		...(storageDriver === "vercel-blob" && isPayloadEnabled
 			? [
 				vercelBlobStorage({
 					collections: {
@@ -2,12 +2,17 @@
 
 import { revalidatePath } from "next/cache";
 import { z } from "zod";
-import { auth } from "@/server/auth";
-import { apiKeyService } from "@/server/services/api-key-service";
+import { assertNotImpersonating, getAuditActor, requirePermission } from "@/server/lib/auth";
+import {
+	API_KEY_SCOPES,
+	apiKeyService,
+	isValidIpAllowListEntry,
+} from "@/server/services/api-key-service";
+import { cacheService } from "@/server/services/cache-service";
 import { ErrorService } from "@/server/services/error-service";
 import { ValidationService } from "@/server/services/validation-service";
 
-const MILLISECONDS_IN_A_WEEK = 60 * 60 * 24 * 7 * 1000;
+const MILLISECONDS_IN_A_DAY = 60 * 60 * 24 * 1000;
 
 // Validation schemas in a separate object (not exported)
 const schemas = {
@@ -16,6 +21,19 @@ const schemas = {
 		name: z.string().min(1, "Name is required"),
 		description: z.string().optional(),
 		expiresIn: z.string().optional(),
+		scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, "Select at least one scope"),
+		allowedIps: z
+			.array(z.string().trim().min(1))
+			.refine((ips) => ips.every(isValidIpAllowListEntry), "Invalid IP address or CIDR range")
+			.optional(),
+	}),
+	rotateApiKey: z.object({
+		apiKeyId: z.string(),
+		overlapHours: z
+			.number()
+			.int()
+			.min(0)
+			.max(24 * 30),
 	}),
 	validateApiKey: z.object({
 		apiKey: z.string(),
@@ -31,34 +49,36 @@ export async function createApiKey(data: z.infer<typeof schemas.createApiKey>) {
 		await ValidationService.validateOrThrow(schemas.createApiKey, data);
 
 		// Ensure user is authenticated and has permission
-		const session = await auth();
-		if (!session?.user) {
-			ErrorService.throwUnauthorized("You must be logged in to create an API key");
-		}
+		const sessionUserId = await requirePermission("api_key", "create");
+		await assertNotImpersonating("create API keys");
 
 		// Ensure user can only create keys for themselves
-		if (session.user.id !== data.userId) {
+		if (sessionUserId !== data.userId) {
 			ErrorService.throwUnauthorized("You can only create API keys for yourself");
 		}
 
-		// Convert expiresIn to milliseconds if provided
+		// Convert expiresIn (days) to milliseconds if provided
 		const expiresIn = data.expiresIn
-			? Number.parseInt(data.expiresIn) * MILLISECONDS_IN_A_WEEK
+			? Number.parseInt(data.expiresIn, 10) * MILLISECONDS_IN_A_DAY
 			: undefined;
 
 		// Create the API key
-		const apiKey = await apiKeyService.createApiKey({
+		const { key } = await apiKeyService.createApiKey({
 			userId: data.userId,
 			name: data.name,
 			description: data.description,
 			expiresIn,
+			scopes: data.scopes,
+			allowedIps: data.allowedIps,
+			actor: await getAuditActor(),
 		});
 
 		// Revalidate the API keys page
+		await cacheService.delete(`user:${sessionUserId}:api-keys`);
 		revalidatePath("/api-keys");
 
 		// Return the API key - this is the only time it will be shown in full
-		return { key: apiKey?.key };
+		return { key };
 	} catch (error) {
 		throw ErrorService.handleError(error);
 	}
@@ -68,15 +88,55 @@ export async function createApiKey(data: z.infer<typeof schemas.createApiKey>) {
  * Creates a test API key for a user
  */
 export async function createTestApiKey() {
-	const session = await auth();
+	const userId = await requirePermission("api_key", "create");
+	await assertNotImpersonating("create API keys");
 
-	const apiKey = await apiKeyService.createApiKey({
-		userId: session?.user?.id ?? "",
+	const { key } = await apiKeyService.createApiKey({
+		userId,
 		name: "API Key",
 		description: "Generated for testing purposes",
 	});
 
-	return { key: apiKey?.key };
+	return { key };
+}
+
+/**
+ * Rotates an API key
+ * The replacement key is returned once; the old key keeps working for the overlap window.
+ */
+export async function rotateApiKey(data: z.infer<typeof schemas.rotateApiKey>) {
+	try {
+		await ValidationService.validateOrThrow(schemas.rotateApiKey, data);
+
+		// Ensure user is authenticated and has permission
+		const sessionUserId = await requirePermission("api_key", "update");
+		await assertNotImpersonating("rotate API keys");
+
+		// Get the API key to check ownership
+		const apiKey = await apiKeyService.findById(data.apiKeyId);
+		if (!apiKey) {
+			ErrorService.throwNotFound("API key not found");
+		}
+
+		// Ensure user can only rotate their own keys
+		if (apiKey.userId !== sessionUserId) {
+			ErrorService.throwUnauthorized("You can only rotate your own API keys");
+		}
+
+		const { key } = await apiKeyService.rotateApiKey(
+			data.apiKeyId,
+			data.overlapHours * 60 * 60 * 1000,
+			await getAuditActor()
+		);
+
+		// Revalidate the API keys page
+		await cacheService.delete(`user:${sessionUserId}:api-keys`);
+		revalidatePath("/api-keys");
+
+		return { key };
+	} catch (error) {
+		throw ErrorService.handleError(error);
+	}
 }
 
 /**
@@ -84,11 +144,9 @@ export async function createTestApiKey() {
  */
 export async function deleteApiKey(apiKeyId: string) {
 	try {
-		// Ensure user is authenticated
-		const session = await auth();
-		if (!session?.user) {
-			ErrorService.throwUnauthorized("You must be logged in to delete an API key");
-		}
+		// Ensure user is authenticated and has permission
+		const sessionUserId = await requirePermission("api_key", "delete");
+		await assertNotImpersonating("delete API keys");
 
 		// Get the API key to check ownership
 		const apiKey = await apiKeyService.findById(apiKeyId);
@@ -97,14 +155,15 @@ export async function deleteApiKey(apiKeyId: string) {
 		}
 
 		// Ensure user can only delete their own keys
-		if (apiKey.userId && apiKey.userId !== session.user.id) {
+		if (apiKey.userId && apiKey.userId !== sessionUserId) {
 			ErrorService.throwUnauthorized("You can only delete your own API keys");
 		}
 
 		// Delete the API key
-		const success = await apiKeyService.delete(apiKeyId);
+		const success = await apiKeyService.delete(apiKeyId, await getAuditActor());
 
 		// Revalidate the API keys page
+		await cacheService.delete(`user:${sessionUserId}:api-keys`);
 		revalidatePath("/api-keys");
 
 		return success;
@@ -119,7 +178,10 @@ export async function deleteApiKey(apiKeyId: string) {
 export async function validateApiKey(apiKey: string) {
 	try {
 		await ValidationService.validateOrThrow(schemas.validateApiKey, { apiKey });
-		return await apiKeyService.validateApiKey(apiKey);
+		const { apiKey: record, user } = await apiKeyService.validateApiKey(apiKey);
+		// Never send the key hash to the client
+		const { keyHash: _keyHash, ...safeApiKey } = record;
+		return { apiKey: safeApiKey, user };
 	} catch (error) {
 		throw ErrorService.handleError(error);
 	}
@@ -3,13 +3,18 @@
 import { z } from "zod";
 import { createServerAction } from "zsa";
 import { BASE_URL } from "@/config/base-url";
-import { RESEND_FROM_EMAIL } from "@/config/constants";
+import { routes } from "@/config/routes";
 import { STATUS_CODES } from "@/config/status-codes";
-import { env } from "@/env";
-import { resend } from "@/lib/resend";
 import { forgotPasswordSchema, resetPasswordSchema, signInActionSchema } from "@/lib/schemas/auth";
 import type { ActionState } from "@/lib/utils/validated-action";
+import { getFlag } from "@/server/lib/flags";
 import { AuthService } from "@/server/services/auth-service";
+import { emailService } from "@/server/services/email-service";
+import {
+	getWaitlistInvite,
+	markWaitlistEntrySignedUp,
+	WAITLIST_INVITE_ONLY_FLAG,
+} from "@/server/services/waitlist-service";
 import type { UserRole } from "@/types/user";
 
 export interface AuthOptions {
@@ -53,6 +58,11 @@ const CredentialsSchema = z.object({
 
 type SignInCredentialsInput = z.infer<typeof CredentialsSchema>;
 
+const SignUpSchema = CredentialsSchema.extend({
+	/** Token from a waitlist invite link */
+	invite: z.string().max(100).optional(),
+});
+
 export const signInWithCredentialsAction = async (input: SignInCredentialsInput) => {
 	// Validate input using the schema (optional but good practice)
 	const parsed = CredentialsSchema.safeParse(input);
@@ -89,39 +99,36 @@ export const signInWithCredentialsAction = async (input: SignInCredentialsInput)
 };
 
 export const signUpWithCredentialsAction = async (_prevState: ActionState, formData: FormData) => {
-	const parsed = CredentialsSchema.safeParse(Object.fromEntries(formData));
+	const parsed = SignUpSchema.safeParse(Object.fromEntries(formData));
 
 	if (!parsed.success) {
 		return { ok: false, error: "Invalid form data" };
 	}
 	try {
-		const result = await AuthService.signUpWithCredentials(parsed.data);
+		const { invite, ...credentials } = parsed.data;
+		if (invite) {
+			// Invites are sent to one address; the link alone does not let anyone else sign up
+			const entry = await getWaitlistInvite(invite);
+			if (!entry || entry.email.toLowerCase() !== credentials.email.toLowerCase()) {
+				return { ok: false, error: "This invite link is invalid or has expired" };
+			}
+		} else if (await getFlag(WAITLIST_INVITE_ONLY_FLAG, false, { userId: null })) {
+			return { ok: false, error: "Sign-up is invite-only. Join the waitlist to get an invite." };
+		}
+
+		const result = await AuthService.signUpWithCredentials(credentials);
 
 		if (!result.ok || !result.user) {
 			return { ok: false, error: result.error || "Sign up failed" };
 		}
 
-		// Send verification email (moved from auth service for clarity)
-		try {
-			if (!resend) {
-				console.warn("Resend client not initialized - skipping verification email");
-			} else {
-				const RESEND_FROM_EMAIL = env.RESEND_FROM_EMAIL || "noreply@example.com";
-				await resend.emails.send({
-					from: RESEND_FROM_EMAIL,
-					to: parsed.data.email,
-					subject: "Welcome to Our App - Verify Your Email",
-					html: `
-							<p>Welcome! Your account has been created.</p>
-							<p>You can now sign in and start using the app:</p>
-							<a href="${BASE_URL}/sign-in">Sign In</a>
-						`,
-				});
-			}
-		} catch (emailError) {
-			console.error("Failed to send verification email", emailError);
-			// Proceed with sign-up even if email fails, but log the error
-		}
+		// A failed welcome email is recorded in the email log and does not fail the sign-up
+		await emailService.send(
+			"welcome",
+			{ dashboardUrl: `${BASE_URL}${routes.app.dashboard}` },
+			{ to: parsed.data.email, userId: String(result.user.id) }
+		);
+		await markWaitlistEntrySignedUp(parsed.data.email);
 
 		return { ok: true, user: result.user }; // Only return necessary info
 	} catch (error: any) {
@@ -0,0 +1,78 @@
+"use server";
+
+import { z } from "zod";
+import { BASE_URL } from "@/config/base-url";
+import { routes } from "@/config/routes";
+import { logger } from "@/lib/logger";
+import { auth } from "@/server/auth";
+import { assertNotImpersonating } from "@/server/lib/auth";
+import { initializePaymentProviders } from "@/server/providers";
+import { ErrorService } from "@/server/services/error-service";
+import { PaymentService } from "@/server/services/payment-service";
+import { SubscriptionService } from "@/server/services/subscription-service";
+
+const portalSchema = z.object({
+	processor: z.string().min(1),
+	intent: z.enum(["manage", "update_payment_method", "change_plan", "cancel"]).default("manage"),
+});
+
+/**
+ * Creates a link into the provider's customer portal for the signed-in user
+ * Plan changes and cancellation act on the user's latest subscription with that provider.
+ * The portal opens only for a customer ID recorded for this user by a verified webhook, on their
+ * subscription or payments. Not available while impersonating, as the portal can change the
+ * user's billing.
+ */
+export async function createBillingPortalUrl(data: z.input<typeof portalSchema>) {
+	try {
+		const session = await auth();
+		if (!session?.user?.id) {
+			return { success: false, error: "You must be logged in to manage billing" };
+		}
+		await assertNotImpersonating("manage billing");
+
+		const result = portalSchema.safeParse(data);
+		if (!result.success) {
+			return { success: false, error: "Invalid billing portal request" };
+		}
+		const { processor, intent } = result.data;
+		const userId = session.user.id;
+
+		await initializePaymentProviders();
+
+		const subscription =
+			(await SubscriptionService.getActiveSubscription(userId, { processor })) ??
+			(await SubscriptionService.getUserSubscriptions(userId)).find(
+				(candidate) => candidate.processor === processor
+			);
+
+		const customerId =
+			subscription?.processorCustomerId ??
+			(await PaymentService.getRecordedCustomerId(userId, processor));
+		if (!customerId) {
+			return { success: false, error: "No billing account was found for this provider" };
+		}
+
+		const url = await PaymentService.createCustomerPortalUrl(
+			{
+				userId,
+				customerId,
+				subscriptionId: subscription?.processorSubscriptionId,
+				intent,
+				returnUrl: `${BASE_URL}${routes.settings.billing}`,
+			},
+			processor
+		);
+		if (!url) {
+			return { success: false, error: "Could not open the billing portal" };
+		}
+
+		return { success: true, url };
+	} catch (error) {
+		if (ErrorService.isAppError(error)) {
+			return { success: false, error: error.message };
+		}
+		logger.error("Failed to create billing portal URL", { error });
+		return { success: false, error: "Could not open the billing portal" };
+	}
+}
@@ -1,71 +1,72 @@
 "use server";
 
-import { z } from "zod";
-import { openai } from "@/lib/open-ai";
+import type { z } from "zod";
+import { renameConversationSchema } from "@/server/actions/schemas";
+import { getAvailableAIModels } from "@/server/ai";
+import { auth } from "@/server/auth";
+import { chatService } from "@/server/services/chat-service";
 import { ErrorService } from "@/server/services/error-service";
-import { ValidationService } from "@/server/services/validation-service";
 
-const schemas = {
-	chat: z.object({
-		messages: z.array(
-			z.object({
-				role: z.enum(["user", "assistant", "system"]),
-				content: z.string(),
-			})
-		),
-	}),
-} as const;
+async function requireUserId(): Promise<string> {
+	const session = await auth();
+	if (!session?.user?.id) {
+		ErrorService.throwUnauthorized("You must be signed in to chat");
+	}
+	return session.user.id;
+}
 
-export async function chat(data: z.infer<typeof schemas.chat>) {
-	try {
-		// Validate input
-		await ValidationService.validateOrThrow(schemas.chat, data);
+function parse<T extends z.ZodType>(schema: T, data: unknown): z.infer<T> {
+	const result = schema.safeParse(data);
+	if (!result.success) {
+		throw ErrorService.createError(
+			"VALIDATION_ERROR",
+			result.error.issues.map((issue) => issue.message).join("; ")
+		);
+	}
+	return result.data;
+}
 
-		if (!openai) {
-			throw new Error("OpenAI API key is not set.");
-		}
+/**
+ * Lists the models that can be used for chat
+ */
+export async function getChatModels() {
+	return getAvailableAIModels().map(({ id, name, provider }) => ({ id, name, provider }));
+}
 
-		const completion = await openai.chat.completions.create({
-			model: "gpt-4-turbo-preview",
-			messages: data.messages,
-			temperature: 0.7,
-			stream: true,
-		});
+/**
+ * Lists the current user's conversations, most recent first
+ */
+export async function getConversations() {
+	return chatService.listConversations(await requireUserId());
+}
 
-		const encoder = new TextEncoder();
-		const responseStream = new ReadableStream({
-			async start(controller) {
-				try {
-					for await (const chunk of completion) {
-						const content = chunk.choices[0]?.delta?.content || "";
-						controller.enqueue(encoder.encode(content));
-					}
-					controller.close();
-				} catch (error) {
-					const errorMessage = error instanceof Error ? error.message : "Stream error";
-					controller.enqueue(encoder.encode(`Error: ${errorMessage}`));
-					controller.close();
-				}
-			},
-		});
+/**
+ * Gets one of the current user's conversations with its messages, to resume it
+ */
+export async function getConversation(conversationId: string) {
+	const conversation = await chatService.getConversation(await requireUserId(), conversationId);
+	if (!conversation) {
+		ErrorService.throwNotFound("Conversation not found");
+	}
+	return conversation;
+}
 
-		return new Response(responseStream, {
-			headers: {
-				"Content-Type": "text/plain; charset=utf-8",
-			},
-		});
-	} catch (error) {
-		console.error("Chat action error:", error);
-		return new Response(
-			JSON.stringify({
-				error: error instanceof Error ? error.message : "An error occurred",
-			}),
-			{
-				status: 500,
-				headers: {
-					"Content-Type": "application/json",
-				},
-			}
-		);
+/**
+ * Renames one of the current user's conversations
+ */
+export async function renameConversation(data: z.infer<typeof renameConversationSchema>) {
+	const userId = await requireUserId();
+	const { conversationId, title } = parse(renameConversationSchema, data);
+	if (!(await chatService.renameConversation(userId, conversationId, title))) {
+		ErrorService.throwNotFound("Conversation not found");
+	}
+}
+
+/**
+ * Deletes one of the current user's conversations
+ */
+export async function deleteConversation(conversationId: string) {
+	if (!(await chatService.deleteConversation(await requireUserId(), conversationId))) {
+		ErrorService.throwNotFound("Conversation not found");
 	}
 }
@@ -1,8 +1,21 @@
 "use server";
 
+import { type CreditPackProvider, creditPacks } from "@/config/credit-packs";
+import { routes } from "@/config/routes";
+import { siteConfig } from "@/config/site-config";
 import { auth } from "@/server/auth";
 import type { NewCreditTransaction } from "@/server/db/schema";
-import { getUserCredits, updateUserCredits } from "@/server/services/credits";
+import { assertNotImpersonating } from "@/server/lib/auth";
+import { getProvider } from "@/server/providers";
+import { auditService } from "@/server/services/audit-service";
+import {
+	type CreditBalance,
+	getCreditBalance,
+	getUserCredits,
+	toClientIdempotencyKey,
+	updateUserCredits,
+} from "@/server/services/credits";
+import { ErrorService } from "@/server/services/error-service";
 
 /**
  * Gets the current authenticated user's credit balance.
@@ -17,11 +30,24 @@ export async function getCurrentUserCredits(): Promise<number> {
 	return getUserCredits(session.user.id);
 }
 
+/**
+ * Gets the current authenticated user's balance, credits on hold and upcoming expiries.
+ * @throws Error if the user is not authenticated.
+ */
+export async function getCurrentUserCreditBalance(): Promise<CreditBalance> {
+	const session = await auth();
+	if (!session?.user?.id) {
+		throw new Error("User not authenticated");
+	}
+	return getCreditBalance(session.user.id);
+}
+
 interface SpendCreditsParams {
 	amount: number; // Must be positive, represents the amount to spend
-	type: NewCreditTransaction["type"];
 	description?: string;
 	metadata?: Record<string, unknown>;
+	/** Retries with the same key spend the credits once */
+	idempotencyKey?: string;
 }
 
 /**
@@ -31,14 +57,15 @@ interface SpendCreditsParams {
  */
 export async function spendUserCredits({
 	amount,
-	type,
 	description,
 	metadata,
+	idempotencyKey,
 }: SpendCreditsParams): Promise<void> {
 	const session = await auth();
 	if (!session?.user?.id) {
 		throw new Error("User not authenticated");
 	}
+	await assertNotImpersonating("spend credits");
 	if (amount <= 0) {
 		throw new Error("Amount to spend must be positive.");
 	}
@@ -46,9 +73,10 @@ export async function spendUserCredits({
 	await updateUserCredits({
 		userId: session.user.id,
 		amount: -amount, // Convert to negative for spending
-		type,
+		type: "usage",
 		description,
 		metadata,
+		idempotencyKey: idempotencyKey ? toClientIdempotencyKey(idempotencyKey) : undefined,
 	});
 }
 
@@ -79,6 +107,8 @@ export async function addUserCredits({
 		throw new Error("Amount to add must be positive.");
 	}
 
+	const balanceBefore = await getUserCredits(session.user.id);
+
 	await updateUserCredits({
 		userId: session.user.id,
 		amount: amount, // Positive amount
@@ -86,4 +116,59 @@ export async function addUserCredits({
 		description,
 		metadata,
 	});
+
+	await auditService.record({
+		action: "credits.added",
+		actor: { id: session.user.id, email: session.user.email },
+		target: { type: "user", id: session.user.id },
+		before: { balance: balanceBefore },
+		after: { balance: balanceBefore + amount },
+		metadata: { amount, type, description },
+	});
+}
+
+/**
+ * Starts a checkout for a credit pack.
+ * The credits are granted by the provider's webhook once the order is paid.
+ * @param params.packId - The ID of the credit pack
+ * @param params.provider - The payment provider to check out with
+ * @returns The checkout URL
+ */
+export async function purchaseCreditPack({
+	packId,
+	provider: providerId,
+}: {
+	packId: string;
+	provider: CreditPackProvider;
+}): Promise<string> {
+	const session = await auth();
+	if (!session?.user?.id) {
+		throw new Error("User not authenticated");
+	}
+	await assertNotImpersonating("buy credits");
+
+	const pack = creditPacks.find((candidate) => candidate.id === packId);
+	const productId = pack?.products[providerId];
+	if (!pack || !productId) {
+		ErrorService.throwNotFound("Credit pack not available");
+	}
+
+	const provider = getProvider(providerId);
+	if (!provider?.isEnabled) {
+		ErrorService.throwBadRequest("Payment provider is not enabled");
+	}
+
+	const url = await provider.createCheckoutUrl({
+		productId,
+		email: session.user.email ?? undefined,
+		userId: session.user.id,
+		metadata: { creditPackId: pack.id, user_id: session.user.id },
+		successUrl: `${siteConfig.url}${routes.app.credits}?purchased=${pack.id}`,
+		cancelUrl: `${siteConfig.url}${routes.app.credits}`,
+	});
+	if (!url) {
+		ErrorService.throwBadRequest("Could not start checkout");
+	}
+
+	return url;
 }
@@ -5,6 +5,7 @@ import { generateProjectNameSuggestions } from "@/lib/utils";
 import { createVercelAPIService } from "@/lib/vercel-api";
 import { createDeployment, updateDeployment } from "@/server/actions/deployment-actions";
 import { auth } from "@/server/auth";
+import { deploymentOrchestrator } from "@/server/services/deployment-orchestrator";
 import { getGitHubAccessToken } from "@/server/services/github/github-token-service";
 import { rateLimitService, rateLimits } from "@/server/services/rate-limit-service";
 import { getVercelAccessToken } from "@/server/services/vercel/vercel-service";
@@ -56,6 +57,8 @@ export interface DeploymentResult {
 
 /**
  * Deploy a private repository template to user's GitHub and Vercel accounts
+ * Checks the user's connections, then hands the deployment to the deployment orchestrator,
+ * which records every step so the deployment can be resumed or rolled back.
  */
 export async function deployPrivateRepository(config: DeploymentConfig): Promise<DeploymentResult> {
 	// Use provided userId (for background tasks) or get from auth
@@ -103,6 +106,7 @@ export async function deployPrivateRepository(config: DeploymentConfig): Promise
 		projectName,
 		description,
 		environmentVariables = [],
+		domains = [],
 		githubToken: providedGithubToken,
 		deploymentId,
 	} = config;
@@ -184,245 +188,67 @@ export async function deployPrivateRepository(config: DeploymentConfig): Promise
 		if (!validation.success) {
 			const userError = "Configuration validation failed. Please check your settings.";
 			console.error("[Validation Error] Details:", validation.error);
-			if (currentDeploymentId) {
-				await updateDeployment(currentDeploymentId, { status: "failed", error: userError }, userId);
-			}
+			await updateDeployment(currentDeploymentId, { status: "failed", error: userError }, userId);
 			return {
 				success: false,
 				error: userError,
 			};
 		}
 
-		// Starting deployment
-
-		// Parse templateRepo to get owner and repo name
-		const [templateOwner, templateRepoName] = templateRepo.split("/");
-		if (!templateOwner || !templateRepoName) {
-			const error = "Template repository must be in format 'owner/repo-name'";
-			if (currentDeploymentId) {
-				await updateDeployment(currentDeploymentId, { status: "failed", error }, userId);
-			}
-			return {
-				success: false,
-				error,
-			};
-		}
-
-		// Step 1: Create GitHub repository from template
-		const githubService = createGitHubTemplateService(githubToken);
-
-		// Get the authenticated GitHub user to get their username
-		const userInfo = await githubService.getCurrentUserInfo();
-		if (!userInfo.success || !userInfo.username) {
-			const error =
-				userInfo.error || "Failed to get GitHub user information. Please check your access token.";
-			if (currentDeploymentId) {
-				await updateDeployment(currentDeploymentId, { status: "failed", error }, userId);
-			}
-			return {
-				success: false,
-				error,
-			};
-		}
-
-		const githubUsername = userInfo.username;
+		// Run the deployment as persisted steps, so it can be resumed, retried and rolled back
+		const result = await deploymentOrchestrator.start(
+			currentDeploymentId,
+			userId,
+			{
+				templateRepo,
+				projectName,
+				description: description || `Deployed from ${templateRepo} template`,
+				environmentVariables,
+				domains,
+			},
+			{ githubToken }
+		);
 
-		const repoResult = await githubService.createFromTemplate({
-			templateOwner,
-			templateRepo: templateRepoName,
-			newRepoName: projectName,
-			newRepoOwner: githubUsername,
-			description: description || `Deployed from ${templateRepo} template`,
-			private: false, // Make it public so Vercel can access it
-		});
+		const repo = result.outputs["create-repo"];
+		const project = result.outputs["create-project"];
+		const githubRepo = repo ? { url: repo.url, name: repo.name, cloneUrl: repo.cloneUrl } : undefined;
 
-		if (!repoResult.success) {
-			const error = repoResult.error || "Failed to create GitHub repository";
-			if (currentDeploymentId) {
-				await updateDeployment(currentDeploymentId, { status: "failed", error }, userId);
-			}
+		if (result.canceled) {
 			return {
 				success: false,
-				error,
-				data: {
-					step: "github-repo-creation",
-					details: repoResult.error,
-				},
+				error: "Deployment was canceled.",
 			};
 		}
 
-		// GitHub repository created successfully
-
-		// Extract repo info from the result
-		const repoInfo = {
-			url: repoResult.repoUrl ?? "",
-			name: projectName,
-			cloneUrl: repoResult.details?.cloneUrl ?? repoResult.repoUrl ?? "",
-		};
-
-		// Update deployment record with GitHub info
-		if (currentDeploymentId) {
-			await updateDeployment(currentDeploymentId, {
-				githubRepoUrl: repoInfo.url,
-				githubRepoName: repoInfo.name,
-			}, userId);
-		}
-
-		// Step 2: Create Vercel project
-		const vercelService = createVercelAPIService(vercelToken);
-
-		// First try to create project with git repository
-		let projectResult = await vercelService.createProject({
-			name: projectName,
-			gitRepository: {
-				type: "github" as const,
-				repo: `${githubUsername}/${projectName}`,
-			},
-			framework: "nextjs",
-			// Don't send empty environment variables initially
-			environmentVariables: environmentVariables.length > 0 ? environmentVariables : undefined,
-		});
-
-		// If that fails, try creating without git repository (manual setup)
-		if (!projectResult.success) {
-			// Failed to create project with git repo, trying without...
-
-			projectResult = await vercelService.createProject({
-				name: projectName,
-				framework: "nextjs",
-				// Don't send empty environment variables initially
-				environmentVariables: environmentVariables.length > 0 ? environmentVariables : undefined,
-			});
-
-			// If project creation succeeded without git, try to connect the repository
-			if (projectResult.success && projectResult.projectId) {
-				// Project created without git repo, attempting to connect repository
-				const gitConnectResult = await vercelService.connectGitRepository(projectResult.projectId, {
-					type: "github" as const,
-					repo: `${githubUsername}/${projectName}`,
-				});
-
-				if (!gitConnectResult.success) {
-					// Failed to connect git repository but continuing
-					// Don't fail the deployment, just warn
-				}
-			}
-		}
-
-		if (!projectResult.success || !projectResult.projectId) {
-			// If Vercel project creation failed but GitHub repo was created,
-			// return a special response indicating manual import is needed
-			const error =
-				projectResult.error ??
-				"Failed to create Vercel project. You can manually import the repository.";
-			if (currentDeploymentId) {
-				await updateDeployment(currentDeploymentId, { status: "failed", error }, userId);
-			}
+		if (!result.success) {
+			const details = result.details as { requiresManualImport?: boolean } | undefined;
 			return {
 				success: false,
-				error,
+				error: result.error,
 				data: {
-					step: "vercel-project-creation",
-					details: projectResult.error,
-					githubRepo: repoInfo,
-					requiresManualImport: true,
+					step: result.failedStep,
+					details: result.error,
+					githubRepo,
+					requiresManualImport: details?.requiresManualImport,
 				},
 			};
 		}
 
-		// Vercel project created successfully
-
-		// Step 3: Update deployment record with Vercel project info
-		if (currentDeploymentId) {
-			await updateDeployment(currentDeploymentId, {
-				vercelProjectUrl: projectResult.projectUrl ?? "",
-				vercelDeploymentUrl: `https://${projectName}.vercel.app`,
-			}, userId);
-		}
-
-		// Constants for polling configuration
-		const POLLING_INTERVAL_MS = 3000; // 3 seconds
-		const MAX_DEPLOYMENT_POLL_ATTEMPTS = 20; // Poll for up to ~60 seconds
-
-		// Step 4: Poll for actual deployment status in the background
-		// This ensures we don't block the response but still update the status
-		const pollDeploymentStatus = async () => {
-			let attempts = 0;
-
-			while (attempts < MAX_DEPLOYMENT_POLL_ATTEMPTS) {
-				attempts++;
-				await new Promise((resolve) => setTimeout(resolve, POLLING_INTERVAL_MS));
-
-				try {
-					const projectInfo = await vercelService.getProject(projectResult.projectId ?? "");
-					if (projectInfo.success && projectInfo.data?.latestDeployments?.[0]) {
-						const latestDeployment = projectInfo.data.latestDeployments[0];
-
-						// Check deployment state
-						if (
-							latestDeployment.state === "READY" ||
-							latestDeployment.state === "ERROR" ||
-							latestDeployment.state === "CANCELED"
-						) {
-							const status = latestDeployment.state === "READY" ? "completed" : "failed";
-							const deploymentUrl = latestDeployment.url
-								? `https://${latestDeployment.url}`
-								: `https://${projectName}.vercel.app`;
-
-							// Deployment status updated
-
-							// Update deployment record with final status
-							if (currentDeploymentId) {
-								await updateDeployment(currentDeploymentId, {
-									status,
-									vercelDeploymentUrl: deploymentUrl,
-									error:
-										latestDeployment.state === "ERROR" ? "Vercel deployment failed" : undefined,
-								}, userId);
-							}
-							break;
-						}
-					}
-				} catch (error) {
-					// Poll attempt failed, will retry
-					console.warn(`Deployment poll attempt ${attempts} failed:`, error);
-				}
-			}
-
-			// If we exhausted all attempts, use a more appropriate status
-			if (attempts >= MAX_DEPLOYMENT_POLL_ATTEMPTS && currentDeploymentId) {
-				// Polling timed out, mark with timeout status
-				await updateDeployment(currentDeploymentId, {
-					status: "timeout", // Use timeout status to clearly indicate polling timed out
-					error:
-						"Deployment status check timed out. The deployment may still be running in Vercel.",
-				}, userId);
-			}
-		};
-
-		// Start polling in the background
-		pollDeploymentStatus().catch((error) => {
-			// Failed to poll deployment status - mark as timeout since we couldn't verify status
+		// Vercel webhooks report the result; poll as well in case they are not set up
+		const finishedDeploymentId = currentDeploymentId;
+		deploymentOrchestrator.watchDeployment(finishedDeploymentId, userId).catch((error) => {
 			console.error("Failed to poll deployment status:", error);
-			if (currentDeploymentId) {
-				updateDeployment(currentDeploymentId, {
-					status: "timeout", // Mark as timeout when polling fails completely
-					error: "Unable to verify deployment status. Please check Vercel dashboard.",
-				}, userId).catch((updateError) => {
-					console.error("Failed to update deployment status:", updateError);
-				});
-			}
 		});
 
-		// Return success - Vercel should automatically deploy the GitHub repo
 		return {
 			success: true,
 			message: `Successfully created project ${projectName} on Vercel. The initial deployment will begin shortly.`,
 			data: {
-				githubRepo: repoInfo,
-				vercelProject: {
-					projectId: projectResult.projectId ?? "",
-					projectUrl: projectResult.projectUrl ?? "",
+				githubRepo,
+				vercelProject: project && {
+					projectId: project.projectId,
+					projectUrl: project.projectUrl,
+					deploymentId: result.outputs["trigger-deploy"]?.vercelDeploymentId ?? undefined,
 					deploymentUrl: `https://${projectName}.vercel.app`,
 				},
 			},
@@ -1,18 +1,49 @@
 "use server";
 
-import { and, desc, eq, lt } from "drizzle-orm";
+import { and, desc, eq } from "drizzle-orm";
 import { revalidatePath } from "next/cache";
 import { siteConfig } from "@/config/site-config";
 import { validateProjectName } from "@/lib/schemas/deployment";
 import { auth } from "@/server/auth";
 import { db } from "@/server/db";
 import { type Deployment, deployments, type NewDeployment } from "@/server/db/schema";
+import { assertNotImpersonating, requirePermission } from "@/server/lib/auth";
+import {
+	deploymentOrchestrator,
+	getMissingEnvironmentVariables,
+} from "@/server/services/deployment-orchestrator";
+import { deploymentService } from "@/server/services/deployment-service";
+import { entitlementService } from "@/server/services/entitlement-service";
+import { rbacService } from "@/server/services/rbac";
 import { type DeploymentResult, deployPrivateRepository } from "./deploy-private-repo";
 
 const SHIPKIT_REPO = `${siteConfig.repo.owner}/${siteConfig.repo.name}`;
 
-// Deployments stuck in "deploying" for longer than this are considered stale
-const STALE_DEPLOYMENT_THRESHOLD_MS = 10 * 60 * 1000; // 10 minutes
+/**
+ * Checks that the user's plan includes deployments and has one left this month
+ * @param alreadyCounted - Whether the deployment was created this month, so it already counts
+ *   towards the limit (a retry of it does not use another one)
+ * @returns A message for the user, or null when they can deploy
+ */
+async function getDeploymentEntitlementError(
+	userId: string,
+	alreadyCounted = false
+): Promise<string | null> {
+	const plan = await entitlementService.getPlan({ userId });
+	if (!plan.features.includes("deployments")) {
+		return `Your ${plan.name} plan does not include deployments. Upgrade your plan to deploy.`;
+	}
+
+	const limit = plan.limits.deploymentsPerMonth;
+	if (limit === null) {
+		return null;
+	}
+	const used = await entitlementService.getUsage({ userId }, "deploymentsPerMonth");
+	if (used + (alreadyCounted ? 0 : 1) > limit) {
+		return `You have used all ${limit} deployments included in your ${plan.name} plan this month. Upgrade your plan to deploy more.`;
+	}
+	return null;
+}
 
 /**
  * Initiates a deployment process by creating a deployment record and
@@ -30,6 +61,21 @@ export async function initiateDeployment(formData: FormData): Promise<Deployment
 	}
 	const userId = session.user.id;
 
+	if (!(await rbacService.hasPermission(userId, "deployment", "create"))) {
+		return {
+			success: false,
+			error: "You do not have permission to create deployments.",
+		};
+	}
+
+	const entitlementError = await getDeploymentEntitlementError(userId);
+	if (entitlementError) {
+		return {
+			success: false,
+			error: entitlementError,
+		};
+	}
+
 	const projectName = formData.get("projectName") as string;
 
 	// Validate project name with comprehensive server-side validation using shared schema
@@ -112,10 +158,7 @@ export async function initiateDeployment(formData: FormData): Promise<Deployment
  * Automatically marks stale "deploying" deployments as timed out.
  */
 export async function getUserDeployments(): Promise<Deployment[]> {
-	const session = await auth();
-	if (!session?.user?.id) {
-		throw new Error("Unauthorized");
-	}
+	const userId = await requirePermission("deployment", "read");
 
 	if (!db) {
 		throw new Error("Database not available");
@@ -123,12 +166,12 @@ export async function getUserDeployments(): Promise<Deployment[]> {
 
 	try {
 		// First, mark any stale deployments as timed out
-		await markStaleDeploymentsAsTimedOut(session.user.id);
+		await markStaleDeploymentsAsTimedOut(userId);
 
 		const userDeployments = await db
 			.select()
 			.from(deployments)
-			.where(eq(deployments.userId, session.user.id))
+			.where(eq(deployments.userId, userId))
 			.orderBy(desc(deployments.createdAt));
 
 		return userDeployments;
@@ -142,25 +185,8 @@ export async function getUserDeployments(): Promise<Deployment[]> {
  * Mark deployments that have been stuck in "deploying" state for too long as timed out
  */
 async function markStaleDeploymentsAsTimedOut(userId: string): Promise<void> {
-	if (!db) return;
-
-	const staleThreshold = new Date(Date.now() - STALE_DEPLOYMENT_THRESHOLD_MS);
-
 	try {
-		const result = await db
-			.update(deployments)
-			.set({
-				status: "timeout",
-				error: "Deployment timed out - the deployment process did not complete in the expected time",
-				updatedAt: new Date(),
-			})
-			.where(
-				and(
-					eq(deployments.userId, userId),
-					eq(deployments.status, "deploying"),
-					lt(deployments.createdAt, staleThreshold)
-				)
-			);
+		await deploymentService.markStaleDeployments(userId);
 	} catch (error) {
 		// Log but don't fail the main request
 		console.error("Failed to mark stale deployments as timed out:", error);
@@ -169,19 +195,22 @@ async function markStaleDeploymentsAsTimedOut(userId: string): Promise<void> {
 
 /**
  * Create a new deployment record
+ * Every new deployment starts here, so the plan's deployment limit is checked here too.
  */
 export async function createDeployment(
 	data: Omit<NewDeployment, "id" | "userId" | "createdAt" | "updatedAt">
 ): Promise<Deployment> {
-	const session = await auth();
-	if (!session?.user?.id) {
-		throw new Error("Unauthorized");
-	}
+	const userId = await requirePermission("deployment", "create");
 
 	if (!db) {
 		throw new Error("Database not available");
 	}
 
+	const entitlementError = await getDeploymentEntitlementError(userId);
+	if (entitlementError) {
+		throw new Error(entitlementError);
+	}
+
 	try {
 		// Use a transaction to ensure atomicity
 		const result = await db.transaction(async (tx) => {
@@ -189,7 +218,7 @@ export async function createDeployment(
 				.insert(deployments)
 				.values({
 					...data,
-					userId: session.user.id,
+					userId,
 				})
 				.returning();
 
@@ -223,11 +252,7 @@ export async function updateDeployment(
 	let effectiveUserId = userId;
 
 	if (!effectiveUserId) {
-		const session = await auth();
-		if (!session?.user?.id) {
-			throw new Error("Unauthorized");
-		}
-		effectiveUserId = session.user.id;
+		effectiveUserId = await requirePermission("deployment", "update");
 	}
 
 	if (!db) {
@@ -259,10 +284,8 @@ export async function updateDeployment(
  * Delete a deployment record
  */
 export async function deleteDeployment(id: string): Promise<boolean> {
-	const session = await auth();
-	if (!session?.user?.id) {
-		throw new Error("Unauthorized");
-	}
+	const userId = await requirePermission("deployment", "delete");
+	await assertNotImpersonating("delete deployments");
 
 	if (!db) {
 		throw new Error("Database not available");
@@ -271,7 +294,7 @@ export async function deleteDeployment(id: string): Promise<boolean> {
 	try {
 		const result = await db
 			.delete(deployments)
-			.where(and(eq(deployments.id, id), eq(deployments.userId, session.user.id)));
+			.where(and(eq(deployments.id, id), eq(deployments.userId, userId)));
 
 		revalidatePath("/deployments");
 		return true;
@@ -282,13 +305,11 @@ export async function deleteDeployment(id: string): Promise<boolean> {
 }
 
 /**
- * Cancel a deployment that is stuck in "deploying" state
+ * Cancel a deployment that is stuck in "deploying" state, rolling back what it created
  */
 export async function cancelDeployment(id: string): Promise<Deployment | null> {
-	const session = await auth();
-	if (!session?.user?.id) {
-		throw new Error("Unauthorized");
-	}
+	const userId = await requirePermission("deployment", "update");
+	await assertNotImpersonating("cancel deployments");
 
 	if (!db) {
 		throw new Error("Database not available");
@@ -299,7 +320,7 @@ export async function cancelDeployment(id: string): Promise<Deployment | null> {
 		const [existingDeployment] = await db
 			.select()
 			.from(deployments)
-			.where(and(eq(deployments.id, id), eq(deployments.userId, session.user.id)))
+			.where(and(eq(deployments.id, id), eq(deployments.userId, userId)))
 			.limit(1);
 
 		if (!existingDeployment) {
@@ -317,20 +338,109 @@ export async function cancelDeployment(id: string): Promise<Deployment | null> {
 				error: "Deployment was canceled by user",
 				updatedAt: new Date(),
 			})
-			.where(and(eq(deployments.id, id), eq(deployments.userId, session.user.id)))
+			.where(and(eq(deployments.id, id), eq(deployments.userId, userId)))
 			.returning();
 
-		if (canceledDeployment) {
-			revalidatePath("/deployments");
+		if (!canceledDeployment) {
+			return null;
 		}
 
-		return canceledDeployment || null;
+		// Remove the GitHub repository and Vercel project created so far. A run still in
+		// progress stops before its next step and rolls back what it finishes.
+		let rolledBackDeployment: Deployment | null = null;
+		try {
+			const { errors } = await deploymentOrchestrator.rollback(id, userId);
+			if (errors.length > 0) {
+				rolledBackDeployment = await deploymentService.updateDeployment(id, {
+					error: `Deployment was canceled by user. Some resources could not be removed: ${errors
+						.map((rollbackError) => rollbackError.error)
+						.join(" ")}`,
+				});
+			}
+		} catch (rollbackError) {
+			console.error("Failed to roll back canceled deployment:", rollbackError);
+		}
+
+		revalidatePath("/deployments");
+		return rolledBackDeployment ?? (await deploymentService.getUserDeployment(userId, id));
 	} catch (error) {
 		console.error("Failed to cancel deployment:", error);
 		throw error instanceof Error ? error : new Error("Failed to cancel deployment");
 	}
 }
 
+/**
+ * Retry a failed or timed out deployment from the step where it stopped
+ * Completed steps are kept, so the repository and project are not created twice.
+ * Environment variable values are not stored: if they have not been uploaded yet, the retry
+ * returns their keys in `missingEnvironmentVariables` until it is given the values again.
+ * @param id - The deployment ID
+ * @param environmentVariables - The environment variable values, by key
+ */
+export async function retryDeployment(
+	id: string,
+	environmentVariables: Record<string, string> = {}
+): Promise<{ success: boolean; error?: string; missingEnvironmentVariables?: string[] }> {
+	const userId = await requirePermission("deployment", "update");
+
+	const deployment = await deploymentService.getUserDeployment(userId, id);
+	if (!deployment) {
+		return { success: false, error: "Deployment not found" };
+	}
+
+	if (deployment.status !== "failed" && deployment.status !== "timeout") {
+		return { success: false, error: "Only failed or timed out deployments can be retried" };
+	}
+
+	const steps = await deploymentOrchestrator.getSteps(id);
+	if (steps.length === 0 || steps.some((step) => step.status === "rolled_back")) {
+		return { success: false, error: "This deployment cannot be resumed. Start a new one instead." };
+	}
+
+	const missingEnvironmentVariables = getMissingEnvironmentVariables(steps, environmentVariables);
+	if (missingEnvironmentVariables.length > 0) {
+		return {
+			success: false,
+			error: "Enter the environment variable values again to retry this deployment.",
+			missingEnvironmentVariables,
+		};
+	}
+
+	const startOfMonth = new Date();
+	startOfMonth.setUTCDate(1);
+	startOfMonth.setUTCHours(0, 0, 0, 0);
+	const entitlementError = await getDeploymentEntitlementError(
+		userId,
+		deployment.createdAt >= startOfMonth
+	);
+	if (entitlementError) {
+		return { success: false, error: entitlementError };
+	}
+
+	// Resume in the background, like initiateDeployment
+	void (async () => {
+		try {
+			const result = await deploymentOrchestrator.resume(id, userId, {
+				secrets: environmentVariables,
+			});
+			if (result.success) {
+				await deploymentOrchestrator.watchDeployment(id, userId);
+			}
+		} catch (error) {
+			console.error(`Failed to resume deployment ${id}:`, error);
+			await deploymentService
+				.updateDeployment(id, {
+					status: "failed",
+					error: error instanceof Error ? error.message : "Failed to resume deployment",
+				})
+				.catch(() => undefined);
+		}
+	})();
+
+	revalidatePath("/deployments");
+	return { success: true };
+}
+
 /**
  * Initialize demo deployments for new users
  */
@@ -0,0 +1,27 @@
+"use server";
+
+import { logger } from "@/lib/logger";
+import { auth } from "@/server/auth";
+import { type EntitlementSummary, entitlementService } from "@/server/services/entitlement-service";
+import { rbacService } from "@/server/services/rbac";
+
+/**
+ * Gets the plan, features and limit usage of the signed-in user, for `useEntitlements`
+ * @param teamId - The active team; its plan is used when the user is a member
+ * @returns The entitlements, or null when signed out
+ */
+export async function getEntitlements(teamId?: string | null): Promise<EntitlementSummary | null> {
+	const userId = (await auth())?.user?.id;
+	if (!userId) {
+		return null;
+	}
+
+	try {
+		const isMember =
+			!!teamId && (await rbacService.hasPermission(userId, "team", "read", { teamId }));
+		return await entitlementService.getSummary(isMember ? { teamId } : { userId });
+	} catch (error) {
+		logger.error("Failed to load entitlements", { userId, teamId, error });
+		throw error;
+	}
+}
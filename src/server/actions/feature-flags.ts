@@ -0,0 +1,180 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { routes } from "@/config/routes";
+import { logger } from "@/lib/logger";
+import { auth } from "@/server/auth";
+import { requireAdmin } from "@/server/lib/auth";
+import { getFlags } from "@/server/lib/flags";
+import { auditService } from "@/server/services/audit-service";
+import { ErrorService } from "@/server/services/error-service";
+import {
+	FEATURE_FLAG_TYPES,
+	type FeatureFlagDefinition,
+	type FeatureFlagValue,
+	featureFlagService,
+	type SaveFeatureFlagInput,
+} from "@/server/services/feature-flag-service";
+import { rbacService } from "@/server/services/rbac";
+
+const targetList = z.array(z.string().trim().min(1).max(255)).max(500).optional();
+
+const featureFlagSchema = z.object({
+	key: z
+		.string()
+		.trim()
+		.min(1, "Flag key is required")
+		.max(100)
+		.regex(
+			/^[a-z0-9][a-z0-9._-]*$/,
+			"Use lowercase letters, numbers, dots, dashes and underscores"
+		),
+	description: z.string().max(500).nullable(),
+	type: z.enum(FEATURE_FLAG_TYPES),
+	enabled: z.boolean(),
+	variants: z.array(z.string().trim().min(1).max(100)).max(20),
+	defaultValue: z.string().min(1),
+	rules: z
+		.array(
+			z.object({
+				userIds: targetList,
+				teamIds: targetList,
+				roles: targetList,
+				plans: targetList,
+				rollout: z.number().min(0).max(100),
+				value: z.string().min(1),
+			})
+		)
+		.max(50),
+	clientVisible: z.boolean(),
+});
+
+function parse<T extends z.ZodType>(schema: T, data: unknown): z.infer<T> {
+	const result = schema.safeParse(data);
+	if (!result.success) {
+		throw ErrorService.createError(
+			"VALIDATION_ERROR",
+			result.error.issues.map((issue) => issue.message).join("; ")
+		);
+	}
+	return result.data;
+}
+
+/**
+ * Drops the fields that only matter for display from an audit snapshot
+ */
+function auditSnapshot(flag: FeatureFlagDefinition | null) {
+	if (!flag) {
+		return null;
+	}
+	const { updatedAt: _updatedAt, ...snapshot } = flag;
+	return snapshot;
+}
+
+/**
+ * Lists every feature flag (admin only)
+ */
+export async function getFeatureFlags(): Promise<FeatureFlagDefinition[]> {
+	try {
+		await requireAdmin();
+		return [...(await featureFlagService.getFlags()).values()];
+	} catch (error) {
+		throw ErrorService.handleError(error);
+	}
+}
+
+/**
+ * Creates or replaces a feature flag (admin only)
+ */
+export async function saveFeatureFlag(data: SaveFeatureFlagInput) {
+	try {
+		const session = await requireAdmin();
+		const input = parse(featureFlagSchema, data);
+
+		const { before, after } = await featureFlagService.saveFlag(input, session.user.id);
+		logger.info("Admin saved feature flag", { key: input.key, userId: session.user.id });
+		await auditService.record({
+			action: "feature_flag.updated",
+			actor: { id: session.user.id, email: session.user.email },
+			target: { type: "feature_flag", id: input.key },
+			before: auditSnapshot(before),
+			after: auditSnapshot(after),
+		});
+
+		revalidatePath(routes.admin.flags);
+		return { success: true };
+	} catch (error) {
+		throw ErrorService.handleError(error);
+	}
+}
+
+/**
+ * Turns a feature flag on or off for everyone (admin only)
+ */
+export async function setFeatureFlagEnabled(key: string, enabled: boolean) {
+	try {
+		const session = await requireAdmin();
+		await featureFlagService.setEnabled(key, enabled, session.user.id);
+		await auditService.record({
+			action: "feature_flag.updated",
+			actor: { id: session.user.id, email: session.user.email },
+			target: { type: "feature_flag", id: key },
+			before: { enabled: !enabled },
+			after: { enabled },
+		});
+
+		revalidatePath(routes.admin.flags);
+		return { success: true };
+	} catch (error) {
+		throw ErrorService.handleError(error);
+	}
+}
+
+/**
+ * Deletes a feature flag (admin only)
+ */
+export async function deleteFeatureFlag(key: string) {
+	try {
+		const session = await requireAdmin();
+		const deleted = await featureFlagService.deleteFlag(key);
+		if (!deleted) {
+			ErrorService.throwNotFound("Feature flag not found");
+		}
+		await auditService.record({
+			action: "feature_flag.deleted",
+			actor: { id: session.user.id, email: session.user.email },
+			target: { type: "feature_flag", id: key },
+			before: auditSnapshot(deleted),
+		});
+
+		revalidatePath(routes.admin.flags);
+		return { success: true };
+	} catch (error) {
+		throw ErrorService.handleError(error);
+	}
+}
+
+/**
+ * Evaluates the client-visible flags for the signed-in user, for `useFlag`
+ * @param teamId - The active team, for team rules and team roles
+ */
+export async function getClientFeatureFlags(
+	teamId?: string | null
+): Promise<Record<string, FeatureFlagValue>> {
+	try {
+		// Team rules only apply to the team's members
+		const userId = (await auth())?.user?.id;
+		const isMember =
+			!!teamId && !!userId && (await rbacService.hasPermission(userId, "team", "read", { teamId }));
+		return await getFlags({
+			userId: userId ?? null,
+			teamId: isMember ? teamId : null,
+			clientVisibleOnly: true,
+		});
+	} catch (error) {
+		// Flags must never break the page; `useFlag` falls back to its default values
+		logger.error("Failed to evaluate client feature flags", error);
+		return {};
+	}
+}
@@ -1,18 +1,71 @@
 "use server";
 
+import { revalidatePath } from "next/cache";
 import { z } from "zod";
-import { createFeedback } from "@/server/services/feedback-service";
+import { routes } from "@/config/routes";
+import { logger } from "@/lib/logger";
+import { auth } from "@/server/auth";
+import { requireAdmin } from "@/server/lib/auth";
+import { auditService } from "@/server/services/audit-service";
+import { ErrorService } from "@/server/services/error-service";
+import {
+	addFeedbackMessage,
+	createFeedback,
+	FEEDBACK_MESSAGE_TYPES,
+	FEEDBACK_STATUSES,
+	type FeedbackThread,
+	getFeedbackThread as getThread,
+	mergeFeedback as merge,
+	toggleFeedbackVote as toggleVote,
+	updateFeedbackTriage,
+} from "@/server/services/feedback-service";
 
 const feedbackSchema = z.object({
 	content: z.string().min(1, "Feedback cannot be empty"),
 	source: z.enum(["dialog", "popover"]),
 	metadata: z.record(z.unknown()).optional(),
+	/** Lets anonymous submitters get a reply; signed-in users are replied to at their account address */
+	email: z
+		.string()
+		.trim()
+		.email("Enter a valid email address")
+		.max(255)
+		.optional()
+		.or(z.literal("")),
+	pageUrl: z.string().max(2048).optional(),
 });
 
+const triageSchema = z.object({
+	status: z.enum(FEEDBACK_STATUSES).optional(),
+	tags: z.array(z.string().max(100)).max(50).optional(),
+	assigneeId: z.string().max(255).nullable().optional(),
+});
+
+const messageSchema = z.object({
+	type: z.enum(FEEDBACK_MESSAGE_TYPES),
+	body: z.string().trim().min(1, "Write a message first").max(10000),
+});
+
+function parse<T extends z.ZodType>(schema: T, data: unknown): z.infer<T> {
+	const result = schema.safeParse(data);
+	if (!result.success) {
+		throw ErrorService.createError(
+			"VALIDATION_ERROR",
+			result.error.issues.map((issue) => issue.message).join("; ")
+		);
+	}
+	return result.data;
+}
+
 export const submitFeedback = async (input: z.infer<typeof feedbackSchema>) => {
 	try {
 		const validatedInput = feedbackSchema.parse(input);
-		const result = await createFeedback(validatedInput);
+		const session = await auth();
+		const result = await createFeedback({
+			...validatedInput,
+			userId: session?.user?.id ?? null,
+			email: session?.user?.email || validatedInput.email || null,
+		});
 		return result; // Return the FeedbackResult directly
 	} catch (error) {
 		console.error("Error submitting feedback:", error);
@@ -22,3 +75,114 @@ export const submitFeedback = async (input: z.infer<typeof feedbackSchema>) => {
 		};
 	}
 };
+
+/**
+ * Gets a feedback item with its thread and duplicates (admin only)
+ */
+export async function getFeedbackThread(id: string): Promise<FeedbackThread> {
+	try {
+		await requireAdmin();
+		const thread = await getThread(id);
+		if (!thread) {
+			ErrorService.throwNotFound("Feedback not found");
+		}
+		return thread;
+	} catch (error) {
+		throw ErrorService.handleError(error);
+	}
+}
+
+/**
+ * Updates the status, tags or assignee of a feedback item (admin only)
+ */
+export async function updateFeedback(id: string, data: z.infer<typeof triageSchema>) {
+	try {
+		const session = await requireAdmin();
+		const update = parse(triageSchema, data);
+		const { before, after } = await updateFeedbackTriage(id, update);
+
+		await auditService.record({
+			action: "feedback.updated",
+			actor: { id: session.user.id, email: session.user.email },
+			target: { type: "feedback", id },
+			before: { status: before.status, tags: before.tags, assigneeId: before.assigneeId },
+			after: { status: after.status, tags: after.tags, assigneeId: after.assigneeId },
+		});
+
+		revalidatePath(routes.admin.feedback);
+		return { success: true };
+	} catch (error) {
+		throw ErrorService.handleError(error);
+	}
+}
+
+/**
+ * Replies to the submitter by email, or adds an internal note (admin only)
+ * @returns Whether the reply was emailed; notes and replies to feedback without an address are not
+ */
+export async function addFeedbackReply(id: string, data: z.infer<typeof messageSchema>) {
+	try {
+		const session = await requireAdmin();
+		const input = parse(messageSchema, data);
+		const { message, emailed } = await addFeedbackMessage({
+			feedbackId: id,
+			authorId: session.user.id,
+			...input,
+		});
+
+		if (input.type === "reply") {
+			logger.info("Admin replied to feedback", {
+				feedbackId: id,
+				emailed,
+				userId: session.user.id,
+			});
+			await auditService.record({
+				action: "feedback.replied",
+				actor: { id: session.user.id, email: session.user.email },
+				target: { type: "feedback", id },
+				metadata: { messageId: message.id, emailed },
+			});
+		}
+
+		revalidatePath(routes.admin.feedback);
+		return { success: true, emailed };
+	} catch (error) {
+		throw ErrorService.handleError(error);
+	}
+}
+
+/**
+ * Adds or removes the admin's vote on a feedback item (admin only)
+ */
+export async function toggleFeedbackVote(id: string) {
+	try {
+		const session = await requireAdmin();
+		const result = await toggleVote(id, session.user.id);
+		revalidatePath(routes.admin.feedback);
+		return result;
+	} catch (error) {
+		throw ErrorService.handleError(error);
+	}
+}
+
+/**
+ * Merges a duplicate feedback item into another one (admin only)
+ */
+export async function mergeFeedback(duplicateId: string, targetId: string) {
+	try {
+		const session = await requireAdmin();
+		const { duplicate, target } = await merge(duplicateId, targetId);
+
+		await auditService.record({
+			action: "feedback.merged",
+			actor: { id: session.user.id, email: session.user.email },
+			target: { type: "feedback", id: target.id },
+			metadata: { duplicateId: duplicate.id },
+		});
+
+		revalidatePath(routes.admin.feedback);
+		return { success: true };
+	} catch (error) {
+		throw ErrorService.handleError(error);
+	}
+}
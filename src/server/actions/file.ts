@@ -2,9 +2,15 @@
 
 import { revalidateTag } from "next/cache";
 import { logger } from "@/lib/logger";
+import {
+	isDeclaredContentTypeValid,
+	SNIFF_BYTE_LENGTH,
+	sniffContentType,
+} from "@/lib/utils/sniff-content-type";
 import { fileSchema } from "@/server/actions/schemas";
 import { auth } from "@/server/auth";
-import { deleteFile, uploadFile } from "@/server/services/file";
+import { uploadFile } from "@/server/services/file";
+import { uploadService } from "@/server/services/upload-service";
 import { userService } from "@/server/services/user-service";
 
 export const uploadFileAction = async (
@@ -21,7 +27,15 @@ export const uploadFileAction = async (
 	}
 
 	const validatedFile = fileSchema.parse(file);
-	const { fileName, url } = await uploadFile(validatedFile);
+
+	// The declared type comes from the browser, so check it against the file's magic bytes
+	const head = new Uint8Array(await validatedFile.slice(0, SNIFF_BYTE_LENGTH).arrayBuffer());
+	if (!isDeclaredContentTypeValid(validatedFile.type, sniffContentType(head))) {
+		throw new Error("File content does not match its type");
+	}
+	await uploadService.assertWithinQuota({ userId: session.user.id }, validatedFile.size);
+
+	const { fileName, key, url, size, contentType } = await uploadFile(validatedFile);
 
 	// Log the file name and URL
 	logger.info(`File uploaded - Name: ${fileName}, URL: ${url}`);
@@ -29,7 +43,10 @@ export const uploadFileAction = async (
 	// Add the file to the user's profile
 	const userFile = await userService.addUserFile(session.user.id, {
 		title: fileName,
-		location: url,
+		key,
+		url,
+		size,
+		contentType,
 	});
 	revalidateTag("files");
 	if (!userFile) {
@@ -38,22 +55,18 @@ export const uploadFileAction = async (
 	return { fileName, fileId: userFile.id };
 };
 
-export async function deleteFileAction({
-	fileId,
-	fileName,
-}: {
-	fileId: number;
-	fileName: string;
-}): Promise<void> {
+/**
+ * Deletes one of the current user's files from their profile and from storage
+ */
+export async function deleteFileAction({ fileId }: { fileId: number }): Promise<void> {
 	const session = await auth();
 	if (!session?.user?.id) {
 		throw new Error("Unauthorized");
 	}
 
 	try {
+		// Removes the stored object too, found from the file's location
 		await userService.deleteUserFile(session.user.id, fileId);
-		await deleteFile(fileName);
-		// Remove the file from the user's profile
 		revalidateTag("files");
 
 		logger.info(`File deleted successfully: ${fileId}`);
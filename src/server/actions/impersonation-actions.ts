@@ -0,0 +1,100 @@
+"use server";
+
+import { eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { logger } from "@/lib/logger";
+import { auth } from "@/server/auth";
+import { db } from "@/server/db";
+import { users } from "@/server/db/schema";
+import { requireAdmin } from "@/server/lib/auth";
+import { isAdmin } from "@/server/services/admin-service";
+import { auditService } from "@/server/services/audit-service";
+import { ErrorService } from "@/server/services/error-service";
+import { impersonationService } from "@/server/services/impersonation-service";
+
+const startSchema = z.object({
+	userId: z.string().min(1),
+	reason: z.string().trim().max(500).optional(),
+});
+
+/**
+ * Starts seeing the app as a user (admin only)
+ * Admins cannot be impersonated, so impersonation never grants more access than the admin has.
+ */
+export async function startImpersonation(data: z.infer<typeof startSchema>) {
+	try {
+		const session = await requireAdmin();
+		const result = startSchema.safeParse(data);
+		if (!result.success) {
+			ErrorService.throwBadRequest("Invalid impersonation request");
+		}
+		const { userId, reason } = result.data;
+
+		const target = await db?.query.users.findFirst({
+			where: eq(users.id, userId),
+			columns: { email: true },
+		});
+		if (target && (await isAdmin({ email: target.email, userId }))) {
+			ErrorService.throwForbidden("Admins cannot be impersonated");
+		}
+
+		const { session: impersonation, user } = await impersonationService.start({
+			adminId: session.user.id,
+			userId,
+			reason,
+		});
+
+		logger.info("Admin started impersonating a user", {
+			adminId: session.user.id,
+			userId,
+			impersonationId: impersonation.id,
+		});
+		await auditService.record({
+			action: "impersonation.started",
+			actor: { id: session.user.id, email: session.user.email },
+			target: { type: "user", id: user.id },
+			metadata: {
+				impersonationId: impersonation.id,
+				userEmail: user.email,
+				reason: impersonation.reason,
+				expiresAt: impersonation.expiresAt.toISOString(),
+			},
+		});
+
+		revalidatePath("/", "layout");
+		return { success: true };
+	} catch (error) {
+		throw ErrorService.handleError(error);
+	}
+}
+
+/**
+ * Stops impersonating and returns the admin to their own session
+ */
+export async function stopImpersonation() {
+	try {
+		const session = await auth({ ignoreImpersonation: true });
+		if (!session?.user?.id) {
+			ErrorService.throwUnauthorized("You must be logged in");
+		}
+
+		const stopped = await impersonationService.stop(session.user.id);
+		if (stopped) {
+			await auditService.record({
+				action: "impersonation.stopped",
+				actor: { id: session.user.id, email: session.user.email },
+				target: { type: "user", id: stopped.userId },
+				metadata: {
+					impersonationId: stopped.id,
+					expired: stopped.expiresAt.getTime() <= Date.now(),
+				},
+			});
+		}
+
+		revalidatePath("/", "layout");
+		return { success: true };
+	} catch (error) {
+		throw ErrorService.handleError(error);
+	}
+}
@@ -36,11 +36,15 @@ import { logger } from "@/lib/logger";
 import { redirect } from "@/lib/utils/redirect";
 import { db } from "@/server/db";
 import { payments, users } from "@/server/db/schema";
-import { getSession, requireAdmin } from "@/server/lib/auth";
-import { getProvider } from "@/server/providers";
+import { assertNotImpersonating, getSession, requireAdmin } from "@/server/lib/auth";
+import { getProvider, initializePaymentProviders } from "@/server/providers";
 import { isAdmin } from "@/server/services/admin-service";
+import { auditService } from "@/server/services/audit-service";
+import { ErrorService } from "@/server/services/error-service";
 import { PaymentService } from "@/server/services/payment-service";
+import { type PlanSyncResult, planService } from "@/server/services/plan-service";
 import { RateLimitService } from "@/server/services/rate-limit-service";
+import { RefundService } from "@/server/services/refund-service";
 import type { ImportProvider, ImportStats } from "@/types/payments";
 
 // Rate limiting service instance - prevents API abuse
@@ -343,6 +347,7 @@ export async function createPolarCheckoutUrl(
 	try {
 		const session = await getSession();
 		if (!session?.user?.id) throw new Error("User not authenticated");
+		await assertNotImpersonating("check out");
 
 		const { createCheckoutUrl } = await import("@/lib/polar");
 
@@ -371,6 +376,9 @@ export async function createPolarCheckoutUrl(
 
 		return { success: true, url };
 	} catch (error) {
+		if (ErrorService.isAppError(error)) {
+			return { success: false, message: error.message };
+		}
 		console.error("Error creating Polar checkout URL:", error);
 		return {
 			success: false,
@@ -379,6 +387,27 @@ export async function createPolarCheckoutUrl(
 	}
 }
 
+/**
+ * Server action to sync the pricing plans from all enabled providers
+ * The cron job does the same on a schedule; this lets an admin pick up a price change right away.
+ * @returns The sync result per provider
+ */
+export async function syncPricingPlans(): Promise<PlanSyncResult[]> {
+	const session = await requireAdmin();
+
+	const results = await planService.syncPlans();
+
+	await auditService.record({
+		action: "plans.synced",
+		actor: { id: session.user.id, email: session.user.email },
+		target: { type: "plans" },
+		metadata: { results },
+	});
+
+	revalidatePath(routes.pricing);
+	return results;
+}
+
 /**
  * Server action to import payments from a specific provider or all providers
  * @param provider - The payment provider to import from (or "all" for all providers)
@@ -455,6 +484,13 @@ export async function importPayments(
 			result: typeof result === "object" ? Object.keys(result) : result,
 		});
 
+		await auditService.record({
+			action: "payments.imported",
+			actor: { id: userId, email: session.user.email },
+			target: { type: "payments", id: provider },
+			metadata: { provider, result },
+		});
+
 		return result;
 	} catch (error) {
 		const errorMessage = error instanceof Error ? error.message : String(error);
@@ -587,6 +623,13 @@ export async function deleteAllPayments(): Promise<{
 			deletedCount: countBefore,
 		});
 
+		await auditService.record({
+			action: "payments.deleted",
+			actor: { id: userId, email: session.user.email },
+			target: { type: "payments" },
+			metadata: { deletedCount: countBefore },
+		});
+
 		// Revalidate the admin payments and users pages
 		revalidatePath("/admin/payments");
 		revalidatePath("/admin/users");
@@ -648,6 +691,13 @@ export async function refreshAllPayments(): Promise<{
 			importResults,
 		});
 
+		await auditService.record({
+			action: "payments.imported",
+			actor: { id: userId, email: session.user.email },
+			target: { type: "payments", id: "all" },
+			metadata: { provider: "all", deletedCount, result: importResults },
+		});
+
 		// Revalidate the admin payments and users pages
 		revalidatePath("/admin/payments");
 		revalidatePath("/admin/users");
@@ -667,6 +717,43 @@ export async function refreshAllPayments(): Promise<{
 	}
 }
 
+/**
+ * Server action to refund a payment in full or in part through its provider
+ * Recording the refund revokes GitHub access, takes back credits and emails the user.
+ * @param data.amount Amount to refund in cents; defaults to the amount not yet refunded
+ * @returns Whether the refund was issued, or why not
+ */
+export async function refundPayment(data: {
+	paymentId: number;
+	amount?: number;
+	reason?: string;
+}): Promise<{ success: boolean; error?: string }> {
+	const session = await requireAdmin();
+
+	try {
+		await initializePaymentProviders();
+		await RefundService.issueRefund({
+			paymentId: data.paymentId,
+			amount: data.amount,
+			reason: data.reason?.trim() || null,
+			actor: { id: session.user.id, email: session.user.email },
+		});
+
+		revalidatePath("/admin/payments");
+		return { success: true };
+	} catch (error) {
+		logger.error("Error refunding payment", {
+			paymentId: data.paymentId,
+			userId: session.user.id,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return {
+			success: false,
+			error: error instanceof Error ? error.message : "Failed to refund payment",
+		};
+	}
+}
+
 export async function createPayment(data: {
 	provider: "stripe" | "lemonsqueezy" | "polar";
 	email?: string;
@@ -734,6 +821,13 @@ export async function importPaymentsFromAllProviders() {
 		// Import payments from all providers
 		const importResults = await PaymentService.importAllPayments();
 
+		await auditService.record({
+			action: "payments.imported",
+			actor: { id: userId, email: session.user.email },
+			target: { type: "payments", id: "all" },
+			metadata: { provider: "all", result: importResults },
+		});
+
 		return {
 			success: true,
 			results: importResults,
@@ -1,13 +1,26 @@
 "use server";
 
 import { revalidatePath } from "next/cache";
+import { assertNotImpersonating, requirePermission, withPermission } from "@/server/lib/auth";
+import { ErrorService } from "@/server/services/error-service";
 import { projectService } from "@/server/services/project-service";
+import { teamService } from "@/server/services/team-service";
 
 /**
  * Creates a new project and adds the current user as the owner.
  * @returns The created project with its members
  */
 export async function createProject(name: string, teamId: string, userId: string) {
+	// "personal" is a placeholder for the user's personal team
+	const personalTeam =
+		!teamId || teamId === "personal" ? await teamService.getPersonalTeam(userId) : null;
+	const sessionUserId = await requirePermission("project", "create", {
+		teamId: personalTeam?.id ?? teamId,
+	});
+	if (sessionUserId !== userId) {
+		ErrorService.throwForbidden("You can only create projects for yourself");
+	}
+
 	const project = await projectService.createProject(teamId, name, userId);
 	revalidatePath("/");
 	return project;
@@ -17,29 +30,37 @@ export async function createProject(name: string, teamId: string, userId: string
  * Updates a project's information.
  * @returns The updated project with its members
  */
-export async function updateProject(projectId: string, name: string) {
-	const project = await projectService.updateProject(projectId, name);
-	revalidatePath("/");
-	return project;
-}
+export const updateProject = withPermission(
+	{ resource: "project", action: "update", context: ([projectId]) => ({ projectId }) },
+	async (projectId: string, name: string) => {
+		const project = await projectService.updateProject(projectId, name);
+		revalidatePath("/");
+		return project;
+	}
+);
 
 /**
  * Deletes a project and all associated data.
  * @returns True if deleted successfully
  */
-export async function deleteProject(projectId: string) {
-	const success = await projectService.deleteProject(projectId);
-	revalidatePath("/");
-	return success;
-}
+export const deleteProject = withPermission(
+	{ resource: "project", action: "delete", context: ([projectId]) => ({ projectId }) },
+	async (projectId: string) => {
+		await assertNotImpersonating("delete projects");
+		const success = await projectService.deleteProject(projectId);
+		revalidatePath("/");
+		return success;
+	}
+);
 
 /**
  * Gets all projects for a team.
  * @returns The team's projects with their members
  */
-export async function getTeamProjects(teamId: string) {
-	return projectService.getTeamProjects(teamId);
-}
+export const getTeamProjects = withPermission(
+	{ resource: "project", action: "read", context: ([teamId]) => ({ teamId }) },
+	async (teamId: string) => projectService.getTeamProjects(teamId)
+);
 
 /**
  * Checks if a user has access to a project.
@@ -53,36 +74,48 @@ export async function userHasProjectAccess(userId: string, projectId: string) {
  * Gets all members of a project.
  * @returns The project members with their user details
  */
-export async function getProjectMembers(projectId: string) {
-	return projectService.getProjectMembers(projectId);
-}
+export const getProjectMembers = withPermission(
+	{ resource: "project", action: "read", context: ([projectId]) => ({ projectId }) },
+	async (projectId: string) => projectService.getProjectMembers(projectId)
+);
 
 /**
  * Adds a member to a project.
  * @returns The created project member
  */
-export async function addProjectMember(projectId: string, userId: string, role: string) {
-	const member = await projectService.addProjectMember(projectId, userId, role);
-	revalidatePath("/");
-	return member;
-}
+export const addProjectMember = withPermission(
+	{ resource: "project", action: "update", context: ([projectId]) => ({ projectId }) },
+	async (projectId: string, userId: string, role: string) => {
+		const member = await projectService.addProjectMember(projectId, userId, role);
+		revalidatePath("/");
+		return member;
+	}
+);
 
 /**
  * Removes a member from a project.
  * @returns True if removed successfully
  */
-export async function removeProjectMember(projectId: string, userId: string) {
-	const success = await projectService.removeProjectMember(projectId, userId);
-	revalidatePath("/");
-	return success;
-}
+export const removeProjectMember = withPermission(
+	{ resource: "project", action: "update", context: ([projectId]) => ({ projectId }) },
+	async (projectId: string, userId: string) => {
+		await assertNotImpersonating("remove project members");
+		const success = await projectService.removeProjectMember(projectId, userId);
+		revalidatePath("/");
+		return success;
+	}
+);
 
 /**
  * Updates a project member's role.
  * @returns The updated project member
  */
-export async function updateProjectMemberRole(projectId: string, userId: string, role: string) {
-	const member = await projectService.updateProjectMemberRole(projectId, userId, role);
-	revalidatePath("/");
-	return member;
-}
+export const updateProjectMemberRole = withPermission(
+	{ resource: "project", action: "update", context: ([projectId]) => ({ projectId }) },
+	async (projectId: string, userId: string, role: string) => {
+		await assertNotImpersonating("change project member roles");
+		const member = await projectService.updateProjectMemberRole(projectId, userId, role);
+		revalidatePath("/");
+		return member;
+	}
+);
@@ -1,9 +1,23 @@
 "use server";
 
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import {
+	RBAC_ACTIONS,
+	RBAC_RESOURCES,
+	RBAC_SCOPES,
+	type RbacPermissionKey,
+	type RbacScope,
+} from "@/config/rbac";
+import { routes } from "@/config/routes";
+import { logger } from "@/lib/logger";
+import { requireAdmin } from "@/server/lib/auth";
+import { auditService } from "@/server/services/audit-service";
 import { cacheService } from "@/server/services/cache-service";
 import { ErrorService } from "@/server/services/error-service";
 import { rateLimitService, rateLimits } from "@/server/services/rate-limit-service";
 import { rbacService } from "@/server/services/rbac";
+import { ValidationService } from "@/server/services/validation-service";
 
 /**
  * Gets all roles for a user across all contexts
@@ -23,3 +37,104 @@ export async function getUserRoles(userId: string) {
 		throw ErrorService.handleError(error);
 	}
 }
+
+/**
+ * Gets a role's current permissions, for the before side of an audit entry
+ */
+async function getCurrentPermissions(role: { scope: RbacScope; name: string }) {
+	const map = await rbacService.getRolePermissionMap();
+	return [...(map[`${role.scope}:${role.name.toLowerCase()}`] ?? [])].sort();
+}
+
+const rolePermissionsSchema = z.object({
+	scope: z.enum(RBAC_SCOPES),
+	name: z
+		.string()
+		.trim()
+		.min(1, "Role name is required")
+		.max(50)
+		.regex(/^[a-z0-9_-]+$/i, "Use letters, numbers, dashes and underscores"),
+	description: z.string().max(500).nullish(),
+	permissions: z.array(
+		z.custom<RbacPermissionKey>(
+			(value) =>
+				typeof value === "string" &&
+				RBAC_RESOURCES.some((resource) =>
+					RBAC_ACTIONS.some((action) => value === `${resource}:${action}`)
+				),
+			"Unknown permission"
+		)
+	),
+});
+
+/**
+ * Replaces a role's permissions (admin only)
+ * Saving a default role stores a copy that overrides the defaults.
+ */
+export async function saveRolePermissions(data: z.infer<typeof rolePermissionsSchema>) {
+	try {
+		const session = await requireAdmin();
+		await ValidationService.validateOrThrow(rolePermissionsSchema, data);
+
+		const before = await getCurrentPermissions(data);
+		await rbacService.setRolePermissions(
+			{ scope: data.scope, name: data.name, description: data.description },
+			data.permissions
+		);
+		logger.info("Admin updated role permissions", {
+			role: `${data.scope}:${data.name}`,
+			userId: session.user.id,
+		});
+		await auditService.record({
+			action: "rbac.role.updated",
+			actor: { id: session.user.id, email: session.user.email },
+			target: { type: "role", id: `${data.scope}:${data.name}` },
+			before: { permissions: before },
+			after: { permissions: [...new Set(data.permissions)].sort() },
+		});
+
+		revalidatePath(routes.admin.roles);
+		return { success: true };
+	} catch (error) {
+		throw ErrorService.handleError(error);
+	}
+}
+
+/**
+ * Restores a role's default permissions, or deletes a custom role (admin only)
+ */
+export async function resetRolePermissions(role: { scope: RbacScope; name: string }) {
+	try {
+		const session = await requireAdmin();
+		const before = await getCurrentPermissions(role);
+		await rbacService.resetRole(role);
+		await auditService.record({
+			action: "rbac.role.reset",
+			actor: { id: session.user.id, email: session.user.email },
+			target: { type: "role", id: `${role.scope}:${role.name}` },
+			before: { permissions: before },
+			after: { permissions: await getCurrentPermissions(role) },
+		});
+
+		revalidatePath(routes.admin.roles);
+		return { success: true };
+	} catch (error) {
+		throw ErrorService.handleError(error);
+	}
+}
+
+/**
+ * Imports the role definitions from the CMS `rbac` collection (admin only)
+ * @returns The number of roles imported
+ */
+export async function importRolesFromCms() {
+	try {
+		await requireAdmin();
+		const imported = await rbacService.importRolesFromCms();
+
+		revalidatePath(routes.admin.roles);
+		return { imported };
+	} catch (error) {
+		throw ErrorService.handleError(error);
+	}
+}
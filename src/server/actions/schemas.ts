@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { ALLOWED_FILE_TYPES, BYTES_IN_A_MEGABYTE, FILE_UPLOAD_MAX_SIZE } from "@/config/file";
+import { MEMBER_ROLES } from "@/config/rbac";
 
 // File Schemas
 
@@ -54,7 +55,7 @@ export const teamIdSchema = z.object({
 export const teamMemberSchema = z.object({
 	teamId: z.string().min(1, "Team ID is required"),
 	userId: z.string().min(1, "User ID is required"),
-	role: z.string().min(1, "Role is required"),
+	role: z.enum(MEMBER_ROLES),
 });
 
 // User Schemas
@@ -94,3 +95,17 @@ export const apiKeyIdSchema = z.object({
 export const validateApiKeySchema = z.object({
 	apiKey: z.string().min(1, "API Key is required"),
 });
+
+// AI Chat Schemas
+export const chatSchema = z.object({
+	conversationId: z.string().min(1).optional(), // Omit to start a new conversation
+	model: z.string().min(1).optional(), // Defaults to DEFAULT_AI_MODEL
+	message: z.string().trim().min(1, "Message is required").max(32_000),
+});
+
+export type ChatSchemaType = z.infer<typeof chatSchema>;
+
+export const renameConversationSchema = z.object({
+	conversationId: z.string().min(1, "Conversation ID is required"),
+	title: z.string().trim().min(1, "Title is required").max(255),
+});
@@ -5,6 +5,9 @@ import { revalidatePath } from "next/cache";
 import { auth } from "@/server/auth";
 import { db } from "@/server/db";
 import { accounts, users } from "@/server/db/schema";
+import { assertNotImpersonating } from "@/server/lib/auth";
+import { auditService } from "@/server/services/audit-service";
+import { ErrorService } from "@/server/services/error-service";
 
 interface ProfileData {
 	name: string;
@@ -86,11 +89,23 @@ export async function deleteAccount() {
 		if (!session?.user?.id) {
 			return { success: false, error: "Not authenticated" };
 		}
+		await assertNotImpersonating("delete this account");
+
+		// Recorded first so the entry exists even if the deletion cascades or fails midway
+		await auditService.record({
+			action: "user.deleted",
+			actor: { id: session.user.id, email: session.user.email },
+			target: { type: "user", id: session.user.id },
+			before: { email: session.user.email ?? null, name: session.user.name ?? null },
+		});
 
 		await db?.delete(users).where(eq(users.id, session.user.id));
 
 		return { success: true, message: "Account deleted successfully" };
 	} catch (error) {
+		if (ErrorService.isAppError(error)) {
+			return { success: false, error: error.message };
+		}
 		console.error("Failed to delete account:", error);
 		return { success: false, error: "Failed to delete account" };
 	}
@@ -132,6 +147,7 @@ export async function disconnectAccount(
 		if (!session?.user?.id) {
 			return { success: false, error: "You must be logged in to disconnect accounts" };
 		}
+		await assertNotImpersonating("disconnect accounts");
 
 		// Delete the account connection
 		await db
@@ -153,6 +169,9 @@ export async function disconnectAccount(
 			message: `${provider.charAt(0).toUpperCase() + provider.slice(1)} account disconnected successfully`,
 		};
 	} catch (error) {
+		if (ErrorService.isAppError(error)) {
+			return { success: false, error: error.message };
+		}
 		console.error(`Failed to disconnect ${provider} account:`, error);
 		return {
 			success: false,
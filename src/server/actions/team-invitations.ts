@@ -0,0 +1,152 @@
+"use server";
+
+import { revalidatePath, revalidateTag } from "next/cache";
+import { z } from "zod";
+import { routes } from "@/config/routes";
+import { auth } from "@/server/auth";
+import { getAuditActor } from "@/server/lib/auth";
+import { cacheService } from "@/server/services/cache-service";
+import { ErrorService } from "@/server/services/error-service";
+import { rateLimitService, rateLimits } from "@/server/services/rate-limit-service";
+import { INVITABLE_ROLES, teamInvitationService } from "@/server/services/team-invitation-service";
+import { ValidationService } from "@/server/services/validation-service";
+
+// Validation schemas in a separate object (not exported)
+const schemas = {
+	inviteTeamMember: z.object({
+		teamId: z.string().min(1, "Team ID is required"),
+		email: z.string().trim().email("Enter a valid email address"),
+		role: z.enum(INVITABLE_ROLES),
+	}),
+	revokeTeamInvitation: z.object({
+		teamId: z.string().min(1, "Team ID is required"),
+		invitationId: z.string().min(1, "Invitation ID is required"),
+	}),
+	respondToInvitation: z.object({
+		token: z.string().min(1, "Invitation token is required"),
+		name: z.string().trim().max(255).optional(),
+	}),
+} as const;
+
+/**
+ * Ensures the current user is signed in and is an owner or admin of the team
+ * @returns The current user's ID
+ */
+async function requireTeamManager(teamId: string): Promise<string> {
+	const session = await auth();
+	if (!session?.user?.id) {
+		ErrorService.throwUnauthorized("You must be logged in to manage team invitations");
+	}
+
+	const canManage = await teamInvitationService.canManageInvitations(teamId, session.user.id);
+	if (!canManage) {
+		ErrorService.throwForbidden("Only team owners and admins can manage invitations");
+	}
+
+	return session.user.id;
+}
+
+/**
+ * Invites someone to a team by email
+ * @returns The invitation and whether the email was sent
+ */
+export async function inviteTeamMember(data: z.infer<typeof schemas.inviteTeamMember>) {
+	try {
+		await ValidationService.validateOrThrow(schemas.inviteTeamMember, data);
+		const userId = await requireTeamManager(data.teamId);
+
+		await rateLimitService.checkLimit(userId, "inviteTeamMember", rateLimits.web.forms);
+
+		const { invitation, emailSent } = await teamInvitationService.createInvitation({
+			teamId: data.teamId,
+			email: data.email,
+			role: data.role,
+			invitedById: userId,
+		});
+
+		return { invitation, emailSent };
+	} catch (error) {
+		throw ErrorService.handleError(error);
+	}
+}
+
+/**
+ * Gets the pending invitations of a team
+ */
+export async function getTeamInvitations(teamId: string) {
+	try {
+		await requireTeamManager(teamId);
+		return await teamInvitationService.getPendingInvitations(teamId);
+	} catch (error) {
+		throw ErrorService.handleError(error);
+	}
+}
+
+/**
+ * Revokes a pending team invitation
+ */
+export async function revokeTeamInvitation(data: z.infer<typeof schemas.revokeTeamInvitation>) {
+	try {
+		await ValidationService.validateOrThrow(schemas.revokeTeamInvitation, data);
+		await requireTeamManager(data.teamId);
+
+		const revoked = await teamInvitationService.revokeInvitation(
+			data.teamId,
+			data.invitationId,
+			await getAuditActor()
+		);
+		if (!revoked) {
+			ErrorService.throwNotFound("Invitation not found or no longer pending");
+		}
+
+		return { success: true };
+	} catch (error) {
+		throw ErrorService.handleError(error);
+	}
+}
+
+/**
+ * Accepts a team invitation.
+ * Signed-in users must use the invited email; otherwise the account is found or created.
+ * @returns Whether the user must sign in to use the account
+ */
+export async function acceptTeamInvitation(data: z.infer<typeof schemas.respondToInvitation>) {
+	try {
+		await ValidationService.validateOrThrow(schemas.respondToInvitation, data);
+
+		const session = await auth();
+		const { invitation, userId } = await teamInvitationService.acceptInvitation(data.token, {
+			sessionUser: session?.user?.id ? { id: session.user.id, email: session.user.email } : null,
+			name: data.name,
+		});
+
+		// Invalidate cache
+		await cacheService.delete(`team:${invitation.teamId}:members`);
+		await cacheService.delete(`user:${userId}:teams`);
+
+		// Revalidate Next.js cache using tags
+		revalidateTag(`user-teams-${userId}`, "max");
+		revalidatePath(routes.app.teams);
+
+		return {
+			teamId: invitation.teamId,
+			teamName: invitation.teamName,
+			requiresSignIn: !session?.user,
+		};
+	} catch (error) {
+		throw ErrorService.handleError(error);
+	}
+}
+
+/**
+ * Declines a team invitation
+ */
+export async function declineTeamInvitation(data: z.infer<typeof schemas.respondToInvitation>) {
+	try {
+		await ValidationService.validateOrThrow(schemas.respondToInvitation, data);
+		await teamInvitationService.declineInvitation(data.token);
+		return { success: true };
+	} catch (error) {
+		throw ErrorService.handleError(error);
+	}
+}
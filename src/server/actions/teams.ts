@@ -1,10 +1,19 @@
 "use server";
 
 import { revalidatePath, revalidateTag, unstable_cache } from "next/cache";
+import { isMemberRole, isMemberRoleAbove, type MemberRole } from "@/config/rbac";
+import { auth } from "@/server/auth";
+import {
+	assertNotImpersonating,
+	getAuditActor,
+	requirePermission,
+	withPermission,
+} from "@/server/lib/auth";
 import { cacheConfigs, cacheService } from "@/server/services/cache-service";
 import { ErrorService } from "@/server/services/error-service";
 import { metrics, metricsService } from "@/server/services/metrics-service";
 import { rateLimitService, rateLimits } from "@/server/services/rate-limit-service";
+import { rbacService } from "@/server/services/rbac";
 import { teamService } from "@/server/services/team-service";
 import { ValidationService } from "@/server/services/validation-service";
 import {
@@ -15,12 +24,62 @@ import {
 	userIdSchema,
 } from "./schemas";
 
+/**
+ * Ensures the signed-in user may change a member's role in a team
+ * Nobody can grant, change or remove a role above their own, and only those who can manage the
+ * team (its owners) can make someone an owner or change an owner's role.
+ * @param change.from - The member's current role, when changing or removing a member
+ * @param change.to - The role being granted, when adding a member or changing a role
+ */
+async function assertCanChangeTeamRole(
+	teamId: string,
+	{ from, to }: { from?: string; to?: MemberRole }
+): Promise<void> {
+	const session = await auth();
+	if (!session?.user?.id) {
+		ErrorService.throwUnauthorized("You must be logged in");
+	}
+	if (await rbacService.hasPermission(session.user.id, "team", "manage", { teamId })) {
+		return;
+	}
+
+	if (from === "owner" || to === "owner") {
+		ErrorService.throwForbidden("Only team owners can change who owns the team");
+	}
+
+	const ownRole = (await rbacService.getUserRoles(session.user.id, { teamId })).find(
+		(role) => role.scope === "team"
+	)?.name;
+	// Roles outside the defaults cannot be ranked, so only owners may change them
+	const outranksCaller = (role: string | undefined) =>
+		role !== undefined &&
+		(!ownRole || !isMemberRole(ownRole) || !isMemberRole(role) || isMemberRoleAbove(role, ownRole));
+
+	if (outranksCaller(from) || outranksCaller(to)) {
+		ErrorService.throwForbidden("You cannot assign or change a role above your own");
+	}
+}
+
+/**
+ * Finds the current role of a team member
+ */
+async function getTeamMemberRole(teamId: string, userId: string): Promise<string | undefined> {
+	const members = await teamService.getTeamMembers(teamId);
+	return members.find((member) => member.userId === userId)?.role;
+}
+
 /**
  * Creates a new team and assigns the user as the owner.
  * @returns The created team with its members
  */
 export async function createTeam(userId: string, name: string) {
 	try {
+		// Authorization
+		const sessionUserId = await requirePermission("team", "create");
+		if (sessionUserId !== userId) {
+			ErrorService.throwForbidden("You can only create teams for yourself");
+		}
+
 		// Rate limiting
 		await rateLimitService.checkLimit(userId, "createTeam", rateLimits.web.forms);
 
@@ -62,6 +121,12 @@ export async function createTeam(userId: string, name: string) {
  */
 export async function getUserTeams(userId: string) {
 	try {
+		// Authorization
+		const session = await auth();
+		if (session?.user?.id !== userId) {
+			ErrorService.throwForbidden("You can only list your own teams");
+		}
+
 		// Rate limiting
 		await rateLimitService.checkLimit(userId, "getUserTeams", rateLimits.api.default);
 
@@ -93,229 +158,268 @@ export async function getUserTeams(userId: string) {
  * Gets all members of a team.
  * @returns The team members with their user details
  */
-export async function getTeamMembers(teamId: string) {
-	try {
-		// Rate limiting
-		await rateLimitService.checkLimit(teamId, "getTeamMembers", rateLimits.api.default);
-
-		// Validation
-		await ValidationService.validateOrThrow(teamIdSchema, { teamId });
-
-		// Try to get from cache first
-		return await cacheService.getOrSet(
-			`team:${teamId}:members`,
-			async () => {
-				const startTime = Date.now();
-				const members = await teamService.getTeamMembers(teamId);
-				await metricsService.recordTiming(metrics.api.latency, startTime);
-				await metricsService.incrementCounter(metrics.api.requests);
-				return members;
-			},
-			cacheConfigs.short
-		);
-	} catch (error) {
-		await metricsService.incrementCounter(metrics.api.errors);
-		throw ErrorService.handleError(error);
+export const getTeamMembers = withPermission(
+	{ resource: "team", action: "read", context: ([teamId]) => ({ teamId }) },
+	async (teamId: string) => {
+		try {
+			// Rate limiting
+			await rateLimitService.checkLimit(teamId, "getTeamMembers", rateLimits.api.default);
+
+			// Validation
+			await ValidationService.validateOrThrow(teamIdSchema, { teamId });
+
+			// Try to get from cache first
+			return await cacheService.getOrSet(
+				`team:${teamId}:members`,
+				async () => {
+					const startTime = Date.now();
+					const members = await teamService.getTeamMembers(teamId);
+					await metricsService.recordTiming(metrics.api.latency, startTime);
+					await metricsService.incrementCounter(metrics.api.requests);
+					return members;
+				},
+				cacheConfigs.short
+			);
+		} catch (error) {
+			await metricsService.incrementCounter(metrics.api.errors);
+			throw ErrorService.handleError(error);
+		}
 	}
-}
+);
 
 /**
  * Updates a team's information.
  * @returns The updated team with its details
  */
-export async function updateTeam(teamId: string, data: { name?: string }) {
-	try {
-		// Rate limiting
-		await rateLimitService.checkLimit(teamId, "updateTeam", rateLimits.web.forms);
-
-		// Validation
-		await ValidationService.validateOrThrow(updateTeamSchema, { teamId, ...data });
-
-		// Metrics start
-		const startTime = Date.now();
-
-		// Update team
-		const team = await teamService.updateTeam(teamId, data);
-
-		// Metrics end
-		await metricsService.recordTiming(metrics.api.latency, startTime);
-		await metricsService.incrementCounter(metrics.api.requests);
-
-		// Invalidate cache
-		await cacheService.delete(`team:${teamId}`);
+export const updateTeam = withPermission(
+	{ resource: "team", action: "update", context: ([teamId]) => ({ teamId }) },
+	async (teamId: string, data: { name?: string }) => {
+		try {
+			// Rate limiting
+			await rateLimitService.checkLimit(teamId, "updateTeam", rateLimits.web.forms);
+
+			// Validation
+			await ValidationService.validateOrThrow(updateTeamSchema, { teamId, ...data });
+
+			// Metrics start
+			const startTime = Date.now();
+
+			// Update team
+			const team = await teamService.updateTeam(teamId, data);
+
+			// Metrics end
+			await metricsService.recordTiming(metrics.api.latency, startTime);
+			await metricsService.incrementCounter(metrics.api.requests);
+
+			// Invalidate cache
+			await cacheService.delete(`team:${teamId}`);
+
+			// Revalidate Next.js cache using tags
+			revalidateTag("teams");
+			// Revalidate for all users who are members of this team
+			const teamMembers = await teamService.getTeamMembers(teamId);
+			for (const member of teamMembers || []) {
+				revalidateTag(`user-teams-${member.userId}`);
+			}
+			revalidatePath("/");
 
-		// Revalidate Next.js cache using tags
-		revalidateTag("teams");
-		// Revalidate for all users who are members of this team
-		const teamMembers = await teamService.getTeamMembers(teamId);
-		for (const member of teamMembers || []) {
-			revalidateTag(`user-teams-${member.userId}`);
+			return team;
+		} catch (error) {
+			await metricsService.incrementCounter(metrics.api.errors);
+			throw ErrorService.handleError(error);
 		}
-		revalidatePath("/");
-
-		return team;
-	} catch (error) {
-		await metricsService.incrementCounter(metrics.api.errors);
-		throw ErrorService.handleError(error);
 	}
-}
+);
 
 /**
  * Deletes a team and all associated data.
  * @returns True if deleted successfully
  */
-export async function deleteTeam(teamId: string) {
-	try {
-		// Rate limiting
-		await rateLimitService.checkLimit(teamId, "deleteTeam", rateLimits.web.forms);
+export const deleteTeam = withPermission(
+	{ resource: "team", action: "delete", context: ([teamId]) => ({ teamId }) },
+	async (teamId: string) => {
+		try {
+			await assertNotImpersonating("delete teams");
 
-		// Validation
-		await ValidationService.validateOrThrow(teamIdSchema, { teamId });
+			// Rate limiting
+			await rateLimitService.checkLimit(teamId, "deleteTeam", rateLimits.web.forms);
 
-		// Get team members before deletion for cache invalidation
-		const teamMembers = await teamService.getTeamMembers(teamId);
+			// Validation
+			await ValidationService.validateOrThrow(teamIdSchema, { teamId });
 
-		// Metrics start
-		const startTime = Date.now();
+			// Get team members before deletion for cache invalidation
+			const teamMembers = await teamService.getTeamMembers(teamId);
 
-		// Delete team
-		const success = await teamService.deleteTeam(teamId);
+			// Metrics start
+			const startTime = Date.now();
 
-		// Metrics end
-		await metricsService.recordTiming(metrics.api.latency, startTime);
-		await metricsService.incrementCounter(metrics.api.requests);
+			// Delete team
+			const success = await teamService.deleteTeam(teamId);
 
-		// Invalidate cache
-		await cacheService.delete(`team:${teamId}`);
+			// Metrics end
+			await metricsService.recordTiming(metrics.api.latency, startTime);
+			await metricsService.incrementCounter(metrics.api.requests);
 
-		// Revalidate Next.js cache using tags
-		revalidateTag("teams");
-		// Revalidate for all users who were members of this team
-		for (const member of teamMembers || []) {
-			revalidateTag(`user-teams-${member.userId}`);
-		}
-		revalidatePath("/");
+			// Invalidate cache
+			await cacheService.delete(`team:${teamId}`);
 
-		return success;
-	} catch (error) {
-		await metricsService.incrementCounter(metrics.api.errors);
-		throw ErrorService.handleError(error);
+			// Revalidate Next.js cache using tags
+			revalidateTag("teams");
+			// Revalidate for all users who were members of this team
+			for (const member of teamMembers || []) {
+				revalidateTag(`user-teams-${member.userId}`);
+			}
+			revalidatePath("/");
+
+			return success;
+		} catch (error) {
+			await metricsService.incrementCounter(metrics.api.errors);
+			throw ErrorService.handleError(error);
+		}
 	}
-}
+);
 
 /**
  * Adds a member to a team.
+ * The role cannot be above the caller's own, and only owners can add owners.
  * @returns The created team member
  */
-export async function addTeamMember(teamId: string, userId: string, role: string) {
-	try {
-		// Rate limiting
-		await rateLimitService.checkLimit(teamId, "addTeamMember", rateLimits.web.forms);
-
-		// Validation
-		await ValidationService.validateOrThrow(teamMemberSchema, {
-			teamId,
-			userId,
-			role,
-		});
-
-		// Metrics start
-		const startTime = Date.now();
-
-		// Add member
-		const member = await teamService.addTeamMember(teamId, userId, role);
-
-		// Metrics end
-		await metricsService.recordTiming(metrics.api.latency, startTime);
-		await metricsService.incrementCounter(metrics.api.requests);
-
-		// Invalidate cache
-		await cacheService.delete(`team:${teamId}:members`);
-		await cacheService.delete(`user:${userId}:teams`);
-
-		revalidatePath("/");
-		return member;
-	} catch (error) {
-		await metricsService.incrementCounter(metrics.api.errors);
-		throw ErrorService.handleError(error);
+export const addTeamMember = withPermission(
+	{ resource: "team", action: "update", context: ([teamId]) => ({ teamId }) },
+	async (teamId: string, userId: string, role: MemberRole) => {
+		try {
+			// Rate limiting
+			await rateLimitService.checkLimit(teamId, "addTeamMember", rateLimits.web.forms);
+
+			// Validation
+			await ValidationService.validateOrThrow(teamMemberSchema, {
+				teamId,
+				userId,
+				role,
+			});
+			await assertCanChangeTeamRole(teamId, { to: role });
+
+			// Metrics start
+			const startTime = Date.now();
+
+			// Add member
+			const member = await teamService.addTeamMember(teamId, userId, role, await getAuditActor());
+
+			// Metrics end
+			await metricsService.recordTiming(metrics.api.latency, startTime);
+			await metricsService.incrementCounter(metrics.api.requests);
+
+			// Invalidate cache
+			await cacheService.delete(`team:${teamId}:members`);
+			await cacheService.delete(`user:${userId}:teams`);
+
+			revalidatePath("/");
+			return member;
+		} catch (error) {
+			await metricsService.incrementCounter(metrics.api.errors);
+			throw ErrorService.handleError(error);
+		}
 	}
-}
+);
 
 /**
  * Removes a member from a team.
+ * Members above the caller's role cannot be removed, and only owners can remove owners.
  * @returns True if removed successfully
  */
-export async function removeTeamMember(teamId: string, userId: string) {
-	try {
-		// Rate limiting
-		await rateLimitService.checkLimit(teamId, "removeTeamMember", rateLimits.web.forms);
-
-		// Validation
-		await ValidationService.validateOrThrow(teamMemberSchema, {
-			teamId,
-			userId,
-			role: "member", // Role is required by schema but not needed for removal
-		});
-
-		// Metrics start
-		const startTime = Date.now();
-
-		// Remove member
-		const success = await teamService.removeTeamMember(teamId, userId);
-
-		// Metrics end
-		await metricsService.recordTiming(metrics.api.latency, startTime);
-		await metricsService.incrementCounter(metrics.api.requests);
-
-		// Invalidate cache
-		await cacheService.delete(`team:${teamId}:members`);
-		await cacheService.delete(`user:${userId}:teams`);
-
-		// Revalidate Next.js cache using tags
-		revalidateTag(`user-teams-${userId}`);
-		revalidateTag("teams");
-		revalidatePath("/");
-
-		return success;
-	} catch (error) {
-		await metricsService.incrementCounter(metrics.api.errors);
-		throw ErrorService.handleError(error);
+export const removeTeamMember = withPermission(
+	{ resource: "team", action: "update", context: ([teamId]) => ({ teamId }) },
+	async (teamId: string, userId: string) => {
+		try {
+			await assertNotImpersonating("remove team members");
+
+			// Rate limiting
+			await rateLimitService.checkLimit(teamId, "removeTeamMember", rateLimits.web.forms);
+
+			// Validation
+			await ValidationService.validateOrThrow(teamMemberSchema, {
+				teamId,
+				userId,
+				role: "member", // Role is required by schema but not needed for removal
+			});
+			await assertCanChangeTeamRole(teamId, { from: await getTeamMemberRole(teamId, userId) });
+
+			// Metrics start
+			const startTime = Date.now();
+
+			// Remove member
+			const success = await teamService.removeTeamMember(teamId, userId, await getAuditActor());
+
+			// Metrics end
+			await metricsService.recordTiming(metrics.api.latency, startTime);
+			await metricsService.incrementCounter(metrics.api.requests);
+
+			// Invalidate cache
+			await cacheService.delete(`team:${teamId}:members`);
+			await cacheService.delete(`user:${userId}:teams`);
+
+			// Revalidate Next.js cache using tags
+			revalidateTag(`user-teams-${userId}`);
+			revalidateTag("teams");
+			revalidatePath("/");
+
+			return success;
+		} catch (error) {
+			await metricsService.incrementCounter(metrics.api.errors);
+			throw ErrorService.handleError(error);
+		}
 	}
-}
+);
 
 /**
  * Updates a team member's role.
+ * Neither the current nor the new role can be above the caller's own, and only owners can
+ * change an owner.
  * @returns The updated team member
  */
-export async function updateTeamMemberRole(teamId: string, userId: string, role: string) {
-	try {
-		// Rate limiting
-		await rateLimitService.checkLimit(teamId, "updateTeamMemberRole", rateLimits.web.forms);
-
-		// Validation
-		await ValidationService.validateOrThrow(teamMemberSchema, {
-			teamId,
-			userId,
-			role,
-		});
-
-		// Metrics start
-		const startTime = Date.now();
-
-		// Update member role
-		const member = await teamService.updateTeamMemberRole(teamId, userId, role);
-
-		// Metrics end
-		await metricsService.recordTiming(metrics.api.latency, startTime);
-		await metricsService.incrementCounter(metrics.api.requests);
-
-		// Invalidate cache
-		await cacheService.delete(`team:${teamId}:members`);
-
-		revalidatePath("/");
-		return member;
-	} catch (error) {
-		await metricsService.incrementCounter(metrics.api.errors);
-		throw ErrorService.handleError(error);
+export const updateTeamMemberRole = withPermission(
+	{ resource: "team", action: "update", context: ([teamId]) => ({ teamId }) },
+	async (teamId: string, userId: string, role: MemberRole) => {
+		try {
+			await assertNotImpersonating("change team member roles");
+
+			// Rate limiting
+			await rateLimitService.checkLimit(teamId, "updateTeamMemberRole", rateLimits.web.forms);
+
+			// Validation
+			await ValidationService.validateOrThrow(teamMemberSchema, {
+				teamId,
+				userId,
+				role,
+			});
+			await assertCanChangeTeamRole(teamId, {
+				from: await getTeamMemberRole(teamId, userId),
+				to: role,
+			});
+
+			// Metrics start
+			const startTime = Date.now();
+
+			// Update member role
+			const member = await teamService.updateTeamMemberRole(
+				teamId,
+				userId,
+				role,
+				await getAuditActor()
+			);
+
+			// Metrics end
+			await metricsService.recordTiming(metrics.api.latency, startTime);
+			await metricsService.incrementCounter(metrics.api.requests);
+
+			// Invalidate cache
+			await cacheService.delete(`team:${teamId}:members`);
+
+			revalidatePath("/");
+			return member;
+		} catch (error) {
+			await metricsService.incrementCounter(metrics.api.errors);
+			throw ErrorService.handleError(error);
+		}
 	}
-}
+);
@@ -1,11 +1,26 @@
 "use server";
 
+import { revalidatePath } from "next/cache";
+import { routes } from "@/config/routes";
 import { env } from "@/env";
+import { logger } from "@/lib/logger";
 import { resend } from "@/lib/resend";
+import { requireAdmin } from "@/server/lib/auth";
+import { auditService } from "@/server/services/audit-service";
+import { emailService } from "@/server/services/email-service";
+import { ErrorService } from "@/server/services/error-service";
 import {
 	addWaitlistEntry,
+	exportWaitlistCsv as exportCsv,
 	getWaitlistStats as getStats,
+	getWaitlistPosition,
+	getWaitlistReferralUrl,
+	importWaitlistCsv as importCsv,
+	inviteWaitlistBatch as inviteBatch,
 	isEmailOnWaitlist,
+	WAITLIST_MAX_INVITE_BATCH,
+	type WaitlistImportResult,
+	type WaitlistInviteResult,
 } from "@/server/services/waitlist-service";
 
 export interface WaitlistFormData {
@@ -16,8 +31,13 @@ export interface WaitlistFormData {
 	projectType?: string;
 	timeline?: string;
 	interests?: string;
+	/** From the `?ref=` link the visitor arrived through */
+	referralCode?: string;
 }
 
+/** Largest CSV accepted by `importWaitlistCsv` */
+const MAX_IMPORT_FILE_SIZE = 2 * 1024 * 1024;
+
 /**
  * Adds a user to the waitlist with additional metadata.
  * @param formData - The waitlist form data
@@ -32,16 +52,19 @@ export const addToWaitlist = async (formData: WaitlistFormData) => {
 		}
 
 		// Store in database first
-		const entry = await addWaitlistEntry({
-			email: formData.email,
-			name: formData.name,
-			company: formData.company || null,
-			role: formData.role || null,
-			projectType: formData.projectType || null,
-			timeline: formData.timeline || null,
-			interests: formData.interests || null,
-			source: "website",
-		});
+		const entry = await addWaitlistEntry(
+			{
+				email: formData.email,
+				name: formData.name,
+				company: formData.company || null,
+				role: formData.role || null,
+				projectType: formData.projectType || null,
+				timeline: formData.timeline || null,
+				interests: formData.interests || null,
+				source: "website",
+			},
+			{ referralCode: formData.referralCode }
+		);
 
 		// If database is not available, entry will be null but we don't fail
 		if (!entry) {
@@ -64,46 +87,21 @@ export const addToWaitlist = async (formData: WaitlistFormData) => {
 			}
 		}
 
-		// Send welcome email if configured
-		if ((env.RESEND_API_KEY || env.RESEND_API_KEY) && resend) {
-			try {
-				await resend.emails.send({
-					from: env.RESEND_FROM_EMAIL || "Shipkit <noreply@shipkit.io>",
-					to: formData.email,
-					subject: "Welcome to the Shipkit Waitlist! 🚀",
-					html: `
-						<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-							<h1 style="color: #2563eb;">Welcome to Shipkit, ${formData.name.split(" ")[0]}!</h1>
-							<p>Thanks for joining our waitlist. You're now part of an exclusive group of developers who will get early access to Shipkit.</p>
-
-							<h2>What's Next?</h2>
-							<ul>
-								<li>🎯 <strong>Early Access:</strong> You'll be among the first to try Shipkit</li>
-								<li>💰 <strong>50% Launch Discount:</strong> Exclusive pricing locked in forever</li>
-								<li>🚀 <strong>Bonus Content:</strong> Tutorials and deployment guides</li>
-							</ul>
-
-							<p>We'll keep you updated on our progress and notify you as soon as early access is available.</p>
-
-							<p>In the meantime, follow us on <a href="https://twitter.com/lacybuilds">Twitter</a> for the latest updates!</p>
-
-							<p>Best regards,<br>The Shipkit Team</p>
-
-							<hr style="margin: 20px 0; border: none; border-top: 1px solid #e5e7eb;">
-							<p style="font-size: 12px; color: #6b7280;">
-								You're receiving this email because you joined the Shipkit waitlist.
-								<a href="{{unsubscribe_url}}">Unsubscribe</a>
-							</p>
-						</div>
-					`,
-				});
-			} catch (emailError) {
-				console.warn("Failed to send welcome email:", emailError);
-				// Continue even if email fails - user is still on waitlist
-			}
-		}
+		// A failed welcome email is recorded in the email log; the user is still on the waitlist
+		await emailService.send(
+			"waitlist-welcome",
+			{ name: formData.name },
+			{ to: formData.email, metadata: { source: entry?.source ?? "website" } }
+		);
 
-		return { success: true };
+		const referralCode = entry?.referralCode ?? null;
+		const position = referralCode ? await getWaitlistPosition(referralCode) : null;
+		return {
+			success: true,
+			referralCode,
+			referralUrl: referralCode ? getWaitlistReferralUrl(referralCode) : null,
+			position: position?.position ?? null,
+		};
 	} catch (error: unknown) {
 		if (error instanceof Error) {
 			console.error("Error adding to waitlist:", error.message);
@@ -117,14 +115,16 @@ export const addToWaitlist = async (formData: WaitlistFormData) => {
 /**
  * Simple email-only waitlist signup (for the hero form)
  * @param email - The email address
+ * @param referralCode - From the `?ref=` link the visitor arrived through
  * @returns A promise that resolves with success status
  */
-export const addToWaitlistSimple = async (email: string) => {
+export const addToWaitlistSimple = async (email: string, referralCode?: string) => {
 	const emailParts = email.split("@");
 	const name = emailParts.length > 0 ? emailParts[0]! : email;
 	return addToWaitlist({
 		email,
 		name, // Use email prefix as fallback name
+		referralCode,
 	});
 };
 
@@ -137,6 +137,88 @@ export const getWaitlistStats = async () => {
 		return await getStats();
 	} catch (error) {
 		console.error("Error getting waitlist stats:", error);
-		return { total: 0, notified: 0, pending: 0 };
+		return { total: 0, notified: 0, pending: 0, signedUp: 0, referred: 0 };
+	}
+};
+
+/**
+ * Sends invites to the next entries in the queue (admin only)
+ * @param size - How many entries to invite
+ */
+export const inviteWaitlistBatch = async (size: number): Promise<WaitlistInviteResult> => {
+	try {
+		const session = await requireAdmin();
+		if (!Number.isInteger(size) || size < 1 || size > WAITLIST_MAX_INVITE_BATCH) {
+			throw ErrorService.createError(
+				"VALIDATION_ERROR",
+				`Invite between 1 and ${WAITLIST_MAX_INVITE_BATCH} people at a time`
+			);
+		}
+
+		const result = await inviteBatch(size);
+		logger.info("Admin sent waitlist invites", {
+			invited: result.invited.length,
+			failed: result.failed.length,
+			userId: session.user.id,
+		});
+		await auditService.record({
+			action: "waitlist.invited",
+			actor: { id: session.user.id, email: session.user.email },
+			target: { type: "waitlist" },
+			metadata: { requested: size, invited: result.invited, failed: result.failed },
+		});
+
+		revalidatePath(routes.admin.waitlist);
+		return result;
+	} catch (error) {
+		throw ErrorService.handleError(error);
+	}
+};
+
+/**
+ * Exports the waitlist as CSV (admin only)
+ */
+export const exportWaitlistCsv = async (): Promise<string> => {
+	try {
+		const session = await requireAdmin();
+		const csv = await exportCsv();
+		await auditService.record({
+			action: "waitlist.exported",
+			actor: { id: session.user.id, email: session.user.email },
+			target: { type: "waitlist" },
+		});
+		return csv;
+	} catch (error) {
+		throw ErrorService.handleError(error);
+	}
+};
+
+/**
+ * Imports waitlist entries from an uploaded CSV file (admin only)
+ * @param formData - With the CSV in a `file` field
+ */
+export const importWaitlistCsv = async (formData: FormData): Promise<WaitlistImportResult> => {
+	try {
+		const session = await requireAdmin();
+		const file = formData.get("file");
+		if (!(file instanceof File) || file.size === 0) {
+			throw ErrorService.createError("VALIDATION_ERROR", "Choose a CSV file to import");
+		}
+		if (file.size > MAX_IMPORT_FILE_SIZE) {
+			throw ErrorService.createError("VALIDATION_ERROR", "The CSV file must be 2 MB or smaller");
+		}
+
+		const result = await importCsv(await file.text());
+		await auditService.record({
+			action: "waitlist.imported",
+			actor: { id: session.user.id, email: session.user.email },
+			target: { type: "waitlist" },
+			metadata: { fileName: file.name, ...result },
+		});
+
+		revalidatePath(routes.admin.waitlist);
+		return result;
+	} catch (error) {
+		throw ErrorService.handleError(error);
 	}
 };
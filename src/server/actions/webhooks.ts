@@ -0,0 +1,50 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { routes } from "@/config/routes";
+import { logger } from "@/lib/logger";
+import { requireAdmin } from "@/server/lib/auth";
+import { WebhookInboxService } from "@/server/services/webhook-inbox-service";
+
+/**
+ * Server action to replay a stored webhook event (admin only)
+ * Handlers are idempotent, so replaying an already processed event is safe.
+ *
+ * @param id The webhook event row ID
+ * @returns The processing outcome
+ */
+export async function replayWebhookEvent(id: number): Promise<{
+	success: boolean;
+	status: string;
+	error?: string;
+}> {
+	const session = await requireAdmin();
+
+	logger.info("Admin replaying webhook event", { webhookEventId: id, userId: session.user.id });
+
+	const result = await WebhookInboxService.replay(id);
+	revalidatePath(routes.admin.webhooks);
+
+	if (result.status === "failed") {
+		return { success: false, status: result.status, error: result.error };
+	}
+
+	return { success: true, status: result.status };
+}
+
+/**
+ * Server action to retry all failed webhook events that are due (admin only)
+ * @returns Counts of retried, processed and failed events
+ */
+export async function retryDueWebhookEvents(): Promise<{
+	retried: number;
+	processed: number;
+	failed: number;
+}> {
+	await requireAdmin();
+
+	const stats = await WebhookInboxService.retryDueEvents();
+	revalidatePath(routes.admin.webhooks);
+
+	return stats;
+}
@@ -0,0 +1,130 @@
+import {
+	type ChatCompletionRequest,
+	type ChatProvider,
+	ChatProviderError,
+	type ChatStreamEvent,
+} from "./types";
+
+const ANTHROPIC_API_URL = "https://api.anthropic.com/v1/messages";
+const ANTHROPIC_VERSION = "2023-06-01";
+
+/** The Messages API stream events used here */
+type AnthropicStreamEvent =
+	| { type: "message_start"; message: { usage: { input_tokens: number; output_tokens: number } } }
+	| { type: "content_block_delta"; delta: { type: string; text?: string } }
+	| { type: "message_delta"; usage: { output_tokens: number } }
+	| { type: "error"; error: { type: string; message: string } }
+	| { type: "content_block_start" | "content_block_stop" | "message_stop" | "ping" };
+
+/**
+ * Parses a server-sent events body into the JSON payloads of its `data:` lines
+ */
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncIterable<unknown> {
+	const reader = body.getReader();
+	const decoder = new TextDecoder();
+	let buffer = "";
+
+	while (true) {
+		const { done, value } = await reader.read();
+		if (done) {
+			break;
+		}
+
+		buffer += decoder.decode(value, { stream: true });
+		const events = buffer.split(/\r?\n\r?\n/);
+		buffer = events.pop() ?? "";
+
+		for (const event of events) {
+			const data = event
+				.split(/\r?\n/)
+				.filter((line) => line.startsWith("data:"))
+				.map((line) => line.slice(5).trim())
+				.join("\n");
+			if (data) {
+				yield JSON.parse(data);
+			}
+		}
+	}
+}
+
+/**
+ * Streams completions from the Anthropic Messages API
+ * System messages are sent as the `system` parameter, as the API expects.
+ */
+export class AnthropicChatProvider implements ChatProvider {
+	readonly id = "anthropic" as const;
+
+	constructor(private readonly apiKey: string) {}
+
+	async *streamChat({
+		model,
+		messages,
+		maxOutputTokens,
+		temperature = 0.7,
+		signal,
+	}: ChatCompletionRequest): AsyncIterable<ChatStreamEvent> {
+		const system = messages
+			.filter((message) => message.role === "system")
+			.map((message) => message.content)
+			.join("\n\n");
+
+		let response: Response;
+		try {
+			response = await fetch(ANTHROPIC_API_URL, {
+				method: "POST",
+				headers: {
+					"content-type": "application/json",
+					"x-api-key": this.apiKey,
+					"anthropic-version": ANTHROPIC_VERSION,
+				},
+				body: JSON.stringify({
+					model,
+					max_tokens: maxOutputTokens,
+					temperature,
+					stream: true,
+					...(system && { system }),
+					messages: messages
+						.filter((message) => message.role !== "system")
+						.map(({ role, content }) => ({ role, content })),
+				}),
+				signal,
+			});
+		} catch (error) {
+			throw new ChatProviderError(`Chat completion with ${model} failed`, this.id, error);
+		}
+
+		if (!response.ok || !response.body) {
+			const details = await response.text().catch(() => "");
+			throw new ChatProviderError(
+				`Chat completion with ${model} failed with status ${response.status}`,
+				this.id,
+				details
+			);
+		}
+
+		let inputTokens = 0;
+		let outputTokens = 0;
+
+		for await (const payload of readServerSentEvents(response.body)) {
+			const event = payload as AnthropicStreamEvent;
+			switch (event.type) {
+				case "message_start":
+					inputTokens = event.message.usage.input_tokens;
+					outputTokens = event.message.usage.output_tokens;
+					break;
+				case "content_block_delta":
+					if (event.delta.type === "text_delta" && event.delta.text) {
+						yield { type: "text", text: event.delta.text };
+					}
+					break;
+				case "message_delta":
+					outputTokens = event.usage.output_tokens;
+					break;
+				case "error":
+					throw new ChatProviderError(event.error.message, this.id, event.error);
+			}
+		}
+
+		yield { type: "usage", usage: { inputTokens, outputTokens } };
+	}
+}
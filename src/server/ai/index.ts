@@ -0,0 +1,73 @@
+/**
+ * AI Module
+ *
+ * Creates the chat providers configured in the environment and resolves models
+ * (see src/config/ai.ts) to the provider that serves them.
+ */
+
+import { type AIModel, type AIProviderId, aiModels, DEFAULT_AI_MODEL } from "@/config/ai";
+import { env } from "@/env";
+import { AnthropicChatProvider } from "./anthropic-provider";
+import { OpenAIChatProvider } from "./openai-provider";
+import type { ChatProvider } from "./types";
+
+export * from "./types";
+export { AnthropicChatProvider, OpenAIChatProvider };
+
+const providers = new Map<AIProviderId, ChatProvider>();
+
+function createChatProvider(id: AIProviderId): ChatProvider | null {
+	switch (id) {
+		case "openai":
+			return env.NEXT_PUBLIC_FEATURE_OPENAI_ENABLED && env.OPENAI_API_KEY
+				? new OpenAIChatProvider("openai", { apiKey: env.OPENAI_API_KEY })
+				: null;
+		case "anthropic":
+			return env.NEXT_PUBLIC_FEATURE_ANTHROPIC_ENABLED && env.ANTHROPIC_API_KEY
+				? new AnthropicChatProvider(env.ANTHROPIC_API_KEY)
+				: null;
+		case "local":
+			return env.NEXT_PUBLIC_FEATURE_LOCAL_AI_ENABLED && env.AI_LOCAL_BASE_URL
+				? new OpenAIChatProvider("local", {
+						baseURL: env.AI_LOCAL_BASE_URL,
+						// Most local servers ignore the key, but the client requires one
+						apiKey: env.AI_LOCAL_API_KEY || "local",
+					})
+				: null;
+	}
+}
+
+/**
+ * Gets a chat provider, created on first use
+ * @returns The provider, or null if it is not configured
+ */
+export function getChatProvider(id: AIProviderId): ChatProvider | null {
+	if (!providers.has(id)) {
+		const provider = createChatProvider(id);
+		if (!provider) {
+			return null;
+		}
+		providers.set(id, provider);
+	}
+	return providers.get(id) ?? null;
+}
+
+/**
+ * Lists the models whose provider is configured
+ */
+export function getAvailableAIModels(): AIModel[] {
+	return aiModels.filter((model) => getChatProvider(model.provider) !== null);
+}
+
+/**
+ * Resolves the model to use for a request
+ * @param modelId - The requested model; defaults to DEFAULT_AI_MODEL, then the first available
+ * @returns The model, or null if it is unknown or its provider is not configured
+ */
+export function resolveAIModel(modelId?: string): AIModel | null {
+	const available = getAvailableAIModels();
+	if (modelId) {
+		return available.find((model) => model.id === modelId) ?? null;
+	}
+	return available.find((model) => model.id === DEFAULT_AI_MODEL) ?? available[0] ?? null;
+}
@@ -0,0 +1,64 @@
+import OpenAI from "openai";
+import type { AIProviderId } from "@/config/ai";
+import {
+	type ChatCompletionRequest,
+	type ChatProvider,
+	ChatProviderError,
+	type ChatStreamEvent,
+} from "./types";
+
+/**
+ * Streams completions from OpenAI, or from any server implementing the OpenAI API
+ * such as Ollama, LM Studio or vLLM (the "local" provider)
+ */
+export class OpenAIChatProvider implements ChatProvider {
+	private readonly client: OpenAI;
+
+	constructor(
+		readonly id: Extract<AIProviderId, "openai" | "local">,
+		options: { apiKey: string; baseURL?: string }
+	) {
+		this.client = new OpenAI(options);
+	}
+
+	async *streamChat({
+		model,
+		messages,
+		maxOutputTokens,
+		temperature = 0.7,
+		signal,
+	}: ChatCompletionRequest): AsyncIterable<ChatStreamEvent> {
+		try {
+			const stream = await this.client.chat.completions.create(
+				{
+					model,
+					messages,
+					temperature,
+					max_tokens: maxOutputTokens,
+					stream: true,
+					stream_options: { include_usage: true },
+				},
+				{ signal }
+			);
+
+			for await (const chunk of stream) {
+				const text = chunk.choices[0]?.delta?.content;
+				if (text) {
+					yield { type: "text", text };
+				}
+				// Sent in a last chunk without choices
+				if (chunk.usage) {
+					yield {
+						type: "usage",
+						usage: {
+							inputTokens: chunk.usage.prompt_tokens,
+							outputTokens: chunk.usage.completion_tokens,
+						},
+					};
+				}
+			}
+		} catch (error) {
+			throw new ChatProviderError(`Chat completion with ${model} failed`, this.id, error);
+		}
+	}
+}
@@ -0,0 +1,57 @@
+import type { AIProviderId } from "@/config/ai";
+
+export type { AIProviderId };
+
+export interface ChatMessageInput {
+	role: "system" | "user" | "assistant";
+	content: string;
+}
+
+export interface ChatUsage {
+	inputTokens: number;
+	outputTokens: number;
+}
+
+export interface ChatCompletionRequest {
+	model: string;
+	messages: ChatMessageInput[];
+	maxOutputTokens: number;
+	temperature?: number;
+	signal?: AbortSignal;
+}
+
+/**
+ * A streamed completion event: a piece of generated text, or the token usage once known
+ */
+export type ChatStreamEvent = { type: "text"; text: string } | { type: "usage"; usage: ChatUsage };
+
+/**
+ * Chat provider interface
+ * Every provider streams completions in the same shape, so conversations can switch models.
+ */
+export interface ChatProvider {
+	readonly id: AIProviderId;
+
+	streamChat(request: ChatCompletionRequest): AsyncIterable<ChatStreamEvent>;
+}
+
+/**
+ * Error class for chat provider errors
+ */
+export class ChatProviderError extends Error {
+	constructor(
+		message: string,
+		public readonly provider: AIProviderId,
+		public readonly originalError?: unknown
+	) {
+		super(message);
+		this.name = "ChatProviderError";
+	}
+}
+
+/**
+ * Rough token count for providers that do not report usage, about 4 characters per token
+ */
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4);
+}
@@ -13,6 +13,7 @@ import { env } from "@/env";
 // Import the list of enabled provider IDs from the single source of truth
 import { availableProviderIds } from "@/server/auth-js/auth-providers-utils";
 import { AuthService } from "@/server/services/auth-service";
+import { emailService } from "@/server/services/email-service";
 
 // Define types for Vercel OAuth
 interface VercelTokens {
@@ -50,9 +51,17 @@ export const providers: NextAuthConfig["providers"] = [
 			Resend({
 				apiKey: process.env.RESEND_API_KEY ?? "",
 				from: RESEND_FROM_EMAIL,
-				// sendVerificationRequest({ identifier: email, url, provider: { server, from } }) {
-				// 	// your function
-				// },
+				// Sent through the email service so sign-in links use our template and are logged
+				async sendVerificationRequest({ identifier: email, url, expires }) {
+					const { status, error } = await emailService.send(
+						"verify-email",
+						{ url, expiresAt: expires },
+						{ to: email }
+					);
+					if (status === "failed") {
+						throw new Error(`Failed to send the sign-in email: ${error}`);
+					}
+				},
 			}),
 		]
 		: []),
@@ -8,6 +8,7 @@ import { db } from "@/server/db";
 import { users } from "@/server/db/schema";
 import { grantGitHubAccess } from "@/server/services/github/github-service";
 import { userService } from "@/server/services/user-service";
+import { isSignUpAllowed, markWaitlistEntrySignedUp } from "@/server/services/waitlist-service";
 import type { User } from "@/types/user";
 
 /**
@@ -42,6 +43,14 @@ export const authOptions: NextAuthConfig = {
 	// 		},
 	// 	},
 	// },
+	events: {
+		async createUser({ user }) {
+			// Retire the waitlist invite of an account created through OAuth or a magic link
+			if (user.email) {
+				await markWaitlistEntrySignedUp(user.email);
+			}
+		},
+	},
 	callbacks: {
 		async signIn({ user, account, profile }) {
 			if (!user.id) return false;
@@ -51,6 +60,15 @@ export const authOptions: NextAuthConfig = {
 				return true; // Always allow guest sign-in
 			}
 
+			// OAuth and magic links create accounts without the sign-up form, so they follow the
+			// same invite-only rule here; credentials sign-ups are checked in the sign-up action
+			if (account?.provider !== "credentials" && !(await isSignUpAllowed(user.email))) {
+				logger.info("Blocked sign-up while sign-up is invite-only", {
+					provider: account?.provider,
+				});
+				return routes.waitlist;
+			}
+
 			// Handle GitHub OAuth connection
 			if (account?.provider === "github" && account.access_token) {
 				// Note: We don't call connectGitHub here because the session doesn't exist yet
@@ -12,6 +12,7 @@ import { authOptions } from "@/server/auth-js/auth.config";
 import { isGuestOnlyMode } from "@/server/auth-js/auth-providers-utils";
 import { db } from "@/server/db";
 import { accounts, sessions, users, verificationTokens } from "@/server/db/schema";
+import { impersonationService } from "@/server/services/impersonation-service";
 import type { UserRole } from "@/types/user";
 
 /**
@@ -114,6 +115,8 @@ const {
 		};
 interface AuthProps {
 	errorCode?: string;
+	/** Returns the admin's own session while they impersonate a user */
+	ignoreImpersonation?: boolean;
 	nextUrl?: string;
 	protect?: boolean;
 	redirect?: boolean;
@@ -126,7 +129,10 @@ type ProtectedSession = Session & { user: NonNullable<Session["user"]> };
 function authWithOptions(props: { protect: true } & AuthProps): Promise<ProtectedSession>;
 function authWithOptions(props?: AuthProps): Promise<Session | null>;
 async function authWithOptions(props?: AuthProps) {
-	const session = await nextAuthAuth();
+	const realSession = await nextAuthAuth();
+	const session = props?.ignoreImpersonation
+		? realSession
+		: await impersonationService.applyToSession(realSession);
 	const { errorCode, redirect: shouldRedirect, nextUrl } = props ?? {};
 
 	// Route protected
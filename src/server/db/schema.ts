@@ -23,6 +23,8 @@
 
 import { relations, sql } from "drizzle-orm";
 import {
+	type AnyPgColumn,
+	bigint,
 	boolean,
 	index,
 	integer,
@@ -32,6 +34,7 @@ import {
 	serial,
 	text,
 	timestamp,
+	uniqueIndex,
 	varchar,
 } from "drizzle-orm/pg-core";
 import type { AdapterAccountType } from "next-auth/adapters";
@@ -53,25 +56,38 @@ const createTable = pgTableCreator((name) => `${env?.DB_PREFIX ?? ""}_${name}`);
  * @remarks
  * Plans are tied to payment processor variants (not products).
  * Each plan represents a specific pricing option (e.g., "Pro Monthly", "Pro Yearly").
+ * Rows are synced from the providers by the plan sync job; feature bullets can be overridden
+ * per product in the CMS.
  *
  * @see payments - Records of actual payments made
  * @see subscriptions - Active user subscriptions
  */
-export const plans = createTable("plan", {
-	id: serial("id").primaryKey(),
-	productId: integer("productId").notNull(), // Payment processor product ID
-	productName: text("productName"), // Human-readable product name
-	variantId: integer("variantId").notNull().unique(), // Payment processor variant ID (CRITICAL: use this for checkout)
-	name: text("name").notNull(), // Plan display name
-	description: text("description"), // Plan features/description
-	price: text("price").notNull(), // Price in smallest currency unit (cents)
-	isUsageBased: boolean("isUsageBased").default(false), // Whether plan has usage-based pricing
-	interval: text("interval"), // Billing interval: 'month', 'year', etc.
-	intervalCount: integer("intervalCount"), // Number of intervals (e.g., 1 month, 3 months)
-	trialInterval: text("trialInterval"), // Trial period interval
-	trialIntervalCount: integer("trialIntervalCount"), // Trial period length
-	sort: integer("sort"), // Display order
-});
+export const plans = createTable(
+	"plan",
+	{
+		id: serial("id").primaryKey(),
+		provider: varchar("provider", { length: 50 }).notNull().default("lemonsqueezy"), // Payment processor
+		productId: varchar("productId", { length: 255 }).notNull(), // Payment processor product ID
+		productName: text("productName"), // Human-readable product name
+		variantId: varchar("variantId", { length: 255 }).notNull(), // Payment processor variant or price ID (CRITICAL: use this for checkout)
+		name: text("name").notNull(), // Plan display name
+		description: text("description"), // Plan features/description
+		features: text("features").notNull().default("[]"), // JSON array of feature bullets from the provider
+		price: text("price").notNull(), // Price in smallest currency unit (cents)
+		currency: varchar("currency", { length: 3 }).notNull().default("USD"), // ISO 4217 code
+		isUsageBased: boolean("isUsageBased").default(false), // Whether plan has usage-based pricing
+		interval: text("interval"), // Billing interval: 'month', 'year', etc.
+		intervalCount: integer("intervalCount"), // Number of intervals (e.g., 1 month, 3 months)
+		trialInterval: text("trialInterval"), // Trial period interval
+		trialIntervalCount: integer("trialIntervalCount"), // Trial period length
+		sort: integer("sort"), // Display order
+		isArchived: boolean("isArchived").notNull().default(false), // No longer sold by the provider
+		syncedAt: timestamp("syncedAt", { withTimezone: true }), // Last seen by the plan sync
+	},
+	(plan) => ({
+		providerVariantIdx: uniqueIndex("plan_provider_variant_idx").on(plan.provider, plan.variantId),
+	})
+);
 export type NewPlan = typeof plans.$inferInsert;
 export type Plan = typeof plans.$inferSelect;
 
@@ -81,6 +97,7 @@ export type Plan = typeof plans.$inferSelect;
  * @remarks
  * Stores both one-time and subscription payments.
  * Links to multiple payment processors (Lemon Squeezy, Stripe, Polar).
+ * Refunds and disputes move the status to refunded, partially_refunded or disputed (see RefundService).
  *
  * @security PII is minimized - only essential payment data stored
  */
@@ -90,12 +107,14 @@ export const payments = createTable("payment", {
 	orderId: varchar("order_id", { length: 255 }), // Internal order ID
 	processorOrderId: varchar("processor_order_id", { length: 255 }), // Payment processor's order ID
 	amount: integer("amount"), // Amount in cents
+	refundedAmount: integer("refunded_amount").default(0).notNull(), // Total refunded so far, in cents
 	status: varchar("status", { length: 255 }).notNull(),
 	processor: varchar("processor", { length: 50 }),
 	productName: text("product_name"),
 	isFreeProduct: boolean("is_free_product").default(false),
 	metadata: text("metadata").default("{}"),
 	purchasedAt: timestamp("purchased_at", { withTimezone: true }),
+	refundedAt: timestamp("refunded_at", { withTimezone: true }), // Last refund or dispute
 	createdAt: timestamp("created_at", { withTimezone: true })
 		.default(sql`CURRENT_TIMESTAMP`)
 		.notNull(),
@@ -108,6 +127,63 @@ export const paymentsRelations = relations(payments, ({ one }) => ({
 	user: one(users, { fields: [payments.userId], references: [users.id] }),
 }));
 
+/**
+ * Subscriptions table - local record of each provider subscription's lifecycle
+ *
+ * @remarks
+ * Rows are written by the Stripe, Lemon Squeezy and Polar webhooks via SubscriptionService,
+ * so entitlement checks can be answered without a provider round-trip.
+ * One row per provider subscription, keyed by (processor, processorSubscriptionId).
+ *
+ * @see plans - The plan the subscription is billed against (when the variant is known)
+ */
+export const subscriptions = createTable(
+	"subscription",
+	{
+		id: varchar("id", { length: 255 })
+			.notNull()
+			.primaryKey()
+			.$defaultFn(() => crypto.randomUUID()),
+		userId: varchar("user_id", { length: 255 })
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		planId: integer("plan_id").references(() => plans.id, { onDelete: "set null" }),
+		processor: varchar("processor", { length: 50 }).notNull(), // 'stripe', 'lemonsqueezy', 'polar'
+		processorSubscriptionId: varchar("processor_subscription_id", { length: 255 }).notNull(),
+		processorCustomerId: varchar("processor_customer_id", { length: 255 }),
+		productId: varchar("product_id", { length: 255 }), // Provider product ID
+		variantId: varchar("variant_id", { length: 255 }), // Provider variant / price ID
+		productName: text("product_name"),
+		status: varchar("status", { length: 50 }).notNull(), // Normalized: see SubscriptionStatus
+		currentPeriodStart: timestamp("current_period_start", { withTimezone: true }),
+		currentPeriodEnd: timestamp("current_period_end", { withTimezone: true }),
+		cancelAtPeriodEnd: boolean("cancel_at_period_end").default(false).notNull(),
+		canceledAt: timestamp("canceled_at", { withTimezone: true }),
+		trialEndsAt: timestamp("trial_ends_at", { withTimezone: true }),
+		endedAt: timestamp("ended_at", { withTimezone: true }),
+		metadata: text("metadata").default("{}"),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+		updatedAt: timestamp("updated_at", { withTimezone: true }).$onUpdate(() => new Date()),
+	},
+	(subscription) => ({
+		userIdIdx: index("subscription_user_id_idx").on(subscription.userId),
+		statusIdx: index("subscription_status_idx").on(subscription.status),
+		processorSubscriptionIdx: uniqueIndex("subscription_processor_subscription_idx").on(
+			subscription.processor,
+			subscription.processorSubscriptionId
+		),
+	})
+);
+export type Subscription = typeof subscriptions.$inferSelect;
+export type NewSubscription = typeof subscriptions.$inferInsert;
+
+export const subscriptionsRelations = relations(subscriptions, ({ one }) => ({
+	user: one(users, { fields: [subscriptions.userId], references: [users.id] }),
+	plan: one(plans, { fields: [subscriptions.planId], references: [plans.id] }),
+}));
+
 export const posts = createTable(
 	"post",
 	{
@@ -167,6 +243,12 @@ export const userFiles = createTable(
 			.references(() => users.id, { onDelete: "cascade" }),
 		title: varchar("title", { length: 255 }).notNull(),
 		location: text("location").notNull(),
+		storageKey: text("storage_key"), // Key of the object in the storage driver
+		size: bigint("size", { mode: "number" }).default(0).notNull(), // Bytes, counted against quotas
+		contentType: varchar("content_type", { length: 255 }), // Verified from the file's magic bytes
+		teamId: varchar("team_id", { length: 255 }).references(() => teams.id, {
+			onDelete: "cascade",
+		}), // Set for files counted against a team's quota
 		createdAt: timestamp("created_at", { withTimezone: true })
 			.default(sql`CURRENT_TIMESTAMP`)
 			.notNull(),
@@ -174,6 +256,7 @@ export const userFiles = createTable(
 	},
 	(userFile) => ({
 		userIdIdx: index("user_file_user_id_idx").on(userFile.userId),
+		teamIdIdx: index("user_file_team_id_idx").on(userFile.teamId),
 	})
 );
 
@@ -182,8 +265,56 @@ export type NewUserFile = typeof userFiles.$inferInsert;
 
 export const userFilesRelations = relations(userFiles, ({ one }) => ({
 	user: one(users, { fields: [userFiles.userId], references: [users.id] }),
+	team: one(teams, { fields: [userFiles.teamId], references: [teams.id] }),
 }));
 
+/**
+ * Multipart upload in progress
+ * Parts are stored by the storage driver as they arrive, so an interrupted upload can be
+ * resumed by sending only the missing parts.
+ */
+export const fileUploads = createTable(
+	"file_upload",
+	{
+		id: varchar("id", { length: 255 })
+			.notNull()
+			.primaryKey()
+			.$defaultFn(() => crypto.randomUUID()),
+		userId: varchar("user_id", { length: 255 })
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		teamId: varchar("team_id", { length: 255 }).references(() => teams.id, {
+			onDelete: "cascade",
+		}),
+		fileName: varchar("file_name", { length: 255 }).notNull(),
+		storageKey: text("storage_key").notNull(),
+		declaredContentType: varchar("declared_content_type", { length: 255 }).notNull(),
+		size: bigint("size", { mode: "number" }).notNull(),
+		chunkSize: integer("chunk_size").notNull(),
+		partCount: integer("part_count").notNull(),
+		driver: varchar("driver", { length: 50 }).notNull(),
+		driverUploadId: text("driver_upload_id").notNull(), // The storage driver's multipart upload ID
+		parts: text("parts").default("[]").notNull(), // JSON array of uploaded parts: { partNumber, etag, size }
+		status: varchar("status", { length: 20 }).notNull().default("uploading"), // uploading, processing, completed, failed, aborted
+		error: text("error"),
+		fileId: integer("file_id").references(() => userFiles.id, { onDelete: "set null" }),
+		expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+		completedAt: timestamp("completed_at", { withTimezone: true }),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+		updatedAt: timestamp("updated_at", { withTimezone: true }).$onUpdate(() => new Date()),
+	},
+	(table) => ({
+		userStatusIdx: index("file_upload_user_status_idx").on(table.userId, table.status),
+		teamStatusIdx: index("file_upload_team_status_idx").on(table.teamId, table.status),
+		expiresAtIdx: index("file_upload_expires_at_idx").on(table.expiresAt),
+	})
+);
+
+export type FileUpload = typeof fileUploads.$inferSelect;
+export type NewFileUpload = typeof fileUploads.$inferInsert;
+
 export const usersRelations = relations(users, ({ many, one }) => ({
 	accounts: many(accounts),
 	files: many(userFiles),
@@ -195,6 +326,7 @@ export const usersRelations = relations(users, ({ many, one }) => ({
 		references: [userCredits.userId],
 	}),
 	creditTransactions: many(creditTransactions),
+	subscriptions: many(subscriptions),
 }));
 
 export const accounts = createTable(
@@ -358,28 +490,48 @@ export const projectMembers = createTable("project_member", {
 	updatedAt: timestamp("updated_at", { withTimezone: true }).$onUpdate(() => new Date()),
 });
 
-export const apiKeys = createTable("api_key", {
-	id: varchar("id", { length: 255 })
-		.notNull()
-		.primaryKey()
-		.$defaultFn(() => crypto.randomUUID()),
-	key: varchar("key", { length: 255 }).notNull(),
-	userId: varchar("user_id", { length: 255 })
-		// .notNull()
-		.references(() => users.id),
-	projectId: varchar("project_id", { length: 255 }).references(() => projects.id),
-	name: varchar("name", { length: 255 }).notNull(),
-	description: text("description"),
-	expiresAt: timestamp("expires_at"),
-	lastUsedAt: timestamp("last_used_at"),
-	createdAt: timestamp("created_at")
-		.notNull()
-		.$defaultFn(() => new Date()),
-	updatedAt: timestamp("updated_at")
-		.notNull()
-		.$defaultFn(() => new Date()),
-	deletedAt: timestamp("deleted_at"),
-});
+/**
+ * API keys
+ * Keys are issued as `prefix_publicId.secret` and shown once at creation.
+ * Only a SHA-256 hash of the full key is stored, plus a display prefix.
+ */
+export const apiKeys = createTable(
+	"api_key",
+	{
+		id: varchar("id", { length: 255 })
+			.notNull()
+			.primaryKey()
+			.$defaultFn(() => crypto.randomUUID()),
+		publicId: varchar("public_id", { length: 32 }), // Lookup ID embedded in the key; null for legacy keys
+		keyHash: varchar("key_hash", { length: 64 }).notNull(), // SHA-256 hex digest of the full key
+		keyPrefix: varchar("key_prefix", { length: 64 }).notNull(), // Display prefix, e.g. sk_AbC123; sk_… for legacy keys
+		scopes: text("scopes").notNull().default("[]"), // JSON array of scopes, e.g. ["projects:read"]
+		allowedIps: text("allowed_ips"), // Optional JSON array of IPs or IPv4 CIDR ranges
+		userId: varchar("user_id", { length: 255 })
+			// .notNull()
+			.references(() => users.id),
+		projectId: varchar("project_id", { length: 255 }).references(() => projects.id),
+		name: varchar("name", { length: 255 }).notNull(),
+		description: text("description"),
+		rotatedFromId: varchar("rotated_from_id", { length: 255 }), // Key this one replaced
+		expiresAt: timestamp("expires_at"),
+		lastUsedAt: timestamp("last_used_at"),
+		createdAt: timestamp("created_at")
+			.notNull()
+			.$defaultFn(() => new Date()),
+		updatedAt: timestamp("updated_at")
+			.notNull()
+			.$defaultFn(() => new Date()),
+		deletedAt: timestamp("deleted_at"),
+	},
+	(apiKey) => ({
+		publicIdIdx: uniqueIndex("api_key_public_id_idx").on(apiKey.publicId),
+		keyHashIdx: uniqueIndex("api_key_key_hash_idx").on(apiKey.keyHash),
+		userIdx: index("api_key_user_idx").on(apiKey.userId),
+	})
+);
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type NewApiKey = typeof apiKeys.$inferInsert;
 
 // Define relations
 
@@ -419,14 +571,127 @@ export const apiKeysRelations = relations(apiKeys, ({ one }) => ({
 	}),
 }));
 
-// Define the webhookEvents table for storing webhook events
-export const webhookEvents = createTable("webhook_event", {
-	id: serial("id").primaryKey(),
-	eventName: text("event_name").notNull(),
-	processed: boolean("processed").default(false),
-	body: text("body").notNull(), // Store the event body as JSON string
-});
+/**
+ * Webhook inbox
+ * Every incoming provider webhook is stored here before it is processed.
+ * (provider, eventId) is unique, so duplicate deliveries are detected and skipped.
+ * Failed events are retried with backoff and can be replayed from the admin dashboard.
+ */
+export const webhookEvents = createTable(
+	"webhook_event",
+	{
+		id: serial("id").primaryKey(),
+		provider: varchar("provider", { length: 50 }).notNull().default("unknown"), // stripe, lemonsqueezy, polar, vercel
+		eventId: varchar("event_id", { length: 255 }), // Provider event ID, or a hash of the body when none is sent
+		eventName: text("event_name").notNull(),
+		status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, processing, processed, failed
+		processed: boolean("processed").default(false),
+		attempts: integer("attempts").notNull().default(0),
+		error: text("error"), // Last processing error
+		body: text("body").notNull(), // Store the event body as JSON string
+		receivedAt: timestamp("received_at", { withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+		processedAt: timestamp("processed_at", { withTimezone: true }),
+		lastAttemptAt: timestamp("last_attempt_at", { withTimezone: true }),
+		nextAttemptAt: timestamp("next_attempt_at", { withTimezone: true }), // Null when no retry is scheduled
+	},
+	(event) => ({
+		providerEventIdx: uniqueIndex("webhook_event_provider_event_idx").on(
+			event.provider,
+			event.eventId
+		),
+		statusIdx: index("webhook_event_status_idx").on(event.status),
+		nextAttemptIdx: index("webhook_event_next_attempt_idx").on(event.nextAttemptAt),
+	})
+);
 export type WebhookEvent = typeof webhookEvents.$inferSelect;
+export type NewWebhookEvent = typeof webhookEvents.$inferInsert;
+
+/**
+ * Audit log of security-relevant actions
+ * Actor, target and team IDs are not foreign keys so entries outlive deleted users and teams.
+ */
+export const auditLogs = createTable(
+	"audit_log",
+	{
+		id: varchar("id", { length: 255 })
+			.notNull()
+			.primaryKey()
+			.$defaultFn(() => crypto.randomUUID()),
+		actorId: varchar("actor_id", { length: 255 }), // Null for system actions
+		actorEmail: varchar("actor_email", { length: 255 }), // Snapshot, kept after the user is deleted
+		action: varchar("action", { length: 100 }).notNull(), // e.g. team.member.role_updated
+		targetType: varchar("target_type", { length: 50 }).notNull(), // e.g. team_member, api_key, user
+		targetId: varchar("target_id", { length: 255 }),
+		teamId: varchar("team_id", { length: 255 }), // Set for actions inside a team workspace
+		changes: text("changes"), // JSON string of { field: { before, after } }
+		metadata: text("metadata"), // JSON string of additional context
+		ipAddress: varchar("ip_address", { length: 64 }),
+		userAgent: text("user_agent"),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+	},
+	(log) => ({
+		createdAtIdx: index("audit_log_created_at_idx").on(log.createdAt),
+		actorIdx: index("audit_log_actor_idx").on(log.actorId),
+		teamIdx: index("audit_log_team_idx").on(log.teamId, log.createdAt),
+		actionIdx: index("audit_log_action_idx").on(log.action),
+	})
+);
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type NewAuditLog = typeof auditLogs.$inferInsert;
+
+/**
+ * Sessions in which an admin sees the app as another user
+ * A session is active until it is ended or expires; the cookie only holds its ID.
+ */
+export const impersonationSessions = createTable(
+	"impersonation_session",
+	{
+		id: varchar("id", { length: 255 })
+			.notNull()
+			.primaryKey()
+			.$defaultFn(() => crypto.randomUUID()),
+		adminId: varchar("admin_id", { length: 255 })
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		userId: varchar("user_id", { length: 255 })
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		reason: text("reason"),
+		expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+		endedAt: timestamp("ended_at", { withTimezone: true }), // Null until the admin stops
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+	},
+	(session) => ({
+		adminIdx: index("impersonation_session_admin_idx").on(session.adminId, session.createdAt),
+		userIdx: index("impersonation_session_user_idx").on(session.userId),
+	})
+);
+export type ImpersonationSession = typeof impersonationSessions.$inferSelect;
+
+/**
+ * Sliding window rate limit counters, used when rate limits are stored in Postgres
+ * One row per limited action and identifier, holding the current and previous window counts.
+ */
+export const rateLimitCounters = createTable(
+	"rate_limit",
+	{
+		key: varchar("key", { length: 255 }).notNull().primaryKey(), // action:identifier
+		windowStart: bigint("window_start", { mode: "number" }).notNull(), // Epoch ms
+		count: integer("count").notNull().default(0),
+		previousCount: integer("previous_count").notNull().default(0),
+		expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+	},
+	(counter) => ({
+		expiresAtIdx: index("rate_limit_expires_at_idx").on(counter.expiresAt),
+	})
+);
+export type RateLimitCounter = typeof rateLimitCounters.$inferSelect;
 
 export const temporaryLinks = createTable("temporary_link", {
 	id: varchar("id", { length: 255 })
@@ -443,6 +708,9 @@ export const temporaryLinks = createTable("temporary_link", {
 	metadata: text("metadata"), // Optional JSON string for additional data
 });
 
+export type TemporaryLink = typeof temporaryLinks.$inferSelect;
+export type NewTemporaryLink = typeof temporaryLinks.$inferInsert;
+
 export const temporaryLinksRelations = relations(temporaryLinks, ({ one }) => ({
 	user: one(users, { fields: [temporaryLinks.userId], references: [users.id] }),
 }));
@@ -455,19 +723,31 @@ export const temporaryLinksRelations = relations(temporaryLinks, ({ one }) => ({
  * - Permissions are granular and can be combined
  */
 
-export const roles = createTable("role", {
-	id: varchar("id", { length: 255 })
-		.notNull()
-		.primaryKey()
-		.$defaultFn(() => crypto.randomUUID()),
-	name: varchar("name", { length: 255 }).notNull(),
-	description: text("description"),
-	isSystem: boolean("is_system").default(false).notNull(),
-	createdAt: timestamp("created_at", { withTimezone: true })
-		.default(sql`CURRENT_TIMESTAMP`)
-		.notNull(),
-	updatedAt: timestamp("updated_at", { withTimezone: true }).$onUpdate(() => new Date()),
-});
+export const roles = createTable(
+	"role",
+	{
+		id: varchar("id", { length: 255 })
+			.notNull()
+			.primaryKey()
+			.$defaultFn(() => crypto.randomUUID()),
+		name: varchar("name", { length: 255 }).notNull(),
+		description: text("description"),
+		scope: varchar("scope", { length: 20, enum: ["global", "team", "project"] })
+			.default("team")
+			.notNull(),
+		isSystem: boolean("is_system").default(false).notNull(),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+		updatedAt: timestamp("updated_at", { withTimezone: true }).$onUpdate(() => new Date()),
+	},
+	(role) => ({
+		nameScopeIdx: uniqueIndex("role_name_scope_idx").on(role.name, role.scope),
+	})
+);
+
+export type Role = typeof roles.$inferSelect;
+export type NewRole = typeof roles.$inferInsert;
 
 export const permissions = createTable("permission", {
 	id: varchar("id", { length: 255 })
@@ -523,20 +803,98 @@ export const rolePermissionsRelations = relations(rolePermissions, ({ one }) =>
 }));
 
 // Add feedback table
-export const feedback = createTable("feedback", {
-	id: varchar("id", { length: 255 })
-		.notNull()
-		.primaryKey()
-		.$defaultFn(() => crypto.randomUUID()),
-	content: text("content").notNull(),
-	source: varchar("source", { length: 50 }).notNull(), // 'dialog' or 'popover'
-	metadata: text("metadata").default("{}"),
-	status: varchar("status", { length: 20 }).notNull().default("new"), // 'new', 'reviewed', 'archived'
-	createdAt: timestamp("created_at", { withTimezone: true })
-		.default(sql`CURRENT_TIMESTAMP`)
-		.notNull(),
-	updatedAt: timestamp("updated_at", { withTimezone: true }).$onUpdate(() => new Date()),
-});
+export const feedback = createTable(
+	"feedback",
+	{
+		id: varchar("id", { length: 255 })
+			.notNull()
+			.primaryKey()
+			.$defaultFn(() => crypto.randomUUID()),
+		content: text("content").notNull(),
+		source: varchar("source", { length: 50 }).notNull(), // 'dialog' or 'popover'
+		metadata: text("metadata").default("{}"),
+		status: varchar("status", { length: 20 }).notNull().default("new"), // 'new', 'reviewed', 'archived', 'merged'
+		userId: varchar("user_id", { length: 255 }).references(() => users.id, {
+			onDelete: "set null",
+		}),
+		// Where replies are sent; the user's address, or one left by an anonymous submitter
+		email: varchar("email", { length: 255 }),
+		pageUrl: varchar("page_url", { length: 2048 }),
+		tags: text("tags").default("[]").notNull(), // JSON array of tag names
+		assigneeId: varchar("assignee_id", { length: 255 }).references(() => users.id, {
+			onDelete: "set null",
+		}),
+		// Set when merged into another feedback item as a duplicate
+		duplicateOfId: varchar("duplicate_of_id", { length: 255 }).references(
+			(): AnyPgColumn => feedback.id,
+			{ onDelete: "set null" }
+		),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+		updatedAt: timestamp("updated_at", { withTimezone: true }).$onUpdate(() => new Date()),
+	},
+	(table) => ({
+		statusIdx: index("feedback_status_idx").on(table.status, table.createdAt),
+		userIdx: index("feedback_user_idx").on(table.userId),
+		assigneeIdx: index("feedback_assignee_idx").on(table.assigneeId),
+		duplicateOfIdx: index("feedback_duplicate_of_idx").on(table.duplicateOfId),
+	})
+);
+
+/**
+ * The triage thread of a feedback item
+ * Replies are emailed to the submitter; notes are only visible to admins.
+ */
+export const feedbackMessages = createTable(
+	"feedback_message",
+	{
+		id: varchar("id", { length: 255 })
+			.notNull()
+			.primaryKey()
+			.$defaultFn(() => crypto.randomUUID()),
+		feedbackId: varchar("feedback_id", { length: 255 })
+			.notNull()
+			.references(() => feedback.id, { onDelete: "cascade" }),
+		authorId: varchar("author_id", { length: 255 }).references(() => users.id, {
+			onDelete: "set null",
+		}),
+		type: varchar("type", { length: 20 }).notNull(), // 'reply' or 'note'
+		body: text("body").notNull(),
+		// The email a reply was sent with; null for notes and unsent replies
+		emailLogId: varchar("email_log_id", { length: 255 }),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+	},
+	(table) => ({
+		feedbackIdx: index("feedback_message_feedback_idx").on(table.feedbackId, table.createdAt),
+	})
+);
+
+/**
+ * One vote per user and feedback item, to rank requests by demand
+ */
+export const feedbackVotes = createTable(
+	"feedback_vote",
+	{
+		feedbackId: varchar("feedback_id", { length: 255 })
+			.notNull()
+			.references(() => feedback.id, { onDelete: "cascade" }),
+		userId: varchar("user_id", { length: 255 })
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+	},
+	(table) => ({
+		pk: primaryKey({ columns: [table.feedbackId, table.userId] }),
+	})
+);
+
+export type Feedback = typeof feedback.$inferSelect;
+export type FeedbackMessage = typeof feedbackMessages.$inferSelect;
 
 // Add user credits table
 export const userCredits = createTable(
@@ -576,9 +934,13 @@ export const creditTransactions = createTable(
 			.notNull()
 			.references(() => users.id, { onDelete: "cascade" }),
 		amount: integer("amount").notNull(), // Positive for earning, negative for spending
-		type: varchar("type", { length: 50 }).notNull(), // e.g., 'purchase', 'usage', 'refund', 'bonus'
+		type: varchar("type", { length: 50 }).notNull(), // e.g., 'purchase', 'usage', 'refund', 'bonus', 'expiration'
 		description: text("description"),
 		metadata: text("metadata"), // Optional JSON string for additional data
+		idempotencyKey: varchar("idempotency_key", { length: 255 }), // Retried requests with the same key are applied once
+		expiresAt: timestamp("expires_at", { withTimezone: true }), // Set on grants that expire
+		remaining: integer("remaining"), // Unspent part of an expiring grant
+		holdId: varchar("hold_id", { length: 255 }), // The hold a usage transaction captured
 		createdAt: timestamp("created_at", { withTimezone: true })
 			.default(sql`CURRENT_TIMESTAMP`)
 			.notNull(),
@@ -586,12 +948,55 @@ export const creditTransactions = createTable(
 	(table) => ({
 		userIdIdx: index("credit_transaction_user_id_idx").on(table.userId),
 		typeIdx: index("credit_transaction_type_idx").on(table.type),
+		idempotencyKeyIdx: uniqueIndex("credit_transaction_idempotency_key_idx").on(
+			table.userId,
+			table.idempotencyKey
+		),
+		expiresAtIdx: index("credit_transaction_expires_at_idx").on(table.expiresAt),
 	})
 );
 
 export type CreditTransaction = typeof creditTransactions.$inferSelect;
 export type NewCreditTransaction = typeof creditTransactions.$inferInsert;
 
+/**
+ * Credits reserved for an in-flight operation
+ * Held credits are not available to spend until the hold is captured, released or expires.
+ */
+export const creditHolds = createTable(
+	"credit_hold",
+	{
+		id: varchar("id", { length: 255 })
+			.notNull()
+			.primaryKey()
+			.$defaultFn(() => crypto.randomUUID()),
+		userId: varchar("user_id", { length: 255 })
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		amount: integer("amount").notNull(),
+		status: varchar("status", { length: 20 }).notNull().default("held"), // held, captured, released, expired
+		description: text("description"),
+		metadata: text("metadata"), // Optional JSON string for additional data
+		idempotencyKey: varchar("idempotency_key", { length: 255 }),
+		expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+		resolvedAt: timestamp("resolved_at", { withTimezone: true }),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+	},
+	(table) => ({
+		userStatusIdx: index("credit_hold_user_status_idx").on(table.userId, table.status),
+		idempotencyKeyIdx: uniqueIndex("credit_hold_idempotency_key_idx").on(
+			table.userId,
+			table.idempotencyKey
+		),
+		expiresAtIdx: index("credit_hold_expires_at_idx").on(table.expiresAt),
+	})
+);
+
+export type CreditHold = typeof creditHolds.$inferSelect;
+export type NewCreditHold = typeof creditHolds.$inferInsert;
+
 // Define relations for the new tables
 export const userCreditsRelations = relations(userCredits, ({ one }) => ({
 	user: one(users, { fields: [userCredits.userId], references: [users.id] }),
@@ -604,6 +1009,10 @@ export const creditTransactionsRelations = relations(creditTransactions, ({ one
 	}),
 }));
 
+export const creditHoldsRelations = relations(creditHolds, ({ one }) => ({
+	user: one(users, { fields: [creditHolds.userId], references: [users.id] }),
+}));
+
 // Waitlist Schema
 export const waitlistEntries = createTable(
 	"waitlist_entry",
@@ -618,8 +1027,18 @@ export const waitlistEntries = createTable(
 		interests: text("interests"),
 		isNotified: boolean("is_notified").default(false),
 		notifiedAt: timestamp("notified_at", { withTimezone: true }),
-		source: varchar("source", { length: 50 }).default("website"), // website, referral, etc.
+		source: varchar("source", { length: 50 }).default("website"), // website, referral, import, etc.
 		metadata: text("metadata").default("{}"),
+		// Shared as `/waitlist?ref=<code>`; each sign-up through it moves this entry up the queue
+		referralCode: varchar("referral_code", { length: 16 }).unique(),
+		referredById: integer("referred_by_id").references((): AnyPgColumn => waitlistEntries.id, {
+			onDelete: "set null",
+		}),
+		referralCount: integer("referral_count").default(0).notNull(),
+		// SHA-256 of the invite-only sign-up token sent by a batch invite; cleared once used
+		inviteTokenHash: varchar("invite_token_hash", { length: 64 }).unique(),
+		inviteExpiresAt: timestamp("invite_expires_at", { withTimezone: true }),
+		signedUpAt: timestamp("signed_up_at", { withTimezone: true }),
 		createdAt: timestamp("created_at", { withTimezone: true })
 			.default(sql`CURRENT_TIMESTAMP`)
 			.notNull(),
@@ -629,6 +1048,7 @@ export const waitlistEntries = createTable(
 		emailIdx: index("waitlist_email_idx").on(waitlistEntry.email),
 		createdAtIdx: index("waitlist_created_at_idx").on(waitlistEntry.createdAt),
 		isNotifiedIdx: index("waitlist_is_notified_idx").on(waitlistEntry.isNotified),
+		referredByIdx: index("waitlist_referred_by_idx").on(waitlistEntry.referredById),
 	})
 );
 
@@ -655,6 +1075,8 @@ export const deployments = createTable(
 		githubRepoName: text("github_repo_name"),
 		vercelProjectId: text("vercel_project_id"),
 		vercelProjectUrl: text("vercel_project_url"),
+		/** The Vercel deployment the status was last reported for, set by Vercel webhooks */
+		vercelDeploymentId: text("vercel_deployment_id"),
 		vercelDeploymentUrl: text("vercel_deployment_url"),
 		status: text("status", {
 			enum: ["deploying", "completed", "failed", "timeout"],
@@ -673,13 +1095,204 @@ export const deployments = createTable(
 		userIdIdx: index("deployment_user_id_idx").on(deployment.userId),
 		statusIdx: index("deployment_status_idx").on(deployment.status),
 		createdAtIdx: index("deployment_created_at_idx").on(deployment.createdAt),
+		vercelProjectIdx: index("deployment_vercel_project_idx").on(deployment.vercelProjectId),
 	})
 );
 
 export type Deployment = typeof deployments.$inferSelect;
 export type NewDeployment = typeof deployments.$inferInsert;
 
+/**
+ * Steps of a deployment run by the deployment orchestrator
+ * Each step records its input and output as JSON, so a run can resume after the last
+ * completed step and roll back the resources created so far.
+ */
+export const deploymentSteps = createTable(
+	"deployment_step",
+	{
+		id: varchar("id", { length: 255 })
+			.notNull()
+			.primaryKey()
+			.$defaultFn(() => crypto.randomUUID()),
+		deploymentId: text("deployment_id")
+			.notNull()
+			.references(() => deployments.id, { onDelete: "cascade" }),
+		name: varchar("name", { length: 50 }).notNull(), // create-repo, create-project, upload-env, add-domains, trigger-deploy
+		position: integer("position").notNull(),
+		status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, running, completed, failed, skipped, rolled_back
+		input: text("input").notNull().default("{}"),
+		output: text("output"),
+		error: text("error"),
+		attempts: integer("attempts").notNull().default(0),
+		startedAt: timestamp("started_at", { withTimezone: true }),
+		completedAt: timestamp("completed_at", { withTimezone: true }),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+		updatedAt: timestamp("updated_at", { withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+	},
+	(step) => ({
+		deploymentNameIdx: uniqueIndex("deployment_step_deployment_name_idx").on(
+			step.deploymentId,
+			step.name
+		),
+	})
+);
+
+export type DeploymentStep = typeof deploymentSteps.$inferSelect;
+
 // Define relations for deployments
-export const deploymentsRelations = relations(deployments, ({ one }) => ({
+export const deploymentsRelations = relations(deployments, ({ one, many }) => ({
 	user: one(users, { fields: [deployments.userId], references: [users.id] }),
+	steps: many(deploymentSteps),
+}));
+
+export const deploymentStepsRelations = relations(deploymentSteps, ({ one }) => ({
+	deployment: one(deployments, {
+		fields: [deploymentSteps.deploymentId],
+		references: [deployments.id],
+	}),
+}));
+
+/**
+ * AI chat conversations
+ * Each message records the model that answered and, for replies, the tokens and credits used.
+ */
+export const aiConversations = createTable(
+	"ai_conversation",
+	{
+		id: varchar("id", { length: 255 })
+			.notNull()
+			.primaryKey()
+			.$defaultFn(() => crypto.randomUUID()),
+		userId: varchar("user_id", { length: 255 })
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		title: varchar("title", { length: 255 }).notNull(),
+		model: varchar("model", { length: 100 }).notNull(), // Model of the latest reply
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+		updatedAt: timestamp("updated_at", { withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+	},
+	(table) => ({
+		userUpdatedAtIdx: index("ai_conversation_user_updated_at_idx").on(
+			table.userId,
+			table.updatedAt
+		),
+	})
+);
+
+export type AIConversation = typeof aiConversations.$inferSelect;
+export type NewAIConversation = typeof aiConversations.$inferInsert;
+
+export const aiMessages = createTable(
+	"ai_message",
+	{
+		id: varchar("id", { length: 255 })
+			.notNull()
+			.primaryKey()
+			.$defaultFn(() => crypto.randomUUID()),
+		conversationId: varchar("conversation_id", { length: 255 })
+			.notNull()
+			.references(() => aiConversations.id, { onDelete: "cascade" }),
+		role: varchar("role", { length: 20 }).notNull(), // user, assistant
+		content: text("content").notNull(),
+		model: varchar("model", { length: 100 }),
+		provider: varchar("provider", { length: 50 }),
+		inputTokens: integer("input_tokens"),
+		outputTokens: integer("output_tokens"),
+		credits: integer("credits"), // Credits charged for the reply
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+	},
+	(table) => ({
+		conversationCreatedAtIdx: index("ai_message_conversation_created_at_idx").on(
+			table.conversationId,
+			table.createdAt
+		),
+	})
+);
+
+export type AIMessage = typeof aiMessages.$inferSelect;
+export type NewAIMessage = typeof aiMessages.$inferInsert;
+
+export const aiConversationsRelations = relations(aiConversations, ({ one, many }) => ({
+	user: one(users, { fields: [aiConversations.userId], references: [users.id] }),
+	messages: many(aiMessages),
 }));
+
+export const aiMessagesRelations = relations(aiMessages, ({ one }) => ({
+	conversation: one(aiConversations, {
+		fields: [aiMessages.conversationId],
+		references: [aiConversations.id],
+	}),
+}));
+
+/**
+ * Runtime feature flags, evaluated per request by the feature flag service
+ * Values are stored as strings: "true"/"false" for boolean flags, a variant name otherwise.
+ */
+export const featureFlags = createTable("feature_flag", {
+	key: varchar("key", { length: 100 }).notNull().primaryKey(),
+	description: text("description"),
+	type: varchar("type", { length: 20 }).default("boolean").notNull(), // boolean, multivariate
+	enabled: boolean("enabled").default(false).notNull(),
+	variants: text("variants").default("[]").notNull(), // JSON string[], multivariate flags only
+	defaultValue: text("default_value").notNull(),
+	rules: text("rules").default("[]").notNull(), // JSON FeatureFlagRule[], first match wins
+	clientVisible: boolean("client_visible").default(false).notNull(),
+	updatedBy: varchar("updated_by", { length: 255 }).references(() => users.id, {
+		onDelete: "set null",
+	}),
+	createdAt: timestamp("created_at", { withTimezone: true })
+		.default(sql`CURRENT_TIMESTAMP`)
+		.notNull(),
+	updatedAt: timestamp("updated_at", { withTimezone: true })
+		.default(sql`CURRENT_TIMESTAMP`)
+		.notNull(),
+});
+
+export type FeatureFlag = typeof featureFlags.$inferSelect;
+export type NewFeatureFlag = typeof featureFlags.$inferInsert;
+
+/**
+ * Every transactional email sent, or attempted, by the EmailService
+ * Answers "did this email go out?" without access to the Resend dashboard.
+ */
+export const emailLogs = createTable(
+	"email_log",
+	{
+		id: varchar("id", { length: 255 })
+			.notNull()
+			.primaryKey()
+			.$defaultFn(() => crypto.randomUUID()),
+		template: varchar("template", { length: 50 }).notNull(), // e.g. welcome, reset-password
+		to: varchar("to", { length: 255 }).notNull(),
+		subject: text("subject").notNull(),
+		userId: varchar("user_id", { length: 255 }).references(() => users.id, {
+			onDelete: "set null",
+		}),
+		status: varchar("status", { length: 20 }).notNull(), // sent, failed
+		transport: varchar("transport", { length: 20 }).notNull(), // resend, outbox
+		messageId: varchar("message_id", { length: 255 }), // Resend email ID, or the outbox file name
+		error: text("error"),
+		metadata: text("metadata"), // JSON string of additional context
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+	},
+	(log) => ({
+		toIdx: index("email_log_to_idx").on(log.to, log.createdAt),
+		userIdx: index("email_log_user_idx").on(log.userId),
+		createdAtIdx: index("email_log_created_at_idx").on(log.createdAt),
+	})
+);
+
+export type EmailLog = typeof emailLogs.$inferSelect;
+export type NewEmailLog = typeof emailLogs.$inferInsert;
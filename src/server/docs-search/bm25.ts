@@ -0,0 +1,209 @@
+/**
+ * BM25 ranking over docs chunks
+ *
+ * Terms are lowercased, stop words dropped and common suffixes stripped, so "deploying",
+ * "deployed" and "deploys" all match "deploy". Queries are expanded with a few synonyms
+ * used across the docs; embeddings (see ./embeddings.ts) cover the rest.
+ */
+
+const K1 = 1.2;
+const B = 0.75;
+
+/** Weight of the terms added by synonym expansion, relative to the query's own */
+const SYNONYM_WEIGHT = 0.5;
+
+const STOP_WORDS = new Set([
+	"a",
+	"an",
+	"and",
+	"are",
+	"as",
+	"at",
+	"be",
+	"by",
+	"can",
+	"do",
+	"does",
+	"for",
+	"from",
+	"how",
+	"i",
+	"if",
+	"in",
+	"is",
+	"it",
+	"my",
+	"of",
+	"on",
+	"or",
+	"the",
+	"this",
+	"to",
+	"use",
+	"what",
+	"when",
+	"where",
+	"which",
+	"with",
+	"you",
+	"your",
+]);
+
+/** Stemmed term → related terms, applied both ways */
+const SYNONYMS: Record<string, string[]> = {
+	auth: ["authentication", "login", "signin", "session"],
+	db: ["database", "postgres", "drizzle"],
+	env: ["environment", "variable"],
+	deploy: ["deployment", "vercel", "host"],
+	pay: ["payment", "billing", "checkout", "subscription"],
+	mail: ["email", "resend"],
+	cms: ["content", "payload", "builder"],
+	test: ["vitest", "playwright"],
+	error: ["exception", "bug"],
+};
+
+/**
+ * Strips common English suffixes
+ */
+export function stem(term: string): string {
+	if (term.length <= 3) {
+		return term;
+	}
+	if (term.endsWith("ies") && term.length > 4) {
+		return `${term.slice(0, -3)}y`;
+	}
+
+	let stemmed = term;
+	for (const suffix of ["ing", "ed", "es", "s"]) {
+		if (
+			term.endsWith(suffix) &&
+			term.length - suffix.length >= 3 &&
+			!(suffix === "s" && term.endsWith("ss")) &&
+			!(suffix === "es" && !/(ss|x|ch|sh)es$/.test(term))
+		) {
+			stemmed = term.slice(0, -suffix.length);
+			break;
+		}
+	}
+	// "configure", "configures" and "configured" should all match
+	return stemmed.length > 4 && stemmed.endsWith("e") ? stemmed.slice(0, -1) : stemmed;
+}
+
+/**
+ * Splits text into stemmed search terms
+ */
+export function tokenize(text: string): string[] {
+	return text
+		.toLowerCase()
+		.split(/[^\p{L}\p{N}]+/u)
+		.filter((term) => term.length > 1 && !STOP_WORDS.has(term))
+		.map(stem);
+}
+
+const synonymIndex = (() => {
+	const index = new Map<string, Set<string>>();
+	const link = (from: string, to: string) => {
+		if (from !== to) {
+			index.set(from, (index.get(from) ?? new Set()).add(to));
+		}
+	};
+	for (const [term, related] of Object.entries(SYNONYMS)) {
+		const group = [term, ...related].map(stem);
+		for (const from of group) {
+			for (const to of group) {
+				link(from, to);
+			}
+		}
+	}
+	return index;
+})();
+
+/**
+ * Turns a query into weighted terms, including synonyms
+ */
+export function expandQuery(query: string): Map<string, number> {
+	const terms = new Map<string, number>();
+	for (const term of tokenize(query)) {
+		terms.set(term, 1);
+	}
+	for (const term of [...terms.keys()]) {
+		for (const synonym of synonymIndex.get(term) ?? []) {
+			if (!terms.has(synonym)) {
+				terms.set(synonym, SYNONYM_WEIGHT);
+			}
+		}
+	}
+	return terms;
+}
+
+export class Bm25Index {
+	private readonly termFrequencies: Map<string, number>[];
+	private readonly lengths: number[];
+	private readonly documentFrequencies = new Map<string, number>();
+	private readonly averageLength: number;
+
+	/**
+	 * @param documents - The terms of each document, e.g. from tokenize()
+	 */
+	constructor(documents: string[][]) {
+		this.lengths = documents.map((terms) => terms.length);
+		this.termFrequencies = documents.map((terms) => {
+			const frequencies = new Map<string, number>();
+			for (const term of terms) {
+				frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+			}
+			for (const term of frequencies.keys()) {
+				this.documentFrequencies.set(term, (this.documentFrequencies.get(term) ?? 0) + 1);
+			}
+			return frequencies;
+		});
+		const totalLength = this.lengths.reduce((sum, length) => sum + length, 0);
+		this.averageLength = documents.length ? totalLength / documents.length : 0;
+	}
+
+	get size(): number {
+		return this.lengths.length;
+	}
+
+	private idf(term: string): number {
+		const frequency = this.documentFrequencies.get(term) ?? 0;
+		return Math.log(1 + (this.size - frequency + 0.5) / (frequency + 0.5));
+	}
+
+	/**
+	 * Scores every document against weighted query terms
+	 * @returns One score per document, in index order; 0 when no term matches
+	 */
+	score(terms: Map<string, number>): number[] {
+		const scores = new Array<number>(this.size).fill(0);
+		for (const [term, weight] of terms) {
+			if (!this.documentFrequencies.has(term)) {
+				continue;
+			}
+			const idf = this.idf(term);
+			this.termFrequencies.forEach((frequencies, index) => {
+				const frequency = frequencies.get(term);
+				if (!frequency) {
+					return;
+				}
+				const length = this.lengths[index] ?? 0;
+				const norm = K1 * (1 - B + (B * length) / (this.averageLength || 1));
+				scores[index] =
+					(scores[index] ?? 0) + (weight * idf * frequency * (K1 + 1)) / (frequency + norm);
+			});
+		}
+		return scores;
+	}
+
+	/**
+	 * Finds the best matching documents for a query
+	 * @returns Document indexes and scores, best first
+	 */
+	search(query: string, limit = 10): { index: number; score: number }[] {
+		return this.score(expandQuery(query))
+			.map((score, index) => ({ index, score }))
+			.filter(({ score }) => score > 0)
+			.sort((a, b) => b.score - a.score)
+			.slice(0, limit);
+	}
+}
@@ -0,0 +1,159 @@
+import { readdir, readFile } from "node:fs/promises";
+import { join, relative } from "node:path";
+import matter from "gray-matter";
+import { slugify } from "@/lib/utils/extract-headings";
+import type { DocChunk, DocPage } from "./types";
+
+/** Sections longer than this are split at paragraph breaks */
+export const MAX_CHUNK_LENGTH = 1200;
+
+const DOCS_DIR = "docs";
+const BLOG_DIR = "src/content/blog";
+
+/**
+ * Reduces MDX to the plain text a reader sees
+ * Imports, exports, comments, images and JSX tags are removed; the text inside tags and
+ * code blocks is kept, so component props and examples stay searchable.
+ */
+export function stripMdx(content: string): string {
+	return (
+		content
+			.replace(/^(import|export)\s.*$/gm, "")
+			.replace(/<!--[\s\S]*?-->/g, "")
+			.replace(/\{\/\*[\s\S]*?\*\/\}/g, "")
+			.replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+			.replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+			.replace(/<\/?[A-Za-z][^>]*>/g, "")
+			.replace(/^```.*$/gm, "")
+			.replace(/`([^`]+)`/g, "$1")
+			.replace(/(\*\*|__)(.+?)\1/g, "$2")
+			.replace(/^\s*>\s?/gm, "")
+			// Collapse the blank lines left behind, keeping paragraph breaks
+			.replace(/[ \t]+$/gm, "")
+			.replace(/\n{3,}/g, "\n\n")
+			.trim()
+	);
+}
+
+/**
+ * Splits text at paragraph breaks into pieces of at most `maxLength` characters
+ * A single paragraph longer than that is split at the last space before the limit.
+ */
+function splitText(text: string, maxLength: number): string[] {
+	const pieces: string[] = [];
+	let current = "";
+
+	for (let paragraph of text.split(/\n{2,}/)) {
+		while (paragraph.length > maxLength) {
+			const cut = paragraph.lastIndexOf(" ", maxLength);
+			const end = cut > maxLength / 2 ? cut : maxLength;
+			if (current) {
+				pieces.push(current);
+				current = "";
+			}
+			pieces.push(paragraph.slice(0, end).trim());
+			paragraph = paragraph.slice(end).trim();
+		}
+
+		if (current && current.length + paragraph.length + 2 > maxLength) {
+			pieces.push(current);
+			current = paragraph;
+		} else {
+			current = current ? `${current}\n\n${paragraph}` : paragraph;
+		}
+	}
+
+	if (current) {
+		pieces.push(current);
+	}
+	return pieces.filter(Boolean);
+}
+
+/**
+ * Splits a page into chunks at its headings
+ * Headings inside code blocks (e.g. shell comments) are not treated as sections.
+ */
+export function chunkPage(page: DocPage, maxLength = MAX_CHUNK_LENGTH): DocChunk[] {
+	const sections: { heading?: string; lines: string[] }[] = [{ lines: [] }];
+	let inCodeBlock = false;
+
+	for (const line of page.content.split("\n")) {
+		if (/^\s*```/.test(line)) {
+			inCodeBlock = !inCodeBlock;
+		}
+
+		const heading = inCodeBlock ? null : /^#{1,6}\s+(.+?)\s*#*$/.exec(line);
+		if (heading?.[1]) {
+			sections.push({ heading: stripMdx(heading[1]), lines: [] });
+		} else {
+			sections.at(-1)?.lines.push(line);
+		}
+	}
+
+	const chunks: DocChunk[] = [];
+	for (const { heading, lines } of sections) {
+		const text = stripMdx(lines.join("\n"));
+		if (!text) {
+			continue;
+		}
+
+		const anchor = heading ? slugify(heading) : "";
+		const url = anchor ? `${page.url}#${anchor}` : page.url;
+		splitText(text, maxLength).forEach((piece, index) => {
+			chunks.push({
+				id: `${url}:${index}`,
+				source: page.source,
+				title: page.title,
+				section: heading,
+				url,
+				text: piece,
+			});
+		});
+	}
+
+	return chunks;
+}
+
+/**
+ * Recursively lists the Markdown and MDX files in a directory
+ */
+async function listMarkdownFiles(dir: string): Promise<string[]> {
+	const entries = await readdir(dir, { withFileTypes: true }).catch(() => []);
+	const files = await Promise.all(
+		entries.map((entry) => {
+			const fullPath = join(dir, entry.name);
+			if (entry.isDirectory()) {
+				return listMarkdownFiles(fullPath);
+			}
+			return Promise.resolve(/\.mdx?$/.test(entry.name) ? [fullPath] : []);
+		})
+	);
+	return files.flat();
+}
+
+/**
+ * Loads the pages to index: the docs in docs/ and the blog posts in src/content/blog
+ */
+export async function loadDocPages(root = process.cwd()): Promise<DocPage[]> {
+	const sources = [
+		{ source: "docs" as const, dir: join(root, DOCS_DIR), prefix: "/docs" },
+		{ source: "blog" as const, dir: join(root, BLOG_DIR), prefix: "/blog" },
+	];
+
+	const pages: DocPage[] = [];
+	for (const { source, dir, prefix } of sources) {
+		for (const file of await listMarkdownFiles(dir)) {
+			const { data, content } = matter(await readFile(file, "utf-8"));
+			const path = relative(dir, file)
+				.replace(/\\/g, "/")
+				.replace(/\.mdx?$/, "");
+			pages.push({
+				source,
+				title: typeof data.title === "string" ? data.title : path,
+				url: `${prefix}/${path}`,
+				content,
+			});
+		}
+	}
+	return pages;
+}
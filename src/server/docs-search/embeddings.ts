@@ -0,0 +1,45 @@
+import type OpenAI from "openai";
+
+export const DOCS_EMBEDDING_MODEL = "text-embedding-3-small";
+
+/** Shortened vectors keep the on-disk index small at little cost to ranking */
+export const DOCS_EMBEDDING_DIMENSIONS = 256;
+
+/** Inputs sent per embeddings request */
+const BATCH_SIZE = 100;
+
+function normalize(vector: number[]): number[] {
+	const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+	// Four decimals are plenty for ranking and halve the index size
+	return vector.map((value) => Math.round((value / length) * 1e4) / 1e4);
+}
+
+/**
+ * Embeds texts in batches
+ * @returns One normalized vector per text, in the same order
+ */
+export async function embedTexts(client: OpenAI, texts: string[]): Promise<number[][]> {
+	const vectors: number[][] = [];
+	for (let start = 0; start < texts.length; start += BATCH_SIZE) {
+		const response = await client.embeddings.create({
+			model: DOCS_EMBEDDING_MODEL,
+			dimensions: DOCS_EMBEDDING_DIMENSIONS,
+			input: texts.slice(start, start + BATCH_SIZE),
+		});
+		for (const item of [...response.data].sort((a, b) => a.index - b.index)) {
+			vectors.push(normalize(item.embedding));
+		}
+	}
+	return vectors;
+}
+
+/**
+ * Cosine similarity of two normalized vectors
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+	let dot = 0;
+	for (let i = 0; i < Math.min(a.length, b.length); i++) {
+		dot += (a[i] ?? 0) * (b[i] ?? 0);
+	}
+	return dot;
+}
@@ -0,0 +1,157 @@
+/**
+ * Docs Search Index
+ *
+ * Chunks the docs and blog posts by heading and ranks chunks with BM25, optionally fused
+ * with embedding similarity. The index is built by scripts/build-docs-index.ts before
+ * `next build` and stored on disk; embeddings are only added when an OpenAI key is available.
+ */
+
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import type OpenAI from "openai";
+import { logger } from "@/lib/logger";
+import { Bm25Index, tokenize } from "./bm25";
+import { chunkPage, loadDocPages } from "./chunker";
+import { cosineSimilarity, DOCS_EMBEDDING_MODEL, embedTexts } from "./embeddings";
+import type { DocChunk, DocsIndex } from "./types";
+
+export * from "./bm25";
+export * from "./chunker";
+export * from "./embeddings";
+export * from "./types";
+
+/** Bump when the chunk format changes, so stale index files are rebuilt */
+export const DOCS_INDEX_VERSION = 1;
+
+/** Relative to the project root; included in the server bundle by next.config.ts */
+export const DOCS_INDEX_PATH = ".cache/docs-index.json";
+
+/** Titles and headings count this many times as much as body text */
+const HEADING_BOOST = 2;
+
+/** Results from each ranking considered for fusion */
+const FUSION_CANDIDATES = 50;
+
+/** Reciprocal rank fusion constant; higher values flatten the rank differences */
+const RRF_K = 60;
+
+/**
+ * Builds the index from the pages on disk
+ * @param options.embeddingClient - Adds embeddings when given; the index is BM25 only if embedding fails
+ */
+export async function buildDocsIndex(
+	options: { root?: string; embeddingClient?: OpenAI | null } = {}
+): Promise<DocsIndex> {
+	const pages = await loadDocPages(options.root);
+	const chunks = pages.flatMap((page) => chunkPage(page));
+
+	let embeddings: number[][] | null = null;
+	if (options.embeddingClient) {
+		try {
+			embeddings = await embedTexts(
+				options.embeddingClient,
+				chunks.map((chunk) => [chunk.title, chunk.section, chunk.text].filter(Boolean).join("\n"))
+			);
+		} catch (error) {
+			logger.warn("Failed to embed docs, building a BM25-only index", error);
+		}
+	}
+
+	return {
+		version: DOCS_INDEX_VERSION,
+		builtAt: new Date().toISOString(),
+		chunks,
+		embeddingModel: embeddings ? DOCS_EMBEDDING_MODEL : null,
+		embeddings,
+	};
+}
+
+/**
+ * Reads the index built at build time
+ * @returns The index, or null if it is missing or was built by another version
+ */
+export async function readDocsIndex(root = process.cwd()): Promise<DocsIndex | null> {
+	try {
+		const index = JSON.parse(await readFile(join(root, DOCS_INDEX_PATH), "utf-8")) as DocsIndex;
+		return index.version === DOCS_INDEX_VERSION ? index : null;
+	} catch {
+		return null;
+	}
+}
+
+export async function writeDocsIndex(index: DocsIndex, root = process.cwd()): Promise<string> {
+	const path = join(root, DOCS_INDEX_PATH);
+	await mkdir(dirname(path), { recursive: true });
+	await writeFile(path, JSON.stringify(index));
+	return path;
+}
+
+export interface RankedDocChunk {
+	chunk: DocChunk;
+	score: number;
+}
+
+/**
+ * Ranks the chunks of an index for a query
+ */
+export class DocsSearchIndex {
+	private readonly bm25: Bm25Index;
+
+	constructor(private readonly index: DocsIndex) {
+		this.bm25 = new Bm25Index(
+			index.chunks.map((chunk) => {
+				const headingTerms = tokenize(`${chunk.title} ${chunk.section ?? ""}`);
+				return [
+					...Array.from({ length: HEADING_BOOST }, () => headingTerms).flat(),
+					...tokenize(chunk.text),
+				];
+			})
+		);
+	}
+
+	get chunkCount(): number {
+		return this.index.chunks.length;
+	}
+
+	/** The model to embed queries with, or null if the index has no embeddings */
+	get embeddingModel(): string | null {
+		return this.index.embeddings ? this.index.embeddingModel : null;
+	}
+
+	/**
+	 * Finds the best chunks for a query
+	 * @param queryEmbedding - The query embedded with `embeddingModel`; without it, ranking is BM25 only
+	 */
+	search(query: string, limit: number, queryEmbedding?: number[] | null): RankedDocChunk[] {
+		const keywordRanking = this.bm25.search(query, FUSION_CANDIDATES);
+		const embeddings = this.index.embeddings;
+
+		if (!queryEmbedding || !embeddings) {
+			return keywordRanking.slice(0, limit).flatMap(({ index, score }) => {
+				const chunk = this.index.chunks[index];
+				return chunk ? [{ chunk, score }] : [];
+			});
+		}
+
+		const vectorRanking = embeddings
+			.map((embedding, index) => ({ index, score: cosineSimilarity(queryEmbedding, embedding) }))
+			.sort((a, b) => b.score - a.score)
+			.slice(0, FUSION_CANDIDATES);
+
+		// Reciprocal rank fusion: scores from the two rankings are not comparable, ranks are
+		const fused = new Map<number, number>();
+		for (const ranking of [keywordRanking, vectorRanking]) {
+			ranking.forEach(({ index }, rank) => {
+				fused.set(index, (fused.get(index) ?? 0) + 1 / (RRF_K + rank + 1));
+			});
+		}
+
+		return [...fused.entries()]
+			.sort((a, b) => b[1] - a[1])
+			.slice(0, limit)
+			.flatMap(([index, score]) => {
+				const chunk = this.index.chunks[index];
+				return chunk ? [{ chunk, score }] : [];
+			});
+	}
+}
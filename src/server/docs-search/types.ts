@@ -0,0 +1,41 @@
+export type DocSource = "docs" | "blog";
+
+/**
+ * A searchable section of a page: the text under one heading, split further if long
+ */
+export interface DocChunk {
+	id: string;
+	source: DocSource;
+	/** Page title */
+	title: string;
+	/** Nearest heading above the text, if any */
+	section?: string;
+	/** Page URL, with the section anchor when there is one */
+	url: string;
+	/** Plain text, without MDX syntax */
+	text: string;
+}
+
+/**
+ * A page to index, with its frontmatter already removed
+ */
+export interface DocPage {
+	source: DocSource;
+	title: string;
+	url: string;
+	content: string;
+}
+
+/**
+ * The docs index written by scripts/build-docs-index.ts
+ * Term statistics are cheap to recompute, so only the chunks and their embeddings are stored.
+ */
+export interface DocsIndex {
+	version: number;
+	builtAt: string;
+	chunks: DocChunk[];
+	/** Embedding model used for `embeddings`, or null if the index is BM25 only */
+	embeddingModel: string | null;
+	/** Normalized vectors, in the same order as `chunks` */
+	embeddings: number[][] | null;
+}
@@ -0,0 +1,34 @@
+/**
+ * Email Module
+ *
+ * Templates, rendering and transports for transactional email. Send through
+ * `emailService` (src/server/services/email-service.ts), which also records every
+ * attempt in the `email_log` table.
+ */
+
+import { logger } from "@/lib/logger";
+import { resend } from "@/lib/resend";
+import { OutboxTransport } from "./outbox-transport";
+import { ResendTransport } from "./resend-transport";
+import type { EmailTransport } from "./types";
+
+export * from "./outbox-transport";
+export * from "./registry";
+export * from "./resend-transport";
+export * from "./types";
+
+let emailTransport: EmailTransport | undefined;
+
+/**
+ * Gets the transport for outgoing email, created on first use
+ * Resend when `RESEND_API_KEY` is set, otherwise the local outbox.
+ */
+export function getEmailTransport(): EmailTransport {
+	if (!emailTransport) {
+		emailTransport = resend ? new ResendTransport(resend) : new OutboxTransport();
+		if (emailTransport.id === "outbox") {
+			logger.info("RESEND_API_KEY is not set, email is written to the local outbox");
+		}
+	}
+	return emailTransport;
+}
@@ -0,0 +1,87 @@
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import {
+	type EmailMessage,
+	type EmailTransport,
+	EmailTransportError,
+	type SentEmail,
+} from "./types";
+
+/** Directory the outbox writes to, relative to the working directory */
+export const EMAIL_OUTBOX_DIR = process.env.EMAIL_OUTBOX_DIR?.trim() || ".outbox";
+
+/**
+ * A message stored in the outbox
+ */
+export interface OutboxMessage extends Omit<EmailMessage, "html"> {
+	/** File name without extension, also used as the message ID */
+	id: string;
+	sentAt: string;
+}
+
+/**
+ * Writes email to disk instead of sending it, for development without a Resend API key
+ * Each message is stored as `<id>.html` with its headers and plain text in `<id>.json`,
+ * so links in verification and reset emails can be opened straight from the outbox.
+ */
+export class OutboxTransport implements EmailTransport {
+	readonly id = "outbox" as const;
+	private readonly root: string;
+
+	constructor(root: string = EMAIL_OUTBOX_DIR) {
+		this.root = path.resolve(root);
+	}
+
+	async send(message: EmailMessage): Promise<SentEmail> {
+		const sentAt = new Date();
+		const id = `${sentAt.getTime()}-${message.template}-${crypto.randomUUID().slice(0, 8)}`;
+		const { html, ...headers } = message;
+
+		try {
+			await mkdir(this.root, { recursive: true });
+			await writeFile(path.join(this.root, `${id}.html`), html);
+			await writeFile(
+				path.join(this.root, `${id}.json`),
+				JSON.stringify({ id, ...headers, sentAt: sentAt.toISOString() }, null, 2)
+			);
+		} catch (error) {
+			throw new EmailTransportError(`Failed to write ${id} to the outbox`, this.id, error);
+		}
+
+		return { messageId: id };
+	}
+
+	/**
+	 * Lists the most recent messages in the outbox, newest first
+	 */
+	async list(limit = 50): Promise<OutboxMessage[]> {
+		const files = await readdir(this.root).catch(() => [] as string[]);
+		const ids = files
+			.filter((file) => file.endsWith(".json"))
+			.map((file) => file.slice(0, -".json".length))
+			// IDs start with the send time in milliseconds
+			.sort((a, b) => Number.parseInt(b, 10) - Number.parseInt(a, 10))
+			.slice(0, limit);
+
+		const messages = await Promise.all(
+			ids.map((id) =>
+				readFile(path.join(this.root, `${id}.json`), "utf8")
+					.then((json) => JSON.parse(json) as OutboxMessage)
+					.catch(() => null)
+			)
+		);
+		return messages.filter((message): message is OutboxMessage => message !== null);
+	}
+
+	/**
+	 * Reads the HTML of an outbox message
+	 * @returns The HTML, or null if the message does not exist
+	 */
+	async readHtml(id: string): Promise<string | null> {
+		// IDs are generated by `send`; anything else could escape the outbox
+		if (!/^[\w-]+$/.test(id)) {
+			return null;
+		}
+		return readFile(path.join(this.root, `${id}.html`), "utf8").catch(() => null);
+	}
+}
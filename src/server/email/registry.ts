@@ -0,0 +1,170 @@
+import { render } from "@react-email/render";
+import { createElement, type ReactElement } from "react";
+import { siteConfig } from "@/config/site-config";
+import { FeedbackReplyEmail, type FeedbackReplyEmailProps } from "./templates/feedback-reply";
+import { PaymentRefundedEmail, type PaymentRefundedEmailProps } from "./templates/payment-refunded";
+import { formatAmount, ReceiptEmail, type ReceiptEmailProps } from "./templates/receipt";
+import { ResetPasswordEmail, type ResetPasswordEmailProps } from "./templates/reset-password";
+import {
+	SubscriptionEndingEmail,
+	type SubscriptionEndingEmailProps,
+} from "./templates/subscription-ending";
+import { TeamInviteEmail, type TeamInviteEmailProps } from "./templates/team-invite";
+import { VerifyEmail, type VerifyEmailProps } from "./templates/verify-email";
+import { WaitlistLaunchEmail, type WaitlistLaunchEmailProps } from "./templates/waitlist-launch";
+import { WaitlistWelcomeEmail, type WaitlistWelcomeEmailProps } from "./templates/waitlist-welcome";
+import { WelcomeEmail, type WelcomeEmailProps } from "./templates/welcome";
+
+interface EmailTemplate<P> {
+	/** Shown on the dev preview page */
+	description: string;
+	subject: (props: P) => string;
+	component: (props: P) => ReactElement;
+	/** Sample props for the dev preview and tests */
+	previewProps: P;
+}
+
+const defineTemplate = <P>(template: EmailTemplate<P>) => template;
+
+const exampleUrl = (path: string) => `${siteConfig.url}${path}`;
+const inOneDay = () => new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+/**
+ * Every transactional email the app sends
+ * Add a template here and it can be sent with `emailService.send` and previewed at /dev/emails.
+ */
+export const EMAIL_TEMPLATES = {
+	welcome: defineTemplate<WelcomeEmailProps>({
+		description: "After signing up with email and password",
+		subject: () => `Welcome to ${siteConfig.title}`,
+		component: WelcomeEmail,
+		previewProps: { name: "Ada", dashboardUrl: exampleUrl("/dashboard") },
+	}),
+	"verify-email": defineTemplate<VerifyEmailProps>({
+		description: "Magic sign-in link that also verifies the address",
+		subject: () => `Sign in to ${siteConfig.title}`,
+		component: VerifyEmail,
+		previewProps: {
+			url: exampleUrl("/api/auth/callback/resend?token=example"),
+			expiresAt: inOneDay(),
+		},
+	}),
+	"reset-password": defineTemplate<ResetPasswordEmailProps>({
+		description: "Forgot password link",
+		subject: () => `Reset your ${siteConfig.title} password`,
+		component: ResetPasswordEmail,
+		previewProps: { resetUrl: exampleUrl("/reset-password?token=example"), expiresInMinutes: 60 },
+	}),
+	"team-invite": defineTemplate<TeamInviteEmailProps>({
+		description: "Invitation to join a team",
+		subject: ({ inviterName, teamName }) =>
+			`${inviterName} invited you to join ${teamName} on ${siteConfig.title}`,
+		component: TeamInviteEmail,
+		previewProps: {
+			teamName: "Acme",
+			inviterName: "Grace Hopper",
+			role: "member",
+			inviteUrl: exampleUrl("/invite/example"),
+			expiresAt: inOneDay(),
+		},
+	}),
+	receipt: defineTemplate<ReceiptEmailProps>({
+		description: "After a paid order or subscription payment",
+		subject: ({ productName, amount, currency }) =>
+			`Your receipt for ${productName} (${formatAmount(amount, currency)})`,
+		component: ReceiptEmail,
+		previewProps: {
+			name: "Ada",
+			orderId: "ord_123456",
+			productName: `${siteConfig.title} Pro`,
+			amount: 4900,
+			currency: "USD",
+			purchasedAt: new Date(),
+			billingUrl: exampleUrl("/settings"),
+		},
+	}),
+	"payment-refunded": defineTemplate<PaymentRefundedEmailProps>({
+		description: "A payment was refunded or disputed",
+		subject: ({ productName, kind }) =>
+			kind === "dispute"
+				? `Your payment for ${productName} is disputed`
+				: `Your payment for ${productName} was refunded`,
+		component: PaymentRefundedEmail,
+		previewProps: {
+			name: "Ada",
+			orderId: "ord_123456",
+			productName: `${siteConfig.title} Pro`,
+			amount: 4900,
+			currency: "USD",
+			kind: "refund",
+			billingUrl: exampleUrl("/settings/billing"),
+		},
+	}),
+	"subscription-ending": defineTemplate<SubscriptionEndingEmailProps>({
+		description: "A subscription was cancelled at the end of its period",
+		subject: ({ planName }) => `Your ${planName} subscription is ending`,
+		component: SubscriptionEndingEmail,
+		previewProps: {
+			name: "Ada",
+			planName: `${siteConfig.title} Pro`,
+			endsAt: inOneDay(),
+			billingUrl: exampleUrl("/settings"),
+		},
+	}),
+	"waitlist-welcome": defineTemplate<WaitlistWelcomeEmailProps>({
+		description: "After joining the waitlist",
+		subject: () => `Welcome to the ${siteConfig.title} waitlist!`,
+		component: WaitlistWelcomeEmail,
+		previewProps: { name: "Ada Lovelace" },
+	}),
+	"waitlist-launch": defineTemplate<WaitlistLaunchEmailProps>({
+		description: "Invites a waitlist entry to sign up",
+		subject: () => `Your ${siteConfig.title} invite is here`,
+		component: WaitlistLaunchEmail,
+		previewProps: {
+			name: "Ada Lovelace",
+			signUpUrl: exampleUrl("/sign-up?invite=example"),
+			expiresAt: inOneDay(),
+		},
+	}),
+	"feedback-reply": defineTemplate<FeedbackReplyEmailProps>({
+		description: "An admin replied to feedback",
+		subject: () => `Re: your feedback on ${siteConfig.title}`,
+		component: FeedbackReplyEmail,
+		previewProps: {
+			name: "Ada Lovelace",
+			feedback: "It would be great to export my projects as CSV.",
+			reply:
+				"Thanks for the suggestion! CSV export is now on our roadmap.\n\nWe'll let you know when it ships.",
+		},
+	}),
+};
+
+export type EmailTemplateName = keyof typeof EMAIL_TEMPLATES;
+export type EmailTemplateProps<T extends EmailTemplateName> =
+	(typeof EMAIL_TEMPLATES)[T]["previewProps"];
+
+export interface RenderedEmail {
+	subject: string;
+	html: string;
+	text: string;
+}
+
+export function isEmailTemplateName(name: string): name is EmailTemplateName {
+	return Object.hasOwn(EMAIL_TEMPLATES, name);
+}
+
+/**
+ * Renders a template to its subject, HTML and plain text
+ */
+export async function renderEmail<T extends EmailTemplateName>(
+	name: T,
+	props: EmailTemplateProps<T>
+): Promise<RenderedEmail> {
+	// The registry maps each name to matching props, which TypeScript cannot follow through the union
+	const template = EMAIL_TEMPLATES[name] as unknown as EmailTemplate<EmailTemplateProps<T>>;
+	const element = createElement(template.component, props);
+
+	const [html, text] = await Promise.all([render(element), render(element, { plainText: true })]);
+	return { subject: template.subject(props), html, text };
+}
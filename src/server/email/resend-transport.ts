@@ -0,0 +1,39 @@
+import type { Resend } from "resend";
+import {
+	type EmailMessage,
+	type EmailTransport,
+	EmailTransportError,
+	type SentEmail,
+} from "./types";
+
+/**
+ * Sends email through the Resend API
+ */
+export class ResendTransport implements EmailTransport {
+	readonly id = "resend" as const;
+
+	constructor(private readonly client: Resend) {}
+
+	async send(message: EmailMessage): Promise<SentEmail> {
+		let result: Awaited<ReturnType<Resend["emails"]["send"]>>;
+		try {
+			result = await this.client.emails.send({
+				from: message.from,
+				to: [message.to],
+				subject: message.subject,
+				html: message.html,
+				text: message.text,
+				replyTo: message.replyTo,
+				tags: [{ name: "template", value: message.template }],
+			});
+		} catch (error) {
+			throw new EmailTransportError("Failed to reach Resend", this.id, error);
+		}
+
+		// The SDK reports API errors in the result instead of throwing
+		if (result.error) {
+			throw new EmailTransportError(result.error.message, this.id, result.error);
+		}
+		return { messageId: result.data?.id ?? null };
+	}
+}
@@ -0,0 +1,41 @@
+import { siteConfig } from "@/config/site-config";
+import { EmailLayout, Heading, MutedText, Text } from "./layout";
+
+export interface FeedbackReplyEmailProps {
+	name?: string | null;
+	/** The feedback being answered, quoted below the reply */
+	feedback: string;
+	reply: string;
+}
+
+/**
+ * An admin's reply to feedback, sent to the submitter
+ */
+export function FeedbackReplyEmail({ name, feedback, reply }: FeedbackReplyEmailProps) {
+	return (
+		<EmailLayout preview={reply.slice(0, 100)}>
+			<Heading>Re: your feedback</Heading>
+			<Text>Hi{name ? ` ${name.split(" ")[0]}` : ""},</Text>
+			{reply.split(/\n{2,}/).map((paragraph, index) => (
+				// biome-ignore lint/suspicious/noArrayIndexKey: paragraphs never reorder
+				<Text key={index}>{paragraph}</Text>
+			))}
+			<MutedText>You wrote:</MutedText>
+			<blockquote
+				style={{
+					borderLeft: "3px solid #e4e4e7",
+					color: "#71717a",
+					margin: "0 0 16px",
+					paddingLeft: "12px",
+					whiteSpace: "pre-wrap",
+				}}
+			>
+				{feedback}
+			</blockquote>
+			<MutedText>
+				You are receiving this email because you sent feedback to {siteConfig.title}. Reply to this
+				email to continue the conversation.
+			</MutedText>
+		</EmailLayout>
+	);
+}
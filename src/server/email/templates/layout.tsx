@@ -0,0 +1,97 @@
+import type { CSSProperties, ReactNode } from "react";
+import { siteConfig } from "@/config/site-config";
+
+/**
+ * Shared building blocks for email templates
+ * Email clients ignore stylesheets, so every style is inline.
+ */
+
+const fontFamily =
+	'-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif';
+
+const styles = {
+	body: { backgroundColor: "#f4f4f5", margin: 0, padding: "24px 0", fontFamily },
+	container: {
+		backgroundColor: "#ffffff",
+		border: "1px solid #e4e4e7",
+		borderRadius: "8px",
+		margin: "0 auto",
+		maxWidth: "560px",
+		padding: "32px",
+	},
+	brand: { color: "#18181b", fontSize: "16px", fontWeight: 600, margin: "0 0 24px" },
+	heading: { color: "#18181b", fontSize: "22px", fontWeight: 600, margin: "0 0 16px" },
+	text: { color: "#3f3f46", fontSize: "15px", lineHeight: "24px", margin: "0 0 16px" },
+	button: {
+		backgroundColor: "#18181b",
+		borderRadius: "6px",
+		color: "#ffffff",
+		display: "inline-block",
+		fontSize: "15px",
+		fontWeight: 600,
+		padding: "12px 20px",
+		textDecoration: "none",
+	},
+	muted: { color: "#71717a", fontSize: "13px", lineHeight: "20px", margin: "0 0 8px" },
+	footer: { color: "#a1a1aa", fontSize: "12px", margin: "24px auto 0", maxWidth: "560px" },
+	preview: { display: "none", maxHeight: 0, overflow: "hidden" },
+} satisfies Record<string, CSSProperties>;
+
+export function EmailLayout({ preview, children }: { preview: string; children: ReactNode }) {
+	return (
+		<html lang="en">
+			{/* React hoists metadata into the document head it renders */}
+			<meta content="text/html; charset=UTF-8" httpEquiv="Content-Type" />
+			<meta name="viewport" content="width=device-width, initial-scale=1" />
+			<body style={styles.body}>
+				{/* Shown by inbox list views next to the subject */}
+				<div style={styles.preview}>{preview}</div>
+				<div style={styles.container}>
+					<p style={styles.brand}>{siteConfig.title}</p>
+					{children}
+				</div>
+				<p style={styles.footer}>
+					{siteConfig.title} ·{" "}
+					<a href={siteConfig.url}>{siteConfig.url.replace(/^https?:\/\//, "")}</a>
+				</p>
+			</body>
+		</html>
+	);
+}
+
+export function Heading({ children }: { children: ReactNode }) {
+	return <h1 style={styles.heading}>{children}</h1>;
+}
+
+export function Text({ children }: { children: ReactNode }) {
+	return <p style={styles.text}>{children}</p>;
+}
+
+export function MutedText({ children }: { children: ReactNode }) {
+	return <p style={styles.muted}>{children}</p>;
+}
+
+export function Button({ href, children }: { href: string; children: ReactNode }) {
+	return (
+		<p style={{ margin: "24px 0" }}>
+			<a href={href} style={styles.button}>
+				{children}
+			</a>
+		</p>
+	);
+}
+
+/**
+ * Repeats a button's URL as text, for clients that block buttons
+ */
+export function LinkFallback({ href }: { href: string }) {
+	return (
+		<MutedText>
+			If the button does not work, copy this link into your browser:
+			<br />
+			<a href={href} style={{ color: "#71717a", wordBreak: "break-all" }}>
+				{href}
+			</a>
+		</MutedText>
+	);
+}
@@ -0,0 +1,55 @@
+import { siteConfig } from "@/config/site-config";
+import { Button, EmailLayout, Heading, MutedText, Text } from "./layout";
+import { formatAmount } from "./receipt";
+
+export type PaymentRefundKind = "refund" | "partial_refund" | "dispute";
+
+export interface PaymentRefundedEmailProps {
+	name?: string | null;
+	orderId: string;
+	productName: string;
+	/** Amount refunded or disputed in the smallest currency unit, e.g. cents */
+	amount: number;
+	currency: string;
+	kind: PaymentRefundKind;
+	billingUrl: string;
+}
+
+const HEADINGS: Record<PaymentRefundKind, string> = {
+	refund: "Your payment was refunded",
+	partial_refund: "Part of your payment was refunded",
+	dispute: "Your payment is being disputed",
+};
+
+export function PaymentRefundedEmail({
+	name,
+	orderId,
+	productName,
+	amount,
+	currency,
+	kind,
+	billingUrl,
+}: PaymentRefundedEmailProps) {
+	const total = formatAmount(amount, currency);
+
+	return (
+		<EmailLayout preview={`${HEADINGS[kind]}: ${productName}`}>
+			<Heading>{HEADINGS[kind]}</Heading>
+			<Text>Hi{name ? ` ${name}` : ""},</Text>
+			{kind === "dispute" ? (
+				<Text>
+					Your bank disputed the {total} payment for {productName}. Access to {productName} on{" "}
+					{siteConfig.title} is paused until the dispute is resolved. If you did not mean to dispute
+					it, reply to this email.
+				</Text>
+			) : (
+				<Text>
+					We refunded {total} for {productName}. It can take 5 to 10 days to show on your statement.
+					{kind === "refund" ? ` Your access to ${productName} has ended.` : ""}
+				</Text>
+			)}
+			<MutedText>Order {orderId}</MutedText>
+			<Button href={billingUrl}>View billing</Button>
+		</EmailLayout>
+	);
+}
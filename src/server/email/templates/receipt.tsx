@@ -0,0 +1,60 @@
+import { format } from "date-fns";
+import { siteConfig } from "@/config/site-config";
+import { Button, EmailLayout, Heading, MutedText, Text } from "./layout";
+
+export interface ReceiptEmailProps {
+	name?: string | null;
+	orderId: string;
+	productName: string;
+	/** Amount paid in the smallest currency unit, e.g. cents */
+	amount: number;
+	currency: string;
+	purchasedAt: Date;
+	billingUrl: string;
+}
+
+const rowStyle = {
+	borderTop: "1px solid #e4e4e7",
+	color: "#3f3f46",
+	fontSize: "15px",
+	padding: "10px 0",
+};
+
+export function formatAmount(amount: number, currency: string): string {
+	return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(amount / 100);
+}
+
+export function ReceiptEmail({
+	name,
+	orderId,
+	productName,
+	amount,
+	currency,
+	purchasedAt,
+	billingUrl,
+}: ReceiptEmailProps) {
+	const total = formatAmount(amount, currency);
+
+	return (
+		<EmailLayout preview={`Receipt for ${productName}: ${total}`}>
+			<Heading>Thanks for your purchase{name ? `, ${name}` : ""}</Heading>
+			<Text>Here is your receipt from {siteConfig.title}.</Text>
+			<table width="100%" cellPadding={0} cellSpacing={0} style={{ margin: "16px 0" }}>
+				<tbody>
+					<tr>
+						<td style={rowStyle}>{productName}</td>
+						<td style={{ ...rowStyle, textAlign: "right" }}>{total}</td>
+					</tr>
+					<tr>
+						<td style={{ ...rowStyle, fontWeight: 600 }}>Total paid</td>
+						<td style={{ ...rowStyle, fontWeight: 600, textAlign: "right" }}>{total}</td>
+					</tr>
+				</tbody>
+			</table>
+			<MutedText>
+				Order {orderId} · {format(purchasedAt, "MMMM d, yyyy")}
+			</MutedText>
+			<Button href={billingUrl}>View billing</Button>
+		</EmailLayout>
+	);
+}
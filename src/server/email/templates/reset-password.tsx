@@ -0,0 +1,22 @@
+import { siteConfig } from "@/config/site-config";
+import { Button, EmailLayout, Heading, LinkFallback, MutedText, Text } from "./layout";
+
+export interface ResetPasswordEmailProps {
+	resetUrl: string;
+	expiresInMinutes: number;
+}
+
+export function ResetPasswordEmail({ resetUrl, expiresInMinutes }: ResetPasswordEmailProps) {
+	return (
+		<EmailLayout preview={`Reset your ${siteConfig.title} password`}>
+			<Heading>Reset your password</Heading>
+			<Text>We received a request to reset the password for your account.</Text>
+			<Button href={resetUrl}>Choose a new password</Button>
+			<LinkFallback href={resetUrl} />
+			<MutedText>
+				This link expires in {expiresInMinutes} minutes. If you did not ask to reset your password,
+				you can ignore this email; your password will not change.
+			</MutedText>
+		</EmailLayout>
+	);
+}
@@ -0,0 +1,35 @@
+import { format } from "date-fns";
+import { siteConfig } from "@/config/site-config";
+import { Button, EmailLayout, Heading, MutedText, Text } from "./layout";
+
+export interface SubscriptionEndingEmailProps {
+	name?: string | null;
+	planName: string;
+	endsAt: Date;
+	billingUrl: string;
+}
+
+/**
+ * Sent when a subscription is cancelled but stays active until the end of the period
+ */
+export function SubscriptionEndingEmail({
+	name,
+	planName,
+	endsAt,
+	billingUrl,
+}: SubscriptionEndingEmailProps) {
+	const endDate = format(endsAt, "MMMM d, yyyy");
+
+	return (
+		<EmailLayout preview={`Your ${planName} subscription ends on ${endDate}`}>
+			<Heading>Your subscription is ending</Heading>
+			<Text>
+				{name ? `Hi ${name}, your` : "Your"} {planName} subscription to {siteConfig.title} has been
+				cancelled. You keep full access until <strong>{endDate}</strong>.
+			</Text>
+			<Text>Changed your mind? You can resume the subscription any time before then.</Text>
+			<Button href={billingUrl}>Manage subscription</Button>
+			<MutedText>If you cancelled because something was missing, reply and tell us what.</MutedText>
+		</EmailLayout>
+	);
+}
@@ -0,0 +1,35 @@
+import { format } from "date-fns";
+import { siteConfig } from "@/config/site-config";
+import { Button, EmailLayout, Heading, LinkFallback, MutedText, Text } from "./layout";
+
+export interface TeamInviteEmailProps {
+	teamName: string;
+	inviterName: string;
+	role: string;
+	inviteUrl: string;
+	expiresAt: Date;
+}
+
+export function TeamInviteEmail({
+	teamName,
+	inviterName,
+	role,
+	inviteUrl,
+	expiresAt,
+}: TeamInviteEmailProps) {
+	return (
+		<EmailLayout preview={`${inviterName} invited you to ${teamName}`}>
+			<Heading>Join {teamName}</Heading>
+			<Text>
+				<strong>{inviterName}</strong> invited you to join the <strong>{teamName}</strong> team on{" "}
+				{siteConfig.title} as {role}.
+			</Text>
+			<Button href={inviteUrl}>Accept or decline</Button>
+			<LinkFallback href={inviteUrl} />
+			<MutedText>
+				This invitation expires on {format(expiresAt, "MMMM d, yyyy")}. If you were not expecting
+				it, you can ignore this email.
+			</MutedText>
+		</EmailLayout>
+	);
+}
@@ -0,0 +1,26 @@
+import { format } from "date-fns";
+import { siteConfig } from "@/config/site-config";
+import { Button, EmailLayout, Heading, LinkFallback, MutedText, Text } from "./layout";
+
+export interface VerifyEmailProps {
+	url: string;
+	expiresAt: Date;
+}
+
+/**
+ * Magic link that verifies the address and signs the user in
+ */
+export function VerifyEmail({ url, expiresAt }: VerifyEmailProps) {
+	return (
+		<EmailLayout preview={`Your sign-in link for ${siteConfig.title}`}>
+			<Heading>Verify your email</Heading>
+			<Text>Click the button below to confirm your email address and sign in.</Text>
+			<Button href={url}>Verify and sign in</Button>
+			<LinkFallback href={url} />
+			<MutedText>
+				This link expires on {format(expiresAt, "MMMM d, yyyy 'at' HH:mm")} UTC and can only be used
+				once. If you did not request it, you can ignore this email.
+			</MutedText>
+		</EmailLayout>
+	);
+}
@@ -0,0 +1,34 @@
+import { format } from "date-fns";
+import { siteConfig } from "@/config/site-config";
+import { Button, EmailLayout, Heading, LinkFallback, MutedText, Text } from "./layout";
+
+export interface WaitlistLaunchEmailProps {
+	name?: string | null;
+	signUpUrl: string;
+	/** When the invite-only sign-up link stops working */
+	expiresAt?: Date | null;
+}
+
+/**
+ * Invites a waitlist entry to create an account
+ */
+export function WaitlistLaunchEmail({ name, signUpUrl, expiresAt }: WaitlistLaunchEmailProps) {
+	return (
+		<EmailLayout preview={`${siteConfig.title} is ready for you`}>
+			<Heading>You're in{name ? `, ${name.split(" ")[0]}` : ""}!</Heading>
+			<Text>
+				Thanks for waiting. Your spot on the waitlist came up and your {siteConfig.title} account is
+				ready to be created.
+			</Text>
+			<Button href={signUpUrl}>Create your account</Button>
+			<LinkFallback href={signUpUrl} />
+			{expiresAt && (
+				<MutedText>
+					This invite is for your email address only and expires on{" "}
+					{format(expiresAt, "MMMM d, yyyy")}.
+				</MutedText>
+			)}
+			<MutedText>You are receiving this email because you joined the waitlist.</MutedText>
+		</EmailLayout>
+	);
+}
@@ -0,0 +1,26 @@
+import { siteConfig } from "@/config/site-config";
+import { EmailLayout, Heading, MutedText, Text } from "./layout";
+
+export interface WaitlistWelcomeEmailProps {
+	name: string;
+}
+
+export function WaitlistWelcomeEmail({ name }: WaitlistWelcomeEmailProps) {
+	const firstName = name.split(" ")[0];
+
+	return (
+		<EmailLayout preview={`You're on the ${siteConfig.title} waitlist`}>
+			<Heading>
+				Welcome to {siteConfig.title}, {firstName}!
+			</Heading>
+			<Text>
+				Thanks for joining our waitlist. You are now part of a group of developers who will get
+				early access to {siteConfig.title}.
+			</Text>
+			<Text>
+				We will keep you updated on our progress and email you as soon as early access is available.
+			</Text>
+			<MutedText>You are receiving this email because you joined the waitlist.</MutedText>
+		</EmailLayout>
+	);
+}
@@ -0,0 +1,21 @@
+import { siteConfig } from "@/config/site-config";
+import { Button, EmailLayout, Heading, Text } from "./layout";
+
+export interface WelcomeEmailProps {
+	name?: string | null;
+	dashboardUrl: string;
+}
+
+export function WelcomeEmail({ name, dashboardUrl }: WelcomeEmailProps) {
+	return (
+		<EmailLayout preview={`Your ${siteConfig.title} account is ready`}>
+			<Heading>Welcome{name ? `, ${name}` : ""}!</Heading>
+			<Text>
+				Your {siteConfig.title} account has been created. Sign in to set up your first project and
+				invite your team.
+			</Text>
+			<Button href={dashboardUrl}>Go to your dashboard</Button>
+			<Text>Reply to this email if you have any questions. We read every message.</Text>
+		</EmailLayout>
+	);
+}
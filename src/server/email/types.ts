@@ -0,0 +1,43 @@
+export type EmailTransportId = "resend" | "outbox";
+
+/**
+ * A rendered email, ready to hand to a transport
+ */
+export interface EmailMessage {
+	from: string;
+	to: string;
+	subject: string;
+	html: string;
+	text: string;
+	replyTo?: string;
+	/** Template name, kept with the message for debugging */
+	template: string;
+}
+
+export interface SentEmail {
+	/** Resend email ID, or the outbox file name */
+	messageId: string | null;
+}
+
+/**
+ * Email transport interface
+ * Transports only deliver; rendering and logging happen in the EmailService.
+ */
+export interface EmailTransport {
+	readonly id: EmailTransportId;
+	send(message: EmailMessage): Promise<SentEmail>;
+}
+
+/**
+ * Error thrown when a transport fails to deliver a message
+ */
+export class EmailTransportError extends Error {
+	constructor(
+		message: string,
+		public readonly transport: EmailTransportId,
+		public readonly originalError?: unknown
+	) {
+		super(message);
+		this.name = "EmailTransportError";
+	}
+}
@@ -0,0 +1,255 @@
+import { NextResponse } from "next/server";
+import type { z } from "zod/v4";
+import { rateLimits } from "@/config/rate-limits";
+import type { RbacAction, RbacResource } from "@/config/rbac";
+import { env } from "@/env";
+import { logger } from "@/lib/logger";
+import { logRequest } from "@/lib/request-logger";
+import { auth } from "@/server/auth";
+import type { ApiKey, User } from "@/server/db/schema";
+import { type ApiKeyScope, apiKeyService } from "@/server/services/api-key-service";
+import { type ErrorCode, ErrorService } from "@/server/services/error-service";
+import {
+	getRateLimitHeaders,
+	type RateLimitStatus,
+	rateLimitService,
+} from "@/server/services/rate-limit-service";
+import { rbacService } from "@/server/services/rbac";
+
+const STATUS_BY_ERROR_CODE: Record<ErrorCode, number> = {
+	VALIDATION_ERROR: 400,
+	BAD_REQUEST: 400,
+	UNAUTHORIZED: 401,
+	FORBIDDEN: 403,
+	NOT_FOUND: 404,
+	CONFLICT: 409,
+	RATE_LIMITED: 429,
+	INTERNAL_SERVER_ERROR: 500,
+};
+
+export interface ApiContext<TParams> {
+	request: Request;
+	params: TParams;
+	apiKey: Omit<ApiKey, "keyHash">;
+	user: User;
+}
+
+export interface SessionContext<TParams> {
+	request: Request;
+	params: TParams;
+	userId: string;
+}
+
+interface ApiHandlerOptions {
+	/** Scope the API key must have */
+	scope?: ApiKeyScope;
+	/** Global RBAC permission the key's user must have */
+	permission?: { resource: RbacResource; action: RbacAction };
+}
+
+/** Proxies in front of the app, whose addresses are skipped in `x-forwarded-for` */
+const TRUSTED_PROXIES = (env.TRUSTED_PROXIES ?? "")
+	.split(",")
+	.map((ip) => ip.trim())
+	.filter(Boolean);
+
+/**
+ * Gets the client IP from `x-forwarded-for`
+ * Clients can send any `x-forwarded-for`, `x-real-ip` or `cf-connecting-ip`, so only the
+ * addresses proxies append are used: the right-most address that is not a trusted proxy is the
+ * client that connected to them. Vercel replaces `x-forwarded-for` with the client IP, so no
+ * proxies need to be listed there.
+ * @param trustedProxies - Proxy IPs to skip, `TRUSTED_PROXIES` by default
+ */
+export function getClientIp(
+	request: Request,
+	trustedProxies: readonly string[] = TRUSTED_PROXIES
+): string | null {
+	const hops = (request.headers.get("x-forwarded-for") ?? "")
+		.split(",")
+		.map((hop) => hop.trim())
+		.filter(Boolean);
+	return hops.reverse().find((hop) => !trustedProxies.includes(hop)) ?? null;
+}
+
+/**
+ * Builds a JSON error response in the `{ error: { code, message } }` format
+ */
+export function apiError(code: ErrorCode, message: string, init?: ResponseInit) {
+	return NextResponse.json(
+		{ error: { code, message } },
+		{ ...init, status: init?.status ?? STATUS_BY_ERROR_CODE[code] }
+	);
+}
+
+/**
+ * Parses and validates a JSON request body
+ * @throws AppError with a VALIDATION_ERROR code if the body is invalid
+ */
+export async function parseJsonBody<T extends z.ZodType>(
+	request: Request,
+	schema: T
+): Promise<z.infer<T>> {
+	let body: unknown;
+	try {
+		body = await request.json();
+	} catch {
+		ErrorService.throwBadRequest("Request body must be valid JSON");
+	}
+
+	const result = schema.safeParse(body);
+	if (!result.success) {
+		throw ErrorService.createError(
+			"VALIDATION_ERROR",
+			result.error.issues
+				.map((issue) =>
+					issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+				)
+				.join("; ")
+		);
+	}
+
+	return result.data;
+}
+
+/**
+ * Wraps a `/api/v1` route handler with API key authentication
+ *
+ * - Reads the key from the `Authorization: Bearer` header
+ * - Validates it (expiry, IP allow-list, scope) through `ApiKeyService.validateApiKey`
+ * - Rate limits per key with `RateLimitService` and sends the `RateLimit-*` headers
+ * - Checks the user's global RBAC permission, if any; team and project checks are up to the handler
+ * - Maps AppErrors to JSON error responses
+ * - Logs every request through `logRequest`
+ */
+export function withApiKey<TParams = Record<string, never>>(
+	handler: (context: ApiContext<TParams>) => Promise<Response>,
+	options: ApiHandlerOptions = {}
+) {
+	return async (request: Request, segment: { params: Promise<TParams> }): Promise<Response> => {
+		const startTime = Date.now();
+		const ip = getClientIp(request);
+		let keyPrefix = "anonymous";
+		let rateLimitStatus: RateLimitStatus | null = null;
+		let response: Response;
+
+		try {
+			const authorization = request.headers.get("authorization");
+			const key = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+			if (!key) {
+				ErrorService.throwUnauthorized("Missing API key. Use the Authorization: Bearer header.");
+			}
+
+			const { apiKey, user } = await apiKeyService.validateApiKey(key, {
+				ip,
+				scope: options.scope,
+			});
+			keyPrefix = apiKey.keyPrefix;
+
+			if (!user) {
+				ErrorService.throwUnauthorized("API key is not associated with a user");
+			}
+
+			rateLimitStatus = await rateLimitService.checkLimit(
+				apiKey.id,
+				"api:v1",
+				rateLimits.api.default
+			);
+
+			if (
+				options.permission &&
+				!(await rbacService.hasPermission(
+					user.id,
+					options.permission.resource,
+					options.permission.action
+				))
+			) {
+				ErrorService.throwForbidden("You do not have permission to perform this action");
+			}
+
+			const { keyHash: _keyHash, ...safeApiKey } = apiKey;
+			response = await handler({
+				request,
+				params: await segment.params,
+				apiKey: safeApiKey,
+				user,
+			});
+		} catch (error) {
+			if (ErrorService.isAppError(error)) {
+				let headers: Record<string, string> = {};
+				if (error.code === "RATE_LIMITED" && error.metadata?.reset) {
+					headers = getRateLimitHeaders(
+						{
+							limit: Number(error.metadata.limit ?? rateLimits.api.default.requests),
+							remaining: 0,
+							reset: Number(error.metadata.reset),
+						},
+						rateLimits.api.default
+					);
+					headers["Retry-After"] = headers["RateLimit-Reset"] ?? "0";
+				}
+				response = apiError(error.code, error.message, { headers });
+			} else {
+				logger.error("Unhandled API error", {
+					path: new URL(request.url).pathname,
+					error: error instanceof Error ? error.message : String(error),
+				});
+				response = apiError("INTERNAL_SERVER_ERROR", "Internal server error");
+			}
+		}
+
+		if (rateLimitStatus && response.status !== 429) {
+			for (const [name, value] of Object.entries(
+				getRateLimitHeaders(rateLimitStatus, rateLimits.api.default)
+			)) {
+				response.headers.set(name, value);
+			}
+		}
+
+		// Request logging must never fail the request
+		void logRequest({
+			timestamp: new Date().toISOString(),
+			ip: ip ?? "unknown",
+			method: request.method,
+			path: new URL(request.url).pathname,
+			statusCode: response.status,
+			duration: Date.now() - startTime,
+			apiKey: keyPrefix,
+		}).catch((error) => {
+			logger.warn("Failed to log API request", { error });
+		});
+
+		return response;
+	};
+}
+
+/**
+ * Wraps an `/api` route handler called by the app itself with session authentication
+ *
+ * - Requires a signed-in user
+ * - Maps AppErrors to JSON error responses
+ */
+export function withSession<TParams = Record<string, never>>(
+	handler: (context: SessionContext<TParams>) => Promise<Response>
+) {
+	return async (request: Request, segment: { params: Promise<TParams> }): Promise<Response> => {
+		try {
+			const session = await auth();
+			if (!session?.user?.id) {
+				ErrorService.throwUnauthorized("You must be signed in");
+			}
+
+			return await handler({ request, params: await segment.params, userId: session.user.id });
+		} catch (error) {
+			if (ErrorService.isAppError(error)) {
+				return apiError(error.code, error.message);
+			}
+
+			logger.error("Unhandled API error", {
+				path: new URL(request.url).pathname,
+				error: error instanceof Error ? error.message : String(error),
+			});
+			return apiError("INTERNAL_SERVER_ERROR", "Internal server error");
+		}
+	};
+}
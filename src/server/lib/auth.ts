@@ -1,5 +1,11 @@
+import type { RbacAction, RbacResource } from "@/config/rbac";
+import { logger } from "@/lib/logger";
 import { auth } from "@/server/auth";
+import { db } from "@/server/db";
 import { isAdmin } from "@/server/services/admin-service";
+import type { AuditActor } from "@/server/services/audit-service";
+import { ErrorService } from "@/server/services/error-service";
+import { rbacService } from "@/server/services/rbac";
 
 export async function getSession(protect = true) {
 	const session = await auth({ protect });
@@ -11,8 +17,100 @@ export async function getSession(protect = true) {
 
 export async function requireAdmin() {
 	const session = await getSession();
-	if (!session?.user?.email || !isAdmin({ email: session.user.email })) {
+	if (!session?.user?.email || !(await isAdmin({ email: session.user.email }))) {
 		throw new Error("Unauthorized: Admin access required");
 	}
 	return session;
 }
+
+/**
+ * Ensures an admin is not impersonating a user
+ * Guards actions only the user should take themselves, such as deleting their account or
+ * changing what they pay for. Blocked attempts are logged with the admin who made them.
+ * @param action - What is blocked, e.g. "delete this account"
+ * @throws AppError with a FORBIDDEN code while impersonating
+ */
+export async function assertNotImpersonating(action: string): Promise<void> {
+	const session = await auth();
+	if (session?.impersonation) {
+		logger.warn("Blocked action while impersonating a user", {
+			action,
+			adminId: session.impersonation.admin.id,
+			userId: session.user?.id,
+		});
+		ErrorService.throwForbidden(`You cannot ${action} while impersonating a user`);
+	}
+}
+
+/**
+ * Gets the signed-in user as the actor of an audit log entry
+ * While impersonating, this is the admin rather than the user they see the app as.
+ * @returns The actor, or null if no one is signed in
+ */
+export async function getAuditActor(): Promise<AuditActor | null> {
+	const session = await auth();
+	if (session?.impersonation) {
+		return { id: session.impersonation.admin.id, email: session.impersonation.admin.email };
+	}
+	return session?.user?.id ? { id: session.user.id, email: session.user.email } : null;
+}
+
+export interface PermissionContext {
+	teamId?: string;
+	projectId?: string;
+}
+
+/**
+ * Ensures the current user has a permission, optionally within a team or project
+ * @returns The current user's ID
+ * @throws AppError with an UNAUTHORIZED or FORBIDDEN code
+ */
+export async function requirePermission(
+	resource: RbacResource,
+	action: RbacAction,
+	context?: PermissionContext
+): Promise<string> {
+	const session = await auth();
+	if (!session?.user?.id) {
+		ErrorService.throwUnauthorized("You must be logged in");
+	}
+
+	// Without a database there are no memberships to check, and data is only stored locally
+	if (!db) {
+		return session.user.id;
+	}
+
+	const allowed = await rbacService.hasPermission(session.user.id, resource, action, context);
+	if (!allowed) {
+		ErrorService.throwForbidden(
+			`You do not have permission to ${action} this ${resource.replace("_", " ")}`
+		);
+	}
+
+	return session.user.id;
+}
+
+/**
+ * Wraps a server action with a permission check
+ *
+ * Usage:
+ * ```ts
+ * export const deleteProject = withPermission(
+ *   { resource: "project", action: "delete", context: ([projectId]) => ({ projectId }) },
+ *   async (projectId: string) => projectService.deleteProject(projectId)
+ * );
+ * ```
+ */
+export function withPermission<TArgs extends unknown[], TResult>(
+	permission: {
+		resource: RbacResource;
+		action: RbacAction;
+		context?: (args: NoInfer<TArgs>) => PermissionContext;
+	},
+	action: (...args: TArgs) => Promise<TResult>
+): (...args: TArgs) => Promise<TResult> {
+	return async (...args: TArgs) => {
+		await requirePermission(permission.resource, permission.action, permission.context?.(args));
+		return action(...args);
+	};
+}
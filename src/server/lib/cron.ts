@@ -0,0 +1,23 @@
+import crypto from "crypto";
+import { NextResponse } from "next/server";
+import { env } from "@/env";
+
+/**
+ * Checks that a request to an `/api/cron/*` route comes from the scheduler
+ * Vercel Cron sends `CRON_SECRET` as a bearer token; any other scheduler has to send the same
+ * `Authorization: Bearer <CRON_SECRET>` header. Every request is rejected while it is not set.
+ * @returns A 401 response to return, or null when the request is authorized
+ */
+export function verifyCronRequest(request: Request): NextResponse | null {
+	const expected = Buffer.from(`Bearer ${env.CRON_SECRET ?? ""}`);
+	const received = Buffer.from(request.headers.get("authorization") ?? "");
+
+	if (
+		!env.CRON_SECRET ||
+		received.length !== expected.length ||
+		!crypto.timingSafeEqual(received, expected)
+	) {
+		return new NextResponse("Unauthorized", { status: 401 });
+	}
+	return null;
+}
@@ -0,0 +1,110 @@
+import { and, eq } from "drizzle-orm";
+import { cache } from "react";
+import { auth } from "@/server/auth";
+import { db } from "@/server/db";
+import { teamMembers, users } from "@/server/db/schema";
+import {
+	evaluateFeatureFlag,
+	type FeatureFlagContext,
+	type FeatureFlagValue,
+	featureFlagService,
+	flagTargets,
+} from "@/server/services/feature-flag-service";
+import { SubscriptionService } from "@/server/services/subscription-service";
+
+export interface FlagOptions {
+	/** Evaluates for this user instead of the signed-in one, e.g. in background jobs */
+	userId?: string | null;
+	/** Targets team rules and adds the user's team role */
+	teamId?: string | null;
+}
+
+/**
+ * Looks up the user's global role and, within a team, their team role
+ * Cached per request, like everything `getFlag` looks up.
+ */
+const getUserRoles = cache(async (userId: string, teamId: string | null): Promise<string[]> => {
+	if (!db) {
+		return [];
+	}
+	const [user, membership] = await Promise.all([
+		db.query.users.findFirst({ where: eq(users.id, userId), columns: { role: true } }),
+		teamId
+			? db.query.teamMembers.findFirst({
+					where: and(eq(teamMembers.userId, userId), eq(teamMembers.teamId, teamId)),
+					columns: { role: true },
+				})
+			: undefined,
+	]);
+	return [user?.role, membership?.role].filter((role): role is string => !!role);
+});
+
+/**
+ * Identifiers a plan rule can match: the product name, product ID and variant ID of the
+ * user's active subscription, or "free" without one
+ */
+const getUserPlans = cache(async (userId: string): Promise<string[]> => {
+	const subscription = await SubscriptionService.getActiveSubscription(userId);
+	if (!subscription) {
+		return ["free"];
+	}
+	return [subscription.productName, subscription.productId, subscription.variantId].filter(
+		(plan): plan is string => !!plan
+	);
+});
+
+async function getFlagContext(
+	options: FlagOptions,
+	needs: { roles: boolean; plans: boolean }
+): Promise<FeatureFlagContext> {
+	const userId = options.userId === undefined ? ((await auth())?.user?.id ?? null) : options.userId;
+	const teamId = options.teamId ?? null;
+
+	return {
+		userId,
+		teamId,
+		roles: userId && needs.roles ? await getUserRoles(userId, teamId) : [],
+		plans: userId && needs.plans ? await getUserPlans(userId) : [],
+	};
+}
+
+/**
+ * Evaluates a runtime feature flag for the signed-in user, in server components and actions
+ * @param defaultValue - Returned when the flag does not exist or cannot be evaluated
+ *
+ * @example
+ * const showNewBilling = await getFlag("new-billing", false);
+ * const checkoutVariant = await getFlag("checkout-layout", "control", { teamId });
+ */
+export async function getFlag<T extends FeatureFlagValue>(
+	key: string,
+	defaultValue: T,
+	options: FlagOptions = {}
+): Promise<T> {
+	const flag = await featureFlagService.getFlag(key);
+	if (!flag) {
+		return defaultValue;
+	}
+
+	const context = await getFlagContext(options, {
+		roles: flagTargets(flag, "roles"),
+		plans: flagTargets(flag, "plans"),
+	});
+	const { value } = evaluateFeatureFlag(flag, context);
+	return typeof value === typeof defaultValue ? (value as T) : defaultValue;
+}
+
+/**
+ * Evaluates every flag for the signed-in user
+ * @param options.clientVisibleOnly - Only include flags that may be sent to the browser
+ */
+export async function getFlags(
+	options: FlagOptions & { clientVisibleOnly?: boolean } = {}
+): Promise<Record<string, FeatureFlagValue>> {
+	const flags = [...(await featureFlagService.getFlags()).values()];
+	const context = await getFlagContext(options, {
+		roles: flags.some((flag) => flagTargets(flag, "roles")),
+		plans: flags.some((flag) => flagTargets(flag, "plans")),
+	});
+	return featureFlagService.evaluateAll(context, options);
+}
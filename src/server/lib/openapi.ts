@@ -0,0 +1,366 @@
+/**
+ * @fileoverview Schemas and OpenAPI document for the public REST API (/api/v1)
+ * @module server/lib/openapi
+ *
+ * Request and response schemas are defined once with Zod and used for three things:
+ * - Validating request bodies in the route handlers
+ * - Serializing responses (parsing strips fields that are not part of the schema)
+ * - Generating the OpenAPI document served at /api/v1/openapi
+ *
+ * When adding an endpoint, add its operation to `apiV1Operations` so it is documented.
+ */
+
+import { z } from "zod/v4";
+import { siteConfig } from "@/config/site-config";
+import { API_KEY_SCOPES, type ApiKeyScope } from "@/server/services/api-key-service";
+
+const schemaRegistry = z.registry<{ id: string; description?: string }>();
+
+/** Dates are serialized as ISO 8601 strings */
+const timestamp = z
+	.preprocess((value) => (value instanceof Date ? value.toISOString() : value), z.string())
+	.meta({ format: "date-time" });
+
+export const apiUserSchema = z.object({
+	id: z.string(),
+	name: z.string().nullable(),
+	email: z.string(),
+	image: z.string().nullable(),
+	createdAt: timestamp,
+});
+schemaRegistry.add(apiUserSchema, { id: "User" });
+
+export const apiKeyInfoSchema = z.object({
+	id: z.string(),
+	name: z.string(),
+	keyPrefix: z.string(),
+	scopes: z.array(z.enum(API_KEY_SCOPES)),
+	expiresAt: timestamp.nullable(),
+});
+schemaRegistry.add(apiKeyInfoSchema, { id: "ApiKeyInfo" });
+
+export const apiMeSchema = z.object({
+	user: apiUserSchema,
+	apiKey: apiKeyInfoSchema,
+});
+schemaRegistry.add(apiMeSchema, { id: "Me" });
+
+export const apiTeamSchema = z.object({
+	id: z.string(),
+	name: z.string(),
+	type: z.enum(["personal", "workspace"]),
+	role: z.string(),
+	createdAt: timestamp,
+});
+schemaRegistry.add(apiTeamSchema, { id: "Team" });
+
+export const apiProjectSchema = z.object({
+	id: z.string(),
+	name: z.string(),
+	teamId: z.string().nullable(),
+	createdAt: timestamp,
+	updatedAt: timestamp.nullable(),
+});
+schemaRegistry.add(apiProjectSchema, { id: "Project" });
+
+export const apiDeploymentSchema = z.object({
+	id: z.string(),
+	projectName: z.string(),
+	description: z.string().nullable(),
+	status: z.enum(["deploying", "completed", "failed", "timeout"]),
+	githubRepoUrl: z.string().nullable(),
+	vercelProjectUrl: z.string().nullable(),
+	vercelDeploymentUrl: z.string().nullable(),
+	error: z.string().nullable(),
+	createdAt: timestamp,
+	updatedAt: timestamp,
+});
+schemaRegistry.add(apiDeploymentSchema, { id: "Deployment" });
+
+export const apiCreditTransactionSchema = z.object({
+	id: z.string(),
+	amount: z.number().int(),
+	type: z.string(),
+	description: z.string().nullable(),
+	createdAt: timestamp,
+});
+schemaRegistry.add(apiCreditTransactionSchema, { id: "CreditTransaction" });
+
+export const apiCreditsSchema = z.object({
+	balance: z.number().int(),
+	held: z.number().int().describe("Credits reserved by pending holds"),
+	available: z.number().int().describe("Credits that can be spent now"),
+	transactions: z.array(apiCreditTransactionSchema),
+});
+schemaRegistry.add(apiCreditsSchema, { id: "Credits" });
+
+export const apiErrorSchema = z.object({
+	error: z.object({
+		code: z.string(),
+		message: z.string(),
+	}),
+});
+schemaRegistry.add(apiErrorSchema, { id: "Error" });
+
+export const createProjectBodySchema = z.object({
+	teamId: z.string().min(1).describe("Team to create the project in"),
+	name: z.string().trim().min(1).max(255).describe("Project name"),
+});
+schemaRegistry.add(createProjectBodySchema, { id: "CreateProjectBody" });
+
+export const spendCreditsBodySchema = z.object({
+	amount: z.number().int().positive().describe("Number of credits to spend"),
+	description: z.string().max(500).optional(),
+	metadata: z.record(z.string(), z.unknown()).optional(),
+});
+schemaRegistry.add(spendCreditsBodySchema, { id: "SpendCreditsBody" });
+
+interface ApiOperation {
+	method: "get" | "post" | "patch" | "delete";
+	path: string;
+	summary: string;
+	tag: string;
+	scope?: ApiKeyScope;
+	parameters?: {
+		name: string;
+		in: "path" | "query" | "header";
+		required?: boolean;
+		description: string;
+	}[];
+	requestBody?: z.ZodType;
+	response: { status: number; description: string; schema: z.ZodType };
+}
+
+/**
+ * Every /api/v1 operation, used to generate the OpenAPI document
+ */
+export const apiV1Operations: ApiOperation[] = [
+	{
+		method: "get",
+		path: "/me",
+		summary: "Get the user and API key making the request",
+		tag: "Account",
+		response: { status: 200, description: "The current user", schema: apiMeSchema },
+	},
+	{
+		method: "get",
+		path: "/teams",
+		summary: "List the teams the user belongs to",
+		tag: "Teams",
+		scope: "projects:read",
+		response: {
+			status: 200,
+			description: "The user's teams",
+			schema: z.object({ data: z.array(apiTeamSchema) }),
+		},
+	},
+	{
+		method: "get",
+		path: "/projects",
+		summary: "List projects across the user's teams",
+		tag: "Projects",
+		scope: "projects:read",
+		parameters: [{ name: "teamId", in: "query", description: "Only list projects of this team" }],
+		response: {
+			status: 200,
+			description: "The user's projects",
+			schema: z.object({ data: z.array(apiProjectSchema) }),
+		},
+	},
+	{
+		method: "post",
+		path: "/projects",
+		summary: "Create a project",
+		tag: "Projects",
+		scope: "projects:write",
+		requestBody: createProjectBodySchema,
+		response: {
+			status: 201,
+			description: "The created project",
+			schema: z.object({ data: apiProjectSchema }),
+		},
+	},
+	{
+		method: "get",
+		path: "/projects/{projectId}",
+		summary: "Get a project",
+		tag: "Projects",
+		scope: "projects:read",
+		parameters: [{ name: "projectId", in: "path", required: true, description: "Project ID" }],
+		response: {
+			status: 200,
+			description: "The project",
+			schema: z.object({ data: apiProjectSchema }),
+		},
+	},
+	{
+		method: "get",
+		path: "/deployments",
+		summary: "List deployments, newest first",
+		tag: "Deployments",
+		scope: "deployments:read",
+		response: {
+			status: 200,
+			description: "The user's deployments",
+			schema: z.object({ data: z.array(apiDeploymentSchema) }),
+		},
+	},
+	{
+		method: "get",
+		path: "/deployments/{deploymentId}",
+		summary: "Get a deployment",
+		tag: "Deployments",
+		scope: "deployments:read",
+		parameters: [
+			{ name: "deploymentId", in: "path", required: true, description: "Deployment ID" },
+		],
+		response: {
+			status: 200,
+			description: "The deployment",
+			schema: z.object({ data: apiDeploymentSchema }),
+		},
+	},
+	{
+		method: "get",
+		path: "/credits",
+		summary: "Get the credit balance and recent transactions",
+		tag: "Credits",
+		scope: "credits:read",
+		response: {
+			status: 200,
+			description: "The credit balance",
+			schema: z.object({ data: apiCreditsSchema }),
+		},
+	},
+	{
+		method: "post",
+		path: "/credits/spend",
+		summary: "Spend credits",
+		tag: "Credits",
+		scope: "credits:write",
+		parameters: [
+			{
+				name: "Idempotency-Key",
+				in: "header",
+				description:
+					"Retries with the same key spend the credits once; reusing a key for a different amount fails with 409",
+			},
+		],
+		requestBody: spendCreditsBodySchema,
+		response: {
+			status: 200,
+			description: "The new credit balance",
+			schema: z.object({ data: z.object({ balance: z.number().int() }) }),
+		},
+	},
+];
+
+const ERROR_RESPONSES = {
+	"401": { description: "Missing, invalid or expired API key" },
+	"403": { description: "The API key lacks the required scope or IP is not allowed" },
+	"429": { description: "Rate limit exceeded" },
+};
+
+/**
+ * Converts an operation schema to JSON Schema
+ * Registered schemas are referenced from `components.schemas` instead of being inlined.
+ */
+function toJsonSchema(schema: z.ZodType) {
+	const registered = schemaRegistry.get(schema);
+	if (registered) {
+		return { $ref: `#/components/schemas/${registered.id}` };
+	}
+
+	const {
+		$schema: _schema,
+		$defs: _defs,
+		...jsonSchema
+	} = z.toJSONSchema(schema, {
+		io: "output",
+		metadata: schemaRegistry,
+		unrepresentable: "any",
+	});
+
+	return JSON.parse(
+		JSON.stringify(jsonSchema).replaceAll('"#/$defs/', '"#/components/schemas/')
+	) as Record<string, unknown>;
+}
+
+/**
+ * Generates the OpenAPI 3.1 document for /api/v1
+ * @param baseUrl - The origin the API is served from
+ */
+export function generateOpenApiDocument(baseUrl: string = siteConfig.url) {
+	const { schemas } = z.toJSONSchema(schemaRegistry, {
+		io: "output",
+		uri: (id) => `#/components/schemas/${id}`,
+		unrepresentable: "any",
+	});
+
+	const paths: Record<string, Record<string, unknown>> = {};
+	for (const operation of apiV1Operations) {
+		const errorResponses = Object.fromEntries(
+			Object.entries(ERROR_RESPONSES).map(([status, { description }]) => [
+				status,
+				{
+					description,
+					content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+				},
+			])
+		);
+
+		paths[operation.path] = {
+			...paths[operation.path],
+			[operation.method]: {
+				summary: operation.summary,
+				tags: [operation.tag],
+				...(operation.scope && {
+					description: `Requires the \`${operation.scope}\` scope.`,
+					security: [{ apiKey: [operation.scope] }],
+				}),
+				parameters: (operation.parameters ?? []).map(({ description, ...parameter }) => ({
+					...parameter,
+					required: parameter.required ?? false,
+					description,
+					schema: { type: "string" },
+				})),
+				...(operation.requestBody && {
+					requestBody: {
+						required: true,
+						content: { "application/json": { schema: toJsonSchema(operation.requestBody) } },
+					},
+				}),
+				responses: {
+					[operation.response.status]: {
+						description: operation.response.description,
+						content: {
+							"application/json": { schema: toJsonSchema(operation.response.schema) },
+						},
+					},
+					...errorResponses,
+				},
+			},
+		};
+	}
+
+	return {
+		openapi: "3.1.0",
+		info: {
+			title: `${siteConfig.name} API`,
+			version: "1.0.0",
+			description:
+				"Create an API key on the API Keys page and send it as `Authorization: Bearer <key>`. Keys are limited to the scopes chosen when they were created.",
+		},
+		servers: [{ url: `${baseUrl.replace(/\/$/, "")}/api/v1` }],
+		security: [{ apiKey: [] }],
+		components: {
+			securitySchemes: {
+				apiKey: { type: "http", scheme: "bearer", description: "An API key" },
+			},
+			schemas: Object.fromEntries(
+				Object.entries(schemas).map(([id, { $schema: _schema, ...schema }]) => [id, schema])
+			),
+		},
+		paths,
+	};
+}
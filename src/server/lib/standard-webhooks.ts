@@ -0,0 +1,57 @@
+import crypto from "crypto";
+
+/** Deliveries older or newer than this are rejected, so a captured request cannot be replayed */
+const TIMESTAMP_TOLERANCE_SECONDS = 5 * 60;
+
+export type StandardWebhookVerification =
+	| { valid: true; id: string }
+	| { valid: false; reason: string };
+
+/**
+ * Verifies a Standard Webhooks signature (used by Polar)
+ * The signature is an HMAC-SHA256 of `<webhook-id>.<webhook-timestamp>.<body>`; the
+ * `webhook-signature` header holds one or more space-separated `v1,<base64>` signatures.
+ * @param body - The raw request body, exactly as received
+ * @param headers - The request headers
+ * @param key - The signing key bytes
+ * @see https://github.com/standard-webhooks/standard-webhooks/blob/main/spec/standard-webhooks.md
+ */
+export function verifyStandardWebhook({
+	body,
+	headers,
+	key,
+	now = new Date(),
+}: {
+	body: string;
+	headers: Headers;
+	key: Buffer;
+	now?: Date;
+}): StandardWebhookVerification {
+	const id = headers.get("webhook-id");
+	const timestamp = headers.get("webhook-timestamp");
+	const signatures = headers.get("webhook-signature");
+	if (!id || !timestamp || !signatures) {
+		return { valid: false, reason: "Missing webhook headers" };
+	}
+
+	const sentAt = Number(timestamp);
+	if (!Number.isInteger(sentAt)) {
+		return { valid: false, reason: "Invalid webhook timestamp" };
+	}
+	if (Math.abs(now.getTime() / 1000 - sentAt) > TIMESTAMP_TOLERANCE_SECONDS) {
+		return { valid: false, reason: "Webhook timestamp outside the tolerance" };
+	}
+
+	const expected = crypto.createHmac("sha256", key).update(`${id}.${timestamp}.${body}`).digest();
+
+	const matches = signatures.split(" ").some((entry) => {
+		const [version, signature] = entry.split(",");
+		if (version !== "v1" || !signature) {
+			return false;
+		}
+		const received = Buffer.from(signature, "base64");
+		return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+	});
+
+	return matches ? { valid: true, id } : { valid: false, reason: "Invalid webhook signature" };
+}
@@ -2,14 +2,18 @@ import { eq } from "drizzle-orm";
 import { logger } from "@/lib/logger";
 import { db, schema } from "@/server/db";
 import { users } from "@/server/db/schema";
+import { userService } from "../services/user-service";
 import {
 	type CheckoutOptions,
+	type CustomerPortalOptions,
 	type ImportStats,
 	type OrderData,
 	type PaymentProvider,
 	PaymentProviderError,
 	type ProductData,
 	type ProviderConfig,
+	type RefundOptions,
+	type RefundResult,
 } from "./types";
 
 /**
@@ -97,6 +101,8 @@ export abstract class BasePaymentProvider implements PaymentProvider {
 	abstract handleWebhookEvent(event: any): Promise<void>;
 	abstract createCheckoutUrl(options: CheckoutOptions): Promise<string | null>;
 	abstract listProducts(): Promise<ProductData[]>;
+	abstract createCustomerPortalUrl(options: CustomerPortalOptions): Promise<string | null>;
+	abstract refundPayment(options: RefundOptions): Promise<RefundResult>;
 
 	/**
 	 * Get user email by ID
@@ -131,6 +137,52 @@ export abstract class BasePaymentProvider implements PaymentProvider {
 		}
 	}
 
+	/**
+	 * Resolve the user a webhook event belongs to
+	 * Prefers the user ID passed through checkout custom data, then finds or creates a user by email.
+	 * @param email The customer email from the webhook payload
+	 * @param options The customer name and checkout user ID, if present
+	 * @returns The user ID
+	 */
+	protected async resolveWebhookUser(
+		email: string | null | undefined,
+		options: { name?: string | null; userId?: string | null } = {}
+	): Promise<string> {
+		if (options.userId && db) {
+			const user = await db
+				.select({ id: users.id })
+				.from(users)
+				.where(eq(users.id, options.userId))
+				.limit(1)
+				.then((rows) => rows[0] || null);
+
+			if (user) {
+				return user.id;
+			}
+		}
+
+		if (!email) {
+			throw new PaymentProviderError(
+				`${this.name} webhook is missing a customer email`,
+				this.id,
+				"missing_customer_email"
+			);
+		}
+
+		const { user, created } = await userService.findOrCreateUserByEmail(
+			email.toLowerCase().trim(),
+			{
+				name: options.name ?? null,
+			}
+		);
+
+		if (created) {
+			logger.info(`Created new user from ${this.name} webhook`, { userId: user.id, email });
+		}
+
+		return user.id;
+	}
+
 	/**
 	 * Generate a standardized order ID
 	 * @param providerId The ID of the provider
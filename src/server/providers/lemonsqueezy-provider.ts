@@ -1,13 +1,128 @@
-import { lemonSqueezySetup, listOrders, listProducts } from "@lemonsqueezy/lemonsqueezy.js";
+import {
+	getCustomer,
+	getSubscription,
+	issueOrderRefund,
+	issueSubscriptionInvoiceRefund,
+	lemonSqueezySetup,
+	listOrders,
+	listProducts,
+} from "@lemonsqueezy/lemonsqueezy.js";
 import crypto from "crypto";
 import { eq } from "drizzle-orm";
 import { env } from "@/env";
 import { logger } from "@/lib/logger";
 import { db } from "@/server/db";
 import { payments, users } from "@/server/db/schema";
+import { PaymentService } from "../services/payment-service";
+import { RefundService } from "../services/refund-service";
+import {
+	getPaymentStatusForSubscription,
+	SubscriptionService,
+	toSubscriptionDate,
+} from "../services/subscription-service";
 import { userService } from "../services/user-service";
 import { BasePaymentProvider } from "./base-provider";
-import type { CheckoutOptions, ImportStats, OrderData, ProductData } from "./types";
+import type {
+	CheckoutOptions,
+	CustomerPortalOptions,
+	ImportStats,
+	OrderData,
+	ProductData,
+	ProductVariantData,
+	RefundOptions,
+	RefundResult,
+} from "./types";
+
+// Types for the Lemon Squeezy webhook payload structure
+// @see https://docs.lemonsqueezy.com/help/webhooks/webhook-requests
+interface LemonSqueezyWebhookMeta {
+	event_name: string;
+	test_mode: boolean;
+	custom_data?: Record<string, any>;
+}
+
+interface OrderAttributes {
+	store_id: number;
+	customer_id?: number;
+	identifier: string;
+	order_number: number;
+	user_name: string | null;
+	user_email: string | null;
+	currency: string;
+	subtotal: number;
+	discount_total: number;
+	tax: number;
+	total: number;
+	subtotal_usd: number;
+	discount_total_usd: number;
+	tax_usd: number;
+	total_usd: number;
+	status: "pending" | "paid" | "refunded" | "partial_refund" | "cancelled";
+	refunded: boolean;
+	refunded_at: string | null;
+	/** Total refunded so far, in the store currency */
+	refunded_amount: number;
+	refunded_amount_usd: number;
+	first_order_item: {
+		id: number;
+		order_id: number;
+		product_id: number;
+		variant_id: number;
+		product_name: string;
+		variant_name: string;
+		price: number;
+		created_at: string;
+		updated_at: string;
+	};
+	created_at: string;
+	updated_at: string;
+	test_mode: boolean;
+}
+
+interface SubscriptionAttributes {
+	store_id: number;
+	customer_id: number;
+	order_id: number;
+	order_item_id: number;
+	product_id: number;
+	variant_id: number;
+	product_name: string;
+	variant_name: string;
+	user_name: string;
+	user_email: string;
+	status: "on_trial" | "active" | "paused" | "past_due" | "unpaid" | "cancelled" | "expired";
+	status_formatted: string;
+	card_brand: string | null;
+	card_last_four: string | null;
+	pause: any | null;
+	cancelled: boolean;
+	trial_ends_at: string | null;
+	billing_anchor: number;
+	urls: {
+		update_payment_method: string;
+		customer_portal: string;
+		customer_portal_update_subscription: string;
+	};
+	renews_at: string;
+	ends_at: string | null;
+	created_at: string;
+	updated_at: string;
+	test_mode: boolean;
+}
+
+export interface LemonSqueezyWebhookPayload {
+	meta: LemonSqueezyWebhookMeta;
+	data: {
+		type: "orders" | "subscriptions" | "subscription_invoices" | "license_keys";
+		id: string;
+		attributes: OrderAttributes | SubscriptionAttributes | any;
+	};
+}
+
+/**
+ * Verify webhook signature using timing-safe comparison
+ * @see https://docs.lemonsqueezy.com/guides/developer-guide/webhooks#signing-and-validating-webhook-requests
+ */
 
 /**
  * LemonSqueezy implementation of the PaymentProvider interface
@@ -768,30 +883,266 @@ export class LemonSqueezyProvider extends BasePaymentProvider {
 
 	/**
 	 * Handle a webhook event
-	 * @param event The webhook event
+	 * The route verifies the signature; webhook payloads carry everything needed,
+	 * so this does not require the API client to be configured.
+	 * @param event The verified webhook payload
 	 */
-	async handleWebhookEvent(event: any): Promise<void> {
-		try {
-			this.checkProviderReady();
+	async handleWebhookEvent(event: LemonSqueezyWebhookPayload): Promise<void> {
+		const eventName = event?.meta?.event_name;
 
-			logger.debug(`Processing ${this.name} webhook`, { type: event?.type });
-
-			// TODO: Implement webhook handling for Lemon Squeezy
-			// Example implementation:
-			// switch (event?.type) {
-			//   case "order_created":
-			//     // Handle order created
-			//     break;
-			//   case "subscription_created":
-			//     // Handle subscription created
-			//     break;
-			//   // Add more cases as needed
-			//   default:
-			//     logger.debug(`Unknown ${this.name} webhook event type`, { type: event?.type });
-			// }
+		try {
+			logger.debug(`Processing ${this.name} webhook`, { eventName, dataId: event?.data?.id });
+
+			switch (eventName) {
+				case "order_created":
+					await this.handleOrderCreated(event);
+					break;
+
+				case "order_refunded":
+					await this.handleOrderRefunded(event);
+					break;
+
+				case "subscription_payment_refunded":
+					await this.handleSubscriptionPaymentRefunded(event);
+					break;
+
+				case "subscription_created":
+				case "subscription_updated":
+				case "subscription_cancelled":
+				case "subscription_resumed":
+				case "subscription_expired":
+				case "subscription_paused":
+				case "subscription_unpaused":
+					await this.handleSubscriptionEvent(event, eventName);
+					break;
+
+				case "subscription_payment_success":
+				case "subscription_payment_failed":
+				case "subscription_payment_recovered":
+					await this.handleSubscriptionPayment(event, eventName);
+					break;
+
+				default:
+					logger.debug(`Unhandled ${this.name} webhook event type`, { eventName });
+			}
 		} catch (error) {
-			this.handleError(error, `Error processing ${this.name} webhook`);
+			this.handleError(error, `Error processing ${this.name} webhook ${eventName}`);
+		}
+	}
+
+	/**
+	 * Record a paid order as a payment
+	 */
+	private async handleOrderCreated(event: LemonSqueezyWebhookPayload): Promise<void> {
+		const { data, meta } = event;
+		const attributes = data.attributes as OrderAttributes;
+
+		if (attributes.status !== "paid") {
+			logger.info("Skipping non-paid Lemon Squeezy order", {
+				orderId: data.id,
+				status: attributes.status,
+			});
+			return;
+		}
+
+		const userId = await this.resolveWebhookUser(attributes.user_email, {
+			name: attributes.user_name,
+			userId: meta.custom_data?.user_id,
+		});
+
+		const firstOrderItem = attributes.first_order_item;
+		const productName = firstOrderItem?.product_name || "Unknown Product";
+
+		await PaymentService.createPayment({
+			userId,
+			orderId: data.id,
+			amount: attributes.total_usd || attributes.total,
+			status: "completed",
+			processor: this.id,
+			productName,
+			purchasedAt: toSubscriptionDate(attributes.created_at),
+			sendReceipt: true,
+			metadata: {
+				productName,
+				variantName: firstOrderItem?.variant_name || null,
+				product_name: productName,
+				variant_name: firstOrderItem?.variant_name || null,
+				productId: firstOrderItem?.product_id || null,
+				variantId: firstOrderItem?.variant_id || null,
+				product_id: firstOrderItem?.product_id || null,
+				variant_id: firstOrderItem?.variant_id || null,
+				order_identifier: attributes.identifier,
+				order_number: attributes.order_number,
+				customer_id: attributes.customer_id,
+				currency: attributes.currency,
+				test_mode: meta.test_mode,
+				custom_data: meta.custom_data,
+				webhook_event: "order_created",
+			},
+		});
+	}
+
+	/**
+	 * Record a full or partial refund of an order
+	 * The order carries the total refunded so far, in USD like the payment's amount.
+	 */
+	private async handleOrderRefunded(event: LemonSqueezyWebhookPayload): Promise<void> {
+		const attributes = event.data.attributes as OrderAttributes;
+
+		await RefundService.recordRefund({
+			processor: this.id,
+			orderId: event.data.id,
+			refundedAmount: attributes.refunded
+				? undefined
+				: attributes.refunded_amount_usd || attributes.refunded_amount,
+		});
+	}
+
+	/**
+	 * Record a full or partial refund of a subscription invoice
+	 */
+	private async handleSubscriptionPaymentRefunded(
+		event: LemonSqueezyWebhookPayload
+	): Promise<void> {
+		const { data } = event;
+		const attributes = data.attributes;
+
+		await RefundService.recordRefund({
+			processor: this.id,
+			orderId: `${attributes.subscription_id}-${data.id}`,
+			refundedAmount: attributes.refunded ? undefined : attributes.refunded_amount,
+		});
+	}
+
+	/**
+	 * Record a subscription state change in the subscriptions table and on the
+	 * payment row that tracks the subscription (keyed by the subscription ID)
+	 */
+	private async handleSubscriptionEvent(
+		event: LemonSqueezyWebhookPayload,
+		eventName: string
+	): Promise<void> {
+		const { data, meta } = event;
+		const attributes = data.attributes as SubscriptionAttributes;
+
+		const userId = await this.resolveWebhookUser(attributes.user_email, {
+			name: attributes.user_name,
+			userId: meta.custom_data?.user_id,
+		});
+
+		// A cancelled Lemon Squeezy subscription stays active until ends_at
+		await SubscriptionService.upsertSubscription({
+			userId,
+			processor: this.id,
+			processorSubscriptionId: data.id,
+			processorCustomerId: String(attributes.customer_id),
+			productId: attributes.product_id,
+			variantId: attributes.variant_id,
+			productName: attributes.product_name,
+			status: attributes.status,
+			currentPeriodEnd: toSubscriptionDate(attributes.ends_at ?? attributes.renews_at),
+			cancelAtPeriodEnd: attributes.cancelled,
+			canceledAt: attributes.cancelled ? toSubscriptionDate(attributes.updated_at) : null,
+			trialEndsAt: toSubscriptionDate(attributes.trial_ends_at),
+			endedAt: attributes.status === "expired" ? toSubscriptionDate(attributes.ends_at) : null,
+			metadata: {
+				variant_name: attributes.variant_name,
+				order_id: attributes.order_id,
+				test_mode: attributes.test_mode,
+				urls: attributes.urls,
+				webhook_event: eventName,
+			},
+		});
+
+		const paymentStatus = attributes.cancelled
+			? "cancelled"
+			: getPaymentStatusForSubscription(attributes.status);
+		const existingPayment = await PaymentService.getPaymentByOrderId(data.id);
+
+		if (existingPayment) {
+			if (existingPayment.status !== paymentStatus) {
+				await PaymentService.updatePaymentStatus(data.id, paymentStatus);
+			}
+			return;
+		}
+
+		// Subscription charges are recorded from subscription_payment_* events
+		await PaymentService.createPayment({
+			userId,
+			orderId: data.id,
+			amount: 0,
+			status: paymentStatus,
+			processor: this.id,
+			productName: attributes.product_name,
+			metadata: {
+				subscription_id: data.id,
+				customer_id: attributes.customer_id,
+				order_id: attributes.order_id,
+				product_id: attributes.product_id,
+				variant_id: attributes.variant_id,
+				product_name: attributes.product_name,
+				variant_name: attributes.variant_name,
+				subscription_status: attributes.status,
+				test_mode: meta.test_mode,
+				custom_data: meta.custom_data,
+				webhook_event: eventName,
+			},
+		});
+	}
+
+	/**
+	 * Record a subscription invoice as a payment
+	 */
+	private async handleSubscriptionPayment(
+		event: LemonSqueezyWebhookPayload,
+		eventName: string
+	): Promise<void> {
+		const { data, meta } = event;
+		// subscription_payment_* events have subscription_invoice data type
+		const attributes = data.attributes;
+
+		const userId = await this.resolveWebhookUser(attributes.user_email, {
+			name: attributes.user_name,
+			userId: meta.custom_data?.user_id,
+		});
+
+		const orderId = `${attributes.subscription_id}-${data.id}`; // Combine subscription and invoice ID
+		const status = eventName === "subscription_payment_failed" ? "failed" : "completed";
+
+		// A recovered payment reuses the invoice of the earlier failed attempt
+		const existingPayment = await PaymentService.getPaymentByOrderId(orderId);
+		if (existingPayment) {
+			if (existingPayment.status !== status) {
+				await PaymentService.updatePaymentStatus(orderId, status);
+			}
+			return;
 		}
+
+		await PaymentService.createPayment({
+			userId,
+			orderId,
+			amount: attributes.total || 0,
+			status,
+			processor: this.id,
+			productName: "Subscription Payment",
+			purchasedAt: toSubscriptionDate(attributes.created_at),
+			// The first invoice is part of the order, which has its own receipt
+			sendReceipt: attributes.billing_reason !== "initial",
+			metadata: {
+				productName: "Subscription Payment",
+				product_name: "Subscription Payment",
+				subscription_id: attributes.subscription_id,
+				invoice_id: data.id,
+				billing_reason: attributes.billing_reason,
+				card_brand: attributes.card_brand,
+				card_last_four: attributes.card_last_four,
+				currency: attributes.currency,
+				total: attributes.total,
+				test_mode: meta.test_mode,
+				custom_data: meta.custom_data,
+				webhook_event: eventName,
+			},
+		});
 	}
 
 	/**
@@ -820,18 +1171,125 @@ export class LemonSqueezyProvider extends BasePaymentProvider {
 	}
 
 	/**
-	 * List all products
+	 * Get the signed customer portal URL for a customer
+	 * Updating the payment method and changing plan open the subscription's own signed URLs when a
+	 * subscription ID is given. Lemon Squeezy portal URLs expire after 24 hours and have no return URL.
+	 * @param options Customer portal options
+	 * @returns The portal URL, or null without a recorded Lemon Squeezy customer ID
+	 * @see https://docs.lemonsqueezy.com/help/online-store/customer-portal
+	 */
+	async createCustomerPortalUrl(options: CustomerPortalOptions): Promise<string | null> {
+		try {
+			this.checkProviderReady();
+
+			if (
+				options.subscriptionId &&
+				(options.intent === "update_payment_method" || options.intent === "change_plan")
+			) {
+				const { data, error } = await getSubscription(options.subscriptionId);
+				if (error) {
+					throw error;
+				}
+				const urls = data?.data.attributes.urls;
+				const url =
+					options.intent === "update_payment_method"
+						? urls?.update_payment_method
+						: urls?.customer_portal_update_subscription;
+				if (url) {
+					return url;
+				}
+			}
+
+			const customerId = options.customerId;
+			if (!customerId) {
+				logger.debug(`No ${this.name} customer for portal session`, { userId: options.userId });
+				return null;
+			}
+
+			const { data, error } = await getCustomer(customerId);
+			if (error) {
+				throw error;
+			}
+
+			return data?.data.attributes.urls.customer_portal ?? null;
+		} catch (error) {
+			if (error instanceof Error && error.message.includes("not properly configured")) {
+				return null;
+			}
+			return this.handleError(error, `Error creating ${this.name} customer portal URL`);
+		}
+	}
+
+	/**
+	 * Refund an order, or a subscription invoice
+	 * Subscription invoices are recorded as `<subscription ID>-<invoice ID>`. Lemon Squeezy refunds
+	 * in the store currency, which is assumed to be USD like the recorded amounts.
+	 * @param options Refund options
+	 * @returns The refund; Lemon Squeezy does not return a refund ID
+	 */
+	async refundPayment(options: RefundOptions): Promise<RefundResult> {
+		try {
+			this.checkProviderReady();
+
+			const invoiceId = /^\d+-(\d+)$/.exec(options.orderId)?.[1];
+			const { error } = invoiceId
+				? await issueSubscriptionInvoiceRefund(invoiceId, options.amount)
+				: await issueOrderRefund(options.orderId, options.amount);
+			if (error) {
+				throw error;
+			}
+
+			return { refundId: null, amount: options.amount };
+		} catch (error) {
+			return this.handleError(error, `Error refunding ${this.name} payment`);
+		}
+	}
+
+	/**
+	 * List all products with their variants
+	 * Draft variants are left out. Prices are in the store currency, which the products API
+	 * does not return, so USD is assumed.
 	 * @returns Array of products
 	 */
 	async listProducts(): Promise<ProductData[]> {
 		try {
 			this.checkProviderReady();
 
-			const response = await listProducts({});
+			const response = await listProducts({ include: ["variants"], page: { size: 100 } });
 			const products = response.data?.data ?? [];
+			const included = (response.data?.included ?? []) as {
+				type: string;
+				id: string;
+				attributes: Record<string, any>;
+			}[];
 
 			return products.map((product) => {
 				const attributes = product.attributes as any;
+				const variants: ProductVariantData[] = included
+					.filter(
+						(resource) =>
+							resource.type === "variants" &&
+							String(resource.attributes.product_id) === String(product.id) &&
+							resource.attributes.status !== "draft"
+					)
+					.map((variant) => ({
+						id: String(variant.id),
+						name: variant.attributes.name,
+						amount: variant.attributes.price,
+						currency: "USD",
+						interval: variant.attributes.is_subscription ? variant.attributes.interval : null,
+						intervalCount: variant.attributes.is_subscription
+							? variant.attributes.interval_count
+							: null,
+						trialInterval: variant.attributes.has_free_trial
+							? variant.attributes.trial_interval
+							: null,
+						trialIntervalCount: variant.attributes.has_free_trial
+							? variant.attributes.trial_interval_count
+							: null,
+						sort: variant.attributes.sort,
+					}));
+
 				return {
 					id: String(product.id),
 					name: attributes.name,
@@ -841,6 +1299,7 @@ export class LemonSqueezyProvider extends BasePaymentProvider {
 						: undefined,
 					isSubscription: attributes.is_subscription,
 					provider: this.id,
+					variants,
 					attributes: attributes,
 				};
 			});
@@ -1,8 +1,10 @@
 import { eq } from "drizzle-orm";
+import { z } from "zod";
 import { env } from "@/env";
 import { logger } from "@/lib/logger";
 import {
 	createCheckoutUrl as polarCreateCheckoutUrl,
+	createCustomerPortalUrl as polarCreateCustomerPortalUrl,
 	fetchPolarProducts as polarFetchProducts,
 	getAllOrders as polarGetAllOrders,
 	getOrderById as polarGetOrderById,
@@ -11,21 +13,139 @@ import {
 	getUserPurchasedProducts as polarGetUserPurchasedProducts,
 	hasUserActiveSubscription as polarHasUserActiveSubscription,
 	hasUserPurchasedProduct as polarHasUserPurchasedProduct,
-	processPolarWebhook, // Assuming this exists and handles things
+	refundOrder as polarRefundOrder,
 } from "@/lib/polar"; // Import utility functions from the lib
 import { db } from "@/server/db"; // For importPayments
 import { payments } from "@/server/db/schema"; // For importPayments
+import { PaymentService } from "../services/payment-service";
+import { RefundService } from "../services/refund-service";
+import {
+	getPaymentStatusForSubscription,
+	SubscriptionService,
+	toSubscriptionDate,
+} from "../services/subscription-service";
 import { userService } from "../services/user-service"; // For importPayments
 import { BasePaymentProvider } from "./base-provider";
 import {
 	type CheckoutOptions,
+	type CustomerPortalOptions,
 	type ImportStats,
 	type OrderData,
 	PaymentProviderError,
 	type ProductData,
+	type ProductVariantData,
 	type ProviderConfig, // Use the standard config type
+	type RefundOptions,
+	type RefundResult,
 } from "./types";
-// Removed crypto as webhook verification is expected to be handled (or needed) in processPolarWebhook
+
+const polarCustomerSchema = z
+	.object({
+		id: z.string().nullish(),
+		email: z.string().nullish(),
+		name: z.string().nullish(),
+		external_id: z.string().nullish(),
+	})
+	.passthrough();
+
+const polarProductSchema = z
+	.object({ id: z.string().nullish(), name: z.string().nullish() })
+	.passthrough();
+
+/** Checkout metadata; values set by the app are strings, Polar also allows numbers and booleans */
+const polarMetadataSchema = z.object({ user_id: z.coerce.string().optional() }).passthrough();
+
+const polarOrderSchema = z
+	.object({
+		id: z.string(),
+		status: z.string().nullish(),
+		paid: z.boolean().nullish(),
+		customer: polarCustomerSchema.nullish(),
+		user: z.object({ email: z.string().nullish() }).passthrough().nullish(),
+		metadata: polarMetadataSchema.nullish(),
+		product: polarProductSchema.nullish(),
+		description: z.string().nullish(),
+		items: z
+			.array(
+				z
+					.object({ label: z.string().nullish(), product: polarProductSchema.nullish() })
+					.passthrough()
+			)
+			.nullish(),
+		total_amount: z.number().nullish(),
+		amount: z.number().nullish(),
+		refunded_amount: z.number().nullish(),
+		created_at: z.string().nullish(),
+		product_id: z.string().nullish(),
+		subscription_id: z.string().nullish(),
+		billing_reason: z.string().nullish(),
+		currency: z.string().nullish(),
+		customer_id: z.string().nullish(),
+	})
+	.passthrough();
+
+const polarSubscriptionSchema = z
+	.object({
+		id: z.string(),
+		status: z.string(),
+		customer: polarCustomerSchema.nullish(),
+		user: z.object({ email: z.string().nullish() }).passthrough().nullish(),
+		metadata: polarMetadataSchema.nullish(),
+		product: polarProductSchema.nullish(),
+		customer_id: z.string().nullish(),
+		product_id: z.string().nullish(),
+		price_id: z.string().nullish(),
+		prices: z.array(z.object({ id: z.string() }).passthrough()).nullish(),
+		current_period_start: z.string().nullish(),
+		current_period_end: z.string().nullish(),
+		cancel_at_period_end: z.boolean().nullish(),
+		canceled_at: z.string().nullish(),
+		ended_at: z.string().nullish(),
+		recurring_interval: z.string().nullish(),
+		amount: z.number().nullish(),
+		currency: z.string().nullish(),
+	})
+	.passthrough();
+
+/**
+ * The Polar webhook events the provider handles, with their snake_case payloads
+ * Validated by the webhook route, and parsed from the stored raw body when the inbox dispatches it.
+ */
+export const polarWebhookEventSchema = z.discriminatedUnion("type", [
+	z.object({
+		type: z.enum(["order.created", "order.paid", "order.updated", "order.refunded"]),
+		data: polarOrderSchema,
+	}),
+	z.object({
+		type: z.enum([
+			"subscription.created",
+			"subscription.updated",
+			"subscription.active",
+			"subscription.canceled",
+			"subscription.uncanceled",
+			"subscription.revoked",
+		]),
+		data: polarSubscriptionSchema,
+	}),
+]);
+
+export type PolarWebhookEvent = z.infer<typeof polarWebhookEventSchema>;
+type PolarOrder = z.infer<typeof polarOrderSchema>;
+type PolarSubscription = z.infer<typeof polarSubscriptionSchema>;
+
+/**
+ * Resolves an order's product name from its product, or from its description or first item
+ */
+function getOrderProductName(order: PolarOrder): string {
+	const firstItem = order.items?.[0];
+	return (
+		order.product?.name ||
+		order.description ||
+		firstItem?.product?.name ||
+		firstItem?.label ||
+		"Unknown Product"
+	);
+}
 
 /**
  * Polar implementation of the PaymentProvider interface
@@ -394,75 +514,171 @@ export class PolarProvider extends BasePaymentProvider {
 
 	/**
 	 * Handle incoming webhook events from Polar
+	 * Webhook payloads carry everything needed, so this does not require the API client.
+	 * @param event The parsed webhook event (`type` and snake_case `data`)
 	 */
-	async handleWebhookEvent(event: any): Promise<void> {
+	async handleWebhookEvent(event: PolarWebhookEvent): Promise<void> {
 		try {
-			this.checkProviderReady(); // Ensures provider is configured/enabled
-
-			// --- Webhook Signature Verification (Placeholder) ---
-			// IMPORTANT: Add actual Polar webhook signature verification here using this.webhookSecret
-			// const signature = headers.get('polar-signature'); // Or however Polar sends it
-			// const isValid = verifyPolarSignature(JSON.stringify(event), signature, this.webhookSecret);
-			// if (!isValid) {
-			//   logger.error("Invalid Polar webhook signature");
-			//   throw new PaymentProviderError("Invalid webhook signature", this.id, "invalid_signature");
-			// }
-			// --- End Placeholder ---
-
-			// Delegate processing to the lib function
-			// NOTE: processPolarWebhook in lib/polar.ts currently only logs.
-			// Real processing (DB updates) needs implementation either here or in the lib function.
-			await processPolarWebhook(event);
-			logger.info("Processed Polar webhook event via lib function", { type: event?.type });
-
-			// --- Direct DB Update Example (if not handled in lib) ---
-			// switch (event?.type) {
-			//   case 'checkout.session.completed':
-			//   case 'payment_intent.succeeded': // Example event types
-			//     const orderData = event.data.object; // Adjust based on actual event structure
-			//     const userEmail = orderData.customer_details?.email;
-			//     const orderId = orderData.id; // Or relevant ID
-			//     const amount = orderData.amount_total; // In cents
-			//     const productName = orderData.metadata?.product_name || 'Unknown Product';
-			//     const purchaseDate = new Date(orderData.created * 1000);
-			//     const userId = orderData.metadata?.user_id; // Assuming you pass this in checkout
-			//
-			//     if (userEmail && orderId) {
-			//       const user = await userService.findUserByEmail(userEmail);
-			//       if (user) {
-			//         const standardizedOrderId = this.generateOrderId(this.id, orderId);
-			//         // Check if payment exists before inserting
-			//         const existingPayment = await db.query.payments.findFirst({ where: eq(payments.processorOrderId, standardizedOrderId) });
-			//         if (!existingPayment) {
-			//           await db.insert(payments).values({
-			//             userId: user.id,
-			//             amount: amount,
-			//             status: 'completed',
-			//             processor: this.id,
-			//             processorOrderId: standardizedOrderId,
-			//             metadata: JSON.stringify(orderData),
-			//             purchasedAt: purchaseDate,
-			//           });
-			//           logger.info("Created payment record from Polar webhook", { standardizedOrderId, type: event.type });
-			//         }
-			//       } else {
-			//          logger.warn("User not found for Polar webhook event", { email: userEmail, eventType: event.type });
-			//       }
-			//     }
-			//     break;
-			//   // Add cases for other relevant events (refunds, subscription updates, etc.)
-			//   default:
-			//     logger.debug("Unhandled Polar webhook event type", { type: event?.type });
-			// }
-			// --- End Direct DB Update Example ---
+			logger.debug("Processing Polar webhook", { eventType: event.type, dataId: event.data.id });
+
+			switch (event.type) {
+				case "order.created":
+				case "order.paid":
+				case "order.updated":
+					await this.handleOrderEvent(event.data);
+					break;
+
+				case "order.refunded":
+					await this.handleOrderRefunded(event.data);
+					break;
+
+				default:
+					await this.handleSubscriptionEvent(event.type, event.data);
+			}
 		} catch (error) {
-			// Don't re-throw if it's just not configured
-			if (error instanceof PaymentProviderError && error.code === "provider_not_configured") {
-				logger.warn("Received Polar webhook, but provider not configured. Skipping.");
-				return;
+			this.handleError(error, `Error handling Polar webhook event ${event.type}`);
+		}
+	}
+
+	/**
+	 * Record a paid order as a payment, or sync the status of an existing one
+	 * Refunded orders go through the refund path, which also revokes access.
+	 */
+	private async handleOrderEvent(order: PolarOrder): Promise<void> {
+		if (order.status === "refunded" || order.status === "partially_refunded") {
+			await this.handleOrderRefunded(order);
+			return;
+		}
+
+		const status = order.paid || order.status === "paid" ? "completed" : null;
+
+		if (!status) {
+			logger.debug("Skipping Polar order that is not paid", {
+				orderId: order.id,
+				status: order.status,
+			});
+			return;
+		}
+
+		const existingPayment = await PaymentService.getPaymentByOrderId(order.id);
+		if (existingPayment) {
+			if (existingPayment.status !== status) {
+				await PaymentService.updatePaymentStatus(order.id, status);
 			}
-			this.handleError(error, "Error handling Polar webhook event");
+			return;
 		}
+
+		const userId = await this.resolveWebhookUser(order.customer?.email ?? order.user?.email, {
+			name: order.customer?.name,
+			userId: order.metadata?.user_id ?? order.customer?.external_id,
+		});
+
+		const productName = getOrderProductName(order);
+
+		await PaymentService.createPayment({
+			userId,
+			orderId: order.id,
+			amount: order.total_amount ?? order.amount ?? 0,
+			status,
+			processor: this.id,
+			productName,
+			purchasedAt: toSubscriptionDate(order.created_at),
+			sendReceipt: true,
+			metadata: {
+				productName,
+				productId: order.product_id ?? order.product?.id ?? null,
+				subscriptionId: order.subscription_id ?? null,
+				billingReason: order.billing_reason,
+				currency: order.currency,
+				customerId: order.customer_id ?? order.customer?.id ?? null,
+				webhook_event: "order",
+			},
+		});
+	}
+
+	/**
+	 * Record a full or partial refund of an order
+	 * The order carries the total refunded so far, in cents like the payment's amount.
+	 */
+	private async handleOrderRefunded(order: PolarOrder): Promise<void> {
+		await RefundService.recordRefund({
+			processor: this.id,
+			orderId: order.id,
+			refundedAmount:
+				order.status === "refunded" ? undefined : (order.refunded_amount ?? undefined),
+		});
+	}
+
+	/**
+	 * Record a subscription state change in the subscriptions table and on the
+	 * payment row that tracks the subscription (keyed by the subscription ID)
+	 */
+	private async handleSubscriptionEvent(
+		eventType: string,
+		subscription: PolarSubscription
+	): Promise<void> {
+		const userId = await this.resolveWebhookUser(
+			subscription.customer?.email ?? subscription.user?.email,
+			{
+				name: subscription.customer?.name,
+				userId: subscription.metadata?.user_id ?? subscription.customer?.external_id,
+			}
+		);
+
+		// subscription.revoked means access ended immediately, even if a period is still reported
+		const isRevoked = eventType === "subscription.revoked";
+		const status = isRevoked ? "canceled" : subscription.status;
+		const productName = subscription.product?.name ?? null;
+
+		await SubscriptionService.upsertSubscription({
+			userId,
+			processor: this.id,
+			processorSubscriptionId: String(subscription.id),
+			processorCustomerId: subscription.customer_id ?? subscription.customer?.id ?? null,
+			productId: subscription.product_id ?? subscription.product?.id ?? null,
+			variantId: subscription.price_id ?? subscription.prices?.[0]?.id ?? null,
+			productName,
+			status,
+			currentPeriodStart: toSubscriptionDate(subscription.current_period_start),
+			currentPeriodEnd: toSubscriptionDate(subscription.current_period_end),
+			cancelAtPeriodEnd: !!subscription.cancel_at_period_end,
+			canceledAt: toSubscriptionDate(subscription.canceled_at),
+			endedAt: isRevoked
+				? (toSubscriptionDate(subscription.ended_at) ?? new Date())
+				: toSubscriptionDate(subscription.ended_at),
+			metadata: {
+				webhookEvent: eventType,
+				recurringInterval: subscription.recurring_interval,
+				amount: subscription.amount,
+				currency: subscription.currency,
+			},
+		});
+
+		const paymentStatus = getPaymentStatusForSubscription(status);
+		const existingPayment = await PaymentService.getPaymentByOrderId(subscription.id);
+
+		if (existingPayment) {
+			if (existingPayment.status !== paymentStatus) {
+				await PaymentService.updatePaymentStatus(subscription.id, paymentStatus);
+			}
+			return;
+		}
+
+		// Subscription charges are recorded from order events
+		await PaymentService.createPayment({
+			userId,
+			orderId: subscription.id,
+			amount: 0,
+			status: paymentStatus,
+			processor: this.id,
+			productName,
+			metadata: {
+				subscriptionId: subscription.id,
+				subscriptionStatus: status,
+				productName,
+				webhook_event: eventType,
+			},
+		});
 	}
 
 	/**
@@ -481,6 +697,50 @@ export class PolarProvider extends BasePaymentProvider {
 		}
 	}
 
+	/**
+	 * Create a customer session for the Polar customer portal
+	 * Polar has no deep links into portal flows, so every intent opens the portal home page.
+	 * @returns The portal URL, or null without a recorded Polar customer ID
+	 */
+	async createCustomerPortalUrl(options: CustomerPortalOptions): Promise<string | null> {
+		try {
+			this.checkProviderReady();
+
+			if (!options.customerId) {
+				logger.debug(`No ${this.name} customer for portal session`, { userId: options.userId });
+				return null;
+			}
+
+			return await polarCreateCustomerPortalUrl({
+				customerId: options.customerId,
+				returnUrl: options.returnUrl,
+			});
+		} catch (error) {
+			if (error instanceof PaymentProviderError && error.code === "provider_not_configured") {
+				return null;
+			}
+			return this.handleError(error, "Error creating Polar customer portal URL");
+		}
+	}
+
+	/**
+	 * Refund an order
+	 * Polar benefits are left alone; RefundService revokes the access this app granted.
+	 */
+	async refundPayment(options: RefundOptions): Promise<RefundResult> {
+		try {
+			this.checkProviderReady();
+			const refund = await polarRefundOrder({
+				orderId: options.orderId,
+				amount: options.amount,
+				comment: options.reason,
+			});
+			return { refundId: refund.id, amount: refund.amount };
+		} catch (error) {
+			return this.handleError(error, "Error refunding Polar order");
+		}
+	}
+
 	/**
 	 * List available products from Polar
 	 */
@@ -489,20 +749,41 @@ export class PolarProvider extends BasePaymentProvider {
 			this.checkProviderReady();
 			const polarProducts = await polarFetchProducts();
 			// Map response from lib function (any[]) to ProductData
-			return polarProducts.map((product: any) => ({
-				id: String(product.id), // Ensure ID is string
-				name: product.name || "Unknown Polar Product",
-				// Assuming price comes back in cents; adjust if necessary
-				price: typeof product.price === "number" ? product.price / 100 : undefined,
-				description: product.description,
-				// Check common ways Polar might indicate a subscription type
-				isSubscription:
-					product.type === "subscription" ||
-					product.is_subscription === true ||
-					!!product.recurring_interval,
-				provider: this.id,
-				attributes: product, // Include original attributes
-			}));
+			return polarProducts.map((product: any) => {
+				// Only fixed prices have an amount to display; free, custom and metered prices do not
+				const variants: ProductVariantData[] = (product.prices ?? [])
+					.filter((price: any) => price.amountType === "fixed" && !price.isArchived)
+					.map((price: any) => ({
+						id: String(price.id),
+						name: product.name,
+						amount: price.priceAmount,
+						currency: String(price.priceCurrency).toUpperCase(),
+						interval: price.recurringInterval ?? product.recurringInterval ?? null,
+						intervalCount: product.recurringIntervalCount ?? (product.recurringInterval ? 1 : null),
+						trialInterval: product.trialInterval ?? null,
+						trialIntervalCount: product.trialIntervalCount ?? null,
+					}));
+
+				return {
+					id: String(product.id), // Ensure ID is string
+					name: product.name || "Unknown Polar Product",
+					// Assuming price comes back in cents; adjust if necessary
+					price: typeof product.price === "number" ? product.price / 100 : undefined,
+					description: product.description,
+					// Check common ways Polar might indicate a subscription type
+					isSubscription:
+						product.type === "subscription" ||
+						product.is_subscription === true ||
+						!!product.recurring_interval ||
+						!!product.recurringInterval,
+					provider: this.id,
+					variants,
+					features: (product.benefits ?? [])
+						.map((benefit: any) => benefit.description)
+						.filter(Boolean),
+					attributes: product, // Include original attributes
+				};
+			});
 		} catch (error) {
 			if (error instanceof PaymentProviderError && error.code === "provider_not_configured") {
 				return [];
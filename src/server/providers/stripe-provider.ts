@@ -1,4 +1,5 @@
 import { eq, or } from "drizzle-orm";
+import type Stripe from "stripe";
 import { env } from "@/env";
 import { logger } from "@/lib/logger";
 import {
@@ -6,23 +7,27 @@ import {
 	createStripeCustomer,
 	getAllStripeOrders,
 	getStripeClient,
-	getStripeCustomerByEmail,
 	getStripePaymentStatus,
 	hasUserPurchasedStripeProduct,
-	processStripeWebhook,
-	verifyStripeWebhookSignature,
 } from "@/lib/stripe";
 import { db } from "@/server/db";
 import { payments } from "@/server/db/schema";
+import { PaymentService } from "../services/payment-service";
+import { type DisputeStatus, RefundService } from "../services/refund-service";
+import { SubscriptionService, toSubscriptionDate } from "../services/subscription-service";
 import { userService } from "../services/user-service";
 import { BasePaymentProvider } from "./base-provider";
 import {
 	type CheckoutOptions,
+	type CustomerPortalOptions,
 	type ImportStats,
 	type OrderData,
 	PaymentProviderError,
 	type ProductData,
+	type ProductVariantData,
 	type ProviderConfig,
+	type RefundOptions,
+	type RefundResult,
 } from "./types";
 
 /*
@@ -463,7 +468,7 @@ export class StripeProvider extends BasePaymentProvider {
 				customerEmail: options.email,
 				metadata: options.metadata,
 				allowPromotionCodes: true,
-				mode: "payment" as const, // Default to payment mode
+				mode: options.mode ?? "payment",
 				quantity: 1, // Default quantity
 			};
 
@@ -486,53 +491,471 @@ export class StripeProvider extends BasePaymentProvider {
 	}
 
 	/**
-	 * Handle incoming webhook events from Stripe
+	 * Create a Billing Portal session for a customer
+	 * Updating the payment method, and changing or cancelling a given subscription, open that
+	 * portal flow directly; everything else opens the portal home page.
+	 * @param options Customer portal options
+	 * @returns The portal URL, or null without a recorded Stripe customer ID
+	 * @see https://docs.stripe.com/customer-management/portal-deep-links
 	 */
-	async handleWebhookEvent(event: any): Promise<void> {
+	async createCustomerPortalUrl(options: CustomerPortalOptions): Promise<string | null> {
 		try {
 			this.checkProviderReady();
 
-			// Verify webhook signature
-			const signature = event.headers?.["stripe-signature"];
-			const payload = event.body;
+			const stripe = getStripeClient();
+			if (!stripe) {
+				return null;
+			}
 
-			if (signature && payload) {
-				const isValid = verifyStripeWebhookSignature(payload, signature);
-				if (!isValid) {
-					logger.error("Invalid Stripe webhook signature");
-					throw new PaymentProviderError("Invalid webhook signature", this.id, "invalid_signature");
-				}
+			const customerId = options.customerId;
+			if (!customerId) {
+				logger.debug(`No ${this.name} customer for portal session`, { userId: options.userId });
+				return null;
 			}
 
-			// Process the webhook event
-			await processStripeWebhook(event);
-			logger.info("Processed Stripe webhook event", { type: event?.type });
+			const session = await stripe.billingPortal.sessions.create({
+				customer: customerId,
+				return_url: options.returnUrl,
+				flow_data: this.getPortalFlow(options),
+			});
+
+			return session.url;
 		} catch (error) {
-			// Don't re-throw if it's just not configured
 			if (error instanceof PaymentProviderError && error.code === "provider_not_configured") {
-				logger.warn("Received Stripe webhook, but provider not configured. Skipping.");
-				return;
+				return null;
 			}
-			this.handleError(error, "Error handling Stripe webhook event");
+			return this.handleError(error, `Error creating ${this.name} customer portal URL`);
 		}
 	}
 
 	/**
-	 * List available products from Stripe (placeholder implementation)
-	 * Note: Stripe doesn't have a simple "list all products" approach for checkout
-	 * This would typically be configured in your application with specific price IDs
+	 * Refund a payment through its payment intent
+	 * Checkout sessions are refunded through the session's payment intent. Subscriptions are
+	 * billed per invoice, so they are refunded from the Stripe dashboard instead.
+	 * @param options Refund options
+	 * @returns The refund
 	 */
-	async listProducts(): Promise<ProductData[]> {
+	async refundPayment(options: RefundOptions): Promise<RefundResult> {
 		try {
 			this.checkProviderReady();
 
-			// This is a placeholder - in a real implementation, you would either:
-			// 1. Configure specific price IDs in your app config
-			// 2. Fetch products and their prices from Stripe API
-			// 3. Use a combination of both
+			const stripe = getStripeClient();
+			if (!stripe) {
+				throw new PaymentProviderError(
+					"Stripe client not available",
+					this.id,
+					"provider_not_configured"
+				);
+			}
+
+			let paymentIntentId: string | null = null;
+			if (options.orderId.startsWith("pi_")) {
+				paymentIntentId = options.orderId;
+			} else if (options.orderId.startsWith("cs_")) {
+				const session = await stripe.checkout.sessions.retrieve(options.orderId);
+				paymentIntentId =
+					typeof session.payment_intent === "string"
+						? session.payment_intent
+						: (session.payment_intent?.id ?? null);
+			}
+			if (!paymentIntentId) {
+				throw new PaymentProviderError(
+					"Only one-time payments can be refunded here; refund subscription invoices from the Stripe dashboard",
+					this.id,
+					"refund_unsupported"
+				);
+			}
+
+			const refund = await stripe.refunds.create({
+				payment_intent: paymentIntentId,
+				amount: options.amount,
+				reason: "requested_by_customer",
+				metadata: options.reason ? { note: options.reason } : undefined,
+			});
+
+			return { refundId: refund.id, amount: refund.amount };
+		} catch (error) {
+			return this.handleError(error, `Error refunding ${this.name} payment`);
+		}
+	}
+
+	/**
+	 * Map a portal intent to a Billing Portal flow
+	 * @returns The flow, or undefined for the portal home page
+	 */
+	private getPortalFlow(
+		options: CustomerPortalOptions
+	): Stripe.BillingPortal.SessionCreateParams.FlowData | undefined {
+		const afterCompletion:
+			| Stripe.BillingPortal.SessionCreateParams.FlowData.AfterCompletion
+			| undefined = options.returnUrl
+			? { type: "redirect", redirect: { return_url: options.returnUrl } }
+			: undefined;
+		const subscription = options.subscriptionId;
+
+		switch (options.intent) {
+			case "update_payment_method":
+				return { type: "payment_method_update", after_completion: afterCompletion };
+			case "change_plan":
+				return subscription
+					? {
+							type: "subscription_update",
+							subscription_update: { subscription },
+							after_completion: afterCompletion,
+						}
+					: undefined;
+			case "cancel":
+				return subscription
+					? {
+							type: "subscription_cancel",
+							subscription_cancel: { subscription },
+							after_completion: afterCompletion,
+						}
+					: undefined;
+			default:
+				return undefined;
+		}
+	}
+
+	/**
+	 * Handle incoming webhook events from Stripe
+	 * The route verifies the signature before the event reaches the webhook inbox.
+	 * @param event The verified Stripe event
+	 */
+	async handleWebhookEvent(event: Stripe.Event): Promise<void> {
+		try {
+			const stripe = getStripeClient();
+			if (!stripe) {
+				throw new PaymentProviderError(
+					"Stripe client not available for webhook processing",
+					this.id,
+					"provider_not_configured"
+				);
+			}
+
+			switch (event.type) {
+				case "checkout.session.completed":
+					await this.handleCheckoutSessionCompleted(stripe, event.data.object);
+					break;
+
+				case "payment_intent.succeeded":
+					await this.handlePaymentIntentSucceeded(stripe, event.data.object);
+					break;
+
+				case "customer.subscription.created":
+				case "customer.subscription.updated":
+				case "customer.subscription.deleted":
+					await this.handleSubscriptionEvent(stripe, event.data.object, event.type);
+					break;
+
+				case "charge.refunded":
+					await this.handleChargeRefunded(stripe, event.data.object);
+					break;
+
+				case "charge.dispute.created":
+				case "charge.dispute.closed":
+					await this.handleDispute(stripe, event.data.object);
+					break;
+
+				case "invoice.payment_succeeded": {
+					const invoice = event.data.object;
+					logger.info("Invoice payment succeeded", {
+						invoiceId: invoice.id,
+						customerId: invoice.customer,
+						amount: invoice.amount_paid,
+					});
+					break;
+				}
+
+				default:
+					logger.info("Unhandled Stripe webhook event", {
+						eventType: event.type,
+						eventId: event.id,
+					});
+			}
+		} catch (error) {
+			this.handleError(error, `Error handling Stripe webhook event ${event?.type}`);
+		}
+	}
+
+	/**
+	 * Look up the Stripe customer for an object and resolve the local user
+	 * @returns The customer and user ID, or null if the customer was deleted
+	 */
+	private async resolveCustomer(
+		stripe: Stripe,
+		customerRef: string | Stripe.Customer | Stripe.DeletedCustomer
+	): Promise<{ customer: Stripe.Customer; userId: string } | null> {
+		const customerId = typeof customerRef === "string" ? customerRef : customerRef.id;
+		const customer = await stripe.customers.retrieve(customerId);
+
+		if (!customer || customer.deleted) {
+			logger.warn("Stripe customer not found or deleted", { customerId });
+			return null;
+		}
+
+		const userId = await this.resolveWebhookUser(customer.email, {
+			name: customer.name,
+			userId: customer.metadata?.userId ?? customer.metadata?.user_id,
+		});
+
+		return { customer, userId };
+	}
+
+	/**
+	 * Record a paid checkout session as a payment
+	 */
+	private async handleCheckoutSessionCompleted(
+		stripe: Stripe,
+		session: Stripe.Checkout.Session
+	): Promise<void> {
+		if (session.payment_status !== "paid" || !session.customer) {
+			return;
+		}
+
+		const resolved = await this.resolveCustomer(stripe, session.customer);
+		if (!resolved) {
+			return;
+		}
+
+		await PaymentService.createPayment({
+			userId: resolved.userId,
+			orderId: session.id,
+			status: "completed",
+			amount: session.amount_total ?? 0,
+			processor: this.id,
+			sendReceipt: session.payment_status === "paid",
+			metadata: {
+				sessionId: session.id,
+				customerId: resolved.customer.id,
+				customerEmail: resolved.customer.email,
+				paymentStatus: session.payment_status,
+				mode: session.mode,
+				checkoutMetadata: session.metadata,
+			},
+		});
+	}
 
-			logger.debug("Stripe listProducts called - returning empty array");
+	/**
+	 * Record a succeeded payment intent as a payment
+	 */
+	private async handlePaymentIntentSucceeded(
+		stripe: Stripe,
+		paymentIntent: Stripe.PaymentIntent
+	): Promise<void> {
+		if (!paymentIntent.customer) {
+			return;
+		}
+
+		const resolved = await this.resolveCustomer(stripe, paymentIntent.customer);
+		if (!resolved) {
+			return;
+		}
+
+		await PaymentService.createPayment({
+			userId: resolved.userId,
+			orderId: paymentIntent.id,
+			status: "completed",
+			amount: paymentIntent.amount,
+			processor: this.id,
+			metadata: {
+				paymentIntentId: paymentIntent.id,
+				customerId: resolved.customer.id,
+				customerEmail: resolved.customer.email,
+				paymentMethod: paymentIntent.payment_method,
+			},
+		});
+	}
+
+	/**
+	 * Find the order IDs a charge's payment may be recorded under
+	 * One-time payments are recorded under the checkout session and under the payment intent.
+	 * @returns The order IDs, checkout session first, or an empty list for charges without a
+	 * payment intent
+	 */
+	private async getChargeOrderIds(
+		stripe: Stripe,
+		paymentIntent: string | Stripe.PaymentIntent | null
+	): Promise<string[]> {
+		const paymentIntentId = typeof paymentIntent === "string" ? paymentIntent : paymentIntent?.id;
+		if (!paymentIntentId) {
 			return [];
+		}
+
+		const sessions = await stripe.checkout.sessions.list({
+			payment_intent: paymentIntentId,
+			limit: 1,
+		});
+		return [...sessions.data.map((session) => session.id), paymentIntentId];
+	}
+
+	/**
+	 * Record a full or partial refund of a charge
+	 * `amount_refunded` is the total refunded so far, which keeps retries idempotent.
+	 */
+	private async handleChargeRefunded(stripe: Stripe, charge: Stripe.Charge): Promise<void> {
+		const [orderId, ...relatedOrderIds] = await this.getChargeOrderIds(
+			stripe,
+			charge.payment_intent
+		);
+		if (!orderId) {
+			logger.info("Ignoring refund of a charge without a payment intent", { chargeId: charge.id });
+			return;
+		}
+
+		await RefundService.recordRefund({
+			processor: this.id,
+			orderId,
+			relatedOrderIds,
+			refundedAmount: charge.refunded ? undefined : charge.amount_refunded,
+		});
+	}
+
+	/**
+	 * Record a dispute being opened or closed
+	 * Closed disputes are won or lost; an inquiry closed without a chargeback counts as won.
+	 */
+	private async handleDispute(stripe: Stripe, dispute: Stripe.Dispute): Promise<void> {
+		const [orderId, ...relatedOrderIds] = await this.getChargeOrderIds(
+			stripe,
+			dispute.payment_intent
+		);
+		if (!orderId) {
+			logger.info("Ignoring dispute of a charge without a payment intent", {
+				disputeId: dispute.id,
+			});
+			return;
+		}
+
+		let status: DisputeStatus = "open";
+		if (dispute.status === "lost") {
+			status = "lost";
+		} else if (dispute.status === "won" || dispute.status === "warning_closed") {
+			status = "won";
+		}
+
+		await RefundService.recordDispute({
+			processor: this.id,
+			orderId,
+			relatedOrderIds,
+			disputeId: dispute.id,
+			status,
+			amount: dispute.amount,
+			reason: dispute.reason,
+		});
+	}
+
+	/**
+	 * Record a subscription state change, and a payment row for active subscriptions
+	 */
+	private async handleSubscriptionEvent(
+		stripe: Stripe,
+		subscription: Stripe.Subscription,
+		eventType: string
+	): Promise<void> {
+		const resolved = await this.resolveCustomer(stripe, subscription.customer);
+		if (!resolved) {
+			return;
+		}
+
+		const { customer, userId } = resolved;
+		const item = subscription.items.data[0];
+		// Period fields moved from the subscription to its items in newer API versions
+		const periodSource = subscription as any;
+
+		await SubscriptionService.upsertSubscription({
+			userId,
+			processor: this.id,
+			processorSubscriptionId: subscription.id,
+			processorCustomerId: customer.id,
+			productId:
+				typeof item?.price.product === "string"
+					? item.price.product
+					: (item?.price.product?.id ?? null),
+			variantId: item?.price.id ?? null,
+			productName: item?.price.nickname ?? null,
+			status: subscription.status,
+			currentPeriodStart: toSubscriptionDate(
+				periodSource.current_period_start ?? (item as any)?.current_period_start
+			),
+			currentPeriodEnd: toSubscriptionDate(
+				periodSource.current_period_end ?? (item as any)?.current_period_end
+			),
+			cancelAtPeriodEnd: subscription.cancel_at_period_end,
+			canceledAt: toSubscriptionDate(subscription.canceled_at),
+			trialEndsAt: toSubscriptionDate(subscription.trial_end),
+			endedAt: toSubscriptionDate(subscription.ended_at),
+			metadata: {
+				customerEmail: customer.email,
+				eventType,
+			},
+		});
+
+		if (subscription.status !== "active") {
+			return;
+		}
+
+		await PaymentService.createPayment({
+			userId,
+			orderId: subscription.id,
+			status: "completed",
+			amount: item?.price.unit_amount ?? 0,
+			processor: this.id,
+			metadata: {
+				subscriptionId: subscription.id,
+				customerId: customer.id,
+				customerEmail: customer.email,
+				subscriptionStatus: subscription.status,
+			},
+		});
+	}
+
+	/**
+	 * List active products from Stripe with their active prices as variants
+	 * Prices without a fixed unit amount, such as tiered prices, are left out.
+	 */
+	async listProducts(): Promise<ProductData[]> {
+		try {
+			this.checkProviderReady();
+
+			const stripe = getStripeClient();
+			if (!stripe) {
+				return [];
+			}
+
+			const [products, prices] = await Promise.all([
+				stripe.products.list({ active: true, limit: 100 }).autoPagingToArray({ limit: 1000 }),
+				stripe.prices.list({ active: true, limit: 100 }).autoPagingToArray({ limit: 1000 }),
+			]);
+
+			return products.map((product) => {
+				const variants: ProductVariantData[] = prices
+					.filter((price) => price.product === product.id && price.unit_amount !== null)
+					.map((price) => ({
+						id: price.id,
+						name: price.nickname ?? product.name,
+						amount: price.unit_amount ?? 0,
+						currency: price.currency.toUpperCase(),
+						interval: price.recurring?.interval ?? null,
+						intervalCount: price.recurring?.interval_count ?? null,
+						trialInterval: price.recurring?.trial_period_days ? "day" : null,
+						trialIntervalCount: price.recurring?.trial_period_days ?? null,
+						isUsageBased: price.recurring?.usage_type === "metered",
+					}));
+
+				return {
+					id: product.id,
+					name: product.name,
+					description: product.description ?? undefined,
+					isSubscription: variants.some((variant) => variant.interval !== null),
+					provider: this.id,
+					variants,
+					features: product.marketing_features
+						.map((feature) => feature.name)
+						.filter((name): name is string => !!name),
+					attributes: { metadata: product.metadata },
+				};
+			});
 		} catch (error) {
 			if (error instanceof PaymentProviderError && error.code === "provider_not_configured") {
 				return [];
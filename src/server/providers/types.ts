@@ -20,6 +20,27 @@ export interface OrderData {
 	attributes?: Record<string, any>;
 }
 
+/**
+ * A price a product is sold at, e.g. its monthly or its yearly price
+ */
+export interface ProductVariantData {
+	/** ID to check out with: a Stripe price, Lemon Squeezy variant or Polar price */
+	id: string;
+	name: string;
+	/** Price in the smallest currency unit, e.g. cents */
+	amount: number;
+	/** ISO 4217 currency code, uppercase */
+	currency: string;
+	/** Billing interval; null for one-time prices */
+	interval: "day" | "week" | "month" | "year" | null;
+	intervalCount: number | null;
+	trialInterval?: "day" | "week" | "month" | "year" | null;
+	trialIntervalCount?: number | null;
+	isUsageBased?: boolean;
+	/** Display order within the product */
+	sort?: number | null;
+}
+
 /**
  * Product information returned by providers
  */
@@ -30,6 +51,10 @@ export interface ProductData {
 	description?: string;
 	isSubscription?: boolean;
 	provider: string;
+	/** Prices of the product; returned by `listProducts` */
+	variants?: ProductVariantData[];
+	/** Marketing bullets set on the product at the provider */
+	features?: string[];
 	attributes?: Record<string, any>;
 }
 
@@ -49,6 +74,8 @@ export interface ImportStats {
  */
 export interface CheckoutOptions {
 	productId: string;
+	/** Whether the price is recurring; providers that need to know default to a one-time payment */
+	mode?: "payment" | "subscription";
 	email?: string;
 	userId?: string;
 	metadata?: Record<string, any>;
@@ -56,6 +83,52 @@ export interface CheckoutOptions {
 	cancelUrl?: string;
 }
 
+/**
+ * Where in the customer portal to send the customer
+ * - `manage`: the portal home page, with invoices and subscriptions
+ * - `update_payment_method`, `change_plan` and `cancel`: straight to that flow, when the
+ *   provider supports it; otherwise the portal home page
+ */
+export type CustomerPortalIntent = "manage" | "update_payment_method" | "change_plan" | "cancel";
+
+/**
+ * Options for creating a customer portal URL
+ */
+export interface CustomerPortalOptions {
+	userId: string;
+	/**
+	 * The provider's customer ID recorded for the user from a verified webhook
+	 * Customers are never looked up by email, which could match a record the user does not own.
+	 */
+	customerId?: string | null;
+	/** The provider's subscription ID, for flows that act on one subscription */
+	subscriptionId?: string | null;
+	intent?: CustomerPortalIntent;
+	/** Where the portal's back link returns to */
+	returnUrl?: string;
+}
+
+/**
+ * Options for refunding a payment through the provider
+ */
+export interface RefundOptions {
+	/** The order ID the payment was recorded under */
+	orderId: string;
+	/** Amount to refund in the smallest currency unit, e.g. cents */
+	amount: number;
+	reason?: string;
+}
+
+/**
+ * A refund issued through the provider
+ */
+export interface RefundResult {
+	/** The provider's refund ID, when it returns one */
+	refundId: string | null;
+	/** Amount refunded in the smallest currency unit */
+	amount: number;
+}
+
 /**
  * Provider configuration options
  */
@@ -99,6 +172,12 @@ export interface PaymentProvider {
 	createCheckoutUrl(options: CheckoutOptions): Promise<string | null>;
 	listProducts(): Promise<ProductData[]>;
 
+	// Customer portal, for invoices, payment methods, plan changes and cancellation
+	createCustomerPortalUrl(options: CustomerPortalOptions): Promise<string | null>;
+
+	// Refunds issued by admins; refunds made in the provider dashboard arrive as webhooks
+	refundPayment(options: RefundOptions): Promise<RefundResult>;
+
 	// Configuration
 	initialize(config: ProviderConfig): void;
 }
@@ -1,31 +1,187 @@
 import crypto from "crypto";
-import { eq, isNull } from "drizzle-orm";
+import { and, eq, isNull } from "drizzle-orm";
 import { siteConfig } from "@/config/site-config";
 import { db } from "@/server/db";
-import { apiKeys, users } from "@/server/db/schema";
+import { type ApiKey, apiKeys, users } from "@/server/db/schema";
+import { type AuditActor, auditService } from "@/server/services/audit-service";
+import { ErrorService } from "@/server/services/error-service";
+
+/**
+ * Scopes that can be granted to an API key
+ */
+export const API_KEY_SCOPES = [
+	"projects:read",
+	"projects:write",
+	"deployments:read",
+	"deployments:write",
+	"credits:read",
+	"credits:write",
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/** Default overlap during which a rotated key keeps working */
+export const DEFAULT_ROTATION_OVERLAP_MS = 1000 * 60 * 60 * 24; // 24 hours
+
+const BASE62_CHARS = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+const PUBLIC_ID_LENGTH = 12;
+const SECRET_LENGTH = 40;
+
+/**
+ * Hashes a full API key for storage and lookup
+ * Keys carry enough entropy that a fast hash is sufficient.
+ */
+export function hashApiKey(key: string): string {
+	return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Splits a `prefix_publicId.secret` key into its parts
+ * @returns The parts, or null for keys in the legacy `prefix_secret` format
+ */
+export function parseApiKey(
+	key: string
+): { prefix: string; publicId: string; secret: string } | null {
+	const [, prefix, publicId, secret] =
+		/^([A-Za-z0-9]+)_([A-Za-z0-9]+)\.([A-Za-z0-9]+)$/.exec(key) ?? [];
+	if (!prefix || !publicId || !secret) {
+		return null;
+	}
+
+	return { prefix, publicId, secret };
+}
+
+/**
+ * Parses a JSON list column, ignoring malformed values
+ */
+function parseList(value: string | null | undefined): string[] {
+	if (!value) {
+		return [];
+	}
+
+	try {
+		const parsed = JSON.parse(value);
+		return Array.isArray(parsed) ? parsed.filter((item) => typeof item === "string") : [];
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Gets the scopes granted to an API key
+ */
+export function getApiKeyScopes(apiKey: Pick<ApiKey, "scopes">): ApiKeyScope[] {
+	return parseList(apiKey.scopes).filter((scope): scope is ApiKeyScope =>
+		(API_KEY_SCOPES as readonly string[]).includes(scope)
+	);
+}
+
+/**
+ * Gets the IP allow-list of an API key; an empty list allows every IP
+ */
+export function getApiKeyAllowedIps(apiKey: Pick<ApiKey, "allowedIps">): string[] {
+	return parseList(apiKey.allowedIps);
+}
+
+function ipv4ToNumber(ip: string): number | null {
+	const parts = ip.split(".");
+	if (parts.length !== 4) {
+		return null;
+	}
+
+	let result = 0;
+	for (const part of parts) {
+		if (!/^\d{1,3}$/.test(part) || Number(part) > 255) {
+			return null;
+		}
+		result = result * 256 + Number(part);
+	}
+
+	return result;
+}
+
+/**
+ * Checks an IP address against an allow-list of IPs and IPv4 CIDR ranges
+ * @param ip - The client IP address
+ * @param allowList - The allowed IPs; an empty list allows every IP
+ */
+export function isIpAllowed(ip: string | null | undefined, allowList: string[]): boolean {
+	if (allowList.length === 0) {
+		return true;
+	}
+	if (!ip) {
+		return false;
+	}
+
+	// Unwrap IPv4-mapped IPv6 addresses
+	const normalizedIp = ip.trim().replace(/^::ffff:/i, "");
+
+	return allowList.some((entry) => {
+		const [range, bits] = entry.trim().split("/");
+		if (bits === undefined) {
+			return range?.toLowerCase() === normalizedIp.toLowerCase();
+		}
+
+		const rangeNumber = ipv4ToNumber(range ?? "");
+		const ipNumber = ipv4ToNumber(normalizedIp);
+		const prefixLength = Number(bits);
+		if (rangeNumber === null || ipNumber === null || !(prefixLength >= 0 && prefixLength <= 32)) {
+			return false;
+		}
+
+		const mask = prefixLength === 0 ? 0 : (~0 << (32 - prefixLength)) >>> 0;
+		return (rangeNumber & mask) >>> 0 === (ipNumber & mask) >>> 0;
+	});
+}
+
+/**
+ * Validates an IP allow-list entry (an IP address or an IPv4 CIDR range)
+ */
+export function isValidIpAllowListEntry(entry: string): boolean {
+	const [range, bits, ...rest] = entry.trim().split("/");
+	if (rest.length > 0 || !range) {
+		return false;
+	}
+	if (bits !== undefined) {
+		return ipv4ToNumber(range) !== null && /^\d{1,2}$/.test(bits) && Number(bits) <= 32;
+	}
+
+	return ipv4ToNumber(range) !== null || /^[0-9a-f:]+$/i.test(range);
+}
 
 export class ApiKeyService {
 	/**
-	 * Generates a URL-safe API key using crypto.getRandomValues
-	 * Format: prefix_base62string
-	 * Example: pk_7FzR9W3kM8vNpL2xJqY4tH5gQcAaBbCcDdEeFf
+	 * Generates a random base62 string using crypto.getRandomValues
 	 */
-	private generateApiKey(prefix: string = siteConfig.app.apiKeyPrefix): string {
-		// Use a larger array for better entropy
-		const array = new Uint8Array(40);
+	private generateRandomString(length: number): string {
+		const array = new Uint8Array(length);
 		crypto.getRandomValues(array);
 
-		// Convert to base62 (alphanumeric only, no special chars)
-		const base62Chars = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
 		let result = "";
-
 		for (const byte of array) {
 			// Use modulo to map the byte to our character set
-			result += base62Chars[byte % 62];
+			result += BASE62_CHARS[byte % 62];
 		}
 
-		// Add prefix and underscore separator
-		return `${prefix}_${result}`;
+		return result;
+	}
+
+	/**
+	 * Generates a new API key
+	 * Format: prefix_publicId.secret
+	 * Example: sk_7FzR9W3kM8vN.pL2xJqY4tH5gQcAaBbCcDdEeFf...
+	 */
+	private generateApiKey(prefix: string = siteConfig.app.apiKeyPrefix) {
+		const publicId = this.generateRandomString(PUBLIC_ID_LENGTH);
+		const secret = this.generateRandomString(SECRET_LENGTH);
+		const key = `${prefix}_${publicId}.${secret}`;
+
+		return {
+			key,
+			publicId,
+			keyHash: hashApiKey(key),
+			keyPrefix: `${prefix}_${publicId}`,
+		};
 	}
 
 	/**
@@ -41,7 +197,7 @@ export class ApiKeyService {
 			})
 			.from(apiKeys)
 			.leftJoin(users, eq(apiKeys.userId, users.id))
-			.where(eq(apiKeys.userId, userId) && isNull(apiKeys.deletedAt));
+			.where(and(eq(apiKeys.userId, userId), isNull(apiKeys.deletedAt)));
 	}
 
 	/**
@@ -64,25 +220,51 @@ export class ApiKeyService {
 
 	/**
 	 * Creates a new API key for a user.
+	 * The full key is only returned here; only its hash is stored.
 	 * @param userId - The ID of the user
 	 * @param name - The name of the API key
 	 * @param description - Optional description of the API key
 	 * @param expiresIn - Optional expiration time in milliseconds
-	 * @returns The created API key
+	 * @param scopes - Scopes granted to the key; defaults to every scope
+	 * @param allowedIps - Optional IP allow-list
+	 * @param actor - The user creating the key, for the audit log; defaults to the key's owner
+	 * @returns The created API key record and the full key
 	 */
 	async createApiKey({
 		userId,
 		name,
 		description,
 		expiresIn,
+		expiresAt: fixedExpiresAt,
+		scopes = [...API_KEY_SCOPES],
+		allowedIps = [],
+		projectId,
+		rotatedFromId,
+		actor,
 	}: {
 		userId?: string;
 		name?: string;
 		description?: string;
 		expiresIn?: number;
+		expiresAt?: Date | null;
+		scopes?: ApiKeyScope[];
+		allowedIps?: string[];
+		projectId?: string | null;
+		rotatedFromId?: string;
+		actor?: AuditActor | null;
 	}) {
-		const key = this.generateApiKey();
-		let expiresAt = expiresIn ? new Date(Date.now() + expiresIn) : null;
+		const invalidScope = scopes.find((scope) => !API_KEY_SCOPES.includes(scope));
+		if (invalidScope) {
+			ErrorService.throwBadRequest(`Invalid API key scope: ${invalidScope}`);
+		}
+
+		const invalidIp = allowedIps.find((entry) => !isValidIpAllowListEntry(entry));
+		if (invalidIp) {
+			ErrorService.throwBadRequest(`Invalid IP allow-list entry: ${invalidIp}`);
+		}
+
+		const { key, publicId, keyHash, keyPrefix } = this.generateApiKey();
+		let expiresAt = fixedExpiresAt ?? (expiresIn ? new Date(Date.now() + expiresIn) : null);
 
 		if (!userId) {
 			expiresAt = new Date(Date.now() + 1000 * 60 * 60 * 24 * 7); // 7 days
@@ -92,25 +274,54 @@ export class ApiKeyService {
 			(await db
 				?.insert(apiKeys)
 				.values({
-					key,
+					publicId,
+					keyHash,
+					keyPrefix,
+					scopes: JSON.stringify([...new Set(scopes)]),
+					allowedIps:
+						allowedIps.length > 0 ? JSON.stringify(allowedIps.map((ip) => ip.trim())) : null,
 					userId: userId || null,
-					name: name || null,
+					projectId: projectId || null,
+					name: name || "API Key",
 					description: description || null,
+					rotatedFromId: rotatedFromId || null,
 					expiresAt,
 					createdAt: new Date(),
 					updatedAt: new Date(),
-				} as any) // Type assertion to bypass type check
+				})
 				.returning()) || [];
 
-		return apiKey;
+		// Rotations are recorded by rotateApiKey
+		if (apiKey && !rotatedFromId) {
+			await auditService.record({
+				action: "api_key.created",
+				actor: actor ?? (userId ? { id: userId } : null),
+				target: { type: "api_key", id: apiKey.id },
+				after: {
+					name: apiKey.name,
+					keyPrefix: apiKey.keyPrefix,
+					scopes: getApiKeyScopes(apiKey),
+					allowedIps: getApiKeyAllowedIps(apiKey),
+					projectId: apiKey.projectId,
+					expiresAt: apiKey.expiresAt?.toISOString() ?? null,
+				},
+			});
+		}
+
+		return { apiKey, key };
 	}
 
 	/**
 	 * Validates an API key.
 	 * @param key - The API key to validate
+	 * @param options.ip - The client IP, checked against the key's allow-list
+	 * @param options.scope - A scope the key must have
 	 * @returns The API key with its user details if valid
 	 */
-	async validateApiKey(key: string) {
+	async validateApiKey(key: string, options: { ip?: string | null; scope?: ApiKeyScope } = {}) {
+		const parsed = parseApiKey(key);
+		const keyHash = hashApiKey(key);
+
 		const [result] =
 			(await db
 				?.select({
@@ -119,21 +330,98 @@ export class ApiKeyService {
 				})
 				.from(apiKeys)
 				.leftJoin(users, eq(apiKeys.userId, users.id))
-				.where(eq(apiKeys.key, key) && isNull(apiKeys.deletedAt))
+				.where(
+					and(
+						// Legacy keys have no public ID and are looked up by hash
+						parsed ? eq(apiKeys.publicId, parsed.publicId) : eq(apiKeys.keyHash, keyHash),
+						isNull(apiKeys.deletedAt)
+					)
+				)
 				.limit(1)) || [];
 
-		if (!result) {
-			throw new Error("Invalid API key");
+		if (
+			!result ||
+			!crypto.timingSafeEqual(Buffer.from(result.apiKey.keyHash), Buffer.from(keyHash))
+		) {
+			ErrorService.throwUnauthorized("Invalid API key");
 		}
 
 		// Check if key is expired
 		if (result.apiKey.expiresAt && new Date(result.apiKey.expiresAt) < new Date()) {
-			throw new Error("API key has expired");
+			ErrorService.throwUnauthorized("API key has expired");
+		}
+
+		if (!isIpAllowed(options.ip, getApiKeyAllowedIps(result.apiKey))) {
+			ErrorService.throwForbidden("API key is not allowed from this IP address", {
+				apiKeyId: result.apiKey.id,
+			});
 		}
 
+		if (options.scope && !getApiKeyScopes(result.apiKey).includes(options.scope)) {
+			ErrorService.throwForbidden(`API key is missing the ${options.scope} scope`, {
+				apiKeyId: result.apiKey.id,
+			});
+		}
+
+		await this.updateLastUsed(result.apiKey.id);
+
 		return result;
 	}
 
+	/**
+	 * Rotates an API key by issuing a replacement with the same settings.
+	 * The old key keeps working until the overlap window ends.
+	 * @param id - The ID of the API key to rotate
+	 * @param overlapMs - How long the old key stays valid
+	 * @param actor - The user rotating the key, for the audit log; defaults to the key's owner
+	 * @returns The new API key record and the full key
+	 */
+	async rotateApiKey(
+		id: string,
+		overlapMs: number = DEFAULT_ROTATION_OVERLAP_MS,
+		actor?: AuditActor | null
+	) {
+		const existing = await this.findById(id);
+		if (!existing || existing.deletedAt) {
+			ErrorService.throwNotFound("API key not found");
+		}
+
+		const created = await this.createApiKey({
+			userId: existing.userId ?? undefined,
+			projectId: existing.projectId,
+			name: existing.name,
+			description: existing.description ?? undefined,
+			expiresAt: existing.expiresAt,
+			scopes: getApiKeyScopes(existing),
+			allowedIps: getApiKeyAllowedIps(existing),
+			rotatedFromId: existing.id,
+		});
+
+		// Shorten the old key's lifetime to the overlap window
+		const overlapEndsAt = new Date(Date.now() + Math.max(0, overlapMs));
+		const expiresAt =
+			existing.expiresAt && existing.expiresAt < overlapEndsAt ? existing.expiresAt : overlapEndsAt;
+
+		await db
+			?.update(apiKeys)
+			.set({ expiresAt, updatedAt: new Date() })
+			.where(eq(apiKeys.id, existing.id));
+
+		await auditService.record({
+			action: "api_key.rotated",
+			actor: actor ?? (existing.userId ? { id: existing.userId } : null),
+			target: { type: "api_key", id: existing.id },
+			before: {
+				keyPrefix: existing.keyPrefix,
+				expiresAt: existing.expiresAt?.toISOString() ?? null,
+			},
+			after: { keyPrefix: created.apiKey?.keyPrefix ?? null, expiresAt: expiresAt.toISOString() },
+			metadata: { replacementId: created.apiKey?.id ?? null },
+		});
+
+		return created;
+	}
+
 	/**
 	 * Updates the last used timestamp of an API key.
 	 * @param keyId - The ID of the API key
@@ -145,9 +433,10 @@ export class ApiKeyService {
 	/**
 	 * Deletes an API key by ID
 	 * @param id - The ID of the API key to delete
+	 * @param actor - The user deleting the key, for the audit log; defaults to the key's owner
 	 * @returns True if deleted, false if not found
 	 */
-	async delete(id: string) {
+	async delete(id: string, actor?: AuditActor | null) {
 		const [deleted] =
 			(await db
 				?.update(apiKeys)
@@ -157,6 +446,16 @@ export class ApiKeyService {
 				})
 				.where(eq(apiKeys.id, id))
 				.returning()) || [];
+
+		if (deleted) {
+			await auditService.record({
+				action: "api_key.deleted",
+				actor: actor ?? (deleted.userId ? { id: deleted.userId } : null),
+				target: { type: "api_key", id },
+				before: { name: deleted.name, keyPrefix: deleted.keyPrefix },
+			});
+		}
+
 		return !!deleted;
 	}
 }
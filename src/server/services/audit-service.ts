@@ -0,0 +1,196 @@
+/**
+ * @fileoverview Audit log for security-relevant actions
+ * @module server/services/audit-service
+ *
+ * Records who changed what: the actor, the target, a before/after diff and the
+ * IP address and user agent of the request. Entries are append-only.
+ *
+ * Recording an entry never fails the action being audited; errors are logged instead.
+ */
+
+import { and, desc, eq, gte, like, lte, type SQL } from "drizzle-orm";
+import { headers } from "next/headers";
+import { logger } from "@/lib/logger";
+import { db } from "@/server/db";
+import { type AuditLog, auditLogs } from "@/server/db/schema";
+
+export const AUDIT_ACTIONS = [
+	"team.member.added",
+	"team.member.removed",
+	"team.member.role_updated",
+	"team.invitation.created",
+	"team.invitation.revoked",
+	"team.invitation.accepted",
+	"api_key.created",
+	"api_key.rotated",
+	"api_key.deleted",
+	"credits.added",
+	"payments.imported",
+	"payments.deleted",
+	"payments.refunded",
+	"payments.disputed",
+	"plans.synced",
+	"rbac.role.updated",
+	"rbac.role.reset",
+	"user.deleted",
+	"feature_flag.updated",
+	"feature_flag.deleted",
+	"waitlist.invited",
+	"waitlist.imported",
+	"waitlist.exported",
+	"feedback.updated",
+	"feedback.replied",
+	"feedback.merged",
+	"impersonation.started",
+	"impersonation.stopped",
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+/** The user who performed an action; null for system actions */
+export interface AuditActor {
+	id: string;
+	email?: string | null;
+}
+
+export interface AuditEntry {
+	action: AuditAction;
+	actor: AuditActor | null;
+	target: { type: string; id?: string | null };
+	teamId?: string | null;
+	before?: Record<string, unknown> | null;
+	after?: Record<string, unknown> | null;
+	metadata?: Record<string, unknown>;
+	/** Defaults to the IP address and user agent of the current request */
+	request?: { ipAddress?: string | null; userAgent?: string | null };
+}
+
+export interface AuditLogFilters {
+	action?: string;
+	actorId?: string;
+	targetType?: string;
+	teamId?: string;
+	from?: Date;
+	to?: Date;
+	limit?: number;
+	offset?: number;
+}
+
+/**
+ * Builds the diff between two snapshots
+ * Only fields whose values differ are included.
+ */
+export function diffAuditChanges(
+	before?: Record<string, unknown> | null,
+	after?: Record<string, unknown> | null
+): AuditChanges {
+	const changes: AuditChanges = {};
+	const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+	for (const key of keys) {
+		const previous = before?.[key] ?? null;
+		const next = after?.[key] ?? null;
+		if (JSON.stringify(previous) !== JSON.stringify(next)) {
+			changes[key] = { before: previous, after: next };
+		}
+	}
+
+	return changes;
+}
+
+/**
+ * Reads the client IP address and user agent of the current request
+ * Returns nulls outside a request, e.g. in cron jobs and scripts.
+ */
+async function getRequestContext(): Promise<{
+	ipAddress: string | null;
+	userAgent: string | null;
+}> {
+	try {
+		const headerList = await headers();
+		const forwardedFor = headerList.get("x-forwarded-for");
+		return {
+			ipAddress:
+				forwardedFor?.split(",")[0]?.trim() ||
+				headerList.get("x-real-ip") ||
+				headerList.get("cf-connecting-ip") ||
+				null,
+			userAgent: headerList.get("user-agent"),
+		};
+	} catch {
+		return { ipAddress: null, userAgent: null };
+	}
+}
+
+export class AuditService {
+	/**
+	 * Records an audit log entry
+	 * @returns The entry, or null if it could not be stored
+	 */
+	async record(entry: AuditEntry): Promise<AuditLog | null> {
+		if (!db) {
+			return null;
+		}
+
+		try {
+			const request = entry.request ?? (await getRequestContext());
+			const changes =
+				entry.before || entry.after ? diffAuditChanges(entry.before, entry.after) : null;
+
+			const [log] = await db
+				.insert(auditLogs)
+				.values({
+					actorId: entry.actor?.id ?? null,
+					actorEmail: entry.actor?.email ?? null,
+					action: entry.action,
+					targetType: entry.target.type,
+					targetId: entry.target.id ?? null,
+					teamId: entry.teamId ?? null,
+					changes: changes ? JSON.stringify(changes) : null,
+					metadata: entry.metadata ? JSON.stringify(entry.metadata) : null,
+					ipAddress: request.ipAddress ?? null,
+					userAgent: request.userAgent ?? null,
+				})
+				.returning();
+
+			return log ?? null;
+		} catch (error) {
+			logger.error("Failed to record audit log entry", {
+				action: entry.action,
+				targetType: entry.target.type,
+				error: error instanceof Error ? error.message : String(error),
+			});
+			return null;
+		}
+	}
+
+	/**
+	 * Lists audit log entries, newest first
+	 * `action` matches as a prefix, so "team." returns every team action.
+	 */
+	async list(filters: AuditLogFilters = {}): Promise<AuditLog[]> {
+		if (!db) {
+			return [];
+		}
+
+		const conditions: SQL[] = [];
+		if (filters.action) conditions.push(like(auditLogs.action, `${filters.action}%`));
+		if (filters.actorId) conditions.push(eq(auditLogs.actorId, filters.actorId));
+		if (filters.targetType) conditions.push(eq(auditLogs.targetType, filters.targetType));
+		if (filters.teamId) conditions.push(eq(auditLogs.teamId, filters.teamId));
+		if (filters.from) conditions.push(gte(auditLogs.createdAt, filters.from));
+		if (filters.to) conditions.push(lte(auditLogs.createdAt, filters.to));
+
+		return db
+			.select()
+			.from(auditLogs)
+			.where(conditions.length > 0 ? and(...conditions) : undefined)
+			.orderBy(desc(auditLogs.createdAt))
+			.limit(filters.limit ?? 100)
+			.offset(filters.offset ?? 0);
+	}
+}
+
+export const auditService = new AuditService();
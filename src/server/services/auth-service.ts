@@ -1,6 +1,7 @@
 import crypto from "node:crypto";
 import { promisify } from "node:util";
 import { eq } from "drizzle-orm";
+import { BASE_URL } from "@/config/base-url";
 import { routes } from "@/config/routes";
 import { SEARCH_PARAM_KEYS } from "@/config/search-param-keys";
 import { STATUS_CODES } from "@/config/status-codes";
@@ -12,6 +13,7 @@ import { signInSchema } from "@/lib/schemas/auth";
 import { signIn, signOut } from "@/server/auth";
 import { db } from "@/server/db";
 import { users } from "@/server/db/schema";
+import { emailService } from "@/server/services/email-service";
 import { userService } from "@/server/services/user-service";
 import type { User, UserRole } from "@/types/user";
 
@@ -32,6 +34,9 @@ interface AuthOptions {
 	email?: string;
 }
 
+/** How long a password reset link can be used */
+const RESET_PASSWORD_EXPIRES_IN_MINUTES = 60;
+
 // Constants for password hashing
 const SALT_LENGTH = 32;
 const KEY_LENGTH = 64;
@@ -569,15 +574,24 @@ export const AuthService = {
 				return { ok: true };
 			}
 
-			// Call Payload forgotPassword method
-			await payload.forgotPassword({
+			// Payload creates the token; the email is sent from our own template so it is logged
+			const token = await payload.forgotPassword({
 				collection: "users",
 				data: {
 					email,
 				},
+				disableEmail: true,
+				expiration: RESET_PASSWORD_EXPIRES_IN_MINUTES * 60 * 1000,
 			});
 
-			logger.debug(`Password reset email sent to ${email}`);
+			const resetUrl = `${BASE_URL}${routes.auth.resetPassword}?token=${encodeURIComponent(token)}`;
+			const { status } = await emailService.send(
+				"reset-password",
+				{ resetUrl, expiresInMinutes: RESET_PASSWORD_EXPIRES_IN_MINUTES },
+				{ to: email, userId: existingUsers.docs[0] ? String(existingUsers.docs[0].id) : null }
+			);
+
+			logger.debug(`Password reset email ${status} for ${email}`);
 			return { ok: true };
 		} catch (error) {
 			logger.error("Error in forgotPassword:", error);
@@ -0,0 +1,349 @@
+/**
+ * @fileoverview Persisted AI chat conversations
+ * @module server/services/chat-service
+ *
+ * Stores conversations and their messages so users can resume a chat later, with any
+ * model: the full history is sent with each request. Completions are streamed by the
+ * providers in src/server/ai; this service holds their cost in credits and records the reply.
+ */
+
+import { and, asc, desc, eq } from "drizzle-orm";
+import {
+	AI_CONVERSATION_TITLE_LENGTH,
+	AI_HISTORY_MESSAGE_LIMIT,
+	AI_SYSTEM_PROMPT,
+	type AIModel,
+	calculateAICredits,
+} from "@/config/ai";
+import { logger } from "@/lib/logger";
+import {
+	type ChatMessageInput,
+	type ChatUsage,
+	estimateTokens,
+	getChatProvider,
+} from "@/server/ai";
+import { db } from "@/server/db";
+import {
+	type AIConversation,
+	type AIMessage,
+	aiConversations,
+	aiMessages,
+} from "@/server/db/schema";
+import {
+	captureCreditHold,
+	createCreditHold,
+	getCreditBalance,
+	releaseCreditHold,
+} from "./credits";
+import { ErrorService } from "./error-service";
+
+export interface AIConversationWithMessages extends AIConversation {
+	messages: AIMessage[];
+}
+
+/**
+ * Builds a conversation title from its first message
+ */
+export function createConversationTitle(content: string): string {
+	const title = content.replace(/\s+/g, " ").trim();
+	return title.length > AI_CONVERSATION_TITLE_LENGTH
+		? `${title.slice(0, AI_CONVERSATION_TITLE_LENGTH - 1).trimEnd()}…`
+		: title || "New chat";
+}
+
+export class ChatService {
+	/**
+	 * Lists a user's conversations, most recently active first
+	 */
+	async listConversations(userId: string, limit = 50): Promise<AIConversation[]> {
+		if (!db) {
+			return [];
+		}
+
+		return db.query.aiConversations.findMany({
+			where: eq(aiConversations.userId, userId),
+			orderBy: [desc(aiConversations.updatedAt)],
+			limit,
+		});
+	}
+
+	/**
+	 * Gets one of a user's conversations with its messages
+	 * @returns The conversation, or null if it does not exist or belongs to someone else
+	 */
+	async getConversation(
+		userId: string,
+		conversationId: string
+	): Promise<AIConversationWithMessages | null> {
+		if (!db) {
+			return null;
+		}
+
+		const conversation = await db.query.aiConversations.findFirst({
+			where: and(eq(aiConversations.id, conversationId), eq(aiConversations.userId, userId)),
+			with: { messages: { orderBy: [asc(aiMessages.createdAt)] } },
+		});
+		return conversation ?? null;
+	}
+
+	/**
+	 * Records a user message, starting a new conversation if no ID is given
+	 * @returns The conversation and the history to send to the model, ending with the new message
+	 */
+	async addUserMessage({
+		userId,
+		conversationId,
+		content,
+		model,
+	}: {
+		userId: string;
+		conversationId?: string;
+		content: string;
+		model: AIModel;
+	}): Promise<{ conversation: AIConversation; history: ChatMessageInput[] }> {
+		if (!db) {
+			throw new Error("Database not initialized");
+		}
+
+		let conversation: AIConversation | undefined;
+		if (conversationId) {
+			conversation = await db.query.aiConversations.findFirst({
+				where: and(eq(aiConversations.id, conversationId), eq(aiConversations.userId, userId)),
+			});
+			if (!conversation) {
+				ErrorService.throwNotFound("Conversation not found");
+			}
+		} else {
+			[conversation] = await db
+				.insert(aiConversations)
+				.values({ userId, title: createConversationTitle(content), model: model.id })
+				.returning();
+			if (!conversation) {
+				throw new Error("Failed to create conversation");
+			}
+		}
+
+		await db.insert(aiMessages).values({ conversationId: conversation.id, role: "user", content });
+
+		// Latest messages first, so the limit keeps the end of long conversations
+		const messages = await db.query.aiMessages.findMany({
+			where: eq(aiMessages.conversationId, conversation.id),
+			orderBy: [desc(aiMessages.createdAt)],
+			limit: AI_HISTORY_MESSAGE_LIMIT,
+		});
+
+		return {
+			conversation,
+			history: [
+				{ role: "system", content: AI_SYSTEM_PROMPT },
+				...messages.reverse().map((message) => ({
+					role: message.role as ChatMessageInput["role"],
+					content: message.content,
+				})),
+			],
+		};
+	}
+
+	/**
+	 * Records a model's reply and the tokens and credits it used
+	 */
+	async addAssistantMessage({
+		conversationId,
+		content,
+		model,
+		usage,
+		credits,
+	}: {
+		conversationId: string;
+		content: string;
+		model: AIModel;
+		usage: ChatUsage;
+		credits: number;
+	}): Promise<AIMessage> {
+		if (!db) {
+			throw new Error("Database not initialized");
+		}
+
+		const [message] = await db
+			.insert(aiMessages)
+			.values({
+				conversationId,
+				role: "assistant",
+				content,
+				model: model.id,
+				provider: model.provider,
+				inputTokens: usage.inputTokens,
+				outputTokens: usage.outputTokens,
+				credits,
+			})
+			.returning();
+
+		await db
+			.update(aiConversations)
+			.set({ model: model.id, updatedAt: new Date() })
+			.where(eq(aiConversations.id, conversationId));
+
+		if (!message) {
+			throw new Error("Failed to save reply");
+		}
+		return message;
+	}
+
+	/**
+	 * Records a user message and streams the model's reply as plain text
+	 * The most the reply can cost is held before streaming; once the reply is complete its token
+	 * usage is captured from the hold and the reply is saved. A failed reply releases the hold.
+	 * @returns The conversation and the reply stream
+	 * @throws AppError with a CONFLICT code when a paid model has no credits to hold
+	 */
+	async streamReply({
+		userId,
+		conversationId,
+		content,
+		model,
+	}: {
+		userId: string;
+		conversationId?: string;
+		content: string;
+		model: AIModel;
+	}): Promise<{ conversation: AIConversation; stream: ReadableStream<Uint8Array> }> {
+		const provider = getChatProvider(model.provider);
+		if (!provider) {
+			ErrorService.throwBadRequest(`Model ${model.id} is not available`);
+		}
+
+		const isPaid = model.credits.input > 0 || model.credits.output > 0;
+		if (isPaid) {
+			// Fail before the message is saved when there is nothing to hold
+			const { available } = await getCreditBalance(userId);
+			if (available <= 0) {
+				ErrorService.throwConflict("Insufficient credits. Buy more credits to keep chatting.");
+			}
+		}
+
+		const { conversation, history } = await this.addUserMessage({
+			userId,
+			conversationId,
+			content,
+			model,
+		});
+
+		// A token spans at least one character of the prompt, and the reply stops at maxOutputTokens
+		const hold = isPaid
+			? await createCreditHold({
+					userId,
+					amount: calculateAICredits(model, {
+						inputTokens: history.reduce((length, message) => length + message.content.length, 0),
+						outputTokens: model.maxOutputTokens,
+					}),
+					description: `AI chat (${model.name})`,
+					metadata: { conversationId: conversation.id, model: model.id },
+				})
+			: null;
+
+		const encoder = new TextEncoder();
+		const stream = new ReadableStream<Uint8Array>({
+			start: async (controller) => {
+				let reply = "";
+				let usage: ChatUsage | null = null;
+
+				try {
+					for await (const event of provider.streamChat({
+						model: model.id,
+						messages: history,
+						maxOutputTokens: model.maxOutputTokens,
+					})) {
+						if (event.type === "text") {
+							reply += event.text;
+							controller.enqueue(encoder.encode(event.text));
+						} else {
+							usage = event.usage;
+						}
+					}
+				} catch (error) {
+					logger.error("Chat completion failed", {
+						conversationId: conversation.id,
+						model: model.id,
+						error: error instanceof Error ? error.message : String(error),
+					});
+					if (hold) {
+						await releaseCreditHold(hold.id);
+					}
+					controller.enqueue(encoder.encode("Error: The model could not complete the reply"));
+					controller.close();
+					return;
+				}
+				controller.close();
+
+				try {
+					// Some local servers do not report usage
+					usage ??= {
+						inputTokens: estimateTokens(history.map((message) => message.content).join("\n")),
+						outputTokens: estimateTokens(reply),
+					};
+					// The hold is the most the reply can cost, so nothing is charged past it
+					const credits = hold
+						? Math.min(calculateAICredits(model, usage), hold.amount)
+						: calculateAICredits(model, usage);
+
+					// Charge before saving, so a failed save does not make the reply free
+					if (hold && credits > 0) {
+						await captureCreditHold(hold.id, { amount: credits });
+					} else if (hold) {
+						await releaseCreditHold(hold.id);
+					}
+
+					await this.addAssistantMessage({
+						conversationId: conversation.id,
+						content: reply,
+						model,
+						usage,
+						credits,
+					});
+				} catch (error) {
+					logger.error("Failed to record chat reply", {
+						conversationId: conversation.id,
+						model: model.id,
+						usage,
+						error: error instanceof Error ? error.message : String(error),
+					});
+				}
+			},
+		});
+
+		return { conversation, stream };
+	}
+
+	/**
+	 * Renames one of a user's conversations
+	 * @returns True if the conversation was renamed
+	 */
+	async renameConversation(
+		userId: string,
+		conversationId: string,
+		title: string
+	): Promise<boolean> {
+		const [updated] =
+			(await db
+				?.update(aiConversations)
+				.set({ title: createConversationTitle(title) })
+				.where(and(eq(aiConversations.id, conversationId), eq(aiConversations.userId, userId)))
+				.returning({ id: aiConversations.id })) ?? [];
+		return !!updated;
+	}
+
+	/**
+	 * Deletes one of a user's conversations and its messages
+	 * @returns True if the conversation was deleted
+	 */
+	async deleteConversation(userId: string, conversationId: string): Promise<boolean> {
+		const [deleted] =
+			(await db
+				?.delete(aiConversations)
+				.where(and(eq(aiConversations.id, conversationId), eq(aiConversations.userId, userId)))
+				.returning({ id: aiConversations.id })) ?? [];
+		return !!deleted;
+	}
+}
+
+export const chatService = new ChatService();
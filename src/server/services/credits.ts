@@ -1,7 +1,73 @@
-import { eq } from "drizzle-orm";
+/**
+ * @fileoverview Credit ledger
+ * @module server/services/credits
+ *
+ * Every change to a balance is a `credit_transaction`; `user_credit.balance` is a cached
+ * sum of them that `reconcileCreditBalances` recomputes. Grants may expire, in which case the
+ * unspent part is written off with an "expiration" transaction. Holds reserve credits for
+ * in-flight work: held credits cannot be spent until the hold is captured or released.
+ *
+ * Writes lock the user's `user_credit` row, so concurrent spends for one user are serialized.
+ */
+
+import { addDays, addSeconds } from "date-fns";
+import { and, asc, desc, eq, gt, isNotNull, lte, sql } from "drizzle-orm";
+import type { CreditPack } from "@/config/credit-packs";
+import { logger } from "@/lib/logger";
 import { db } from "@/server/db";
-import type { NewCreditTransaction } from "@/server/db/schema";
-import { creditTransactions, userCredits, users } from "@/server/db/schema";
+import type { CreditHold, CreditTransaction, NewCreditTransaction } from "@/server/db/schema";
+import { creditHolds, creditTransactions, userCredits, users } from "@/server/db/schema";
+import { ErrorService } from "./error-service";
+
+type Transaction = Parameters<Parameters<NonNullable<typeof db>["transaction"]>[0]>[0];
+
+/** How long a hold reserves credits unless captured or released */
+export const DEFAULT_HOLD_TTL_SECONDS = 60 * 60;
+
+/**
+ * Prefix of idempotency keys chosen by clients
+ * Keys the server derives (`stripe:<order>`, `hold:<id>`, ...) never start with it, so a client
+ * cannot claim one of them ahead of the server.
+ */
+const CLIENT_IDEMPOTENCY_KEY_PREFIX = "client:";
+
+/** Longest idempotency key a client may send; the column also stores the prefix */
+export const MAX_CLIENT_IDEMPOTENCY_KEY_LENGTH = 255 - CLIENT_IDEMPOTENCY_KEY_PREFIX.length;
+
+/**
+ * Prefix of the keys of deductions that only the server may record, like refund clawbacks
+ * Client keys always carry `CLIENT_IDEMPOTENCY_KEY_PREFIX`, so they can never take one of these.
+ */
+const SYSTEM_IDEMPOTENCY_KEY_PREFIX = "system:";
+
+/**
+ * The idempotency key of the deduction for a refund or dispute of a credit pack order
+ * @param refundKey - Identifies the refund within the order, e.g. the total refunded or the dispute ID
+ */
+export function getCreditRefundIdempotencyKey({
+	processor,
+	orderId,
+	refundKey,
+}: {
+	processor: string;
+	orderId: string;
+	refundKey: string;
+}): string {
+	return `${SYSTEM_IDEMPOTENCY_KEY_PREFIX}refund:${processor}:${orderId}:${refundKey}`;
+}
+
+/**
+ * Moves an idempotency key sent by a client into the client namespace
+ * @throws AppError if the key is longer than `MAX_CLIENT_IDEMPOTENCY_KEY_LENGTH`.
+ */
+export function toClientIdempotencyKey(key: string): string {
+	if (key.length > MAX_CLIENT_IDEMPOTENCY_KEY_LENGTH) {
+		ErrorService.throwBadRequest(
+			`Idempotency key must be at most ${MAX_CLIENT_IDEMPOTENCY_KEY_LENGTH} characters`
+		);
+	}
+	return `${CLIENT_IDEMPOTENCY_KEY_PREFIX}${key}`;
+}
 
 /**
  * Retrieves the credit balance for a specific user.
@@ -23,18 +89,160 @@ export async function getUserCredits(userId: string): Promise<number> {
 	return credits.balance;
 }
 
+/**
+ * Locks the user's credit record for the rest of the transaction, creating it if needed.
+ * @returns The current balance.
+ */
+async function lockCreditAccount(tx: Transaction, userId: string): Promise<number> {
+	const user = await tx.query.users.findFirst({
+		where: eq(users.id, userId),
+		columns: { id: true },
+	});
+	if (!user) {
+		ErrorService.throwNotFound(`User with ID ${userId} not found.`);
+	}
+
+	await tx.insert(userCredits).values({ userId, balance: 0 }).onConflictDoNothing();
+	const [account] = await tx
+		.select({ balance: userCredits.balance })
+		.from(userCredits)
+		.where(eq(userCredits.userId, userId))
+		.for("update");
+
+	if (!account) {
+		throw new Error(`Failed to create credit record for user ${userId}`);
+	}
+	return account.balance;
+}
+
+/**
+ * Writes off the unspent part of the user's expired grants
+ * @returns The balance after expiry.
+ */
+async function expireDueGrants(tx: Transaction, userId: string, balance: number): Promise<number> {
+	const grants = await tx
+		.select()
+		.from(creditTransactions)
+		.where(
+			and(
+				eq(creditTransactions.userId, userId),
+				lte(creditTransactions.expiresAt, new Date()),
+				gt(creditTransactions.remaining, 0)
+			)
+		);
+
+	let newBalance = balance;
+	for (const grant of grants) {
+		const amount = grant.remaining ?? 0;
+		await tx
+			.update(creditTransactions)
+			.set({ remaining: 0 })
+			.where(eq(creditTransactions.id, grant.id));
+		await tx.insert(creditTransactions).values({
+			userId,
+			amount: -amount,
+			type: "expiration",
+			description: `Expired credits from ${grant.description ?? grant.type}`,
+			metadata: JSON.stringify({ grantId: grant.id }),
+			idempotencyKey: `expiration:${grant.id}`,
+		});
+		newBalance -= amount;
+	}
+
+	if (newBalance !== balance) {
+		await tx.update(userCredits).set({ balance: newBalance }).where(eq(userCredits.userId, userId));
+	}
+	return newBalance;
+}
+
+/**
+ * Marks the user's lapsed holds as expired and returns the amount still held
+ */
+async function getHeldAmount(tx: Transaction, userId: string): Promise<number> {
+	await tx
+		.update(creditHolds)
+		.set({ status: "expired", resolvedAt: new Date() })
+		.where(
+			and(
+				eq(creditHolds.userId, userId),
+				eq(creditHolds.status, "held"),
+				lte(creditHolds.expiresAt, new Date())
+			)
+		);
+
+	const [row] = await tx
+		.select({ held: sql<number>`coalesce(sum(${creditHolds.amount}), 0)`.mapWith(Number) })
+		.from(creditHolds)
+		.where(and(eq(creditHolds.userId, userId), eq(creditHolds.status, "held")));
+	return row?.held ?? 0;
+}
+
+/**
+ * Deducts spent credits from expiring grants, soonest expiry first,
+ * so that credits which never expire are used last.
+ */
+async function consumeExpiringGrants(tx: Transaction, userId: string, amount: number) {
+	const grants = await tx
+		.select({ id: creditTransactions.id, remaining: creditTransactions.remaining })
+		.from(creditTransactions)
+		.where(
+			and(
+				eq(creditTransactions.userId, userId),
+				isNotNull(creditTransactions.expiresAt),
+				gt(creditTransactions.remaining, 0)
+			)
+		)
+		.orderBy(asc(creditTransactions.expiresAt));
+
+	let left = amount;
+	for (const grant of grants) {
+		if (left <= 0) break;
+		const used = Math.min(left, grant.remaining ?? 0);
+		await tx
+			.update(creditTransactions)
+			.set({ remaining: (grant.remaining ?? 0) - used })
+			.where(eq(creditTransactions.id, grant.id));
+		left -= used;
+	}
+}
+
+async function findByIdempotencyKey(
+	tx: Transaction,
+	userId: string,
+	idempotencyKey: string
+): Promise<CreditTransaction | undefined> {
+	return tx.query.creditTransactions.findFirst({
+		where: and(
+			eq(creditTransactions.userId, userId),
+			eq(creditTransactions.idempotencyKey, idempotencyKey)
+		),
+	});
+}
+
 interface UpdateCreditsParams {
 	userId: string;
 	amount: number; // Positive for adding, negative for spending
 	type: NewCreditTransaction["type"];
 	description?: string;
 	metadata?: Record<string, unknown>;
+	/**
+	 * Applies the transaction once per key; retries return the original transaction.
+	 * Keys sent by clients must go through `toClientIdempotencyKey`.
+	 */
+	idempotencyKey?: string;
+	/** Grants only: when the unspent part of the grant expires */
+	expiresAt?: Date;
+	/** Usage only: the hold being captured */
+	holdId?: string;
 }
 
 /**
- * Updates a user's credit balance and logs the transaction atomically.
+ * Records a credit transaction and updates the user's balance atomically.
+ * Spending is limited to the available balance: the balance minus credits on hold.
  * @param params - The parameters for updating credits.
- * @throws Error if the user is not found or has insufficient credits for spending.
+ * @returns The recorded transaction, or the original one if the idempotency key was used before.
+ * @throws AppError if the user is not found, has insufficient credits for spending, or the
+ * idempotency key was used for a different type or amount.
  */
 export async function updateUserCredits({
 	userId,
@@ -42,52 +250,459 @@ export async function updateUserCredits({
 	type,
 	description,
 	metadata,
-}: UpdateCreditsParams): Promise<void> {
-	await db?.transaction(async (tx) => {
-		// Ensure the user exists
-		const user = await tx.query.users.findFirst({
-			where: eq(users.id, userId),
-			columns: { id: true },
-		});
-		if (!user) {
-			throw new Error(`User with ID ${userId} not found.`);
-		}
+	idempotencyKey,
+	expiresAt,
+	holdId,
+}: UpdateCreditsParams): Promise<CreditTransaction> {
+	if (!db) {
+		throw new Error("Database not initialized");
+	}
 
-		// Get or create the user's credit record
-		let currentCredits = await tx.query.userCredits.findFirst({
-			where: eq(userCredits.userId, userId),
-		});
+	return db.transaction(async (tx) => {
+		const lockedBalance = await lockCreditAccount(tx, userId);
 
-		if (!currentCredits) {
-			[currentCredits] = await tx.insert(userCredits).values({ userId, balance: 0 }).returning();
-			if (!currentCredits) {
-				// This should ideally not happen if the insert succeeded
-				tx.rollback();
-				throw new Error(`Failed to create credit record for user ${userId}`);
+		if (idempotencyKey) {
+			const existing = await findByIdempotencyKey(tx, userId, idempotencyKey);
+			if (existing) {
+				if (existing.type !== type || existing.amount !== amount) {
+					ErrorService.throwConflict(
+						"Idempotency key was already used for a different transaction"
+					);
+				}
+				return existing;
 			}
 		}
 
-		const currentBalance = currentCredits.balance;
-		const newBalance = currentBalance + amount;
+		const currentBalance = await expireDueGrants(tx, userId, lockedBalance);
+
+		// Resolve the hold first, so the credits it reserved count as available
+		if (holdId) {
+			const [captured] = await tx
+				.update(creditHolds)
+				.set({ status: "captured", resolvedAt: new Date() })
+				.where(
+					and(
+						eq(creditHolds.id, holdId),
+						eq(creditHolds.userId, userId),
+						eq(creditHolds.status, "held"),
+						gt(creditHolds.expiresAt, new Date())
+					)
+				)
+				.returning({ id: creditHolds.id });
+			if (!captured) {
+				ErrorService.throwConflict("Credit hold is no longer active");
+			}
+		}
 
 		// Check for sufficient funds if spending credits
-		if (amount < 0 && newBalance < 0) {
-			tx.rollback();
-			throw new Error(
-				`Insufficient credits. Current balance: ${currentBalance}, trying to spend: ${-amount}`
+		if (amount < 0) {
+			const available = currentBalance - (await getHeldAmount(tx, userId));
+			if (available + amount < 0) {
+				ErrorService.throwConflict(
+					`Insufficient credits. Available balance: ${Math.max(available, 0)}, trying to spend: ${-amount}`
+				);
+			}
+			await consumeExpiringGrants(tx, userId, -amount);
+		}
+
+		await tx
+			.update(userCredits)
+			.set({ balance: currentBalance + amount })
+			.where(eq(userCredits.userId, userId));
+
+		const [transaction] = await tx
+			.insert(creditTransactions)
+			.values({
+				userId,
+				amount,
+				type,
+				description,
+				metadata: metadata ? JSON.stringify(metadata) : undefined,
+				idempotencyKey,
+				holdId,
+				expiresAt: amount > 0 ? expiresAt : undefined,
+				remaining: amount > 0 && expiresAt ? amount : undefined,
+			})
+			.returning();
+
+		if (!transaction) {
+			throw new Error(`Failed to record credit transaction for user ${userId}`);
+		}
+		return transaction;
+	});
+}
+
+export interface CreditBalance {
+	balance: number;
+	held: number;
+	/** What can be spent now: the balance minus credits on hold */
+	available: number;
+	/** Unspent credits from grants that expire, soonest first */
+	expiring: { amount: number; expiresAt: Date }[];
+}
+
+/**
+ * Gets the user's balance with credits on hold and upcoming expiries
+ * @param userId - The ID of the user.
+ */
+export async function getCreditBalance(userId: string): Promise<CreditBalance> {
+	if (!db) {
+		return { balance: 0, held: 0, available: 0, expiring: [] };
+	}
+
+	const now = new Date();
+	const [balance, holds, grants] = await Promise.all([
+		getUserCredits(userId),
+		db.query.creditHolds.findMany({
+			where: and(
+				eq(creditHolds.userId, userId),
+				eq(creditHolds.status, "held"),
+				gt(creditHolds.expiresAt, now)
+			),
+			columns: { amount: true },
+		}),
+		db.query.creditTransactions.findMany({
+			where: and(
+				eq(creditTransactions.userId, userId),
+				gt(creditTransactions.expiresAt, now),
+				gt(creditTransactions.remaining, 0)
+			),
+			orderBy: asc(creditTransactions.expiresAt),
+			columns: { remaining: true, expiresAt: true },
+		}),
+	]);
+
+	const held = holds.reduce((sum, hold) => sum + hold.amount, 0);
+	return {
+		balance,
+		held,
+		available: Math.max(balance - held, 0),
+		expiring: grants.map((grant) => ({
+			amount: grant.remaining ?? 0,
+			expiresAt: grant.expiresAt as Date,
+		})),
+	};
+}
+
+/**
+ * Retrieves the most recent credit transactions for a user.
+ * @param userId - The ID of the user.
+ * @param limit - The maximum number of transactions to return.
+ * @returns The transactions, newest first.
+ */
+export async function getUserCreditTransactions(
+	userId: string,
+	limit = 50
+): Promise<CreditTransaction[]> {
+	return (
+		(await db?.query.creditTransactions.findMany({
+			where: eq(creditTransactions.userId, userId),
+			orderBy: desc(creditTransactions.createdAt),
+			limit,
+		})) ?? []
+	);
+}
+
+interface CreateHoldParams {
+	userId: string;
+	amount: number;
+	/** Seconds until the hold lapses and the credits become available again */
+	ttlSeconds?: number;
+	description?: string;
+	metadata?: Record<string, unknown>;
+	idempotencyKey?: string;
+}
+
+/**
+ * Reserves credits for an in-flight operation.
+ * Capture the hold when the operation finishes, or release it if the operation fails.
+ * @returns The hold, or the original one if the idempotency key was used before.
+ * @throws AppError if the available balance is lower than the amount.
+ */
+export async function createCreditHold({
+	userId,
+	amount,
+	ttlSeconds = DEFAULT_HOLD_TTL_SECONDS,
+	description,
+	metadata,
+	idempotencyKey,
+}: CreateHoldParams): Promise<CreditHold> {
+	if (!db) {
+		throw new Error("Database not initialized");
+	}
+	if (amount <= 0) {
+		ErrorService.throwBadRequest("Amount to hold must be positive.");
+	}
+
+	return db.transaction(async (tx) => {
+		const lockedBalance = await lockCreditAccount(tx, userId);
+
+		if (idempotencyKey) {
+			const existing = await tx.query.creditHolds.findFirst({
+				where: and(eq(creditHolds.userId, userId), eq(creditHolds.idempotencyKey, idempotencyKey)),
+			});
+			if (existing) {
+				return existing;
+			}
+		}
+
+		const balance = await expireDueGrants(tx, userId, lockedBalance);
+		const available = balance - (await getHeldAmount(tx, userId));
+		if (available < amount) {
+			ErrorService.throwConflict(
+				`Insufficient credits. Available balance: ${Math.max(available, 0)}, trying to hold: ${amount}`
 			);
 		}
 
-		// Update user's credit balance
-		await tx.update(userCredits).set({ balance: newBalance }).where(eq(userCredits.userId, userId));
+		const [hold] = await tx
+			.insert(creditHolds)
+			.values({
+				userId,
+				amount,
+				description,
+				metadata: metadata ? JSON.stringify(metadata) : undefined,
+				idempotencyKey,
+				expiresAt: addSeconds(new Date(), ttlSeconds),
+			})
+			.returning();
 
-		// Log the credit transaction
-		await tx.insert(creditTransactions).values({
-			userId,
-			amount,
-			type,
-			description,
-			metadata: metadata ? JSON.stringify(metadata) : undefined,
-		});
+		if (!hold) {
+			throw new Error(`Failed to create credit hold for user ${userId}`);
+		}
+		return hold;
+	});
+}
+
+/**
+ * Spends the credits reserved by a hold.
+ * Capturing a hold twice returns the original transaction.
+ * @param holdId - The ID of the hold.
+ * @param options.amount - Spend less than was held; the rest is released.
+ * @returns The usage transaction.
+ */
+export async function captureCreditHold(
+	holdId: string,
+	options: { amount?: number; description?: string } = {}
+): Promise<CreditTransaction> {
+	const hold = await db?.query.creditHolds.findFirst({ where: eq(creditHolds.id, holdId) });
+	if (!hold) {
+		ErrorService.throwNotFound("Credit hold not found");
+	}
+
+	const existing = await db?.query.creditTransactions.findFirst({
+		where: eq(creditTransactions.holdId, holdId),
+	});
+	if (existing) {
+		return existing;
+	}
+	if (hold.status !== "held" || hold.expiresAt <= new Date()) {
+		ErrorService.throwConflict(
+			`Credit hold is ${hold.status === "held" ? "expired" : hold.status}`
+		);
+	}
+
+	const amount = options.amount ?? hold.amount;
+	if (amount <= 0 || amount > hold.amount) {
+		ErrorService.throwBadRequest(`Capture amount must be between 1 and ${hold.amount}`);
+	}
+
+	return updateUserCredits({
+		userId: hold.userId,
+		amount: -amount,
+		type: "usage",
+		description: options.description ?? hold.description ?? undefined,
+		metadata: hold.metadata ? (JSON.parse(hold.metadata) as Record<string, unknown>) : undefined,
+		idempotencyKey: `hold:${holdId}`,
+		holdId,
+	});
+}
+
+/**
+ * Releases a hold, making its credits available again
+ * @param holdId - The ID of the hold.
+ * @returns True if a pending hold was released.
+ */
+export async function releaseCreditHold(holdId: string): Promise<boolean> {
+	const released = await db
+		?.update(creditHolds)
+		.set({ status: "released", resolvedAt: new Date() })
+		.where(and(eq(creditHolds.id, holdId), eq(creditHolds.status, "held")))
+		.returning({ id: creditHolds.id });
+
+	return (released?.length ?? 0) > 0;
+}
+
+/**
+ * Grants the credits of a purchased credit pack.
+ * Keyed on the order, so webhook retries grant the credits once.
+ */
+export async function grantCreditPackPurchase({
+	userId,
+	pack,
+	orderId,
+	processor,
+}: {
+	userId: string;
+	pack: CreditPack;
+	orderId: string;
+	processor: string;
+}): Promise<CreditTransaction> {
+	const transaction = await updateUserCredits({
+		userId,
+		amount: pack.credits,
+		type: "purchase",
+		description: `${pack.name} credit pack`,
+		metadata: { creditPackId: pack.id, orderId, processor },
+		idempotencyKey: `${processor}:${orderId}`,
+		expiresAt: pack.expiresInDays ? addDays(new Date(), pack.expiresInDays) : undefined,
 	});
+
+	logger.info("Credit pack granted", { userId, packId: pack.id, orderId, processor });
+	return transaction;
+}
+
+/**
+ * Takes back the credits of a refunded or disputed credit pack purchase.
+ * Credits already spent or on hold cannot be taken back, so at most the available balance is
+ * deducted.
+ * @param fraction - The share of the order being refunded, from 0 to 1
+ * @param refundKey - Identifies the refund within the order, so webhook retries deduct once
+ * @returns The deduction, or null if the order granted no credits or none are left to take back
+ */
+export async function revokeCreditPackPurchase({
+	userId,
+	orderId,
+	processor,
+	fraction,
+	refundKey,
+}: {
+	userId: string;
+	orderId: string;
+	processor: string;
+	fraction: number;
+	refundKey: string;
+}): Promise<CreditTransaction | null> {
+	if (!db) {
+		return null;
+	}
+
+	const grant = await db.query.creditTransactions.findFirst({
+		where: and(
+			eq(creditTransactions.userId, userId),
+			eq(creditTransactions.idempotencyKey, `${processor}:${orderId}`)
+		),
+	});
+	if (!grant) {
+		return null;
+	}
+
+	// The amount depends on the balance, so a retry returns the first deduction instead of
+	// recomputing it
+	const idempotencyKey = getCreditRefundIdempotencyKey({ processor, orderId, refundKey });
+	const previous = await db.query.creditTransactions.findFirst({
+		where: and(
+			eq(creditTransactions.userId, userId),
+			eq(creditTransactions.idempotencyKey, idempotencyKey)
+		),
+	});
+	if (previous) {
+		return previous;
+	}
+
+	const { available } = await getCreditBalance(userId);
+	const amount = Math.min(Math.round(grant.amount * Math.min(fraction, 1)), available);
+	if (amount <= 0) {
+		logger.warn("No credits left to take back for refunded order", { userId, orderId, processor });
+		return null;
+	}
+
+	const transaction = await updateUserCredits({
+		userId,
+		amount: -amount,
+		type: "refund",
+		description: `Refunded ${grant.description ?? "credit purchase"}`,
+		metadata: { orderId, processor, grantId: grant.id },
+		idempotencyKey,
+	});
+
+	logger.info("Credit pack revoked", { userId, orderId, processor, amount });
+	return transaction;
+}
+
+/**
+ * Expires lapsed grants and holds for every user
+ * Grants also expire lazily on the next write, so this only keeps balances current for
+ * users who are inactive.
+ */
+export async function expireCredits(): Promise<{ users: number; holds: number }> {
+	if (!db) {
+		return { users: 0, holds: 0 };
+	}
+
+	const now = new Date();
+	const expiredHolds = await db
+		.update(creditHolds)
+		.set({ status: "expired", resolvedAt: now })
+		.where(and(eq(creditHolds.status, "held"), lte(creditHolds.expiresAt, now)))
+		.returning({ id: creditHolds.id });
+
+	const due = await db
+		.selectDistinct({ userId: creditTransactions.userId })
+		.from(creditTransactions)
+		.where(and(lte(creditTransactions.expiresAt, now), gt(creditTransactions.remaining, 0)));
+
+	for (const { userId } of due) {
+		await db.transaction(async (tx) => {
+			const balance = await lockCreditAccount(tx, userId);
+			await expireDueGrants(tx, userId, balance);
+		});
+	}
+
+	return { users: due.length, holds: expiredHolds.length };
+}
+
+/**
+ * Recomputes every cached balance from the ledger and corrects any drift
+ * @returns How many balances were checked and corrected, and the total drift.
+ */
+export async function reconcileCreditBalances(): Promise<{
+	checked: number;
+	corrected: number;
+	drift: number;
+}> {
+	if (!db) {
+		return { checked: 0, corrected: 0, drift: 0 };
+	}
+
+	const accounts = await db.select({ userId: userCredits.userId }).from(userCredits);
+
+	let corrected = 0;
+	let drift = 0;
+	for (const { userId } of accounts) {
+		// Lock the account so a concurrent write cannot land between the sum and the update
+		const difference = await db.transaction(async (tx) => {
+			const balance = await lockCreditAccount(tx, userId);
+			const [row] = await tx
+				.select({
+					ledger: sql<number>`coalesce(sum(${creditTransactions.amount}), 0)`.mapWith(Number),
+				})
+				.from(creditTransactions)
+				.where(eq(creditTransactions.userId, userId));
+			const ledger = row?.ledger ?? 0;
+			if (ledger === balance) {
+				return 0;
+			}
+
+			logger.warn("Credit balance drift corrected", { userId, balance, ledger });
+			await tx.update(userCredits).set({ balance: ledger }).where(eq(userCredits.userId, userId));
+			return ledger - balance;
+		});
+
+		if (difference !== 0) {
+			corrected++;
+			drift += Math.abs(difference);
+		}
+	}
+
+	return { checked: accounts.length, corrected, drift };
 }
@@ -0,0 +1,895 @@
+/**
+ * @fileoverview Deployment orchestrator
+ * @module server/services/deployment-orchestrator
+ *
+ * Runs a deployment as a sequence of persisted steps: create the GitHub repository from
+ * the template, create the Vercel project, upload environment variables, add domains and
+ * start the first deployment. Every step is stored in `deploymentSteps` with its input and
+ * output, so a run that crashed or timed out resumes after the last completed step, a
+ * failed step can be retried on its own, and a canceled deployment rolls back the
+ * repository and project it created.
+ *
+ * Steps record the IDs of the resources they create. A resource that already exists under the
+ * requested name is only adopted when the interrupted attempt created it, and a rollback only
+ * deletes the recorded IDs, so a user's existing repository or project is never taken over.
+ *
+ * Access tokens and environment variable values are never stored. A resumed run has to be
+ * given the values again before it can upload them.
+ */
+
+import { and, asc, eq, inArray, sql } from "drizzle-orm";
+import { createGitHubTemplateService, type GitHubTemplateService } from "@/lib/github-template";
+import { logger } from "@/lib/logger";
+import { createVercelAPIService, type VercelAPIService } from "@/lib/vercel-api";
+import { db } from "@/server/db";
+import { type DeploymentStep, deploymentSteps, deployments } from "@/server/db/schema";
+import { deploymentService } from "@/server/services/deployment-service";
+import { getGitHubAccessToken } from "@/server/services/github/github-token-service";
+import { getVercelAccessToken } from "@/server/services/vercel/vercel-service";
+
+export const DEPLOYMENT_STEP_NAMES = [
+	"create-repo",
+	"create-project",
+	"upload-env",
+	"add-domains",
+	"trigger-deploy",
+] as const;
+export type DeploymentStepName = (typeof DEPLOYMENT_STEP_NAMES)[number];
+
+export type DeploymentStepStatus =
+	| "pending"
+	| "running"
+	| "completed"
+	| "failed"
+	| "skipped"
+	| "rolled_back";
+
+/** Labels for showing the current step to users */
+export const DEPLOYMENT_STEP_LABELS: Record<DeploymentStepName, string> = {
+	"create-repo": "Creating GitHub repository",
+	"create-project": "Creating Vercel project",
+	"upload-env": "Uploading environment variables",
+	"add-domains": "Adding domains",
+	"trigger-deploy": "Starting the first deployment",
+};
+
+/** A step still "running" after this long belongs to a run that crashed or timed out */
+export const DEPLOYMENT_STEP_TIMEOUT_MS = 5 * 60 * 1000;
+
+/** Error recorded on steps that were reset after an interrupted run */
+const STEP_INTERRUPTED = "Interrupted before the step finished";
+
+/** Checks for the deployment Vercel starts for a new Git-connected project */
+const AUTO_DEPLOY_POLL_ATTEMPTS = 5;
+const AUTO_DEPLOY_POLL_INTERVAL_MS = 3000;
+
+/** Fallback status polling for setups without Vercel webhooks */
+const WATCH_POLL_INTERVAL_MS = 3000;
+const WATCH_MAX_POLL_ATTEMPTS = 20; // Poll for up to ~60 seconds
+
+export interface DeploymentPlan {
+	templateRepo: string; // e.g., "shipkit/private-template"
+	projectName: string;
+	description: string;
+	environmentVariables: {
+		key: string;
+		value: string;
+		target: readonly ("production" | "preview" | "development")[];
+	}[];
+	domains: string[];
+}
+
+export interface DeploymentRunOptions {
+	/** Overrides the GitHub token from the user's OAuth connection */
+	githubToken?: string;
+	/** Environment variable values by key; only available to the run that received them */
+	secrets?: Record<string, string>;
+}
+
+export interface DeploymentOutputs {
+	"create-repo"?: { repoId: number; owner: string; name: string; url: string; cloneUrl: string };
+	"create-project"?: { projectId: string; projectUrl: string };
+	"upload-env"?: { uploaded: string[] };
+	"add-domains"?: { domains: string[] };
+	"trigger-deploy"?: { vercelDeploymentId: string | null; url: string | null };
+}
+
+export interface DeploymentRunResult {
+	success: boolean;
+	outputs: DeploymentOutputs;
+	/** True when the deployment was canceled during the run */
+	canceled?: boolean;
+	failedStep?: DeploymentStepName;
+	error?: string;
+	details?: unknown;
+}
+
+/**
+ * A step failure with details for the caller, e.g. that the repository needs a manual import
+ */
+export class DeploymentStepError extends Error {
+	constructor(
+		message: string,
+		readonly details?: Record<string, unknown>
+	) {
+		super(message);
+		this.name = "DeploymentStepError";
+	}
+}
+
+interface StepContext {
+	deploymentId: string;
+	input: Record<string, any>;
+	outputs: DeploymentOutputs;
+	secrets: Record<string, string>;
+	/** When the previous attempt started, if it was interrupted; its resource may already exist */
+	interruptedAt: Date | null;
+	github: GitHubTemplateService;
+	vercel: VercelAPIService;
+}
+
+interface StepDefinition {
+	shouldSkip?: (input: Record<string, any>) => boolean;
+	run: (context: StepContext) => Promise<Record<string, unknown>>;
+	rollback?: (context: StepContext, output: Record<string, any>) => Promise<void>;
+}
+
+const STEP_DEFINITIONS: Record<DeploymentStepName, StepDefinition> = {
+	"create-repo": {
+		async run({ deploymentId, input, interruptedAt, github }) {
+			const [templateOwner, templateRepo] = String(input.templateRepo).split("/");
+			if (!templateOwner || !templateRepo) {
+				throw new DeploymentStepError("Template repository must be in format 'owner/repo-name'");
+			}
+
+			const userInfo = await github.getCurrentUserInfo();
+			if (!userInfo.success || !userInfo.username) {
+				throw new DeploymentStepError(
+					userInfo.error || "Failed to get GitHub user information. Please check your access token."
+				);
+			}
+			const owner = userInfo.username;
+
+			// The interrupted attempt may have created the repository before it could record it
+			const existing = interruptedAt
+				? await github.getRepositoryInfo(owner, input.projectName)
+				: null;
+			const adopted =
+				existing?.success && wasCreatedDuringAttempt(existing.data?.createdAt, interruptedAt)
+					? existing.data
+					: undefined;
+			if (existing?.success && !adopted) {
+				throw new DeploymentStepError(
+					`A GitHub repository named ${owner}/${input.projectName} already exists. Start a new deployment with another project name.`
+				);
+			}
+
+			let repoId = adopted?.id;
+			let url = adopted?.htmlUrl;
+			let cloneUrl = adopted?.cloneUrl;
+
+			if (!repoId) {
+				const result = await github.createFromTemplate({
+					templateOwner,
+					templateRepo,
+					newRepoName: input.projectName,
+					newRepoOwner: owner,
+					description: input.description || `Deployed from ${input.templateRepo} template`,
+					private: false, // Make it public so Vercel can access it
+				});
+				if (!result.success) {
+					throw new DeploymentStepError(result.error || "Failed to create GitHub repository", {
+						details: result.error,
+					});
+				}
+				repoId = result.repoId;
+				url = result.repoUrl ?? "";
+				cloneUrl = result.details?.cloneUrl ?? result.repoUrl ?? "";
+			}
+
+			await deploymentService.updateDeployment(deploymentId, {
+				githubRepoUrl: url,
+				githubRepoName: input.projectName,
+			});
+
+			return { repoId, owner, name: input.projectName, url, cloneUrl: cloneUrl ?? url };
+		},
+		async rollback({ deploymentId, github }, output) {
+			if (!output.repoId) {
+				throw new Error(
+					`The ID of the repository this deployment created was not recorded, so it was not deleted. You can delete ${output.owner}/${output.name} on GitHub.`
+				);
+			}
+			const result = await github.deleteRepository(output.repoId);
+			if (!result.success) {
+				throw new Error(
+					`${result.error} Deleting repositories needs the delete_repo scope; you can delete ${output.owner}/${output.name} on GitHub.`
+				);
+			}
+			await deploymentService.updateDeployment(deploymentId, {
+				githubRepoUrl: null,
+				githubRepoName: null,
+			});
+		},
+	},
+
+	"create-project": {
+		async run({ deploymentId, input, outputs, interruptedAt, vercel }) {
+			const repo = outputs["create-repo"];
+			if (!repo) {
+				throw new DeploymentStepError("The GitHub repository step has not completed");
+			}
+			const gitRepository = { type: "github" as const, repo: `${repo.owner}/${repo.name}` };
+
+			let projectId: string | undefined;
+			let projectUrl: string | undefined;
+
+			// The interrupted attempt may have created the project before it could record it
+			if (interruptedAt) {
+				const existing = await vercel.getProject(input.projectName);
+				if (existing.success && existing.data?.id) {
+					if (!wasCreatedDuringAttempt(existing.data.createdAt, interruptedAt)) {
+						throw new DeploymentStepError(
+							`A Vercel project named ${input.projectName} already exists. Start a new deployment with another project name.`
+						);
+					}
+					projectId = existing.data.id;
+					projectUrl = `https://vercel.com/${existing.data.accountId}/${existing.data.name}`;
+				}
+			}
+
+			if (!projectId) {
+				// First try to create project with git repository
+				let result = await vercel.createProject({
+					name: input.projectName,
+					gitRepository,
+					framework: input.framework,
+				});
+
+				// If that fails, create it without one and connect the repository afterwards
+				if (!result.success) {
+					result = await vercel.createProject({
+						name: input.projectName,
+						framework: input.framework,
+					});
+
+					if (result.success && result.projectId) {
+						const gitConnectResult = await vercel.connectGitRepository(
+							result.projectId,
+							gitRepository
+						);
+						if (!gitConnectResult.success) {
+							// Don't fail the deployment; the repository can be connected in Vercel
+							logger.warn("Failed to connect repository to Vercel project", {
+								deploymentId,
+								error: gitConnectResult.error,
+							});
+						}
+					}
+				}
+
+				if (!result.success || !result.projectId) {
+					throw new DeploymentStepError(
+						result.error ??
+							"Failed to create Vercel project. You can manually import the repository.",
+						{ details: result.error, requiresManualImport: true }
+					);
+				}
+				projectId = result.projectId;
+				projectUrl = result.projectUrl ?? "";
+			}
+
+			// Vercel webhooks find the deployment record by project ID
+			await deploymentService.updateDeployment(deploymentId, {
+				vercelProjectId: projectId,
+				vercelProjectUrl: projectUrl ?? "",
+				vercelDeploymentUrl: `https://${input.projectName}.vercel.app`,
+			});
+
+			return { projectId, projectUrl: projectUrl ?? "" };
+		},
+		async rollback({ deploymentId, vercel }, output) {
+			const result = await vercel.deleteProject(output.projectId);
+			if (!result.success) {
+				throw new Error(result.error);
+			}
+			await deploymentService.updateDeployment(deploymentId, {
+				vercelProjectId: null,
+				vercelProjectUrl: null,
+				vercelDeploymentId: null,
+				vercelDeploymentUrl: null,
+			});
+		},
+	},
+
+	"upload-env": {
+		shouldSkip: (input) => !input.variables?.length,
+		async run({ input, outputs, secrets, vercel }) {
+			const projectId = outputs["create-project"]?.projectId;
+			if (!projectId) {
+				throw new DeploymentStepError("The Vercel project step has not completed");
+			}
+
+			const variables: { key: string; target: ("production" | "preview" | "development")[] }[] =
+				input.variables;
+			const available = variables.filter((variable) => secrets[variable.key] !== undefined);
+			const missing = variables
+				.filter((variable) => secrets[variable.key] === undefined)
+				.map((variable) => variable.key);
+
+			// Values are not stored, so a resumed run has to be given them again
+			if (missing.length > 0) {
+				throw new DeploymentStepError(
+					`Enter the values of ${missing.join(", ")} again to retry the deployment.`,
+					{ missingEnvironmentVariables: missing }
+				);
+			}
+
+			if (available.length > 0) {
+				const result = await vercel.addEnvironmentVariables(
+					projectId,
+					available.map((variable) => ({ ...variable, value: secrets[variable.key] ?? "" }))
+				);
+				const failed = result.results?.filter((item) => !item.success) ?? [];
+				if (!result.success || failed.length > 0) {
+					throw new DeploymentStepError(
+						result.error ??
+							`Failed to upload environment variables: ${failed.map((item) => item.key).join(", ")}`
+					);
+				}
+			}
+
+			return { uploaded: available.map((variable) => variable.key) };
+		},
+	},
+
+	"add-domains": {
+		shouldSkip: (input) => !input.domains?.length,
+		async run({ input, outputs, vercel }) {
+			const projectId = outputs["create-project"]?.projectId;
+			if (!projectId) {
+				throw new DeploymentStepError("The Vercel project step has not completed");
+			}
+
+			const result = await vercel.addDomains(projectId, input.domains);
+			const failed = result.results?.filter((item) => !item.success) ?? [];
+			if (!result.success || failed.length > 0) {
+				throw new DeploymentStepError(
+					result.error ?? `Failed to add domains: ${failed.map((item) => item.domain).join(", ")}`
+				);
+			}
+
+			return { domains: input.domains };
+		},
+	},
+
+	"trigger-deploy": {
+		async run({ deploymentId, input, outputs, vercel }) {
+			const projectId = outputs["create-project"]?.projectId;
+			if (!projectId) {
+				throw new DeploymentStepError("The Vercel project step has not completed");
+			}
+
+			// Vercel starts a deployment for projects created with a Git repository
+			let [latest] = await vercel.getDeployments(projectId, 1);
+			for (let attempt = 1; !latest && attempt < AUTO_DEPLOY_POLL_ATTEMPTS; attempt++) {
+				await new Promise((resolve) => setTimeout(resolve, AUTO_DEPLOY_POLL_INTERVAL_MS));
+				[latest] = await vercel.getDeployments(projectId, 1);
+			}
+
+			let vercelDeploymentId: string | null = latest?.uid ?? latest?.id ?? null;
+			let url: string | null = latest?.url ?? null;
+
+			if (!latest) {
+				const result = await vercel.createDeployment(projectId, input.projectName, "main");
+				if (!result.success) {
+					throw new DeploymentStepError(result.error ?? "Failed to start the deployment");
+				}
+				vercelDeploymentId = result.deploymentId ?? null;
+				url = result.deploymentUrl ?? null;
+			}
+
+			if (vercelDeploymentId) {
+				await deploymentService.updateDeployment(deploymentId, {
+					vercelDeploymentId,
+					...(url ? { vercelDeploymentUrl: `https://${url}` } : {}),
+				});
+			}
+
+			return { vercelDeploymentId, url };
+		},
+	},
+};
+
+/**
+ * Builds the steps of a deployment with their stored inputs
+ * Environment variable values are left out; only their keys and targets are stored.
+ * @param plan - What to deploy
+ */
+export function planDeploymentSteps(plan: DeploymentPlan): {
+	name: DeploymentStepName;
+	position: number;
+	input: Record<string, unknown>;
+}[] {
+	const inputs: Record<DeploymentStepName, Record<string, unknown>> = {
+		"create-repo": {
+			templateRepo: plan.templateRepo,
+			projectName: plan.projectName,
+			description: plan.description,
+		},
+		"create-project": { projectName: plan.projectName, framework: "nextjs" },
+		"upload-env": {
+			variables: plan.environmentVariables.map(({ key, target }) => ({ key, target: [...target] })),
+		},
+		"add-domains": { domains: plan.domains },
+		"trigger-deploy": { projectName: plan.projectName },
+	};
+
+	return DEPLOYMENT_STEP_NAMES.map((name, position) => ({ name, position, input: inputs[name] }));
+}
+
+/**
+ * Finds the steps a resumed run has to reset to "pending": failed steps, and running steps
+ * whose run crashed or timed out
+ * @param steps - The deployment's steps
+ * @param now - The current time
+ */
+export function getStepsToReset(
+	steps: Pick<DeploymentStep, "id" | "status" | "startedAt">[],
+	now = Date.now()
+): { failed: string[]; interrupted: string[] } {
+	return {
+		failed: steps.filter((step) => step.status === "failed").map((step) => step.id),
+		interrupted: steps
+			.filter(
+				(step) =>
+					step.status === "running" &&
+					(!step.startedAt || now - step.startedAt.getTime() >= DEPLOYMENT_STEP_TIMEOUT_MS)
+			)
+			.map((step) => step.id),
+	};
+}
+
+/**
+ * Checks whether a resource found under the requested name was created by an interrupted
+ * attempt, i.e. no earlier than the attempt started
+ * Provider timestamps can be whole seconds, so the attempt's start is rounded down.
+ * @param createdAt - When the provider created the resource, as an ISO date or milliseconds
+ * @param attemptStartedAt - When the interrupted attempt started
+ */
+export function wasCreatedDuringAttempt(
+	createdAt: string | number | null | undefined,
+	attemptStartedAt: Date | null
+): boolean {
+	if (createdAt == null || !attemptStartedAt) {
+		return false;
+	}
+	const created = new Date(createdAt).getTime();
+	return !Number.isNaN(created) && created >= Math.floor(attemptStartedAt.getTime() / 1000) * 1000;
+}
+
+/**
+ * Finds the environment variables a resumed run needs values for: those of an upload step that
+ * has not completed yet
+ * @param steps - The deployment's steps
+ * @param secrets - The values given to the run, by key
+ * @returns The keys without a value
+ */
+export function getMissingEnvironmentVariables(
+	steps: Pick<DeploymentStep, "name" | "status" | "input">[],
+	secrets: Record<string, string> = {}
+): string[] {
+	const step = steps.find((item) => item.name === "upload-env");
+	if (!step || step.status === "completed" || step.status === "skipped") {
+		return [];
+	}
+	const variables: { key: string }[] = parseJson(step.input).variables ?? [];
+	return variables.map((variable) => variable.key).filter((key) => secrets[key] === undefined);
+}
+
+function parseJson(value: string | null): Record<string, any> {
+	try {
+		return value ? JSON.parse(value) : {};
+	} catch {
+		return {};
+	}
+}
+
+function collectOutputs(steps: DeploymentStep[]): DeploymentOutputs {
+	const outputs: Record<string, unknown> = {};
+	for (const step of steps) {
+		if (step.status === "completed" && step.output) {
+			outputs[step.name] = parseJson(step.output);
+		}
+	}
+	return outputs as DeploymentOutputs;
+}
+
+function getErrorMessage(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
+
+export class DeploymentOrchestrator {
+	/**
+	 * Records the steps of a new deployment and runs them
+	 * @param deploymentId - The deployment record, in the "deploying" status
+	 * @param userId - The user whose GitHub and Vercel accounts are used
+	 * @param plan - What to deploy
+	 * @param options - Token override
+	 */
+	async start(
+		deploymentId: string,
+		userId: string,
+		plan: DeploymentPlan,
+		options: Pick<DeploymentRunOptions, "githubToken"> = {}
+	): Promise<DeploymentRunResult> {
+		if (!db) {
+			throw new Error("Database not available");
+		}
+
+		await db
+			.insert(deploymentSteps)
+			.values(
+				planDeploymentSteps(plan).map((step) => ({
+					deploymentId,
+					name: step.name,
+					position: step.position,
+					input: JSON.stringify(step.input),
+				}))
+			)
+			.onConflictDoNothing();
+
+		const secrets = Object.fromEntries(
+			plan.environmentVariables.map((variable) => [variable.key, variable.value])
+		);
+		return this.run(deploymentId, userId, { ...options, secrets });
+	}
+
+	/**
+	 * Resumes a deployment after a crash, a timeout or a failed step
+	 * Failed and interrupted steps are run again; completed steps are not.
+	 * @param deploymentId - The deployment to resume
+	 * @param userId - The deployment's owner
+	 * @param options - Token override, and the environment variable values if they have not been
+	 *   uploaded yet (see getMissingEnvironmentVariables)
+	 */
+	async resume(
+		deploymentId: string,
+		userId: string,
+		options: DeploymentRunOptions = {}
+	): Promise<DeploymentRunResult> {
+		if (!db) {
+			throw new Error("Database not available");
+		}
+
+		const steps = await this.getSteps(deploymentId);
+		if (steps.length === 0) {
+			throw new Error("This deployment has no recorded steps to resume");
+		}
+
+		const { failed, interrupted } = getStepsToReset(steps);
+		if (failed.length > 0) {
+			await db
+				.update(deploymentSteps)
+				.set({ status: "pending", updatedAt: new Date() })
+				.where(inArray(deploymentSteps.id, failed));
+		}
+		if (interrupted.length > 0) {
+			await db
+				.update(deploymentSteps)
+				.set({ status: "pending", error: STEP_INTERRUPTED, updatedAt: new Date() })
+				.where(inArray(deploymentSteps.id, interrupted));
+		}
+
+		await deploymentService.updateDeployment(deploymentId, { status: "deploying", error: null });
+		logger.info("Resuming deployment", { deploymentId, failed, interrupted });
+
+		return this.run(deploymentId, userId, options);
+	}
+
+	/**
+	 * Runs the pending steps of a deployment in order, stopping at the first failure
+	 * If the deployment is canceled during the run, what was created is rolled back.
+	 * @param deploymentId - The deployment to run
+	 * @param userId - The user whose GitHub and Vercel accounts are used
+	 * @param options - Token override and environment variable values
+	 */
+	private async run(
+		deploymentId: string,
+		userId: string,
+		options: DeploymentRunOptions = {}
+	): Promise<DeploymentRunResult> {
+		const steps = await this.getSteps(deploymentId);
+		const outputs = collectOutputs(steps);
+		const tools = await this.getTools(userId, options.githubToken);
+
+		for (const step of steps) {
+			if (step.status === "completed" || step.status === "skipped") {
+				continue;
+			}
+
+			if (await this.isCanceled(deploymentId)) {
+				await this.rollback(deploymentId, userId);
+				return { success: false, canceled: true, outputs };
+			}
+
+			const name = step.name as DeploymentStepName;
+			const definition = STEP_DEFINITIONS[name];
+			const input = parseJson(step.input);
+
+			const claimed = await this.claimStep(step.id);
+			if (!claimed) {
+				return {
+					success: false,
+					outputs,
+					failedStep: name,
+					error: "Another run is already working on this deployment",
+				};
+			}
+
+			if (definition.shouldSkip?.(input)) {
+				await this.finishStep(step.id, "skipped", null);
+				continue;
+			}
+
+			try {
+				const output = await definition.run({
+					deploymentId,
+					input,
+					outputs,
+					secrets: options.secrets ?? {},
+					interruptedAt: step.error === STEP_INTERRUPTED ? step.startedAt : null,
+					...tools,
+				});
+				await this.finishStep(step.id, "completed", output);
+				Object.assign(outputs, { [name]: output });
+				logger.info("Deployment step completed", { deploymentId, step: name });
+			} catch (error) {
+				const message = getErrorMessage(error);
+				await this.finishStep(step.id, "failed", null, message);
+				await deploymentService.updateDeployment(deploymentId, {
+					status: "failed",
+					error: message,
+				});
+				logger.error("Deployment step failed", { deploymentId, step: name, error: message });
+
+				return {
+					success: false,
+					outputs,
+					failedStep: name,
+					error: message,
+					details: error instanceof DeploymentStepError ? error.details : undefined,
+				};
+			}
+		}
+
+		// A cancel that arrived during the last step
+		if (await this.isCanceled(deploymentId)) {
+			await this.rollback(deploymentId, userId);
+			return { success: false, canceled: true, outputs };
+		}
+
+		return { success: true, outputs };
+	}
+
+	/**
+	 * Undoes the completed steps of a deployment, newest first
+	 * Deletes the Vercel project and the GitHub repository. A step whose rollback fails stays
+	 * completed with the error, so the rollback can be tried again.
+	 * @param deploymentId - The deployment to roll back
+	 * @param userId - The deployment's owner
+	 * @returns The rolled back steps and the rollback errors
+	 */
+	async rollback(
+		deploymentId: string,
+		userId: string
+	): Promise<{ rolledBack: DeploymentStepName[]; errors: { step: string; error: string }[] }> {
+		if (!db) {
+			throw new Error("Database not available");
+		}
+
+		const steps = await this.getSteps(deploymentId);
+		const outputs = collectOutputs(steps);
+		const result = {
+			rolledBack: [] as DeploymentStepName[],
+			errors: [] as { step: string; error: string }[],
+		};
+		const completed = steps.filter((step) => step.status === "completed").reverse();
+		if (completed.length === 0) {
+			return result;
+		}
+
+		const tools = await this.getTools(userId);
+
+		for (const step of completed) {
+			const name = step.name as DeploymentStepName;
+
+			// Claim the step so a concurrent rollback does not delete the same resource twice
+			const [claimed] = await db
+				.update(deploymentSteps)
+				.set({ status: "rolled_back", updatedAt: new Date() })
+				.where(and(eq(deploymentSteps.id, step.id), eq(deploymentSteps.status, "completed")))
+				.returning({ id: deploymentSteps.id });
+			if (!claimed) {
+				continue;
+			}
+
+			const rollback = STEP_DEFINITIONS[name].rollback;
+			if (!rollback) {
+				result.rolledBack.push(name);
+				continue;
+			}
+
+			try {
+				await rollback(
+					{
+						deploymentId,
+						input: parseJson(step.input),
+						outputs,
+						secrets: {},
+						interruptedAt: null,
+						...tools,
+					},
+					parseJson(step.output)
+				);
+				result.rolledBack.push(name);
+			} catch (error) {
+				const message = getErrorMessage(error);
+				await db
+					.update(deploymentSteps)
+					.set({ status: "completed", error: `Rollback failed: ${message}`, updatedAt: new Date() })
+					.where(eq(deploymentSteps.id, step.id));
+				result.errors.push({ step: name, error: message });
+			}
+		}
+
+		logger.info("Deployment rolled back", { deploymentId, ...result });
+		return result;
+	}
+
+	/**
+	 * Polls Vercel until the first deployment finishes, for setups without Vercel webhooks
+	 * @param deploymentId - The deployment record
+	 * @param userId - The deployment's owner
+	 */
+	async watchDeployment(deploymentId: string, userId: string): Promise<void> {
+		const outputs = collectOutputs(await this.getSteps(deploymentId));
+		const project = outputs["create-project"];
+		if (!project) {
+			return;
+		}
+
+		const { vercel } = await this.getTools(userId);
+
+		for (let attempt = 1; attempt <= WATCH_MAX_POLL_ATTEMPTS; attempt++) {
+			await new Promise((resolve) => setTimeout(resolve, WATCH_POLL_INTERVAL_MS));
+
+			const current = await deploymentService.getUserDeployment(userId, deploymentId);
+			if (!current || current.status !== "deploying") {
+				// Finished, canceled, or updated by a webhook
+				return;
+			}
+
+			try {
+				const projectInfo = await vercel.getProject(project.projectId);
+				const latestDeployment = projectInfo.success
+					? projectInfo.data?.latestDeployments?.[0]
+					: undefined;
+
+				if (latestDeployment && ["READY", "ERROR", "CANCELED"].includes(latestDeployment.state)) {
+					await deploymentService.updateDeployment(deploymentId, {
+						status: latestDeployment.state === "READY" ? "completed" : "failed",
+						vercelDeploymentUrl: latestDeployment.url
+							? `https://${latestDeployment.url}`
+							: current.vercelDeploymentUrl,
+						error: latestDeployment.state === "ERROR" ? "Vercel deployment failed" : null,
+					});
+					return;
+				}
+			} catch (error) {
+				// Poll attempt failed, will retry
+				logger.warn("Deployment poll attempt failed", { deploymentId, attempt, error });
+			}
+		}
+
+		// Vercel webhooks or the stale deployment job settle the status from here
+		logger.info("Stopped polling deployment status", { deploymentId });
+	}
+
+	/**
+	 * Gets the steps of a deployment in order
+	 * @param deploymentId - The deployment ID
+	 */
+	async getSteps(deploymentId: string): Promise<DeploymentStep[]> {
+		if (!db) {
+			return [];
+		}
+
+		return db
+			.select()
+			.from(deploymentSteps)
+			.where(eq(deploymentSteps.deploymentId, deploymentId))
+			.orderBy(asc(deploymentSteps.position));
+	}
+
+	private async getTools(
+		userId: string,
+		githubTokenOverride?: string
+	): Promise<Pick<StepContext, "github" | "vercel">> {
+		const [githubToken, vercelToken] = await Promise.all([
+			githubTokenOverride ?? getGitHubAccessToken(userId),
+			getVercelAccessToken(userId),
+		]);
+
+		if (!githubToken) {
+			throw new Error("GitHub account not connected. Please connect your GitHub account first.");
+		}
+		if (!vercelToken) {
+			throw new Error(
+				"Vercel account not connected. Please connect your Vercel account in Settings first."
+			);
+		}
+
+		return {
+			github: createGitHubTemplateService(githubToken),
+			vercel: createVercelAPIService(vercelToken),
+		};
+	}
+
+	private async isCanceled(deploymentId: string): Promise<boolean> {
+		if (!db) {
+			return false;
+		}
+
+		const [deployment] = await db
+			.select({ status: deployments.status })
+			.from(deployments)
+			.where(eq(deployments.id, deploymentId))
+			.limit(1);
+
+		return deployment?.status !== "deploying";
+	}
+
+	private async claimStep(id: string): Promise<boolean> {
+		if (!db) {
+			throw new Error("Database not available");
+		}
+
+		const [claimed] = await db
+			.update(deploymentSteps)
+			.set({
+				status: "running",
+				attempts: sql`${deploymentSteps.attempts} + 1`,
+				startedAt: new Date(),
+				updatedAt: new Date(),
+			})
+			.where(and(eq(deploymentSteps.id, id), eq(deploymentSteps.status, "pending")))
+			.returning({ id: deploymentSteps.id });
+
+		return Boolean(claimed);
+	}
+
+	private async finishStep(
+		id: string,
+		status: DeploymentStepStatus,
+		output: Record<string, unknown> | null,
+		error: string | null = null
+	): Promise<void> {
+		if (!db) {
+			throw new Error("Database not available");
+		}
+
+		await db
+			.update(deploymentSteps)
+			.set({
+				status,
+				output: output ? JSON.stringify(output) : null,
+				error,
+				completedAt: status === "failed" ? null : new Date(),
+				updatedAt: new Date(),
+			})
+			.where(eq(deploymentSteps.id, id));
+	}
+}
+
+export const deploymentOrchestrator = new DeploymentOrchestrator();
@@ -0,0 +1,171 @@
+import { and, desc, eq, gt, lt, sql } from "drizzle-orm";
+import { db } from "@/server/db";
+import { type Deployment, deployments } from "@/server/db/schema";
+
+/** Deployments left in "deploying" without an update for longer than this are marked as timed out */
+export const STALE_DEPLOYMENT_THRESHOLD_MS = 10 * 60 * 1000; // 10 minutes
+
+export type DeploymentUpdate = Partial<Omit<Deployment, "id" | "userId" | "createdAt">>;
+
+/**
+ * Read access to deployment records for a given user, and the system-side updates
+ * made by Vercel webhooks and the stale deployment job.
+ * Unlike the deployment server actions, these methods take the user ID explicitly,
+ * so they can be used outside a browser session (e.g. by the REST API).
+ */
+export class DeploymentService {
+	/**
+	 * Gets all deployments for a user, newest first.
+	 * @param userId - The ID of the user
+	 * @returns The user's deployments, or an empty list if the database is not available
+	 */
+	async getUserDeployments(userId: string): Promise<Deployment[]> {
+		if (!db) {
+			return [];
+		}
+
+		return db
+			.select()
+			.from(deployments)
+			.where(eq(deployments.userId, userId))
+			.orderBy(desc(deployments.createdAt));
+	}
+
+	/**
+	 * Gets a single deployment owned by a user.
+	 * @param userId - The ID of the user
+	 * @param deploymentId - The ID of the deployment
+	 * @returns The deployment, or null if it does not exist or belongs to another user
+	 */
+	async getUserDeployment(userId: string, deploymentId: string): Promise<Deployment | null> {
+		if (!db) {
+			return null;
+		}
+
+		const [deployment] = await db
+			.select()
+			.from(deployments)
+			.where(and(eq(deployments.id, deploymentId), eq(deployments.userId, userId)))
+			.limit(1);
+
+		return deployment ?? null;
+	}
+
+	/**
+	 * Gets a user's deployments that changed after a point in time, oldest change first.
+	 * Used by the deployment status stream to send only what changed.
+	 * @param userId - The ID of the user
+	 * @param since - Only deployments updated after this time are returned
+	 */
+	async getUserDeploymentsUpdatedSince(userId: string, since: Date): Promise<Deployment[]> {
+		if (!db) {
+			return [];
+		}
+
+		return db
+			.select()
+			.from(deployments)
+			.where(and(eq(deployments.userId, userId), gt(deployments.updatedAt, since)))
+			.orderBy(deployments.updatedAt);
+	}
+
+	/**
+	 * Gets the most recent deployment record linked to a Vercel project.
+	 * @param vercelProjectId - The Vercel project ID
+	 * @returns The deployment, or null if no deployment created that project
+	 */
+	async getDeploymentByVercelProject(vercelProjectId: string): Promise<Deployment | null> {
+		if (!db) {
+			return null;
+		}
+
+		const [deployment] = await db
+			.select()
+			.from(deployments)
+			.where(eq(deployments.vercelProjectId, vercelProjectId))
+			.orderBy(desc(deployments.createdAt))
+			.limit(1);
+
+		return deployment ?? null;
+	}
+
+	/**
+	 * Updates a deployment without an ownership check, for webhooks and background jobs.
+	 * @param id - The deployment ID
+	 * @param data - The fields to update
+	 * @returns The updated deployment, or null if it does not exist
+	 */
+	async updateDeployment(id: string, data: DeploymentUpdate): Promise<Deployment | null> {
+		if (!db) {
+			throw new Error("Database not available");
+		}
+
+		const [deployment] = await db
+			.update(deployments)
+			.set({ ...data, updatedAt: new Date() })
+			.where(eq(deployments.id, id))
+			.returning();
+
+		return deployment ?? null;
+	}
+
+	/**
+	 * Unlinks deployments from a Vercel project that was deleted.
+	 * Deployments that were still in progress are marked as failed.
+	 * @param vercelProjectId - The deleted Vercel project's ID
+	 * @returns The updated deployments
+	 */
+	async detachVercelProject(vercelProjectId: string): Promise<Deployment[]> {
+		if (!db) {
+			throw new Error("Database not available");
+		}
+
+		return db
+			.update(deployments)
+			.set({
+				status: sql`case when ${deployments.status} = 'deploying' then 'failed' else ${deployments.status} end`,
+				error: "The Vercel project was deleted",
+				vercelProjectId: null,
+				vercelProjectUrl: null,
+				vercelDeploymentId: null,
+				vercelDeploymentUrl: null,
+				updatedAt: new Date(),
+			})
+			.where(eq(deployments.vercelProjectId, vercelProjectId))
+			.returning();
+	}
+
+	/**
+	 * Marks deployments stuck in "deploying" for longer than the threshold as timed out.
+	 * The threshold counts from the last update, so a redeploy reported by a webhook gets
+	 * the full time again.
+	 * @param userId - Only check this user's deployments; all users when omitted
+	 * @returns The deployments that were marked as timed out
+	 */
+	async markStaleDeployments(userId?: string): Promise<Deployment[]> {
+		if (!db) {
+			return [];
+		}
+
+		const staleThreshold = new Date(Date.now() - STALE_DEPLOYMENT_THRESHOLD_MS);
+
+		return db
+			.update(deployments)
+			.set({
+				status: "timeout",
+				error:
+					"Deployment timed out - the deployment process did not complete in the expected time",
+				updatedAt: new Date(),
+			})
+			.where(
+				and(
+					userId ? eq(deployments.userId, userId) : undefined,
+					eq(deployments.status, "deploying"),
+					lt(deployments.updatedAt, staleThreshold)
+				)
+			)
+			.returning();
+	}
+}
+
+export const deploymentService = new DeploymentService();
@@ -1,25 +1,43 @@
-import { readdir, readFile } from "fs/promises";
-import matter from "gray-matter";
-import { join } from "path";
+import { openai } from "@/lib/open-ai";
+import { logger } from "@/lib/logger";
+import {
+	buildDocsIndex,
+	type DocSource,
+	DocsSearchIndex,
+	embedTexts,
+	type RankedDocChunk,
+	readDocsIndex,
+} from "@/server/docs-search";
 
 export interface DocSearchResult {
 	title: string;
 	content: string;
 	url: string;
+	section?: string;
 }
 
+/**
+ * A docs excerpt given to the AI answer as a numbered source
+ */
+export interface DocCitation {
+	/** 1-based number the answer cites the excerpt by, e.g. [1] */
+	id: number;
+	title: string;
+	section?: string;
+	url: string;
+	source: DocSource;
+	snippet: string;
+}
+
+/** Longest excerpt sent to the model per citation */
+const CITATION_LENGTH = 800;
+
 export class DocsSearchService {
 	private static instance: DocsSearchService;
-	private docsCache: Map<string, { content: string; metadata: any }> = new Map<
-		string,
-		{ content: string; metadata: any }
-	>();
-	private initialized = false;
-
-	private constructor() {
-		this.docsCache = new Map<string, { content: string; metadata: any }>();
-		this.initialized = false;
-	}
+	private index: DocsSearchIndex | null = null;
+	private loading: Promise<DocsSearchIndex> | null = null;
+
+	private constructor() {}
 
 	public static getInstance(): DocsSearchService {
 		if (!DocsSearchService.instance) {
@@ -28,109 +46,95 @@ export class DocsSearchService {
 		return DocsSearchService.instance;
 	}
 
-	private async initialize() {
-		if (this.initialized) return;
-
-		// Load docs from root /docs directory
-		const rootDocsDir = join(process.cwd(), "docs");
-		await this.loadDocFiles(rootDocsDir, "");
-
-		this.initialized = true;
+	/**
+	 * Loads the index built at build time, or builds a BM25-only index from the docs on disk
+	 * (e.g. in development, where `next build` has not run)
+	 */
+	private async initialize(): Promise<DocsSearchIndex> {
+		if (this.index) return this.index;
+
+		this.loading ??= (async () => {
+			const stored = await readDocsIndex();
+			if (!stored) {
+				logger.info("Docs index not found, indexing docs at runtime");
+			}
+			const index = new DocsSearchIndex(stored ?? (await buildDocsIndex()));
+			this.index = index;
+			return index;
+		})().finally(() => {
+			this.loading = null;
+		});
+
+		return this.loading;
 	}
 
-	private async loadDocFiles(dir: string, baseReplacePath = "") {
+	/**
+	 * Embeds the query when the index has embeddings and OpenAI is configured
+	 */
+	private async embedQuery(index: DocsSearchIndex, query: string): Promise<number[] | null> {
+		if (!index.embeddingModel || !openai) {
+			return null;
+		}
 		try {
-			const entries = await readdir(dir, { withFileTypes: true });
-
-			for (const entry of entries) {
-				const fullPath = join(dir, entry.name);
-
-				if (entry.isDirectory()) {
-					await this.loadDocFiles(fullPath, baseReplacePath);
-				} else if (entry.name.endsWith(".mdx") || entry.name.endsWith(".md")) {
-					const content = await readFile(fullPath, "utf-8");
-					const { data, content: mdContent } = matter(content);
-
-					let relativePath: string;
-					if (baseReplacePath) {
-						// Legacy path processing
-						relativePath = fullPath
-							.replace(process.cwd(), "")
-							.replace(baseReplacePath, "")
-							.replace(/\.(mdx?|md)$/, "")
-							.replace(/^\/+/, "");
-					} else {
-						// Root docs path processing
-						relativePath = fullPath
-							.replace(join(process.cwd(), "docs"), "")
-							.replace(/\.(mdx?|md)$/, "")
-							.replace(/^\/+/, "");
-					}
-
-					// Avoid duplicates - prefer root docs over legacy
-					if (!this.docsCache.has(relativePath)) {
-						this.docsCache.set(relativePath, {
-							content: mdContent,
-							metadata: data,
-						});
-					}
-				}
-			}
+			const [embedding] = await embedTexts(openai, [query]);
+			return embedding ?? null;
 		} catch (error) {
-			console.warn(`Warning: Could not load docs from ${dir}:`, error);
+			logger.warn("Failed to embed docs query, falling back to keyword search", error);
+			return null;
 		}
 	}
 
-	public async search(query: string, limit = 5): Promise<DocSearchResult[]> {
-		await this.initialize();
-
-		const results: DocSearchResult[] = [];
-		const searchTerms = query.toLowerCase().split(" ");
-
-		for (const [path, { content, metadata }] of this.docsCache.entries()) {
-			const contentLower = content.toLowerCase();
-			const titleLower = (metadata.title ?? "").toLowerCase();
-
-			// Simple relevance scoring
-			let score = 0;
-			for (const term of searchTerms) {
-				if (titleLower.includes(term)) score += 2;
-				if (contentLower.includes(term)) score += 1;
-			}
-
-			if (score > 0) {
-				results.push({
-					title: metadata.title ?? path,
-					content: this.extractRelevantSnippet(content, query),
-					url: `/docs/${path}`,
-				});
-			}
-		}
-
-		// Sort by relevance and limit results
-		return results
-			.sort((a, b) => {
-				const scoreA = searchTerms.reduce(
-					(acc, term) =>
-						acc +
-						(a.title.toLowerCase().includes(term) ? 2 : 0) +
-						(a.content.toLowerCase().includes(term) ? 1 : 0),
-					0
-				);
-				const scoreB = searchTerms.reduce(
-					(acc, term) =>
-						acc +
-						(b.title.toLowerCase().includes(term) ? 2 : 0) +
-						(b.content.toLowerCase().includes(term) ? 1 : 0),
-					0
-				);
-				return scoreB - scoreA;
+	/**
+	 * Ranks chunks for a query, keeping the best chunk of each section
+	 */
+	private async rank(query: string, limit: number): Promise<RankedDocChunk[]> {
+		const index = await this.initialize();
+		const queryEmbedding = await this.embedQuery(index, query);
+
+		const seen = new Set<string>();
+		return index
+			.search(query, limit * 3, queryEmbedding)
+			.filter(({ chunk }) => {
+				if (seen.has(chunk.url)) return false;
+				seen.add(chunk.url);
+				return true;
 			})
 			.slice(0, limit);
 	}
 
+	public async search(query: string, limit = 5): Promise<DocSearchResult[]> {
+		const ranked = await this.rank(query, limit);
+		return ranked.map(({ chunk }) => ({
+			title: chunk.title,
+			section: chunk.section,
+			content: this.extractRelevantSnippet(chunk.text, query),
+			url: chunk.url,
+		}));
+	}
+
+	/**
+	 * Finds numbered excerpts to ground an AI answer in
+	 */
+	public async getCitations(query: string, limit = 5): Promise<DocCitation[]> {
+		const ranked = await this.rank(query, limit);
+		return ranked.map(({ chunk }, index) => ({
+			id: index + 1,
+			title: chunk.title,
+			section: chunk.section,
+			url: chunk.url,
+			source: chunk.source,
+			snippet:
+				chunk.text.length > CITATION_LENGTH
+					? `${chunk.text.slice(0, CITATION_LENGTH).trimEnd()}...`
+					: chunk.text,
+		}));
+	}
+
 	private extractRelevantSnippet(content: string, query: string): string {
-		const searchTerms = query.toLowerCase().split(" ");
+		const searchTerms = query
+			.toLowerCase()
+			.split(/\s+/)
+			.filter((term) => term.length > 2);
 		const contentLower = content.toLowerCase();
 
 		// Find the first occurrence of any search term
@@ -144,7 +148,7 @@ export class DocsSearchService {
 		}
 
 		if (startIndex === -1) {
-			return `${content.slice(0, 150)}...`;
+			return content.length > 150 ? `${content.slice(0, 150)}...` : content;
 		}
 
 		// Extract a snippet around the match
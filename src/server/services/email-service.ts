@@ -0,0 +1,148 @@
+/**
+ * @fileoverview Transactional email
+ * @module server/services/email-service
+ *
+ * Renders a template from the registry in src/server/email, delivers it through Resend,
+ * or the local outbox when RESEND_API_KEY is not set, and records the attempt in the
+ * `email_log` table so support can tell whether an email went out.
+ *
+ * Sending never throws: a failed delivery is logged and reported in the result, so
+ * callers decide whether a missing email should fail their action.
+ */
+
+import { and, desc, eq, ilike, type SQL } from "drizzle-orm";
+import { RESEND_FROM_EMAIL } from "@/config/constants";
+import { siteConfig } from "@/config/site-config";
+import { logger } from "@/lib/logger";
+import { db } from "@/server/db";
+import { type EmailLog, emailLogs } from "@/server/db/schema";
+import {
+	type EmailTemplateName,
+	type EmailTemplateProps,
+	type EmailTransport,
+	getEmailTransport,
+	renderEmail,
+} from "@/server/email";
+
+export type EmailStatus = "sent" | "failed";
+
+export interface SendEmailOptions {
+	to: string;
+	/** Links the log entry to a user, so it shows up when looking them up */
+	userId?: string | null;
+	replyTo?: string;
+	/** Stored in the log; never put secrets such as tokens here */
+	metadata?: Record<string, unknown>;
+}
+
+export interface SendEmailResult {
+	status: EmailStatus;
+	/** The `email_log` entry, or null when the database is unavailable */
+	logId: string | null;
+	messageId: string | null;
+	error?: string;
+}
+
+export interface EmailLogFilters {
+	/** Matches part of the recipient address */
+	to?: string;
+	template?: string;
+	status?: string;
+	userId?: string;
+	limit?: number;
+}
+
+export const EMAIL_FROM = `🍱 ${siteConfig.title} <${RESEND_FROM_EMAIL}>`;
+
+export class EmailService {
+	constructor(private readonly getTransport: () => EmailTransport = getEmailTransport) {}
+
+	/**
+	 * Renders and sends a template
+	 * @example
+	 * await emailService.send("welcome", { name, dashboardUrl }, { to: user.email, userId: user.id });
+	 */
+	async send<T extends EmailTemplateName>(
+		template: T,
+		props: EmailTemplateProps<T>,
+		options: SendEmailOptions
+	): Promise<SendEmailResult> {
+		const transport = this.getTransport();
+		let subject: string = template;
+		let result: Omit<SendEmailResult, "logId">;
+
+		try {
+			const rendered = await renderEmail(template, props);
+			subject = rendered.subject;
+			const { messageId } = await transport.send({
+				...rendered,
+				from: EMAIL_FROM,
+				to: options.to,
+				replyTo: options.replyTo,
+				template,
+			});
+			result = { status: "sent", messageId };
+			logger.info("Email sent", { template, transport: transport.id, messageId });
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			result = { status: "failed", messageId: null, error: message };
+			logger.error("Failed to send email", { template, transport: transport.id, error: message });
+		}
+
+		const logId = await this.record({
+			template,
+			to: options.to,
+			subject,
+			userId: options.userId ?? null,
+			status: result.status,
+			transport: transport.id,
+			messageId: result.messageId,
+			error: result.error ?? null,
+			metadata: options.metadata ? JSON.stringify(options.metadata) : null,
+		});
+
+		return { ...result, logId };
+	}
+
+	/**
+	 * Lists sent and failed emails, newest first
+	 */
+	async listLogs(filters: EmailLogFilters = {}): Promise<EmailLog[]> {
+		if (!db) {
+			return [];
+		}
+
+		const conditions: SQL[] = [];
+		if (filters.to) conditions.push(ilike(emailLogs.to, `%${filters.to.trim()}%`));
+		if (filters.template) conditions.push(eq(emailLogs.template, filters.template));
+		if (filters.status) conditions.push(eq(emailLogs.status, filters.status));
+		if (filters.userId) conditions.push(eq(emailLogs.userId, filters.userId));
+
+		return db
+			.select()
+			.from(emailLogs)
+			.where(conditions.length > 0 ? and(...conditions) : undefined)
+			.orderBy(desc(emailLogs.createdAt))
+			.limit(filters.limit ?? 100);
+	}
+
+	private async record(entry: Omit<EmailLog, "id" | "createdAt">): Promise<string | null> {
+		if (!db) {
+			return null;
+		}
+
+		try {
+			const [log] = await db.insert(emailLogs).values(entry).returning({ id: emailLogs.id });
+			return log?.id ?? null;
+		} catch (error) {
+			// The email itself may have gone out, so a logging failure is not a send failure
+			logger.error("Failed to record email log entry", {
+				template: entry.template,
+				error: error instanceof Error ? error.message : String(error),
+			});
+			return null;
+		}
+	}
+}
+
+export const emailService = new EmailService();
@@ -0,0 +1,332 @@
+/**
+ * @fileoverview Plan entitlements: features and usage limits
+ * @module server/services/entitlement-service
+ *
+ * Answers "can this user or team use a feature?" and "how much of a limit is left?" from the
+ * plan they are on. Plans, their features and their limits are configured in
+ * `@/config/entitlements`.
+ *
+ * - A user's plan comes from their active subscription, or a paid one-time order, matched on the
+ *   products each plan lists, then on the name of the synced `plans` row or the order's product
+ * - A team has the best plan among its owners
+ * - Limits are counted live: projects and seats per team, deployments per calendar month,
+ *   and storage used by files and uploads in progress
+ *
+ * @see SubscriptionService - Local record of subscriptions written by the provider webhooks
+ */
+
+import { and, count, eq, gte, inArray, or } from "drizzle-orm";
+import {
+	DEFAULT_PAID_PLAN_ID,
+	ENTITLEMENT_FEATURES,
+	ENTITLEMENT_LIMITS,
+	type EntitlementFeature,
+	type EntitlementLimit,
+	type EntitlementPlan,
+	FREE_PLAN_ID,
+	findEntitlementPlanByName,
+	findEntitlementPlanByProduct,
+	getEntitlementPlan,
+	getEntitlementPlanRank,
+} from "@/config/entitlements";
+import { safeDbExecute } from "@/server/db";
+import {
+	deployments,
+	payments,
+	plans,
+	projects,
+	type Subscription,
+	teamMembers,
+} from "@/server/db/schema";
+import { ErrorService } from "./error-service";
+import { SubscriptionService } from "./subscription-service";
+
+/** Whose plan a check is made against */
+export type EntitlementSubject = { userId: string } | { teamId: string };
+
+export interface LimitUsage {
+	/** null means unlimited */
+	limit: number | null;
+	used: number;
+	/** null means unlimited */
+	remaining: number | null;
+}
+
+/**
+ * Everything a subject is entitled to, for the `useEntitlements` hook
+ */
+export interface EntitlementSummary {
+	plan: { id: string; name: string };
+	features: Record<EntitlementFeature, boolean>;
+	limits: Record<EntitlementLimit, LimitUsage>;
+}
+
+const PAID_PAYMENT_STATUSES = ["paid", "completed", "partially_refunded"];
+
+const LIMIT_LABELS: Record<EntitlementLimit, string> = {
+	projectsPerTeam: "projects per team",
+	seats: "team members",
+	deploymentsPerMonth: "deployments per month",
+	storageBytes: "bytes of storage",
+};
+
+/**
+ * How much of a limit is left after some usage
+ * @returns The remaining amount, or null for unlimited
+ */
+export function getRemaining(limit: number | null, used: number): number | null {
+	return limit === null ? null : Math.max(limit - used, 0);
+}
+
+const startOfMonth = (date = new Date()) =>
+	new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+
+export class EntitlementService {
+	/**
+	 * Gets the plan a user or team is on
+	 */
+	async getPlan(subject: EntitlementSubject): Promise<EntitlementPlan> {
+		if ("userId" in subject) {
+			return this.getUserPlan(subject.userId);
+		}
+
+		const ownerIds = await this.getTeamOwnerIds(subject.teamId);
+		const plans = await Promise.all(ownerIds.map((ownerId) => this.getUserPlan(ownerId)));
+		return plans.reduce<EntitlementPlan>(
+			(best, plan) =>
+				getEntitlementPlanRank(plan.id) > getEntitlementPlanRank(best.id) ? plan : best,
+			getEntitlementPlan(FREE_PLAN_ID)
+		);
+	}
+
+	/**
+	 * Checks whether a user or team's plan includes a feature
+	 */
+	async can(subject: EntitlementSubject, feature: EntitlementFeature): Promise<boolean> {
+		const plan = await this.getPlan(subject);
+		return plan.features.includes(feature);
+	}
+
+	/**
+	 * Gets a user or team's limit
+	 * @returns The limit, or null for unlimited
+	 */
+	async getLimit(subject: EntitlementSubject, limit: EntitlementLimit): Promise<number | null> {
+		const plan = await this.getPlan(subject);
+		return plan.limits[limit];
+	}
+
+	/**
+	 * Counts how much of a limit a user or team has used
+	 * Deployments of a team are those of its members.
+	 */
+	async getUsage(subject: EntitlementSubject, limit: EntitlementLimit): Promise<number> {
+		switch (limit) {
+			case "projectsPerTeam": {
+				if (!("teamId" in subject)) {
+					return 0;
+				}
+				return safeDbExecute(async (db) => {
+					const [row] = await db
+						.select({ total: count() })
+						.from(projects)
+						.where(eq(projects.teamId, subject.teamId));
+					return row?.total ?? 0;
+				}, 0);
+			}
+			case "seats": {
+				if (!("teamId" in subject)) {
+					return 1;
+				}
+				return (await this.getTeamMemberIds(subject.teamId)).length;
+			}
+			case "deploymentsPerMonth": {
+				const userIds =
+					"userId" in subject ? [subject.userId] : await this.getTeamMemberIds(subject.teamId);
+				if (userIds.length === 0) {
+					return 0;
+				}
+				return safeDbExecute(async (db) => {
+					const [row] = await db
+						.select({ total: count() })
+						.from(deployments)
+						.where(
+							and(inArray(deployments.userId, userIds), gte(deployments.createdAt, startOfMonth()))
+						);
+					return row?.total ?? 0;
+				}, 0);
+			}
+			case "storageBytes": {
+				// Imported lazily, as the upload service reads its quota from here
+				const { uploadService } = await import("./upload-service");
+				const usage = await uploadService.getStorageUsage(subject);
+				return usage.used + usage.reserved;
+			}
+		}
+	}
+
+	/**
+	 * Gets how much of a limit a user or team has left
+	 * @returns The remaining amount, or null for unlimited
+	 */
+	async remaining(subject: EntitlementSubject, limit: EntitlementLimit): Promise<number | null> {
+		const max = await this.getLimit(subject, limit);
+		if (max === null) {
+			return null;
+		}
+		return getRemaining(max, await this.getUsage(subject, limit));
+	}
+
+	/**
+	 * Checks that a user or team's plan includes a feature
+	 * @throws AppError with a FORBIDDEN code if it does not
+	 */
+	async assertFeature(subject: EntitlementSubject, feature: EntitlementFeature): Promise<void> {
+		const plan = await this.getPlan(subject);
+		if (!plan.features.includes(feature)) {
+			ErrorService.throwForbidden(`Your ${plan.name} plan does not include this feature`, {
+				feature,
+				planId: plan.id,
+			});
+		}
+	}
+
+	/**
+	 * Checks that using `amount` more of a limit stays within the plan
+	 * @throws AppError with a FORBIDDEN code if the limit would be exceeded
+	 */
+	async assertWithinLimit(
+		subject: EntitlementSubject,
+		limit: EntitlementLimit,
+		amount = 1
+	): Promise<void> {
+		const plan = await this.getPlan(subject);
+		const max = plan.limits[limit];
+		if (max === null) {
+			return;
+		}
+
+		const used = await this.getUsage(subject, limit);
+		if (used + amount > max) {
+			ErrorService.throwForbidden(
+				`Your ${plan.name} plan allows ${max} ${LIMIT_LABELS[limit]}. Upgrade your plan for more.`,
+				{ limit, max, used, planId: plan.id }
+			);
+		}
+	}
+
+	/**
+	 * Gets a user or team's plan with every feature and limit
+	 */
+	async getSummary(subject: EntitlementSubject): Promise<EntitlementSummary> {
+		const plan = await this.getPlan(subject);
+		const usage = await Promise.all(
+			ENTITLEMENT_LIMITS.map((limit) => this.getUsage(subject, limit))
+		);
+
+		return {
+			plan: { id: plan.id, name: plan.name },
+			features: Object.fromEntries(
+				ENTITLEMENT_FEATURES.map((feature) => [feature, plan.features.includes(feature)])
+			) as Record<EntitlementFeature, boolean>,
+			limits: Object.fromEntries(
+				ENTITLEMENT_LIMITS.map((limit, index) => {
+					const used = usage[index] ?? 0;
+					return [
+						limit,
+						{ limit: plan.limits[limit], used, remaining: getRemaining(plan.limits[limit], used) },
+					];
+				})
+			) as Record<EntitlementLimit, LimitUsage>,
+		};
+	}
+
+	/**
+	 * Resolves a user's plan from their subscription, then their paid orders
+	 */
+	private async getUserPlan(userId: string): Promise<EntitlementPlan> {
+		const subscription = await SubscriptionService.getActiveSubscription(userId);
+		if (subscription) {
+			const listed = findEntitlementPlanByProduct(subscription.processor, [
+				subscription.productId,
+				subscription.variantId,
+			]);
+			if (listed) {
+				return listed;
+			}
+
+			const synced = await this.getSyncedPlan(subscription);
+			return (
+				findEntitlementPlanByName([synced?.productName, synced?.name, subscription.productName]) ??
+				getEntitlementPlan(DEFAULT_PAID_PLAN_ID)
+			);
+		}
+
+		const paidProductNames = await safeDbExecute(async (db) => {
+			const paid = await db.query.payments.findMany({
+				where: and(
+					eq(payments.userId, userId),
+					inArray(payments.status, PAID_PAYMENT_STATUSES),
+					eq(payments.isFreeProduct, false)
+				),
+				columns: { productName: true },
+			});
+			return paid.map((payment) => payment.productName);
+		}, []);
+
+		if (paidProductNames.length === 0) {
+			return getEntitlementPlan(FREE_PLAN_ID);
+		}
+		return findEntitlementPlanByName(paidProductNames) ?? getEntitlementPlan(DEFAULT_PAID_PLAN_ID);
+	}
+
+	/**
+	 * Finds the synced `plans` row a subscription is billed against
+	 */
+	private async getSyncedPlan(
+		subscription: Pick<Subscription, "planId" | "processor" | "productId" | "variantId">
+	): Promise<{ name: string; productName: string | null } | null> {
+		const { planId, processor, productId, variantId } = subscription;
+		if (!planId && !productId && !variantId) {
+			return null;
+		}
+
+		return safeDbExecute(async (db) => {
+			const plan = await db.query.plans.findFirst({
+				where: planId
+					? eq(plans.id, planId)
+					: and(
+							eq(plans.provider, processor),
+							or(
+								variantId ? eq(plans.variantId, variantId) : undefined,
+								productId ? eq(plans.productId, productId) : undefined
+							)
+						),
+				columns: { name: true, productName: true },
+			});
+			return plan ?? null;
+		}, null);
+	}
+
+	private async getTeamOwnerIds(teamId: string): Promise<string[]> {
+		return safeDbExecute(async (db) => {
+			const owners = await db
+				.select({ userId: teamMembers.userId })
+				.from(teamMembers)
+				.where(and(eq(teamMembers.teamId, teamId), eq(teamMembers.role, "owner")));
+			return owners.map((owner) => owner.userId);
+		}, []);
+	}
+
+	private async getTeamMemberIds(teamId: string): Promise<string[]> {
+		return safeDbExecute(async (db) => {
+			const members = await db
+				.select({ userId: teamMembers.userId })
+				.from(teamMembers)
+				.where(eq(teamMembers.teamId, teamId));
+			return members.map((member) => member.userId);
+		}, []);
+	}
+}
+
+export const entitlementService = new EntitlementService();
@@ -0,0 +1,307 @@
+/**
+ * @fileoverview Runtime feature flags
+ * @module server/services/feature-flag-service
+ *
+ * Unlike the build-time switches in src/config/features-config.ts, these flags live in the
+ * database and can be changed from the admin Flags page without a redeploy.
+ *
+ * - Boolean flags evaluate to true or false; multivariate flags to one of their variants
+ * - Rules target users, teams, roles or plans, optionally for a percentage of them
+ * - Rules are checked in order and the first match wins; otherwise the default value is served
+ * - A disabled flag is off for everyone: false, or the default variant
+ *
+ * Use `getFlag` from src/server/lib/flags.ts in server code and `useFlag` on the client.
+ */
+
+import { createHash } from "node:crypto";
+import { eq } from "drizzle-orm";
+import { db } from "@/server/db";
+import { type FeatureFlag, featureFlags } from "@/server/db/schema";
+import { cacheService } from "./cache-service";
+import { ErrorService } from "./error-service";
+
+const FEATURE_FLAGS_CACHE_KEY = "feature-flags";
+
+/** Flags are kept in memory this long between reads of the shared cache */
+const MEMORY_CACHE_TTL = 15_000;
+
+export const FEATURE_FLAG_TYPES = ["boolean", "multivariate"] as const;
+export type FeatureFlagType = (typeof FEATURE_FLAG_TYPES)[number];
+
+export type FeatureFlagValue = boolean | string;
+
+export interface FeatureFlagRule {
+	/** A subject must match every condition that is set, and any value within it */
+	userIds?: string[];
+	teamIds?: string[];
+	roles?: string[];
+	plans?: string[];
+	/**
+	 * Percentage of matching subjects served by the rule, 0 to 100
+	 * Every rule of a flag buckets a subject the same way, so a 30% rule followed by a
+	 * 100% rule splits subjects 30/70 between their values.
+	 */
+	rollout: number;
+	/** "true"/"false" for boolean flags, a variant otherwise */
+	value: string;
+}
+
+export interface FeatureFlagDefinition {
+	key: string;
+	description: string | null;
+	type: FeatureFlagType;
+	enabled: boolean;
+	variants: string[];
+	defaultValue: string;
+	rules: FeatureFlagRule[];
+	/** Whether `useFlag` can read the flag in the browser */
+	clientVisible: boolean;
+	updatedAt: Date;
+}
+
+/**
+ * Who a flag is evaluated for
+ */
+export interface FeatureFlagContext {
+	userId?: string | null;
+	teamId?: string | null;
+	/** The user's global role and, within a team, their team role */
+	roles?: string[];
+	/** Identifiers of the user's plan, e.g. product name and ID; "free" without a subscription */
+	plans?: string[];
+}
+
+export interface FeatureFlagEvaluation {
+	value: FeatureFlagValue;
+	reason: "disabled" | "rule" | "default";
+	/** Index of the matching rule when `reason` is "rule" */
+	ruleIndex?: number;
+}
+
+export type SaveFeatureFlagInput = Omit<FeatureFlagDefinition, "updatedAt">;
+
+/**
+ * Maps a subject to a stable bucket in [0, 100) for percentage rollouts
+ * The flag key is part of the hash, so the same users are not always the first to get new flags.
+ */
+export function getRolloutBucket(flagKey: string, subjectId: string): number {
+	const hash = createHash("sha1").update(`${flagKey}:${subjectId}`).digest();
+	return (hash.readUInt32BE(0) / 0x1_0000_0000) * 100;
+}
+
+function parseValue(type: FeatureFlagType, value: string): FeatureFlagValue {
+	return type === "boolean" ? value === "true" : value;
+}
+
+function includesAny(allowed: string[] | undefined, values: (string | null | undefined)[]) {
+	if (!allowed?.length) {
+		return true;
+	}
+	const normalized = new Set(allowed.map((value) => value.toLowerCase()));
+	return values.some((value) => !!value && normalized.has(value.toLowerCase()));
+}
+
+/**
+ * Evaluates a flag for a subject
+ */
+export function evaluateFeatureFlag(
+	flag: FeatureFlagDefinition,
+	context: FeatureFlagContext
+): FeatureFlagEvaluation {
+	if (!flag.enabled) {
+		return {
+			value: flag.type === "boolean" ? false : parseValue(flag.type, flag.defaultValue),
+			reason: "disabled",
+		};
+	}
+
+	const subjectId = context.userId ?? context.teamId;
+	for (const [ruleIndex, rule] of flag.rules.entries()) {
+		const matches =
+			includesAny(rule.userIds, [context.userId]) &&
+			includesAny(rule.teamIds, [context.teamId]) &&
+			includesAny(rule.roles, context.roles ?? []) &&
+			includesAny(rule.plans, context.plans ?? []);
+		if (!matches) {
+			continue;
+		}
+
+		// Anonymous subjects cannot be bucketed, so they only get full rollouts
+		const inRollout =
+			rule.rollout >= 100 || (!!subjectId && getRolloutBucket(flag.key, subjectId) < rule.rollout);
+		if (inRollout) {
+			return { value: parseValue(flag.type, rule.value), reason: "rule", ruleIndex };
+		}
+	}
+
+	return { value: parseValue(flag.type, flag.defaultValue), reason: "default" };
+}
+
+/**
+ * Whether any rule of the flag targets a context field, so callers only look up what is needed
+ */
+export function flagTargets(flag: FeatureFlagDefinition, field: "roles" | "plans"): boolean {
+	return flag.enabled && flag.rules.some((rule) => !!rule[field]?.length);
+}
+
+function parseJsonArray<T>(value: string): T[] {
+	try {
+		const parsed: unknown = JSON.parse(value);
+		return Array.isArray(parsed) ? (parsed as T[]) : [];
+	} catch {
+		return [];
+	}
+}
+
+function toDefinition(row: FeatureFlag): FeatureFlagDefinition {
+	return {
+		key: row.key,
+		description: row.description,
+		type: row.type === "multivariate" ? "multivariate" : "boolean",
+		enabled: row.enabled,
+		variants: parseJsonArray<string>(row.variants),
+		defaultValue: row.defaultValue,
+		rules: parseJsonArray<FeatureFlagRule>(row.rules),
+		clientVisible: row.clientVisible,
+		updatedAt: row.updatedAt,
+	};
+}
+
+/**
+ * Checks that every value a flag can serve is valid for its type
+ */
+function assertValidFlag(input: SaveFeatureFlagInput) {
+	const allowed = input.type === "boolean" ? ["true", "false"] : input.variants;
+	if (input.type === "multivariate" && input.variants.length < 2) {
+		ErrorService.throwBadRequest("Multivariate flags need at least two variants");
+	}
+	for (const value of [input.defaultValue, ...input.rules.map((rule) => rule.value)]) {
+		if (!allowed.includes(value)) {
+			ErrorService.throwBadRequest(`"${value}" is not a value of flag ${input.key}`);
+		}
+	}
+}
+
+export class FeatureFlagService {
+	private memoryCache: { flags: Map<string, FeatureFlagDefinition>; expiresAt: number } | null =
+		null;
+
+	/**
+	 * Gets every flag, keyed by flag key
+	 * Flags are cached in memory briefly and in the shared cache for a minute; saving a flag
+	 * clears both on this instance, other instances pick the change up within the TTLs.
+	 */
+	async getFlags(): Promise<Map<string, FeatureFlagDefinition>> {
+		if (this.memoryCache && this.memoryCache.expiresAt > Date.now()) {
+			return this.memoryCache.flags;
+		}
+
+		const rows = await cacheService.getOrSet(
+			FEATURE_FLAGS_CACHE_KEY,
+			async () => (db ? db.select().from(featureFlags).orderBy(featureFlags.key) : []),
+			{ ttl: 60 }
+		);
+		const flags = new Map(
+			// Dates come back from the shared cache as strings
+			rows.map((row) => {
+				const flag = toDefinition({ ...row, updatedAt: new Date(row.updatedAt) });
+				return [flag.key, flag] as const;
+			})
+		);
+		this.memoryCache = { flags, expiresAt: Date.now() + MEMORY_CACHE_TTL };
+		return flags;
+	}
+
+	async getFlag(key: string): Promise<FeatureFlagDefinition | undefined> {
+		return (await this.getFlags()).get(key);
+	}
+
+	/**
+	 * Evaluates every flag for a subject
+	 * @param options.clientVisibleOnly - Only include flags that may be sent to the browser
+	 */
+	async evaluateAll(
+		context: FeatureFlagContext,
+		options: { clientVisibleOnly?: boolean } = {}
+	): Promise<Record<string, FeatureFlagValue>> {
+		const values: Record<string, FeatureFlagValue> = {};
+		for (const flag of (await this.getFlags()).values()) {
+			if (!options.clientVisibleOnly || flag.clientVisible) {
+				values[flag.key] = evaluateFeatureFlag(flag, context).value;
+			}
+		}
+		return values;
+	}
+
+	private async clearCache() {
+		this.memoryCache = null;
+		await cacheService.delete(FEATURE_FLAGS_CACHE_KEY);
+	}
+
+	/**
+	 * Creates or replaces a flag
+	 * @returns The flag before and after the change, for the audit log
+	 */
+	async saveFlag(
+		input: SaveFeatureFlagInput,
+		updatedBy: string
+	): Promise<{ before: FeatureFlagDefinition | null; after: FeatureFlagDefinition }> {
+		assertValidFlag(input);
+		if (!db) {
+			throw new Error("Database not initialized");
+		}
+
+		const before = (await this.getFlags()).get(input.key) ?? null;
+		const values = {
+			description: input.description,
+			type: input.type,
+			enabled: input.enabled,
+			variants: JSON.stringify(input.type === "multivariate" ? input.variants : []),
+			defaultValue: input.defaultValue,
+			rules: JSON.stringify(input.rules),
+			clientVisible: input.clientVisible,
+			updatedBy,
+			updatedAt: new Date(),
+		};
+		const [row] = await db
+			.insert(featureFlags)
+			.values({ key: input.key, ...values })
+			.onConflictDoUpdate({ target: featureFlags.key, set: values })
+			.returning();
+		await this.clearCache();
+
+		if (!row) {
+			throw new Error("Failed to save feature flag");
+		}
+		return { before, after: toDefinition(row) };
+	}
+
+	/**
+	 * Turns a flag on or off without changing its rules
+	 */
+	async setEnabled(key: string, enabled: boolean, updatedBy: string): Promise<void> {
+		const [updated] =
+			(await db
+				?.update(featureFlags)
+				.set({ enabled, updatedBy, updatedAt: new Date() })
+				.where(eq(featureFlags.key, key))
+				.returning({ key: featureFlags.key })) ?? [];
+		if (!updated) {
+			ErrorService.throwNotFound("Feature flag not found");
+		}
+		await this.clearCache();
+	}
+
+	/**
+	 * Deletes a flag; `getFlag` then returns the caller's default value
+	 * @returns The deleted flag, or null if it did not exist
+	 */
+	async deleteFlag(key: string): Promise<FeatureFlagDefinition | null> {
+		const [deleted] =
+			(await db?.delete(featureFlags).where(eq(featureFlags.key, key)).returning()) ?? [];
+		await this.clearCache();
+		return deleted ? toDefinition(deleted) : null;
+	}
+}
+
+export const featureFlagService = new FeatureFlagService();
@@ -1,13 +1,39 @@
-import { sql } from "drizzle-orm";
+import { and, asc, desc, eq, inArray, isNull, or, sql } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { siteConfig } from "@/config/site-config";
 import { resend } from "@/lib/resend";
 import { db } from "@/server/db";
-import { feedback } from "@/server/db/schema";
+import {
+	type Feedback,
+	type FeedbackMessage,
+	feedback,
+	feedbackMessages,
+	feedbackVotes,
+	users,
+} from "@/server/db/schema";
+import { emailService } from "@/server/services/email-service";
+import { ErrorService } from "@/server/services/error-service";
 import { sendFeedbackEmail } from "@/server/services/resend-service";
 
+export const FEEDBACK_STATUSES = ["new", "reviewed", "archived", "merged"] as const;
+export type FeedbackStatus = (typeof FEEDBACK_STATUSES)[number];
+
+export const FEEDBACK_MESSAGE_TYPES = ["reply", "note"] as const;
+export type FeedbackMessageType = (typeof FEEDBACK_MESSAGE_TYPES)[number];
+
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 30;
+
 export interface CreateFeedbackInput {
 	content: string;
 	source: "dialog" | "popover";
 	metadata?: Record<string, unknown>;
+	/** The signed-in submitter */
+	userId?: string | null;
+	/** Where replies are sent */
+	email?: string | null;
+	/** The page the feedback was sent from */
+	pageUrl?: string | null;
 }
 
 export interface FeedbackResult {
@@ -17,6 +43,69 @@ export interface FeedbackResult {
 	error?: string;
 }
 
+export interface FeedbackPerson {
+	id: string;
+	name: string | null;
+	email: string;
+}
+
+export interface FeedbackListItem extends Omit<Feedback, "tags"> {
+	tags: string[];
+	submitter: FeedbackPerson | null;
+	assignee: FeedbackPerson | null;
+	voteCount: number;
+	messageCount: number;
+}
+
+export interface FeedbackThreadMessage extends FeedbackMessage {
+	author: FeedbackPerson | null;
+}
+
+export interface FeedbackThread {
+	feedback: FeedbackListItem;
+	messages: FeedbackThreadMessage[];
+	/** Items merged into this one */
+	duplicates: Pick<Feedback, "id" | "content" | "email" | "createdAt">[];
+}
+
+export interface FeedbackFilters {
+	status?: string;
+	tag?: string;
+	/** A user ID, or "none" for unassigned feedback */
+	assigneeId?: string;
+	limit?: number;
+}
+
+/**
+ * Normalizes tags to lowercase, dash-separated names, without duplicates
+ * @example normalizeFeedbackTags(["Bug", " dark mode ", "bug"]) // ["bug", "dark-mode"]
+ */
+export function normalizeFeedbackTags(tags: string[]): string[] {
+	const normalized = tags
+		.map((tag) =>
+			tag
+				.trim()
+				.toLowerCase()
+				.replace(/[^a-z0-9]+/g, "-")
+				.replace(/^-+|-+$/g, "")
+				.slice(0, MAX_TAG_LENGTH)
+		)
+		.filter(Boolean);
+	return [...new Set(normalized)].slice(0, MAX_TAGS);
+}
+
+/**
+ * Reads the tags column, which holds a JSON array
+ */
+export function parseFeedbackTags(tags: string | null): string[] {
+	try {
+		const parsed: unknown = JSON.parse(tags ?? "[]");
+		return Array.isArray(parsed) ? parsed.filter((tag) => typeof tag === "string") : [];
+	} catch {
+		return [];
+	}
+}
+
 export const createFeedback = async (
 	input: CreateFeedbackInput,
 	options?: { skipEmail?: boolean }
@@ -52,6 +141,9 @@ export const createFeedback = async (
 						content: input.content,
 						source: input.source,
 						metadata: JSON.stringify(input.metadata || {}),
+						userId: input.userId ?? null,
+						email: input.email ?? null,
+						pageUrl: input.pageUrl ?? null,
 					})
 					.returning();
 				dbResult = result;
@@ -113,8 +205,137 @@ export const getFeedback = async () => {
 	}
 };
 
+const submitters = alias(users, "submitter");
+const assignees = alias(users, "assignee");
+
+const voteCount =
+	sql<number>`(select count(*) from ${feedbackVotes} where ${feedbackVotes.feedbackId} = ${feedback.id})`.mapWith(
+		Number
+	);
+const messageCount =
+	sql<number>`(select count(*) from ${feedbackMessages} where ${feedbackMessages.feedbackId} = ${feedback.id})`.mapWith(
+		Number
+	);
+
+function selectFeedbackItems() {
+	if (!db) {
+		throw new Error("Database not initialized");
+	}
+	return db
+		.select({
+			feedback,
+			submitter: { id: submitters.id, name: submitters.name, email: submitters.email },
+			assignee: { id: assignees.id, name: assignees.name, email: assignees.email },
+			voteCount,
+			messageCount,
+		})
+		.from(feedback)
+		.leftJoin(submitters, eq(feedback.userId, submitters.id))
+		.leftJoin(assignees, eq(feedback.assigneeId, assignees.id));
+}
+
+function toListItem(
+	row: Awaited<ReturnType<typeof selectFeedbackItems>>[number]
+): FeedbackListItem {
+	return {
+		...row.feedback,
+		tags: parseFeedbackTags(row.feedback.tags),
+		submitter: row.submitter,
+		assignee: row.assignee,
+		voteCount: row.voteCount,
+		messageCount: row.messageCount,
+	};
+}
+
+/**
+ * Lists feedback for triage, newest first
+ * Merged duplicates are hidden unless filtering by the "merged" status.
+ */
+export const listFeedback = async (filters: FeedbackFilters = {}): Promise<FeedbackListItem[]> => {
+	if (!db) {
+		return [];
+	}
+
+	const conditions = [
+		filters.status ? eq(feedback.status, filters.status) : sql`${feedback.status} <> 'merged'`,
+	];
+	if (filters.tag) {
+		conditions.push(sql`${feedback.tags}::jsonb ? ${filters.tag}`);
+	}
+	if (filters.assigneeId === "none") {
+		conditions.push(isNull(feedback.assigneeId));
+	} else if (filters.assigneeId) {
+		conditions.push(eq(feedback.assigneeId, filters.assigneeId));
+	}
+
+	const rows = await selectFeedbackItems()
+		.where(and(...conditions))
+		.orderBy(desc(feedback.createdAt))
+		.limit(filters.limit ?? 200);
+	return rows.map(toListItem);
+};
+
+/**
+ * Gets a feedback item with its reply and note thread
+ * @returns The thread, or null if the feedback does not exist
+ */
+export const getFeedbackThread = async (id: string): Promise<FeedbackThread | null> => {
+	if (!db) {
+		return null;
+	}
+
+	const [row] = await selectFeedbackItems().where(eq(feedback.id, id)).limit(1);
+	if (!row) {
+		return null;
+	}
+
+	const [messages, duplicates] = await Promise.all([
+		db
+			.select({
+				message: feedbackMessages,
+				author: { id: users.id, name: users.name, email: users.email },
+			})
+			.from(feedbackMessages)
+			.leftJoin(users, eq(feedbackMessages.authorId, users.id))
+			.where(eq(feedbackMessages.feedbackId, id))
+			.orderBy(asc(feedbackMessages.createdAt)),
+		db
+			.select({
+				id: feedback.id,
+				content: feedback.content,
+				email: feedback.email,
+				createdAt: feedback.createdAt,
+			})
+			.from(feedback)
+			.where(eq(feedback.duplicateOfId, id))
+			.orderBy(asc(feedback.createdAt)),
+	]);
+
+	return {
+		feedback: toListItem(row),
+		messages: messages.map(({ message, author }) => ({ ...message, author })),
+		duplicates,
+	};
+};
+
+/**
+ * Lists the users feedback can be assigned to: admins, and whoever is assigned now
+ */
+export const getFeedbackAssignees = async (): Promise<FeedbackPerson[]> => {
+	if (!db) {
+		return [];
+	}
+
+	return db
+		.selectDistinct({ id: users.id, name: users.name, email: users.email })
+		.from(users)
+		.leftJoin(feedback, eq(feedback.assigneeId, users.id))
+		.where(or(eq(users.role, "admin"), sql`${feedback.id} is not null`))
+		.orderBy(asc(users.email));
+};
+
 export const updateFeedbackStatus = async (id: string, status: string) => {
-	if (!["pending", "reviewed"].includes(status)) {
+	if (!FEEDBACK_STATUSES.includes(status as FeedbackStatus)) {
 		throw new Error("Invalid feedback status");
 	}
 
@@ -126,7 +347,7 @@ export const updateFeedbackStatus = async (id: string, status: string) => {
 			content: "",
 			source: "dialog" as const,
 			metadata: "{}",
-			status: status as "pending" | "reviewed",
+			status: status as FeedbackStatus,
 			createdAt: new Date(),
 			updatedAt: new Date(),
 		};
@@ -140,3 +361,185 @@ export const updateFeedbackStatus = async (id: string, status: string) => {
 
 	return result;
 };
+
+export interface FeedbackTriageUpdate {
+	status?: FeedbackStatus;
+	tags?: string[];
+	assigneeId?: string | null;
+}
+
+/**
+ * Updates the triage fields of a feedback item
+ * @returns The item before and after the update, for the audit log
+ */
+export const updateFeedbackTriage = async (id: string, update: FeedbackTriageUpdate) => {
+	if (!db) {
+		throw new Error("Database not initialized");
+	}
+
+	const before = await db.query.feedback.findFirst({ where: eq(feedback.id, id) });
+	if (!before) {
+		ErrorService.throwNotFound("Feedback not found");
+	}
+
+	const [after] = await db
+		.update(feedback)
+		.set({
+			...(update.status && { status: update.status }),
+			...(update.tags && { tags: JSON.stringify(normalizeFeedbackTags(update.tags)) }),
+			...(update.assigneeId !== undefined && { assigneeId: update.assigneeId }),
+			updatedAt: new Date(),
+		})
+		.where(eq(feedback.id, id))
+		.returning();
+
+	return { before, after: after! };
+};
+
+/**
+ * Adds a reply or an internal note to a feedback thread
+ * Replies are emailed to the submitter; without an address to send to, the reply is only
+ * stored. Replying to new feedback marks it as reviewed.
+ */
+export const addFeedbackMessage = async (input: {
+	feedbackId: string;
+	authorId: string;
+	type: FeedbackMessageType;
+	body: string;
+}): Promise<{ message: FeedbackMessage; emailed: boolean }> => {
+	if (!db) {
+		throw new Error("Database not initialized");
+	}
+
+	const item = await db.query.feedback.findFirst({ where: eq(feedback.id, input.feedbackId) });
+	if (!item) {
+		ErrorService.throwNotFound("Feedback not found");
+	}
+
+	let emailLogId: string | null = null;
+	let emailed = false;
+	if (input.type === "reply" && item.email) {
+		const submitter = item.userId
+			? await db.query.users.findFirst({
+					where: eq(users.id, item.userId),
+					columns: { name: true },
+				})
+			: undefined;
+		const result = await emailService.send(
+			"feedback-reply",
+			{ name: submitter?.name, feedback: item.content, reply: input.body },
+			{
+				to: item.email,
+				userId: item.userId,
+				replyTo: siteConfig.creator.email,
+				metadata: { feedbackId: item.id },
+			}
+		);
+		emailLogId = result.logId;
+		emailed = result.status === "sent";
+	}
+
+	const [message] = await db
+		.insert(feedbackMessages)
+		.values({
+			feedbackId: item.id,
+			authorId: input.authorId,
+			type: input.type,
+			body: input.body,
+			emailLogId,
+		})
+		.returning();
+
+	if (input.type === "reply" && item.status === "new") {
+		await db
+			.update(feedback)
+			.set({ status: "reviewed", updatedAt: new Date() })
+			.where(eq(feedback.id, item.id));
+	}
+
+	return { message: message!, emailed };
+};
+
+/**
+ * Adds or removes a user's vote on a feedback item
+ * @returns Whether the user now votes for it, and the new vote count
+ */
+export const toggleFeedbackVote = async (feedbackId: string, userId: string) => {
+	if (!db) {
+		throw new Error("Database not initialized");
+	}
+
+	const removed = await db
+		.delete(feedbackVotes)
+		.where(and(eq(feedbackVotes.feedbackId, feedbackId), eq(feedbackVotes.userId, userId)))
+		.returning();
+	if (removed.length === 0) {
+		await db.insert(feedbackVotes).values({ feedbackId, userId }).onConflictDoNothing();
+	}
+
+	const [result] = await db
+		.select({ count: sql<number>`count(*)`.mapWith(Number) })
+		.from(feedbackVotes)
+		.where(eq(feedbackVotes.feedbackId, feedbackId));
+	return { voted: removed.length === 0, voteCount: result?.count ?? 0 };
+};
+
+/**
+ * Merges a duplicate into another feedback item
+ * The duplicate's votes and tags move to the target, and its submitter counts as a vote for
+ * the target. Items merged into the duplicate earlier move to the target as well.
+ */
+export const mergeFeedback = async (duplicateId: string, targetId: string) => {
+	if (!db) {
+		throw new Error("Database not initialized");
+	}
+	if (duplicateId === targetId) {
+		ErrorService.throwBadRequest("Feedback cannot be merged into itself");
+	}
+
+	return db.transaction(async (tx) => {
+		const items = await tx
+			.select()
+			.from(feedback)
+			.where(inArray(feedback.id, [duplicateId, targetId]));
+		const duplicate = items.find((item) => item.id === duplicateId);
+		const target = items.find((item) => item.id === targetId);
+		if (!duplicate || !target) {
+			ErrorService.throwNotFound("Feedback not found");
+		}
+		if (target.status === "merged") {
+			ErrorService.throwBadRequest("Merge into the feedback this one was merged into instead");
+		}
+
+		await tx.execute(sql`
+			insert into ${feedbackVotes} (feedback_id, user_id)
+			select ${targetId}, user_id from ${feedbackVotes} where feedback_id = ${duplicateId}
+			on conflict do nothing
+		`);
+		if (duplicate.userId) {
+			await tx
+				.insert(feedbackVotes)
+				.values({ feedbackId: targetId, userId: duplicate.userId })
+				.onConflictDoNothing();
+		}
+
+		const tags = normalizeFeedbackTags([
+			...parseFeedbackTags(target.tags),
+			...parseFeedbackTags(duplicate.tags),
+		]);
+		await tx
+			.update(feedback)
+			.set({ tags: JSON.stringify(tags), updatedAt: new Date() })
+			.where(eq(feedback.id, targetId));
+		await tx
+			.update(feedback)
+			.set({ duplicateOfId: targetId, updatedAt: new Date() })
+			.where(eq(feedback.duplicateOfId, duplicateId));
+		await tx
+			.update(feedback)
+			.set({ status: "merged", duplicateOfId: targetId, updatedAt: new Date() })
+			.where(eq(feedback.id, duplicateId));
+
+		return { duplicate, target };
+	});
+};
@@ -1,35 +1,25 @@
 import { logger } from "@/lib/logger";
 import { type FileSchemaType, fileSchema } from "@/server/actions/schemas";
-import { deleteFromS3, generatePresignedUrl } from "@/server/services/s3";
+import { getStorageDriver, type StoredObject } from "@/server/storage";
 
+/**
+ * Uploads a file with the configured storage driver
+ * @returns The generated file name, which is the storage key, and the file's public URL
+ */
 export const uploadFile = async (
 	file: FileSchemaType
-): Promise<{ fileName: string; url: string }> => {
+): Promise<StoredObject & { fileName: string }> => {
 	const validatedFile = fileSchema.parse(file);
 
 	try {
 		const fileName = `${Date.now()}-${validatedFile.name}`;
-		const signedUrl = await generatePresignedUrl(fileName, validatedFile.type);
-
-		if (!signedUrl) {
-			throw new Error(`Failed to generate presigned URL for file: ${fileName}`);
-		}
-
-		const response = await fetch(signedUrl, {
-			method: "PUT",
-			body: validatedFile,
-			headers: {
-				"Content-Type": validatedFile.type,
-			},
+		const driver = getStorageDriver();
+		const stored = await driver.put(fileName, validatedFile, {
+			contentType: validatedFile.type,
 		});
 
-		if (!response.ok) {
-			throw new Error(`Failed to upload file: ${validatedFile.name}`);
-		}
-
-		logger.info(`File uploaded successfully: ${fileName}`);
-		const s3Url = signedUrl.split("?")[0]; // This gets the S3 URL without the query parameters
-		return { fileName, url: s3Url ?? signedUrl };
+		logger.info(`File uploaded successfully: ${fileName}`, { driver: driver.id });
+		return { ...stored, fileName };
 	} catch (error) {
 		// Friendly error message
 		const errorMessage = `Error uploading file: ${validatedFile.name}`;
@@ -40,7 +30,7 @@ export const uploadFile = async (
 
 export const deleteFile = async (fileName: string): Promise<void> => {
 	try {
-		await deleteFromS3(fileName);
+		await getStorageDriver().delete(fileName);
 		logger.info(`File deleted successfully: ${fileName}`);
 	} catch (error) {
 		const errorMessage = `Error deleting file: ${fileName}`;
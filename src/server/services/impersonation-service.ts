@@ -0,0 +1,214 @@
+/**
+ * @fileoverview Admin impersonation
+ * @module server/services/impersonation-service
+ *
+ * Lets an admin see the app as one of its users, e.g. to reproduce a support ticket.
+ *
+ * - Starting stores a session in the database and sets a cookie holding its ID
+ * - `auth()` then returns the user in place of the admin, with `session.impersonation` set
+ * - Sessions expire after IMPERSONATION_DURATION_MS, and the cookie expires with them
+ * - Destructive actions and payment changes refuse to run while impersonating
+ *
+ * The cookie is only honored alongside the session of the admin who started it, and only while
+ * they are still an admin.
+ */
+
+import { and, eq, gt, isNull } from "drizzle-orm";
+import { cookies } from "next/headers";
+import type { Session } from "next-auth";
+import { logger } from "@/lib/logger";
+import { db } from "@/server/db";
+import { type ImpersonationSession, impersonationSessions, users } from "@/server/db/schema";
+import type { UserRole } from "@/types/user";
+import { isAdmin } from "./admin-service";
+import { ErrorService } from "./error-service";
+
+export const IMPERSONATION_COOKIE = "shipkit-impersonation";
+
+/** How long an impersonation session lasts before the admin is themselves again */
+export const IMPERSONATION_DURATION_MS = 30 * 60 * 1000;
+
+export interface StartImpersonationInput {
+	adminId: string;
+	userId: string;
+	reason?: string | null;
+}
+
+export class ImpersonationService {
+	/**
+	 * Starts impersonating a user, ending any session the admin already has
+	 * Sets the cookie, so call it from a server action or route handler.
+	 */
+	async start({ adminId, userId, reason }: StartImpersonationInput): Promise<{
+		session: ImpersonationSession;
+		user: { id: string; email: string; name: string | null };
+	}> {
+		if (!db) {
+			throw new Error("Database not available");
+		}
+		if (adminId === userId) {
+			ErrorService.throwBadRequest("You cannot impersonate yourself");
+		}
+
+		const user = await db.query.users.findFirst({
+			where: eq(users.id, userId),
+			columns: { id: true, email: true, name: true },
+		});
+		if (!user) {
+			ErrorService.throwNotFound("User not found");
+		}
+
+		const now = new Date();
+		await db
+			.update(impersonationSessions)
+			.set({ endedAt: now })
+			.where(
+				and(eq(impersonationSessions.adminId, adminId), isNull(impersonationSessions.endedAt))
+			);
+
+		const [session] = await db
+			.insert(impersonationSessions)
+			.values({
+				adminId,
+				userId,
+				reason: reason?.trim() || null,
+				expiresAt: new Date(now.getTime() + IMPERSONATION_DURATION_MS),
+			})
+			.returning();
+		if (!session) {
+			throw new Error("Failed to start impersonation");
+		}
+
+		const cookieStore = await cookies();
+		cookieStore.set(IMPERSONATION_COOKIE, session.id, {
+			httpOnly: true,
+			sameSite: "lax",
+			secure: process.env.NODE_ENV === "production",
+			path: "/",
+			expires: session.expiresAt,
+		});
+
+		return { session, user };
+	}
+
+	/**
+	 * Stops the admin's current impersonation session and clears the cookie
+	 * @returns The session that was stopped, or null if none was active
+	 */
+	async stop(adminId: string): Promise<ImpersonationSession | null> {
+		const cookieStore = await cookies();
+		const sessionId = cookieStore.get(IMPERSONATION_COOKIE)?.value;
+		cookieStore.delete(IMPERSONATION_COOKIE);
+
+		if (!db || !sessionId) {
+			return null;
+		}
+
+		const [session] = await db
+			.update(impersonationSessions)
+			.set({ endedAt: new Date() })
+			.where(
+				and(
+					eq(impersonationSessions.id, sessionId),
+					eq(impersonationSessions.adminId, adminId),
+					isNull(impersonationSessions.endedAt)
+				)
+			)
+			.returning();
+		return session ?? null;
+	}
+
+	/**
+	 * Swaps the admin for the impersonated user in a session
+	 * The session is returned unchanged unless the impersonation cookie points to an active
+	 * session started by its user, and that user is still an admin.
+	 */
+	async applyToSession(session: Session | null): Promise<Session | null> {
+		if (!db || !session?.user?.id) {
+			return session;
+		}
+
+		const sessionId = await this.getCookieSessionId();
+		if (!sessionId) {
+			return session;
+		}
+
+		try {
+			const active = await db.query.impersonationSessions.findFirst({
+				where: and(
+					eq(impersonationSessions.id, sessionId),
+					eq(impersonationSessions.adminId, session.user.id),
+					isNull(impersonationSessions.endedAt),
+					gt(impersonationSessions.expiresAt, new Date())
+				),
+			});
+			if (!active) {
+				return session;
+			}
+
+			// Admin access may have been revoked since the session started; end it for good
+			if (!(await isAdmin({ email: session.user.email, userId: session.user.id }))) {
+				await db
+					.update(impersonationSessions)
+					.set({ endedAt: new Date() })
+					.where(eq(impersonationSessions.id, active.id));
+				logger.warn("Ended impersonation session of a user who is no longer an admin", {
+					sessionId: active.id,
+					adminId: session.user.id,
+				});
+				return session;
+			}
+
+			const user = await db.query.users.findFirst({ where: eq(users.id, active.userId) });
+			if (!user) {
+				return session;
+			}
+
+			// Metadata is left out as it holds the user's provider access tokens
+			return {
+				...session,
+				user: {
+					id: user.id,
+					name: user.name,
+					email: user.email,
+					emailVerified: user.emailVerified,
+					image: user.image,
+					role: user.role as UserRole,
+					theme: (user.theme ?? undefined) as Session["user"]["theme"],
+					bio: user.bio,
+					githubUsername: user.githubUsername,
+					vercelConnectionAttemptedAt: user.vercelConnectionAttemptedAt,
+					createdAt: user.createdAt,
+					updatedAt: user.updatedAt ?? undefined,
+				},
+				impersonation: {
+					id: active.id,
+					expiresAt: active.expiresAt.toISOString(),
+					admin: {
+						id: session.user.id,
+						email: session.user.email,
+						name: session.user.name,
+					},
+				},
+			};
+		} catch (error) {
+			logger.error("Failed to apply impersonation session", { sessionId, error });
+			return session;
+		}
+	}
+
+	/**
+	 * Reads the impersonation cookie
+	 * Returns null outside a request, where cookies are not available.
+	 */
+	private async getCookieSessionId(): Promise<string | null> {
+		try {
+			const cookieStore = await cookies();
+			return cookieStore.get(IMPERSONATION_COOKIE)?.value ?? null;
+		} catch {
+			return null;
+		}
+	}
+}
+
+export const impersonationService = new ImpersonationService();
@@ -158,6 +158,16 @@ export async function getIntegrationStatuses(): Promise<CategorizedIntegrationSt
 		adminUrl: "https://console.anthropic.com/",
 	});
 
+	const localAiUrl = !!process.env.AI_LOCAL_BASE_URL;
+	addStatus("Artificial Intelligence", {
+		name: "Local AI",
+		enabled: localAiUrl,
+		configured: localAiUrl,
+		message: localAiUrl
+			? "Configured (AI_LOCAL_BASE_URL set)."
+			: "Disabled (Missing AI_LOCAL_BASE_URL).",
+	});
+
 	// === Storage ===
 	addStatus("Storage", {
 		name: "Database",
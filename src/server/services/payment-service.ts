@@ -22,11 +22,15 @@
  * @performance Caches payment data to reduce API calls
  */
 
-import { eq } from "drizzle-orm";
+import { and, desc, eq } from "drizzle-orm";
+import { BASE_URL } from "@/config/base-url";
+import { type CreditPack, creditPacks, findCreditPackByProduct } from "@/config/credit-packs";
+import { routes } from "@/config/routes";
 import { logger } from "@/lib/logger";
 import { safeDbExecute } from "@/server/db";
-import { type Payment, payments, users } from "@/server/db/schema";
+import { type Payment, payments, subscriptions, users } from "@/server/db/schema";
 import {
+	type CustomerPortalOptions,
 	getEnabledProviders,
 	getProvider,
 	hasProvider,
@@ -34,6 +38,90 @@ import {
 	type OrderData,
 	type ProductData,
 } from "@/server/providers";
+import { grantCreditPackPurchase } from "./credits";
+import { emailService } from "./email-service";
+import { isSubscriptionEntitled, SubscriptionService } from "./subscription-service";
+
+/** Statuses that grant what was purchased; a partial refund keeps the purchase */
+const PAID_PAYMENT_STATUSES = new Set(["completed", "paid", "partially_refunded"]);
+
+/** Refunds and disputes are recorded locally first; provider order listings lag behind them */
+const REFUND_PAYMENT_STATUSES = new Set(["refunded", "partially_refunded", "disputed"]);
+
+/**
+ * Finds the credit pack an order paid for
+ * Stripe checkout sessions carry the pack ID in the metadata set by our server; other orders
+ * are matched on the provider's product or variant ID. Custom data a buyer can edit, like
+ * Lemon Squeezy's checkout custom fields, is never trusted.
+ */
+function findPurchasedCreditPack(data: {
+	processor?: string;
+	metadata?: Record<string, unknown>;
+}): CreditPack | undefined {
+	const metadata = data.metadata ?? {};
+	const checkoutMetadata = (metadata.checkoutMetadata ?? {}) as Record<string, unknown>;
+	const packId = checkoutMetadata.creditPackId;
+	if (typeof packId === "string") {
+		const pack = creditPacks.find((candidate) => candidate.id === packId);
+		if (pack) {
+			return pack;
+		}
+	}
+
+	return findCreditPackByProduct(data.processor ?? "", [
+		metadata.productId as string | undefined,
+		metadata.variantId as string | undefined,
+		metadata.priceId as string | undefined,
+	]);
+}
+
+/**
+ * Emails the buyer a receipt for a payment
+ * A failed email is recorded in the email log and never fails the webhook.
+ */
+async function sendPaymentReceipt(
+	payment: Payment,
+	{
+		userId,
+		orderId,
+		amount,
+		metadata = {},
+	}: { userId: string; orderId: string; amount: number; metadata?: Record<string, unknown> }
+): Promise<void> {
+	const user = await safeDbExecute(
+		(db) =>
+			db.query.users.findFirst({
+				where: eq(users.id, userId),
+				columns: { id: true, email: true, name: true },
+			}),
+		undefined
+	);
+	if (!user?.email) {
+		logger.warn("No email address for payment receipt", { orderId });
+		return;
+	}
+
+	const currency = typeof metadata.currency === "string" ? metadata.currency.toUpperCase() : "USD";
+	await emailService.send(
+		"receipt",
+		{
+			name: user.name,
+			orderId,
+			productName: payment.productName ?? "Your purchase",
+			amount,
+			currency,
+			purchasedAt: payment.purchasedAt ?? payment.createdAt,
+			billingUrl: `${BASE_URL}${routes.settings.billing}`,
+		},
+		{
+			to: user.email,
+			userId: user.id,
+			metadata: { orderId, processor: payment.processor },
+		}
+	);
+}
+
+export type PaymentDataStatus = "paid" | "refunded" | "partially_refunded" | "disputed" | "pending";
 
 // Define PaymentData interface for frontend use
 export interface PaymentData {
@@ -43,7 +131,9 @@ export interface PaymentData {
 	userName: string | null;
 	userImage: string | null;
 	amount: number;
-	status: "paid" | "refunded" | "pending";
+	/** Amount refunded so far, in dollars like `amount` */
+	refundedAmount: number;
+	status: PaymentDataStatus;
 	productName: string;
 	variantName?: string | null;
 	purchaseDate: Date;
@@ -140,7 +230,9 @@ const PaymentService = {
 		// For LemonSqueezy specifically, also check our configured products
 		if (hasProvider("lemonsqueezy") && isProviderEnabled("lemonsqueezy")) {
 			try {
-				const { hasUserPurchasedAnyConfiguredProduct } = await import("@/lib/lemonsqueezy/lemonsqueezy");
+				const { hasUserPurchasedAnyConfiguredProduct } = await import(
+					"@/lib/lemonsqueezy/lemonsqueezy"
+				);
 				const hasConfiguredProducts = await hasUserPurchasedAnyConfiguredProduct(userId);
 				if (hasConfiguredProducts) {
 					status = true;
@@ -191,8 +283,10 @@ const PaymentService = {
 					return false;
 				}
 
-				// Check for specific variant purchases in the database
-				const userPayments = await db.select().from(payments).where(eq(payments.userId, userId));
+				// Check for specific variant purchases in the database; refunded purchases don't count
+				const userPayments = (
+					await db.select().from(payments).where(eq(payments.userId, userId))
+				).filter((payment) => PAID_PAYMENT_STATUSES.has(payment.status));
 
 				// Check if any payment metadata contains the variant ID
 				return userPayments.some((payment: any) => {
@@ -294,8 +388,10 @@ const PaymentService = {
 				}
 
 				// Check for specific product purchases in the database
-				// This would require additional metadata parsing
-				const userPayments = await db.select().from(payments).where(eq(payments.userId, userId));
+				// This would require additional metadata parsing; refunded purchases don't count
+				const userPayments = (
+					await db.select().from(payments).where(eq(payments.userId, userId))
+				).filter((payment) => PAID_PAYMENT_STATUSES.has(payment.status));
 
 				// Check if any payment metadata contains the product ID
 				return userPayments.some((payment: any) => {
@@ -365,24 +461,13 @@ const PaymentService = {
 		provider?: string;
 	}): Promise<boolean> {
 		try {
-			// Use safeDbExecute to handle database unavailability
-			const hasDbSubscription = await safeDbExecute(async (db) => {
-				// Check if the user exists
-				const user = await db
-					.select()
-					.from(users)
-					.where(eq(users.id, userId))
-					.limit(1)
-					.then((rows: any[]) => rows[0] || null);
-
-				if (!user) {
-					return false;
-				}
-
-				// For subscriptions, we rely more on the payment provider APIs
-				// since subscription status can change frequently
-				return false;
-			}, false);
+			// Subscriptions recorded from provider webhooks are the source of truth
+			const hasDbSubscription = await SubscriptionService.hasActiveSubscription(userId, {
+				processor: provider,
+			});
+			if (hasDbSubscription) {
+				return true;
+			}
 
 			// If provider is specified, only check that provider
 			if (provider && hasProvider(provider)) {
@@ -402,7 +487,7 @@ const PaymentService = {
 				}
 			}
 
-			return hasDbSubscription;
+			return false;
 		} catch (error) {
 			logger.error("Error checking if user has active subscription:", error);
 			return false;
@@ -431,8 +516,10 @@ const PaymentService = {
 					return [];
 				}
 
-				// Get user payments to extract product information
-				const userPayments = await db.select().from(payments).where(eq(payments.userId, userId));
+				// Get user payments to extract product information; refunded purchases don't count
+				const userPayments = (
+					await db.select().from(payments).where(eq(payments.userId, userId))
+				).filter((payment) => PAID_PAYMENT_STATUSES.has(payment.status));
 
 				// Extract unique products from payment metadata
 				const dbProductsMap = new Map<string, ProductData>();
@@ -536,11 +623,17 @@ const PaymentService = {
 		amount: number;
 		status: string;
 		processor?: string;
+		productName?: string | null;
+		purchasedAt?: Date | null;
 		isFreeProduct?: boolean;
 		metadata?: Record<string, unknown>;
+		/** Emails the user a receipt if this creates a new paid payment; set for purchases from webhooks */
+		sendReceipt?: boolean;
 	}): Promise<Payment | null> {
+		let payment: Payment | null;
+		let isNewPayment = false;
 		try {
-			return await safeDbExecute(async (db) => {
+			payment = await safeDbExecute(async (db) => {
 				// Check if the payment already exists
 				const existingPayment = await db
 					.select()
@@ -564,6 +657,8 @@ const PaymentService = {
 						amount: data.amount,
 						status: data.status,
 						processor: data.processor || "unknown",
+						productName: data.productName ?? null,
+						purchasedAt: data.purchasedAt ?? null,
 						isFreeProduct: data.isFreeProduct || false,
 						metadata: JSON.stringify(data.metadata || {}),
 						createdAt: new Date(),
@@ -572,6 +667,7 @@ const PaymentService = {
 					.returning()
 					.then((rows: any[]) => rows[0] || null);
 
+				isNewPayment = !!newPayment;
 				logger.info("Payment created", {
 					paymentId: newPayment?.id,
 					orderId: data.orderId,
@@ -587,6 +683,31 @@ const PaymentService = {
 			logger.error("Error creating payment", { error, orderId: data.orderId });
 			throw error;
 		}
+
+		// Grants are keyed on the order, so a retried webhook grants the credits once
+		const pack = payment ? findPurchasedCreditPack(data) : undefined;
+		if (pack && PAID_PAYMENT_STATUSES.has(data.status)) {
+			await grantCreditPackPurchase({
+				userId: data.userId,
+				pack,
+				orderId: data.orderId,
+				processor: data.processor || "unknown",
+			});
+		}
+
+		// Retried webhooks find the existing payment, so each order gets one receipt
+		if (
+			payment &&
+			isNewPayment &&
+			data.sendReceipt &&
+			PAID_PAYMENT_STATUSES.has(data.status) &&
+			data.amount > 0 &&
+			!data.isFreeProduct
+		) {
+			await sendPaymentReceipt(payment, data);
+		}
+
+		return payment;
 	},
 
 	/**
@@ -640,6 +761,34 @@ const PaymentService = {
 		}, null);
 	},
 
+	/**
+	 * Gets the provider customer ID recorded on a user's payments with a provider
+	 * Webhooks store the customer in the payment metadata, as `customerId` or `customer_id`.
+	 * @returns The customer ID from the user's most recent payment that has one, or null
+	 */
+	async getRecordedCustomerId(userId: string, processor: string): Promise<string | null> {
+		return safeDbExecute(async (db) => {
+			const rows = await db
+				.select({ metadata: payments.metadata })
+				.from(payments)
+				.where(and(eq(payments.userId, userId), eq(payments.processor, processor)))
+				.orderBy(desc(payments.createdAt));
+
+			for (const row of rows) {
+				try {
+					const metadata = JSON.parse(row.metadata ?? "{}") as Record<string, unknown>;
+					const customerId = metadata.customerId ?? metadata.customer_id;
+					if (typeof customerId === "string" || typeof customerId === "number") {
+						return String(customerId);
+					}
+				} catch {
+					// Skip payments with unreadable metadata
+				}
+			}
+			return null;
+		}, null);
+	},
+
 	/**
 	 * Gets all payments with user information for admin dashboard
 	 * This fetches from the database AND all configured payment providers,
@@ -715,7 +864,8 @@ const PaymentService = {
 						userName: user?.name || null,
 						userImage: user?.image || null,
 						amount: (payment.amount || 0) / 100,
-						status: payment.status as "paid" | "refunded" | "pending",
+						refundedAmount: payment.refundedAmount / 100,
+						status: payment.status as PaymentDataStatus,
 						productName,
 						variantName,
 						purchaseDate: payment.purchasedAt || new Date(payment.createdAt),
@@ -756,7 +906,9 @@ const PaymentService = {
 						if (existingEntry) {
 							// Update existing DB entry with potentially fresher API data
 							if (existingEntry.isInDatabase) {
-								existingEntry.status = order.status;
+								if (!REFUND_PAYMENT_STATUSES.has(existingEntry.status)) {
+									existingEntry.status = order.status;
+								}
 								existingEntry.amount = order.amount;
 								existingEntry.productName = order.productName || existingEntry.productName;
 								// Try to extract variant name from order attributes if available
@@ -818,6 +970,7 @@ const PaymentService = {
 								userName: order.userName || user?.name || null,
 								userImage: user?.image || null,
 								amount: order.amount,
+								refundedAmount: 0,
 								status: order.status,
 								productName: order.productName || "Unknown Product",
 								variantName,
@@ -873,6 +1026,9 @@ const PaymentService = {
 				// Get all payments
 				const allPayments = await db.select().from(payments);
 
+				// Get all subscriptions recorded from provider webhooks
+				const allSubscriptions = await db.select().from(subscriptions);
+
 				// Map users to UserData format
 				const userData: UserData[] = [];
 
@@ -927,17 +1083,23 @@ const PaymentService = {
 						};
 					});
 
+					// Subscription status comes from the local subscriptions table
+					const userSubscriptions = allSubscriptions.filter(
+						(subscription) => subscription.userId === user.id
+					);
+					const hasActiveSubscription = userSubscriptions.some((subscription) =>
+						isSubscriptionEntitled(subscription)
+					);
+
 					// Check payment status from all payment providers
 					const providers = getEnabledProviders();
 					const providerStatuses: Record<string, boolean> = {};
 					let hasPaid = false;
-					let hasActiveSubscription = false;
 
 					// Check each provider in parallel
 					const statusPromises = providers.map(async (provider) => {
 						try {
 							const paymentStatus = await provider.getPaymentStatus(user.id);
-							const subscriptionStatus = await provider.hasUserActiveSubscription(user.id);
 
 							providerStatuses[provider.id] = paymentStatus;
 
@@ -945,14 +1107,9 @@ const PaymentService = {
 								hasPaid = true;
 							}
 
-							if (subscriptionStatus) {
-								hasActiveSubscription = true;
-							}
-
 							return {
 								provider: provider.id,
 								paymentStatus,
-								subscriptionStatus,
 							};
 						} catch (error) {
 							const errorMessage = error instanceof Error ? error.message : String(error);
@@ -963,7 +1120,6 @@ const PaymentService = {
 							return {
 								provider: provider.id,
 								paymentStatus: false,
-								subscriptionStatus: false,
 								error: errorMessage,
 							};
 						}
@@ -971,13 +1127,15 @@ const PaymentService = {
 
 					await Promise.all(statusPromises);
 
-					const hadSubscription = user.metadata
-						? JSON.parse(user.metadata)?.hadSubscription || false
-						: false;
+					const hadSubscription =
+						userSubscriptions.length > 0 ||
+						(user.metadata ? JSON.parse(user.metadata)?.hadSubscription || false : false);
 
 					// Get the last purchase date
 					const lastPurchaseDate =
-						userPayments.length > 0 && userPayments[0]?.createdAt ? new Date(userPayments[0].createdAt) : null;
+						userPayments.length > 0 && userPayments[0]?.createdAt
+							? new Date(userPayments[0].createdAt)
+							: null;
 
 					// Create user data object
 					userData.push({
@@ -1101,6 +1259,7 @@ const PaymentService = {
 	async createCheckoutUrl(
 		options: {
 			productId: string;
+			mode?: "payment" | "subscription";
 			email?: string;
 			userId?: string;
 			metadata?: Record<string, any>;
@@ -1127,6 +1286,34 @@ const PaymentService = {
 		}
 	},
 
+	/**
+	 * Creates a customer portal URL
+	 * @param options Customer portal options
+	 * @param providerId The ID of the provider the customer pays through
+	 * @returns The portal URL, or null if the provider is unavailable or has no record of the customer
+	 */
+	async createCustomerPortalUrl(
+		options: CustomerPortalOptions,
+		providerId: string
+	): Promise<string | null> {
+		try {
+			const provider = getProvider(providerId);
+
+			if (!provider || !isProviderEnabled(providerId)) {
+				logger.error(`Provider ${providerId} not found or not enabled`);
+				return null;
+			}
+
+			return await provider.createCustomerPortalUrl(options);
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			logger.error(`Error creating customer portal URL with provider ${providerId}:`, {
+				error: errorMessage,
+			});
+			return null;
+		}
+	},
+
 	/**
 	 * Gets all available providers
 	 * @returns Array of provider information
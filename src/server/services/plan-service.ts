@@ -0,0 +1,287 @@
+/**
+ * @fileoverview Pricing plans synced from the payment providers
+ * @module server/services/plan-service
+ *
+ * The `plans` table mirrors the products and prices sold through Stripe, Lemon Squeezy and Polar,
+ * so the pricing page can be rendered without a code deploy when a price changes.
+ *
+ * - `syncPlans` pulls every enabled provider's `listProducts()` into `plans`, one row per price,
+ *   and archives rows the provider no longer returns
+ * - `getPricingTiers` groups the active rows into one tier per product, with its monthly, annual
+ *   and one-time prices, and merges in the CMS `pricing-plans` entries (feature bullets, name,
+ *   highlight and hidden flags)
+ *
+ * @see SubscriptionService.findPlanIdForVariant - Links subscriptions to the synced rows
+ */
+
+import { and, asc, eq, isNull, lt, or } from "drizzle-orm";
+import { logger } from "@/lib/logger";
+import { getPayloadCollection } from "@/lib/utils/get-payload-collection";
+import type { PricingPlan as PricingPlanEntry } from "@/payload-types";
+import { db, safeDbExecute } from "@/server/db";
+import { type NewPlan, type Plan, plans } from "@/server/db/schema";
+import { getEnabledProviders, initializePaymentProviders } from "@/server/providers";
+import { ErrorService } from "./error-service";
+
+export type PlanInterval = "day" | "week" | "month" | "year";
+
+/**
+ * A price shown on the pricing page
+ */
+export interface PricingTierPrice {
+	planId: number;
+	variantId: string;
+	/** Price in the smallest currency unit, e.g. cents */
+	amount: number;
+	currency: string;
+	interval: PlanInterval | null;
+	intervalCount: number | null;
+	trialInterval: PlanInterval | null;
+	trialIntervalCount: number | null;
+}
+
+/**
+ * A product on the pricing page with the prices it is sold at
+ */
+export interface PricingTier {
+	provider: string;
+	productId: string;
+	name: string;
+	description: string | null;
+	features: string[];
+	highlighted: boolean;
+	prices: {
+		monthly?: PricingTierPrice;
+		annual?: PricingTierPrice;
+		oneTime?: PricingTierPrice;
+	};
+}
+
+export interface PlanSyncResult {
+	provider: string;
+	synced: number;
+	archived: number;
+	error?: string;
+}
+
+type PricingPlanOverride = Pick<
+	PricingPlanEntry,
+	"productId" | "name" | "features" | "highlighted" | "hidden"
+>;
+
+const toInterval = (value: string | null): PlanInterval | null =>
+	value === "day" || value === "week" || value === "month" || value === "year" ? value : null;
+
+const parseFeatures = (value: string | null | undefined): string[] => {
+	try {
+		const parsed: unknown = JSON.parse(value ?? "[]");
+		return Array.isArray(parsed) ? parsed.filter((item) => typeof item === "string") : [];
+	} catch {
+		return [];
+	}
+};
+
+const toTierPrice = (plan: Plan): PricingTierPrice => ({
+	planId: plan.id,
+	variantId: plan.variantId,
+	amount: Number(plan.price),
+	currency: plan.currency,
+	interval: toInterval(plan.interval),
+	intervalCount: plan.intervalCount,
+	trialInterval: toInterval(plan.trialInterval),
+	trialIntervalCount: plan.trialIntervalCount,
+});
+
+/**
+ * Groups plan rows into pricing tiers, one per product
+ * Only single-month, single-year and one-time prices are shown; usage-based prices are left out.
+ * Products without a displayable price and products hidden in the CMS are dropped.
+ *
+ * @param rows - Active rows from the `plans` table, in display order
+ * @param overrides - CMS `pricing-plans` entries, matched by product ID
+ */
+export function buildPricingTiers(
+	rows: Plan[],
+	overrides: PricingPlanOverride[] = []
+): PricingTier[] {
+	const overridesByProduct = new Map(overrides.map((entry) => [entry.productId, entry]));
+	const tiers = new Map<string, PricingTier & { sort: number }>();
+
+	for (const row of rows) {
+		if (row.isUsageBased || !Number.isFinite(Number(row.price))) {
+			continue;
+		}
+
+		const key = `${row.provider}:${row.productId}`;
+		let tier = tiers.get(key);
+		if (!tier) {
+			const override = overridesByProduct.get(row.productId);
+			if (override?.hidden) {
+				continue;
+			}
+
+			const cmsFeatures = (override?.features ?? "")
+				.split("\n")
+				.map((feature) => feature.trim())
+				.filter(Boolean);
+
+			tier = {
+				provider: row.provider,
+				productId: row.productId,
+				name: override?.name || row.productName || row.name,
+				description: row.description,
+				features: cmsFeatures.length > 0 ? cmsFeatures : parseFeatures(row.features),
+				highlighted: override?.highlighted ?? false,
+				prices: {},
+				sort: row.sort ?? Number.MAX_SAFE_INTEGER,
+			};
+			tiers.set(key, tier);
+		}
+
+		const interval = toInterval(row.interval);
+		const slot =
+			interval === null
+				? "oneTime"
+				: (row.intervalCount ?? 1) !== 1
+					? null
+					: interval === "month"
+						? "monthly"
+						: interval === "year"
+							? "annual"
+							: null;
+
+		// The first row in display order wins when a product has several prices for a slot
+		if (slot && !tier.prices[slot]) {
+			tier.prices[slot] = toTierPrice(row);
+			tier.sort = Math.min(tier.sort, row.sort ?? Number.MAX_SAFE_INTEGER);
+		}
+	}
+
+	const startingAmount = (tier: PricingTier) =>
+		(tier.prices.monthly ?? tier.prices.oneTime ?? tier.prices.annual)?.amount ?? 0;
+
+	return [...tiers.values()]
+		.filter((tier) => Object.keys(tier.prices).length > 0)
+		.sort((a, b) => a.sort - b.sort || startingAmount(a) - startingAmount(b))
+		.map(({ sort: _sort, ...tier }) => tier);
+}
+
+export class PlanService {
+	/**
+	 * Pulls products and prices from every enabled provider into the `plans` table
+	 * Rows the provider no longer returns are archived rather than deleted, as subscriptions
+	 * reference them. A provider that fails to list its products keeps its rows untouched.
+	 */
+	async syncPlans(): Promise<PlanSyncResult[]> {
+		if (!db) {
+			throw new Error("Database not available");
+		}
+
+		await initializePaymentProviders();
+		const providers = getEnabledProviders();
+		if (providers.length === 0) {
+			logger.warn("No payment providers are enabled, skipping plan sync");
+			return [];
+		}
+
+		const results: PlanSyncResult[] = [];
+		for (const provider of providers) {
+			const syncedAt = new Date();
+			try {
+				const products = await provider.listProducts();
+				let synced = 0;
+
+				for (const product of products) {
+					for (const [index, variant] of (product.variants ?? []).entries()) {
+						const values: NewPlan = {
+							provider: provider.id,
+							productId: product.id,
+							productName: product.name,
+							variantId: variant.id,
+							name: variant.name,
+							description: product.description ?? null,
+							features: JSON.stringify(product.features ?? []),
+							price: String(variant.amount),
+							currency: variant.currency.toUpperCase(),
+							isUsageBased: variant.isUsageBased ?? false,
+							interval: variant.interval,
+							intervalCount: variant.intervalCount,
+							trialInterval: variant.trialInterval ?? null,
+							trialIntervalCount: variant.trialIntervalCount ?? null,
+							sort: variant.sort ?? index,
+							isArchived: false,
+							syncedAt,
+						};
+
+						await db
+							.insert(plans)
+							.values(values)
+							.onConflictDoUpdate({ target: [plans.provider, plans.variantId], set: values });
+						synced++;
+					}
+				}
+
+				const archived = await db
+					.update(plans)
+					.set({ isArchived: true })
+					.where(
+						and(
+							eq(plans.provider, provider.id),
+							eq(plans.isArchived, false),
+							or(isNull(plans.syncedAt), lt(plans.syncedAt, syncedAt))
+						)
+					)
+					.returning({ id: plans.id });
+
+				logger.info("Plans synced", {
+					provider: provider.id,
+					synced,
+					archived: archived.length,
+				});
+				results.push({ provider: provider.id, synced, archived: archived.length });
+			} catch (error) {
+				const appError = ErrorService.handleError(error);
+				logger.error("Plan sync failed", { provider: provider.id, error: appError.message });
+				results.push({ provider: provider.id, synced: 0, archived: 0, error: appError.message });
+			}
+		}
+
+		return results;
+	}
+
+	/**
+	 * Gets a plan that can still be bought
+	 * @returns The plan, or null if it does not exist or has been archived
+	 */
+	async getActivePlan(planId: number): Promise<Plan | null> {
+		return safeDbExecute(async (db) => {
+			const plan = await db.query.plans.findFirst({
+				where: and(eq(plans.id, planId), eq(plans.isArchived, false)),
+			});
+			return plan ?? null;
+		}, null);
+	}
+
+	/**
+	 * Gets the tiers for the pricing page
+	 * @returns The tiers, or an empty array when no plans have been synced
+	 */
+	async getPricingTiers(): Promise<PricingTier[]> {
+		const rows = await safeDbExecute(
+			(db) =>
+				db.query.plans.findMany({
+					where: eq(plans.isArchived, false),
+					orderBy: [asc(plans.sort), asc(plans.id)],
+				}),
+			[]
+		);
+		if (rows.length === 0) {
+			return [];
+		}
+
+		const overrides = await getPayloadCollection("pricing-plans", { limit: 100 });
+		return buildPricingTiers(rows, overrides);
+	}
+}
+
+export const planService = new PlanService();
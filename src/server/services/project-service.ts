@@ -3,6 +3,7 @@ import { LocalProjectStorage } from "@/lib/local-storage/project-storage";
 import { db } from "@/server/db";
 import { projectMembers, projects, teams } from "@/server/db/schema";
 import { BaseService } from "./base-service";
+import { entitlementService } from "./entitlement-service";
 import { teamService } from "./team-service";
 
 export class ProjectService extends BaseService<typeof projects> {
@@ -20,6 +21,7 @@ export class ProjectService extends BaseService<typeof projects> {
 	 * @param projectName - The name of the project.
 	 * @param creatorUserId - The ID of the user creating the project.
 	 * @returns The created project with its members, or undefined if db is not available.
+	 * @throws AppError with a FORBIDDEN code if the team's plan has no projects left.
 	 */
 	async createProject(teamId: string, projectName: string, creatorUserId: string) {
 		if (!db) {
@@ -53,6 +55,10 @@ export class ProjectService extends BaseService<typeof projects> {
 			// Best-effort mapping; fall through with original value if anything fails
 		}
 
+		if (effectiveTeamId) {
+			await entitlementService.assertWithinLimit({ teamId: effectiveTeamId }, "projectsPerTeam");
+		}
+
 		// Use optional chaining for the transaction
 		const transactionResult = await db?.transaction(async (tx) => {
 			await tx.insert(projects).values({
@@ -1,8 +1,11 @@
 import { Ratelimit } from "@upstash/ratelimit";
 import { Redis } from "@upstash/redis";
+import { and, eq, lt, sql } from "drizzle-orm";
 import { rateLimits as globalRateLimits } from "@/config/rate-limits";
 import { env } from "@/env";
 import { logger } from "@/lib/logger";
+import { db } from "@/server/db";
+import { rateLimitCounters } from "@/server/db/schema";
 import { ErrorService } from "./error-service";
 
 // Try to create Redis instance if configured
@@ -33,99 +36,384 @@ export interface RateLimitConfig {
 	blockDuration?: number; // in seconds
 }
 
-export class RateLimitService {
+export interface RateLimitStatus {
+	limit: number;
+	remaining: number;
+	reset: number; // Epoch ms when the current window ends
+}
+
+export interface RateLimitResult extends RateLimitStatus {
+	success: boolean;
+}
+
+export type RateLimitStoreName = "redis" | "postgres" | "memory";
+
+/**
+ * Where rate limit counters are kept
+ * `hit` consumes a request if one is left; `peek` reads the state without consuming.
+ */
+export interface RateLimitStore {
+	readonly name: RateLimitStoreName;
+	hit(action: string, identifier: string, config: RateLimitConfig): Promise<RateLimitResult>;
+	peek(action: string, identifier: string, config: RateLimitConfig): Promise<RateLimitStatus>;
+	reset(action: string, identifier: string, config: RateLimitConfig): Promise<void>;
+}
+
+interface SlidingWindow {
+	windowStart: number;
+	count: number;
+	previousCount: number;
+}
+
+/**
+ * Moves a sliding window forward to the window containing `now`
+ * The previous window's count is kept only if it is the window right before.
+ */
+function advanceWindow(
+	window: SlidingWindow | undefined,
+	config: RateLimitConfig,
+	now: number
+): SlidingWindow {
+	const durationMs = config.duration * 1000;
+	const windowStart = Math.floor(now / durationMs) * durationMs;
+
+	if (!window || window.windowStart < windowStart - durationMs) {
+		return { windowStart, count: 0, previousCount: 0 };
+	}
+	if (window.windowStart < windowStart) {
+		return { windowStart, count: 0, previousCount: window.count };
+	}
+	return window;
+}
+
+/**
+ * Computes the status of a sliding window
+ * The previous window's requests are weighted by how much of it still overlaps the sliding
+ * window, the same approximation Upstash uses.
+ */
+function getWindowStatus(window: SlidingWindow, config: RateLimitConfig, now: number) {
+	const durationMs = config.duration * 1000;
+	const overlap = 1 - (now - window.windowStart) / durationMs;
+	const used = Math.floor(window.previousCount * overlap) + window.count;
+
+	return {
+		used,
+		status: {
+			limit: config.requests,
+			remaining: Math.max(0, config.requests - used),
+			reset: window.windowStart + durationMs,
+		},
+	};
+}
+
+/**
+ * Upstash Redis store, shared by every instance of the app
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+	readonly name = "redis";
 	private limiters = new Map<string, Ratelimit>();
-	private readonly enabled = !!redis;
+
+	constructor(private readonly redis: Redis) {}
 
 	/**
-	 * Gets or creates a rate limiter for a specific key
+	 * Gets or creates the limiter of an action
 	 */
-	private getLimiter(key: string, config: RateLimitConfig): Ratelimit {
-		if (!this.enabled) {
-			throw new Error("Rate limiting is not enabled");
-		}
-
+	private getLimiter(action: string, config: RateLimitConfig): Ratelimit {
+		const key = `${action}:${config.requests}:${config.duration}`;
 		const existingLimiter = this.limiters.get(key);
 		if (existingLimiter) {
 			return existingLimiter;
 		}
 
 		const limiter = new Ratelimit({
-			redis: redis!,
+			redis: this.redis,
 			limiter: Ratelimit.slidingWindow(config.requests, `${config.duration}s`),
 			analytics: true,
-			prefix: `ratelimit:${key}`,
+			prefix: `ratelimit:${action}`,
 		});
 
 		this.limiters.set(key, limiter);
 		return limiter;
 	}
 
+	async hit(action: string, identifier: string, config: RateLimitConfig) {
+		const { success, limit, remaining, reset } = await this.getLimiter(action, config).limit(
+			identifier
+		);
+		return { success, limit, remaining, reset };
+	}
+
+	async peek(action: string, identifier: string, config: RateLimitConfig) {
+		const { limit, remaining, reset } = await this.getLimiter(action, config).getRemaining(
+			identifier
+		);
+		return { limit, remaining, reset };
+	}
+
+	async reset(action: string, identifier: string, config: RateLimitConfig) {
+		await this.getLimiter(action, config).resetUsedTokens(identifier);
+	}
+}
+
+/**
+ * In-process store for single-node deployments
+ * Keeps at most `maxEntries` windows, evicting the least recently used.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+	readonly name = "memory";
+	private windows = new Map<string, SlidingWindow>();
+
+	constructor(private readonly maxEntries = 10_000) {}
+
+	async hit(action: string, identifier: string, config: RateLimitConfig) {
+		const key = `${action}:${identifier}`;
+		const now = Date.now();
+		const window = advanceWindow(this.windows.get(key), config, now);
+		const { used, status } = getWindowStatus(window, config, now);
+		const success = used < config.requests;
+
+		const updated = success ? { ...window, count: window.count + 1 } : window;
+		this.touch(key, updated);
+
+		return {
+			success,
+			...(success ? getWindowStatus(updated, config, now).status : status),
+		};
+	}
+
+	async peek(action: string, identifier: string, config: RateLimitConfig) {
+		const now = Date.now();
+		const window = advanceWindow(this.windows.get(`${action}:${identifier}`), config, now);
+		return getWindowStatus(window, config, now).status;
+	}
+
+	async reset(action: string, identifier: string) {
+		this.windows.delete(`${action}:${identifier}`);
+	}
+
 	/**
-	 * Checks if a request should be rate limited
-	 */ async checkLimit(identifier: string, action: string, config: RateLimitConfig): Promise<void> {
-		// Skip rate limiting if Redis is not available
-		if (!this.enabled) {
-			logger.debug("Rate limiting disabled, skipping check", {
-				identifier,
-				action,
-			});
-			return;
+	 * Stores a window as the most recently used, evicting the oldest when full
+	 */
+	private touch(key: string, window: SlidingWindow) {
+		this.windows.delete(key);
+		this.windows.set(key, window);
+
+		if (this.windows.size > this.maxEntries) {
+			const oldest = this.windows.keys().next().value;
+			if (oldest !== undefined) {
+				this.windows.delete(oldest);
+			}
 		}
+	}
+}
+
+/** Expired counters are deleted once every this many hits per instance */
+const POSTGRES_PRUNE_INTERVAL = 1000;
 
-		const limiter = this.getLimiter(`${action}:${identifier}`, config);
-		const { success, limit, reset, remaining } = await limiter.limit(identifier);
+/**
+ * Postgres store for multi-node deployments without Redis
+ * Each hit is a single upsert, so concurrent requests on different nodes are counted correctly.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+	readonly name = "postgres";
+	private hitsSincePrune = 0;
+
+	async hit(action: string, identifier: string, config: RateLimitConfig) {
+		if (!db) {
+			throw new Error("Database not initialized");
+		}
+
+		const key = `${action}:${identifier}`;
+		const now = Date.now();
+		const durationMs = config.duration * 1000;
+		const windowStart = Math.floor(now / durationMs) * durationMs;
+
+		// Roll the stored window forward and count this request in one statement
+		const [row] = await db
+			.insert(rateLimitCounters)
+			.values({
+				key,
+				windowStart,
+				count: 1,
+				previousCount: 0,
+				expiresAt: new Date(windowStart + 2 * durationMs),
+			})
+			.onConflictDoUpdate({
+				target: rateLimitCounters.key,
+				set: {
+					previousCount: sql`CASE
+						WHEN ${rateLimitCounters.windowStart} = ${windowStart} THEN ${rateLimitCounters.previousCount}
+						WHEN ${rateLimitCounters.windowStart} = ${windowStart - durationMs} THEN ${rateLimitCounters.count}
+						ELSE 0 END`,
+					count: sql`CASE
+						WHEN ${rateLimitCounters.windowStart} = ${windowStart} THEN ${rateLimitCounters.count} + 1
+						ELSE 1 END`,
+					windowStart,
+					expiresAt: new Date(windowStart + 2 * durationMs),
+				},
+			})
+			.returning();
+
+		if (!row) {
+			throw new Error("Failed to update rate limit counter");
+		}
 
+		const { used, status } = getWindowStatus(row, config, now);
+		const success = used <= config.requests;
+
+		// Rejected requests do not count against the limit
 		if (!success) {
-			ErrorService.throwRateLimited("Too many requests", {
-				limit,
-				reset,
-				remaining,
-			});
+			await db
+				.update(rateLimitCounters)
+				.set({ count: sql`GREATEST(${rateLimitCounters.count} - 1, 0)` })
+				.where(and(eq(rateLimitCounters.key, key), eq(rateLimitCounters.windowStart, windowStart)));
 		}
+
+		void this.pruneOccasionally();
+
+		return { success, ...status };
+	}
+
+	async peek(action: string, identifier: string, config: RateLimitConfig) {
+		const now = Date.now();
+		const row = await db?.query.rateLimitCounters.findFirst({
+			where: eq(rateLimitCounters.key, `${action}:${identifier}`),
+		});
+		return getWindowStatus(advanceWindow(row, config, now), config, now).status;
+	}
+
+	async reset(action: string, identifier: string) {
+		await db?.delete(rateLimitCounters).where(eq(rateLimitCounters.key, `${action}:${identifier}`));
 	}
 
 	/**
-	 * Gets the current rate limit status
-	 */ async getStatus(
+	 * Deletes counters whose windows have ended
+	 */
+	private async pruneOccasionally() {
+		this.hitsSincePrune++;
+		if (this.hitsSincePrune < POSTGRES_PRUNE_INTERVAL) {
+			return;
+		}
+		this.hitsSincePrune = 0;
+
+		try {
+			await db?.delete(rateLimitCounters).where(lt(rateLimitCounters.expiresAt, new Date()));
+		} catch (error) {
+			logger.warn("Failed to prune rate limit counters", { error });
+		}
+	}
+}
+
+let defaultStore: RateLimitStore | null = null;
+
+/**
+ * Picks the store from `RATE_LIMIT_STORE`, shared by every `RateLimitService`
+ * Defaults to Redis when Upstash is configured, otherwise memory.
+ */
+function getDefaultRateLimitStore(): RateLimitStore {
+	defaultStore ??= createRateLimitStore();
+	return defaultStore;
+}
+
+function createRateLimitStore(): RateLimitStore {
+	const preferred: RateLimitStoreName = env.RATE_LIMIT_STORE ?? (redis ? "redis" : "memory");
+
+	if (preferred === "redis" && redis) {
+		return new RedisRateLimitStore(redis);
+	}
+	if (preferred === "postgres" && db) {
+		return new PostgresRateLimitStore();
+	}
+	if (preferred !== "memory") {
+		logger.warn(`Rate limit store "${preferred}" is not configured, using in-memory limits`);
+	}
+	return new MemoryRateLimitStore();
+}
+
+/**
+ * Builds the standard `RateLimit-*` response headers
+ * `RateLimit-Reset` is the number of seconds until the window ends.
+ */
+export function getRateLimitHeaders(
+	status: RateLimitStatus,
+	config?: RateLimitConfig
+): Record<string, string> {
+	const headers: Record<string, string> = {
+		"RateLimit-Limit": String(status.limit),
+		"RateLimit-Remaining": String(Math.max(0, status.remaining)),
+		"RateLimit-Reset": String(Math.max(0, Math.ceil((status.reset - Date.now()) / 1000))),
+	};
+
+	if (config) {
+		headers["RateLimit-Policy"] = `${config.requests};w=${config.duration}`;
+	}
+
+	return headers;
+}
+
+export class RateLimitService {
+	private readonly store: RateLimitStore;
+
+	constructor(store?: RateLimitStore) {
+		this.store = store ?? getDefaultRateLimitStore();
+	}
+
+	/**
+	 * Checks if a request should be rate limited, counting it against the limit
+	 * A failing store lets the request through rather than taking the app down with it.
+	 * @returns The rate limit status after this request
+	 * @throws AppError with a RATE_LIMITED code, with the status as metadata
+	 */
+	async checkLimit(
 		identifier: string,
-		action: string
-	): Promise<{
-		limit: number;
-		remaining: number;
-		reset: number;
-	}> {
-		if (!this.enabled) {
-			return {
-				limit: Number.POSITIVE_INFINITY,
-				remaining: Number.POSITIVE_INFINITY,
-				reset: 0,
-			};
+		action: string,
+		config: RateLimitConfig
+	): Promise<RateLimitStatus> {
+		let result: RateLimitResult;
+		try {
+			result = await this.store.hit(action, identifier, config);
+		} catch (error) {
+			logger.error("Rate limit store failed, allowing request", {
+				store: this.store.name,
+				action,
+				error: error instanceof Error ? error.message : String(error),
+			});
+			return { limit: config.requests, remaining: config.requests, reset: Date.now() };
+		}
+
+		const { success, ...status } = result;
+		if (!success) {
+			ErrorService.throwRateLimited("Too many requests", { ...status });
 		}
 
-		const key = `ratelimit:${action}:${identifier}`;
-		// @ts-expect-error
-		const [[limit], [remaining], [reset]] = await redis!
-			.pipeline()
-			.get(`${key}:limit`)
-			.get(`${key}:remaining`)
-			.get(`${key}:reset`)
-			.exec();
+		return status;
+	}
 
-		return {
-			limit: Number(limit) || 0,
-			remaining: Number(remaining) || 0,
-			reset: Number(reset) || 0,
-		};
+	/**
+	 * Gets the current rate limit status without counting a request
+	 */
+	async getStatus(
+		identifier: string,
+		action: string,
+		config: RateLimitConfig
+	): Promise<RateLimitStatus> {
+		try {
+			return await this.store.peek(action, identifier, config);
+		} catch (error) {
+			logger.error("Failed to read rate limit status", {
+				store: this.store.name,
+				action,
+				error: error instanceof Error ? error.message : String(error),
+			});
+			return { limit: config.requests, remaining: config.requests, reset: Date.now() };
+		}
 	}
 
 	/**
 	 * Resets rate limit for a specific identifier and action
-	 */ async resetLimit(identifier: string, action: string): Promise<void> {
-		if (!this.enabled) return;
-
-		const key = `ratelimit:${action}:${identifier}`;
-		await redis!.pipeline().del(`${key}:limit`).del(`${key}:remaining`).del(`${key}:reset`).exec();
+	 */
+	async resetLimit(identifier: string, action: string, config: RateLimitConfig): Promise<void> {
+		await this.store.reset(action, identifier, config);
 	}
 }
 
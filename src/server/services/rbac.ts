@@ -1,15 +1,28 @@
 import { and, eq, inArray } from "drizzle-orm";
 import { type NextRequest, NextResponse } from "next/server";
+import { DEFAULT_RBAC_ROLES, type RbacPermissionKey, type RbacScope } from "@/config/rbac";
+import { getPayloadClient } from "@/lib/payload/payload";
 import { auth } from "@/server/auth";
 import { db } from "@/server/db";
 import {
 	permissions,
 	projectMembers,
+	projects,
 	rolePermissions,
 	roles,
 	teamMembers,
+	users,
 } from "@/server/db/schema";
 import { BaseService } from "./base-service";
+import { cacheService } from "./cache-service";
+
+const ROLE_PERMISSIONS_CACHE_KEY = "rbac:role-permissions";
+
+/**
+ * Every signed-in user holds this global role in addition to their `user.role`
+ * It only applies outside teams and projects, where the user's membership role decides instead.
+ */
+export const BASE_GLOBAL_ROLE = "user";
 
 export interface Permission {
 	id: string;
@@ -34,6 +47,31 @@ export interface Role {
 	permissions: Permission[];
 }
 
+/** A role held by a user in one scope */
+export interface ScopedRole {
+	scope: RbacScope;
+	name: string;
+}
+
+/** A role with its effective permissions, as shown on the admin Roles page */
+export interface RoleMapping extends ScopedRole {
+	description: string | null;
+	permissions: string[];
+	/** True once the role has been saved to the database, false while it uses the defaults */
+	isCustomized: boolean;
+}
+
+const roleKey = ({ scope, name }: ScopedRole) => `${scope}:${name.toLowerCase()}`;
+
+/**
+ * Checks whether a set of permission keys grants an action on a resource
+ * The `manage` action grants every action on its resource.
+ */
+export function permissionsGrant(granted: Iterable<string>, resource: string, action: string) {
+	const keys = new Set(granted);
+	return keys.has(`${resource}:${action}`) || keys.has(`${resource}:manage`);
+}
+
 /**
  * Role-Based Access Control (RBAC) Service
  *
@@ -55,7 +93,12 @@ export class RBACService extends BaseService<typeof roles> {
 	/**
 	 * Create a new role with the given permissions
 	 */
-	async createRole(name: string, description?: string, permissionIds: string[] = []) {
+	async createRole(
+		name: string,
+		description?: string,
+		permissionIds: string[] = [],
+		scope: RbacScope = "team"
+	) {
 		return await db?.transaction(async (tx) => {
 			const role = await tx
 				.insert(roles)
@@ -63,6 +106,7 @@ export class RBACService extends BaseService<typeof roles> {
 					id: crypto.randomUUID(),
 					name,
 					description,
+					scope,
 					createdAt: new Date(),
 					updatedAt: new Date(),
 				})
@@ -91,6 +135,10 @@ export class RBACService extends BaseService<typeof roles> {
 
 	/**
 	 * Check if a user has the required permission for a resource
+	 *
+	 * Without a context the user's global roles apply. With a team or project context, the user's
+	 * role in that team or project applies, along with promoted global roles such as "admin";
+	 * project checks also include the role in the project's team.
 	 */
 	async hasPermission(
 		userId: string,
@@ -101,72 +149,259 @@ export class RBACService extends BaseService<typeof roles> {
 			projectId?: string;
 		}
 	): Promise<boolean> {
-		// Get user's roles based on context
 		const userRoles = await this.getUserRoles(userId, context);
-
-		// If userRoles is undefined (db error), return false
-		if (!userRoles) {
-			return false;
-		}
-
-		// Get permissions for these roles
-		const roleIds = userRoles.map((r) => r.role);
-
-		if (roleIds.length === 0) {
+		if (userRoles.length === 0) {
 			return false;
 		}
 
-		const perms = await db
-			?.select()
-			.from(permissions)
-			.innerJoin(rolePermissions, eq(permissions.id, rolePermissions.permissionId))
-			.where(
-				and(
-					eq(permissions.resource, resource),
-					eq(permissions.action, action),
-					inArray(rolePermissions.roleId, roleIds)
-				)
-			);
-
-		// If perms is undefined or empty, return false
-		return !!perms && perms.length > 0;
+		const rolePermissionMap = await this.getRolePermissionMap();
+		return userRoles.some((role) =>
+			permissionsGrant(rolePermissionMap[roleKey(role)] ?? [], resource, action)
+		);
 	}
 
 	/**
-	 * Get all roles assigned to a user in a specific context
+	 * Get all roles held by a user in a context
 	 */
-	private async getUserRoles(
+	async getUserRoles(
 		userId: string,
 		context?: {
 			teamId?: string;
 			projectId?: string;
 		}
-	) {
-		if (context?.teamId) {
-			// Get team roles
-			return db?.query.teamMembers.findMany({
-				where: and(eq(teamMembers.userId, userId), eq(teamMembers.teamId, context.teamId)),
-				with: {
-					team: true,
-				},
-			});
+	): Promise<ScopedRole[]> {
+		if (!db) {
+			return [];
 		}
 
+		const user = await db.query.users.findFirst({
+			where: eq(users.id, userId),
+			columns: { role: true },
+		});
+		if (!user) {
+			return [];
+		}
+
+		// The base role's permissions are for the user's own resources, not for teams they join
+		const userRoles: ScopedRole[] =
+			context?.teamId || context?.projectId ? [] : [{ scope: "global", name: BASE_GLOBAL_ROLE }];
+		if (user.role && user.role !== BASE_GLOBAL_ROLE) {
+			userRoles.push({ scope: "global", name: user.role });
+		}
+
+		let teamId = context?.teamId;
+
 		if (context?.projectId) {
-			// Get project roles
-			return db?.query.projectMembers.findMany({
+			const membership = await db.query.projectMembers.findFirst({
 				where: and(
 					eq(projectMembers.userId, userId),
 					eq(projectMembers.projectId, context.projectId)
 				),
-				with: {
-					project: true,
-				},
+				columns: { role: true },
+			});
+			if (membership) {
+				userRoles.push({ scope: "project", name: membership.role });
+			}
+
+			// Team roles carry over to the team's projects
+			const project = await db.query.projects.findFirst({
+				where: eq(projects.id, context.projectId),
+				columns: { teamId: true },
 			});
+			teamId ??= project?.teamId ?? undefined;
+		}
+
+		if (teamId) {
+			const membership = await db.query.teamMembers.findFirst({
+				where: and(eq(teamMembers.userId, userId), eq(teamMembers.teamId, teamId)),
+				columns: { role: true },
+			});
+			if (membership) {
+				userRoles.push({ scope: "team", name: membership.role });
+			}
+		}
+
+		return userRoles;
+	}
+
+	/**
+	 * Gets the permission keys granted to each role, keyed by `scope:name`
+	 * Roles saved in the database override the defaults from `@/config/rbac`.
+	 */
+	async getRolePermissionMap(): Promise<Record<string, string[]>> {
+		return cacheService.getOrSet(
+			ROLE_PERMISSIONS_CACHE_KEY,
+			async () => {
+				const map: Record<string, string[]> = {};
+				for (const role of await this.getRoleMappings()) {
+					map[roleKey(role)] = role.permissions;
+				}
+				return map;
+			},
+			{ ttl: 300 }
+		);
+	}
+
+	/**
+	 * Gets every role with its effective permissions
+	 * Includes the default roles that have not been customized yet.
+	 */
+	async getRoleMappings(): Promise<RoleMapping[]> {
+		const mappings = new Map<string, RoleMapping>();
+
+		for (const role of DEFAULT_RBAC_ROLES) {
+			mappings.set(roleKey(role), {
+				scope: role.scope,
+				name: role.name,
+				description: role.description,
+				permissions: [...role.permissions],
+				isCustomized: false,
+			});
+		}
+
+		const storedRoles = (await this.getAllRolesWithPermissions()) ?? [];
+		for (const role of storedRoles) {
+			const scopedRole = { scope: role.scope, name: role.name.toLowerCase() };
+			mappings.set(roleKey(scopedRole), {
+				...scopedRole,
+				description: role.description,
+				permissions: role.permissions.map(
+					({ permission }) => `${permission.resource}:${permission.action}`
+				),
+				isCustomized: true,
+			});
+		}
+
+		return [...mappings.values()];
+	}
+
+	/**
+	 * Replaces the permissions of a role, creating the role and any missing permissions
+	 * @param role - The scope and name of the role
+	 * @param permissionKeys - Permission keys in `resource:action` form
+	 */
+	async setRolePermissions(
+		role: ScopedRole & { description?: string | null },
+		permissionKeys: RbacPermissionKey[]
+	) {
+		if (!db) {
+			throw new Error("Database not initialized");
+		}
+
+		const name = role.name.trim().toLowerCase();
+		const keys = [...new Set(permissionKeys)];
+
+		await db.transaction(async (tx) => {
+			const existingPermissions = await tx.select().from(permissions);
+			const permissionIds = new Map(
+				existingPermissions.map((permission) => [
+					`${permission.resource}:${permission.action}`,
+					permission.id,
+				])
+			);
+
+			const missing = keys.filter((key) => !permissionIds.has(key));
+			if (missing.length > 0) {
+				const created = await tx
+					.insert(permissions)
+					.values(
+						missing.map((key) => {
+							const [resource = "", action = ""] = key.split(":");
+							return {
+								name: key,
+								description: `Can ${action} ${resource.replace("_", " ")}`,
+								resource,
+								action,
+							};
+						})
+					)
+					.returning();
+				for (const permission of created) {
+					permissionIds.set(`${permission.resource}:${permission.action}`, permission.id);
+				}
+			}
+
+			const [storedRole] = await tx
+				.insert(roles)
+				.values({
+					name,
+					scope: role.scope,
+					description: role.description ?? null,
+					isSystem: DEFAULT_RBAC_ROLES.some(
+						(defaultRole) => defaultRole.scope === role.scope && defaultRole.name === name
+					),
+				})
+				.onConflictDoUpdate({
+					target: [roles.name, roles.scope],
+					set: { updatedAt: new Date() },
+				})
+				.returning();
+
+			if (!storedRole) {
+				throw new Error("Failed to save role");
+			}
+
+			await tx.delete(rolePermissions).where(eq(rolePermissions.roleId, storedRole.id));
+			if (keys.length > 0) {
+				await tx.insert(rolePermissions).values(
+					keys.map((key) => ({
+						roleId: storedRole.id,
+						permissionId: permissionIds.get(key) ?? "",
+					}))
+				);
+			}
+		});
+
+		await cacheService.delete(ROLE_PERMISSIONS_CACHE_KEY);
+	}
+
+	/**
+	 * Deletes the stored copy of a role so it falls back to its defaults
+	 * Custom roles without defaults are removed entirely.
+	 */
+	async resetRole(role: ScopedRole) {
+		await db
+			?.delete(roles)
+			.where(and(eq(roles.name, role.name.toLowerCase()), eq(roles.scope, role.scope)));
+		await cacheService.delete(ROLE_PERMISSIONS_CACHE_KEY);
+	}
+
+	/**
+	 * Imports the roles defined in the CMS `rbac` collection (see `seedRbac`)
+	 * Each CMS role is saved for both the team and project scopes.
+	 * @returns The number of roles imported
+	 */
+	async importRolesFromCms(): Promise<number> {
+		const payload = await getPayloadClient();
+		if (!payload) {
+			throw new Error("The CMS is not enabled");
+		}
+
+		const { docs } = await payload.find({
+			collection: "rbac",
+			where: { type: { equals: "role" } },
+			depth: 1,
+			limit: 100,
+		});
+
+		let imported = 0;
+		for (const doc of docs) {
+			const keys = (doc.permissions ?? []).flatMap((permission) =>
+				typeof permission === "object" && permission.resource && permission.action
+					? [`${permission.resource}:${permission.action}` as RbacPermissionKey]
+					: []
+			);
+
+			for (const scope of ["team", "project"] as const) {
+				await this.setRolePermissions(
+					{ scope, name: doc.name, description: doc.description },
+					keys
+				);
+				imported++;
+			}
 		}
 
-		// Get global roles (future implementation)
-		return []; // Return empty array if no context or db error
+		return imported;
 	}
 
 	/**
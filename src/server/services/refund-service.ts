@@ -0,0 +1,440 @@
+/**
+ * @fileoverview Refunds and disputes
+ * @module server/services/refund-service
+ *
+ * Refunds and disputes reported by provider webhooks, and refunds issued by admins, all end up
+ * here. Recording one updates the `payments` row and takes back what the purchase granted:
+ * - Credits from a credit pack, in proportion to the amount refunded
+ * - GitHub repository access, once the user has no other paid payment or active subscription
+ * - Downloads, which only count payments with a paid status
+ *
+ * Providers report the total refunded so far rather than each refund, so recording is
+ * idempotent: a webhook retry, or the webhook for a refund an admin issued here, changes nothing.
+ */
+
+import { eq, inArray } from "drizzle-orm";
+import { BASE_URL } from "@/config/base-url";
+import { routes } from "@/config/routes";
+import { logger } from "@/lib/logger";
+import { safeDbExecute } from "@/server/db";
+import { type NewPayment, type Payment, payments, users } from "@/server/db/schema";
+import type { PaymentRefundKind } from "@/server/email/templates/payment-refunded";
+import { getProvider, isProviderEnabled } from "@/server/providers";
+import { type AuditActor, auditService } from "./audit-service";
+import { revokeCreditPackPurchase } from "./credits";
+import { emailService } from "./email-service";
+import { ErrorService } from "./error-service";
+import { revokeGitHubAccess } from "./github/github-service";
+import { SubscriptionService } from "./subscription-service";
+
+/** Statuses that still grant access; a partial refund keeps the purchase */
+const PAID_PAYMENT_STATUSES = ["completed", "paid", "partially_refunded"];
+
+export type DisputeStatus = "open" | "won" | "lost";
+
+interface PaymentDispute {
+	id: string;
+	status: DisputeStatus;
+	reason?: string | null;
+	amount?: number | null;
+	/** The status to restore if the dispute is won */
+	previousStatus: string;
+}
+
+const parseMetadata = (payment: Payment): Record<string, unknown> => {
+	try {
+		return JSON.parse(payment.metadata ?? "{}");
+	} catch {
+		return {};
+	}
+};
+
+/**
+ * Finds the payment for an order
+ * Stripe can record one payment under its checkout session and its payment intent, so the
+ * first of the order IDs that has a payment is used.
+ */
+async function findPayment(orderIds: string[]): Promise<Payment | null> {
+	if (orderIds.length === 0) {
+		return null;
+	}
+
+	const rows = await safeDbExecute(
+		(db) => db.select().from(payments).where(inArray(payments.orderId, orderIds)),
+		[] as Payment[]
+	);
+	for (const orderId of orderIds) {
+		const payment = rows.find((row) => row.orderId === orderId);
+		if (payment) {
+			return payment;
+		}
+	}
+	return null;
+}
+
+async function updatePayments(
+	orderIds: string[],
+	values: Partial<NewPayment>
+): Promise<Payment | null> {
+	return safeDbExecute(async (db) => {
+		const updated = await db
+			.update(payments)
+			.set({ ...values, updatedAt: new Date() })
+			.where(inArray(payments.orderId, orderIds))
+			.returning();
+		return updated[0] ?? null;
+	}, null);
+}
+
+/**
+ * Takes back the credits an order granted
+ * Only one of the order IDs of a payment holds the grant, so each is tried.
+ */
+async function revokeCredits(
+	payment: Payment,
+	orderIds: string[],
+	fraction: number,
+	refundKey: string
+): Promise<void> {
+	if (fraction <= 0) {
+		return;
+	}
+
+	for (const orderId of orderIds) {
+		try {
+			await revokeCreditPackPurchase({
+				userId: payment.userId,
+				orderId,
+				processor: payment.processor ?? "unknown",
+				fraction,
+				refundKey,
+			});
+		} catch (error) {
+			logger.error("Failed to revoke credits for refunded order", {
+				error,
+				orderId,
+				userId: payment.userId,
+			});
+		}
+	}
+}
+
+/**
+ * Removes the user's GitHub repository access, unless another purchase still grants it
+ * A failure is logged, not thrown: the refund has already happened at the provider.
+ */
+async function revokeAccessIfUnpaid(userId: string): Promise<boolean> {
+	const [paidPayment, hasSubscription] = await Promise.all([
+		safeDbExecute(
+			(db) =>
+				db.query.payments.findFirst({
+					where: (table, { and }) =>
+						and(eq(table.userId, userId), inArray(table.status, PAID_PAYMENT_STATUSES)),
+					columns: { id: true },
+				}),
+			undefined
+		),
+		SubscriptionService.hasActiveSubscription(userId),
+	]);
+	if (paidPayment || hasSubscription) {
+		logger.info("User still has a paid purchase, keeping access", { userId });
+		return false;
+	}
+
+	try {
+		return (await revokeGitHubAccess(userId)) ?? false;
+	} catch (error) {
+		logger.error("Failed to revoke GitHub access after refund", { error, userId });
+		return false;
+	}
+}
+
+async function notifyUser(
+	payment: Payment,
+	{ kind, amount }: { kind: PaymentRefundKind; amount: number }
+): Promise<void> {
+	const user = await safeDbExecute(
+		(db) =>
+			db.query.users.findFirst({
+				where: eq(users.id, payment.userId),
+				columns: { id: true, email: true, name: true },
+			}),
+		undefined
+	);
+	if (!user?.email) {
+		logger.warn("No email address for refund notification", { orderId: payment.orderId });
+		return;
+	}
+
+	const metadata = parseMetadata(payment);
+	const currency = typeof metadata.currency === "string" ? metadata.currency.toUpperCase() : "USD";
+	await emailService.send(
+		"payment-refunded",
+		{
+			name: user.name,
+			orderId: payment.orderId ?? String(payment.id),
+			productName: payment.productName ?? "Your purchase",
+			amount,
+			currency,
+			kind,
+			billingUrl: `${BASE_URL}${routes.settings.billing}`,
+		},
+		{
+			to: user.email,
+			userId: user.id,
+			metadata: { orderId: payment.orderId, processor: payment.processor, kind },
+		}
+	);
+}
+
+const RefundService = {
+	/**
+	 * Records a full or partial refund of a payment
+	 * @param orderId - The order ID the payment was recorded under
+	 * @param relatedOrderIds - Other order IDs the same payment may be recorded under
+	 * @param refundedAmount - Total refunded so far in cents; omit for a full refund
+	 * @param actor - The admin who issued the refund; null when reported by a webhook
+	 * @returns The updated payment, or null if no payment was recorded for the order
+	 */
+	async recordRefund({
+		processor,
+		orderId,
+		relatedOrderIds = [],
+		refundedAmount,
+		reason,
+		actor = null,
+	}: {
+		processor: string;
+		orderId: string;
+		relatedOrderIds?: string[];
+		refundedAmount?: number;
+		reason?: string | null;
+		actor?: AuditActor | null;
+	}): Promise<Payment | null> {
+		const orderIds = [...new Set([orderId, ...relatedOrderIds])];
+		const payment = await findPayment(orderIds);
+		if (!payment) {
+			logger.warn("No payment recorded for refunded order", { processor, orderIds });
+			return null;
+		}
+
+		const total = payment.amount ?? 0;
+		const refunded = Math.min(refundedAmount ?? total, total);
+		const isFullRefund = refunded >= total;
+		if (payment.status === "refunded" || (!isFullRefund && refunded <= payment.refundedAmount)) {
+			logger.debug("Refund already recorded", { orderId: payment.orderId, refunded });
+			return payment;
+		}
+
+		const refundedNow = Math.max(refunded - payment.refundedAmount, 0);
+		const status = isFullRefund ? "refunded" : "partially_refunded";
+		const updated = await updatePayments(orderIds, {
+			status,
+			refundedAmount: refunded,
+			refundedAt: new Date(),
+		});
+		if (!updated) {
+			return null;
+		}
+
+		logger.info("Payment refunded", {
+			paymentId: payment.id,
+			orderId: payment.orderId,
+			processor,
+			status,
+			refundedNow,
+			refunded,
+		});
+
+		// A retried webhook reports the same total, so the key deducts each refund once
+		await revokeCredits(payment, orderIds, total > 0 ? refundedNow / total : 1, String(refunded));
+		const accessRevoked = isFullRefund ? await revokeAccessIfUnpaid(payment.userId) : false;
+
+		await notifyUser(updated, {
+			kind: isFullRefund ? "refund" : "partial_refund",
+			amount: refundedNow,
+		});
+		await auditService.record({
+			action: "payments.refunded",
+			actor,
+			target: { type: "payment", id: String(payment.id) },
+			before: { status: payment.status, refundedAmount: payment.refundedAmount },
+			after: { status, refundedAmount: refunded },
+			metadata: { processor, orderId: payment.orderId, reason: reason ?? null, accessRevoked },
+		});
+
+		return updated;
+	},
+
+	/**
+	 * Records a dispute (chargeback) of a payment
+	 * Opening a dispute revokes access straight away. Winning it restores the payment's status,
+	 * but not the credits or GitHub access, which the user gets back by reconnecting GitHub and
+	 * an admin can re-grant. Losing it marks the payment as refunded.
+	 * @param amount - The disputed amount in cents
+	 * @returns The updated payment, or null if no payment was recorded for the order
+	 */
+	async recordDispute({
+		processor,
+		orderId,
+		relatedOrderIds = [],
+		disputeId,
+		status,
+		amount,
+		reason,
+	}: {
+		processor: string;
+		orderId: string;
+		relatedOrderIds?: string[];
+		disputeId: string;
+		status: DisputeStatus;
+		amount?: number | null;
+		reason?: string | null;
+	}): Promise<Payment | null> {
+		const orderIds = [...new Set([orderId, ...relatedOrderIds])];
+		const payment = await findPayment(orderIds);
+		if (!payment) {
+			logger.warn("No payment recorded for disputed order", { processor, orderIds, disputeId });
+			return null;
+		}
+
+		const metadata = parseMetadata(payment);
+		const existing = metadata.dispute as PaymentDispute | undefined;
+		if (existing?.id === disputeId && existing.status === status) {
+			logger.debug("Dispute already recorded", { disputeId, status });
+			return payment;
+		}
+
+		const dispute: PaymentDispute = {
+			id: disputeId,
+			status,
+			reason: reason ?? existing?.reason ?? null,
+			amount: amount ?? existing?.amount ?? null,
+			previousStatus: existing?.id === disputeId ? existing.previousStatus : payment.status,
+		};
+		const wasOpen = existing?.id === disputeId && existing.status === "open";
+		const total = payment.amount ?? 0;
+
+		let nextStatus: string;
+		if (status === "open") {
+			nextStatus = "disputed";
+		} else if (status === "won") {
+			nextStatus = dispute.previousStatus;
+		} else {
+			nextStatus = "refunded";
+		}
+
+		const updated = await updatePayments(orderIds, {
+			status: nextStatus,
+			metadata: JSON.stringify({ ...metadata, dispute }),
+			...(status === "lost" ? { refundedAmount: total } : {}),
+			...(status !== "won" ? { refundedAt: new Date() } : {}),
+		});
+		if (!updated) {
+			return null;
+		}
+
+		logger.info("Payment dispute updated", {
+			paymentId: payment.id,
+			orderId: payment.orderId,
+			processor,
+			disputeId,
+			status,
+		});
+
+		// Access is revoked once per dispute: when it opens, or when it is lost without an open event
+		let accessRevoked = false;
+		if (status !== "won" && !wasOpen && payment.status !== "refunded") {
+			const remaining = total - payment.refundedAmount;
+			await revokeCredits(
+				payment,
+				orderIds,
+				total > 0 ? remaining / total : 1,
+				`dispute:${disputeId}`
+			);
+			accessRevoked = await revokeAccessIfUnpaid(payment.userId);
+			await notifyUser(updated, { kind: "dispute", amount: dispute.amount ?? remaining });
+		}
+
+		await auditService.record({
+			action: "payments.disputed",
+			actor: null,
+			target: { type: "payment", id: String(payment.id) },
+			before: { status: payment.status },
+			after: { status: nextStatus },
+			metadata: { processor, orderId: payment.orderId, disputeId, dispute: status, accessRevoked },
+		});
+
+		return updated;
+	},
+
+	/**
+	 * Refunds a payment through its provider and records the refund
+	 * @param amount - Amount to refund in cents; defaults to the amount not yet refunded
+	 * @throws NOT_FOUND if there is no such payment
+	 * @throws CONFLICT if the payment is not paid, or BAD_REQUEST if the amount is invalid
+	 */
+	async issueRefund({
+		paymentId,
+		amount,
+		reason,
+		actor,
+	}: {
+		paymentId: number;
+		amount?: number;
+		reason?: string | null;
+		actor: AuditActor;
+	}): Promise<Payment | null> {
+		const payment = await safeDbExecute(
+			(db) => db.query.payments.findFirst({ where: eq(payments.id, paymentId) }),
+			undefined
+		);
+		if (!payment?.orderId) {
+			ErrorService.throwNotFound("Payment not found", { paymentId });
+		}
+		if (!PAID_PAYMENT_STATUSES.includes(payment.status) || payment.isFreeProduct) {
+			ErrorService.throwConflict(`A ${payment.status} payment cannot be refunded`, { paymentId });
+		}
+
+		const remaining = (payment.amount ?? 0) - payment.refundedAmount;
+		const refundAmount = amount ?? remaining;
+		if (!Number.isInteger(refundAmount) || refundAmount <= 0 || refundAmount > remaining) {
+			ErrorService.throwBadRequest(
+				"The refund amount must be between 0 and the amount not yet refunded",
+				{
+					paymentId,
+					amount: refundAmount,
+					remaining,
+				}
+			);
+		}
+
+		const processor = payment.processor ?? "unknown";
+		const provider = getProvider(processor);
+		if (!provider || !isProviderEnabled(processor)) {
+			ErrorService.throwBadRequest(`Payment provider ${processor} is not enabled`, { paymentId });
+		}
+
+		const result = await provider.refundPayment({
+			orderId: payment.processorOrderId ?? payment.orderId,
+			amount: refundAmount,
+			reason: reason ?? undefined,
+		});
+		logger.info("Refund issued", {
+			paymentId,
+			processor,
+			refundId: result.refundId,
+			amount: result.amount,
+		});
+
+		return RefundService.recordRefund({
+			processor,
+			orderId: payment.orderId,
+			refundedAmount: payment.refundedAmount + result.amount,
+			reason,
+			actor,
+		});
+	},
+};
+
+export { RefundService };
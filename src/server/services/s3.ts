@@ -37,6 +37,18 @@ if (env.NEXT_PUBLIC_FEATURE_S3_ENABLED) {
 	}
 }
 
+/**
+ * Gets the S3 client.
+ * Throws an error if S3 is not configured or enabled.
+ */
+export function getS3Client(): S3Client {
+	if (!s3Client) {
+		logger.error("Attempted to use S3 but S3 is disabled or not configured.");
+		throw new Error("S3 storage is not enabled or configured.");
+	}
+	return s3Client;
+}
+
 /**
  * Generates a presigned URL for uploading a file to S3.
  * Throws an error if S3 is not configured or enabled.
@@ -62,6 +74,45 @@ export async function generatePresignedUrl(fileName: string, contentType: string
 	}
 }
 
+/**
+ * Uploads a file to S3 from the server.
+ * Throws an error if S3 is not configured or enabled.
+ */
+export async function putToS3(
+	fileName: string,
+	body: Buffer | Uint8Array,
+	contentType: string
+): Promise<void> {
+	if (!s3Client) {
+		logger.error("Attempted to upload to S3 but S3 is disabled or not configured.");
+		throw new Error("S3 storage is not enabled or configured.");
+	}
+
+	try {
+		await s3Client.send(
+			new PutObjectCommand({
+				Bucket: env.AWS_BUCKET_NAME,
+				Key: fileName,
+				Body: body,
+				ContentType: contentType,
+			})
+		);
+	} catch (error) {
+		logger.error("Error uploading file to S3", { error, fileName, contentType });
+		throw new Error("Failed to upload file to S3");
+	}
+}
+
+/**
+ * Returns the public URL of an object in the bucket
+ */
+export function getS3ObjectUrl(fileName: string): string {
+	return `https://${env.AWS_BUCKET_NAME}.s3.${env.AWS_REGION}.amazonaws.com/${fileName
+		.split("/")
+		.map(encodeURIComponent)
+		.join("/")}`;
+}
+
 /**
  * Deletes a file from S3.
  * Throws an error if S3 is not configured or enabled.
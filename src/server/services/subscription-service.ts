@@ -0,0 +1,354 @@
+/**
+ * @fileoverview Subscription service for the local subscription lifecycle record
+ * @module server/services/subscription-service
+ *
+ * Payment provider webhooks (Stripe, Lemon Squeezy, Polar) write every subscription state change
+ * into the `subscriptions` table through this service. Entitlement checks then read from our own
+ * database instead of asking each provider live.
+ *
+ * Key responsibilities:
+ * - Normalize provider-specific subscription statuses
+ * - Upsert subscriptions keyed by (processor, processorSubscriptionId)
+ * - Link subscriptions to rows in the `plans` table when the variant is known
+ * - Answer "does this user have an active subscription?" from the database
+ *
+ * @see PaymentService - Falls back to provider APIs when no local subscription is found
+ */
+
+import { and, desc, eq } from "drizzle-orm";
+import { BASE_URL } from "@/config/base-url";
+import { routes } from "@/config/routes";
+import { logger } from "@/lib/logger";
+import { db, safeDbExecute } from "@/server/db";
+import { plans, type Subscription, subscriptions, users } from "@/server/db/schema";
+import { emailService } from "./email-service";
+
+/**
+ * Normalized subscription status shared by all providers
+ */
+export type SubscriptionStatus =
+	| "trialing"
+	| "active"
+	| "past_due"
+	| "paused"
+	| "unpaid"
+	| "incomplete"
+	| "canceled"
+	| "expired";
+
+/**
+ * Statuses that grant access regardless of the current period end
+ */
+const ENTITLED_STATUSES: SubscriptionStatus[] = ["trialing", "active", "past_due"];
+
+/**
+ * Input accepted by SubscriptionService.upsertSubscription
+ */
+export interface UpsertSubscriptionInput {
+	userId: string;
+	processor: string;
+	processorSubscriptionId: string;
+	processorCustomerId?: string | null;
+	productId?: string | number | null;
+	variantId?: string | number | null;
+	productName?: string | null;
+	status: string;
+	currentPeriodStart?: Date | null;
+	currentPeriodEnd?: Date | null;
+	cancelAtPeriodEnd?: boolean;
+	canceledAt?: Date | null;
+	trialEndsAt?: Date | null;
+	endedAt?: Date | null;
+	metadata?: Record<string, unknown>;
+}
+
+/**
+ * Maps a provider subscription status onto the normalized SubscriptionStatus
+ * Stripe and Polar use `canceled`/`trialing`, Lemon Squeezy uses `cancelled`/`on_trial`.
+ * @param status - The raw provider status
+ * @returns The normalized status
+ */
+export function normalizeSubscriptionStatus(status: string | null | undefined): SubscriptionStatus {
+	switch (status) {
+		case "trialing":
+		case "on_trial":
+			return "trialing";
+		case "active":
+			return "active";
+		case "past_due":
+			return "past_due";
+		case "paused":
+			return "paused";
+		case "unpaid":
+			return "unpaid";
+		case "canceled":
+		case "cancelled":
+			return "canceled";
+		case "expired":
+		case "incomplete_expired":
+			return "expired";
+		default:
+			return "incomplete";
+	}
+}
+
+/**
+ * Whether a subscription currently grants access.
+ * A canceled subscription keeps access until the end of the period it was paid for.
+ * @param subscription - The subscription to check
+ * @param now - The point in time to check against
+ */
+export function isSubscriptionEntitled(
+	subscription: Pick<Subscription, "status" | "currentPeriodEnd" | "endedAt">,
+	now: Date = new Date()
+): boolean {
+	const status = subscription.status as SubscriptionStatus;
+
+	if (ENTITLED_STATUSES.includes(status)) {
+		return true;
+	}
+
+	if (status === "canceled" && !subscription.endedAt && subscription.currentPeriodEnd) {
+		return new Date(subscription.currentPeriodEnd) > now;
+	}
+
+	return false;
+}
+
+/**
+ * Maps a subscription status onto the status of the payment row that tracks it
+ * @param status - The raw or normalized subscription status
+ * @returns The payment status
+ */
+export function getPaymentStatusForSubscription(status: string | null | undefined): string {
+	switch (normalizeSubscriptionStatus(status)) {
+		case "trialing":
+		case "active":
+			return "completed";
+		case "past_due":
+		case "unpaid":
+			return "failed";
+		case "canceled":
+		case "expired":
+			return "cancelled";
+		default:
+			return "pending";
+	}
+}
+
+/**
+ * Converts a provider timestamp (unix seconds, ISO string or Date) to a Date
+ * @param value - The raw timestamp
+ * @returns The Date, or null when the value is empty or invalid
+ */
+export function toSubscriptionDate(value: string | number | Date | null | undefined): Date | null {
+	if (value === null || value === undefined || value === "") {
+		return null;
+	}
+
+	const date =
+		typeof value === "number"
+			? new Date(value * 1000)
+			: value instanceof Date
+				? value
+				: new Date(value);
+
+	return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Tells the user a cancelled subscription stays active until the end of the period
+ * A failed email is recorded in the email log and never fails the webhook.
+ */
+async function sendSubscriptionEndingEmail(subscription: Subscription): Promise<void> {
+	const endsAt = subscription.currentPeriodEnd;
+	if (!db || !endsAt || endsAt <= new Date()) {
+		return;
+	}
+
+	const user = await db.query.users.findFirst({
+		where: eq(users.id, subscription.userId),
+		columns: { email: true, name: true },
+	});
+	if (!user?.email) {
+		return;
+	}
+
+	await emailService.send(
+		"subscription-ending",
+		{
+			name: user.name,
+			planName: subscription.productName ?? "subscription",
+			endsAt,
+			billingUrl: `${BASE_URL}${routes.settings.billing}`,
+		},
+		{
+			to: user.email,
+			userId: subscription.userId,
+			metadata: {
+				processor: subscription.processor,
+				processorSubscriptionId: subscription.processorSubscriptionId,
+			},
+		}
+	);
+}
+
+const SubscriptionService = {
+	/**
+	 * Creates or updates a subscription from a provider webhook
+	 * @param input - The subscription state reported by the provider
+	 * @returns The stored subscription, or null if the database is unavailable
+	 */
+	async upsertSubscription(input: UpsertSubscriptionInput): Promise<Subscription | null> {
+		if (!db) {
+			logger.warn("Database not initialized, subscription not recorded", {
+				processor: input.processor,
+				processorSubscriptionId: input.processorSubscriptionId,
+			});
+			return null;
+		}
+
+		const status = normalizeSubscriptionStatus(input.status);
+		const previous = await db.query.subscriptions.findFirst({
+			where: and(
+				eq(subscriptions.processor, input.processor),
+				eq(subscriptions.processorSubscriptionId, input.processorSubscriptionId)
+			),
+			columns: { cancelAtPeriodEnd: true },
+		});
+		const variantId = input.variantId != null ? String(input.variantId) : null;
+		const planId = await SubscriptionService.findPlanIdForVariant(input.processor, variantId);
+
+		const values = {
+			userId: input.userId,
+			planId,
+			processor: input.processor,
+			processorSubscriptionId: input.processorSubscriptionId,
+			processorCustomerId: input.processorCustomerId ?? null,
+			productId: input.productId != null ? String(input.productId) : null,
+			variantId,
+			productName: input.productName ?? null,
+			status,
+			currentPeriodStart: input.currentPeriodStart ?? null,
+			currentPeriodEnd: input.currentPeriodEnd ?? null,
+			cancelAtPeriodEnd: input.cancelAtPeriodEnd ?? false,
+			canceledAt: input.canceledAt ?? null,
+			trialEndsAt: input.trialEndsAt ?? null,
+			endedAt: input.endedAt ?? null,
+			metadata: JSON.stringify(input.metadata ?? {}),
+		};
+
+		const [subscription] = await db
+			.insert(subscriptions)
+			.values(values)
+			.onConflictDoUpdate({
+				target: [subscriptions.processor, subscriptions.processorSubscriptionId],
+				set: { ...values, updatedAt: new Date() },
+			})
+			.returning();
+
+		logger.info("Subscription recorded", {
+			subscriptionId: subscription?.id,
+			processor: input.processor,
+			processorSubscriptionId: input.processorSubscriptionId,
+			userId: input.userId,
+			status,
+		});
+
+		// Only the webhook that first reports the cancellation sends the email
+		if (subscription?.cancelAtPeriodEnd && !previous?.cancelAtPeriodEnd) {
+			await sendSubscriptionEndingEmail(subscription);
+		}
+
+		return subscription ?? null;
+	},
+
+	/**
+	 * Finds the plan row for a provider variant, if one exists
+	 * @param processor - The payment processor the variant belongs to
+	 * @param variantId - The provider variant ID
+	 * @returns The plan ID or null
+	 */
+	async findPlanIdForVariant(processor: string, variantId: string | null): Promise<number | null> {
+		if (!variantId) {
+			return null;
+		}
+
+		return safeDbExecute(async (db) => {
+			const plan = await db.query.plans.findFirst({
+				where: and(eq(plans.provider, processor), eq(plans.variantId, variantId)),
+				columns: { id: true },
+			});
+			return plan?.id ?? null;
+		}, null);
+	},
+
+	/**
+	 * Gets a subscription by its provider identifiers
+	 * @param processor - The payment processor
+	 * @param processorSubscriptionId - The provider's subscription ID
+	 */
+	async getSubscriptionByProcessorId(
+		processor: string,
+		processorSubscriptionId: string
+	): Promise<Subscription | null> {
+		return safeDbExecute(async (db) => {
+			const subscription = await db.query.subscriptions.findFirst({
+				where: and(
+					eq(subscriptions.processor, processor),
+					eq(subscriptions.processorSubscriptionId, processorSubscriptionId)
+				),
+			});
+			return subscription ?? null;
+		}, null);
+	},
+
+	/**
+	 * Gets all subscriptions for a user, newest first
+	 * @param userId - The ID of the user
+	 */
+	async getUserSubscriptions(userId: string): Promise<Subscription[]> {
+		return safeDbExecute(async (db) => {
+			return await db
+				.select()
+				.from(subscriptions)
+				.where(eq(subscriptions.userId, userId))
+				.orderBy(desc(subscriptions.createdAt));
+		}, []);
+	},
+
+	/**
+	 * Gets the user's current entitled subscription, if any
+	 * @param userId - The ID of the user
+	 * @param options - Optionally restrict to a processor or variant
+	 */
+	async getActiveSubscription(
+		userId: string,
+		options: { processor?: string; variantId?: string } = {}
+	): Promise<Subscription | null> {
+		const userSubscriptions = await SubscriptionService.getUserSubscriptions(userId);
+
+		return (
+			userSubscriptions.find(
+				(subscription) =>
+					(!options.processor || subscription.processor === options.processor) &&
+					(!options.variantId || subscription.variantId === String(options.variantId)) &&
+					isSubscriptionEntitled(subscription)
+			) ?? null
+		);
+	},
+
+	/**
+	 * Checks the database for an entitled subscription
+	 * @param userId - The ID of the user
+	 * @param options - Optionally restrict to a processor or variant
+	 */
+	async hasActiveSubscription(
+		userId: string,
+		options: { processor?: string; variantId?: string } = {}
+	): Promise<boolean> {
+		return !!(await SubscriptionService.getActiveSubscription(userId, options));
+	},
+};
+
+export { SubscriptionService };
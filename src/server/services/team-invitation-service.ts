@@ -0,0 +1,408 @@
+import crypto from "crypto";
+import { addDays } from "date-fns";
+import { and, eq, gt } from "drizzle-orm";
+import { routes } from "@/config/routes";
+import { siteConfig } from "@/config/site-config";
+import { env } from "@/env";
+import { logger } from "@/lib/logger";
+import { db } from "@/server/db";
+import { type TemporaryLink, teams, temporaryLinks, users } from "@/server/db/schema";
+import { type AuditActor, auditService } from "./audit-service";
+import { emailService } from "./email-service";
+import { entitlementService } from "./entitlement-service";
+import { ErrorService } from "./error-service";
+import { rbacService } from "./rbac";
+import { teamService } from "./team-service";
+import { userService } from "./user-service";
+
+/** `temporary_link.type` used for team invitations */
+export const INVITATION_LINK_TYPE = "invite";
+
+/** How long an invitation can be accepted */
+export const INVITATION_EXPIRES_IN_DAYS = 7;
+
+/** Roles that can be granted through an invitation */
+export const INVITABLE_ROLES = ["admin", "member"] as const;
+export type InvitableRole = (typeof INVITABLE_ROLES)[number];
+
+export type InvitationStatus = "pending" | "accepted" | "declined" | "revoked";
+
+interface InvitationMetadata {
+	email: string;
+	role: InvitableRole;
+	status: InvitationStatus;
+	respondedAt?: string;
+}
+
+export interface TeamInvitation {
+	id: string;
+	teamId: string;
+	email: string;
+	role: InvitableRole;
+	status: InvitationStatus;
+	invitedById: string | null;
+	createdAt: Date;
+	expiresAt: Date;
+}
+
+export interface TeamInvitationDetails extends TeamInvitation {
+	teamName: string;
+	inviterName: string | null;
+}
+
+function getSigningSecret(): string {
+	const secret = env.AUTH_SECRET ?? env.BETTER_AUTH_SECRET;
+	if (!secret) {
+		throw new Error("AUTH_SECRET must be set to sign team invitations");
+	}
+	return secret;
+}
+
+function sign(linkId: string): string {
+	return crypto
+		.createHmac("sha256", getSigningSecret())
+		.update(`${INVITATION_LINK_TYPE}:${linkId}`)
+		.digest("base64url");
+}
+
+/**
+ * Builds the signed token sent in invitation emails
+ * Format: linkId.signature
+ */
+export function createInvitationToken(linkId: string): string {
+	return `${linkId}.${sign(linkId)}`;
+}
+
+/**
+ * Verifies an invitation token
+ * @returns The temporary link ID, or null if the token was tampered with
+ */
+export function verifyInvitationToken(token: string): string | null {
+	const [linkId, signature, ...rest] = token.split(".");
+	if (!linkId || !signature || rest.length > 0) {
+		return null;
+	}
+
+	const expected = Buffer.from(sign(linkId));
+	const actual = Buffer.from(signature);
+	if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+		return null;
+	}
+
+	return linkId;
+}
+
+function parseMetadata(link: TemporaryLink): InvitationMetadata {
+	try {
+		return JSON.parse(link.metadata ?? "{}") as InvitationMetadata;
+	} catch {
+		return { email: "", role: "member", status: "revoked" };
+	}
+}
+
+function toInvitation(link: TemporaryLink): TeamInvitation {
+	const metadata = parseMetadata(link);
+	return {
+		id: link.id,
+		teamId: link.data ?? "",
+		email: metadata.email,
+		role: metadata.role,
+		status: metadata.status,
+		invitedById: link.userId,
+		createdAt: link.createdAt,
+		expiresAt: link.expiresAt,
+	};
+}
+
+/**
+ * Team invitations by email.
+ * Invitations are stored as `temporary_link` rows of type "invite": `data` holds the team ID,
+ * `metadata` the invited email, role and status, and `userId` the inviter.
+ * Accepting, declining or revoking an invitation expires the link.
+ */
+export class TeamInvitationService {
+	/**
+	 * Checks whether a user may invite members to a team
+	 * Requires the `team:update` permission in the team.
+	 * @param teamId - The ID of the team
+	 * @param userId - The ID of the user
+	 */
+	async canManageInvitations(teamId: string, userId: string): Promise<boolean> {
+		return rbacService.hasPermission(userId, "team", "update", { teamId });
+	}
+
+	/**
+	 * Invites someone to a team by email and sends the invitation email.
+	 * A pending invitation for the same email is replaced.
+	 * @returns The invitation and the URL sent by email
+	 */
+	async createInvitation({
+		teamId,
+		email,
+		role,
+		invitedById,
+	}: {
+		teamId: string;
+		email: string;
+		role: InvitableRole;
+		invitedById: string;
+	}): Promise<{ invitation: TeamInvitation; inviteUrl: string; emailSent: boolean }> {
+		if (!db) {
+			throw new Error("Database not initialized");
+		}
+
+		const normalizedEmail = email.trim().toLowerCase();
+
+		const team = await db.query.teams.findFirst({ where: eq(teams.id, teamId) });
+		if (!team || team.deletedAt) {
+			ErrorService.throwNotFound("Team not found");
+		}
+		if (team.type === "personal") {
+			ErrorService.throwBadRequest("Members cannot be invited to a personal team");
+		}
+
+		const members = await teamService.getTeamMembers(teamId);
+		if (members.some((member) => member.user?.email?.toLowerCase() === normalizedEmail)) {
+			ErrorService.throwConflict(`${normalizedEmail} is already a member of this team`);
+		}
+
+		// Pending invitations hold a seat until they are accepted, declined or expire
+		const pending = await this.getPendingInvitations(teamId);
+		const otherPending = pending.filter((invite) => invite.email !== normalizedEmail);
+		await entitlementService.assertWithinLimit({ teamId }, "seats", otherPending.length + 1);
+
+		// Replace any pending invitation for the same email
+		for (const invitation of pending.filter((invite) => invite.email === normalizedEmail)) {
+			await this.updateStatus(invitation.id, "revoked");
+		}
+
+		const [link] = await db
+			.insert(temporaryLinks)
+			.values({
+				userId: invitedById,
+				type: INVITATION_LINK_TYPE,
+				data: teamId,
+				expiresAt: addDays(new Date(), INVITATION_EXPIRES_IN_DAYS),
+				metadata: JSON.stringify({
+					email: normalizedEmail,
+					role,
+					status: "pending",
+				} satisfies InvitationMetadata),
+			})
+			.returning();
+
+		if (!link) {
+			throw new Error("Failed to create invitation");
+		}
+
+		const inviteUrl = `${siteConfig.url}${routes.auth.invite}?token=${encodeURIComponent(
+			createInvitationToken(link.id)
+		)}`;
+
+		const inviter = await db.query.users.findFirst({ where: eq(users.id, invitedById) });
+		const { status } = await emailService.send(
+			"team-invite",
+			{
+				teamName: team.name,
+				inviterName: inviter?.name ?? inviter?.email ?? "A teammate",
+				role,
+				inviteUrl,
+				expiresAt: link.expiresAt,
+			},
+			{ to: normalizedEmail, metadata: { teamId, invitationId: link.id } }
+		);
+		const emailSent = status === "sent";
+
+		logger.info("Team invitation created", { teamId, invitationId: link.id, emailSent });
+		await auditService.record({
+			action: "team.invitation.created",
+			actor: { id: invitedById, email: inviter?.email },
+			target: { type: "invitation", id: link.id },
+			teamId,
+			after: { email: normalizedEmail, role },
+			metadata: { emailSent },
+		});
+
+		return { invitation: toInvitation(link), inviteUrl, emailSent };
+	}
+
+	/**
+	 * Gets the pending, unexpired invitations of a team
+	 * @param teamId - The ID of the team
+	 */
+	async getPendingInvitations(teamId: string): Promise<TeamInvitation[]> {
+		if (!db) {
+			return [];
+		}
+
+		const links = await db.query.temporaryLinks.findMany({
+			where: and(
+				eq(temporaryLinks.type, INVITATION_LINK_TYPE),
+				eq(temporaryLinks.data, teamId),
+				gt(temporaryLinks.expiresAt, new Date())
+			),
+			orderBy: (links, { desc }) => [desc(links.createdAt)],
+		});
+
+		return links.map(toInvitation).filter((invitation) => invitation.status === "pending");
+	}
+
+	/**
+	 * Looks up a pending invitation from its signed token
+	 * @returns The invitation with team and inviter names, or null if invalid or expired
+	 */
+	async getInvitationByToken(token: string): Promise<TeamInvitationDetails | null> {
+		const linkId = verifyInvitationToken(token);
+		if (!linkId || !db) {
+			return null;
+		}
+
+		const link = await db.query.temporaryLinks.findFirst({
+			where: and(
+				eq(temporaryLinks.id, linkId),
+				eq(temporaryLinks.type, INVITATION_LINK_TYPE),
+				gt(temporaryLinks.expiresAt, new Date())
+			),
+			with: { user: true },
+		});
+		if (!link) {
+			return null;
+		}
+
+		const invitation = toInvitation(link);
+		if (invitation.status !== "pending") {
+			return null;
+		}
+
+		const team = await db.query.teams.findFirst({ where: eq(teams.id, invitation.teamId) });
+		if (!team || team.deletedAt) {
+			return null;
+		}
+
+		return {
+			...invitation,
+			teamName: team.name,
+			inviterName: link.user?.name ?? link.user?.email ?? null,
+		};
+	}
+
+	/**
+	 * Accepts an invitation and adds the invited user to the team.
+	 * Creates the account for the invited email if it does not exist yet.
+	 * @param token - The signed invitation token
+	 * @param options.sessionUser - The signed-in user, whose email must match the invitation
+	 * @param options.name - Name for a newly created account
+	 * @returns The invitation and the ID of the user who joined
+	 */
+	async acceptInvitation(
+		token: string,
+		options: { sessionUser?: { id: string; email?: string | null } | null; name?: string } = {}
+	): Promise<{ invitation: TeamInvitationDetails; userId: string; created: boolean }> {
+		const invitation = await this.getInvitationByToken(token);
+		if (!invitation) {
+			ErrorService.throwNotFound("This invitation is invalid or has expired");
+		}
+
+		const { sessionUser } = options;
+		if (sessionUser && sessionUser.email?.toLowerCase() !== invitation.email) {
+			ErrorService.throwForbidden(
+				`This invitation was sent to ${invitation.email}. Sign in with that email to accept it.`
+			);
+		}
+
+		// The token was delivered to the invited email, so it proves ownership of that address
+		const { user, created } = sessionUser
+			? { user: { id: sessionUser.id }, created: false }
+			: await userService.findOrCreateUserByEmail(invitation.email, { name: options.name });
+
+		const members = await teamService.getTeamMembers(invitation.teamId);
+		const actor = { id: user.id, email: invitation.email };
+		if (!members.some((member) => member.userId === user.id)) {
+			await teamService.addTeamMember(invitation.teamId, user.id, invitation.role, actor);
+		}
+
+		await this.updateStatus(invitation.id, "accepted");
+		await auditService.record({
+			action: "team.invitation.accepted",
+			actor,
+			target: { type: "invitation", id: invitation.id },
+			teamId: invitation.teamId,
+			metadata: { role: invitation.role, accountCreated: created },
+		});
+		logger.info("Team invitation accepted", {
+			teamId: invitation.teamId,
+			invitationId: invitation.id,
+			userId: user.id,
+		});
+
+		return { invitation, userId: user.id, created };
+	}
+
+	/**
+	 * Declines an invitation
+	 * @param token - The signed invitation token
+	 */
+	async declineInvitation(token: string): Promise<void> {
+		const invitation = await this.getInvitationByToken(token);
+		if (!invitation) {
+			ErrorService.throwNotFound("This invitation is invalid or has expired");
+		}
+
+		await this.updateStatus(invitation.id, "declined");
+	}
+
+	/**
+	 * Revokes a pending invitation
+	 * @param teamId - The ID of the team the invitation belongs to
+	 * @param invitationId - The ID of the invitation
+	 * @param actor - The user revoking the invitation, for the audit log
+	 * @returns True if a pending invitation was revoked
+	 */
+	async revokeInvitation(
+		teamId: string,
+		invitationId: string,
+		actor?: AuditActor | null
+	): Promise<boolean> {
+		const pending = await this.getPendingInvitations(teamId);
+		const invitation = pending.find((invite) => invite.id === invitationId);
+		if (!invitation) {
+			return false;
+		}
+
+		await this.updateStatus(invitationId, "revoked");
+		await auditService.record({
+			action: "team.invitation.revoked",
+			actor: actor ?? null,
+			target: { type: "invitation", id: invitationId },
+			teamId,
+			before: { email: invitation.email, role: invitation.role },
+		});
+		return true;
+	}
+
+	/**
+	 * Records the outcome of an invitation and expires its link
+	 */
+	private async updateStatus(invitationId: string, status: InvitationStatus): Promise<void> {
+		const link = await db?.query.temporaryLinks.findFirst({
+			where: eq(temporaryLinks.id, invitationId),
+		});
+		if (!link) {
+			return;
+		}
+
+		await db
+			?.update(temporaryLinks)
+			.set({
+				expiresAt: new Date(),
+				metadata: JSON.stringify({
+					...parseMetadata(link),
+					status,
+					respondedAt: new Date().toISOString(),
+				} satisfies InvitationMetadata),
+			})
+			.where(eq(temporaryLinks.id, invitationId));
+	}
+}
+
+export const teamInvitationService = new TeamInvitationService();
@@ -6,7 +6,9 @@ import { logger } from "@/lib/logger";
 import { db } from "@/server/db";
 import { teamMembers, teams, users } from "@/server/db/schema";
 import type { TeamType } from "@/types/team";
+import { type AuditActor, auditService } from "./audit-service";
 import { BaseService } from "./base-service";
+import { entitlementService } from "./entitlement-service";
 import { ErrorService } from "./error-service";
 
 export class TeamService extends BaseService<typeof teams> {
@@ -361,13 +363,16 @@ export class TeamService extends BaseService<typeof teams> {
 	 * @param teamId - The ID of the team.
 	 * @param userId - The ID of the user to add.
 	 * @param role - The role to assign to the user.
+	 * @param actor - The user making the change, for the audit log.
 	 * @returns The created team member.
+	 * @throws AppError with a FORBIDDEN code if the team's plan has no seats left.
 	 */
-	async addTeamMember(teamId: string, userId: string, role: string) {
+	async addTeamMember(teamId: string, userId: string, role: string, actor?: AuditActor | null) {
 		if (!db) {
 			logger.error("Database not initialized", { teamId, userId });
 			return null;
 		}
+		await entitlementService.assertWithinLimit({ teamId }, "seats");
 		const result = await db
 			.insert(teamMembers)
 			.values({
@@ -378,6 +383,14 @@ export class TeamService extends BaseService<typeof teams> {
 			})
 			.returning();
 
+		await auditService.record({
+			action: "team.member.added",
+			actor: actor ?? null,
+			target: { type: "user", id: userId },
+			teamId,
+			after: { role },
+		});
+
 		return result?.[0];
 	}
 
@@ -385,9 +398,10 @@ export class TeamService extends BaseService<typeof teams> {
 	 * Removes a member from a team.
 	 * @param teamId - The ID of the team.
 	 * @param userId - The ID of the user to remove.
+	 * @param actor - The user making the change, for the audit log.
 	 * @returns True if removed successfully.
 	 */
-	async removeTeamMember(teamId: string, userId: string) {
+	async removeTeamMember(teamId: string, userId: string, actor?: AuditActor | null) {
 		if (!db) {
 			logger.error("Database not initialized", { teamId, userId });
 			return false;
@@ -398,6 +412,16 @@ export class TeamService extends BaseService<typeof teams> {
 			.returning();
 		const member = result?.[0];
 
+		if (member) {
+			await auditService.record({
+				action: "team.member.removed",
+				actor: actor ?? null,
+				target: { type: "user", id: userId },
+				teamId,
+				before: { role: member.role },
+			});
+		}
+
 		return !!member;
 	}
 
@@ -406,13 +430,22 @@ export class TeamService extends BaseService<typeof teams> {
 	 * @param teamId - The ID of the team.
 	 * @param userId - The ID of the user.
 	 * @param role - The new role to assign.
+	 * @param actor - The user making the change, for the audit log.
 	 * @returns The updated team member.
 	 */
-	async updateTeamMemberRole(teamId: string, userId: string, role: string) {
+	async updateTeamMemberRole(
+		teamId: string,
+		userId: string,
+		role: string,
+		actor?: AuditActor | null
+	) {
 		if (!db) {
 			logger.error("Database not initialized", { teamId, userId });
 			return null;
 		}
+		const previous = await db.query.teamMembers.findFirst({
+			where: and(eq(teamMembers.teamId, teamId), eq(teamMembers.userId, userId)),
+		});
 		const result = await db
 			.update(teamMembers)
 			.set({
@@ -421,6 +454,17 @@ export class TeamService extends BaseService<typeof teams> {
 			.where(and(eq(teamMembers.teamId, teamId), eq(teamMembers.userId, userId)))
 			.returning();
 
+		if (result?.[0]) {
+			await auditService.record({
+				action: "team.member.role_updated",
+				actor: actor ?? null,
+				target: { type: "user", id: userId },
+				teamId,
+				before: { role: previous?.role ?? null },
+				after: { role },
+			});
+		}
+
 		return result?.[0];
 	}
 
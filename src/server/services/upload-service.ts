@@ -0,0 +1,537 @@
+/**
+ * @fileoverview Resumable multipart uploads and storage quotas
+ * @module server/services/upload-service
+ *
+ * Large files are uploaded in parts of `UPLOAD_CHUNK_SIZE` bytes. Each part is stored by the
+ * storage driver as it arrives and recorded in `file_upload`, so an interrupted upload is
+ * resumed by sending only the parts that are missing.
+ *
+ * When the last part is in, the upload is completed: the content type is sniffed from the
+ * file's first bytes, and the file is added to `user_file` with its size. Files count
+ * against the quota of their team, or of their uploader for personal files. Uploads in
+ * progress are reserved against the quota too. Quotas are the `storageBytes` limit of the
+ * owner's plan.
+ */
+
+import { addHours } from "date-fns";
+import { and, eq, gt, inArray, isNull, lt, ne, type SQL, sql } from "drizzle-orm";
+import {
+	ALLOWED_FILE_TYPES,
+	MULTIPART_UPLOAD_EXPIRES_IN_HOURS,
+	MULTIPART_UPLOAD_MAX_SIZE,
+	UPLOAD_CHUNK_SIZE,
+} from "@/config/file";
+import { logger } from "@/lib/logger";
+import {
+	isDeclaredContentTypeValid,
+	SNIFF_BYTE_LENGTH,
+	sniffContentType,
+} from "@/lib/utils/sniff-content-type";
+import { db } from "@/server/db";
+import { type FileUpload, fileUploads, type UserFile, userFiles } from "@/server/db/schema";
+import { getStorageDriver } from "@/server/storage";
+import { entitlementService } from "./entitlement-service";
+import { ErrorService } from "./error-service";
+import { rbacService } from "./rbac";
+import { userService } from "./user-service";
+
+/** `processing` while the driver assembles the parts and the content is checked */
+export type UploadStatus = "uploading" | "processing" | "completed" | "failed" | "aborted";
+
+/** Statuses that reserve space against the quota */
+const ACTIVE_STATUSES: UploadStatus[] = ["uploading", "processing"];
+
+interface StoredPart {
+	partNumber: number;
+	etag: string;
+	size: number;
+}
+
+/** Whose quota a file counts against */
+export type StorageOwner = { userId: string } | { teamId: string };
+
+export interface StorageUsage {
+	/** Bytes used by stored files */
+	used: number;
+	/** Bytes reserved by uploads in progress */
+	reserved: number;
+	/** null means unlimited */
+	quota: number | null;
+	/** null means unlimited */
+	available: number | null;
+}
+
+export interface UploadProgress {
+	id: string;
+	fileName: string;
+	status: UploadStatus;
+	size: number;
+	uploadedBytes: number;
+	/** 0 to 100 */
+	percent: number;
+	chunkSize: number;
+	partCount: number;
+	/** Numbers of the parts already stored, from 1 */
+	uploadedParts: number[];
+	error: string | null;
+	fileId: number | null;
+	expiresAt: Date;
+}
+
+function parseParts(upload: FileUpload): StoredPart[] {
+	try {
+		return JSON.parse(upload.parts) as StoredPart[];
+	} catch {
+		return [];
+	}
+}
+
+function toProgress(upload: FileUpload): UploadProgress {
+	const parts = parseParts(upload);
+	const uploadedBytes = parts.reduce((total, part) => total + part.size, 0);
+	return {
+		id: upload.id,
+		fileName: upload.fileName,
+		status: upload.status as UploadStatus,
+		size: upload.size,
+		uploadedBytes,
+		percent: upload.size > 0 ? Math.floor((uploadedBytes / upload.size) * 100) : 100,
+		chunkSize: upload.chunkSize,
+		partCount: upload.partCount,
+		uploadedParts: parts.map((part) => part.partNumber).sort((a, b) => a - b),
+		error: upload.error,
+		fileId: upload.fileId,
+		expiresAt: upload.expiresAt,
+	};
+}
+
+/**
+ * Size in bytes that a part must have
+ * Every part is `chunkSize` bytes, except the last one which holds the remainder.
+ */
+export function getExpectedPartSize(
+	upload: Pick<FileUpload, "size" | "chunkSize" | "partCount">,
+	partNumber: number
+): number {
+	return partNumber < upload.partCount
+		? upload.chunkSize
+		: upload.size - upload.chunkSize * (upload.partCount - 1);
+}
+
+export class UploadService {
+	/**
+	 * Gets the storage used by a user's personal files or by a team's files
+	 */
+	async getStorageUsage(
+		owner: StorageOwner,
+		options: { excludeUploadId?: string } = {}
+	): Promise<StorageUsage> {
+		const quota = await entitlementService.getLimit(owner, "storageBytes");
+		if (!db) {
+			return { used: 0, reserved: 0, quota, available: quota };
+		}
+
+		const fileOwner =
+			"teamId" in owner
+				? eq(userFiles.teamId, owner.teamId)
+				: and(eq(userFiles.userId, owner.userId), isNull(userFiles.teamId));
+		const uploadConditions: (SQL | undefined)[] = [
+			"teamId" in owner
+				? eq(fileUploads.teamId, owner.teamId)
+				: and(eq(fileUploads.userId, owner.userId), isNull(fileUploads.teamId)),
+			inArray(fileUploads.status, ACTIVE_STATUSES),
+			gt(fileUploads.expiresAt, new Date()),
+		];
+		if (options.excludeUploadId) {
+			uploadConditions.push(ne(fileUploads.id, options.excludeUploadId));
+		}
+
+		const [[files], [uploads]] = await Promise.all([
+			db
+				.select({ total: sql<string>`coalesce(sum(${userFiles.size}), 0)` })
+				.from(userFiles)
+				.where(fileOwner),
+			db
+				.select({ total: sql<string>`coalesce(sum(${fileUploads.size}), 0)` })
+				.from(fileUploads)
+				.where(and(...uploadConditions)),
+		]);
+
+		const used = Number(files?.total ?? 0);
+		const reserved = Number(uploads?.total ?? 0);
+		return {
+			used,
+			reserved,
+			quota,
+			available: quota === null ? null : Math.max(quota - used - reserved, 0),
+		};
+	}
+
+	/**
+	 * Checks that a file fits in the owner's quota
+	 * @throws AppError with a CONFLICT code if the quota would be exceeded
+	 */
+	async assertWithinQuota(
+		owner: StorageOwner,
+		size: number,
+		options: { excludeUploadId?: string } = {}
+	): Promise<void> {
+		const usage = await this.getStorageUsage(owner, options);
+		if (usage.available !== null && size > usage.available) {
+			ErrorService.throwConflict(
+				`Storage quota exceeded. Available: ${usage.available} bytes, file size: ${size} bytes`,
+				{ ...usage, size }
+			);
+		}
+	}
+
+	/**
+	 * Starts a multipart upload
+	 * @param input.teamId - The team the file belongs to; the user must be a member
+	 */
+	async createUpload({
+		userId,
+		teamId,
+		fileName,
+		contentType,
+		size,
+	}: {
+		userId: string;
+		teamId?: string | null;
+		fileName: string;
+		contentType: string;
+		size: number;
+	}): Promise<UploadProgress> {
+		if (!db) {
+			throw new Error("Database not initialized");
+		}
+
+		if (!ALLOWED_FILE_TYPES.includes(contentType)) {
+			ErrorService.throwBadRequest(`File type ${contentType} is not allowed`);
+		}
+		if (!Number.isInteger(size) || size <= 0) {
+			ErrorService.throwBadRequest("File size must be a positive number of bytes");
+		}
+		if (size > MULTIPART_UPLOAD_MAX_SIZE) {
+			ErrorService.throwBadRequest(
+				`File is too large. Maximum size is ${MULTIPART_UPLOAD_MAX_SIZE} bytes`
+			);
+		}
+		if (teamId && !(await rbacService.hasPermission(userId, "team", "read", { teamId }))) {
+			ErrorService.throwForbidden("You are not a member of this team");
+		}
+
+		await this.assertWithinQuota(teamId ? { teamId } : { userId }, size);
+
+		const driver = getStorageDriver();
+		const storageKey = `${Date.now()}-${fileName.replace(/[/\\]/g, "_")}`;
+		const { uploadId } = await driver.createMultipartUpload(storageKey, { contentType });
+
+		const [upload] = await db
+			.insert(fileUploads)
+			.values({
+				userId,
+				teamId: teamId ?? null,
+				fileName,
+				storageKey,
+				declaredContentType: contentType,
+				size,
+				chunkSize: UPLOAD_CHUNK_SIZE,
+				partCount: Math.ceil(size / UPLOAD_CHUNK_SIZE),
+				driver: driver.id,
+				driverUploadId: uploadId,
+				expiresAt: addHours(new Date(), MULTIPART_UPLOAD_EXPIRES_IN_HOURS),
+			})
+			.returning();
+
+		if (!upload) {
+			throw new Error("Failed to create upload");
+		}
+
+		logger.info("Multipart upload started", {
+			uploadId: upload.id,
+			userId,
+			teamId,
+			size,
+			driver: driver.id,
+		});
+		return toProgress(upload);
+	}
+
+	/**
+	 * Gets the progress of one of a user's uploads
+	 */
+	async getProgress(uploadId: string, userId: string): Promise<UploadProgress> {
+		return toProgress(await this.getUpload(uploadId, userId));
+	}
+
+	/**
+	 * Lists a user's uploads that can still be resumed
+	 */
+	async getActiveUploads(userId: string): Promise<UploadProgress[]> {
+		if (!db) {
+			return [];
+		}
+
+		const uploads = await db.query.fileUploads.findMany({
+			where: and(
+				eq(fileUploads.userId, userId),
+				inArray(fileUploads.status, ACTIVE_STATUSES),
+				gt(fileUploads.expiresAt, new Date())
+			),
+			orderBy: (uploads, { desc }) => [desc(uploads.createdAt)],
+		});
+		return uploads.map(toProgress);
+	}
+
+	/**
+	 * Stores a part of an upload
+	 * Sending a part again replaces it, so failed parts can simply be retried.
+	 * @param partNumber - The part number, from 1
+	 */
+	async uploadPart(
+		uploadId: string,
+		userId: string,
+		partNumber: number,
+		body: Uint8Array
+	): Promise<UploadProgress> {
+		if (!db) {
+			throw new Error("Database not initialized");
+		}
+
+		const upload = await this.getUpload(uploadId, userId);
+		this.assertUploading(upload);
+
+		if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > upload.partCount) {
+			ErrorService.throwBadRequest(`Part number must be between 1 and ${upload.partCount}`);
+		}
+		const expectedSize = getExpectedPartSize(upload, partNumber);
+		if (body.byteLength !== expectedSize) {
+			ErrorService.throwBadRequest(
+				`Part ${partNumber} must be ${expectedSize} bytes, got ${body.byteLength}`
+			);
+		}
+
+		const part = await getStorageDriver().uploadPart(
+			upload.storageKey,
+			upload.driverUploadId,
+			partNumber,
+			body
+		);
+
+		// Parts may arrive in parallel, so merge them into the latest list under a row lock
+		const updated = await db.transaction(async (tx) => {
+			const [locked] = await tx
+				.select()
+				.from(fileUploads)
+				.where(eq(fileUploads.id, upload.id))
+				.for("update");
+			if (!locked) {
+				ErrorService.throwNotFound("Upload not found");
+			}
+
+			const parts = parseParts(locked).filter((stored) => stored.partNumber !== partNumber);
+			parts.push({ partNumber, etag: part.etag, size: body.byteLength });
+
+			const [row] = await tx
+				.update(fileUploads)
+				.set({ parts: JSON.stringify(parts) })
+				.where(eq(fileUploads.id, upload.id))
+				.returning();
+			return row ?? locked;
+		});
+
+		return toProgress(updated);
+	}
+
+	/**
+	 * Completes an upload once every part is stored
+	 * The file's first bytes must match its declared content type; otherwise the file is
+	 * deleted and the upload fails.
+	 * @returns The progress of the completed upload and the created file
+	 */
+	async completeUpload(
+		uploadId: string,
+		userId: string
+	): Promise<{ upload: UploadProgress; file: UserFile }> {
+		if (!db) {
+			throw new Error("Database not initialized");
+		}
+
+		const upload = await this.getUpload(uploadId, userId);
+		this.assertUploading(upload);
+
+		const parts = parseParts(upload);
+		const missing = Array.from({ length: upload.partCount }, (_, index) => index + 1).filter(
+			(partNumber) => !parts.some((part) => part.partNumber === partNumber)
+		);
+		if (missing.length > 0) {
+			ErrorService.throwConflict(`Upload is missing parts: ${missing.join(", ")}`, { missing });
+		}
+
+		// Claim the upload so that concurrent completions do not create the file twice
+		const [claimed] = await db
+			.update(fileUploads)
+			.set({ status: "processing" })
+			.where(and(eq(fileUploads.id, upload.id), eq(fileUploads.status, "uploading")))
+			.returning();
+		if (!claimed) {
+			ErrorService.throwConflict("Upload is already being completed");
+		}
+
+		const driver = getStorageDriver();
+		let stored = false;
+
+		try {
+			const object = await driver.completeMultipartUpload(
+				upload.storageKey,
+				upload.driverUploadId,
+				parts.sort((a, b) => a.partNumber - b.partNumber),
+				{ contentType: upload.declaredContentType }
+			);
+			stored = true;
+
+			const sniffed = sniffContentType(
+				await driver.readStart(upload.storageKey, SNIFF_BYTE_LENGTH)
+			);
+			if (!isDeclaredContentTypeValid(upload.declaredContentType, sniffed)) {
+				ErrorService.throwBadRequest(
+					`File content does not match its type ${upload.declaredContentType}`,
+					{ sniffed }
+				);
+			}
+
+			await this.assertWithinQuota(
+				upload.teamId ? { teamId: upload.teamId } : { userId: upload.userId },
+				upload.size,
+				{ excludeUploadId: upload.id }
+			);
+
+			const file = await userService.addUserFile(upload.userId, {
+				title: upload.fileName,
+				key: upload.storageKey,
+				url: object.url,
+				size: upload.size,
+				contentType: upload.declaredContentType,
+				teamId: upload.teamId,
+			});
+			if (!file) {
+				throw new Error("Failed to create user file");
+			}
+
+			const [completed] = await db
+				.update(fileUploads)
+				.set({ status: "completed", fileId: file.id, completedAt: new Date() })
+				.where(eq(fileUploads.id, upload.id))
+				.returning();
+
+			logger.info("Multipart upload completed", { uploadId: upload.id, fileId: file.id });
+			return { upload: toProgress(completed ?? claimed), file };
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			if (stored) {
+				await driver.delete(upload.storageKey).catch((deleteError) => {
+					logger.error("Failed to delete rejected upload", {
+						uploadId: upload.id,
+						error: deleteError,
+					});
+				});
+			} else {
+				await driver
+					.abortMultipartUpload(upload.storageKey, upload.driverUploadId)
+					.catch(() => undefined);
+			}
+			await db
+				.update(fileUploads)
+				.set({ status: "failed", error: message })
+				.where(eq(fileUploads.id, upload.id));
+
+			logger.warn("Multipart upload failed", { uploadId: upload.id, error: message });
+			throw error;
+		}
+	}
+
+	/**
+	 * Aborts one of a user's uploads and discards its parts
+	 * @returns True if an upload in progress was aborted
+	 */
+	async abortUpload(uploadId: string, userId: string): Promise<boolean> {
+		const upload = await this.getUpload(uploadId, userId);
+		if (upload.status !== "uploading") {
+			return false;
+		}
+
+		await this.abort(upload);
+		return true;
+	}
+
+	/**
+	 * Aborts uploads that were not completed in time
+	 * Run periodically, e.g. from the uploads cron job.
+	 * @returns The number of aborted uploads
+	 */
+	async abortExpiredUploads(limit = 100): Promise<number> {
+		if (!db) {
+			return 0;
+		}
+
+		const expired = await db.query.fileUploads.findMany({
+			where: and(
+				inArray(fileUploads.status, ACTIVE_STATUSES),
+				lt(fileUploads.expiresAt, new Date())
+			),
+			limit,
+		});
+
+		let aborted = 0;
+		for (const upload of expired) {
+			try {
+				await this.abort(upload);
+				aborted++;
+			} catch (error) {
+				logger.error("Failed to abort expired upload", { uploadId: upload.id, error });
+			}
+		}
+
+		if (aborted > 0) {
+			logger.info("Aborted expired uploads", { count: aborted });
+		}
+		return aborted;
+	}
+
+	private async abort(upload: FileUpload): Promise<void> {
+		// Uploads started with another driver cannot be reached anymore; just mark them
+		const driver = getStorageDriver();
+		if (driver.id === upload.driver) {
+			await driver.abortMultipartUpload(upload.storageKey, upload.driverUploadId);
+		}
+
+		await db?.update(fileUploads).set({ status: "aborted" }).where(eq(fileUploads.id, upload.id));
+		logger.info("Multipart upload aborted", { uploadId: upload.id });
+	}
+
+	private async getUpload(uploadId: string, userId: string): Promise<FileUpload> {
+		if (!db) {
+			throw new Error("Database not initialized");
+		}
+
+		const upload = await db.query.fileUploads.findFirst({
+			where: and(eq(fileUploads.id, uploadId), eq(fileUploads.userId, userId)),
+		});
+		if (!upload) {
+			ErrorService.throwNotFound("Upload not found");
+		}
+		return upload;
+	}
+
+	private assertUploading(upload: FileUpload): void {
+		if (upload.status !== "uploading") {
+			ErrorService.throwConflict(`Upload is ${upload.status}`);
+		}
+		if (upload.expiresAt < new Date()) {
+			ErrorService.throwConflict("Upload has expired");
+		}
+	}
+}
+
+export const uploadService = new UploadService();
@@ -31,10 +31,10 @@ import { logger } from "@/lib/logger";
 import { db } from "@/server/db";
 import type { User } from "@/server/db/schema";
 import { projectMembers, teamMembers, userFiles, users } from "@/server/db/schema";
+import { getStorageDriver } from "@/server/storage";
 import { apiKeyService } from "./api-key-service";
 import { BaseService } from "./base-service";
 import { PaymentService } from "./payment-service";
-import { deleteFromS3 } from "./s3";
 import { teamService } from "./team-service";
 
 /**
@@ -379,22 +379,39 @@ export class UserService extends BaseService<typeof users> {
 	}
 
 	/**
-	 * Adds a file to a user's profile
+	 * Adds a stored file to a user's profile
 	 * @param userId - The ID of the user
-	 * @param file - The file information
+	 * @param file - The file title and its storage key; the URL defaults to the driver's URL for the key.
+	 * The size counts against the team's storage quota if a team is set, otherwise the user's.
 	 * @returns The created file record
 	 */
-	async addUserFile(userId: string, file: { title: string; location: string }) {
+	async addUserFile(
+		userId: string,
+		file: {
+			title: string;
+			key: string;
+			url?: string;
+			size?: number;
+			contentType?: string;
+			teamId?: string | null;
+		}
+	) {
 		if (!db) {
 			throw new Error("Database is not initialized");
 		}
 
+		const location = file.url ?? getStorageDriver().getUrl(file.key);
+
 		const [newFile] = await db
 			.insert(userFiles)
 			.values({
 				userId,
 				title: file.title,
-				location: file.location,
+				location,
+				storageKey: file.key,
+				size: file.size ?? 0,
+				contentType: file.contentType,
+				teamId: file.teamId ?? null,
 				createdAt: new Date(),
 				updatedAt: new Date(),
 			})
@@ -428,19 +445,20 @@ export class UserService extends BaseService<typeof users> {
 			throw new Error("File not found or access denied");
 		}
 
-		// Delete from S3 first
+		// Delete from storage first
 		try {
-			const fileName = file.location.split("/").pop();
-			if (fileName) {
-				await deleteFromS3(fileName);
+			const driver = getStorageDriver();
+			const key = driver.getKey(file.location) ?? file.location.split("/").pop();
+			if (key) {
+				await driver.delete(key);
 			}
 		} catch (error) {
-			logger.error("Failed to delete file from S3", {
+			logger.error("Failed to delete file from storage", {
 				error,
 				fileId,
 				location: file.location,
 			});
-			// Continue with database deletion even if S3 deletion fails
+			// Continue with database deletion even if storage deletion fails
 		}
 
 		// Delete from database
@@ -534,7 +552,7 @@ export class UserService extends BaseService<typeof users> {
 				// Create default API key outside the transaction
 				if (result.created) {
 					try {
-						const apiKey = await apiKeyService.createApiKey({
+						const { apiKey } = await apiKeyService.createApiKey({
 							userId: result.user.id,
 							name: "Default API Key",
 							description: "Created automatically during import/creation",
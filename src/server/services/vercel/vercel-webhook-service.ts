@@ -0,0 +1,154 @@
+import crypto from "crypto";
+import { logger } from "@/lib/logger";
+import type { Deployment } from "@/server/db/schema";
+import { type DeploymentUpdate, deploymentService } from "@/server/services/deployment-service";
+
+/**
+ * Vercel webhook event payload
+ * @see https://vercel.com/docs/observability/webhooks-overview/webhooks-api
+ */
+export interface VercelWebhookEvent {
+	id: string;
+	type: string;
+	createdAt: number;
+	region?: string | null;
+	payload: Record<string, any>;
+}
+
+/**
+ * Verifies the `x-vercel-signature` header, an HMAC-SHA1 of the raw body
+ * @see https://vercel.com/docs/observability/webhooks-overview/webhooks-api#securing-webhooks
+ *
+ * @param rawBody The raw request body
+ * @param signature The `x-vercel-signature` header value
+ * @param secret The webhook secret, or the integration client secret for integration webhooks
+ */
+export function verifyVercelWebhookSignature(
+	rawBody: string,
+	signature: string | null,
+	secret: string
+): boolean {
+	if (!signature) {
+		return false;
+	}
+
+	const expected = Buffer.from(
+		crypto.createHmac("sha1", secret).update(rawBody, "utf8").digest("hex"),
+		"hex"
+	);
+	const actual = Buffer.from(signature, "hex");
+
+	return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Maps a Vercel deployment event to an update of the deployment record it belongs to
+ * A record tracks the latest Vercel deployment of its project, so events for an older
+ * deployment, and late `deployment.created` deliveries, are ignored.
+ *
+ * @param event The webhook event
+ * @param deployment The deployment record linked to the event's project
+ * @returns The update to apply, or null if the event does not change the record
+ */
+export function getDeploymentUpdateFromVercelEvent(
+	event: VercelWebhookEvent,
+	deployment: Pick<Deployment, "vercelDeploymentId">
+): DeploymentUpdate | null {
+	const vercelDeployment = event.payload?.deployment;
+	if (!vercelDeployment?.id) {
+		return null;
+	}
+
+	const vercelDeploymentUrl = vercelDeployment.url ? `https://${vercelDeployment.url}` : undefined;
+
+	if (event.type === "deployment.created") {
+		if (deployment.vercelDeploymentId === vercelDeployment.id) {
+			return null;
+		}
+		return {
+			status: "deploying",
+			error: null,
+			vercelDeploymentId: vercelDeployment.id,
+			vercelDeploymentUrl,
+		};
+	}
+
+	if (deployment.vercelDeploymentId && deployment.vercelDeploymentId !== vercelDeployment.id) {
+		return null;
+	}
+
+	switch (event.type) {
+		case "deployment.succeeded":
+			return {
+				status: "completed",
+				error: null,
+				vercelDeploymentId: vercelDeployment.id,
+				vercelDeploymentUrl,
+			};
+		case "deployment.error":
+			return {
+				status: "failed",
+				error: "Vercel deployment failed",
+				vercelDeploymentId: vercelDeployment.id,
+			};
+		case "deployment.canceled":
+			return {
+				status: "failed",
+				error: "Deployment was canceled in Vercel",
+				vercelDeploymentId: vercelDeployment.id,
+			};
+		default:
+			return null;
+	}
+}
+
+/**
+ * Handle a Vercel webhook event delivered through the webhook inbox
+ * Deployment events update the deployment record created for the event's project, and
+ * removing a project unlinks its records. Events for projects this app did not create are
+ * ignored.
+ *
+ * @param event The parsed webhook event
+ */
+export async function handleVercelWebhookEvent(event: VercelWebhookEvent): Promise<void> {
+	const projectId: string | undefined = event.payload?.project?.id;
+
+	logger.info("Vercel webhook received", {
+		eventId: event.id,
+		type: event.type,
+		deploymentId: event.payload?.deployment?.id,
+		projectId,
+	});
+
+	if (!projectId) {
+		return;
+	}
+
+	if (event.type === "project.removed") {
+		const detached = await deploymentService.detachVercelProject(projectId);
+		logger.info("Vercel project removed", { projectId, deployments: detached.length });
+		return;
+	}
+
+	if (!event.type.startsWith("deployment.")) {
+		return;
+	}
+
+	const deployment = await deploymentService.getDeploymentByVercelProject(projectId);
+	if (!deployment) {
+		logger.debug("No deployment record for Vercel project", { projectId, type: event.type });
+		return;
+	}
+
+	const update = getDeploymentUpdateFromVercelEvent(event, deployment);
+	if (!update) {
+		return;
+	}
+
+	await deploymentService.updateDeployment(deployment.id, update);
+	logger.info("Deployment status updated from Vercel", {
+		deploymentId: deployment.id,
+		vercelDeploymentId: update.vercelDeploymentId,
+		status: update.status,
+	});
+}
@@ -1,21 +1,111 @@
-"use server";
+import crypto from "node:crypto";
+import { and, asc, count, desc, eq, gt, isNull, sql } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { z } from "zod";
+import { BASE_URL } from "@/config/base-url";
+import { routes } from "@/config/routes";
+import { parseCsvRecords, toCsv } from "@/lib/utils/csv";
+import { db, safeDbExecute } from "@/server/db";
+import {
+	type NewWaitlistEntry,
+	users,
+	type WaitlistEntry,
+	waitlistEntries,
+} from "@/server/db/schema";
+import { getFlag } from "@/server/lib/flags";
+import { emailService } from "@/server/services/email-service";
+import { ErrorService } from "@/server/services/error-service";
 
-import { count, desc, eq } from "drizzle-orm";
-import { safeDbExecute } from "@/server/db";
-import { type NewWaitlistEntry, type WaitlistEntry, waitlistEntries } from "@/server/db/schema";
+/** How far each referral moves an entry up the queue */
+export const WAITLIST_REFERRAL_BOOST_HOURS = 24;
+/** Runtime feature flag that limits credential sign-up to batch invites */
+export const WAITLIST_INVITE_ONLY_FLAG = "waitlist-invite-only";
+/** How long the sign-up link in a batch invite works */
+export const WAITLIST_INVITE_EXPIRES_IN_DAYS = 14;
+export const WAITLIST_MAX_INVITE_BATCH = 500;
+export const WAITLIST_MAX_IMPORT_ROWS = 5000;
+
+// No 0/O or 1/I, so codes survive being read aloud or typed from a screenshot
+const REFERRAL_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const REFERRAL_CODE_LENGTH = 8;
+
+/**
+ * Generates a random referral code such as `K7QX2MPA`
+ */
+export function generateReferralCode(): string {
+	// The alphabet has 32 characters, so the modulo does not bias any of them
+	return Array.from(
+		crypto.randomBytes(REFERRAL_CODE_LENGTH),
+		(byte) => REFERRAL_CODE_ALPHABET[byte % REFERRAL_CODE_ALPHABET.length]
+	).join("");
+}
+
+/**
+ * Normalizes a referral code from a URL or form
+ * @returns The uppercased code, or null if it cannot be a referral code
+ */
+export function normalizeReferralCode(code: string | null | undefined): string | null {
+	const normalized = code?.trim().toUpperCase();
+	return normalized && /^[A-Z0-9]{4,16}$/.test(normalized) ? normalized : null;
+}
+
+export function getWaitlistReferralUrl(referralCode: string): string {
+	return `${BASE_URL}${routes.waitlist}?ref=${encodeURIComponent(referralCode)}`;
+}
+
+/**
+ * Invite tokens are stored hashed, so a database leak cannot be used to sign up
+ */
+export function hashWaitlistInviteToken(token: string): string {
+	return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * The time an entry is queued at: its sign-up time, moved earlier for each referral
+ * Entries are invited in order of this time, oldest first.
+ */
+export function getWaitlistQueueTime(
+	entry: Pick<WaitlistEntry, "createdAt" | "referralCount">
+): Date {
+	return new Date(
+		entry.createdAt.getTime() - entry.referralCount * WAITLIST_REFERRAL_BOOST_HOURS * 60 * 60 * 1000
+	);
+}
+
+/** `getWaitlistQueueTime` in SQL */
+const queueTime = sql`(${waitlistEntries.createdAt} - ${waitlistEntries.referralCount} * interval '1 hour' * ${sql.raw(String(WAITLIST_REFERRAL_BOOST_HOURS))})`;
+
+/** Entries that are still waiting for an invite */
+const isPending = and(eq(waitlistEntries.isNotified, false), isNull(waitlistEntries.signedUpAt));
 
 /**
  * Add a new entry to the waitlist
+ * @param options.referralCode - The code of the entry that referred this one; unknown codes are ignored
  */
 export async function addWaitlistEntry(
-	data: Omit<NewWaitlistEntry, "id" | "createdAt" | "updatedAt">
+	data: Omit<NewWaitlistEntry, "id" | "createdAt" | "updatedAt">,
+	options: { referralCode?: string | null } = {}
 ): Promise<WaitlistEntry | null> {
 	return safeDbExecute(async (db) => {
+		const referralCode = normalizeReferralCode(options.referralCode);
+		const referrer = referralCode
+			? await db.query.waitlistEntries.findFirst({
+					where: eq(waitlistEntries.referralCode, referralCode),
+					columns: { id: true, email: true },
+				})
+			: undefined;
+		// Referring yourself does not move you up
+		const referredById =
+			referrer && referrer.email.toLowerCase() !== data.email.toLowerCase() ? referrer.id : null;
+
 		const [entry] = await db
 			.insert(waitlistEntries)
 			.values({
 				...data,
+				source: referredById ? "referral" : data.source,
 				metadata: data.metadata || "{}",
+				referralCode: data.referralCode ?? generateReferralCode(),
+				referredById,
 			})
 			.returning();
 
@@ -23,6 +113,13 @@ export async function addWaitlistEntry(
 			throw new Error("Failed to create waitlist entry");
 		}
 
+		if (referredById) {
+			await db
+				.update(waitlistEntries)
+				.set({ referralCount: sql`${waitlistEntries.referralCount} + 1` })
+				.where(eq(waitlistEntries.id, referredById));
+		}
+
 		return entry;
 	}, null);
 }
@@ -82,29 +179,91 @@ export async function getWaitlistStats(): Promise<{
 	total: number;
 	notified: number;
 	pending: number;
+	signedUp: number;
+	referred: number;
 }> {
 	return safeDbExecute(
 		async (db) => {
-			const [totalResult] = await db.select({ count: count() }).from(waitlistEntries);
+			const [result] = await db
+				.select({
+					total: count(),
+					notified: count(sql`case when ${waitlistEntries.isNotified} then 1 end`),
+					signedUp: count(waitlistEntries.signedUpAt),
+					referred: count(waitlistEntries.referredById),
+				})
+				.from(waitlistEntries);
 
-			const [notifiedResult] = await db
-				.select({ count: count() })
-				.from(waitlistEntries)
-				.where(eq(waitlistEntries.isNotified, true));
-
-			const total = totalResult?.count || 0;
-			const notified = notifiedResult?.count || 0;
+			const total = result?.total || 0;
+			const notified = result?.notified || 0;
 
 			return {
 				total,
 				notified,
 				pending: total - notified,
+				signedUp: result?.signedUp || 0,
+				referred: result?.referred || 0,
 			};
 		},
-		{ total: 0, notified: 0, pending: 0 }
+		{ total: 0, notified: 0, pending: 0, signedUp: 0, referred: 0 }
 	);
 }
 
+export interface WaitlistPosition {
+	referralCode: string;
+	/** 1-based place in the queue, or null once invited */
+	position: number | null;
+	/** Entries still waiting for an invite, including this one */
+	waiting: number;
+	referralCount: number;
+	status: "waiting" | "invited" | "signed_up";
+}
+
+/**
+ * Looks up an entry's place in the queue by its referral code
+ * @returns The position, or null if no entry has the code
+ */
+export async function getWaitlistPosition(referralCode: string): Promise<WaitlistPosition | null> {
+	const code = normalizeReferralCode(referralCode);
+	if (!code) {
+		return null;
+	}
+
+	return safeDbExecute(async (db) => {
+		const entry = await db.query.waitlistEntries.findFirst({
+			where: eq(waitlistEntries.referralCode, code),
+		});
+		if (!entry) {
+			return null;
+		}
+
+		const [waiting] = await db.select({ count: count() }).from(waitlistEntries).where(isPending);
+		const status = entry.signedUpAt ? "signed_up" : entry.isNotified ? "invited" : "waiting";
+		let position: number | null = null;
+
+		if (status === "waiting") {
+			// Ties on queue time go to whoever joined first
+			const [ahead] = await db
+				.select({ count: count() })
+				.from(waitlistEntries)
+				.where(
+					and(
+						isPending,
+						sql`(${queueTime}, ${waitlistEntries.id}) < (${getWaitlistQueueTime(entry).toISOString()}::timestamptz, ${entry.id})`
+					)
+				);
+			position = (ahead?.count ?? 0) + 1;
+		}
+
+		return {
+			referralCode: code,
+			position,
+			waiting: waiting?.count ?? 0,
+			referralCount: entry.referralCount,
+			status,
+		};
+	}, null);
+}
+
 /**
  * Mark an entry as notified
  */
@@ -137,3 +296,319 @@ export async function updateWaitlistEntryMetadata(
 			.where(eq(waitlistEntries.email, email));
 	}, undefined);
 }
+
+export interface WaitlistInviteResult {
+	invited: string[];
+	/** Addresses whose email could not be sent; they stay in the queue for the next batch */
+	failed: string[];
+}
+
+/**
+ * Invites the next entries in the queue
+ * Each entry gets an email with an invite-only sign-up link. Entries are only marked as
+ * notified once their email is sent.
+ * @param size - How many entries to invite
+ */
+export async function inviteWaitlistBatch(
+	size: number,
+	options: { expiresInDays?: number } = {}
+): Promise<WaitlistInviteResult> {
+	if (!db) {
+		throw new Error("Database not initialized");
+	}
+
+	const entries = await db
+		.select()
+		.from(waitlistEntries)
+		.where(isPending)
+		.orderBy(asc(queueTime), asc(waitlistEntries.id))
+		.limit(Math.min(size, WAITLIST_MAX_INVITE_BATCH));
+
+	const expiresAt = new Date(
+		Date.now() + (options.expiresInDays ?? WAITLIST_INVITE_EXPIRES_IN_DAYS) * 24 * 60 * 60 * 1000
+	);
+	const result: WaitlistInviteResult = { invited: [], failed: [] };
+
+	for (const entry of entries) {
+		const token = crypto.randomBytes(32).toString("base64url");
+		await db
+			.update(waitlistEntries)
+			.set({ inviteTokenHash: hashWaitlistInviteToken(token), inviteExpiresAt: expiresAt })
+			.where(eq(waitlistEntries.id, entry.id));
+
+		const signUpUrl = `${BASE_URL}${routes.auth.signUp}?invite=${token}`;
+		const email = await emailService.send(
+			"waitlist-launch",
+			{ name: entry.name, signUpUrl, expiresAt },
+			{ to: entry.email, metadata: { waitlistEntryId: entry.id } }
+		);
+
+		if (email.status !== "sent") {
+			result.failed.push(entry.email);
+			continue;
+		}
+
+		await db
+			.update(waitlistEntries)
+			.set({ isNotified: true, notifiedAt: new Date() })
+			.where(eq(waitlistEntries.id, entry.id));
+		result.invited.push(entry.email);
+	}
+
+	return result;
+}
+
+/**
+ * Looks up the entry a batch invite token was sent to
+ * @returns The entry, or null if the token is unknown, expired or already used
+ */
+export async function getWaitlistInvite(token: string): Promise<WaitlistEntry | null> {
+	return safeDbExecute(async (db) => {
+		const entry = await db.query.waitlistEntries.findFirst({
+			where: and(
+				eq(waitlistEntries.inviteTokenHash, hashWaitlistInviteToken(token)),
+				gt(waitlistEntries.inviteExpiresAt, new Date()),
+				isNull(waitlistEntries.signedUpAt)
+			),
+		});
+		return entry ?? null;
+	}, null);
+}
+
+/**
+ * Checks whether an email address may sign in while sign-up is invite-only
+ * OAuth and magic-link sign-ins create the account on their own, without the sign-up form or
+ * its invite token, so a new address needs an unexpired, unused batch invite. Addresses that
+ * already have an account can always sign in.
+ * @returns True while the invite-only flag is off
+ */
+export async function isSignUpAllowed(email: string | null | undefined): Promise<boolean> {
+	if (!(await getFlag(WAITLIST_INVITE_ONLY_FLAG, false, { userId: null }))) {
+		return true;
+	}
+	if (!email) {
+		return false;
+	}
+
+	const normalizedEmail = email.toLowerCase();
+	return safeDbExecute(async (db) => {
+		const user = await db.query.users.findFirst({
+			where: eq(users.email, normalizedEmail),
+			columns: { id: true },
+		});
+		if (user) {
+			return true;
+		}
+
+		const invite = await db.query.waitlistEntries.findFirst({
+			where: and(
+				sql`lower(${waitlistEntries.email}) = ${normalizedEmail}`,
+				gt(waitlistEntries.inviteExpiresAt, new Date()),
+				isNull(waitlistEntries.signedUpAt)
+			),
+			columns: { id: true },
+		});
+		return !!invite;
+	}, false);
+}
+
+/**
+ * Records that a waitlist entry created an account, and retires its invite token
+ */
+export async function markWaitlistEntrySignedUp(email: string): Promise<void> {
+	await safeDbExecute(async (db) => {
+		await db
+			.update(waitlistEntries)
+			.set({ signedUpAt: new Date(), inviteTokenHash: null })
+			.where(
+				and(
+					sql`lower(${waitlistEntries.email}) = ${email.toLowerCase()}`,
+					isNull(waitlistEntries.signedUpAt)
+				)
+			);
+	}, undefined);
+}
+
+const WAITLIST_CSV_COLUMNS = [
+	"email",
+	"name",
+	"company",
+	"role",
+	"project_type",
+	"timeline",
+	"interests",
+	"source",
+	"referral_code",
+	"referred_by",
+	"referral_count",
+	"invited_at",
+	"signed_up_at",
+	"created_at",
+] as const;
+
+/**
+ * Exports every entry as CSV, in queue order
+ * The file can be imported again with `importWaitlistCsv`.
+ */
+export async function exportWaitlistCsv(): Promise<string> {
+	if (!db) {
+		throw new Error("Database not initialized");
+	}
+
+	const referrer = alias(waitlistEntries, "referrer");
+	const rows = await db
+		.select({ entry: waitlistEntries, referredBy: referrer.email })
+		.from(waitlistEntries)
+		.leftJoin(referrer, eq(waitlistEntries.referredById, referrer.id))
+		.orderBy(asc(queueTime), asc(waitlistEntries.id));
+
+	return toCsv([
+		[...WAITLIST_CSV_COLUMNS],
+		...rows.map(({ entry, referredBy }) => [
+			entry.email,
+			entry.name,
+			entry.company,
+			entry.role,
+			entry.projectType,
+			entry.timeline,
+			entry.interests,
+			entry.source,
+			entry.referralCode,
+			referredBy,
+			entry.referralCount,
+			entry.isNotified ? entry.notifiedAt : null,
+			entry.signedUpAt,
+			entry.createdAt,
+		]),
+	]);
+}
+
+export interface WaitlistImportResult {
+	imported: number;
+	/** Rows whose email or referral code is already on the waitlist */
+	skipped: number;
+	/** Rows that could not be read; at most the first 20 are listed */
+	errors: { line: number; message: string }[];
+}
+
+const importRowSchema = z.object({
+	email: z.string().trim().toLowerCase().email("Invalid email").max(255),
+	name: z.string().trim().max(255),
+	company: z.string().trim().max(255),
+	role: z.string().trim().max(100),
+	project_type: z.string().trim().max(100),
+	timeline: z.string().trim().max(100),
+	interests: z.string().trim().max(5000),
+	source: z.string().trim().max(50),
+	referral_code: z.string().trim(),
+	invited_at: z.string().trim(),
+	created_at: z.string().trim(),
+});
+
+function parseImportDate(value: string): Date | null {
+	const date = value ? new Date(value) : null;
+	return date && !Number.isNaN(date.getTime()) ? date : null;
+}
+
+/**
+ * Imports entries from CSV with an `email` column
+ * Other recognized columns are those written by `exportWaitlistCsv`. Keeping `created_at`
+ * keeps each entry's place in the queue; entries without it join at the back.
+ * Referrals are not imported.
+ */
+export async function importWaitlistCsv(csv: string): Promise<WaitlistImportResult> {
+	if (!db) {
+		throw new Error("Database not initialized");
+	}
+
+	const { headers, records } = parseCsvRecords(csv);
+	if (!headers.includes("email")) {
+		throw ErrorService.createError(
+			"VALIDATION_ERROR",
+			"The CSV needs a header row with an email column"
+		);
+	}
+	if (records.length > WAITLIST_MAX_IMPORT_ROWS) {
+		throw ErrorService.createError(
+			"VALIDATION_ERROR",
+			`Import at most ${WAITLIST_MAX_IMPORT_ROWS} rows at a time`
+		);
+	}
+
+	const errors: WaitlistImportResult["errors"] = [];
+	const values: (typeof waitlistEntries.$inferInsert)[] = [];
+	const seen = new Set<string>();
+	let duplicates = 0;
+
+	records.forEach((record, index) => {
+		// The header is line 1
+		const line = index + 2;
+		const parsed = importRowSchema.safeParse(
+			Object.fromEntries(importRowSchema.keyof().options.map((key) => [key, record[key] ?? ""]))
+		);
+		if (!parsed.success) {
+			errors.push({ line, message: parsed.error.issues[0]?.message ?? "Invalid row" });
+			return;
+		}
+
+		const row = parsed.data;
+		if (seen.has(row.email)) {
+			duplicates++;
+			return;
+		}
+		seen.add(row.email);
+
+		const invitedAt = parseImportDate(row.invited_at);
+		values.push({
+			email: row.email,
+			name: row.name || row.email.split("@")[0] || row.email,
+			company: row.company || null,
+			role: row.role || null,
+			projectType: row.project_type || null,
+			timeline: row.timeline || null,
+			interests: row.interests || null,
+			source: row.source || "import",
+			referralCode: normalizeReferralCode(row.referral_code) ?? generateReferralCode(),
+			isNotified: !!invitedAt,
+			notifiedAt: invitedAt,
+			createdAt: parseImportDate(row.created_at) ?? undefined,
+		});
+	});
+
+	let imported = 0;
+	for (let start = 0; start < values.length; start += 500) {
+		const inserted = await db
+			.insert(waitlistEntries)
+			.values(values.slice(start, start + 500))
+			.onConflictDoNothing()
+			.returning({ id: waitlistEntries.id });
+		imported += inserted.length;
+	}
+
+	return {
+		imported,
+		skipped: values.length - imported + duplicates,
+		errors: errors.slice(0, 20),
+	};
+}
+
+/**
+ * Lists the entries with the most referrals, for the admin page
+ */
+export async function getTopWaitlistReferrers(limit = 5) {
+	return safeDbExecute(
+		(db) =>
+			db
+				.select({
+					email: waitlistEntries.email,
+					name: waitlistEntries.name,
+					referralCode: waitlistEntries.referralCode,
+					referralCount: waitlistEntries.referralCount,
+				})
+				.from(waitlistEntries)
+				.where(gt(waitlistEntries.referralCount, 0))
+				.orderBy(desc(waitlistEntries.referralCount))
+				.limit(limit),
+		[]
+	);
+}
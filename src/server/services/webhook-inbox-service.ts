@@ -0,0 +1,354 @@
+/**
+ * @fileoverview Webhook inbox for provider webhooks
+ * @module server/services/webhook-inbox-service
+ *
+ * Every incoming Stripe, Lemon Squeezy, Polar and Vercel webhook is persisted to the
+ * `webhookEvents` table before it is processed. The table has a unique
+ * (provider, eventId) key, so duplicate deliveries are detected and skipped.
+ *
+ * Key responsibilities:
+ * - Persist webhook deliveries idempotently
+ * - Dispatch stored events to the provider handler
+ * - Track attempts and errors, and schedule retries with exponential backoff
+ * - Replay events on demand from the admin dashboard
+ *
+ * Routes only verify signatures and call `WebhookInboxService.ingest`; retries are
+ * driven by the `/api/cron/webhooks` route.
+ */
+
+import crypto from "crypto";
+import { and, desc, eq, lte, ne, or, sql } from "drizzle-orm";
+import { logger } from "@/lib/logger";
+import { db, safeDbExecute } from "@/server/db";
+import { type WebhookEvent, webhookEvents } from "@/server/db/schema";
+
+export type WebhookProvider = "stripe" | "lemonsqueezy" | "polar" | "vercel";
+
+export type WebhookEventStatus = "pending" | "processing" | "processed" | "failed";
+
+export const WEBHOOK_PROVIDERS: WebhookProvider[] = ["stripe", "lemonsqueezy", "polar", "vercel"];
+
+/** Number of attempts before an event stops being retried automatically */
+export const MAX_WEBHOOK_ATTEMPTS = 8;
+
+/** Delay before the first retry; doubles with every attempt */
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+
+/** Upper bound for the retry delay */
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+/** An event stuck in "processing" longer than this is treated as abandoned */
+const PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface IngestWebhookInput {
+	provider: WebhookProvider;
+	eventId?: string | null;
+	eventName: string;
+	body: string;
+}
+
+export type IngestWebhookResult =
+	| { status: "processed" | "duplicate"; event: WebhookEvent | null }
+	| { status: "failed"; event: WebhookEvent | null; error: string };
+
+/**
+ * Calculates the delay before the next attempt
+ * @param attempts - The number of attempts made so far
+ * @returns The delay in milliseconds
+ */
+export function getWebhookRetryDelay(attempts: number): number {
+	const exponent = Math.max(0, attempts - 1);
+	return Math.min(BASE_RETRY_DELAY_MS * 2 ** exponent, MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Derives an event ID from the raw body for providers that do not send one
+ * Redeliveries of the same event carry the same body, so they map to the same ID.
+ * @param body - The raw request body
+ */
+export function hashWebhookBody(body: string): string {
+	return crypto.createHash("sha256").update(body).digest("hex");
+}
+
+/**
+ * Dispatches a stored event to its provider handler
+ * Providers are imported lazily, like in `initializePaymentProviders`.
+ */
+async function dispatchWebhookEvent(provider: string, payload: any): Promise<void> {
+	switch (provider) {
+		case "stripe": {
+			const { stripeProvider } = await import("@/server/providers/stripe-provider");
+			await stripeProvider.handleWebhookEvent(payload);
+			return;
+		}
+		case "lemonsqueezy": {
+			const { lemonSqueezyProvider } = await import("@/server/providers/lemonsqueezy-provider");
+			await lemonSqueezyProvider.handleWebhookEvent(payload);
+			return;
+		}
+		case "polar": {
+			const { polarProvider, polarWebhookEventSchema } = await import(
+				"@/server/providers/polar-provider"
+			);
+			await polarProvider.handleWebhookEvent(polarWebhookEventSchema.parse(payload));
+			return;
+		}
+		case "vercel": {
+			const { handleVercelWebhookEvent } = await import(
+				"@/server/services/vercel/vercel-webhook-service"
+			);
+			await handleVercelWebhookEvent(payload);
+			return;
+		}
+		default:
+			throw new Error(`No webhook handler registered for provider: ${provider}`);
+	}
+}
+
+const WebhookInboxService = {
+	/**
+	 * Persists a webhook delivery, then processes it unless it was already processed
+	 * @param input - The verified webhook delivery
+	 * @returns Whether the event was processed, skipped as a duplicate, or failed
+	 */
+	async ingest(input: IngestWebhookInput): Promise<IngestWebhookResult> {
+		const event = await WebhookInboxService.receive(input);
+
+		// Without a database, process inline so webhooks keep working
+		if (!event) {
+			try {
+				await dispatchWebhookEvent(input.provider, JSON.parse(input.body));
+				return { status: "processed", event: null };
+			} catch (error) {
+				return { status: "failed", event: null, error: getErrorMessage(error) };
+			}
+		}
+
+		if (event.status === "processed") {
+			logger.info("Duplicate webhook delivery skipped", {
+				provider: input.provider,
+				eventId: event.eventId,
+				webhookEventId: event.id,
+			});
+			return { status: "duplicate", event };
+		}
+
+		return WebhookInboxService.process(event.id);
+	},
+
+	/**
+	 * Stores a webhook delivery, returning the existing row for duplicates
+	 * @param input - The verified webhook delivery
+	 * @returns The stored event, or null if the database is unavailable
+	 */
+	async receive(input: IngestWebhookInput): Promise<WebhookEvent | null> {
+		if (!db) {
+			logger.warn("Database not initialized, webhook not persisted", {
+				provider: input.provider,
+				eventName: input.eventName,
+			});
+			return null;
+		}
+
+		const eventId = input.eventId || hashWebhookBody(input.body);
+
+		const [inserted] = await db
+			.insert(webhookEvents)
+			.values({
+				provider: input.provider,
+				eventId,
+				eventName: input.eventName,
+				body: input.body,
+				status: "pending",
+			})
+			.onConflictDoNothing({ target: [webhookEvents.provider, webhookEvents.eventId] })
+			.returning();
+
+		if (inserted) {
+			logger.debug("Webhook event stored", {
+				provider: input.provider,
+				eventId,
+				eventName: input.eventName,
+				webhookEventId: inserted.id,
+			});
+			return inserted;
+		}
+
+		const existing = await db.query.webhookEvents.findFirst({
+			where: and(eq(webhookEvents.provider, input.provider), eq(webhookEvents.eventId, eventId)),
+		});
+
+		return existing ?? null;
+	},
+
+	/**
+	 * Processes a stored event, recording the outcome and scheduling a retry on failure
+	 * @param id - The webhook event row ID
+	 * @param options - Set `force` to process events that were already processed (replay)
+	 */
+	async process(id: number, options: { force?: boolean } = {}): Promise<IngestWebhookResult> {
+		if (!db) {
+			throw new Error("Database not initialized");
+		}
+
+		const now = new Date();
+		const staleProcessing = new Date(now.getTime() - PROCESSING_TIMEOUT_MS);
+
+		// Claim the event so concurrent deliveries and the retry job do not process it twice
+		const [event] = await db
+			.update(webhookEvents)
+			.set({
+				status: "processing",
+				attempts: sql`${webhookEvents.attempts} + 1`,
+				lastAttemptAt: now,
+			})
+			.where(
+				and(
+					eq(webhookEvents.id, id),
+					options.force ? undefined : ne(webhookEvents.status, "processed"),
+					or(
+						ne(webhookEvents.status, "processing"),
+						lte(webhookEvents.lastAttemptAt, staleProcessing)
+					)
+				)
+			)
+			.returning();
+
+		if (!event) {
+			const current = await WebhookInboxService.getEvent(id);
+			logger.debug("Webhook event not claimed", { webhookEventId: id, status: current?.status });
+			return { status: "duplicate", event: current };
+		}
+
+		try {
+			await dispatchWebhookEvent(event.provider, JSON.parse(event.body));
+
+			const [processed] = await db
+				.update(webhookEvents)
+				.set({
+					status: "processed",
+					processed: true,
+					processedAt: new Date(),
+					error: null,
+					nextAttemptAt: null,
+				})
+				.where(eq(webhookEvents.id, id))
+				.returning();
+
+			logger.info("Webhook event processed", {
+				provider: event.provider,
+				eventName: event.eventName,
+				webhookEventId: id,
+				attempts: event.attempts,
+			});
+
+			return { status: "processed", event: processed ?? event };
+		} catch (error) {
+			const message = getErrorMessage(error);
+			const nextAttemptAt =
+				event.attempts < MAX_WEBHOOK_ATTEMPTS
+					? new Date(Date.now() + getWebhookRetryDelay(event.attempts))
+					: null;
+
+			const [failed] = await db
+				.update(webhookEvents)
+				.set({ status: "failed", error: message, nextAttemptAt })
+				.where(eq(webhookEvents.id, id))
+				.returning();
+
+			logger.error("Webhook event processing failed", {
+				provider: event.provider,
+				eventName: event.eventName,
+				webhookEventId: id,
+				attempts: event.attempts,
+				nextAttemptAt,
+				error: message,
+			});
+
+			return { status: "failed", event: failed ?? event, error: message };
+		}
+	},
+
+	/**
+	 * Re-runs a stored event regardless of its status
+	 * Handlers are idempotent, so replaying a processed event is safe.
+	 * @param id - The webhook event row ID
+	 */
+	async replay(id: number): Promise<IngestWebhookResult> {
+		logger.info("Replaying webhook event", { webhookEventId: id });
+		return WebhookInboxService.process(id, { force: true });
+	},
+
+	/**
+	 * Retries failed events whose backoff has elapsed
+	 * @param limit - The maximum number of events to retry in one run
+	 * @returns Counts of retried, processed and failed events
+	 */
+	async retryDueEvents(
+		limit = 25
+	): Promise<{ retried: number; processed: number; failed: number }> {
+		const dueEvents = await safeDbExecute(async (db) => {
+			return await db
+				.select({ id: webhookEvents.id })
+				.from(webhookEvents)
+				.where(
+					and(eq(webhookEvents.status, "failed"), lte(webhookEvents.nextAttemptAt, new Date()))
+				)
+				.orderBy(webhookEvents.nextAttemptAt)
+				.limit(limit);
+		}, []);
+
+		const stats = { retried: dueEvents.length, processed: 0, failed: 0 };
+
+		for (const { id } of dueEvents) {
+			const result = await WebhookInboxService.process(id);
+			if (result.status === "processed") stats.processed++;
+			if (result.status === "failed") stats.failed++;
+		}
+
+		if (stats.retried > 0) {
+			logger.info("Webhook retry run finished", stats);
+		}
+
+		return stats;
+	},
+
+	/**
+	 * Gets a stored webhook event
+	 * @param id - The webhook event row ID
+	 */
+	async getEvent(id: number): Promise<WebhookEvent | null> {
+		return safeDbExecute(async (db) => {
+			const event = await db.query.webhookEvents.findFirst({ where: eq(webhookEvents.id, id) });
+			return event ?? null;
+		}, null);
+	},
+
+	/**
+	 * Lists stored webhook events, newest first
+	 * @param filters - Optional provider and status filters
+	 */
+	async listEvents(
+		filters: { provider?: string; status?: string; limit?: number } = {}
+	): Promise<WebhookEvent[]> {
+		return safeDbExecute(async (db) => {
+			return await db
+				.select()
+				.from(webhookEvents)
+				.where(
+					and(
+						filters.provider ? eq(webhookEvents.provider, filters.provider) : undefined,
+						filters.status ? eq(webhookEvents.status, filters.status) : undefined
+					)
+				)
+				.orderBy(desc(webhookEvents.receivedAt))
+				.limit(filters.limit ?? 100);
+		}, []);
+	},
+};
+
+function getErrorMessage(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
+
+export { WebhookInboxService };
@@ -0,0 +1,69 @@
+/**
+ * Storage Module
+ *
+ * Selects the storage driver for uploads (see src/config/storage.ts) and exports
+ * helpers to work with it.
+ */
+
+import { resolveStorageDriverId } from "@/config/storage";
+import { env } from "@/env";
+import { logger } from "@/lib/logger";
+import { LocalStorageDriver } from "./local-driver";
+import { S3StorageDriver } from "./s3-driver";
+import type { StorageDriver, StorageDriverId } from "./types";
+import { VercelBlobStorageDriver } from "./vercel-blob-driver";
+
+export * from "./types";
+export { LocalStorageDriver, S3StorageDriver, VercelBlobStorageDriver };
+
+let storageDriver: StorageDriver | null | undefined;
+
+/**
+ * The ID of the configured storage driver, or null if uploads are unavailable
+ */
+export function getStorageDriverId(): StorageDriverId | null {
+	return resolveStorageDriverId({
+		driver: env.STORAGE_DRIVER,
+		s3Enabled: !!env.NEXT_PUBLIC_FEATURE_S3_ENABLED,
+		vercelBlobEnabled: !!env.NEXT_PUBLIC_FEATURE_VERCEL_BLOB_ENABLED,
+	});
+}
+
+function createStorageDriver(id: StorageDriverId): StorageDriver {
+	switch (id) {
+		case "s3":
+			return new S3StorageDriver();
+		case "vercel-blob":
+			return new VercelBlobStorageDriver();
+		case "local":
+			return new LocalStorageDriver(env.STORAGE_LOCAL_DIR);
+	}
+}
+
+/**
+ * Gets the configured storage driver, created on first use
+ * @throws Error if no storage is configured
+ */
+export function getStorageDriver(): StorageDriver {
+	if (storageDriver === undefined) {
+		const id = getStorageDriverId();
+		storageDriver = id ? createStorageDriver(id) : null;
+		if (storageDriver) {
+			logger.info("Storage driver selected", { driver: storageDriver.id });
+		}
+	}
+
+	if (!storageDriver) {
+		throw new Error(
+			"File storage is not configured. Set STORAGE_DRIVER or configure S3 or Vercel Blob."
+		);
+	}
+	return storageDriver;
+}
+
+/**
+ * Checks whether uploads can be stored
+ */
+export function isStorageEnabled(): boolean {
+	return getStorageDriverId() !== null;
+}
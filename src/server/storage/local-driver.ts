@@ -0,0 +1,201 @@
+import { createHash, randomUUID } from "node:crypto";
+import { appendFile, mkdir, open, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { LOCAL_STORAGE_DIR } from "@/config/storage";
+import { routes } from "@/config/routes";
+import {
+	getBodySize,
+	type PutObjectOptions,
+	type StorageBody,
+	type StorageDriver,
+	StorageDriverError,
+	type StoredObject,
+	type UploadedPart,
+} from "./types";
+
+/** Content types are kept next to each object, since the disk does not store them */
+const METADATA_SUFFIX = ".meta.json";
+
+/** Parts of unfinished multipart uploads are kept in this subdirectory */
+const UPLOADS_DIR = ".uploads";
+
+/**
+ * Stores objects in a directory on disk
+ * Objects are served by the /api/storage route. Meant for development and self-hosting
+ * on a persistent disk; serverless filesystems are wiped between invocations.
+ */
+export class LocalStorageDriver implements StorageDriver {
+	readonly id = "local" as const;
+	private readonly root: string;
+
+	constructor(root: string = LOCAL_STORAGE_DIR) {
+		this.root = path.resolve(root);
+	}
+
+	/**
+	 * Resolves a key to a path inside the storage directory
+	 * @throws StorageDriverError if the key escapes the directory
+	 */
+	resolvePath(key: string): string {
+		const filePath = path.resolve(this.root, key);
+		if (
+			!filePath.startsWith(`${this.root}${path.sep}`) ||
+			path.relative(this.getUploadsRoot(), filePath).split(path.sep)[0] !== ".." ||
+			key.endsWith(METADATA_SUFFIX)
+		) {
+			throw new StorageDriverError(`Invalid storage key: ${key}`, this.id);
+		}
+		return filePath;
+	}
+
+	async put(key: string, body: StorageBody, options: PutObjectOptions = {}): Promise<StoredObject> {
+		const filePath = this.resolvePath(key);
+		const contentType = options.contentType || "application/octet-stream";
+		const data = body instanceof Blob ? new Uint8Array(await body.arrayBuffer()) : body;
+
+		try {
+			await mkdir(path.dirname(filePath), { recursive: true });
+			await writeFile(filePath, data);
+			await writeFile(`${filePath}${METADATA_SUFFIX}`, JSON.stringify({ contentType }));
+		} catch (error) {
+			throw new StorageDriverError(`Failed to write ${key} to local storage`, this.id, error);
+		}
+
+		return { key, url: this.getUrl(key), size: getBodySize(body), contentType };
+	}
+
+	/**
+	 * Reads an object and its content type
+	 * @returns The object, or null if it does not exist
+	 */
+	async get(key: string): Promise<{ data: Buffer; contentType: string } | null> {
+		const filePath = this.resolvePath(key);
+		try {
+			const data = await readFile(filePath);
+			const metadata = await readFile(`${filePath}${METADATA_SUFFIX}`, "utf8")
+				.then((json) => JSON.parse(json) as { contentType?: string })
+				.catch(() => ({ contentType: undefined }));
+			return { data, contentType: metadata.contentType || "application/octet-stream" };
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+				return null;
+			}
+			throw new StorageDriverError(`Failed to read ${key} from local storage`, this.id, error);
+		}
+	}
+
+	async delete(key: string): Promise<void> {
+		const filePath = this.resolvePath(key);
+		try {
+			await rm(filePath, { force: true });
+			await rm(`${filePath}${METADATA_SUFFIX}`, { force: true });
+		} catch (error) {
+			throw new StorageDriverError(`Failed to delete ${key} from local storage`, this.id, error);
+		}
+	}
+
+	async readStart(key: string, length: number): Promise<Uint8Array> {
+		const filePath = this.resolvePath(key);
+		try {
+			const file = await open(filePath, "r");
+			try {
+				const buffer = Buffer.alloc(length);
+				const { bytesRead } = await file.read(buffer, 0, length, 0);
+				return new Uint8Array(buffer.subarray(0, bytesRead));
+			} finally {
+				await file.close();
+			}
+		} catch (error) {
+			throw new StorageDriverError(`Failed to read ${key} from local storage`, this.id, error);
+		}
+	}
+
+	async createMultipartUpload(key: string): Promise<{ uploadId: string }> {
+		this.resolvePath(key);
+		const uploadId = randomUUID();
+		try {
+			await mkdir(this.getUploadDir(uploadId), { recursive: true });
+		} catch (error) {
+			throw new StorageDriverError(`Failed to start multipart upload of ${key}`, this.id, error);
+		}
+		return { uploadId };
+	}
+
+	async uploadPart(
+		key: string,
+		uploadId: string,
+		partNumber: number,
+		body: Uint8Array
+	): Promise<UploadedPart> {
+		try {
+			await writeFile(path.join(this.getUploadDir(uploadId), String(partNumber)), body);
+		} catch (error) {
+			throw new StorageDriverError(`Failed to upload part ${partNumber} of ${key}`, this.id, error);
+		}
+		return { partNumber, etag: createHash("sha1").update(body).digest("hex") };
+	}
+
+	async completeMultipartUpload(
+		key: string,
+		uploadId: string,
+		parts: UploadedPart[],
+		options: PutObjectOptions = {}
+	): Promise<StoredObject> {
+		const filePath = this.resolvePath(key);
+		const uploadDir = this.getUploadDir(uploadId);
+		const contentType = options.contentType || "application/octet-stream";
+		let size = 0;
+
+		try {
+			await mkdir(path.dirname(filePath), { recursive: true });
+			await writeFile(filePath, new Uint8Array());
+			for (const part of [...parts].sort((a, b) => a.partNumber - b.partNumber)) {
+				const data = await readFile(path.join(uploadDir, String(part.partNumber)));
+				if (createHash("sha1").update(data).digest("hex") !== part.etag) {
+					throw new Error(`Part ${part.partNumber} does not match its ETag`);
+				}
+				await appendFile(filePath, data);
+				size += data.byteLength;
+			}
+			await writeFile(`${filePath}${METADATA_SUFFIX}`, JSON.stringify({ contentType }));
+			await rm(uploadDir, { recursive: true, force: true });
+		} catch (error) {
+			await rm(filePath, { force: true });
+			throw new StorageDriverError(`Failed to complete multipart upload of ${key}`, this.id, error);
+		}
+
+		return { key, url: this.getUrl(key), size, contentType };
+	}
+
+	async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+		try {
+			await rm(this.getUploadDir(uploadId), { recursive: true, force: true });
+		} catch (error) {
+			throw new StorageDriverError(`Failed to abort multipart upload of ${key}`, this.id, error);
+		}
+	}
+
+	getUrl(key: string): string {
+		return `${routes.api.storage}/${key.split("/").map(encodeURIComponent).join("/")}`;
+	}
+
+	getKey(url: string): string | null {
+		const pathname = url.startsWith("/") ? url : URL.canParse(url) ? new URL(url).pathname : "";
+		const prefix = `${routes.api.storage}/`;
+		if (!pathname.startsWith(prefix)) {
+			return null;
+		}
+		return pathname.slice(prefix.length).split("/").map(decodeURIComponent).join("/");
+	}
+
+	private getUploadsRoot(): string {
+		return path.join(this.root, UPLOADS_DIR);
+	}
+
+	private getUploadDir(uploadId: string): string {
+		if (!/^[\w-]+$/.test(uploadId)) {
+			throw new StorageDriverError(`Invalid upload ID: ${uploadId}`, this.id);
+		}
+		return path.join(this.getUploadsRoot(), uploadId);
+	}
+}
@@ -0,0 +1,163 @@
+import {
+	AbortMultipartUploadCommand,
+	CompleteMultipartUploadCommand,
+	CreateMultipartUploadCommand,
+	GetObjectCommand,
+	UploadPartCommand,
+} from "@aws-sdk/client-s3";
+import { env } from "@/env";
+import { deleteFromS3, getS3Client, getS3ObjectUrl, putToS3 } from "@/server/services/s3";
+import {
+	getBodySize,
+	type PutObjectOptions,
+	type StorageBody,
+	type StorageDriver,
+	StorageDriverError,
+	type StoredObject,
+	type UploadedPart,
+} from "./types";
+
+/**
+ * Stores objects in the S3 bucket configured by the AWS_* variables
+ */
+export class S3StorageDriver implements StorageDriver {
+	readonly id = "s3" as const;
+
+	async put(key: string, body: StorageBody, options: PutObjectOptions = {}): Promise<StoredObject> {
+		const contentType = options.contentType || "application/octet-stream";
+		const data = body instanceof Blob ? new Uint8Array(await body.arrayBuffer()) : body;
+
+		try {
+			await putToS3(key, data, contentType);
+		} catch (error) {
+			throw new StorageDriverError(`Failed to upload ${key} to S3`, this.id, error);
+		}
+
+		return { key, url: this.getUrl(key), size: getBodySize(body), contentType };
+	}
+
+	async delete(key: string): Promise<void> {
+		try {
+			await deleteFromS3(key);
+		} catch (error) {
+			throw new StorageDriverError(`Failed to delete ${key} from S3`, this.id, error);
+		}
+	}
+
+	async readStart(key: string, length: number): Promise<Uint8Array> {
+		try {
+			const response = await getS3Client().send(
+				new GetObjectCommand({
+					Bucket: env.AWS_BUCKET_NAME,
+					Key: key,
+					Range: `bytes=0-${length - 1}`,
+				})
+			);
+			return (await response.Body?.transformToByteArray()) ?? new Uint8Array();
+		} catch (error) {
+			throw new StorageDriverError(`Failed to read ${key} from S3`, this.id, error);
+		}
+	}
+
+	async createMultipartUpload(
+		key: string,
+		options: PutObjectOptions = {}
+	): Promise<{ uploadId: string }> {
+		try {
+			const { UploadId } = await getS3Client().send(
+				new CreateMultipartUploadCommand({
+					Bucket: env.AWS_BUCKET_NAME,
+					Key: key,
+					ContentType: options.contentType,
+				})
+			);
+			if (!UploadId) {
+				throw new Error("S3 did not return an upload ID");
+			}
+			return { uploadId: UploadId };
+		} catch (error) {
+			throw new StorageDriverError(`Failed to start multipart upload of ${key}`, this.id, error);
+		}
+	}
+
+	async uploadPart(
+		key: string,
+		uploadId: string,
+		partNumber: number,
+		body: Uint8Array
+	): Promise<UploadedPart> {
+		try {
+			const { ETag } = await getS3Client().send(
+				new UploadPartCommand({
+					Bucket: env.AWS_BUCKET_NAME,
+					Key: key,
+					UploadId: uploadId,
+					PartNumber: partNumber,
+					Body: body,
+				})
+			);
+			if (!ETag) {
+				throw new Error("S3 did not return an ETag");
+			}
+			return { partNumber, etag: ETag };
+		} catch (error) {
+			throw new StorageDriverError(`Failed to upload part ${partNumber} of ${key}`, this.id, error);
+		}
+	}
+
+	async completeMultipartUpload(
+		key: string,
+		uploadId: string,
+		parts: UploadedPart[],
+		options: PutObjectOptions = {}
+	): Promise<StoredObject> {
+		try {
+			await getS3Client().send(
+				new CompleteMultipartUploadCommand({
+					Bucket: env.AWS_BUCKET_NAME,
+					Key: key,
+					UploadId: uploadId,
+					MultipartUpload: {
+						Parts: parts.map(({ partNumber, etag }) => ({ PartNumber: partNumber, ETag: etag })),
+					},
+				})
+			);
+		} catch (error) {
+			throw new StorageDriverError(`Failed to complete multipart upload of ${key}`, this.id, error);
+		}
+
+		return {
+			key,
+			url: this.getUrl(key),
+			size: 0, // Known to the caller, which tracked the part sizes
+			contentType: options.contentType || "application/octet-stream",
+		};
+	}
+
+	async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+		try {
+			await getS3Client().send(
+				new AbortMultipartUploadCommand({
+					Bucket: env.AWS_BUCKET_NAME,
+					Key: key,
+					UploadId: uploadId,
+				})
+			);
+		} catch (error) {
+			throw new StorageDriverError(`Failed to abort multipart upload of ${key}`, this.id, error);
+		}
+	}
+
+	getUrl(key: string): string {
+		return getS3ObjectUrl(key);
+	}
+
+	getKey(url: string): string | null {
+		const baseUrl = getS3ObjectUrl("");
+		if (!url.startsWith(baseUrl)) {
+			return null;
+		}
+		const [path = ""] = url.slice(baseUrl.length).split("?");
+		return path.split("/").map(decodeURIComponent).join("/");
+	}
+}
@@ -0,0 +1,87 @@
+import type { StorageDriverId } from "@/config/storage";
+
+export type { StorageDriverId };
+
+export type StorageBody = Blob | Buffer | Uint8Array;
+
+export interface PutObjectOptions {
+	contentType?: string;
+}
+
+/**
+ * A stored object
+ */
+export interface StoredObject {
+	/** Path of the object inside the store, e.g. "1712345678-avatar.png" */
+	key: string;
+	/** Public URL of the object */
+	url: string;
+	size: number;
+	contentType: string;
+}
+
+/**
+ * A part of a multipart upload, as returned by the driver
+ */
+export interface UploadedPart {
+	partNumber: number;
+	etag: string;
+}
+
+/**
+ * Storage driver interface
+ * Every driver must implement this interface; keys are the same across drivers, so
+ * switching drivers only changes where new objects are written.
+ */
+export interface StorageDriver {
+	readonly id: StorageDriverId;
+
+	put(key: string, body: StorageBody, options?: PutObjectOptions): Promise<StoredObject>;
+	delete(key: string): Promise<void>;
+
+	/** Reads the first `length` bytes of an object, e.g. to check its content type */
+	readStart(key: string, length: number): Promise<Uint8Array>;
+
+	// Multipart uploads. Parts are numbered from 1; every part but the last may need a
+	// minimum size (5 MB for S3 and Vercel Blob).
+	createMultipartUpload(key: string, options?: PutObjectOptions): Promise<{ uploadId: string }>;
+	uploadPart(
+		key: string,
+		uploadId: string,
+		partNumber: number,
+		body: Uint8Array
+	): Promise<UploadedPart>;
+	completeMultipartUpload(
+		key: string,
+		uploadId: string,
+		parts: UploadedPart[],
+		options?: PutObjectOptions
+	): Promise<StoredObject>;
+	abortMultipartUpload(key: string, uploadId: string): Promise<void>;
+
+	/** Public URL of an object */
+	getUrl(key: string): string;
+	/** Key of an object from its public URL, or null if the URL is not from this store */
+	getKey(url: string): string | null;
+}
+
+/**
+ * Error class for storage driver errors
+ */
+export class StorageDriverError extends Error {
+	constructor(
+		message: string,
+		public readonly driver: StorageDriverId,
+		public readonly originalError?: unknown
+	) {
+		super(message);
+		this.name = "StorageDriverError";
+	}
+}
+
+/**
+ * Size in bytes of an upload body
+ */
+export function getBodySize(body: StorageBody): number {
+	return body instanceof Blob ? body.size : body.byteLength;
+}
@@ -0,0 +1,162 @@
+import { completeMultipartUpload, createMultipartUpload, del, put, uploadPart } from "@vercel/blob";
+import { env } from "@/env";
+import {
+	getBodySize,
+	type PutObjectOptions,
+	type StorageBody,
+	type StorageDriver,
+	StorageDriverError,
+	type StoredObject,
+	type UploadedPart,
+} from "./types";
+
+/**
+ * Vercel Blob identifies a multipart upload by both an upload ID and an object key,
+ * so the driver upload ID packs the two together
+ */
+function encodeUploadId(upload: { key: string; uploadId: string }): string {
+	return Buffer.from(JSON.stringify(upload)).toString("base64url");
+}
+
+function decodeUploadId(uploadId: string): { key: string; uploadId: string } {
+	return JSON.parse(Buffer.from(uploadId, "base64url").toString("utf8")) as {
+		key: string;
+		uploadId: string;
+	};
+}
+
+/**
+ * Stores objects in Vercel Blob
+ * Objects are public and keep their key as pathname, so URLs can be derived from keys.
+ */
+export class VercelBlobStorageDriver implements StorageDriver {
+	readonly id = "vercel-blob" as const;
+	private readonly token: string;
+	private readonly baseUrl: string;
+
+	constructor(token: string | undefined = env.VERCEL_BLOB_READ_WRITE_TOKEN) {
+		if (!token) {
+			throw new StorageDriverError("VERCEL_BLOB_READ_WRITE_TOKEN is not set", this.id);
+		}
+		this.token = token;
+		// Tokens look like vercel_blob_rw_<storeId>_<secret>
+		const storeId = token.split("_")[3];
+		if (!storeId) {
+			throw new StorageDriverError("VERCEL_BLOB_READ_WRITE_TOKEN is malformed", this.id);
+		}
+		this.baseUrl = `https://${storeId.toLowerCase()}.public.blob.vercel-storage.com`;
+	}
+
+	async put(key: string, body: StorageBody, options: PutObjectOptions = {}): Promise<StoredObject> {
+		const contentType = options.contentType || "application/octet-stream";
+		try {
+			const blob = await put(key, body instanceof Uint8Array ? Buffer.from(body) : body, {
+				access: "public",
+				token: this.token,
+				contentType,
+				addRandomSuffix: false,
+				allowOverwrite: true,
+			});
+			return { key, url: blob.url, size: getBodySize(body), contentType };
+		} catch (error) {
+			throw new StorageDriverError(`Failed to upload ${key} to Vercel Blob`, this.id, error);
+		}
+	}
+
+	async delete(key: string): Promise<void> {
+		try {
+			await del(this.getUrl(key), { token: this.token });
+		} catch (error) {
+			throw new StorageDriverError(`Failed to delete ${key} from Vercel Blob`, this.id, error);
+		}
+	}
+
+	async readStart(key: string, length: number): Promise<Uint8Array> {
+		try {
+			const response = await fetch(this.getUrl(key), {
+				headers: { Range: `bytes=0-${length - 1}` },
+				cache: "no-store",
+			});
+			if (!response.ok) {
+				throw new Error(`Unexpected response status ${response.status}`);
+			}
+			return new Uint8Array(await response.arrayBuffer()).subarray(0, length);
+		} catch (error) {
+			throw new StorageDriverError(`Failed to read ${key} from Vercel Blob`, this.id, error);
+		}
+	}
+
+	async createMultipartUpload(
+		key: string,
+		options: PutObjectOptions = {}
+	): Promise<{ uploadId: string }> {
+		try {
+			const upload = await createMultipartUpload(key, {
+				access: "public",
+				token: this.token,
+				contentType: options.contentType,
+				addRandomSuffix: false,
+				allowOverwrite: true,
+			});
+			return { uploadId: encodeUploadId(upload) };
+		} catch (error) {
+			throw new StorageDriverError(`Failed to start multipart upload of ${key}`, this.id, error);
+		}
+	}
+
+	async uploadPart(
+		key: string,
+		uploadId: string,
+		partNumber: number,
+		body: Uint8Array
+	): Promise<UploadedPart> {
+		try {
+			const part = await uploadPart(key, Buffer.from(body), {
+				...decodeUploadId(uploadId),
+				partNumber,
+				access: "public",
+				token: this.token,
+				addRandomSuffix: false,
+				allowOverwrite: true,
+			});
+			return { partNumber: part.partNumber, etag: part.etag };
+		} catch (error) {
+			throw new StorageDriverError(`Failed to upload part ${partNumber} of ${key}`, this.id, error);
+		}
+	}
+
+	async completeMultipartUpload(
+		key: string,
+		uploadId: string,
+		parts: UploadedPart[],
+		options: PutObjectOptions = {}
+	): Promise<StoredObject> {
+		const contentType = options.contentType || "application/octet-stream";
+		try {
+			const blob = await completeMultipartUpload(key, parts, {
+				...decodeUploadId(uploadId),
+				access: "public",
+				token: this.token,
+				contentType,
+				addRandomSuffix: false,
+				allowOverwrite: true,
+			});
+			return { key, url: blob.url, size: 0, contentType };
+		} catch (error) {
+			throw new StorageDriverError(`Failed to complete multipart upload of ${key}`, this.id, error);
+		}
+	}
+
+	async abortMultipartUpload(key: string): Promise<void> {
+		// Vercel Blob has no abort call; uploaded parts are discarded unless completed
+		await this.delete(key).catch(() => undefined);
+	}
+
+	getUrl(key: string): string {
+		return `${this.baseUrl}/${key}`;
+	}
+
+	getKey(url: string): string | null {
+		return url.startsWith(`${this.baseUrl}/`) ? url.slice(this.baseUrl.length + 1) : null;
+	}
+}
@@ -4,6 +4,13 @@ import "next-auth";
 declare module "next-auth" {
 	interface Session {
 		user: User;
+		/** Set while an admin is impersonating `user` */
+		impersonation?: {
+			id: string;
+			/** ISO string, as sessions are serialized to the client */
+			expiresAt: string;
+			admin: { id: string; email: string; name: string | null };
+		};
 	}
 
 	// JWT is persisted as JSON, so Date objects are serialized to strings
@@ -74,7 +74,10 @@ export type StripeWebhookEventType =
 	| "customer.subscription.created"
 	| "customer.subscription.updated"
 	| "customer.subscription.deleted"
-	| "customer.subscription.trial_will_end";
+	| "customer.subscription.trial_will_end"
+	| "charge.refunded"
+	| "charge.dispute.created"
+	| "charge.dispute.closed";
 
 /**
  * Stripe webhook event interface
@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { auth, checkLimit, streamReply } = vi.hoisted(() => ({
+	auth: vi.fn(),
+	checkLimit: vi.fn(),
+	streamReply: vi.fn(),
+}));
+
+const model = {
+	id: "gpt-4o",
+	provider: "openai",
+	name: "GPT-4o",
+	maxOutputTokens: 1000,
+	credits: { input: 1, output: 4 },
+};
+
+vi.mock("@/server/auth", () => ({ auth }));
+// The API error helper imports NextResponse
+vi.mock("next/server", () => ({
+	NextResponse: { json: (body: unknown, init?: ResponseInit) => Response.json(body, init) },
+}));
+vi.mock("@/server/db", () => ({ db: undefined }));
+vi.mock("@/server/ai", () => ({ resolveAIModel: () => model }));
+vi.mock("@/server/services/chat-service", () => ({ chatService: { streamReply } }));
+vi.mock("@/server/services/rate-limit-service", () => ({
+	rateLimitService: { checkLimit },
+	getRateLimitHeaders: () => ({}),
+}));
+
+import { POST } from "@/app/(app)/api/ai/chat/route";
+import { ErrorService } from "@/server/services/error-service";
+
+const send = () =>
+	POST(
+		new Request("http://localhost/api/ai/chat", {
+			method: "POST",
+			body: JSON.stringify({ message: "Hello" }),
+		})
+	);
+
+describe("AI chat route (/api/ai/chat)", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		auth.mockResolvedValue({ user: { id: "user-1" } });
+		checkLimit.mockResolvedValue({ limit: 20, remaining: 19, reset: Date.now() });
+		streamReply.mockResolvedValue({ conversation: { id: "conv-1" }, stream: "Hi" });
+	});
+
+	it("streams the reply from the chat service", async () => {
+		const response = await send();
+
+		await expect(response.text()).resolves.toBe("Hi");
+		expect(response.headers.get("X-Conversation-Id")).toBe("conv-1");
+		expect(checkLimit).toHaveBeenCalledWith("user-1", "ai-chat", expect.any(Object));
+		expect(streamReply).toHaveBeenCalledWith(
+			expect.objectContaining({ userId: "user-1", content: "Hello", model })
+		);
+	});
+
+	it("rejects users over the rate limit", async () => {
+		checkLimit.mockImplementation(() => ErrorService.throwRateLimited("Too many requests"));
+
+		const response = await send();
+
+		expect(response.status).toBe(429);
+		expect(streamReply).not.toHaveBeenCalled();
+	});
+
+	it("does not spend the user's credits while impersonating", async () => {
+		auth.mockResolvedValue({
+			user: { id: "user-1" },
+			impersonation: { admin: { id: "admin-1", email: "admin@example.com" } },
+		});
+
+		const response = await send();
+
+		expect(response.status).toBe(403);
+		expect(streamReply).not.toHaveBeenCalled();
+	});
+});
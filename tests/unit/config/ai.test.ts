@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { aiModels, calculateAICredits, findAIModel } from "@/config/ai";
+
+describe("calculateAICredits", () => {
+	const model = { credits: { input: 0.1, output: 0.4 } };
+
+	it("charges per 1,000 tokens and rounds up", () => {
+		expect(calculateAICredits(model, { inputTokens: 10_000, outputTokens: 5_000 })).toBe(3);
+		expect(calculateAICredits(model, { inputTokens: 30, outputTokens: 10 })).toBe(1);
+	});
+
+	it("does not round floating point noise up", () => {
+		expect(calculateAICredits(model, { inputTokens: 30_000, outputTokens: 0 })).toBe(3);
+	});
+
+	it("is free for models without rates or without usage", () => {
+		expect(
+			calculateAICredits(
+				{ credits: { input: 0, output: 0 } },
+				{ inputTokens: 500, outputTokens: 500 }
+			)
+		).toBe(0);
+		expect(calculateAICredits(model, { inputTokens: 0, outputTokens: 0 })).toBe(0);
+	});
+});
+
+describe("aiModels", () => {
+	it("has unique model IDs", () => {
+		const ids = aiModels.map((model) => model.id);
+		expect(new Set(ids).size).toBe(ids.length);
+		expect(findAIModel("gpt-4o-mini")?.provider).toBe("openai");
+	});
+});
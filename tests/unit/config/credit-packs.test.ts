@@ -0,0 +1,30 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { type CreditPack, creditPacks, findCreditPackByProduct } from "@/config/credit-packs";
+
+describe("findCreditPackByProduct", () => {
+	const pack = creditPacks[0] as CreditPack;
+	const originalProducts = { ...pack.products };
+
+	afterEach(() => {
+		pack.products = { ...originalProducts };
+	});
+
+	it("matches a pack by the provider's product ID", () => {
+		pack.products = { stripe: "price_123", lemonsqueezy: "456" };
+
+		expect(findCreditPackByProduct("stripe", ["price_123"])).toBe(pack);
+		expect(findCreditPackByProduct("lemonsqueezy", [null, 456])).toBe(pack);
+	});
+
+	it("ignores product IDs configured for another provider", () => {
+		pack.products = { stripe: "price_123" };
+
+		expect(findCreditPackByProduct("polar", ["price_123"])).toBeUndefined();
+	});
+
+	it("returns undefined when no pack has a product configured", () => {
+		pack.products = {};
+
+		expect(findCreditPackByProduct("stripe", [undefined, "price_123"])).toBeUndefined();
+	});
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, parseCsvRecords, toCsv } from "@/lib/utils/csv";
+
+describe("parseCsv", () => {
+	it("parses quoted cells with commas, quotes and line breaks", () => {
+		expect(parseCsv('email,notes\r\na@example.com,"Hi, ""there""\nsecond line"\r\n')).toEqual([
+			["email", "notes"],
+			["a@example.com", 'Hi, "there"\nsecond line'],
+		]);
+	});
+
+	it("skips blank lines and a byte order mark", () => {
+		expect(parseCsv("\uFEFFemail\n\na@example.com\n\n")).toEqual([["email"], ["a@example.com"]]);
+	});
+
+	it("keeps empty cells", () => {
+		expect(parseCsv("a,,c\n,,")).toEqual([
+			["a", "", "c"],
+			["", "", ""],
+		]);
+	});
+});
+
+describe("parseCsvRecords", () => {
+	it("normalizes headers and fills missing cells", () => {
+		expect(parseCsvRecords("Email, Project Type\n a@example.com \n")).toEqual({
+			headers: ["email", "project_type"],
+			records: [{ email: "a@example.com", project_type: "" }],
+		});
+	});
+
+	it("returns nothing for an empty file", () => {
+		expect(parseCsvRecords("")).toEqual({ headers: [], records: [] });
+	});
+});
+
+describe("toCsv", () => {
+	it("quotes cells where needed and formats dates", () => {
+		expect(
+			toCsv([
+				["name", "count", "at", "empty"],
+				['Ada "Countess", Lovelace', 3, new Date("2025-01-02T03:04:05.000Z"), null],
+			])
+		).toBe('name,count,at,empty\r\n"Ada ""Countess"", Lovelace",3,2025-01-02T03:04:05.000Z,\r\n');
+	});
+
+	it("neutralizes cells spreadsheets would run as formulas", () => {
+		expect(toCsv([['=HYPERLINK("x")', "-1", -1]])).toBe(`"'=HYPERLINK(""x"")",'-1,-1\r\n`);
+	});
+
+	it("round-trips through parseCsv", () => {
+		const rows = [
+			["a", "b,c"],
+			['"quoted"', "line\nbreak"],
+		];
+		expect(parseCsv(toCsv(rows))).toEqual(rows);
+	});
+});
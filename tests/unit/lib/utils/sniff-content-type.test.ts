@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { isDeclaredContentTypeValid, sniffContentType } from "@/lib/utils/sniff-content-type";
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+describe("sniffContentType", () => {
+	it("detects binary formats from their magic bytes", () => {
+		expect(sniffContentType(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))).toBe(
+			"image/png"
+		);
+		expect(sniffContentType(new Uint8Array([0xff, 0xd8, 0xff, 0xe0]))).toBe("image/jpeg");
+		expect(sniffContentType(text("%PDF-1.7\n"))).toBe("application/pdf");
+		expect(sniffContentType(text("RIFF\0\0\0\0WEBPVP8 "))).toBe("image/webp");
+	});
+
+	it("detects ISO base media images from their brand", () => {
+		expect(sniffContentType(text("\0\0\0\x1cftypavif\0\0\0\0"))).toBe("image/avif");
+		expect(sniffContentType(text("\0\0\0\x18ftypheic\0\0\0\0"))).toBe("image/heic");
+		expect(sniffContentType(text("\0\0\0\x18ftypisom\0\0\0\0"))).toBeNull();
+	});
+
+	it("detects markup in text files", () => {
+		expect(sniffContentType(text('<?xml version="1.0"?>\n<svg xmlns="x"></svg>'))).toBe(
+			"image/svg+xml"
+		);
+		expect(sniffContentType(text("\uFEFF<!DOCTYPE html><html></html>"))).toBe("text/html");
+		expect(sniffContentType(text('<?xml version="1.0"?><feed/>'))).toBe("text/xml");
+		expect(sniffContentType(text("name,email\nAda,ada@example.com"))).toBe("text/plain");
+	});
+
+	it("returns null for unknown binary data", () => {
+		expect(sniffContentType(new Uint8Array([0x00, 0x01, 0x02, 0x03, 0x04]))).toBeNull();
+	});
+});
+
+describe("isDeclaredContentTypeValid", () => {
+	it("accepts matching and equivalent types", () => {
+		expect(isDeclaredContentTypeValid("image/png", "image/png")).toBe(true);
+		expect(isDeclaredContentTypeValid("image/jpg", "image/jpeg")).toBe(true);
+		expect(isDeclaredContentTypeValid("text/csv; charset=utf-8", "text/plain")).toBe(true);
+	});
+
+	it("rejects mismatched types", () => {
+		expect(isDeclaredContentTypeValid("image/png", "application/pdf")).toBe(false);
+		expect(isDeclaredContentTypeValid("image/png", null)).toBe(false);
+	});
+
+	it("requires script-capable markup to be declared as such", () => {
+		expect(isDeclaredContentTypeValid("text/plain", "image/svg+xml")).toBe(false);
+		expect(isDeclaredContentTypeValid("image/png", "text/html")).toBe(false);
+		expect(isDeclaredContentTypeValid("text/html", "text/plain")).toBe(false);
+	});
+});
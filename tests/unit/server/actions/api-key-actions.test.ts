@@ -0,0 +1,54 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { auth, createApiKeyMock } = vi.hoisted(() => ({
+	auth: vi.fn(),
+	createApiKeyMock: vi.fn(),
+}));
+
+vi.mock("next/cache", () => ({ revalidatePath: vi.fn() }));
+vi.mock("@/server/auth", () => ({ auth }));
+vi.mock("@/server/db", () => ({ db: undefined }));
+vi.mock("@/server/services/admin-service", () => ({ isAdmin: vi.fn() }));
+vi.mock("@/server/services/rbac", () => ({ rbacService: { hasPermission: vi.fn() } }));
+vi.mock("@/server/services/cache-service", () => ({ cacheService: { delete: vi.fn() } }));
+vi.mock("@/server/services/api-key-service", () => ({
+	API_KEY_SCOPES: ["credits:read", "credits:write"],
+	apiKeyService: { createApiKey: createApiKeyMock },
+	isValidIpAllowListEntry: () => true,
+}));
+
+import { createApiKey, createTestApiKey } from "@/server/actions/api-key-actions";
+
+const userSession = { user: { id: "user-1", email: "ada@example.com" } };
+const impersonatedSession = {
+	...userSession,
+	impersonation: {
+		id: "imp-1",
+		expiresAt: "2099-01-01T00:00:00.000Z",
+		admin: { id: "admin-1", email: "admin@example.com", name: "Admin" },
+	},
+};
+
+const input = { userId: "user-1", name: "CI", scopes: ["credits:read" as const] };
+
+describe("API key actions while impersonating", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		createApiKeyMock.mockResolvedValue({ key: "sk_live_new" });
+	});
+
+	it("creates keys for the user themselves", async () => {
+		auth.mockResolvedValue(userSession);
+
+		await expect(createApiKey(input)).resolves.toEqual({ key: "sk_live_new" });
+		await expect(createTestApiKey()).resolves.toEqual({ key: "sk_live_new" });
+	});
+
+	it("refuses to create keys for the impersonated user", async () => {
+		auth.mockResolvedValue(impersonatedSession);
+
+		await expect(createApiKey(input)).rejects.toMatchObject({ code: "FORBIDDEN" });
+		await expect(createTestApiKey()).rejects.toMatchObject({ code: "FORBIDDEN" });
+		expect(createApiKeyMock).not.toHaveBeenCalled();
+	});
+});
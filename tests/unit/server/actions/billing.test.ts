@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const {
+	auth,
+	assertNotImpersonating,
+	getActiveSubscription,
+	getUserSubscriptions,
+	getRecordedCustomerId,
+	createCustomerPortalUrl,
+} = vi.hoisted(() => ({
+	auth: vi.fn(),
+	assertNotImpersonating: vi.fn(),
+	getActiveSubscription: vi.fn(),
+	getUserSubscriptions: vi.fn(),
+	getRecordedCustomerId: vi.fn(),
+	createCustomerPortalUrl: vi.fn(),
+}));
+
+vi.mock("@/server/auth", () => ({ auth }));
+vi.mock("@/server/lib/auth", () => ({ assertNotImpersonating }));
+vi.mock("@/server/providers", () => ({ initializePaymentProviders: vi.fn() }));
+vi.mock("@/server/services/subscription-service", () => ({
+	SubscriptionService: { getActiveSubscription, getUserSubscriptions },
+}));
+vi.mock("@/server/services/payment-service", () => ({
+	PaymentService: { getRecordedCustomerId, createCustomerPortalUrl },
+}));
+
+import { createBillingPortalUrl } from "@/server/actions/billing";
+import { ErrorService } from "@/server/services/error-service";
+
+describe("createBillingPortalUrl", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		auth.mockResolvedValue({ user: { id: "user-1", email: "user@example.com" } });
+		assertNotImpersonating.mockResolvedValue(undefined);
+		getActiveSubscription.mockResolvedValue(null);
+		getUserSubscriptions.mockResolvedValue([]);
+		getRecordedCustomerId.mockResolvedValue(null);
+		createCustomerPortalUrl.mockResolvedValue("https://billing.example.com/session");
+	});
+
+	it("is not available while impersonating", async () => {
+		assertNotImpersonating.mockRejectedValue(
+			ErrorService.createError("FORBIDDEN", "You cannot manage billing while impersonating a user")
+		);
+
+		await expect(createBillingPortalUrl({ processor: "stripe" })).resolves.toEqual({
+			success: false,
+			error: "You cannot manage billing while impersonating a user",
+		});
+		expect(createCustomerPortalUrl).not.toHaveBeenCalled();
+	});
+
+	it("opens the portal for the customer on the user's own subscription", async () => {
+		getActiveSubscription.mockResolvedValue({
+			processor: "stripe",
+			processorCustomerId: "cus_own",
+			processorSubscriptionId: "sub_own",
+		});
+
+		const result = await createBillingPortalUrl({
+			processor: "stripe",
+			intent: "cancel",
+			customerId: "cus_other",
+		} as never);
+
+		expect(result).toEqual({ success: true, url: "https://billing.example.com/session" });
+		expect(getActiveSubscription).toHaveBeenCalledWith("user-1", { processor: "stripe" });
+		expect(createCustomerPortalUrl).toHaveBeenCalledWith(
+			expect.objectContaining({
+				userId: "user-1",
+				customerId: "cus_own",
+				subscriptionId: "sub_own",
+				intent: "cancel",
+			}),
+			"stripe"
+		);
+	});
+
+	it("falls back to the customer recorded on the user's payments", async () => {
+		getRecordedCustomerId.mockResolvedValue("cus_paid");
+
+		await createBillingPortalUrl({ processor: "polar" });
+
+		expect(getRecordedCustomerId).toHaveBeenCalledWith("user-1", "polar");
+		expect(createCustomerPortalUrl).toHaveBeenCalledWith(
+			expect.objectContaining({ customerId: "cus_paid" }),
+			"polar"
+		);
+	});
+
+	it("never looks the customer up by email", async () => {
+		await expect(createBillingPortalUrl({ processor: "lemonsqueezy" })).resolves.toEqual({
+			success: false,
+			error: "No billing account was found for this provider",
+		});
+		expect(createCustomerPortalUrl).not.toHaveBeenCalled();
+	});
+});
@@ -9,6 +9,11 @@ vi.mock("@/server/auth", () => ({
 	auth: vi.fn(),
 }));
 
+// RBAC imports NextResponse for its route helper
+vi.mock("next/server", () => ({
+	NextResponse: { json: (body: unknown, init?: ResponseInit) => Response.json(body, init) },
+}));
+
 // Mock database
 vi.mock("@/server/db", () => ({
 	db: {
@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { assertNotImpersonating, projectService } = vi.hoisted(() => ({
+	assertNotImpersonating: vi.fn(),
+	projectService: {
+		deleteProject: vi.fn(),
+		removeProjectMember: vi.fn(),
+		updateProjectMemberRole: vi.fn(),
+	},
+}));
+
+vi.mock("next/cache", () => ({ revalidatePath: vi.fn() }));
+// The project permission checks themselves are covered by the RBAC service
+vi.mock("@/server/lib/auth", () => ({
+	assertNotImpersonating,
+	requirePermission: vi.fn(),
+	withPermission: (_permission: unknown, action: unknown) => action,
+}));
+vi.mock("@/server/services/project-service", () => ({ projectService }));
+vi.mock("@/server/services/team-service", () => ({ teamService: {} }));
+
+import {
+	deleteProject,
+	removeProjectMember,
+	updateProjectMemberRole,
+} from "@/server/actions/projects";
+import { ErrorService } from "@/server/services/error-service";
+
+describe("destructive project actions", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it("are blocked while impersonating", async () => {
+		assertNotImpersonating.mockRejectedValue(
+			ErrorService.createError("FORBIDDEN", "You cannot do this while impersonating a user")
+		);
+
+		await expect(deleteProject("p1")).rejects.toMatchObject({ code: "FORBIDDEN" });
+		await expect(removeProjectMember("p1", "user-1")).rejects.toMatchObject({
+			code: "FORBIDDEN",
+		});
+		await expect(updateProjectMemberRole("p1", "user-1", "admin")).rejects.toMatchObject({
+			code: "FORBIDDEN",
+		});
+		expect(projectService.deleteProject).not.toHaveBeenCalled();
+		expect(projectService.removeProjectMember).not.toHaveBeenCalled();
+		expect(projectService.updateProjectMemberRole).not.toHaveBeenCalled();
+	});
+
+	it("run for the user themselves", async () => {
+		assertNotImpersonating.mockResolvedValue(undefined);
+		projectService.deleteProject.mockResolvedValue(true);
+
+		await expect(deleteProject("p1")).resolves.toBe(true);
+		expect(assertNotImpersonating).toHaveBeenCalledWith("delete projects");
+	});
+});
@@ -0,0 +1,155 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { auth, assertNotImpersonating, hasPermission, getUserRoles, teamService } = vi.hoisted(
+	() => ({
+		auth: vi.fn(),
+		assertNotImpersonating: vi.fn(),
+		hasPermission: vi.fn(),
+		getUserRoles: vi.fn(),
+		teamService: {
+			getTeamMembers: vi.fn(),
+			addTeamMember: vi.fn(),
+			removeTeamMember: vi.fn(),
+			updateTeamMemberRole: vi.fn(),
+			deleteTeam: vi.fn(),
+		},
+	})
+);
+
+vi.mock("next/cache", () => ({
+	revalidatePath: vi.fn(),
+	revalidateTag: vi.fn(),
+	unstable_cache: vi.fn(),
+}));
+vi.mock("@/server/auth", () => ({ auth }));
+// The team:update check itself is covered by the RBAC service
+vi.mock("@/server/lib/auth", () => ({
+	assertNotImpersonating,
+	getAuditActor: vi.fn(),
+	requirePermission: vi.fn(),
+	withPermission: (_permission: unknown, action: unknown) => action,
+}));
+vi.mock("@/server/services/rbac", () => ({ rbacService: { hasPermission, getUserRoles } }));
+vi.mock("@/server/services/team-service", () => ({ teamService }));
+vi.mock("@/server/services/cache-service", () => ({
+	cacheConfigs: {},
+	cacheService: { delete: vi.fn() },
+}));
+vi.mock("@/server/services/metrics-service", () => ({
+	metrics: { api: {} },
+	metricsService: { recordTiming: vi.fn(), incrementCounter: vi.fn() },
+}));
+vi.mock("@/server/services/rate-limit-service", () => ({
+	rateLimits: { web: {}, api: {} },
+	rateLimitService: { checkLimit: vi.fn() },
+}));
+
+import {
+	addTeamMember,
+	deleteTeam,
+	removeTeamMember,
+	updateTeamMemberRole,
+} from "@/server/actions/teams";
+import { ErrorService } from "@/server/services/error-service";
+
+/** Signs in as a member of team t1 with the given role */
+const signInAs = (role: string) => {
+	auth.mockResolvedValue({ user: { id: "caller" } });
+	hasPermission.mockResolvedValue(role === "owner");
+	getUserRoles.mockResolvedValue([{ scope: "team", name: role }]);
+};
+
+describe("team member role changes", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		teamService.getTeamMembers.mockResolvedValue([
+			{ userId: "owner-1", role: "owner" },
+			{ userId: "admin-2", role: "admin" },
+			{ userId: "member-1", role: "member" },
+		]);
+	});
+
+	it("rejects roles that do not exist", async () => {
+		signInAs("owner");
+
+		await expect(
+			addTeamMember("t1", "user-9", "superuser" as unknown as "member")
+		).rejects.toThrow();
+		expect(teamService.addTeamMember).not.toHaveBeenCalled();
+	});
+
+	it("lets admins manage roles up to their own", async () => {
+		signInAs("admin");
+
+		await addTeamMember("t1", "user-9", "admin");
+		await updateTeamMemberRole("t1", "member-1", "viewer");
+		await removeTeamMember("t1", "admin-2");
+
+		expect(teamService.addTeamMember).toHaveBeenCalled();
+		expect(teamService.updateTeamMemberRole).toHaveBeenCalled();
+		expect(teamService.removeTeamMember).toHaveBeenCalled();
+	});
+
+	it("stops admins from making, changing or removing owners", async () => {
+		signInAs("admin");
+
+		await expect(addTeamMember("t1", "user-9", "owner")).rejects.toMatchObject({
+			code: "FORBIDDEN",
+		});
+		await expect(updateTeamMemberRole("t1", "admin-2", "owner")).rejects.toMatchObject({
+			code: "FORBIDDEN",
+		});
+		await expect(updateTeamMemberRole("t1", "owner-1", "viewer")).rejects.toMatchObject({
+			code: "FORBIDDEN",
+		});
+		await expect(removeTeamMember("t1", "owner-1")).rejects.toMatchObject({ code: "FORBIDDEN" });
+		expect(teamService.addTeamMember).not.toHaveBeenCalled();
+		expect(teamService.updateTeamMemberRole).not.toHaveBeenCalled();
+		expect(teamService.removeTeamMember).not.toHaveBeenCalled();
+	});
+
+	it("stops members from granting roles above their own", async () => {
+		signInAs("member");
+
+		await expect(updateTeamMemberRole("t1", "member-1", "admin")).rejects.toMatchObject({
+			code: "FORBIDDEN",
+		});
+		await expect(removeTeamMember("t1", "admin-2")).rejects.toMatchObject({ code: "FORBIDDEN" });
+	});
+
+	it("lets owners change owners", async () => {
+		signInAs("owner");
+
+		await updateTeamMemberRole("t1", "owner-1", "admin");
+
+		expect(teamService.updateTeamMemberRole).toHaveBeenCalledWith(
+			"t1",
+			"owner-1",
+			"admin",
+			undefined
+		);
+	});
+});
+
+describe("destructive team actions", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		signInAs("owner");
+		teamService.getTeamMembers.mockResolvedValue([{ userId: "member-1", role: "member" }]);
+	});
+
+	it("are blocked while impersonating", async () => {
+		assertNotImpersonating.mockRejectedValue(
+			ErrorService.createError("FORBIDDEN", "You cannot do this while impersonating a user")
+		);
+
+		await expect(deleteTeam("t1")).rejects.toMatchObject({ code: "FORBIDDEN" });
+		await expect(removeTeamMember("t1", "member-1")).rejects.toMatchObject({ code: "FORBIDDEN" });
+		await expect(updateTeamMemberRole("t1", "member-1", "admin")).rejects.toMatchObject({
+			code: "FORBIDDEN",
+		});
+		expect(teamService.deleteTeam).not.toHaveBeenCalled();
+		expect(teamService.removeTeamMember).not.toHaveBeenCalled();
+		expect(teamService.updateTeamMemberRole).not.toHaveBeenCalled();
+	});
+});
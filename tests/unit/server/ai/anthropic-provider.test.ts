@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AnthropicChatProvider } from "@/server/ai/anthropic-provider";
+import { ChatProviderError, type ChatStreamEvent } from "@/server/ai/types";
+
+function sseResponse(events: unknown[]): Response {
+	const body = events.map((event) => `event: x\ndata: ${JSON.stringify(event)}\n\n`).join("");
+	const bytes = new TextEncoder().encode(body);
+	return new Response(
+		new ReadableStream({
+			start(controller) {
+				// Split mid-event to exercise buffering
+				controller.enqueue(bytes.subarray(0, 40));
+				controller.enqueue(bytes.subarray(40));
+				controller.close();
+			},
+		})
+	);
+}
+
+async function collect(iterable: AsyncIterable<ChatStreamEvent>): Promise<ChatStreamEvent[]> {
+	const events: ChatStreamEvent[] = [];
+	for await (const event of iterable) {
+		events.push(event);
+	}
+	return events;
+}
+
+describe("AnthropicChatProvider", () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("streams text and reports usage, sending system messages separately", async () => {
+		const fetchMock = vi
+			.fn()
+			.mockResolvedValue(
+				sseResponse([
+					{ type: "message_start", message: { usage: { input_tokens: 12, output_tokens: 1 } } },
+					{ type: "content_block_delta", delta: { type: "text_delta", text: "Hello" } },
+					{ type: "content_block_delta", delta: { type: "text_delta", text: " there" } },
+					{ type: "message_delta", usage: { output_tokens: 7 } },
+					{ type: "message_stop" },
+				])
+			);
+		vi.stubGlobal("fetch", fetchMock);
+
+		const events = await collect(
+			new AnthropicChatProvider("key").streamChat({
+				model: "claude-haiku-4-5",
+				maxOutputTokens: 100,
+				messages: [
+					{ role: "system", content: "Be brief." },
+					{ role: "user", content: "Hi" },
+				],
+			})
+		);
+
+		expect(events).toEqual([
+			{ type: "text", text: "Hello" },
+			{ type: "text", text: " there" },
+			{ type: "usage", usage: { inputTokens: 12, outputTokens: 7 } },
+		]);
+		const body = JSON.parse(fetchMock.mock.calls[0]?.[1].body);
+		expect(body.system).toBe("Be brief.");
+		expect(body.messages).toEqual([{ role: "user", content: "Hi" }]);
+	});
+
+	it("throws on API and stream errors", async () => {
+		vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("{}", { status: 401 })));
+		const provider = new AnthropicChatProvider("key");
+		const request = {
+			model: "claude-haiku-4-5",
+			maxOutputTokens: 100,
+			messages: [{ role: "user" as const, content: "Hi" }],
+		};
+
+		await expect(collect(provider.streamChat(request))).rejects.toBeInstanceOf(ChatProviderError);
+
+		vi.stubGlobal(
+			"fetch",
+			vi
+				.fn()
+				.mockResolvedValue(
+					sseResponse([
+						{ type: "error", error: { type: "overloaded_error", message: "Overloaded" } },
+					])
+				)
+		);
+		await expect(collect(provider.streamChat(request))).rejects.toThrow("Overloaded");
+	});
+});
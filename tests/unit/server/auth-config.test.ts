@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { isSignUpAllowed, markWaitlistEntrySignedUp, ensureUserExists } = vi.hoisted(() => ({
+	isSignUpAllowed: vi.fn(),
+	markWaitlistEntrySignedUp: vi.fn(),
+	ensureUserExists: vi.fn(),
+}));
+
+vi.mock("@/server/db", () => ({ db: undefined }));
+vi.mock("@/server/auth-js/auth-providers.config", () => ({ providers: [] }));
+vi.mock("@/server/services/github/github-service", () => ({ grantGitHubAccess: vi.fn() }));
+vi.mock("@/server/services/user-service", () => ({ userService: { ensureUserExists } }));
+vi.mock("@/server/services/waitlist-service", () => ({
+	isSignUpAllowed,
+	markWaitlistEntrySignedUp,
+}));
+
+import { authOptions } from "@/server/auth-js/auth.config";
+
+const signIn = (provider: string, email = "new@example.com") =>
+	authOptions.callbacks?.signIn?.({
+		user: { id: "user-1", email },
+		account: { provider, type: "oauth", providerAccountId: "1" },
+		profile: { name: "New User" },
+	} as never);
+
+describe("authOptions", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it("sends new OAuth users without an invite to the waitlist while sign-up is invite-only", async () => {
+		isSignUpAllowed.mockResolvedValue(false);
+
+		await expect(signIn("google")).resolves.toBe("/waitlist");
+		await expect(signIn("github")).resolves.toBe("/waitlist");
+		expect(isSignUpAllowed).toHaveBeenCalledWith("new@example.com");
+		expect(ensureUserExists).not.toHaveBeenCalled();
+	});
+
+	it("lets OAuth users sign in when sign-up is allowed", async () => {
+		isSignUpAllowed.mockResolvedValue(true);
+
+		await expect(signIn("google")).resolves.toBe(true);
+		expect(ensureUserExists).toHaveBeenCalledWith(
+			expect.objectContaining({ id: "user-1", email: "new@example.com" })
+		);
+	});
+
+	it("leaves credentials sign-ups to the sign-up action", async () => {
+		await expect(signIn("credentials")).resolves.toBe(true);
+		expect(isSignUpAllowed).not.toHaveBeenCalled();
+	});
+
+	it("retires the waitlist invite of a created account", async () => {
+		await authOptions.events?.createUser?.({ user: { id: "user-1", email: "new@example.com" } });
+
+		expect(markWaitlistEntrySignedUp).toHaveBeenCalledWith("new@example.com");
+	});
+});
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import {
+	Bm25Index,
+	chunkPage,
+	type DocChunk,
+	DOCS_INDEX_VERSION,
+	DocsSearchIndex,
+	expandQuery,
+	stem,
+	stripMdx,
+	tokenize,
+} from "@/server/docs-search";
+
+const page = (content: string) => ({
+	source: "docs" as const,
+	title: "Deployment",
+	url: "/docs/deployment",
+	content,
+});
+
+const chunk = (id: string, text: string, section?: string): DocChunk => ({
+	id,
+	source: "docs",
+	title: id,
+	section,
+	url: `/docs/${id}`,
+	text,
+});
+
+describe("stripMdx", () => {
+	it("keeps readable text and drops MDX syntax", () => {
+		const text = stripMdx(
+			'import { Callout } from "@/components/callout";\n\n<Callout type="info">Read the [env guide](/docs/env) first.</Callout>\n\n![Diagram](/diagram.png)\n\nRun `bun dev` with **care**.'
+		);
+		expect(text).toBe("Read the env guide first.\n\nRun bun dev with care.");
+	});
+});
+
+describe("chunkPage", () => {
+	it("splits a page at its headings and links each chunk to its section", () => {
+		const chunks = chunkPage(
+			page(
+				"Intro text.\n\n## Vercel Setup\n\nConnect the repository.\n\n### Environment Variables\n\nSet DATABASE_URL."
+			)
+		);
+
+		expect(chunks.map(({ section, url, text }) => ({ section, url, text }))).toEqual([
+			{ section: undefined, url: "/docs/deployment", text: "Intro text." },
+			{
+				section: "Vercel Setup",
+				url: "/docs/deployment#vercel-setup",
+				text: "Connect the repository.",
+			},
+			{
+				section: "Environment Variables",
+				url: "/docs/deployment#environment-variables",
+				text: "Set DATABASE_URL.",
+			},
+		]);
+	});
+
+	it("ignores headings inside code blocks", () => {
+		const chunks = chunkPage(
+			page("## Install\n\n```bash\n# Install the CLI\nnpm i -g vercel\n```")
+		);
+
+		expect(chunks).toHaveLength(1);
+		expect(chunks[0]?.section).toBe("Install");
+		expect(chunks[0]?.text).toContain("# Install the CLI");
+	});
+
+	it("splits long sections at paragraph breaks", () => {
+		const paragraph = "word ".repeat(50).trim();
+		const chunks = chunkPage(
+			page(`## Long\n\n${[paragraph, paragraph, paragraph].join("\n\n")}`),
+			600
+		);
+
+		expect(chunks).toHaveLength(2);
+		expect(chunks.every((item) => item.text.length <= 600)).toBe(true);
+		expect(new Set(chunks.map((item) => item.id)).size).toBe(2);
+	});
+});
+
+describe("tokenize", () => {
+	it("drops stop words and matches word forms", () => {
+		expect(tokenize("How do I configure the databases?")).toEqual(["configur", "databas"]);
+		expect(["deploying", "deployed", "deploys"].map(stem)).toEqual(["deploy", "deploy", "deploy"]);
+		expect(stem("queries")).toBe("query");
+		expect(stem("class")).toBe("class");
+	});
+
+	it("expands queries with lower-weighted synonyms", () => {
+		const terms = expandQuery("login");
+		expect(terms.get("login")).toBe(1);
+		expect(terms.get("authentication")).toBe(0.5);
+	});
+});
+
+describe("Bm25Index", () => {
+	it("ranks rarer and more frequent terms higher", () => {
+		const index = new Bm25Index([
+			tokenize("stripe webhooks and stripe checkout"),
+			tokenize("stripe setup"),
+			tokenize("email templates"),
+		]);
+
+		const results = index.search("stripe webhooks");
+		expect(results.map(({ index }) => index)).toEqual([0, 1]);
+		expect(results[0]?.score).toBeGreaterThan(results[1]?.score ?? 0);
+	});
+});
+
+describe("DocsSearchIndex", () => {
+	const chunks = [
+		chunk("auth", "Protect pages with the session helper.", "Sessions"),
+		chunk("payments", "Configure Stripe for checkout."),
+		chunk("email", "Send transactional email with Resend."),
+	];
+
+	it("boosts matches in titles and headings", () => {
+		const index = new DocsSearchIndex({
+			version: DOCS_INDEX_VERSION,
+			builtAt: new Date().toISOString(),
+			chunks: [chunk("guide", "A page about sessions and more sessions."), ...chunks],
+			embeddingModel: null,
+			embeddings: null,
+		});
+
+		expect(index.search("sessions", 2)[0]?.chunk.id).toBe("auth");
+	});
+
+	it("fuses keyword and embedding rankings when a query embedding is given", () => {
+		const index = new DocsSearchIndex({
+			version: DOCS_INDEX_VERSION,
+			builtAt: new Date().toISOString(),
+			chunks,
+			embeddingModel: "test-embedding",
+			embeddings: [
+				[1, 0, 0],
+				[0, 1, 0],
+				[0, 0, 1],
+			],
+		});
+
+		// No keyword matches, but the embedding finds the email chunk
+		expect(index.search("newsletter delivery", 1)).toEqual([]);
+		expect(index.search("newsletter delivery", 1, [0, 0, 1])[0]?.chunk.id).toBe("email");
+		expect(index.embeddingModel).toBe("test-embedding");
+	});
+});
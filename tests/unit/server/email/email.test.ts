@@ -0,0 +1,122 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/server/db", () => ({ db: undefined }));
+
+import {
+	EMAIL_TEMPLATES,
+	type EmailTemplateName,
+	type EmailTransport,
+	OutboxTransport,
+	renderEmail,
+} from "@/server/email";
+import { EmailService } from "@/server/services/email-service";
+
+describe("Email", () => {
+	describe("renderEmail", () => {
+		it.each(Object.keys(EMAIL_TEMPLATES) as EmailTemplateName[])("renders %s", async (name) => {
+			const email = await renderEmail(name, EMAIL_TEMPLATES[name].previewProps);
+
+			expect(email.subject).not.toBe("");
+			expect(email.html).toContain("<html");
+			expect(email.html).toMatch(/<head>.*<meta name="viewport"/);
+			expect(email.text).not.toContain("<");
+		});
+
+		it("includes links and formats amounts", async () => {
+			const email = await renderEmail("receipt", {
+				...EMAIL_TEMPLATES.receipt.previewProps,
+				amount: 12345,
+				billingUrl: "https://example.com/settings",
+			});
+
+			expect(email.subject).toContain("$123.45");
+			expect(email.html).toContain('href="https://example.com/settings"');
+			expect(email.text).toContain("https://example.com/settings");
+		});
+	});
+
+	describe("OutboxTransport", () => {
+		let root: string;
+
+		beforeEach(async () => {
+			root = await mkdtemp(path.join(tmpdir(), "outbox-"));
+		});
+
+		afterEach(async () => {
+			await rm(root, { recursive: true, force: true });
+		});
+
+		it("writes messages to disk and lists them newest first", async () => {
+			const outbox = new OutboxTransport(root);
+			const message = {
+				from: "App <noreply@example.com>",
+				subject: "Hello",
+				html: "<p>Hello</p>",
+				text: "Hello",
+				template: "welcome",
+			};
+
+			const first = await outbox.send({ ...message, to: "first@example.com" });
+			await new Promise((resolve) => setTimeout(resolve, 5));
+			const second = await outbox.send({ ...message, to: "second@example.com" });
+
+			expect(await readFile(path.join(root, `${first.messageId}.html`), "utf8")).toBe(
+				"<p>Hello</p>"
+			);
+			const messages = await outbox.list();
+			expect(messages.map((stored) => stored.id)).toEqual([second.messageId, first.messageId]);
+			expect(messages[0]).toMatchObject({ to: "second@example.com", text: "Hello" });
+		});
+
+		it("only reads messages inside the outbox", async () => {
+			const outbox = new OutboxTransport(root);
+			expect(await outbox.readHtml("../secret")).toBeNull();
+		});
+	});
+
+	describe("EmailService", () => {
+		it("reports failed deliveries instead of throwing", async () => {
+			const transport: EmailTransport = {
+				id: "resend",
+				send: vi.fn().mockRejectedValue(new Error("Domain not verified")),
+			};
+			const service = new EmailService(() => transport);
+
+			const result = await service.send(
+				"reset-password",
+				{ resetUrl: "https://example.com/reset", expiresInMinutes: 60 },
+				{ to: "user@example.com" }
+			);
+
+			expect(result).toEqual({
+				status: "failed",
+				messageId: null,
+				error: "Domain not verified",
+				logId: null,
+			});
+		});
+
+		it("sends the rendered template to the recipient", async () => {
+			const send = vi.fn().mockResolvedValue({ messageId: "email-1" });
+			const service = new EmailService(() => ({ id: "resend", send }));
+
+			const result = await service.send(
+				"waitlist-launch",
+				{ name: "Ada", signUpUrl: "https://example.com/sign-up" },
+				{ to: "ada@example.com" }
+			);
+
+			expect(result.status).toBe("sent");
+			expect(send).toHaveBeenCalledWith(
+				expect.objectContaining({
+					to: "ada@example.com",
+					template: "waitlist-launch",
+					html: expect.stringContaining("https://example.com/sign-up"),
+				})
+			);
+		});
+	});
+});
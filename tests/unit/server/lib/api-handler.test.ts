@@ -0,0 +1,188 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { validateApiKey, checkLimit, hasPermission, auth } = vi.hoisted(() => ({
+	validateApiKey: vi.fn(),
+	checkLimit: vi.fn(),
+	hasPermission: vi.fn(),
+	auth: vi.fn(),
+}));
+
+vi.mock("next/server", () => ({
+	NextResponse: { json: (body: unknown, init?: ResponseInit) => Response.json(body, init) },
+}));
+vi.mock("@/server/services/api-key-service", () => ({ apiKeyService: { validateApiKey } }));
+vi.mock("@/server/services/rate-limit-service", async (importOriginal) => ({
+	...(await importOriginal<typeof import("@/server/services/rate-limit-service")>()),
+	rateLimitService: { checkLimit },
+}));
+vi.mock("@/server/services/rbac", () => ({ rbacService: { hasPermission } }));
+vi.mock("@/lib/request-logger", () => ({ logRequest: vi.fn().mockResolvedValue(undefined) }));
+vi.mock("@/server/auth", () => ({ auth }));
+
+import { getClientIp, withApiKey, withSession } from "@/server/lib/api-handler";
+import { ErrorService } from "@/server/services/error-service";
+
+const apiKey = { id: "key-1", keyPrefix: "sk_abc", keyHash: "hash" };
+const user = { id: "user-1", email: "user@example.com" };
+const segment = { params: Promise.resolve({}) };
+
+describe("withApiKey", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it("rejects requests without a Bearer key", async () => {
+		const handler = vi.fn();
+		const response = await withApiKey(handler)(
+			new Request("https://example.com/api/v1/me"),
+			segment
+		);
+
+		expect(response.status).toBe(401);
+		expect(handler).not.toHaveBeenCalled();
+	});
+
+	it("passes the scope and client IP to validation and hides the key hash", async () => {
+		validateApiKey.mockResolvedValueOnce({ apiKey, user });
+		checkLimit.mockResolvedValueOnce({ limit: 100, remaining: 99, reset: Date.now() + 60_000 });
+		const handler = vi.fn().mockResolvedValue(Response.json({ ok: true }));
+
+		const response = await withApiKey(handler, { scope: "projects:read" })(
+			new Request("https://example.com/api/v1/projects", {
+				headers: {
+					authorization: "Bearer sk_abc.secret",
+					"x-forwarded-for": "10.0.0.1, 203.0.113.7",
+				},
+			}),
+			segment
+		);
+
+		expect(response.status).toBe(200);
+		expect(validateApiKey).toHaveBeenCalledWith("sk_abc.secret", {
+			ip: "203.0.113.7",
+			scope: "projects:read",
+		});
+		expect(checkLimit).toHaveBeenCalledWith("key-1", "api:v1", expect.any(Object));
+		expect(response.headers.get("RateLimit-Limit")).toBe("100");
+		expect(response.headers.get("RateLimit-Remaining")).toBe("99");
+		expect(response.headers.get("RateLimit-Reset")).toBe("60");
+		expect(handler.mock.calls[0]?.[0].apiKey).not.toHaveProperty("keyHash");
+	});
+
+	it("maps AppErrors to JSON error responses", async () => {
+		validateApiKey.mockRejectedValueOnce(
+			ErrorService.createError("FORBIDDEN", "API key is missing the credits:write scope")
+		);
+
+		const response = await withApiKey(vi.fn())(
+			new Request("https://example.com/api/v1/credits/spend", {
+				headers: { authorization: "Bearer sk_abc.secret" },
+			}),
+			segment
+		);
+
+		expect(response.status).toBe(403);
+		await expect(response.json()).resolves.toEqual({
+			error: { code: "FORBIDDEN", message: "API key is missing the credits:write scope" },
+		});
+	});
+
+	it("returns 429 when the key is rate limited", async () => {
+		validateApiKey.mockResolvedValueOnce({ apiKey, user });
+		checkLimit.mockRejectedValueOnce(
+			ErrorService.createError("RATE_LIMITED", "Too many requests", undefined, {
+				reset: Date.now() + 30_000,
+			})
+		);
+
+		const response = await withApiKey(vi.fn())(
+			new Request("https://example.com/api/v1/me", {
+				headers: { authorization: "Bearer sk_abc.x" },
+			}),
+			segment
+		);
+
+		expect(response.status).toBe(429);
+		expect(response.headers.get("Retry-After")).toBe("30");
+		expect(response.headers.get("RateLimit-Remaining")).toBe("0");
+	});
+
+	it("returns 403 when the user lacks the RBAC permission", async () => {
+		validateApiKey.mockResolvedValueOnce({ apiKey, user });
+		hasPermission.mockResolvedValueOnce(false);
+		const handler = vi.fn();
+
+		const response = await withApiKey(handler, {
+			permission: { resource: "deployment", action: "read" },
+		})(
+			new Request("https://example.com/api/v1/deployments", {
+				headers: { authorization: "Bearer sk_abc.x" },
+			}),
+			segment
+		);
+
+		expect(response.status).toBe(403);
+		expect(hasPermission).toHaveBeenCalledWith("user-1", "deployment", "read");
+		expect(handler).not.toHaveBeenCalled();
+	});
+});
+
+describe("withSession", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it("returns 401 without a session", async () => {
+		auth.mockResolvedValueOnce(null);
+		const handler = vi.fn();
+
+		const response = await withSession(handler)(
+			new Request("https://example.com/api/uploads"),
+			segment
+		);
+
+		expect(response.status).toBe(401);
+		expect(handler).not.toHaveBeenCalled();
+	});
+
+	it("passes the user ID and params, and maps AppErrors to JSON errors", async () => {
+		auth.mockResolvedValueOnce({ user: { id: "user-1" } });
+		const handler = vi.fn().mockImplementation(async ({ userId, params }) => {
+			expect(userId).toBe("user-1");
+			expect(params).toEqual({ uploadId: "upload-1" });
+			ErrorService.throwNotFound("Upload not found");
+		});
+
+		const response = await withSession<{ uploadId: string }>(handler)(
+			new Request("https://example.com/api/uploads/upload-1"),
+			{ params: Promise.resolve({ uploadId: "upload-1" }) }
+		);
+
+		expect(response.status).toBe(404);
+		await expect(response.json()).resolves.toEqual({
+			error: { code: "NOT_FOUND", message: "Upload not found" },
+		});
+	});
+});
+
+describe("getClientIp", () => {
+	const request = (headers: Record<string, string>) =>
+		new Request("https://example.com", { headers });
+
+	it("uses the address the proxy appended, not the ones the client sent", () => {
+		expect(getClientIp(request({ "x-forwarded-for": "1.2.3.4, 203.0.113.7" }))).toBe("203.0.113.7");
+	});
+
+	it("skips trusted proxies from the right", () => {
+		expect(
+			getClientIp(request({ "x-forwarded-for": "1.2.3.4, 203.0.113.7, 10.0.0.1" }), ["10.0.0.1"])
+		).toBe("203.0.113.7");
+	});
+
+	it("ignores headers clients can set on their own", () => {
+		expect(
+			getClientIp(request({ "x-real-ip": "198.51.100.2", "cf-connecting-ip": "198.51.100.3" }))
+		).toBeNull();
+		expect(getClientIp(request({ "x-forwarded-for": "10.0.0.1" }), ["10.0.0.1"])).toBeNull();
+	});
+});
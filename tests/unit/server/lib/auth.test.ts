@@ -0,0 +1,44 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { auth, warn } = vi.hoisted(() => ({ auth: vi.fn(), warn: vi.fn() }));
+
+vi.mock("@/server/auth", () => ({ auth }));
+vi.mock("@/server/db", () => ({ db: undefined }));
+vi.mock("@/server/services/admin-service", () => ({ isAdmin: vi.fn() }));
+vi.mock("@/server/services/rbac", () => ({ rbacService: {} }));
+vi.mock("@/lib/logger", () => ({ logger: { warn, error: vi.fn(), debug: vi.fn() } }));
+
+import { assertNotImpersonating } from "@/server/lib/auth";
+
+describe("assertNotImpersonating", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it("lets users act for themselves", async () => {
+		auth.mockResolvedValue({ user: { id: "user-1" } });
+
+		await expect(assertNotImpersonating("delete this account")).resolves.toBeUndefined();
+		expect(warn).not.toHaveBeenCalled();
+	});
+
+	it("rejects and logs the admin while impersonating", async () => {
+		auth.mockResolvedValue({
+			user: { id: "user-1" },
+			impersonation: { admin: { id: "admin-1", email: "admin@example.com" } },
+		});
+
+		await expect(assertNotImpersonating("delete this account")).rejects.toMatchObject({
+			code: "FORBIDDEN",
+			message: "You cannot delete this account while impersonating a user",
+		});
+		expect(warn).toHaveBeenCalledWith(
+			"Blocked action while impersonating a user",
+			expect.objectContaining({
+				action: "delete this account",
+				adminId: "admin-1",
+				userId: "user-1",
+			})
+		);
+	});
+});
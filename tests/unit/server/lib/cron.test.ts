@@ -0,0 +1,24 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("next/server", () => ({
+	NextResponse: class extends Response {},
+}));
+vi.mock("@/env", () => ({ env: { CRON_SECRET: "cron-secret" } }));
+
+import { verifyCronRequest } from "@/server/lib/cron";
+
+const request = (authorization?: string) =>
+	new Request("https://example.com/api/cron/webhooks", {
+		headers: authorization ? { authorization } : {},
+	});
+
+describe("verifyCronRequest", () => {
+	it("accepts the CRON_SECRET bearer token", () => {
+		expect(verifyCronRequest(request("Bearer cron-secret"))).toBeNull();
+	});
+
+	it("rejects a missing or wrong token", () => {
+		expect(verifyCronRequest(request())?.status).toBe(401);
+		expect(verifyCronRequest(request("Bearer wrong"))?.status).toBe(401);
+	});
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { apiProjectSchema, apiV1Operations, generateOpenApiDocument } from "@/server/lib/openapi";
+
+describe("OpenAPI document", () => {
+	const document = generateOpenApiDocument("https://example.com/");
+
+	it("documents every operation under the v1 server", () => {
+		expect(document.servers).toEqual([{ url: "https://example.com/api/v1" }]);
+		for (const operation of apiV1Operations) {
+			expect(document.paths[operation.path]?.[operation.method]).toBeDefined();
+		}
+	});
+
+	it("references shared schemas from components", () => {
+		expect(document.components.schemas).toHaveProperty("Project");
+		expect(JSON.stringify(document.paths)).not.toContain("$defs");
+		expect(JSON.stringify(document.paths["/projects"])).toContain("#/components/schemas/Project");
+	});
+
+	it("lists the required scope for each operation", () => {
+		const createProject = document.paths["/projects"]?.post as { security: unknown };
+		expect(createProject.security).toEqual([{ apiKey: ["projects:write"] }]);
+	});
+});
+
+describe("API response schemas", () => {
+	it("serializes dates and strips unknown fields", () => {
+		const createdAt = new Date("2026-01-01T00:00:00.000Z");
+		expect(
+			apiProjectSchema.parse({
+				id: "p1",
+				name: "Project",
+				teamId: "t1",
+				createdAt,
+				updatedAt: null,
+				expiresAt: null,
+			})
+		).toEqual({
+			id: "p1",
+			name: "Project",
+			teamId: "t1",
+			createdAt: "2026-01-01T00:00:00.000Z",
+			updatedAt: null,
+		});
+	});
+});
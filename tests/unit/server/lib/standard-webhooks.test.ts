@@ -0,0 +1,57 @@
+import crypto from "crypto";
+import { describe, expect, it } from "vitest";
+import { verifyStandardWebhook } from "@/server/lib/standard-webhooks";
+
+const key = Buffer.from("polar_whs_secret", "utf8");
+const body = JSON.stringify({ type: "order.paid", data: { id: "order-1" } });
+const now = new Date("2025-01-15T00:00:00Z");
+const timestamp = String(now.getTime() / 1000);
+
+const sign = (signingKey: Buffer, id = "msg_1", sentAt = timestamp) =>
+	`v1,${crypto.createHmac("sha256", signingKey).update(`${id}.${sentAt}.${body}`).digest("base64")}`;
+
+const headersFor = (signature: string, sentAt = timestamp) =>
+	new Headers({
+		"webhook-id": "msg_1",
+		"webhook-timestamp": sentAt,
+		"webhook-signature": signature,
+	});
+
+describe("verifyStandardWebhook", () => {
+	it("accepts a delivery signed with the key", () => {
+		expect(verifyStandardWebhook({ body, headers: headersFor(sign(key)), key, now })).toEqual({
+			valid: true,
+			id: "msg_1",
+		});
+	});
+
+	it("accepts any of several signatures, as sent during key rotation", () => {
+		const headers = headersFor(`${sign(Buffer.from("old"))} ${sign(key)}`);
+
+		expect(verifyStandardWebhook({ body, headers, key, now }).valid).toBe(true);
+	});
+
+	it("rejects a forged or tampered delivery", () => {
+		expect(
+			verifyStandardWebhook({ body, headers: headersFor(sign(Buffer.from("forged"))), key, now })
+				.valid
+		).toBe(false);
+		expect(
+			verifyStandardWebhook({ body: `${body} `, headers: headersFor(sign(key)), key, now }).valid
+		).toBe(false);
+	});
+
+	it("rejects deliveries without headers or outside the timestamp tolerance", () => {
+		expect(verifyStandardWebhook({ body, headers: new Headers(), key, now }).valid).toBe(false);
+
+		const staleAt = String(now.getTime() / 1000 - 10 * 60);
+		expect(
+			verifyStandardWebhook({
+				body,
+				headers: headersFor(sign(key, "msg_1", staleAt), staleAt),
+				key,
+				now,
+			}).valid
+		).toBe(false);
+	});
+});
@@ -0,0 +1,192 @@
+import { getCustomer } from "@lemonsqueezy/lemonsqueezy.js";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { LemonSqueezyProvider } from "@/server/providers/lemonsqueezy-provider";
+import { PaymentService } from "@/server/services/payment-service";
+import { RefundService } from "@/server/services/refund-service";
+import { SubscriptionService } from "@/server/services/subscription-service";
+import { userService } from "@/server/services/user-service";
+
+vi.mock("@lemonsqueezy/lemonsqueezy.js", async (importOriginal) => ({
+	...(await importOriginal<typeof import("@lemonsqueezy/lemonsqueezy.js")>()),
+	getCustomer: vi.fn(),
+}));
+
+vi.mock("@/server/services/payment-service", () => ({
+	PaymentService: {
+		createPayment: vi.fn(),
+		getPaymentByOrderId: vi.fn(),
+		updatePaymentStatus: vi.fn(),
+	},
+}));
+
+vi.mock("@/server/services/refund-service", () => ({
+	RefundService: {
+		recordRefund: vi.fn(),
+	},
+}));
+
+vi.mock("@/server/services/subscription-service", async (importOriginal) => ({
+	...(await importOriginal<typeof import("@/server/services/subscription-service")>()),
+	SubscriptionService: {
+		upsertSubscription: vi.fn(),
+	},
+}));
+
+vi.mock("@/server/services/user-service", () => ({
+	userService: {
+		findOrCreateUserByEmail: vi.fn(),
+	},
+}));
+
+const meta = { event_name: "", test_mode: true };
+
+describe("LemonSqueezyProvider webhooks", () => {
+	const provider = new LemonSqueezyProvider();
+
+	beforeEach(() => {
+		vi.resetAllMocks();
+		vi.mocked(userService.findOrCreateUserByEmail).mockResolvedValue({
+			user: { id: "user-1" },
+			created: false,
+		} as any);
+	});
+
+	it("records a paid order as a payment", async () => {
+		await provider.handleWebhookEvent({
+			meta: { ...meta, event_name: "order_created" },
+			data: {
+				type: "orders",
+				id: "1001",
+				attributes: {
+					status: "paid",
+					user_email: "buyer@example.com",
+					user_name: "Buyer",
+					total: 4900,
+					total_usd: 4900,
+					created_at: "2025-01-15T00:00:00Z",
+					first_order_item: { product_name: "Shipkit", variant_name: "Default", variant_id: 7 },
+				},
+			},
+		});
+
+		expect(PaymentService.createPayment).toHaveBeenCalledWith(
+			expect.objectContaining({
+				userId: "user-1",
+				orderId: "1001",
+				amount: 4900,
+				status: "completed",
+				processor: "lemonsqueezy",
+				productName: "Shipkit",
+			})
+		);
+	});
+
+	it("skips orders that are not paid", async () => {
+		await provider.handleWebhookEvent({
+			meta: { ...meta, event_name: "order_created" },
+			data: { type: "orders", id: "1002", attributes: { status: "pending" } },
+		});
+
+		expect(PaymentService.createPayment).not.toHaveBeenCalled();
+	});
+
+	it("records fully refunded orders", async () => {
+		await provider.handleWebhookEvent({
+			meta: { ...meta, event_name: "order_refunded" },
+			data: { type: "orders", id: "1001", attributes: { status: "refunded", refunded: true } },
+		});
+
+		expect(RefundService.recordRefund).toHaveBeenCalledWith({
+			processor: "lemonsqueezy",
+			orderId: "1001",
+			refundedAmount: undefined,
+		});
+	});
+
+	it("records the total refunded for partially refunded orders", async () => {
+		await provider.handleWebhookEvent({
+			meta: { ...meta, event_name: "order_refunded" },
+			data: {
+				type: "orders",
+				id: "1001",
+				attributes: {
+					status: "partial_refund",
+					refunded: false,
+					refunded_amount: 1000,
+					refunded_amount_usd: 1000,
+				},
+			},
+		});
+
+		expect(RefundService.recordRefund).toHaveBeenCalledWith(
+			expect.objectContaining({ orderId: "1001", refundedAmount: 1000 })
+		);
+	});
+
+	it("records subscription cancellation on the subscription and its payment", async () => {
+		vi.mocked(PaymentService.getPaymentByOrderId).mockResolvedValue({
+			id: 1,
+			status: "completed",
+		} as any);
+
+		await provider.handleWebhookEvent({
+			meta: { ...meta, event_name: "subscription_cancelled" },
+			data: {
+				type: "subscriptions",
+				id: "sub_1",
+				attributes: {
+					status: "cancelled",
+					cancelled: true,
+					user_email: "buyer@example.com",
+					customer_id: 5,
+					product_id: 3,
+					variant_id: 7,
+					ends_at: "2025-02-15T00:00:00Z",
+					renews_at: "2025-02-15T00:00:00Z",
+				},
+			},
+		});
+
+		expect(SubscriptionService.upsertSubscription).toHaveBeenCalledWith(
+			expect.objectContaining({
+				userId: "user-1",
+				processor: "lemonsqueezy",
+				processorSubscriptionId: "sub_1",
+				status: "cancelled",
+				cancelAtPeriodEnd: true,
+			})
+		);
+		expect(PaymentService.updatePaymentStatus).toHaveBeenCalledWith("sub_1", "cancelled");
+	});
+});
+
+describe("LemonSqueezyProvider customer portal", () => {
+	const provider = Object.assign(new LemonSqueezyProvider(), {
+		_isConfigured: true,
+		_isEnabled: true,
+	});
+
+	beforeEach(() => {
+		vi.resetAllMocks();
+		vi.mocked(getCustomer).mockResolvedValue({
+			data: {
+				data: {
+					attributes: { urls: { customer_portal: "https://store.lemonsqueezy.com/billing" } },
+				},
+			},
+			error: null,
+		} as any);
+	});
+
+	it("opens the portal of the recorded customer", async () => {
+		await expect(
+			provider.createCustomerPortalUrl({ userId: "user-1", customerId: "42" })
+		).resolves.toBe("https://store.lemonsqueezy.com/billing");
+		expect(getCustomer).toHaveBeenCalledWith("42");
+	});
+
+	it("has no portal without a recorded customer", async () => {
+		await expect(provider.createCustomerPortalUrl({ userId: "user-1" })).resolves.toBeNull();
+		expect(getCustomer).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createCustomerPortalUrl } from "@/lib/polar";
+import { PolarProvider, polarWebhookEventSchema } from "@/server/providers/polar-provider";
+import { PaymentService } from "@/server/services/payment-service";
+import { RefundService } from "@/server/services/refund-service";
+import { SubscriptionService } from "@/server/services/subscription-service";
+import { userService } from "@/server/services/user-service";
+
+vi.mock("@/lib/polar", async (importOriginal) => ({
+	...(await importOriginal<typeof import("@/lib/polar")>()),
+	createCustomerPortalUrl: vi.fn(),
+}));
+
+vi.mock("@/server/services/payment-service", () => ({
+	PaymentService: {
+		createPayment: vi.fn(),
+		getPaymentByOrderId: vi.fn(),
+		updatePaymentStatus: vi.fn(),
+	},
+}));
+
+vi.mock("@/server/services/refund-service", () => ({
+	RefundService: {
+		recordRefund: vi.fn(),
+	},
+}));
+
+vi.mock("@/server/services/subscription-service", async (importOriginal) => ({
+	...(await importOriginal<typeof import("@/server/services/subscription-service")>()),
+	SubscriptionService: {
+		upsertSubscription: vi.fn(),
+	},
+}));
+
+vi.mock("@/server/services/user-service", () => ({
+	userService: {
+		findOrCreateUserByEmail: vi.fn(),
+	},
+}));
+
+const order = {
+	id: "order-1",
+	status: "paid",
+	paid: true,
+	customer: { id: "cus-1", email: "buyer@example.com", name: "Buyer", external_id: null },
+	metadata: {},
+	product: { id: "prod-1", name: "Shipkit" },
+	total_amount: 4900,
+	refunded_amount: 0,
+	created_at: "2025-01-15T00:00:00Z",
+	currency: "usd",
+};
+
+describe("PolarProvider webhooks", () => {
+	const provider = new PolarProvider();
+
+	beforeEach(() => {
+		vi.resetAllMocks();
+		vi.mocked(userService.findOrCreateUserByEmail).mockResolvedValue({
+			user: { id: "user-1" },
+			created: false,
+		} as any);
+	});
+
+	it("records a paid order as a payment", async () => {
+		await provider.handleWebhookEvent(
+			polarWebhookEventSchema.parse({ type: "order.paid", data: order })
+		);
+
+		expect(PaymentService.createPayment).toHaveBeenCalledWith(
+			expect.objectContaining({
+				userId: "user-1",
+				orderId: "order-1",
+				amount: 4900,
+				status: "completed",
+				productName: "Shipkit",
+			})
+		);
+	});
+
+	it("names orders without a product after their first item", async () => {
+		await provider.handleWebhookEvent(
+			polarWebhookEventSchema.parse({
+				type: "order.paid",
+				data: { ...order, product: null, items: [{ label: "Shipkit Bundle" }] },
+			})
+		);
+
+		expect(PaymentService.createPayment).toHaveBeenCalledWith(
+			expect.objectContaining({ productName: "Shipkit Bundle" })
+		);
+	});
+
+	it("records a partial refund with the total refunded so far", async () => {
+		await provider.handleWebhookEvent(
+			polarWebhookEventSchema.parse({
+				type: "order.refunded",
+				data: { ...order, status: "partially_refunded", refunded_amount: 1000 },
+			})
+		);
+
+		expect(RefundService.recordRefund).toHaveBeenCalledWith({
+			processor: "polar",
+			orderId: "order-1",
+			refundedAmount: 1000,
+		});
+	});
+
+	it("ends a revoked subscription immediately", async () => {
+		await provider.handleWebhookEvent(
+			polarWebhookEventSchema.parse({
+				type: "subscription.revoked",
+				data: { id: "sub-1", status: "active", customer: order.customer, product: order.product },
+			})
+		);
+
+		expect(SubscriptionService.upsertSubscription).toHaveBeenCalledWith(
+			expect.objectContaining({ status: "canceled", endedAt: expect.any(Date) })
+		);
+	});
+
+	it("rejects payloads that do not match the event type", () => {
+		expect(
+			polarWebhookEventSchema.safeParse({ type: "order.paid", data: { status: "paid" } }).success
+		).toBe(false);
+		expect(polarWebhookEventSchema.safeParse({ type: "checkout.created", data: {} }).success).toBe(
+			false
+		);
+	});
+});
+
+describe("PolarProvider customer portal", () => {
+	const provider = Object.assign(new PolarProvider(), { _isConfigured: true, _isEnabled: true });
+
+	beforeEach(() => {
+		vi.resetAllMocks();
+		vi.mocked(createCustomerPortalUrl).mockResolvedValue("https://polar.sh/portal/session");
+	});
+
+	it("opens the portal for the recorded customer", async () => {
+		await expect(
+			provider.createCustomerPortalUrl({
+				userId: "user-1",
+				customerId: "cus-1",
+				returnUrl: "https://app.example.com/settings/billing",
+			})
+		).resolves.toBe("https://polar.sh/portal/session");
+		expect(createCustomerPortalUrl).toHaveBeenCalledWith({
+			customerId: "cus-1",
+			returnUrl: "https://app.example.com/settings/billing",
+		});
+	});
+
+	it("has no portal without a recorded customer", async () => {
+		await expect(provider.createCustomerPortalUrl({ userId: "user-1" })).resolves.toBeNull();
+		expect(createCustomerPortalUrl).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { createPortalSession } = vi.hoisted(() => ({ createPortalSession: vi.fn() }));
+
+vi.mock("@/lib/stripe", async (importOriginal) => ({
+	...(await importOriginal<typeof import("@/lib/stripe")>()),
+	getStripeClient: () => ({ billingPortal: { sessions: { create: createPortalSession } } }),
+}));
+
+vi.mock("@/server/services/payment-service", () => ({ PaymentService: {} }));
+vi.mock("@/server/services/refund-service", () => ({ RefundService: {} }));
+vi.mock("@/server/services/user-service", () => ({ userService: {} }));
+
+import { StripeProvider } from "@/server/providers/stripe-provider";
+
+describe("StripeProvider customer portal", () => {
+	const provider = Object.assign(new StripeProvider(), { _isConfigured: true, _isEnabled: true });
+
+	beforeEach(() => {
+		vi.resetAllMocks();
+		createPortalSession.mockResolvedValue({ url: "https://billing.stripe.com/session" });
+	});
+
+	it("opens the portal for the recorded customer", async () => {
+		await expect(
+			provider.createCustomerPortalUrl({
+				userId: "user-1",
+				customerId: "cus_1",
+				returnUrl: "https://app.example.com/settings/billing",
+			})
+		).resolves.toBe("https://billing.stripe.com/session");
+		expect(createPortalSession).toHaveBeenCalledWith(
+			expect.objectContaining({
+				customer: "cus_1",
+				return_url: "https://app.example.com/settings/billing",
+			})
+		);
+	});
+
+	it("opens the cancellation flow for the user's subscription", async () => {
+		await provider.createCustomerPortalUrl({
+			userId: "user-1",
+			customerId: "cus_1",
+			subscriptionId: "sub_1",
+			intent: "cancel",
+		});
+
+		expect(createPortalSession).toHaveBeenCalledWith(
+			expect.objectContaining({
+				flow_data: expect.objectContaining({
+					type: "subscription_cancel",
+					subscription_cancel: { subscription: "sub_1" },
+				}),
+			})
+		);
+	});
+
+	it("has no portal without a recorded customer", async () => {
+		await expect(provider.createCustomerPortalUrl({ userId: "user-1" })).resolves.toBeNull();
+		expect(createPortalSession).not.toHaveBeenCalled();
+	});
+});
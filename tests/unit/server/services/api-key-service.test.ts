@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+	apiKeyService,
+	getApiKeyScopes,
+	hashApiKey,
+	isIpAllowed,
+	isValidIpAllowListEntry,
+	parseApiKey,
+} from "@/server/services/api-key-service";
+
+describe("API Key Service", () => {
+	describe("parseApiKey", () => {
+		it("splits keys into prefix, public ID and secret", () => {
+			expect(parseApiKey("sk_AbC123.s3cr3t")).toEqual({
+				prefix: "sk",
+				publicId: "AbC123",
+				secret: "s3cr3t",
+			});
+		});
+
+		it("returns null for legacy and malformed keys", () => {
+			expect(parseApiKey("sk_7FzR9W3kM8vNpL2xJqY4")).toBeNull();
+			expect(parseApiKey("not a key")).toBeNull();
+		});
+	});
+
+	describe("hashApiKey", () => {
+		it("produces a stable SHA-256 hex digest", () => {
+			expect(hashApiKey("sk_a.b")).toMatch(/^[0-9a-f]{64}$/);
+			expect(hashApiKey("sk_a.b")).toBe(hashApiKey("sk_a.b"));
+			expect(hashApiKey("sk_a.b")).not.toBe(hashApiKey("sk_a.c"));
+		});
+	});
+
+	describe("getApiKeyScopes", () => {
+		it("ignores unknown scopes and malformed values", () => {
+			expect(getApiKeyScopes({ scopes: '["projects:read","admin:all"]' })).toEqual([
+				"projects:read",
+			]);
+			expect(getApiKeyScopes({ scopes: "not json" })).toEqual([]);
+		});
+	});
+
+	describe("isIpAllowed", () => {
+		it("allows every IP when the allow-list is empty", () => {
+			expect(isIpAllowed("198.51.100.1", [])).toBe(true);
+			expect(isIpAllowed(null, [])).toBe(true);
+		});
+
+		it("matches exact IPs and IPv4 CIDR ranges", () => {
+			const allowList = ["203.0.113.7", "10.0.0.0/24"];
+			expect(isIpAllowed("203.0.113.7", allowList)).toBe(true);
+			expect(isIpAllowed("10.0.0.42", allowList)).toBe(true);
+			expect(isIpAllowed("::ffff:10.0.0.42", allowList)).toBe(true);
+			expect(isIpAllowed("10.0.1.1", allowList)).toBe(false);
+			expect(isIpAllowed(null, allowList)).toBe(false);
+		});
+	});
+
+	describe("isValidIpAllowListEntry", () => {
+		it("accepts IPs and CIDR ranges", () => {
+			expect(isValidIpAllowListEntry("203.0.113.7")).toBe(true);
+			expect(isValidIpAllowListEntry("10.0.0.0/8")).toBe(true);
+			expect(isValidIpAllowListEntry("2001:db8::1")).toBe(true);
+		});
+
+		it("rejects invalid entries", () => {
+			expect(isValidIpAllowListEntry("300.0.0.1")).toBe(false);
+			expect(isValidIpAllowListEntry("10.0.0.0/33")).toBe(false);
+			expect(isValidIpAllowListEntry("example.com")).toBe(false);
+		});
+	});
+
+	describe("createApiKey", () => {
+		it("returns the full key in the prefix_publicId.secret format", async () => {
+			const { key } = await apiKeyService.createApiKey({ userId: "user-1", name: "Test" });
+			expect(parseApiKey(key)).not.toBeNull();
+		});
+
+		it("rejects invalid allow-list entries", async () => {
+			await expect(
+				apiKeyService.createApiKey({ userId: "user-1", allowedIps: ["nope"] })
+			).rejects.toThrow("Invalid IP allow-list entry");
+		});
+	});
+});
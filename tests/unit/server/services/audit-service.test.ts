@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/server/db", () => ({ db: undefined }));
+
+import { auditService, diffAuditChanges } from "@/server/services/audit-service";
+
+describe("diffAuditChanges", () => {
+	it("includes only the fields that changed", () => {
+		expect(
+			diffAuditChanges({ role: "member", name: "Ada" }, { role: "admin", name: "Ada" })
+		).toEqual({ role: { before: "member", after: "admin" } });
+	});
+
+	it("treats missing snapshots and fields as null", () => {
+		expect(diffAuditChanges(null, { role: "owner" })).toEqual({
+			role: { before: null, after: "owner" },
+		});
+		expect(diffAuditChanges({ keyPrefix: "sk_abc" }, undefined)).toEqual({
+			keyPrefix: { before: "sk_abc", after: null },
+		});
+	});
+
+	it("compares arrays and objects by value", () => {
+		expect(
+			diffAuditChanges(
+				{ permissions: ["team:read", "project:read"] },
+				{ permissions: ["team:read", "project:read"] }
+			)
+		).toEqual({});
+		expect(
+			diffAuditChanges({ permissions: ["team:read"] }, { permissions: ["team:manage"] })
+		).toEqual({ permissions: { before: ["team:read"], after: ["team:manage"] } });
+	});
+});
+
+describe("AuditService.record", () => {
+	it("does nothing without a database", async () => {
+		await expect(
+			auditService.record({
+				action: "api_key.created",
+				actor: { id: "user-1" },
+				target: { type: "api_key", id: "key-1" },
+			})
+		).resolves.toBeNull();
+	});
+});
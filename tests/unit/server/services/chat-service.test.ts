@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { streamChat, getCreditBalance, createCreditHold, captureCreditHold, releaseCreditHold } =
+	vi.hoisted(() => ({
+		streamChat: vi.fn(),
+		getCreditBalance: vi.fn(),
+		createCreditHold: vi.fn(),
+		captureCreditHold: vi.fn(),
+		releaseCreditHold: vi.fn(),
+	}));
+
+const model = {
+	id: "gpt-4o",
+	provider: "openai",
+	name: "GPT-4o",
+	maxOutputTokens: 1000,
+	credits: { input: 1, output: 4 },
+} as never;
+
+vi.mock("@/server/db", () => ({ db: undefined }));
+vi.mock("@/server/ai", () => ({
+	estimateTokens: (text: string) => Math.ceil(text.length / 4),
+	getChatProvider: () => ({ streamChat }),
+}));
+vi.mock("@/server/services/credits", () => ({
+	getCreditBalance,
+	createCreditHold,
+	captureCreditHold,
+	releaseCreditHold,
+}));
+
+import { chatService } from "@/server/services/chat-service";
+
+async function* events(...items: unknown[]) {
+	for (const item of items) {
+		if (item instanceof Error) {
+			throw item;
+		}
+		yield item;
+	}
+}
+
+describe("ChatService.streamReply", () => {
+	const streamReply = () => chatService.streamReply({ userId: "user-1", content: "Hello", model });
+
+	beforeEach(() => {
+		vi.restoreAllMocks();
+		vi.clearAllMocks();
+		getCreditBalance.mockResolvedValue({ available: 100 });
+		vi.spyOn(chatService, "addUserMessage").mockResolvedValue({
+			conversation: { id: "conv-1" },
+			history: [{ role: "user", content: "x".repeat(1000) }],
+		} as never);
+		vi.spyOn(chatService, "addAssistantMessage").mockResolvedValue({} as never);
+		createCreditHold.mockResolvedValue({ id: "hold-1", amount: 5 });
+	});
+
+	it("holds the most the reply can cost before streaming and captures the usage", async () => {
+		streamChat.mockReturnValue(
+			events(
+				{ type: "text", text: "Hi" },
+				{ type: "usage", usage: { inputTokens: 250, outputTokens: 250 } }
+			)
+		);
+
+		const { stream } = await streamReply();
+		await expect(new Response(stream).text()).resolves.toBe("Hi");
+
+		// 1,000 prompt characters and 1,000 reply tokens
+		expect(createCreditHold).toHaveBeenCalledWith(
+			expect.objectContaining({ userId: "user-1", amount: 5 })
+		);
+		expect(captureCreditHold).toHaveBeenCalledWith("hold-1", { amount: 2 });
+		expect(releaseCreditHold).not.toHaveBeenCalled();
+		expect(chatService.addAssistantMessage).toHaveBeenCalledWith(
+			expect.objectContaining({ credits: 2 })
+		);
+	});
+
+	it("releases the hold when the reply fails", async () => {
+		streamChat.mockReturnValue(events({ type: "text", text: "Hi" }, new Error("overloaded")));
+
+		const { stream } = await streamReply();
+		await new Response(stream).text();
+
+		expect(releaseCreditHold).toHaveBeenCalledWith("hold-1");
+		expect(captureCreditHold).not.toHaveBeenCalled();
+		expect(chatService.addAssistantMessage).not.toHaveBeenCalled();
+	});
+
+	it("does not stream when the cost cannot be held", async () => {
+		createCreditHold.mockRejectedValue(
+			Object.assign(new Error("Insufficient credits"), { code: "CONFLICT" })
+		);
+
+		await expect(streamReply()).rejects.toThrow("Insufficient credits");
+		expect(streamChat).not.toHaveBeenCalled();
+	});
+
+	it("does not save the message without credits to spend", async () => {
+		getCreditBalance.mockResolvedValue({ available: 0 });
+
+		await expect(streamReply()).rejects.toMatchObject({ code: "CONFLICT" });
+		expect(chatService.addUserMessage).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/server/db", () => ({ db: undefined }));
+
+import {
+	expireCredits,
+	getCreditBalance,
+	getCreditRefundIdempotencyKey,
+	MAX_CLIENT_IDEMPOTENCY_KEY_LENGTH,
+	reconcileCreditBalances,
+	releaseCreditHold,
+	toClientIdempotencyKey,
+	updateUserCredits,
+} from "@/server/services/credits";
+
+describe("credit ledger without a database", () => {
+	it("reports an empty balance", async () => {
+		await expect(getCreditBalance("user-1")).resolves.toEqual({
+			balance: 0,
+			held: 0,
+			available: 0,
+			expiring: [],
+		});
+	});
+
+	it("refuses to record transactions", async () => {
+		await expect(
+			updateUserCredits({ userId: "user-1", amount: 10, type: "bonus" })
+		).rejects.toThrow("Database not initialized");
+	});
+
+	it("skips the scheduled jobs", async () => {
+		await expect(expireCredits()).resolves.toEqual({ users: 0, holds: 0 });
+		await expect(reconcileCreditBalances()).resolves.toEqual({
+			checked: 0,
+			corrected: 0,
+			drift: 0,
+		});
+		await expect(releaseCreditHold("hold-1")).resolves.toBe(false);
+	});
+});
+
+describe("toClientIdempotencyKey", () => {
+	it("keeps client keys apart from the keys the server derives", () => {
+		expect(toClientIdempotencyKey("stripe:cs_123")).toBe("client:stripe:cs_123");
+		expect(toClientIdempotencyKey("hold:hold-1")).not.toBe("hold:hold-1");
+	});
+
+	it("cannot claim the key of a refund clawback ahead of the refund", () => {
+		const refundKey = getCreditRefundIdempotencyKey({
+			processor: "stripe",
+			orderId: "cs_123",
+			refundKey: "dispute:dp_1",
+		});
+
+		for (const guess of [
+			refundKey,
+			"refund:stripe:cs_123:dispute:dp_1",
+			"system:refund:stripe:cs_123",
+		]) {
+			expect(toClientIdempotencyKey(guess)).not.toBe(refundKey);
+		}
+		expect(toClientIdempotencyKey(refundKey).startsWith("system:")).toBe(false);
+	});
+
+	it("rejects keys that do not fit with the prefix", () => {
+		expect(() =>
+			toClientIdempotencyKey("k".repeat(MAX_CLIENT_IDEMPOTENCY_KEY_LENGTH))
+		).not.toThrow();
+		expect(() => toClientIdempotencyKey("k".repeat(MAX_CLIENT_IDEMPOTENCY_KEY_LENGTH + 1))).toThrow(
+			expect.objectContaining({ code: "BAD_REQUEST" })
+		);
+	});
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/server/db", () => ({ db: undefined }));
+vi.mock("@/server/services/github/github-token-service", () => ({ getGitHubAccessToken: vi.fn() }));
+vi.mock("@/server/services/vercel/vercel-service", () => ({ getVercelAccessToken: vi.fn() }));
+
+import {
+	DEPLOYMENT_STEP_NAMES,
+	DEPLOYMENT_STEP_TIMEOUT_MS,
+	getMissingEnvironmentVariables,
+	getStepsToReset,
+	planDeploymentSteps,
+	wasCreatedDuringAttempt,
+} from "@/server/services/deployment-orchestrator";
+
+describe("Deployment Orchestrator", () => {
+	describe("planDeploymentSteps", () => {
+		const plan = {
+			templateRepo: "shipkit/template",
+			projectName: "my-app",
+			description: "My app",
+			environmentVariables: [
+				{ key: "API_KEY", value: "secret-value", target: ["production"] as const },
+			],
+			domains: ["app.example.com"],
+		};
+
+		it("plans every step in order", () => {
+			const steps = planDeploymentSteps(plan);
+
+			expect(steps.map((step) => step.name)).toEqual([...DEPLOYMENT_STEP_NAMES]);
+			expect(steps.map((step) => step.position)).toEqual([0, 1, 2, 3, 4]);
+			expect(steps[0]?.input).toEqual({
+				templateRepo: "shipkit/template",
+				projectName: "my-app",
+				description: "My app",
+			});
+			expect(steps[3]?.input).toEqual({ domains: ["app.example.com"] });
+		});
+
+		it("does not store environment variable values", () => {
+			const envStep = planDeploymentSteps(plan).find((step) => step.name === "upload-env");
+
+			expect(envStep?.input).toEqual({ variables: [{ key: "API_KEY", target: ["production"] }] });
+			expect(JSON.stringify(planDeploymentSteps(plan))).not.toContain("secret-value");
+		});
+	});
+
+	describe("getStepsToReset", () => {
+		const now = Date.now();
+
+		it("resets failed steps and running steps of an interrupted run", () => {
+			const result = getStepsToReset(
+				[
+					{ id: "done", status: "completed", startedAt: new Date(now - 60_000) },
+					{ id: "failed", status: "failed", startedAt: new Date(now - 60_000) },
+					{
+						id: "crashed",
+						status: "running",
+						startedAt: new Date(now - DEPLOYMENT_STEP_TIMEOUT_MS - 1),
+					},
+					{ id: "pending", status: "pending", startedAt: null },
+				],
+				now
+			);
+
+			expect(result).toEqual({ failed: ["failed"], interrupted: ["crashed"] });
+		});
+
+		it("leaves steps that are still running", () => {
+			const result = getStepsToReset(
+				[{ id: "running", status: "running", startedAt: new Date(now - 1000) }],
+				now
+			);
+
+			expect(result.interrupted).toEqual([]);
+		});
+	});
+
+	describe("wasCreatedDuringAttempt", () => {
+		const startedAt = new Date("2026-05-01T12:00:00.500Z");
+
+		it("adopts a resource created once the interrupted attempt started", () => {
+			expect(wasCreatedDuringAttempt("2026-05-01T12:00:00Z", startedAt)).toBe(true);
+			expect(wasCreatedDuringAttempt(startedAt.getTime() + 2000, startedAt)).toBe(true);
+		});
+
+		it("never adopts a resource that existed before the attempt", () => {
+			expect(wasCreatedDuringAttempt("2026-04-30T09:00:00Z", startedAt)).toBe(false);
+			expect(wasCreatedDuringAttempt(undefined, startedAt)).toBe(false);
+			expect(wasCreatedDuringAttempt("2026-05-01T12:00:01Z", null)).toBe(false);
+		});
+	});
+
+	describe("getMissingEnvironmentVariables", () => {
+		const input = JSON.stringify({
+			variables: [
+				{ key: "API_KEY", target: ["production"] },
+				{ key: "DB_URL", target: ["production"] },
+			],
+		});
+
+		it("asks for the values of variables that have not been uploaded", () => {
+			expect(
+				getMissingEnvironmentVariables([{ name: "upload-env", status: "failed", input }], {
+					API_KEY: "value",
+				})
+			).toEqual(["DB_URL"]);
+		});
+
+		it("needs no values once the variables were uploaded", () => {
+			expect(
+				getMissingEnvironmentVariables([{ name: "upload-env", status: "completed", input }])
+			).toEqual([]);
+		});
+	});
+});
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const { getActiveSubscription, safeDbExecute } = vi.hoisted(() => ({
+	getActiveSubscription: vi.fn(),
+	safeDbExecute: vi.fn(),
+}));
+
+vi.mock("@/server/db", () => ({ db: undefined, safeDbExecute }));
+vi.mock("@/server/services/subscription-service", () => ({
+	SubscriptionService: { getActiveSubscription },
+}));
+
+import { entitlementPlans } from "@/config/entitlements";
+import { entitlementService, getRemaining } from "@/server/services/entitlement-service";
+
+const teamPlan = entitlementPlans.find((plan) => plan.id === "team");
+
+describe("EntitlementService", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		safeDbExecute.mockImplementation(async (_fn: unknown, fallback: unknown) => fallback);
+		getActiveSubscription.mockResolvedValue(null);
+		if (teamPlan) {
+			teamPlan.products = { stripe: ["prod_team"] };
+		}
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		if (teamPlan) {
+			teamPlan.products = {};
+		}
+	});
+
+	it("puts users without a subscription or paid order on the free plan", async () => {
+		const plan = await entitlementService.getPlan({ userId: "user-1" });
+
+		expect(plan.id).toBe("free");
+		await expect(entitlementService.can({ userId: "user-1" }, "audit_log")).resolves.toBe(false);
+	});
+
+	it("maps the subscribed product to its plan", async () => {
+		getActiveSubscription.mockResolvedValue({
+			processor: "stripe",
+			productId: "prod_team",
+			variantId: "price_monthly",
+		});
+
+		const plan = await entitlementService.getPlan({ userId: "user-1" });
+
+		expect(plan.id).toBe("team");
+		await expect(entitlementService.can({ userId: "user-1" }, "audit_log")).resolves.toBe(true);
+	});
+
+	it("gives unlisted subscriptions the default paid plan", async () => {
+		getActiveSubscription.mockResolvedValue({
+			processor: "polar",
+			productId: "unknown",
+			variantId: null,
+		});
+
+		await expect(entitlementService.getPlan({ userId: "user-1" })).resolves.toMatchObject({
+			id: "pro",
+		});
+	});
+
+	it("matches unlisted subscriptions on the name of their synced plan", async () => {
+		getActiveSubscription.mockResolvedValue({
+			processor: "polar",
+			planId: 4,
+			productId: "unknown",
+			variantId: null,
+			productName: null,
+		});
+		safeDbExecute.mockResolvedValueOnce({ name: "Monthly", productName: "Shipkit Team" });
+
+		await expect(entitlementService.getPlan({ userId: "user-1" })).resolves.toMatchObject({
+			id: "team",
+		});
+	});
+
+	it("matches paid one-time orders on their product name", async () => {
+		safeDbExecute.mockResolvedValueOnce(["Shipkit Team"]);
+		await expect(entitlementService.getPlan({ userId: "user-1" })).resolves.toMatchObject({
+			id: "team",
+		});
+
+		safeDbExecute.mockResolvedValueOnce(["Shipkit Bundle"]);
+		await expect(entitlementService.getPlan({ userId: "user-1" })).resolves.toMatchObject({
+			id: "pro",
+		});
+	});
+
+	it("gives a team the best plan among its owners", async () => {
+		safeDbExecute.mockResolvedValueOnce(["owner-1", "owner-2"]);
+		getActiveSubscription.mockImplementation(async (userId: string) =>
+			userId === "owner-2" ? { processor: "stripe", productId: "prod_team", variantId: null } : null
+		);
+
+		await expect(entitlementService.getPlan({ teamId: "team-1" })).resolves.toMatchObject({
+			id: "team",
+		});
+	});
+
+	it("rejects usage beyond the plan's limit", async () => {
+		vi.spyOn(entitlementService, "getUsage").mockResolvedValue(3);
+
+		await expect(
+			entitlementService.assertWithinLimit({ userId: "user-1" }, "deploymentsPerMonth")
+		).rejects.toMatchObject({ code: "FORBIDDEN" });
+		await expect(
+			entitlementService.remaining({ userId: "user-1" }, "deploymentsPerMonth")
+		).resolves.toBe(0);
+	});
+});
+
+describe("getRemaining", () => {
+	it("never goes below zero and keeps unlimited limits unlimited", () => {
+		expect(getRemaining(5, 2)).toBe(3);
+		expect(getRemaining(5, 9)).toBe(0);
+		expect(getRemaining(null, 100)).toBeNull();
+	});
+});
@@ -0,0 +1,127 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/server/db", () => ({ db: undefined }));
+vi.mock("@/server/services/cache-service", () => ({
+	cacheService: {
+		getOrSet: <T>(_key: string, factory: () => Promise<T>) => factory(),
+		delete: vi.fn(),
+	},
+}));
+
+import {
+	evaluateFeatureFlag,
+	type FeatureFlagDefinition,
+	FeatureFlagService,
+	getRolloutBucket,
+} from "@/server/services/feature-flag-service";
+
+const flag = (overrides: Partial<FeatureFlagDefinition> = {}): FeatureFlagDefinition => ({
+	key: "new-checkout",
+	description: null,
+	type: "boolean",
+	enabled: true,
+	variants: [],
+	defaultValue: "false",
+	rules: [],
+	clientVisible: false,
+	updatedAt: new Date(),
+	...overrides,
+});
+
+describe("Feature Flag Service", () => {
+	describe("evaluateFeatureFlag", () => {
+		it("is off for everyone while disabled", () => {
+			const disabled = flag({ enabled: false, defaultValue: "true" });
+			expect(evaluateFeatureFlag(disabled, { userId: "user-1" })).toEqual({
+				value: false,
+				reason: "disabled",
+			});
+
+			const variants = flag({
+				enabled: false,
+				type: "multivariate",
+				variants: ["control", "wide"],
+				defaultValue: "control",
+				rules: [{ rollout: 100, value: "wide" }],
+			});
+			expect(evaluateFeatureFlag(variants, { userId: "user-1" }).value).toBe("control");
+		});
+
+		it("serves the first matching rule, then the default value", () => {
+			const targeted = flag({
+				rules: [
+					{ userIds: ["user-1"], rollout: 100, value: "true" },
+					{ roles: ["Admin"], plans: ["pro"], rollout: 100, value: "true" },
+				],
+			});
+
+			expect(evaluateFeatureFlag(targeted, { userId: "user-1" })).toMatchObject({
+				value: true,
+				ruleIndex: 0,
+			});
+			// Every condition of a rule must match, case-insensitively
+			expect(
+				evaluateFeatureFlag(targeted, { userId: "user-2", roles: ["admin"], plans: ["Pro"] })
+			).toMatchObject({ value: true, ruleIndex: 1 });
+			expect(
+				evaluateFeatureFlag(targeted, { userId: "user-2", roles: ["admin"], plans: ["free"] })
+			).toEqual({ value: false, reason: "default" });
+		});
+
+		it("targets teams", () => {
+			const teamFlag = flag({ rules: [{ teamIds: ["team-1"], rollout: 100, value: "true" }] });
+			expect(evaluateFeatureFlag(teamFlag, { teamId: "team-1" }).value).toBe(true);
+			expect(evaluateFeatureFlag(teamFlag, { teamId: "team-2" }).value).toBe(false);
+		});
+
+		it("rolls out to a stable share of users", () => {
+			const rollout = flag({ rules: [{ rollout: 25, value: "true" }] });
+			const userIds = Array.from({ length: 2000 }, (_, index) => `user-${index}`);
+			const enabled = userIds.filter(
+				(userId) => evaluateFeatureFlag(rollout, { userId }).value === true
+			);
+
+			expect(enabled.length / userIds.length).toBeGreaterThan(0.2);
+			expect(enabled.length / userIds.length).toBeLessThan(0.3);
+			// The same users stay in the rollout
+			expect(enabled.every((userId) => evaluateFeatureFlag(rollout, { userId }).value)).toBe(true);
+			// Anonymous visitors cannot be bucketed
+			expect(evaluateFeatureFlag(rollout, {}).value).toBe(false);
+		});
+
+		it("splits users between variants with stacked rollouts", () => {
+			const experiment = flag({
+				type: "multivariate",
+				variants: ["control", "a", "b"],
+				defaultValue: "control",
+				rules: [
+					{ rollout: 50, value: "a" },
+					{ rollout: 100, value: "b" },
+				],
+			});
+
+			for (const userId of ["user-1", "user-2", "user-3", "user-4"]) {
+				const bucket = getRolloutBucket("new-checkout", userId);
+				expect(evaluateFeatureFlag(experiment, { userId }).value).toBe(bucket < 50 ? "a" : "b");
+			}
+		});
+	});
+
+	describe("saveFlag", () => {
+		it("rejects values the flag cannot serve", async () => {
+			const service = new FeatureFlagService();
+			const { updatedAt: _updatedAt, ...input } = flag({
+				type: "multivariate",
+				variants: ["control", "a"],
+				defaultValue: "b",
+			});
+
+			await expect(service.saveFlag(input, "admin-1")).rejects.toThrow(
+				'"b" is not a value of flag new-checkout'
+			);
+			await expect(
+				service.saveFlag({ ...input, variants: ["control"], defaultValue: "control" }, "admin-1")
+			).rejects.toThrow("at least two variants");
+		});
+	});
+});
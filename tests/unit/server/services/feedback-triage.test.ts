@@ -0,0 +1,55 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/server/db", () => ({ db: undefined, safeDbExecute: vi.fn() }));
+
+import {
+	getFeedbackThread,
+	listFeedback,
+	normalizeFeedbackTags,
+	parseFeedbackTags,
+	updateFeedbackStatus,
+} from "@/server/services/feedback-service";
+
+describe("Feedback triage", () => {
+	describe("normalizeFeedbackTags", () => {
+		it("lowercases, dashes and deduplicates tags", () => {
+			expect(normalizeFeedbackTags(["Bug", " dark mode ", "bug", "Billing/Invoices"])).toEqual([
+				"bug",
+				"dark-mode",
+				"billing-invoices",
+			]);
+		});
+
+		it("drops empty tags and caps the count and length", () => {
+			expect(normalizeFeedbackTags(["", "  ", "--"])).toEqual([]);
+			expect(normalizeFeedbackTags(Array.from({ length: 20 }, (_, i) => `tag ${i}`))).toHaveLength(
+				10
+			);
+			expect(normalizeFeedbackTags(["a".repeat(50)])[0]).toHaveLength(30);
+		});
+	});
+
+	describe("parseFeedbackTags", () => {
+		it("reads a JSON array of strings", () => {
+			expect(parseFeedbackTags('["bug","ux"]')).toEqual(["bug", "ux"]);
+		});
+
+		it("falls back to no tags for null, invalid or non-array values", () => {
+			expect(parseFeedbackTags(null)).toEqual([]);
+			expect(parseFeedbackTags("not json")).toEqual([]);
+			expect(parseFeedbackTags('{"tag":"bug"}')).toEqual([]);
+			expect(parseFeedbackTags('["bug",1]')).toEqual(["bug"]);
+		});
+	});
+
+	describe("without a database", () => {
+		it("lists nothing and finds no thread", async () => {
+			await expect(listFeedback({ status: "new" })).resolves.toEqual([]);
+			await expect(getFeedbackThread("missing")).resolves.toBeNull();
+		});
+
+		it("rejects unknown statuses", async () => {
+			await expect(updateFeedbackStatus("id", "closed")).rejects.toThrow("Invalid feedback status");
+		});
+	});
+});
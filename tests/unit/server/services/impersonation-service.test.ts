@@ -0,0 +1,109 @@
+import type { Session } from "next-auth";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { cookieStore, findSession, findUser, updateSession, isAdmin } = vi.hoisted(() => ({
+	cookieStore: { get: vi.fn(), set: vi.fn(), delete: vi.fn() },
+	findSession: vi.fn(),
+	findUser: vi.fn(),
+	updateSession: vi.fn(),
+	isAdmin: vi.fn(),
+}));
+
+vi.mock("next/headers", () => ({ cookies: async () => cookieStore }));
+vi.mock("@/server/db", () => ({
+	db: {
+		query: {
+			impersonationSessions: { findFirst: findSession },
+			users: { findFirst: findUser },
+		},
+		update: () => ({ set: () => ({ where: updateSession }) }),
+	},
+}));
+vi.mock("@/server/services/admin-service", () => ({ isAdmin }));
+
+import {
+	IMPERSONATION_COOKIE,
+	impersonationService,
+} from "@/server/services/impersonation-service";
+
+const adminSession: Session = {
+	user: {
+		id: "admin-1",
+		name: "Admin",
+		email: "admin@example.com",
+		emailVerified: null,
+		image: null,
+	},
+	expires: "2099-01-01T00:00:00.000Z",
+};
+
+const expiresAt = new Date("2099-01-01T00:30:00.000Z");
+
+describe("ImpersonationService.applyToSession", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		isAdmin.mockResolvedValue(true);
+	});
+
+	it("returns the session unchanged without the cookie", async () => {
+		cookieStore.get.mockReturnValue(undefined);
+
+		await expect(impersonationService.applyToSession(adminSession)).resolves.toBe(adminSession);
+		expect(findSession).not.toHaveBeenCalled();
+	});
+
+	it("returns the session unchanged when the impersonation is not active for the admin", async () => {
+		cookieStore.get.mockReturnValue({ name: IMPERSONATION_COOKIE, value: "imp-1" });
+		findSession.mockResolvedValue(undefined);
+
+		await expect(impersonationService.applyToSession(adminSession)).resolves.toBe(adminSession);
+		expect(findUser).not.toHaveBeenCalled();
+	});
+
+	it("swaps in the impersonated user without their metadata", async () => {
+		cookieStore.get.mockReturnValue({ name: IMPERSONATION_COOKIE, value: "imp-1" });
+		findSession.mockResolvedValue({ id: "imp-1", adminId: "admin-1", userId: "user-1", expiresAt });
+		findUser.mockResolvedValue({
+			id: "user-1",
+			name: "Ada",
+			email: "ada@example.com",
+			emailVerified: null,
+			image: null,
+			role: "user",
+			theme: "dark",
+			bio: null,
+			githubUsername: "ada",
+			vercelConnectionAttemptedAt: null,
+			metadata: '{"providers":{"github":{"accessToken":"secret"}}}',
+			createdAt: new Date("2024-01-01"),
+			updatedAt: null,
+		});
+
+		const session = await impersonationService.applyToSession(adminSession);
+
+		expect(session?.user).toMatchObject({ id: "user-1", email: "ada@example.com", theme: "dark" });
+		expect(session?.user.metadata).toBeUndefined();
+		expect(session?.expires).toBe(adminSession.expires);
+		expect(session?.impersonation).toEqual({
+			id: "imp-1",
+			expiresAt: expiresAt.toISOString(),
+			admin: { id: "admin-1", email: "admin@example.com", name: "Admin" },
+		});
+	});
+
+	it("ends the impersonation when the admin is no longer an admin", async () => {
+		cookieStore.get.mockReturnValue({ name: IMPERSONATION_COOKIE, value: "imp-1" });
+		findSession.mockResolvedValue({ id: "imp-1", adminId: "admin-1", userId: "user-1", expiresAt });
+		isAdmin.mockResolvedValue(false);
+
+		await expect(impersonationService.applyToSession(adminSession)).resolves.toBe(adminSession);
+		expect(isAdmin).toHaveBeenCalledWith({ email: "admin@example.com", userId: "admin-1" });
+		expect(updateSession).toHaveBeenCalled();
+		expect(findUser).not.toHaveBeenCalled();
+	});
+
+	it("ignores signed-out sessions", async () => {
+		await expect(impersonationService.applyToSession(null)).resolves.toBeNull();
+		expect(cookieStore.get).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/server/db", () => ({ db: undefined, safeDbExecute: vi.fn() }));
+vi.mock("@/server/providers", () => ({
+	getEnabledProviders: () => [],
+	initializePaymentProviders: vi.fn(),
+}));
+vi.mock("@/lib/utils/get-payload-collection", () => ({ getPayloadCollection: vi.fn() }));
+
+import type { Plan } from "@/server/db/schema";
+import { buildPricingTiers } from "@/server/services/plan-service";
+
+const plan = (overrides: Partial<Plan> = {}): Plan => ({
+	id: 1,
+	provider: "stripe",
+	productId: "prod_pro",
+	productName: "Pro",
+	variantId: "price_monthly",
+	name: "Pro",
+	description: "For growing teams",
+	features: '["Unlimited projects"]',
+	price: "1900",
+	currency: "USD",
+	isUsageBased: false,
+	interval: "month",
+	intervalCount: 1,
+	trialInterval: null,
+	trialIntervalCount: null,
+	sort: 0,
+	isArchived: false,
+	syncedAt: new Date(),
+	...overrides,
+});
+
+describe("buildPricingTiers", () => {
+	it("groups monthly, annual and one-time prices of a product into one tier", () => {
+		const tiers = buildPricingTiers([
+			plan(),
+			plan({ id: 2, variantId: "price_yearly", price: "19000", interval: "year", sort: 1 }),
+			plan({
+				id: 3,
+				productId: "prod_lifetime",
+				productName: "Lifetime",
+				variantId: "price_once",
+				price: "29900",
+				interval: null,
+				intervalCount: null,
+			}),
+		]);
+
+		expect(tiers).toHaveLength(2);
+		expect(tiers[0]).toMatchObject({
+			productId: "prod_pro",
+			name: "Pro",
+			features: ["Unlimited projects"],
+			prices: {
+				monthly: { planId: 1, amount: 1900, currency: "USD" },
+				annual: { planId: 2, amount: 19000 },
+			},
+		});
+		expect(tiers[1]?.prices.oneTime).toMatchObject({ planId: 3, amount: 29900 });
+	});
+
+	it("leaves out usage-based and multi-interval prices", () => {
+		const tiers = buildPricingTiers([
+			plan({ isUsageBased: true }),
+			plan({ id: 2, variantId: "price_quarterly", intervalCount: 3 }),
+		]);
+
+		expect(tiers).toEqual([]);
+	});
+
+	it("applies the CMS entry for the product", () => {
+		const tiers = buildPricingTiers(
+			[plan(), plan({ id: 2, productId: "prod_team", variantId: "price_team" })],
+			[
+				{
+					productId: "prod_pro",
+					name: "Professional",
+					features: "Priority support\n\n  SSO  ",
+					highlighted: true,
+					hidden: false,
+				},
+				{ productId: "prod_team", hidden: true },
+			]
+		);
+
+		expect(tiers).toHaveLength(1);
+		expect(tiers[0]).toMatchObject({
+			name: "Professional",
+			features: ["Priority support", "SSO"],
+			highlighted: true,
+		});
+	});
+
+	it("orders tiers by sort, then by starting price", () => {
+		const tiers = buildPricingTiers([
+			plan({ id: 1, productId: "prod_b", variantId: "b", price: "4900" }),
+			plan({ id: 2, productId: "prod_a", variantId: "a", price: "900" }),
+		]);
+
+		expect(tiers.map((tier) => tier.productId)).toEqual(["prod_a", "prod_b"]);
+	});
+});
@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/server/db", () => ({ db: undefined }));
+
+import { ErrorService } from "@/server/services/error-service";
+import {
+	getRateLimitHeaders,
+	MemoryRateLimitStore,
+	RateLimitService,
+} from "@/server/services/rate-limit-service";
+
+const config = { requests: 3, duration: 60 };
+const windowStart = new Date("2026-01-01T00:00:00.000Z").getTime();
+
+describe("MemoryRateLimitStore", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(windowStart);
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("allows requests up to the limit and does not count rejected ones", async () => {
+		const store = new MemoryRateLimitStore();
+
+		const results = [];
+		for (let i = 0; i < 4; i++) {
+			results.push(await store.hit("login", "user-1", config));
+		}
+
+		expect(results.map((result) => result.success)).toEqual([true, true, true, false]);
+		expect(results[2]).toMatchObject({ limit: 3, remaining: 0, reset: windowStart + 60_000 });
+		await expect(store.peek("login", "user-1", config)).resolves.toMatchObject({ remaining: 0 });
+	});
+
+	it("weights the previous window by how much of it still overlaps", async () => {
+		const store = new MemoryRateLimitStore();
+		for (let i = 0; i < 3; i++) {
+			await store.hit("login", "user-1", config);
+		}
+
+		// A third into the next window, two thirds of the previous 3 requests still count
+		vi.setSystemTime(windowStart + 80_000);
+		await expect(store.peek("login", "user-1", config)).resolves.toMatchObject({ remaining: 1 });
+
+		// Two windows later everything has expired
+		vi.setSystemTime(windowStart + 180_000);
+		await expect(store.peek("login", "user-1", config)).resolves.toMatchObject({ remaining: 3 });
+	});
+
+	it("peeks without consuming and evicts the least recently used windows", async () => {
+		const store = new MemoryRateLimitStore(2);
+		await store.hit("login", "a", config);
+		await store.hit("login", "b", config);
+		await store.hit("login", "a", config);
+		await store.hit("login", "c", config);
+
+		await expect(store.peek("login", "a", config)).resolves.toMatchObject({ remaining: 1 });
+		await expect(store.peek("login", "a", config)).resolves.toMatchObject({ remaining: 1 });
+		// "b" was the least recently used when "c" was added
+		await expect(store.peek("login", "b", config)).resolves.toMatchObject({ remaining: 3 });
+	});
+});
+
+describe("RateLimitService", () => {
+	it("throws RATE_LIMITED with the status once the limit is reached", async () => {
+		const service = new RateLimitService(new MemoryRateLimitStore());
+		await service.checkLimit("user-1", "invite", { requests: 1, duration: 60 });
+
+		const error = await service
+			.checkLimit("user-1", "invite", { requests: 1, duration: 60 })
+			.catch((caught) => caught);
+
+		expect(ErrorService.isAppError(error) && error.code).toBe("RATE_LIMITED");
+		expect(error.metadata).toMatchObject({ limit: 1, remaining: 0 });
+	});
+
+	it("reads the sliding window state in getStatus", async () => {
+		const service = new RateLimitService(new MemoryRateLimitStore());
+		await service.checkLimit("user-1", "deploy", config);
+
+		await expect(service.getStatus("user-1", "deploy", config)).resolves.toMatchObject({
+			limit: 3,
+			remaining: 2,
+		});
+	});
+
+	it("lets requests through when the store fails", async () => {
+		const service = new RateLimitService({
+			name: "postgres",
+			hit: vi.fn().mockRejectedValue(new Error("connection refused")),
+			peek: vi.fn(),
+			reset: vi.fn(),
+		});
+
+		await expect(service.checkLimit("user-1", "deploy", config)).resolves.toMatchObject({
+			remaining: 3,
+		});
+	});
+});
+
+describe("getRateLimitHeaders", () => {
+	it("emits the standard headers with the reset in seconds", () => {
+		const now = Date.now();
+		expect(
+			getRateLimitHeaders(
+				{ limit: 10, remaining: 4, reset: now + 30_000 },
+				{
+					requests: 10,
+					duration: 60,
+				}
+			)
+		).toEqual({
+			"RateLimit-Limit": "10",
+			"RateLimit-Remaining": "4",
+			"RateLimit-Reset": "30",
+			"RateLimit-Policy": "10;w=60",
+		});
+	});
+});
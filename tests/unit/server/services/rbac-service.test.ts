@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("next/server", () => ({
+	NextResponse: { json: (body: unknown, init?: ResponseInit) => Response.json(body, init) },
+}));
+vi.mock("@/lib/payload/payload", () => ({ getPayloadClient: vi.fn() }));
+vi.mock("@/server/auth", () => ({ auth: vi.fn() }));
+const database = vi.hoisted(() => ({ db: undefined as unknown }));
+vi.mock("@/server/db", () => database);
+vi.mock("@/server/services/cache-service", () => ({
+	cacheService: {
+		getOrSet: <T>(_key: string, factory: () => Promise<T>) => factory(),
+		delete: vi.fn(),
+	},
+}));
+
+import { permissionsGrant, RBACService } from "@/server/services/rbac";
+
+describe("RBAC Service", () => {
+	describe("permissionsGrant", () => {
+		it("matches exact permissions", () => {
+			expect(permissionsGrant(["team:read"], "team", "read")).toBe(true);
+			expect(permissionsGrant(["team:read"], "team", "update")).toBe(false);
+			expect(permissionsGrant(["team:read"], "project", "read")).toBe(false);
+		});
+
+		it("treats manage as every action on the resource", () => {
+			expect(permissionsGrant(["project:manage"], "project", "delete")).toBe(true);
+			expect(permissionsGrant(["project:manage"], "team", "delete")).toBe(false);
+		});
+	});
+
+	describe("hasPermission", () => {
+		let service: RBACService;
+
+		beforeEach(() => {
+			service = new RBACService();
+		});
+
+		it("uses the default mappings until a role is customized", async () => {
+			vi.spyOn(service, "getUserRoles").mockResolvedValue([
+				{ scope: "global", name: "user" },
+				{ scope: "team", name: "member" },
+			]);
+
+			await expect(service.hasPermission("u1", "team", "read", { teamId: "t1" })).resolves.toBe(
+				true
+			);
+			await expect(service.hasPermission("u1", "team", "delete", { teamId: "t1" })).resolves.toBe(
+				false
+			);
+			await expect(service.hasPermission("u1", "api_key", "create")).resolves.toBe(true);
+		});
+
+		it("keeps roles bound to their scope", async () => {
+			// "admin" in a project does not grant team admin permissions
+			vi.spyOn(service, "getUserRoles").mockResolvedValue([{ scope: "project", name: "admin" }]);
+
+			await expect(
+				service.hasPermission("u1", "project", "update", { projectId: "p1" })
+			).resolves.toBe(true);
+			await expect(
+				service.hasPermission("u1", "project", "delete", { projectId: "p1" })
+			).resolves.toBe(false);
+		});
+
+		it("denies users without roles", async () => {
+			vi.spyOn(service, "getUserRoles").mockResolvedValue([]);
+
+			await expect(service.hasPermission("u1", "team", "read")).resolves.toBe(false);
+		});
+	});
+
+	describe("getUserRoles", () => {
+		const findTeamMember = vi.fn();
+
+		beforeEach(() => {
+			database.db = {
+				query: {
+					users: { findFirst: async () => ({ role: "user" }) },
+					teamMembers: { findFirst: findTeamMember },
+					roles: { findMany: async () => [] },
+				},
+			};
+		});
+
+		afterEach(() => {
+			database.db = undefined;
+		});
+
+		it("leaves the base role out of team checks, so it grants nothing in teams", async () => {
+			const service = new RBACService();
+			findTeamMember.mockResolvedValue({ role: "viewer" });
+
+			await expect(service.getUserRoles("u1")).resolves.toEqual([
+				{ scope: "global", name: "user" },
+			]);
+			await expect(service.getUserRoles("u1", { teamId: "t1" })).resolves.toEqual([
+				{ scope: "team", name: "viewer" },
+			]);
+			await expect(
+				service.hasPermission("u1", "deployment", "create", { teamId: "t1" })
+			).resolves.toBe(false);
+			await expect(service.hasPermission("u1", "deployment", "create")).resolves.toBe(true);
+		});
+	});
+});
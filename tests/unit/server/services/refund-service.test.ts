@@ -0,0 +1,198 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const {
+	safeDbExecute,
+	revokeCreditPackPurchase,
+	revokeGitHubAccess,
+	hasActiveSubscription,
+	sendEmail,
+	recordAudit,
+	getProvider,
+	isProviderEnabled,
+} = vi.hoisted(() => ({
+	safeDbExecute: vi.fn(),
+	revokeCreditPackPurchase: vi.fn(),
+	revokeGitHubAccess: vi.fn(),
+	hasActiveSubscription: vi.fn(),
+	sendEmail: vi.fn(),
+	recordAudit: vi.fn(),
+	getProvider: vi.fn(),
+	isProviderEnabled: vi.fn(),
+}));
+
+vi.mock("@/server/db", () => ({ db: undefined, safeDbExecute }));
+vi.mock("@/server/services/credits", () => ({ revokeCreditPackPurchase }));
+vi.mock("@/server/services/github/github-service", () => ({ revokeGitHubAccess }));
+vi.mock("@/server/services/subscription-service", () => ({
+	SubscriptionService: { hasActiveSubscription },
+}));
+vi.mock("@/server/services/email-service", () => ({ emailService: { send: sendEmail } }));
+vi.mock("@/server/services/audit-service", () => ({ auditService: { record: recordAudit } }));
+vi.mock("@/server/providers", () => ({ getProvider, isProviderEnabled }));
+
+import { RefundService } from "@/server/services/refund-service";
+
+const payment = {
+	id: 7,
+	userId: "user-1",
+	orderId: "cs_123",
+	processorOrderId: "cs_123",
+	amount: 4900,
+	refundedAmount: 0,
+	status: "completed",
+	processor: "stripe",
+	productName: "Shipkit",
+	isFreeProduct: false,
+	metadata: "{}",
+};
+const user = { id: "user-1", email: "buyer@example.com", name: "Buyer" };
+
+/**
+ * Queues the results of the database calls a refund makes, in order:
+ * finding the payment, updating it, looking for another paid payment and finding the user
+ */
+const queueDb = (...results: unknown[]) => {
+	for (const result of results) {
+		safeDbExecute.mockResolvedValueOnce(result);
+	}
+};
+
+describe("RefundService", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		safeDbExecute.mockImplementation(async (_fn: unknown, fallback: unknown) => fallback);
+		hasActiveSubscription.mockResolvedValue(false);
+		revokeGitHubAccess.mockResolvedValue(true);
+	});
+
+	describe("recordRefund", () => {
+		it("revokes credits, GitHub access and notifies the user on a full refund", async () => {
+			queueDb([payment], { ...payment, status: "refunded", refundedAmount: 4900 }, undefined, user);
+
+			const updated = await RefundService.recordRefund({ processor: "stripe", orderId: "cs_123" });
+
+			expect(updated?.status).toBe("refunded");
+			expect(revokeCreditPackPurchase).toHaveBeenCalledWith(
+				expect.objectContaining({ userId: "user-1", orderId: "cs_123", fraction: 1 })
+			);
+			expect(revokeGitHubAccess).toHaveBeenCalledWith("user-1");
+			expect(sendEmail).toHaveBeenCalledWith(
+				"payment-refunded",
+				expect.objectContaining({ kind: "refund", amount: 4900 }),
+				expect.objectContaining({ to: "buyer@example.com" })
+			);
+			expect(recordAudit).toHaveBeenCalledWith(
+				expect.objectContaining({ action: "payments.refunded", actor: null })
+			);
+		});
+
+		it("takes back credits in proportion and keeps access on a partial refund", async () => {
+			queueDb([payment], { ...payment, status: "partially_refunded", refundedAmount: 2450 }, user);
+
+			await RefundService.recordRefund({
+				processor: "stripe",
+				orderId: "cs_123",
+				refundedAmount: 2450,
+			});
+
+			expect(revokeCreditPackPurchase).toHaveBeenCalledWith(
+				expect.objectContaining({ fraction: 0.5, refundKey: "2450" })
+			);
+			expect(revokeGitHubAccess).not.toHaveBeenCalled();
+			expect(sendEmail).toHaveBeenCalledWith(
+				"payment-refunded",
+				expect.objectContaining({ kind: "partial_refund", amount: 2450 }),
+				expect.anything()
+			);
+		});
+
+		it("ignores a refund total that was already recorded", async () => {
+			queueDb([{ ...payment, status: "partially_refunded", refundedAmount: 2450 }]);
+
+			await RefundService.recordRefund({
+				processor: "stripe",
+				orderId: "cs_123",
+				refundedAmount: 2450,
+			});
+
+			expect(safeDbExecute).toHaveBeenCalledTimes(1);
+			expect(revokeCreditPackPurchase).not.toHaveBeenCalled();
+			expect(sendEmail).not.toHaveBeenCalled();
+		});
+
+		it("keeps GitHub access while another purchase grants it", async () => {
+			queueDb([payment], { ...payment, status: "refunded" }, { id: 8 }, user);
+
+			await RefundService.recordRefund({ processor: "stripe", orderId: "cs_123" });
+
+			expect(revokeGitHubAccess).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("recordDispute", () => {
+		it("revokes access when a dispute opens, but not again when it is lost", async () => {
+			queueDb([payment], { ...payment, status: "disputed" }, undefined, user);
+
+			await RefundService.recordDispute({
+				processor: "stripe",
+				orderId: "cs_123",
+				disputeId: "dp_1",
+				status: "open",
+				amount: 4900,
+			});
+
+			expect(revokeCreditPackPurchase).toHaveBeenCalledWith(
+				expect.objectContaining({ fraction: 1, refundKey: "dispute:dp_1" })
+			);
+			expect(revokeGitHubAccess).toHaveBeenCalledTimes(1);
+
+			vi.clearAllMocks();
+			const dispute = { id: "dp_1", status: "open", previousStatus: "completed" };
+			queueDb([{ ...payment, status: "disputed", metadata: JSON.stringify({ dispute }) }], {
+				...payment,
+				status: "refunded",
+			});
+
+			const updated = await RefundService.recordDispute({
+				processor: "stripe",
+				orderId: "cs_123",
+				disputeId: "dp_1",
+				status: "lost",
+			});
+
+			expect(updated?.status).toBe("refunded");
+			expect(revokeCreditPackPurchase).not.toHaveBeenCalled();
+			expect(revokeGitHubAccess).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("issueRefund", () => {
+		it("rejects more than the amount not yet refunded", async () => {
+			queueDb({ ...payment, refundedAmount: 4000 });
+
+			await expect(
+				RefundService.issueRefund({ paymentId: 7, amount: 1000, actor: { id: "admin-1" } })
+			).rejects.toMatchObject({ code: "BAD_REQUEST" });
+		});
+
+		it("refunds through the provider and records the new total", async () => {
+			const refundPayment = vi.fn().mockResolvedValue({ refundId: "re_1", amount: 1000 });
+			getProvider.mockReturnValue({ refundPayment });
+			isProviderEnabled.mockReturnValue(true);
+			queueDb({ ...payment, refundedAmount: 1000 });
+			const recordRefund = vi.spyOn(RefundService, "recordRefund").mockResolvedValue(null);
+
+			await RefundService.issueRefund({ paymentId: 7, amount: 1000, actor: { id: "admin-1" } });
+
+			expect(refundPayment).toHaveBeenCalledWith({
+				orderId: "cs_123",
+				amount: 1000,
+				reason: undefined,
+			});
+			expect(recordRefund).toHaveBeenCalledWith(
+				expect.objectContaining({ orderId: "cs_123", refundedAmount: 2000 })
+			);
+			recordRefund.mockRestore();
+		});
+	});
+});
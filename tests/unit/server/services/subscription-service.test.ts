@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import {
+	isSubscriptionEntitled,
+	normalizeSubscriptionStatus,
+	SubscriptionService,
+	toSubscriptionDate,
+} from "@/server/services/subscription-service";
+
+describe("Subscription Service", () => {
+	describe("normalizeSubscriptionStatus", () => {
+		it("maps Lemon Squeezy statuses", () => {
+			expect(normalizeSubscriptionStatus("on_trial")).toBe("trialing");
+			expect(normalizeSubscriptionStatus("cancelled")).toBe("canceled");
+			expect(normalizeSubscriptionStatus("expired")).toBe("expired");
+		});
+
+		it("maps Stripe and Polar statuses", () => {
+			expect(normalizeSubscriptionStatus("trialing")).toBe("trialing");
+			expect(normalizeSubscriptionStatus("canceled")).toBe("canceled");
+			expect(normalizeSubscriptionStatus("incomplete_expired")).toBe("expired");
+			expect(normalizeSubscriptionStatus("past_due")).toBe("past_due");
+		});
+
+		it("falls back to incomplete for unknown statuses", () => {
+			expect(normalizeSubscriptionStatus("something_new")).toBe("incomplete");
+			expect(normalizeSubscriptionStatus(undefined)).toBe("incomplete");
+		});
+	});
+
+	describe("isSubscriptionEntitled", () => {
+		const now = new Date("2025-01-15T00:00:00Z");
+
+		it("grants access for active and trialing subscriptions", () => {
+			expect(
+				isSubscriptionEntitled({ status: "active", currentPeriodEnd: null, endedAt: null }, now)
+			).toBe(true);
+			expect(
+				isSubscriptionEntitled({ status: "trialing", currentPeriodEnd: null, endedAt: null }, now)
+			).toBe(true);
+		});
+
+		it("keeps access for a canceled subscription until the period ends", () => {
+			const subscription = {
+				status: "canceled",
+				currentPeriodEnd: new Date("2025-02-01T00:00:00Z"),
+				endedAt: null,
+			};
+			expect(isSubscriptionEntitled(subscription, now)).toBe(true);
+			expect(isSubscriptionEntitled(subscription, new Date("2025-02-02T00:00:00Z"))).toBe(false);
+		});
+
+		it("denies access once the subscription has ended", () => {
+			expect(
+				isSubscriptionEntitled(
+					{
+						status: "canceled",
+						currentPeriodEnd: new Date("2025-02-01T00:00:00Z"),
+						endedAt: new Date("2025-01-10T00:00:00Z"),
+					},
+					now
+				)
+			).toBe(false);
+			expect(
+				isSubscriptionEntitled({ status: "expired", currentPeriodEnd: null, endedAt: null }, now)
+			).toBe(false);
+		});
+	});
+
+	describe("toSubscriptionDate", () => {
+		it("converts unix seconds and ISO strings", () => {
+			expect(toSubscriptionDate(1736899200)?.toISOString()).toBe("2025-01-15T00:00:00.000Z");
+			expect(toSubscriptionDate("2025-01-15T00:00:00Z")?.toISOString()).toBe(
+				"2025-01-15T00:00:00.000Z"
+			);
+		});
+
+		it("returns null for empty or invalid values", () => {
+			expect(toSubscriptionDate(null)).toBeNull();
+			expect(toSubscriptionDate("")).toBeNull();
+			expect(toSubscriptionDate("not a date")).toBeNull();
+		});
+	});
+
+	describe("without a database", () => {
+		it("does not record subscriptions", async () => {
+			const subscription = await SubscriptionService.upsertSubscription({
+				userId: "user-1",
+				processor: "stripe",
+				processorSubscriptionId: "sub_123",
+				status: "active",
+			});
+			expect(subscription).toBeNull();
+		});
+
+		it("reports no active subscription", async () => {
+			expect(await SubscriptionService.hasActiveSubscription("user-1")).toBe(false);
+		});
+	});
+});
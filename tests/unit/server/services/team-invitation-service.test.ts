@@ -0,0 +1,34 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/env", async (importOriginal) => {
+	const actual = await importOriginal<typeof import("@/env")>();
+	return { env: { ...actual.env, AUTH_SECRET: "test-invitation-secret" } };
+});
+vi.mock("@/server/services/rbac", () => ({ rbacService: { hasPermission: vi.fn() } }));
+
+import {
+	createInvitationToken,
+	verifyInvitationToken,
+} from "@/server/services/team-invitation-service";
+
+describe("Team Invitation Service", () => {
+	describe("invitation tokens", () => {
+		it("round-trips the invitation ID", () => {
+			const token = createInvitationToken("invite-123");
+			expect(token.startsWith("invite-123.")).toBe(true);
+			expect(verifyInvitationToken(token)).toBe("invite-123");
+		});
+
+		it("rejects tampered tokens", () => {
+			const [, signature] = createInvitationToken("invite-123").split(".");
+			expect(verifyInvitationToken(`invite-456.${signature}`)).toBeNull();
+			expect(verifyInvitationToken("invite-123.forged")).toBeNull();
+		});
+
+		it("rejects malformed tokens", () => {
+			expect(verifyInvitationToken("")).toBeNull();
+			expect(verifyInvitationToken("invite-123")).toBeNull();
+			expect(verifyInvitationToken("a.b.c")).toBeNull();
+		});
+	});
+});
@@ -0,0 +1,133 @@
+import crypto from "crypto";
+import { describe, expect, it, vi } from "vitest";
+
+const { deploymentService } = vi.hoisted(() => ({
+	deploymentService: {
+		getDeploymentByVercelProject: vi.fn(),
+		updateDeployment: vi.fn(),
+		detachVercelProject: vi.fn(),
+	},
+}));
+
+vi.mock("@/server/services/deployment-service", () => ({ deploymentService }));
+
+import {
+	getDeploymentUpdateFromVercelEvent,
+	handleVercelWebhookEvent,
+	type VercelWebhookEvent,
+	verifyVercelWebhookSignature,
+} from "@/server/services/vercel/vercel-webhook-service";
+
+const createEvent = (type: string, deploymentId = "dpl_1"): VercelWebhookEvent => ({
+	id: `evt_${type}`,
+	type,
+	createdAt: Date.now(),
+	payload: {
+		deployment: { id: deploymentId, url: "my-app-abc123.vercel.app" },
+		project: { id: "prj_1" },
+	},
+});
+
+describe("Vercel Webhook Service", () => {
+	describe("verifyVercelWebhookSignature", () => {
+		const body = '{"type":"deployment.succeeded"}';
+		const sign = (secret: string) => crypto.createHmac("sha1", secret).update(body).digest("hex");
+
+		it("accepts a signature made with the secret", () => {
+			expect(verifyVercelWebhookSignature(body, sign("secret"), "secret")).toBe(true);
+		});
+
+		it("rejects missing, malformed and foreign signatures", () => {
+			expect(verifyVercelWebhookSignature(body, null, "secret")).toBe(false);
+			expect(verifyVercelWebhookSignature(body, "not-hex", "secret")).toBe(false);
+			expect(verifyVercelWebhookSignature(body, sign("other"), "secret")).toBe(false);
+			expect(verifyVercelWebhookSignature(`${body} `, sign("secret"), "secret")).toBe(false);
+		});
+	});
+
+	describe("getDeploymentUpdateFromVercelEvent", () => {
+		it("maps deployment events to statuses", () => {
+			const record = { vercelDeploymentId: null };
+
+			expect(getDeploymentUpdateFromVercelEvent(createEvent("deployment.created"), record)).toEqual(
+				{
+					status: "deploying",
+					error: null,
+					vercelDeploymentId: "dpl_1",
+					vercelDeploymentUrl: "https://my-app-abc123.vercel.app",
+				}
+			);
+			expect(
+				getDeploymentUpdateFromVercelEvent(createEvent("deployment.succeeded"), record)?.status
+			).toBe("completed");
+			expect(
+				getDeploymentUpdateFromVercelEvent(createEvent("deployment.error"), record)
+			).toMatchObject({ status: "failed", error: "Vercel deployment failed" });
+			expect(
+				getDeploymentUpdateFromVercelEvent(createEvent("deployment.canceled"), record)
+			).toMatchObject({ status: "failed", error: "Deployment was canceled in Vercel" });
+		});
+
+		it("ignores events for an older deployment and late created events", () => {
+			const record = { vercelDeploymentId: "dpl_2" };
+
+			expect(
+				getDeploymentUpdateFromVercelEvent(createEvent("deployment.error"), record)
+			).toBeNull();
+			expect(
+				getDeploymentUpdateFromVercelEvent(createEvent("deployment.created", "dpl_2"), record)
+			).toBeNull();
+			expect(
+				getDeploymentUpdateFromVercelEvent(createEvent("deployment.created", "dpl_3"), record)
+					?.status
+			).toBe("deploying");
+		});
+
+		it("ignores other event types", () => {
+			expect(
+				getDeploymentUpdateFromVercelEvent(createEvent("deployment.promoted"), {
+					vercelDeploymentId: null,
+				})
+			).toBeNull();
+		});
+	});
+
+	describe("handleVercelWebhookEvent", () => {
+		it("updates the deployment record of the event's project", async () => {
+			deploymentService.getDeploymentByVercelProject.mockResolvedValueOnce({
+				id: "deployment-1",
+				vercelDeploymentId: "dpl_1",
+			});
+
+			await handleVercelWebhookEvent(createEvent("deployment.succeeded"));
+
+			expect(deploymentService.getDeploymentByVercelProject).toHaveBeenCalledWith("prj_1");
+			expect(deploymentService.updateDeployment).toHaveBeenCalledWith(
+				"deployment-1",
+				expect.objectContaining({ status: "completed" })
+			);
+		});
+
+		it("skips projects without a deployment record", async () => {
+			deploymentService.updateDeployment.mockClear();
+			deploymentService.getDeploymentByVercelProject.mockResolvedValueOnce(null);
+
+			await handleVercelWebhookEvent(createEvent("deployment.error"));
+
+			expect(deploymentService.updateDeployment).not.toHaveBeenCalled();
+		});
+
+		it("unlinks deployments when the project is removed", async () => {
+			deploymentService.detachVercelProject.mockResolvedValueOnce([]);
+
+			await handleVercelWebhookEvent({
+				id: "evt_removed",
+				type: "project.removed",
+				createdAt: Date.now(),
+				payload: { project: { id: "prj_1" } },
+			});
+
+			expect(deploymentService.detachVercelProject).toHaveBeenCalledWith("prj_1");
+		});
+	});
+});
@@ -1,12 +1,27 @@
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
+
+const { safeDbExecute, getFlag } = vi.hoisted(() => ({
+	safeDbExecute: vi.fn(),
+	getFlag: vi.fn(),
+}));
+
+vi.mock("@/server/db", () => ({ db: undefined, safeDbExecute }));
+vi.mock("@/server/lib/flags", () => ({ getFlag }));
+
 import {
 	addWaitlistEntry,
+	generateReferralCode,
 	getWaitlistEntries,
 	getWaitlistEntryByEmail,
+	getWaitlistQueueTime,
 	getWaitlistStats,
+	hashWaitlistInviteToken,
 	isEmailOnWaitlist,
+	isSignUpAllowed,
 	markWaitlistEntryAsNotified,
+	normalizeReferralCode,
 	updateWaitlistEntryMetadata,
+	WAITLIST_REFERRAL_BOOST_HOURS,
 } from "@/server/services/waitlist-service";
 
 describe("Waitlist Service Functions", () => {
@@ -43,3 +58,54 @@ describe("Waitlist Service Functions", () => {
 		expect(typeof mockEntry.name).toBe("string");
 	});
 });
+
+describe("Waitlist referrals", () => {
+	it("generates unambiguous referral codes", () => {
+		const codes = new Set(Array.from({ length: 50 }, generateReferralCode));
+		expect(codes.size).toBe(50);
+		for (const code of codes) {
+			expect(code).toMatch(/^[A-HJ-NP-Z2-9]{8}$/);
+			expect(normalizeReferralCode(code)).toBe(code);
+		}
+	});
+
+	it("normalizes referral codes from links", () => {
+		expect(normalizeReferralCode(" k7qx2mpa ")).toBe("K7QX2MPA");
+		expect(normalizeReferralCode("abc")).toBeNull();
+		expect(normalizeReferralCode("K7QX-2MPA")).toBeNull();
+		expect(normalizeReferralCode(undefined)).toBeNull();
+	});
+
+	it("moves entries up the queue for each referral", () => {
+		const createdAt = new Date("2025-03-10T12:00:00.000Z");
+		expect(getWaitlistQueueTime({ createdAt, referralCount: 0 })).toEqual(createdAt);
+		expect(getWaitlistQueueTime({ createdAt, referralCount: 2 }).getTime()).toBe(
+			createdAt.getTime() - 2 * WAITLIST_REFERRAL_BOOST_HOURS * 60 * 60 * 1000
+		);
+	});
+
+	it("hashes invite tokens", () => {
+		const hash = hashWaitlistInviteToken("token");
+		expect(hash).toMatch(/^[0-9a-f]{64}$/);
+		expect(hashWaitlistInviteToken("token")).toBe(hash);
+		expect(hashWaitlistInviteToken("other")).not.toBe(hash);
+	});
+});
+
+describe("isSignUpAllowed", () => {
+	it("allows every sign-up while sign-up is open", async () => {
+		getFlag.mockResolvedValueOnce(false);
+
+		await expect(isSignUpAllowed("new@example.com")).resolves.toBe(true);
+		expect(safeDbExecute).not.toHaveBeenCalled();
+	});
+
+	it("needs an account or an open invite while sign-up is invite-only", async () => {
+		getFlag.mockResolvedValue(true);
+		safeDbExecute.mockResolvedValueOnce(false);
+
+		await expect(isSignUpAllowed("new@example.com")).resolves.toBe(false);
+		await expect(isSignUpAllowed(null)).resolves.toBe(false);
+		getFlag.mockReset();
+	});
+});
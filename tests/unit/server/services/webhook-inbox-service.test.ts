@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from "vitest";
+
+const { handleWebhookEvent } = vi.hoisted(() => ({ handleWebhookEvent: vi.fn() }));
+
+vi.mock("@/server/providers/polar-provider", async (importOriginal) => ({
+	...(await importOriginal<typeof import("@/server/providers/polar-provider")>()),
+	polarProvider: { handleWebhookEvent },
+}));
+
+const event = { type: "order.paid", data: { id: "order-1" } };
+
+import {
+	getWebhookRetryDelay,
+	hashWebhookBody,
+	WebhookInboxService,
+} from "@/server/services/webhook-inbox-service";
+
+describe("Webhook Inbox Service", () => {
+	describe("getWebhookRetryDelay", () => {
+		it("doubles the delay with every attempt", () => {
+			expect(getWebhookRetryDelay(1)).toBe(60 * 1000);
+			expect(getWebhookRetryDelay(2)).toBe(2 * 60 * 1000);
+			expect(getWebhookRetryDelay(4)).toBe(8 * 60 * 1000);
+		});
+
+		it("caps the delay at six hours", () => {
+			expect(getWebhookRetryDelay(20)).toBe(6 * 60 * 60 * 1000);
+		});
+	});
+
+	describe("hashWebhookBody", () => {
+		it("returns the same hash for the same body", () => {
+			expect(hashWebhookBody('{"a":1}')).toBe(hashWebhookBody('{"a":1}'));
+			expect(hashWebhookBody('{"a":1}')).not.toBe(hashWebhookBody('{"a":2}'));
+		});
+	});
+
+	describe("without a database", () => {
+		it("processes events inline", async () => {
+			handleWebhookEvent.mockResolvedValueOnce(undefined);
+
+			const result = await WebhookInboxService.ingest({
+				provider: "polar",
+				eventId: "evt_1",
+				eventName: "order.paid",
+				body: JSON.stringify(event),
+			});
+
+			expect(result.status).toBe("processed");
+			expect(handleWebhookEvent).toHaveBeenCalledWith(event);
+		});
+
+		it("reports handler failures", async () => {
+			handleWebhookEvent.mockRejectedValueOnce(new Error("boom"));
+
+			const result = await WebhookInboxService.ingest({
+				provider: "polar",
+				eventName: "order.paid",
+				body: JSON.stringify(event),
+			});
+
+			expect(result).toMatchObject({ status: "failed", error: "boom" });
+		});
+
+		it("lists no events", async () => {
+			await expect(WebhookInboxService.listEvents()).resolves.toEqual([]);
+		});
+	});
+});
@@ -0,0 +1,128 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { resolveStorageDriverId } from "@/config/storage";
+import { LocalStorageDriver } from "@/server/storage/local-driver";
+import { StorageDriverError } from "@/server/storage/types";
+
+describe("LocalStorageDriver", () => {
+	let root: string;
+	let driver: LocalStorageDriver;
+
+	beforeEach(async () => {
+		root = await mkdtemp(path.join(tmpdir(), "storage-"));
+		driver = new LocalStorageDriver(root);
+	});
+
+	afterEach(async () => {
+		await rm(root, { recursive: true, force: true });
+	});
+
+	it("stores, reads and deletes objects with their content type", async () => {
+		const stored = await driver.put("avatars/1-me.png", Buffer.from("png"), {
+			contentType: "image/png",
+		});
+
+		expect(stored).toEqual({
+			key: "avatars/1-me.png",
+			url: "/api/storage/avatars/1-me.png",
+			size: 3,
+			contentType: "image/png",
+		});
+		const object = await driver.get("avatars/1-me.png");
+		expect(object?.data.toString()).toBe("png");
+		expect(object?.contentType).toBe("image/png");
+
+		await driver.delete("avatars/1-me.png");
+		await expect(driver.get("avatars/1-me.png")).resolves.toBeNull();
+	});
+
+	it("stores Uint8Array bodies", async () => {
+		const stored = await driver.put("notes.txt", new TextEncoder().encode("hello"));
+
+		expect(stored.size).toBe(5);
+		expect(stored.contentType).toBe("application/octet-stream");
+		expect((await driver.get("notes.txt"))?.data.toString()).toBe("hello");
+	});
+
+	it("rejects keys outside the storage directory", async () => {
+		await expect(driver.put("../escape.txt", Buffer.from("x"))).rejects.toBeInstanceOf(
+			StorageDriverError
+		);
+		expect(() => driver.resolvePath("a.txt.meta.json")).toThrow(StorageDriverError);
+	});
+
+	it("maps URLs back to keys", () => {
+		const url = driver.getUrl("my files/report 1.pdf");
+
+		expect(url).toBe("/api/storage/my%20files/report%201.pdf");
+		expect(driver.getKey(url)).toBe("my files/report 1.pdf");
+		expect(driver.getKey(`https://example.com${url}`)).toBe("my files/report 1.pdf");
+		expect(driver.getKey("https://bucket.s3.amazonaws.com/report.pdf")).toBeNull();
+	});
+
+	it("assembles multipart uploads from parts sent in any order", async () => {
+		const { uploadId } = await driver.createMultipartUpload("big.txt");
+		const second = await driver.uploadPart(
+			"big.txt",
+			uploadId,
+			2,
+			new TextEncoder().encode("world")
+		);
+		const first = await driver.uploadPart(
+			"big.txt",
+			uploadId,
+			1,
+			new TextEncoder().encode("hello ")
+		);
+
+		const stored = await driver.completeMultipartUpload("big.txt", uploadId, [second, first], {
+			contentType: "text/plain",
+		});
+
+		expect(stored.size).toBe(11);
+		expect((await driver.get("big.txt"))?.data.toString()).toBe("hello world");
+		expect(new TextDecoder().decode(await driver.readStart("big.txt", 5))).toBe("hello");
+		expect(() => driver.resolvePath(`.uploads/${uploadId}/1`)).toThrow(StorageDriverError);
+	});
+
+	it("rejects parts that do not match their ETag", async () => {
+		const { uploadId } = await driver.createMultipartUpload("big.txt");
+		const part = await driver.uploadPart("big.txt", uploadId, 1, new TextEncoder().encode("a"));
+
+		await expect(
+			driver.completeMultipartUpload("big.txt", uploadId, [{ ...part, etag: "wrong" }])
+		).rejects.toBeInstanceOf(StorageDriverError);
+		await expect(driver.get("big.txt")).resolves.toBeNull();
+
+		await driver.abortMultipartUpload("big.txt", uploadId);
+		await expect(driver.uploadPart("big.txt", "../x", 1, new Uint8Array())).rejects.toBeInstanceOf(
+			StorageDriverError
+		);
+	});
+});
+
+describe("resolveStorageDriverId", () => {
+	it("prefers the configured driver", () => {
+		expect(
+			resolveStorageDriverId({ driver: "local", s3Enabled: true, vercelBlobEnabled: true })
+		).toBe("local");
+	});
+
+	it("falls back to S3, then Vercel Blob", () => {
+		expect(resolveStorageDriverId({ driver: "", s3Enabled: true, vercelBlobEnabled: true })).toBe(
+			"s3"
+		);
+		expect(resolveStorageDriverId({ driver: "", s3Enabled: false, vercelBlobEnabled: true })).toBe(
+			"vercel-blob"
+		);
+	});
+
+	it("uses the local disk only outside production", () => {
+		const options = { driver: "", s3Enabled: false, vercelBlobEnabled: false };
+
+		expect(resolveStorageDriverId({ ...options, production: false })).toBe("local");
+		expect(resolveStorageDriverId({ ...options, production: true })).toBeNull();
+	});
+});